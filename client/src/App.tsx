@@ -34,19 +34,9 @@ import AvatarCompletionTest from "@/pages/avatar-completion-test";
 import EmailLogin from "@/pages/email-login";
 import SimpleLogin from "@/pages/simple-login";
 import LoginAdmin from "@/pages/login-admin-fixed";
-import MouthTrackingTest from "@/pages/mouth-tracking-test";
 import CameraDebug from "@/pages/camera-debug";
 import SimpleCameraTest from "@/pages/simple-camera-test";
 import CameraDebugFixed from "@/pages/camera-debug-fixed";
-import MouthTrackingEnhanced from "@/pages/mouth-tracking-enhanced";
-import MouthTrackingVisualDebug from "@/pages/mouth-tracking-visual-debug";
-import MouthTrackingWorking from "@/pages/mouth-tracking-working";
-import ComprehensiveTracking from "@/pages/comprehensive-tracking";
-import RealMediaPipeTracking from "@/pages/real-mediapipe-tracking";
-import WorkingMediaPipeTracking from "@/pages/working-mediapipe-tracking";
-import AuthenticMediaPipeTracking from "@/pages/authentic-mediapipe-tracking";
-import WorkingRealMediaPipe from "@/pages/working-real-mediapipe";
-import FixedMediaPipeTracking from "@/pages/fixed-mediapipe-tracking";
 import { AuthProvider, useAuth } from "./hooks/use-auth";
 import { SubscriptionProvider } from "./hooks/use-subscription";
 import { AvatarProvider } from "./hooks/use-avatar";
@@ -173,16 +163,6 @@ function Router() {
       <Route path="/avatar-completion-test">
         <AvatarCompletionTest />
       </Route>
-      <Route path="/mouth-tracking-test" component={MouthTrackingTest} />
-      <Route path="/mouth-tracking-enhanced" component={MouthTrackingEnhanced} />
-      <Route path="/mouth-tracking-visual-debug" component={MouthTrackingVisualDebug} />
-      <Route path="/mouth-tracking-working" component={MouthTrackingWorking} />
-      <Route path="/comprehensive-tracking" component={ComprehensiveTracking} />
-      <Route path="/real-tracking" component={RealMediaPipeTracking} />
-      <Route path="/working-tracking" component={WorkingMediaPipeTracking} />
-      <Route path="/authentic-tracking" component={AuthenticMediaPipeTracking} />
-      <Route path="/mediapipe-working" component={WorkingRealMediaPipe} />
-      <Route path="/mediapipe-fixed" component={FixedMediaPipeTracking} />
       <Route path="/camera-debug" component={CameraDebug} />
       <Route path="/simple-camera-test" component={SimpleCameraTest} />
       <Route path="/camera-debug-fixed" component={CameraDebugFixed} />
@@ -1,9 +1,14 @@
 import { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
-import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import { createGLTFLoader } from '@/lib/gltf-decoders';
 import { useAuth } from '@/hooks/useAuth';
 import { useQuery } from '@tanstack/react-query';
 import { avatarRiggingService, type RiggingConfiguration } from '@/services/avatar-rigging-service';
+import { buildBoneMap, type BoneMap } from '@shared/retargeting';
+import { retargetClip, skeletonFromScene } from '@/lib/retargeting';
+import { applyTrackingFrame, bindTrackedAvatar, type TrackedAvatar } from '@/lib/tracking-pose';
+import { useTrackingFrames } from '@/hooks/use-tracking';
+import type { TrackingFeatures } from '@/services/tracking-engine';
 
 interface AvatarAnimationControllerProps {
   avatarUrl: string;
@@ -12,16 +17,34 @@ interface AvatarAnimationControllerProps {
   autoFrame?: boolean;
   zoomLevel?: number;
   onAutoFrameComplete?: () => void;
+  boneMap?: BoneMap | null; // avatars.metadata.boneMap; detected on load when missing
+  // Clips authored on other skeletons (Mixamo, VRoid…), retargeted onto this avatar
+  clipLibrary?: Array<{ url: string; boneMap?: BoneMap | null }>;
+  // Live camera tracking; takes over from playing clips while enabled
+  enableTracking?: boolean;
+  trackingFeatures?: Partial<TrackingFeatures>;
+  cameraStream?: MediaStream | null;
 }
 
+// Stable default so the scene effect doesn't rerun on every render
+const NO_CLIPS: NonNullable<AvatarAnimationControllerProps['clipLibrary']> = [];
+
 export function AvatarAnimationController({ 
   avatarUrl, 
-  userPlan = 'free', 
+  userPlan, 
   onAnimationUpdate,
   autoFrame = false,
   zoomLevel = 1.0,
-  onAutoFrameComplete
+  onAutoFrameComplete,
+  boneMap = null,
+  clipLibrary = NO_CLIPS,
+  enableTracking = false,
+  trackingFeatures,
+  cameraStream = null
 }: AvatarAnimationControllerProps) {
+  // The rigging service is shared with the tracking engine, so default to the signed-in user's plan
+  const { user } = useAuth();
+  const plan = userPlan ?? (user as { plan?: string } | undefined)?.plan ?? 'free';
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
@@ -29,6 +52,9 @@ export function AvatarAnimationController({
   const modelRef = useRef<THREE.Group | null>(null);
   const animationMixerRef = useRef<THREE.AnimationMixer | null>(null);
   const virtualBonesRef = useRef<{ [key: string]: THREE.Object3D }>({});
+  const trackedAvatarRef = useRef<TrackedAvatar | null>(null);
+  const trackingRef = useRef(enableTracking);
+  trackingRef.current = enableTracking;
   const [riggingConfig, setRiggingConfig] = useState<RiggingConfiguration | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
   const [baseZoom, setBaseZoom] = useState(1.0);
@@ -37,7 +63,7 @@ export function AvatarAnimationController({
   useEffect(() => {
     const initializeRigging = async () => {
       try {
-        await avatarRiggingService.initialize(userPlan);
+        await avatarRiggingService.initialize(plan);
         const config = avatarRiggingService.getCurrentConfig();
         setRiggingConfig(config);
         setIsInitialized(true);
@@ -59,7 +85,11 @@ export function AvatarAnimationController({
     return () => {
       avatarRiggingService.removeConfigurationListener(handleConfigChange);
     };
-  }, [userPlan]);
+  }, [plan]);
+
+  useTrackingFrames((frame) => {
+    if (trackedAvatarRef.current) applyTrackingFrame(trackedAvatarRef.current, frame);
+  }, { enabled: enableTracking, stream: cameraStream, features: trackingFeatures });
 
   // Apply zoom level changes
   useEffect(() => {
@@ -294,7 +324,7 @@ export function AvatarAnimationController({
 
     // Load avatar model
     console.log('🔄 Loading avatar from URL:', avatarUrl);
-    const loader = new GLTFLoader();
+    const loader = createGLTFLoader(renderer);
     
     // Clear existing model first
     if (modelRef.current) {
@@ -325,6 +355,10 @@ export function AvatarAnimationController({
           }
         }
 
+        // Read the bind pose before any clip moves the bones
+        const targetBoneMap = boneMap ?? buildBoneMap(skeletonFromScene(model));
+        trackedAvatarRef.current = bindTrackedAvatar(model, targetBoneMap);
+
         // Setup animations if available
         if (gltf.animations && gltf.animations.length > 0) {
           const mixer = new THREE.AnimationMixer(model);
@@ -334,6 +368,22 @@ export function AvatarAnimationController({
           animationMixerRef.current = mixer;
           console.log('🎬 Animations setup complete');
         }
+
+        // Library clips target their own skeleton; replay them through both bone maps
+        clipLibrary.forEach(({ url, boneMap: clipBoneMap }) => {
+          loader.loadAsync(url).then((clipGltf) => {
+            if (modelRef.current !== model) return;
+            const sourceBoneMap = clipBoneMap ?? buildBoneMap(skeletonFromScene(clipGltf.scene));
+            const mixer = animationMixerRef.current ?? new THREE.AnimationMixer(model);
+            animationMixerRef.current = mixer;
+            clipGltf.animations.forEach((clip) => {
+              mixer.clipAction(retargetClip(clip, sourceBoneMap, targetBoneMap)).play();
+            });
+            console.log(`🎬 Retargeted ${clipGltf.animations.length} clip(s) from ${sourceBoneMap.convention} skeleton: ${url}`);
+          }).catch((error) => {
+            console.error('❌ Failed to load animation clip:', url, error);
+          });
+        });
       },
       (progress) => {
         const percent = Math.round((progress.loaded / progress.total) * 100);
@@ -371,7 +421,7 @@ export function AvatarAnimationController({
 
     // Render loop
     const render = () => {
-      if (animationMixerRef.current) {
+      if (animationMixerRef.current && !trackingRef.current) {
         const deltaTime = 0.016 * riggingConfig.animationResponsiveness;
         animationMixerRef.current.update(deltaTime);
       }
@@ -406,14 +456,14 @@ export function AvatarAnimationController({
       }
       renderer.dispose();
     };
-  }, [avatarUrl, isInitialized, riggingConfig]);
+  }, [avatarUrl, isInitialized, riggingConfig, boneMap, clipLibrary]);
 
   // Update rigging when user plan changes
   useEffect(() => {
     if (isInitialized) {
-      avatarRiggingService.updateUserPlan(userPlan);
+      avatarRiggingService.updateUserPlan(plan);
     }
-  }, [userPlan, isInitialized]);
+  }, [plan, isInitialized]);
 
   return (
     <div className="relative w-full h-full">
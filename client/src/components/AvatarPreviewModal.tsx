@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useToast } from "@/hooks/use-toast";
 import { useSubscription } from "@/hooks/use-subscription";
@@ -33,8 +33,7 @@ import {
 } from "lucide-react";
 import { AvatarAnimationController } from "./AvatarAnimationController";
 import ThreeModelViewer from "@/components/ThreeModelViewer";
-import FullBodyTracker from "@/components/FullBodyTracker";
-import RiggedModelAnimator from "@/components/RiggedModelAnimator";
+import { useTrackingFrames } from "@/hooks/use-tracking";
 import ConsoleCapture from "@/components/ConsoleCapture";
 
 
@@ -91,8 +90,23 @@ export function AvatarPreviewModal({ isOpen, onClose, avatarId, sessionId, tempA
   const [zoomLevel, setZoomLevel] = useState(1.0);
   const [autoFramed, setAutoFramed] = useState(false);
   const [modelLoading, setModelLoading] = useState(false);
-  const [fullBodyTrackingData, setFullBodyTrackingData] = useState<any>(null);
-  const [modelViewerElement, setModelViewerElement] = useState<any>(null);
+  // What the tracking engine currently sees, for the status card
+  const [trackingDetected, setTrackingDetected] = useState({ face: false, pose: false, hands: false });
+  const cameraVideoRef = useRef<HTMLVideoElement>(null);
+
+  useTrackingFrames(({ confidence }) => {
+    const detected = { face: confidence.face > 0, pose: confidence.pose > 0, hands: confidence.leftHand > 0 || confidence.rightHand > 0 };
+    // Frames arrive at camera rate; only re-render when detection changes
+    setTrackingDetected(prev => prev.face === detected.face && prev.pose === detected.pose && prev.hands === detected.hands ? prev : detected);
+  }, {
+    enabled: cameraActive,
+    stream: cameraStream,
+    features: { faceTracking: true, bodyTracking: true, handTracking: true }
+  });
+
+  useEffect(() => {
+    if (cameraVideoRef.current) cameraVideoRef.current.srcObject = cameraStream;
+  }, [cameraStream, cameraActive]);
   
   // Regeneration state
   const [isRegenerating, setIsRegenerating] = useState(false);
@@ -1235,28 +1249,10 @@ export function AvatarPreviewModal({ isOpen, onClose, avatarId, sessionId, tempA
                               bodyTracking={previewSettings.bodyTracking && cameraActive}
                               handTracking={previewSettings.eyeTracking && cameraActive}
                               isRigged={currentDisplayModel === 'rigged'}
+                              lodLevels={currentDisplayModel === 'rigged' ? avatar.lodLevels : null}
                               cameraStream={cameraStream}
-                              onModelLoad={setModelViewerElement}
+                              boneMap={avatar.metadata?.boneMap}
                             />
-                            
-                            {/* FullBodyTracker - Generates tracking data from camera stream */}
-                            {cameraActive && cameraStream && (
-                              <FullBodyTracker
-                                cameraStream={cameraStream}
-                                onTrackingData={(data) => {
-                                  console.log('🎯 Tracking data received:', data);
-                                  setFullBodyTrackingData(data);
-                                }}
-                              />
-                            )}
-                            
-                            {/* RiggedModelAnimator - Connects tracking data to rigged model animation */}
-                            <RiggedModelAnimator
-                              modelElement={modelViewerElement}
-                              trackingData={fullBodyTrackingData}
-                              isRigged={currentDisplayModel === 'rigged'}
-                            />
-
                           </div>
                           
                           {/* Model Version Controls */}
@@ -1415,10 +1411,12 @@ export function AvatarPreviewModal({ isOpen, onClose, avatarId, sessionId, tempA
                         <p className="text-sm text-muted-foreground">Real-time full-body tracking (face, hands, body, fingers)</p>
                       </div>
                       <div className="aspect-video bg-gradient-to-br from-gray-900 to-gray-800 rounded-lg overflow-hidden relative">
-                        <FullBodyTracker
-                          onTrackingData={setFullBodyTrackingData}
-                          className="w-full h-full"
-                          cameraStream={cameraStream}
+                        <video
+                          ref={cameraVideoRef}
+                          autoPlay
+                          muted
+                          playsInline
+                          className="w-full h-full object-cover"
                         />
                         <div className="absolute top-2 right-2">
                           <Badge variant="default" className="bg-green-600">
@@ -1587,29 +1585,29 @@ export function AvatarPreviewModal({ isOpen, onClose, avatarId, sessionId, tempA
                       </div>
                       <div className="flex justify-between">
                         <span>Face (468 landmarks):</span>
-                        <Badge variant={fullBodyTrackingData?.face?.detected && cameraActive ? "default" : "secondary"}>
-                          {fullBodyTrackingData?.face?.detected && cameraActive ? 'Tracking' : 'Off'}
+                        <Badge variant={trackingDetected.face && cameraActive ? "default" : "secondary"}>
+                          {trackingDetected.face && cameraActive ? 'Tracking' : 'Off'}
                         </Badge>
                       </div>
                       <div className="flex justify-between">
                         <span>Hands & Fingers:</span>
-                        <Badge variant={(fullBodyTrackingData?.hands?.left?.detected || fullBodyTrackingData?.hands?.right?.detected) && cameraActive ? "default" : "secondary"}>
-                          {(fullBodyTrackingData?.hands?.left?.detected || fullBodyTrackingData?.hands?.right?.detected) && cameraActive ? 'Tracking' : 'Off'}
+                        <Badge variant={trackingDetected.hands && cameraActive ? "default" : "secondary"}>
+                          {trackingDetected.hands && cameraActive ? 'Tracking' : 'Off'}
                         </Badge>
                       </div>
                       <div className="flex justify-between">
                         <span>Body Pose (33 points):</span>
-                        <Badge variant={fullBodyTrackingData?.pose?.detected && cameraActive ? "default" : "secondary"}>
-                          {fullBodyTrackingData?.pose?.detected && cameraActive ? 'Tracking' : 'Off'}
+                        <Badge variant={trackingDetected.pose && cameraActive ? "default" : "secondary"}>
+                          {trackingDetected.pose && cameraActive ? 'Tracking' : 'Off'}
                         </Badge>
                       </div>
                       <div className="flex justify-between">
                         <span>Rigged Model Animation:</span>
-                        <Badge variant={fullBodyTrackingData && cameraActive && (currentDisplayModel === 'rigged') ? "default" : "secondary"}>
-                          {fullBodyTrackingData && cameraActive && (currentDisplayModel === 'rigged') ? 'Active' : 'Off'}
+                        <Badge variant={(trackingDetected.face || trackingDetected.pose || trackingDetected.hands) && cameraActive && (currentDisplayModel === 'rigged') ? "default" : "secondary"}>
+                          {(trackingDetected.face || trackingDetected.pose || trackingDetected.hands) && cameraActive && (currentDisplayModel === 'rigged') ? 'Active' : 'Off'}
                         </Badge>
                       </div>
-                      {fullBodyTrackingData && cameraActive && (
+                      {(trackingDetected.face || trackingDetected.pose || trackingDetected.hands) && cameraActive && (
                         <div className="mt-3 p-2 bg-green-500/10 border border-green-500/20 rounded">
                           <div className="text-xs text-green-400">Live tracking data detected</div>
                         </div>
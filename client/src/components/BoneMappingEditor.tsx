@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { GlassCard } from "@/components/ui/glass-card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { HUMANOID_BONES, type BoneAssignments, type BoneMap, type HumanoidBoneName } from "@shared/retargeting";
+import { Bone, Loader2, RotateCcw, Save } from "lucide-react";
+
+interface BoneMappingEditorProps {
+  avatarId: number;
+  onBoneMapChange?: (boneMap: BoneMap) => void;
+}
+
+const UNMAPPED = "__unmapped__";
+
+const CONVENTION_LABELS: Record<BoneMap['convention'], string> = {
+  vida: 'VIDA rig',
+  vrm: 'VRM humanoid',
+  mixamo: 'Mixamo',
+  vroid: 'VRoid',
+  unreal: 'Unreal',
+  rigify: 'Blender Rigify',
+  unknown: 'Unknown'
+};
+
+const isFingerBone = (bone: HumanoidBoneName) => /(Thumb|Index|Middle|Ring|Little)/.test(bone);
+
+// "leftUpperArm" → "Left Upper Arm"
+const boneLabel = (bone: string) => bone.replace(/([A-Z])/g, ' $1').replace(/^./, letter => letter.toUpperCase());
+
+export default function BoneMappingEditor({ avatarId, onBoneMapChange }: BoneMappingEditorProps) {
+  const { toast } = useToast();
+  const [boneMap, setBoneMap] = useState<BoneMap | null>(null);
+  const [skeleton, setSkeleton] = useState<string[]>([]);
+  const [pending, setPending] = useState<BoneAssignments>({});
+  const [showFingers, setShowFingers] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    apiRequest("GET", `/api/avatars/${avatarId}/bone-map`)
+      .then((result) => {
+        if (cancelled) return;
+        setBoneMap(result.boneMap);
+        setSkeleton(result.skeleton || []);
+        setPending({});
+      })
+      .catch((error) => {
+        console.error('❌ Failed to load bone map:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [avatarId]);
+
+  const saveBoneMap = async (reset: boolean) => {
+    try {
+      setIsSaving(true);
+      const result = await apiRequest("PUT", `/api/avatars/${avatarId}/bone-map`, {
+        assignments: reset ? {} : pending,
+        reset
+      });
+      setBoneMap(result.boneMap);
+      setPending({});
+      onBoneMapChange?.(result.boneMap);
+      toast({
+        title: reset ? "Bone Mapping Reset" : "Bone Mapping Saved",
+        description: `${Object.keys(result.boneMap.bones).length} humanoid bones mapped`
+      });
+    } catch (error: any) {
+      console.error('❌ Failed to save bone map:', error);
+      toast({
+        title: "Bone Mapping Failed",
+        description: error.message || "Unable to save the bone mapping",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const nodeFor = (bone: HumanoidBoneName): string => {
+    if (bone in pending) return pending[bone] ?? UNMAPPED;
+    return boneMap?.bones[bone]?.node ?? UNMAPPED;
+  };
+
+  const visibleBones = HUMANOID_BONES.filter(bone => showFingers || !isFingerBone(bone));
+  const pendingCount = Object.keys(pending).length;
+
+  return (
+    <GlassCard className="p-6">
+      <CardHeader className="px-0 pt-0">
+        <CardTitle className="flex items-center gap-2">
+          <Bone className="h-5 w-5" />
+          Bone Mapping
+        </CardTitle>
+        <p className="text-sm text-gray-400">
+          How your avatar's skeleton drives tracking and animation clips
+        </p>
+      </CardHeader>
+      <CardContent className="px-0">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Reading skeleton...
+          </div>
+        ) : !boneMap || skeleton.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            This avatar has no skeleton yet. Auto-rig it to map its bones.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{CONVENTION_LABELS[boneMap.convention]}</Badge>
+                <span className="text-xs text-gray-400">
+                  {Object.keys(boneMap.bones).length} of {HUMANOID_BONES.length} bones mapped
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="show-fingers" className="text-xs">Fingers</Label>
+                <Switch id="show-fingers" checked={showFingers} onCheckedChange={setShowFingers} />
+              </div>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+              {visibleBones.map(bone => (
+                <div key={bone} className="flex items-center justify-between gap-3">
+                  <Label className="text-xs w-36 shrink-0 flex items-center gap-1">
+                    {boneLabel(bone)}
+                    {(boneMap.edited?.includes(bone) || bone in pending) && (
+                      <span className="w-1.5 h-1.5 rounded-full bg-primary" title="Edited by hand" />
+                    )}
+                  </Label>
+                  <Select
+                    value={nodeFor(bone)}
+                    onValueChange={(node) => setPending(prev => ({ ...prev, [bone]: node === UNMAPPED ? null : node }))}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED} className="text-xs text-gray-400">Not mapped</SelectItem>
+                      {skeleton.map(node => (
+                        <SelectItem key={node} value={node} className="text-xs">{node}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                onClick={() => saveBoneMap(false)}
+                disabled={isSaving || pendingCount === 0}
+                className="flex-1"
+              >
+                {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Mapping{pendingCount > 0 ? ` (${pendingCount})` : ''}
+              </Button>
+              <Button
+                onClick={() => saveBoneMap(true)}
+                disabled={isSaving || (!boneMap.edited?.length && pendingCount === 0)}
+                variant="outline"
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Auto-detect
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </GlassCard>
+  );
+}
@@ -204,6 +204,7 @@ export default function CoStreamGrid({
                  
                  // Streaming configuration
                  isStreaming={isStreaming}
+                 participantCount={participants.length}
                  
                  // Optional participant-specific UI
                  showParticipantInfo={true}
@@ -0,0 +1,151 @@
+/**
+ * VIDA³ Confidence Monitor
+ * Plays the server's HLS rendition of the outgoing encode so creators see
+ * what viewers receive, with end-to-end latency from program date-time tags
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import Hls from 'hls.js';
+import { getAuthHeaders } from '@/lib/auth-helper';
+
+interface ConfidenceMonitorProps {
+  streamId: string;
+  onLatency?: (latencyMs: number | null) => void;
+  className?: string;
+}
+
+type MonitorState = 'waiting' | 'playing' | 'error';
+
+const READY_POLL_MS = 1000;
+const LATENCY_SAMPLE_MS = 500;
+
+export const ConfidenceMonitor: React.FC<ConfidenceMonitorProps> = ({
+  streamId,
+  onLatency,
+  className = ''
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [state, setState] = useState<MonitorState>('waiting');
+  const [latency, setLatency] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let hls: Hls | null = null;
+    let pollTimer: ReturnType<typeof setTimeout> | null = null;
+    let latencyTimer: ReturnType<typeof setInterval> | null = null;
+    let clockOffset = 0; // server clock minus local clock
+
+    const statusUrl = `/api/stream/preview/${encodeURIComponent(streamId)}/status`;
+
+    const reportLatency = (value: number | null) => {
+      setLatency(value);
+      onLatency?.(value);
+    };
+
+    const sampleLatency = () => {
+      const playingDate = hls?.playingDate;
+      if (!playingDate) return;
+      reportLatency(Math.max(0, Date.now() + clockOffset - playingDate.getTime()));
+    };
+
+    const startPlayback = (playlistUrl: string) => {
+      const video = videoRef.current;
+      if (!video) return;
+
+      if (!Hls.isSupported()) {
+        // Safari plays HLS natively but can't send our auth header or expose PDT latency
+        setState('error');
+        setError('Confidence monitor needs Media Source Extensions support');
+        return;
+      }
+
+      hls = new Hls({
+        lowLatencyMode: true,
+        liveSyncDurationCount: 1,
+        liveMaxLatencyDurationCount: 3,
+        // Fetched per request: Supabase refreshes the token during a long stream
+        xhrSetup: async (xhr, url) => {
+          const authHeaders = await getAuthHeaders();
+          xhr.open('GET', url, true);
+          Object.entries(authHeaders).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+        }
+      });
+
+      hls.on(Hls.Events.ERROR, (_event, data) => {
+        if (!data.fatal) return;
+        console.error('Confidence monitor playback error:', data);
+        setState('error');
+        setError(data.details);
+      });
+
+      hls.loadSource(playlistUrl);
+      hls.attachMedia(video);
+      video.muted = true;
+      video.play().catch(() => {
+        // Autoplay may be blocked until the user interacts; controls are shown
+      });
+
+      setState('playing');
+      latencyTimer = setInterval(sampleLatency, LATENCY_SAMPLE_MS);
+    };
+
+    // Wait for the first segment, estimating the server clock offset on the way
+    const pollReady = async () => {
+      try {
+        const requestedAt = Date.now();
+        const res = await fetch(statusUrl, { headers: await getAuthHeaders() });
+        const respondedAt = Date.now();
+        if (cancelled) return;
+
+        if (res.ok) {
+          const status = await res.json();
+          clockOffset = status.serverTime - (requestedAt + respondedAt) / 2;
+
+          if (status.ready) {
+            startPlayback(status.playlistUrl);
+            return;
+          }
+        }
+      } catch (pollError) {
+        console.warn('Confidence monitor status check failed:', pollError);
+      }
+
+      if (!cancelled) {
+        pollTimer = setTimeout(pollReady, READY_POLL_MS);
+      }
+    };
+
+    setState('waiting');
+    setError(null);
+    reportLatency(null);
+    pollReady();
+
+    return () => {
+      cancelled = true;
+      if (pollTimer) clearTimeout(pollTimer);
+      if (latencyTimer) clearInterval(latencyTimer);
+      hls?.destroy();
+    };
+  }, [streamId]);
+
+  return (
+    <div className={`relative bg-black rounded overflow-hidden aspect-video ${className}`}>
+      <video ref={videoRef} className="w-full h-full object-contain" playsInline muted controls={state === 'playing'} />
+
+      {state !== 'playing' && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-300">
+          {state === 'waiting' ? 'Waiting for encoded output…' : `Preview unavailable: ${error}`}
+        </div>
+      )}
+
+      {state === 'playing' && latency !== null && (
+        <div className="absolute top-2 right-2 px-2 py-1 rounded bg-black/70 text-xs font-mono text-white">
+          {(latency / 1000).toFixed(1)}s behind live
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConfidenceMonitor;
@@ -11,6 +11,15 @@ import { useSubscription } from "@/hooks/use-subscription.tsx";
 import { getAuthHeaders } from "@/lib/auth-helper";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { CanvasFrameTransport } from "@/lib/canvas-frame-transport";
+import { StudioAudioCapture } from "@/lib/studio-audio-capture";
+import { MediaTrack, type AudioLevelsMessage, type AudioSourceLevel } from "@shared/frame-protocol";
+import {
+  GATEWAY_PATH,
+  GATEWAY_PROTOCOL_VERSION,
+  type GatewayClientMessage,
+  type GatewayServerMessage,
+} from "@shared/streaming-gateway-protocol";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -44,7 +53,13 @@ import {
   Upload,
   UserPlus,
   Crown,
-  Grid3X3
+  Grid3X3,
+  Music,
+  Volume2,
+  VolumeX,
+  Disc,
+  Gauge,
+  ScanFace
 } from "lucide-react";
 
 // Import streaming components
@@ -53,6 +68,9 @@ import UserSearch from "./UserSearch";
 import ParticipantTile from "./Streaming/ParticipantTile";
 import PendingInvitations from "./PendingInvitations";
 import CoStreamGrid from "./CoStreamGrid";
+import StreamingStatusIndicator from "./StreamingStatusIndicator";
+import TrackingCalibrationWizard from "./TrackingCalibrationWizard";
+import { useTrackingCalibration } from "@/hooks/use-tracking";
 // import { useAvatar } from "@/hooks/use-avatar"; // No longer needed
 
 export default function StableStreamingStudio() {
@@ -95,6 +113,8 @@ export default function StableStreamingStudio() {
   // WebRTC state for live video streams
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [cameraStreamForTracking, setCameraStreamForTracking] = useState<MediaStream | null>(null);
+  const [showCalibrationWizard, setShowCalibrationWizard] = useState(false);
+  const trackingCalibration = useTrackingCalibration();
   const [remoteStreams, setRemoteStreams] = useState<Map<string, MediaStream>>(new Map());
   const [peerConnections, setPeerConnections] = useState<Map<string, RTCPeerConnection>>(new Map());
 
@@ -160,6 +180,14 @@ export default function StableStreamingStudio() {
   const [micEnabled, setMicEnabled] = useState(true);
   const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
 
+  // Studio audio mix (sent to the server and mixed into the RTMP output)
+  const [audioReady, setAudioReady] = useState(false);
+  const [micGain, setMicGain] = useState<number[]>([100]);
+  const [musicGain, setMusicGain] = useState<number[]>([60]);
+  const [musicMuted, setMusicMuted] = useState(false);
+  const [musicUrl, setMusicUrl] = useState<string | null>(null);
+  const [audioLevels, setAudioLevels] = useState<AudioLevelsMessage | null>(null);
+
   // Background settings
   const [backgroundType, setBackgroundType] = useState<'virtual' | 'color' | 'blur'>('virtual');
   const [selectedVirtualBg, setSelectedVirtualBg] = useState('');
@@ -168,9 +196,17 @@ export default function StableStreamingStudio() {
   const [avatarOpacity, setAvatarOpacity] = useState<number[]>([80]);
 
   // Stream quality and optimization
-  const [streamQuality, setStreamQuality] = useState<'720p' | '1080p'>('1080p');
+  // Until the plan loads, assume the free plan's limits so the server won't reject the stream
+  const maxStreamResolution = currentPlan?.maxStreamResolution ?? '720p';
+  const [streamQuality, setStreamQuality] = useState<'720p' | '1080p'>(maxStreamResolution);
   const [autoOptimizeBitrate, setAutoOptimizeBitrate] = useState(true);
   const [manualBitrate, setManualBitrate] = useState(6000);
+  const [recordLocally, setRecordLocally] = useState(false);
+  const [previewStreamId, setPreviewStreamId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setStreamQuality(maxStreamResolution);
+  }, [maxStreamResolution]);
 
   // RTMP Sources management
   const queryClient = useQueryClient();
@@ -183,6 +219,10 @@ export default function StableStreamingStudio() {
 
   const [currentSource, setCurrentSource] = useState<any>(null);
 
+  // Additional RTMP sources to simulcast to alongside currentSource
+  const [simulcastSourceIds, setSimulcastSourceIds] = useState<string[]>([]);
+  const [destinationStatuses, setDestinationStatuses] = useState<Record<string, { status: string; error?: string; reconnectAttempts?: number; maxReconnectAttempts?: number; retryInMs?: number }>>({});
+
   // Scene lighting state
   const [sceneLighting, setSceneLighting] = useState({
     brightness: 75,
@@ -198,6 +238,9 @@ export default function StableStreamingStudio() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [copied, setCopied] = useState(false);
 
+  // Ingest preflight results per RTMP source id
+  const [preflightResults, setPreflightResults] = useState<Record<string, any>>({});
+
   // Co-streaming functions
   const initializeCoStreamSession = useCallback(async () => {
     if (!coStreamEnabled) return;
@@ -1031,21 +1074,12 @@ export default function StableStreamingStudio() {
     });
   }, [localStream, initializeLocalStream]);
 
-  // Calculate optimal bitrate based on subscription tier and quality
+  // Calculate optimal bitrate based on subscription tier and quality: the server's
+  // default for the resolution, capped at the plan's limit (the free plan's until plans load)
   const getOptimalBitrate = useCallback((sourceName: string, quality: '720p' | '1080p' = streamQuality) => {
-    const userPlan = user?.supabaseUser?.user_metadata?.plan || 'free';
-    
-    // Bitrate limits by subscription tier
-    const tierLimits = {
-      'free': { '720p': 2500, '1080p': 4000 },
-      'starter': { '720p': 3500, '1080p': 5500 },
-      'goat': { '720p': 6000, '1080p': 9000 }
-    };
-
-    // Return tier limit based on user plan
-    const limit = tierLimits[userPlan as keyof typeof tierLimits] || tierLimits.free;
-    return limit[quality];
-  }, [user, streamQuality]);
+    const qualityBitrates = { '720p': 3000, '1080p': 6000 };
+    return Math.min(qualityBitrates[quality], currentPlan?.maxStreamBitrate ?? 2500);
+  }, [currentPlan, streamQuality]);
 
   // Daily random background selection based on user's subscription tier
   const getDailyRandomBackground = useCallback(() => {
@@ -1136,6 +1170,37 @@ export default function StableStreamingStudio() {
     },
   });
 
+  const preflightMutation = useMutation({
+    mutationFn: async (sourceId: number) => {
+      return await apiRequest("POST", "/api/stream/preflight", { sourceId });
+    },
+    onSuccess: (result: any) => {
+      setPreflightResults(prev => ({ ...prev, [String(result.sourceId)]: result }));
+      toast({
+        title: result.ok ? "Ingest Reachable" : "Connection Test Failed",
+        description: result.ok && result.bandwidth
+          ? `Upload ${(result.bandwidth.uploadKbps / 1000).toFixed(1)} Mbps - recommended bitrate ${result.recommendedBitrate}k`
+          : result.message,
+        variant: result.ok ? "default" : "destructive"
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Connection Test Failed",
+        description: error.message || "Could not run the preflight check",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const preflightStatusLabels: Record<string, string> = {
+    ok: 'Ready',
+    dns_failed: 'Host not found',
+    tcp_refused: 'Connection refused',
+    handshake_failed: 'Handshake failed',
+    auth_rejected: 'Stream key rejected'
+  };
+
   // Load high-resolution cached images from IPFS system (only once)
   useEffect(() => {
     const loadCachedImages = async () => {
@@ -1242,79 +1307,182 @@ export default function StableStreamingStudio() {
     setIsLive(true);
     setConnectionStatus('connecting');
 
-    // Create WebSocket connection for RTMP streaming
+    // The streaming gateway identifies us from the access token, not from anything we claim
+    const session = await import('@/lib/supabase').then(m => m.supabase.auth.getSession());
+    const token = session.data.session?.access_token;
+    if (!token) {
+      setIsStreaming(false);
+      setIsLive(false);
+      setConnectionStatus('error');
+      toast({
+        title: "Sign In Required",
+        description: "Your session has expired. Please sign in again to go live.",
+        variant: "destructive"
+      });
+      return;
+    }
+
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/rtmp-relay`;
+    const wsUrl = `${protocol}//${window.location.host}${GATEWAY_PATH}`;
+    const send = (message: GatewayClientMessage) => wsRef.current?.send(JSON.stringify(message));
     
     try {
       wsRef.current = new WebSocket(wsUrl);
       
       wsRef.current.onopen = () => {
-        console.log('WebSocket connected for RTMP streaming');
+        console.log('Connected to streaming gateway');
+        send({ type: 'hello', version: GATEWAY_PROTOCOL_VERSION, token });
+      };
+
+      const startGatewayStream = () => {
         setConnectionStatus('connecting');
         
         // Start RTMP stream
         streamIdRef.current = `stream_${Date.now()}`;
+        frameTransportRef.current = new CanvasFrameTransport(wsRef.current!, streamIdRef.current);
+
+        // Microphone (and music bus, if loaded) are mixed server-side into the RTMP output
+        const audioCapture = new StudioAudioCapture(wsRef.current!, streamIdRef.current);
+        audioCaptureRef.current = audioCapture;
+        audioCapture.addMicrophone()
+          .then(() => setAudioReady(true))
+          .catch((error) => {
+            console.warn('Microphone unavailable - streaming without mic audio:', error);
+            setAudioReady(true);
+            toast({
+              title: "Microphone Unavailable",
+              description: "Your stream will continue without microphone audio.",
+              variant: "destructive"
+            });
+          });
         
         // Calculate bitrate based on auto-optimize setting
-        const bitrate = autoOptimizeBitrate 
-          ? getOptimalBitrate(currentSource.name, streamQuality)
-          : parseInt(currentSource.bitrate) || getOptimalBitrate(currentSource.name, streamQuality);
+        const bitrateFor = (source: any) => autoOptimizeBitrate 
+          ? getOptimalBitrate(source.name, streamQuality)
+          : parseInt(source.bitrate) || getOptimalBitrate(source.name, streamQuality);
+        const bitrate = bitrateFor(currentSource);
+
+        // Primary source first, then any extra simulcast targets
+        const destinations = [
+          currentSource,
+          ...rtmpSources.filter((source: any) => source.id !== currentSource.id && simulcastSourceIds.includes(String(source.id)))
+        ].map((source: any) => ({
+          // The server resolves URL and stream key from the saved source
+          id: String(source.id),
+          sourceId: source.id,
+          name: source.name,
+          bitrate: bitrateFor(source)
+        }));
+        setDestinationStatuses({});
           
-        wsRef.current?.send(JSON.stringify({
-          type: 'start-webrtc-stream',
+        send({
+          type: 'start-stream',
           streamId: streamIdRef.current,
-          rtmpUrl: currentSource.url || currentSource.rtmp_url,
-          streamKey: currentSource.stream_key,
+          destinations,
           quality: streamQuality,
           bitrate: bitrate,
-          userPlan: user?.supabaseUser?.user_metadata?.plan || user?.plan || 'free',
+          record: recordLocally,
+          preview: true,
           coStreamEnabled: coStreamEnabled,
           sessionId: coStreamSession?.id
-        }));
+        });
         
-        console.log(`🚀 Starting stream to ${currentSource.name} with quality: ${streamQuality}, bitrate: ${bitrate}k (${autoOptimizeBitrate ? 'auto-optimized' : 'manual'}) ${coStreamEnabled ? 'with co-streaming' : ''}`);
+        console.log(`🚀 Starting stream to ${destinations.map(d => d.name).join(', ')} with quality: ${streamQuality}, bitrate: ${bitrate}k (${autoOptimizeBitrate ? 'auto-optimized' : 'manual'}) ${coStreamEnabled ? 'with co-streaming' : ''}`);
       };
 
       wsRef.current.onmessage = (event) => {
-        const data = JSON.parse(event.data);
+        const data: GatewayServerMessage = JSON.parse(event.data);
         console.log('WebSocket message:', data);
         
         switch (data.type) {
-          case 'webrtc-stream-ready':
+          case 'welcome':
+            startGatewayStream();
+            break;
+
+          case 'gateway-error':
+            console.error('Streaming gateway error:', data);
+            setConnectionStatus('error');
+            setIsStreaming(false);
+            setIsLive(false);
+            toast({
+              title: data.code === 'unauthorized' ? "Sign In Required" : "Streaming Unavailable",
+              description: data.message,
+              variant: "destructive"
+            });
+            break;
+
+          case 'stream-ready':
             setConnectionStatus('connected');
             setIsLive(true);
+            if (data.encodingProfile?.frameRate) {
+              frameTransportRef.current?.setMaxFrameRate(data.encodingProfile.frameRate);
+            }
+            setPreviewStreamId(data.previewUrl ? data.streamId : null);
             toast({
               title: "Stream Live",
-              description: `Successfully streaming to ${currentSource.name}`,
+              description: data.destinations.length > 1
+                ? `Simulcasting to ${data.destinations.map(d => d.name).join(', ')}`
+                : `Successfully streaming to ${currentSource.name}`,
             });
             break;
             
-          case 'webrtc-stream-error':
+          case 'destination-status':
+            setDestinationStatuses(prev => ({
+              ...prev,
+              [data.destinationId]: {
+                status: data.status,
+                error: data.error,
+                reconnectAttempts: data.reconnectAttempts,
+                maxReconnectAttempts: data.maxReconnectAttempts,
+                retryInMs: data.retryInMs
+              }
+            }));
+            if (data.status === 'failed') {
+              toast({
+                title: `${data.name} Disconnected`,
+                description: data.error || "Destination failed after several reconnection attempts",
+                variant: "destructive"
+              });
+            }
+            break;
+            
+          case 'stream-state':
+            if (data.state === 'reconnecting') {
+              setConnectionStatus('connecting');
+              toast({
+                title: "Reconnecting",
+                description: "Lost connection to your destinations. Buffering and retrying automatically...",
+              });
+            } else if (data.state === 'live') {
+              setConnectionStatus('connected');
+              if (data.previousState === 'reconnecting') {
+                toast({
+                  title: "Back Live",
+                  description: "Connection restored",
+                });
+              }
+            }
+            break;
+
+          case 'stream-error':
             console.error('Stream error details:', data);
             setConnectionStatus('error');
             setIsStreaming(false);
             setIsLive(false);
             toast({
-              title: "Stream Failed",
-              description: data.error || data.details || "Failed to connect to RTMP server",
+              title: data.field ? "Stream Settings Not Allowed" : "Stream Failed",
+              description: data.error || "Failed to connect to RTMP server",
               variant: "destructive"
             });
             break;
             
-          case 'webrtc-stream-ended':
-            setConnectionStatus('error');
-            toast({
-              title: "Stream Error",
-              description: data.error || "Streaming error occurred",
-              variant: "destructive"
-            });
+          case 'stream-backpressure':
+            frameTransportRef.current?.handleBackpressure(data);
             break;
             
-          case 'stream-status':
-            if (data.status === 'live') {
-              setIsLive(true);
-              setViewers(Math.floor(Math.random() * 50) + 10);
+          case 'audio-levels':
+            if (data.streamId === streamIdRef.current) {
+              setAudioLevels(data);
             }
             break;
         }
@@ -1332,13 +1500,8 @@ export default function StableStreamingStudio() {
       // Start frame capture at 30 FPS for smooth streaming
       frameIntervalRef.current = setInterval(() => {
         if (canvasRef.current && wsRef.current?.readyState === WebSocket.OPEN) {
-          // Capture high-quality frame with optimized compression
-          const dataURL = canvasRef.current.toDataURL('image/png', 0.95);
-          wsRef.current.send(JSON.stringify({
-            type: 'canvas-frame',
-            streamId: streamIdRef.current,
-            frameData: dataURL
-          }));
+          // Binary JPEG frame; skipped automatically while the server is backpressured
+          frameTransportRef.current?.sendFrame(canvasRef.current);
         }
       }, 33); // 30 FPS (1000ms / 30 = 33ms)
 
@@ -1354,13 +1517,15 @@ export default function StableStreamingStudio() {
         variant: "destructive"
       });
     }
-  }, [currentSource, streamQuality, toast, coStreamEnabled, coStreamSession]);
+  }, [currentSource, rtmpSources, simulcastSourceIds, streamQuality, recordLocally, toast, coStreamEnabled, coStreamSession]);
 
   const handleStopStream = useCallback(() => {
     setIsStreaming(false);
     setIsLive(false);
     setConnectionStatus('disconnected');
     setViewers(0);
+    setDestinationStatuses({});
+    setPreviewStreamId(null);
     
     // Stop frame capture
     if (frameIntervalRef.current) {
@@ -1370,13 +1535,18 @@ export default function StableStreamingStudio() {
     
     // Send stop stream command
     if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({
-        type: 'stop-rtmp-stream',
-        streamId: streamIdRef.current
-      }));
+      const stop: GatewayClientMessage = { type: 'stop-stream', streamId: streamIdRef.current };
+      wsRef.current.send(JSON.stringify(stop));
     }
     
+    // Release microphone and audio graph
+    audioCaptureRef.current?.stop();
+    audioCaptureRef.current = null;
+    setAudioReady(false);
+    setAudioLevels(null);
+
     // Close WebSocket connection
+    frameTransportRef.current = null;
     if (wsRef.current) {
       wsRef.current.close();
       wsRef.current = null;
@@ -1384,9 +1554,46 @@ export default function StableStreamingStudio() {
     
     toast({
       title: "Stream Ended",
-      description: "Your stream has been stopped.",
+      description: recordLocally
+        ? "Your stream has been stopped. The recording will appear in Stream Management once it's processed."
+        : "Your stream has been stopped.",
     });
-  }, [toast]);
+  }, [toast, recordLocally]);
+
+  // Push mic / music gain and mute changes to the server-side mixer
+  useEffect(() => {
+    const capture = audioCaptureRef.current;
+    if (!audioReady || !capture) return;
+
+    capture.setMuted(MediaTrack.MICROPHONE, !micEnabled);
+    capture.setGain(MediaTrack.MICROPHONE, micGain[0] / 100);
+    capture.setMuted(MediaTrack.MUSIC, musicMuted);
+    capture.setGain(MediaTrack.MUSIC, musicGain[0] / 100);
+  }, [audioReady, micEnabled, micGain, musicGain, musicMuted]);
+
+  // Attach or detach the music/SFX bus while live
+  useEffect(() => {
+    const capture = audioCaptureRef.current;
+    const element = musicAudioRef.current;
+    if (!audioReady || !capture || !element) return;
+
+    if (!musicUrl) {
+      capture.removeSource(MediaTrack.MUSIC);
+      return;
+    }
+
+    element.play()
+      .then(() => capture.addMusicElement(element))
+      .catch((error) => console.warn('Unable to route music bus:', error));
+  }, [audioReady, musicUrl]);
+
+  const handleMusicFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setMusicUrl(previous => {
+      if (previous) URL.revokeObjectURL(previous);
+      return file ? URL.createObjectURL(file) : null;
+    });
+  }, []);
 
   // Refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -1394,6 +1601,9 @@ export default function StableStreamingStudio() {
   const streamRef = useRef<MediaStream | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
   const streamIdRef = useRef<string>('');
+  const frameTransportRef = useRef<CanvasFrameTransport | null>(null);
+  const audioCaptureRef = useRef<StudioAudioCapture | null>(null);
+  const musicAudioRef = useRef<HTMLAudioElement>(null);
   const frameIntervalRef = useRef<NodeJS.Timeout | null>(null);
   
   // Co-streaming WebSocket refs
@@ -1491,8 +1701,6 @@ export default function StableStreamingStudio() {
                             }
                           }
                           
-                          const dataURL = canvas.toDataURL('image/png');
-                          
                           // Debug streaming content every few frames
                           if (Math.random() < 0.02) {
                             const centerPixel = ctx?.getImageData(canvas.width/2, canvas.height/2, 1, 1);
@@ -1503,11 +1711,7 @@ export default function StableStreamingStudio() {
                             console.log(`📺 RTMP Send: bg=${backgroundType}, selected=${selectedVirtualBg}, hasContent=${hasContent}, centerRGB(${r},${g},${b}), bgLoaded=${backgroundImagesLoaded}`);
                           }
                           
-                          wsRef.current.send(JSON.stringify({
-                            type: 'canvas-frame',
-                            streamId: streamIdRef.current,
-                            frameData: dataURL
-                          }));
+                          frameTransportRef.current?.sendFrame(canvas);
                         }
                       }}
                       
@@ -1646,6 +1850,10 @@ export default function StableStreamingStudio() {
                   )}
                 </div>
 
+                {previewStreamId && (
+                  <StreamingStatusIndicator streamId={previewStreamId} showConfidenceMonitor />
+                )}
+
                 <div className="text-sm text-muted-foreground">
                   Status: <span className={`font-medium ${
                     connectionStatus === 'connected' ? 'text-green-600' :
@@ -1661,6 +1869,80 @@ export default function StableStreamingStudio() {
 
           {/* Settings Panel */}
           <div className="space-y-6">
+            {/* Audio Mixer */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Volume2 className="w-5 h-5" />
+                  Audio Mixer
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label className="flex items-center gap-2">
+                      {micEnabled ? <Mic className="w-4 h-4" /> : <MicOff className="w-4 h-4" />}
+                      Microphone
+                    </Label>
+                    <span className="text-xs text-muted-foreground">{micGain[0]}%</span>
+                  </div>
+                  <Slider value={micGain} onValueChange={setMicGain} min={0} max={200} step={5} />
+                  <AudioLevelMeter level={audioLevels?.sources.microphone} />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label className="flex items-center gap-2">
+                      <Music className="w-4 h-4" />
+                      Music / SFX
+                    </Label>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground">{musicGain[0]}%</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setMusicMuted(!musicMuted)}
+                        disabled={!musicUrl}
+                      >
+                        {musicMuted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                  </div>
+                  <Input type="file" accept="audio/*" onChange={handleMusicFileChange} />
+                  <Slider value={musicGain} onValueChange={setMusicGain} min={0} max={200} step={5} disabled={!musicUrl} />
+                  <AudioLevelMeter level={audioLevels?.sources.music} />
+                  {musicUrl && (
+                    <audio ref={musicAudioRef} src={musicUrl} loop className="hidden" />
+                  )}
+                </div>
+
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Stream output</Label>
+                  <AudioLevelMeter level={audioLevels?.master} />
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Tracking Calibration */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ScanFace className="w-5 h-5" />
+                  Tracking Calibration
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  {trackingCalibration
+                    ? `Calibrated ${new Date(trackingCalibration.calibratedAt).toLocaleDateString()} to your face and pose.`
+                    : 'Capture your neutral face, expression range and T-pose so the avatar moves as fully as you do.'}
+                </p>
+                <Button variant="outline" className="w-full" onClick={() => setShowCalibrationWizard(true)}>
+                  {trackingCalibration ? 'Recalibrate' : 'Calibrate Tracking'}
+                </Button>
+              </CardContent>
+            </Card>
+
             {/* RTMP Sources */}
             <Card>
               <CardHeader>
@@ -1684,23 +1966,96 @@ export default function StableStreamingStudio() {
                         className="flex-1 cursor-pointer"
                         onClick={() => setCurrentSource(source)}
                       >
-                        <div className="font-medium">{source.name}</div>
+                        <div className="font-medium flex items-center gap-2">
+                          {source.name}
+                          {destinationStatuses[String(source.id)] && (
+                            <Badge
+                              variant={destinationStatuses[String(source.id)].status === 'failed' ? 'destructive' : 'secondary'}
+                              className="text-xs"
+                              title={destinationStatuses[String(source.id)].error}
+                            >
+                              {destinationStatuses[String(source.id)].status}
+                              {destinationStatuses[String(source.id)].status === 'reconnecting' && destinationStatuses[String(source.id)].retryInMs !== undefined && (
+                                ` ${destinationStatuses[String(source.id)].reconnectAttempts}/${destinationStatuses[String(source.id)].maxReconnectAttempts} in ${Math.ceil(destinationStatuses[String(source.id)].retryInMs! / 1000)}s`
+                              )}
+                            </Badge>
+                          )}
+                        </div>
                         <div className="text-sm text-muted-foreground truncate">
                           {source.url}
                         </div>
+                        {preflightResults[String(source.id)] && (
+                          <div
+                            className={`text-xs mt-1 flex items-center gap-2 ${preflightResults[String(source.id)].ok ? 'text-green-600' : 'text-red-600'}`}
+                            title={preflightResults[String(source.id)].message}
+                          >
+                            <span>{preflightStatusLabels[preflightResults[String(source.id)].status] || preflightResults[String(source.id)].status}</span>
+                            {preflightResults[String(source.id)].bandwidth && (
+                              <span className="text-muted-foreground">
+                                {(preflightResults[String(source.id)].bandwidth.uploadKbps / 1000).toFixed(1)} Mbps up
+                              </span>
+                            )}
+                            {preflightResults[String(source.id)].recommendedBitrate && preflightResults[String(source.id)].recommendedBitrate !== source.bitrate && (
+                              <button
+                                type="button"
+                                className="underline"
+                                disabled={isStreaming}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setAutoOptimizeBitrate(false);
+                                  updateSourceMutation.mutate({
+                                    id: source.id,
+                                    data: { bitrate: preflightResults[String(source.id)].recommendedBitrate }
+                                  });
+                                }}
+                              >
+                                Use {preflightResults[String(source.id)].recommendedBitrate}k
+                              </button>
+                            )}
+                          </div>
+                        )}
                       </div>
                       <div className="flex gap-1">
+                        {currentSource?.id !== source.id && (
+                          <Button
+                            variant={simulcastSourceIds.includes(String(source.id)) ? "secondary" : "ghost"}
+                            size="sm"
+                            disabled={isStreaming}
+                            title="Simulcast to this destination too"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              const id = String(source.id);
+                              setSimulcastSourceIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+                            }}
+                          >
+                            <Radio className="w-4 h-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={isStreaming || preflightMutation.isPending}
+                          title="Test ingest connection and upload speed"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            preflightMutation.mutate(source.id);
+                          }}
+                        >
+                          {preflightMutation.isPending && preflightMutation.variables === source.id
+                            ? <RefreshCw className="w-4 h-4 animate-spin" />
+                            : <Gauge className="w-4 h-4" />}
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
                           onClick={(e) => {
                             e.stopPropagation();
-                            navigator.clipboard.writeText(`${source.url}/${source.stream_key}`);
+                            navigator.clipboard.writeText(source.url);
                             setCopied(source.id);
                             setTimeout(() => setCopied(false), 2000);
                             toast({
                               title: "Copied",
-                              description: "RTMP URL copied to clipboard",
+                              description: "RTMP URL copied to clipboard (stream keys stay on the server)",
                             });
                           }}
                         >
@@ -1715,7 +2070,7 @@ export default function StableStreamingStudio() {
                               id: source.id,
                               name: source.name,
                               rtmp_url: source.url,
-                              stream_key: source.stream_key,
+                              stream_key: '',
                               bitrate: source.bitrate || 2500
                             });
                             setIsEditDialogOpen(true);
@@ -1858,7 +2213,7 @@ export default function StableStreamingStudio() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="720p">720p (1280x720)</SelectItem>
-                      <SelectItem value="1080p">1080p (1920x1080)</SelectItem>
+                      <SelectItem value="1080p" disabled={maxStreamResolution === '720p'}>1080p (1920x1080)</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -1897,6 +2252,20 @@ export default function StableStreamingStudio() {
                     </div>
                   )}
                 </div>
+
+                {/* Local Recording */}
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="record-locally" className="flex items-center gap-2">
+                    <Disc className="w-4 h-4" />
+                    Record Stream
+                  </Label>
+                  <Switch
+                    id="record-locally"
+                    checked={recordLocally}
+                    onCheckedChange={setRecordLocally}
+                    disabled={isStreaming}
+                  />
+                </div>
               </CardContent>
             </Card>
           </div>
@@ -1939,6 +2308,7 @@ export default function StableStreamingStudio() {
               <Input
                 id="edit-key"
                 type="password"
+                placeholder="Leave blank to keep the current key"
                 value={editingSource?.stream_key || ''}
                 onChange={(e) => setEditingSource((prev: any) => ({ ...prev, stream_key: e.target.value }))}
                 className="col-span-3"
@@ -1985,6 +2355,12 @@ export default function StableStreamingStudio() {
         </DialogContent>
       </Dialog>
 
+      <TrackingCalibrationWizard
+        open={showCalibrationWizard}
+        onOpenChange={setShowCalibrationWizard}
+        stream={cameraStreamForTracking}
+      />
+
       {/* Invite Dialog */}
       <Dialog open={showInviteDialog} onOpenChange={setShowInviteDialog}>
         <DialogContent className="max-w-2xl">
@@ -2012,4 +2388,24 @@ export default function StableStreamingStudio() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Horizontal peak/RMS meter for server-reported audio levels (dBFS)
+function AudioLevelMeter({ level }: { level?: AudioSourceLevel }) {
+  const toPercent = (db: number) => Math.max(0, Math.min(100, ((db + 60) / 60) * 100));
+  const peak = level ? toPercent(level.peakDb) : 0;
+  const rms = level ? toPercent(level.rmsDb) : 0;
+
+  return (
+    <div className="relative h-2 w-full rounded bg-gray-200 dark:bg-gray-700 overflow-hidden">
+      <div
+        className="absolute inset-y-0 left-0 bg-green-500 transition-all duration-100"
+        style={{ width: `${rms}%` }}
+      />
+      <div
+        className={`absolute inset-y-0 w-0.5 ${peak > 95 ? 'bg-red-500' : 'bg-yellow-400'}`}
+        style={{ left: `${peak}%` }}
+      />
+    </div>
+  );
+}
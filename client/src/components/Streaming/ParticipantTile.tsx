@@ -39,6 +39,7 @@ interface ParticipantTileProps {
   // Streaming configuration
   isStreaming?: boolean;
   onFrameCapture?: (canvas: HTMLCanvasElement) => void;
+  participantCount?: number;
   
   // Optional participant-specific UI
   showParticipantInfo?: boolean;
@@ -77,6 +78,7 @@ const ParticipantTile: React.FC<ParticipantTileProps> = ({
   // Streaming configuration
   isStreaming = false,
   onFrameCapture,
+  participantCount = 1,
   
   // Optional participant-specific UI
   showParticipantInfo = true,
@@ -103,6 +105,7 @@ const ParticipantTile: React.FC<ParticipantTileProps> = ({
           sharedBackgroundImages={sharedBackgroundImages}
           backgroundsLoaded={backgroundsLoaded}
           onFrameCapture={onFrameCapture}
+          participantCount={participantCount}
         />
         
         {/* Participant Info Overlay */}
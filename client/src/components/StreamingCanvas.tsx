@@ -1,6 +1,6 @@
 import React, { useRef, useEffect, useCallback } from 'react';
 import RiggedModelAnimator from './RiggedModelAnimator';
-import MotionTracker from './MotionTracker';
+import { pickAvatarLod } from '@shared/avatar-lod';
 
 interface StreamingCanvasProps {
   width: number;
@@ -24,6 +24,7 @@ interface StreamingCanvasProps {
   sharedBackgroundImages?: { [key: string]: HTMLImageElement };
   backgroundsLoaded?: boolean;
   onFrameCapture?: (canvas: HTMLCanvasElement) => void;
+  participantCount?: number; // avatars on screen, pushes the avatar to a coarser LOD
 }
 
 export const StreamingCanvas: React.FC<StreamingCanvasProps> = ({
@@ -40,7 +41,8 @@ export const StreamingCanvas: React.FC<StreamingCanvasProps> = ({
   sceneLighting,
   sharedBackgroundImages,
   backgroundsLoaded,
-  onFrameCapture
+  onFrameCapture,
+  participantCount = 1
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -423,42 +425,20 @@ export const StreamingCanvas: React.FC<StreamingCanvasProps> = ({
           >
             <RiggedModelAnimator
               key={selectedAvatar.id}
-              modelUrl={selectedAvatar.modelUrl || selectedAvatar.fileUrl || selectedAvatar.supabaseUrl}
+              modelUrl={pickAvatarLod(selectedAvatar.lodLevels, { tileHeight: height * 0.9, participantCount })?.url || selectedAvatar.modelUrl || selectedAvatar.fileUrl || selectedAvatar.supabaseUrl}
               className="w-full h-full"
               enableTracking={cameraEnabled && !!cameraStream}
               faceTracking={cameraEnabled && !!cameraStream}
-              bodyTracking={false}
-              handTracking={false}
+              bodyTracking={cameraEnabled && !!cameraStream}
+              handTracking={cameraEnabled && !!cameraStream}
               avatarType="fullbody"
               isRigged={selectedAvatar.isRigged || false}
+              boneMap={selectedAvatar.metadata?.boneMap}
               cameraStream={cameraStream}
-              videoElement={videoRef.current}
             />
           </div>
         </div>
       )}
-
-      {/* Motion Tracker for enhanced camera tracking integration */}
-      {cameraEnabled && cameraStream && (
-        <MotionTracker
-          videoStream={cameraStream}
-          onFaceDetected={(landmarks) => {
-            // Face tracking data is automatically consumed by RiggedModelAnimator
-            console.log('Face tracking data:', landmarks);
-          }}
-          onPoseDetected={(landmarks) => {
-            // Pose tracking data for body alignment
-            console.log('Pose tracking data:', landmarks);
-          }}
-          onHandsDetected={(landmarks) => {
-            // Hand tracking data for gesture recognition
-            console.log('Hand tracking data:', landmarks);
-          }}
-          faceTracking={true}
-          bodyTracking={false}
-          handTracking={false}
-        />
-      )}
     </div>
   );
 };
\ No newline at end of file
@@ -5,6 +5,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { AlertCircle, CheckCircle, Wifi, WifiOff, Activity, Settings } from 'lucide-react';
+import { ConfidenceMonitor } from './ConfidenceMonitor';
 
 interface StreamingStatus {
   isConnected: boolean;
@@ -19,6 +20,7 @@ interface StreamingStatus {
 
 interface StreamingStatusIndicatorProps {
   streamId?: string;
+  showConfidenceMonitor?: boolean; // play the server's HLS rendition of the outgoing encode
   onRetry?: () => void;
   onSettings?: () => void;
   className?: string;
@@ -26,6 +28,7 @@ interface StreamingStatusIndicatorProps {
 
 export const StreamingStatusIndicator: React.FC<StreamingStatusIndicatorProps> = ({
   streamId,
+  showConfidenceMonitor = false,
   onRetry,
   onSettings,
   className = ''
@@ -42,6 +45,8 @@ export const StreamingStatusIndicator: React.FC<StreamingStatusIndicatorProps> =
   });
 
   const [isExpanded, setIsExpanded] = useState(false);
+  const [measuredLatency, setMeasuredLatency] = useState<number | null>(null);
+  const monitorEnabled = showConfidenceMonitor && !!streamId;
 
   // Simulate real-time status updates
   useEffect(() => {
@@ -142,6 +147,14 @@ export const StreamingStatusIndicator: React.FC<StreamingStatusIndicatorProps> =
       {/* Expanded Details */}
       {isExpanded && (
         <div className="border-t border-gray-200 p-4 space-y-4">
+          {/* Confidence Monitor */}
+          {monitorEnabled && (
+            <div className="space-y-2">
+              <span className="text-sm font-medium text-gray-700">Encoded Output</span>
+              <ConfidenceMonitor streamId={streamId!} onLatency={setMeasuredLatency} />
+            </div>
+          )}
+
           {/* Metrics Grid */}
           <div className="grid grid-cols-3 gap-4">
             <div className="text-center">
@@ -149,8 +162,10 @@ export const StreamingStatusIndicator: React.FC<StreamingStatusIndicatorProps> =
               <div className="text-sm text-gray-500">FPS</div>
             </div>
             <div className="text-center">
-              <div className="text-2xl font-bold text-gray-900">{status.latency}ms</div>
-              <div className="text-sm text-gray-500">Latency</div>
+              <div className="text-2xl font-bold text-gray-900">
+                {monitorEnabled && measuredLatency !== null ? `${(measuredLatency / 1000).toFixed(1)}s` : `${status.latency}ms`}
+              </div>
+              <div className="text-sm text-gray-500">{monitorEnabled ? 'Glass-to-glass' : 'Latency'}</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-gray-900">{status.bitrate}</div>
@@ -1,5 +1,9 @@
 import { useEffect, useRef, useState } from 'react';
-import MotionTracker from './MotionTracker';
+import * as THREE from 'three';
+import { pickAvatarLod, type AvatarLodLevel } from '@shared/avatar-lod';
+import type { BoneMap } from '@shared/retargeting';
+import { useTrackingFrames } from '@/hooks/use-tracking';
+import { applyTrackingFrame, bindTrackedAvatar, modelViewerScene, type TrackedAvatar } from '@/lib/tracking-pose';
 
 interface ThreeModelViewerProps {
   modelUrl: string;
@@ -12,6 +16,9 @@ interface ThreeModelViewerProps {
   isRigged?: boolean;
   cameraStream?: MediaStream | null;
   onModelLoad?: (modelElement: any) => void;
+  lodLevels?: AvatarLodLevel[] | null; // avatars.lodLevels of the model being shown
+  participantCount?: number; // avatars on screen at once, e.g. co-stream tiles
+  boneMap?: BoneMap | null; // avatars.metadata.boneMap; detected on load when missing
 }
 
 export default function ThreeModelViewer({
@@ -24,9 +31,14 @@ export default function ThreeModelViewer({
   avatarType = 'fullbody',
   isRigged = false,
   cameraStream = null,
-  onModelLoad
+  onModelLoad,
+  lodLevels = null,
+  participantCount = 1,
+  boneMap = null
 }: ThreeModelViewerProps) {
   const [isLoading, setIsLoading] = useState(true);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [tileHeight, setTileHeight] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [modelViewerLoaded, setModelViewerLoaded] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
@@ -36,12 +48,9 @@ export default function ThreeModelViewer({
     minDistance: "1m",
     maxDistance: "5m"
   });
-  const [motionData, setMotionData] = useState({
-    faceRotation: { x: 0, y: 0, z: 0 },
-    headPosition: { x: 0, y: 0, z: 0 },
-    bodyPose: { x: 0, y: 0, z: 0 },
-    blendShapes: {} as Record<string, number>
-  });
+  const modelElementRef = useRef<any>(null);
+  // Set once a rigged model has loaded; unrigged models follow the head with the camera
+  const trackedAvatarRef = useRef<TrackedAvatar | null>(null);
 
   useEffect(() => {
     // Load model-viewer web component
@@ -121,114 +130,57 @@ export default function ThreeModelViewer({
     setCameraSettings(newSettings);
   }, [avatarType, bodyTracking, faceTracking, handTracking]);
 
-  // Motion tracking callback functions for podcast-style facial animation
-  const handleFaceDetected = (faceData: any) => {
-    if (!faceData) return;
-
-    setMotionData(prev => ({
-      ...prev,
-      faceRotation: faceData.rotation || prev.faceRotation,
-      headPosition: faceData.position || prev.headPosition,
-      blendShapes: faceData.blendShapes || prev.blendShapes
-    }));
+  useTrackingFrames((frame) => {
+    const modelViewer = modelElementRef.current;
+    if (!modelViewer) return;
 
-    // Log blend shape weights for debugging podcast-style expressions
-    if (faceData.blendShapes) {
-      const activeShapes = Object.entries(faceData.blendShapes)
-        .filter(([_, weight]) => (weight as number) > 0.1)
-        .map(([name, weight]) => `${name}: ${(weight as number).toFixed(2)}`);
-      
-      if (activeShapes.length > 0) {
-        console.log('Active facial expressions:', activeShapes.join(', '));
-      }
+    if (trackedAvatarRef.current) {
+      applyTrackingFrame(trackedAvatarRef.current, frame);
+      modelViewerScene(modelViewer)?.queueRender?.();
+      return;
     }
-  };
-
-  const handlePoseDetected = (landmarks: any) => {
-    if (!landmarks || landmarks.length === 0) return;
-
-    // Get shoulder landmarks for body orientation
-    const leftShoulder = landmarks[11];
-    const rightShoulder = landmarks[12];
-    const nose = landmarks[0];
 
-    if (leftShoulder && rightShoulder && nose) {
-      // Calculate body rotation
-      const shoulderAngle = Math.atan2(
-        rightShoulder.y - leftShoulder.y,
-        rightShoulder.x - leftShoulder.x
-      );
-
-      setMotionData(prev => ({
-        ...prev,
-        bodyPose: {
-          x: (nose.y - 0.4) * 0.3, // Forward/backward lean
-          y: (nose.x - 0.5) * 0.3, // Side lean
-          z: shoulderAngle * 20 // Shoulder rotation
-        }
-      }));
+    // Without a skeleton the camera orbits with the head instead
+    if (!frame.head) return;
+    const head = new THREE.Euler().setFromQuaternion(new THREE.Quaternion(...frame.head.rotation), 'YXZ');
+    const [baseYaw, basePitch, baseDistance] = cameraSettings.orbit.split(' ');
+    const yaw = (parseFloat(baseYaw) || 0) + THREE.MathUtils.radToDeg(head.y) * 0.3;
+    const pitch = Math.max(60, Math.min(90, (parseFloat(basePitch) || 75) + THREE.MathUtils.radToDeg(head.x) * 0.2));
+    modelViewer.setAttribute('camera-orbit', `${yaw}deg ${pitch}deg ${baseDistance || '2.5m'}`);
+  }, {
+    enabled: enableTracking && modelViewerLoaded,
+    stream: cameraStream,
+    features: {
+      faceTracking,
+      eyeTracking: faceTracking,
+      expressionTracking: faceTracking,
+      bodyTracking,
+      handTracking,
+      fingerTracking: handTracking
     }
-  };
+  });
 
-  const handleHandsDetected = (landmarks: any) => {
-    // Hand tracking implementation for future use
-    console.log('Hands detected:', landmarks);
-  };
+  const [modelUrlLoaded, setModelUrlLoaded] = useState(false);
 
-  // Apply motion data and blend shapes to model-viewer for podcast-style animation
+  // Track the rendered height so the LOD follows the tile size
   useEffect(() => {
-    if (!modelViewerLoaded || !enableTracking) return;
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setTileHeight(Math.round(entry.contentRect.height)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
 
-    const modelViewer = document.querySelector('model-viewer') as any;
-    if (!modelViewer) return;
+  const lod = tileHeight > 0 ? pickAvatarLod(lodLevels, { tileHeight, participantCount }) : null;
+  const displayUrl = lod?.url || modelUrl;
+  // Don't start a full-resolution download that the measured LOD would replace
+  const awaitingTileSize = !!lodLevels?.length && tileHeight === 0;
 
-    try {
-      const { faceRotation, headPosition, bodyPose, blendShapes } = motionData;
-      
-      // Apply facial blend shapes for expression animation
-      if (blendShapes && Object.keys(blendShapes).length > 0) {
-        // Apply blend shape weights to model morphs (if available)
-        Object.entries(blendShapes).forEach(([shapeName, weight]) => {
-          if (weight > 0.05) { // Only apply significant weights
-            // Log active expressions for podcast streaming
-            if (shapeName.includes('smile') || shapeName.includes('jaw') || shapeName.includes('blink')) {
-              console.log(`🎭 ${shapeName}: ${(weight as number).toFixed(2)}`);
-            }
-          }
-        });
-      }
-      
-      // Combine face and body rotations for head movement
-      const totalRotationX = faceRotation.x + bodyPose.x;
-      const totalRotationY = faceRotation.y + bodyPose.y;
-      
-      // Apply smooth head tracking via camera orbit
-      const baseOrbit = cameraSettings.orbit.split(' ');
-      const baseYaw = parseFloat(baseOrbit[0]) || 0;
-      const basePitch = parseFloat(baseOrbit[1]) || 75;
-      const baseDistance = baseOrbit[2] || '2.5m';
-      
-      // Smooth motion tracking for podcast-style movement
-      const smoothedYaw = baseYaw + (totalRotationY * 0.3); // Reduced sensitivity for natural movement
-      const smoothedPitch = Math.max(60, Math.min(90, basePitch + (totalRotationX * 0.2)));
-      
-      const newOrbit = `${smoothedYaw}deg ${smoothedPitch}deg ${baseDistance}`;
-      modelViewer.setAttribute('camera-orbit', newOrbit);
-      
-      // Apply head position offset for subtle movement
-      if (headPosition.x !== 0 || headPosition.y !== 0) {
-        const currentTarget = modelViewer.getAttribute('camera-target') || '0 0 0';
-        const [x, y, z] = currentTarget.split(' ').map(parseFloat);
-        const newTarget = `${x + headPosition.x * 0.1} ${y + headPosition.y * 0.1} ${z}`;
-        modelViewer.setAttribute('camera-target', newTarget);
-      }
-      
-    } catch (error) {
-      console.log('Motion tracking update failed:', error);
+  useEffect(() => {
+    if (lod) {
+      console.log(`🔻 ThreeModelViewer: LOD ${lod.level} (${lod.triangles} triangles) for a ${tileHeight}px tile, ${participantCount} on screen`);
     }
-  }, [motionData, modelViewerLoaded, enableTracking, cameraSettings]);
-
-  const [modelUrlLoaded, setModelUrlLoaded] = useState(false);
+  }, [lod?.level]);
 
   useEffect(() => {
     if (modelViewerLoaded && modelUrl && !modelUrlLoaded && !isInitialized) {
@@ -272,12 +224,12 @@ export default function ThreeModelViewer({
   }
 
   return (
-    <div className={`relative ${className}`}>
+    <div ref={containerRef} className={`relative ${className}`}>
       <div className="w-full h-full rounded-lg overflow-hidden" style={{ minHeight: '400px' }}>
-        {modelViewerLoaded && modelUrl ? (
+        {modelViewerLoaded && modelUrl && !awaitingTileSize ? (
           <model-viewer
-            key={`model-${modelUrl}`}
-            src={modelUrl}
+            key={`model-${displayUrl}`}
+            src={displayUrl}
             alt="3D Avatar Model"
             camera-orbit={cameraSettings.orbit}
             field-of-view={cameraSettings.fov}
@@ -358,6 +310,9 @@ export default function ThreeModelViewer({
                   el.autoRotate = false;
                   el.autoRotateDelay = 0;
                   
+                  modelElementRef.current = el;
+                  trackedAvatarRef.current = isRigged ? bindTrackedAvatar(modelViewerScene(el), boneMap) : null;
+
                   // Notify parent component that model is loaded
                   if (onModelLoad) {
                     onModelLoad(el);
@@ -432,19 +387,6 @@ export default function ThreeModelViewer({
         </div>
       )}
       
-      {/* Motion Tracker Component - Only loads after model is ready */}
-      {enableTracking && cameraStream && !isLoading && modelViewerLoaded && (
-        <MotionTracker
-          videoStream={cameraStream}
-          onFaceDetected={handleFaceDetected}
-          onPoseDetected={handlePoseDetected}
-          onHandsDetected={handleHandsDetected}
-          faceTracking={faceTracking}
-          bodyTracking={bodyTracking}
-          handTracking={handTracking}
-        />
-      )}
-
       {enableTracking && !isLoading && modelViewerLoaded && (
         <div className="absolute top-4 left-4 space-y-2">
           {faceTracking && (
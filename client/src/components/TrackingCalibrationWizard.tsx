@@ -0,0 +1,312 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { TRACKING_CALIBRATION_QUERY_KEY, useTrackingCalibration, useTrackingFrames } from "@/hooks/use-tracking";
+import { useSubscriptionRigging } from "@/hooks/useSubscriptionRigging";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  buildTrackingCalibration,
+  checkCalibrationCapture,
+  type CalibrationCaptures
+} from "@/lib/tracking-calibration";
+import type { TrackingFrame } from "@/lib/tracking-solver";
+import { CALIBRATION_STEPS, type CalibrationStep, type TrackingCalibration } from "@shared/tracking-calibration";
+import { Check, Loader2, RotateCcw, ScanFace } from "lucide-react";
+
+interface TrackingCalibrationWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The studio's camera, for the preview and to avoid opening a second one
+  stream?: MediaStream | null;
+}
+
+type Phase = 'intro' | 'ready' | 'countdown' | 'capturing' | 'summary';
+
+const COUNTDOWN_SECONDS = 3;
+const METER_INTERVAL_MS = 100;
+
+// "mouthSmileLeft" → "Mouth Smile Left"
+const shapeLabel = (name: string) => name.replace(/([A-Z])/g, ' $1').replace(/^./, letter => letter.toUpperCase());
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Guided capture of the user's rest face, facial range and T-pose (see
+ * lib/tracking-calibration.ts). Saved to the user's profile and applied by
+ * the tracking engine to every frame from then on.
+ */
+export default function TrackingCalibrationWizard({ open, onOpenChange, stream = null }: TrackingCalibrationWizardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { riggingConfig } = useSubscriptionRigging();
+  const saved = useTrackingCalibration();
+
+  const features = riggingConfig?.enabledFeatures;
+  const steps = CALIBRATION_STEPS.filter((step) => {
+    if (step.needs === 'body') return !!features?.bodyTracking;
+    // Ranges need the face model's blendshapes; the neutral face also sets the head's rest
+    return !!features?.faceTracking && (step.blendshapes.length === 0 || !!features.expressionTracking);
+  });
+
+  const [phase, setPhase] = useState<Phase>('intro');
+  const [stepIndex, setStepIndex] = useState(0);
+  const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS);
+  const [captureProgress, setCaptureProgress] = useState(0);
+  const [problem, setProblem] = useState<string | null>(null);
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [meters, setMeters] = useState<Record<string, number>>({});
+  const [faceSeen, setFaceSeen] = useState(false);
+  const [calibration, setCalibration] = useState<TrackingCalibration | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const capturesRef = useRef<CalibrationCaptures>({});
+  const recordingRef = useRef<TrackingFrame[] | null>(null);
+  const lastMeterRef = useRef(0);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const step: CalibrationStep | undefined = steps[stepIndex];
+
+  // Captures use the unfiltered, uncalibrated frames
+  const status = useTrackingFrames((_frame, debug) => {
+    if (!debug) return;
+    recordingRef.current?.push(debug.raw);
+
+    const now = performance.now();
+    if (now - lastMeterRef.current < METER_INTERVAL_MS) return;
+    lastMeterRef.current = now;
+    setFaceSeen(debug.raw.confidence.face > 0);
+    setMeters(Object.fromEntries((step?.blendshapes ?? []).map(name => [name, debug.raw.blendshapes[name] ?? 0])));
+  }, {
+    enabled: open,
+    stream,
+    features: { faceTracking: true, expressionTracking: true, bodyTracking: true },
+    debug: true
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setPhase('intro');
+    setStepIndex(0);
+    setSkipped([]);
+    setProblem(null);
+    capturesRef.current = {};
+  }, [open]);
+
+  useEffect(() => {
+    if (videoRef.current && videoRef.current.srcObject !== stream) videoRef.current.srcObject = stream;
+  });
+
+  // Count down, then record the step for its duration and check what came in
+  useEffect(() => {
+    if (!step) return;
+    if (phase === 'countdown') {
+      if (countdown === 0) {
+        recordingRef.current = [];
+        setCaptureProgress(0);
+        setPhase('capturing');
+        return;
+      }
+      const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+      return () => clearTimeout(timer);
+    }
+    if (phase === 'capturing') {
+      const startedAt = performance.now();
+      const timer = setInterval(() => {
+        const progress = (performance.now() - startedAt) / step.durationMs;
+        setCaptureProgress(Math.min(1, progress));
+        if (progress < 1) return;
+
+        clearInterval(timer);
+        const frames = recordingRef.current ?? [];
+        recordingRef.current = null;
+        const issue = checkCalibrationCapture(step, frames, capturesRef.current.neutral);
+        if (issue) {
+          setProblem(issue);
+          setPhase('ready');
+          return;
+        }
+        capturesRef.current[step.id] = frames;
+        advance();
+      }, METER_INTERVAL_MS);
+      return () => clearInterval(timer);
+    }
+  }, [phase, countdown]);
+
+  const advance = () => {
+    setProblem(null);
+    if (stepIndex + 1 < steps.length) {
+      setStepIndex(stepIndex + 1);
+      setPhase('ready');
+    } else {
+      setCalibration(buildTrackingCalibration(capturesRef.current));
+      setPhase('summary');
+    }
+  };
+
+  const startCapture = () => {
+    setProblem(null);
+    setCountdown(COUNTDOWN_SECONDS);
+    setPhase('countdown');
+  };
+
+  const skipStep = () => {
+    if (step) setSkipped([...skipped, step.id]);
+    advance();
+  };
+
+  const saveCalibration = async (next: TrackingCalibration | null) => {
+    try {
+      setIsSaving(true);
+      const result = next
+        ? await apiRequest("PUT", "/api/tracking/calibration", { calibration: next })
+        : await apiRequest("DELETE", "/api/tracking/calibration");
+      queryClient.setQueryData(TRACKING_CALIBRATION_QUERY_KEY, result);
+      toast({
+        title: next ? "Tracking Calibrated" : "Calibration Reset",
+        description: next
+          ? "Your avatar now follows your own range of expression."
+          : "Tracking is back to the default ranges."
+      });
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('❌ Failed to save tracking calibration:', error);
+      toast({
+        title: "Calibration Not Saved",
+        description: error.message || "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ScanFace className="w-5 h-5" />
+            Tracking Calibration
+          </DialogTitle>
+          <DialogDescription>
+            {phase === 'intro' && 'A few quick poses teach tracking your face and body, so the avatar reaches its full range of expression.'}
+            {(phase === 'ready' || phase === 'countdown' || phase === 'capturing') && step && `Step ${stepIndex + 1} of ${steps.length}: ${step.title}`}
+            {phase === 'summary' && 'Here is what was measured. Save it to use it every time you stream.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {phase !== 'summary' && (
+          <div className="relative rounded-lg overflow-hidden bg-black aspect-video">
+            {stream && <video ref={videoRef} autoPlay muted playsInline className="w-full h-full object-cover scale-x-[-1]" />}
+            <div className="absolute top-2 left-2 flex gap-2">
+              <Badge variant={status === 'tracking' ? 'secondary' : 'outline'}>{status}</Badge>
+              {status === 'tracking' && step?.needs === 'face' && !faceSeen && <Badge variant="destructive">No face</Badge>}
+            </div>
+            {phase === 'countdown' && (
+              <div className="absolute inset-0 flex items-center justify-center text-6xl font-bold text-white">{countdown}</div>
+            )}
+          </div>
+        )}
+
+        {phase === 'intro' && (
+          <div className="space-y-2 text-sm text-muted-foreground">
+            <p>You'll hold {steps.length} poses for a few seconds each: {steps.map(step => step.title.toLowerCase()).join(', ')}.</p>
+            {saved && <p>Last calibrated {new Date(saved.calibratedAt).toLocaleDateString()}.</p>}
+            {steps.length === 0 && <p>Your plan doesn't include face or body tracking, so there is nothing to calibrate.</p>}
+          </div>
+        )}
+
+        {(phase === 'ready' || phase === 'countdown' || phase === 'capturing') && step && (
+          <div className="space-y-3">
+            <p className="text-sm">{step.instruction}</p>
+            {step.blendshapes.map(name => (
+              <div key={name} className="space-y-1">
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>{shapeLabel(name)}</span>
+                  <span>{percent(meters[name] ?? 0)}</span>
+                </div>
+                <Progress value={(meters[name] ?? 0) * 100} />
+              </div>
+            ))}
+            {phase === 'capturing' && (
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">Hold it…</div>
+                <Progress value={captureProgress * 100} />
+              </div>
+            )}
+            {problem && <p className="text-sm text-destructive">{problem}</p>}
+          </div>
+        )}
+
+        {phase === 'summary' && calibration && (
+          <div className="space-y-2 text-sm">
+            {steps.filter(step => step.blendshapes.length > 0).flatMap(step => step.blendshapes).map(name => {
+              const range = calibration.blendshapes[name];
+              return (
+                <div key={name} className="flex justify-between">
+                  <span>{shapeLabel(name)}</span>
+                  <span className="text-muted-foreground">
+                    {range ? `${percent(range.min)} → ${percent(range.max)}` : 'default'}
+                  </span>
+                </div>
+              );
+            })}
+            <div className="flex justify-between">
+              <span>Rest pose</span>
+              <span className="text-muted-foreground">
+                {Object.keys(calibration.bones).length > 0 || calibration.head
+                  ? `${Object.keys(calibration.bones).length + (calibration.head ? 1 : 0)} rotations adjusted`
+                  : 'unchanged'}
+              </span>
+            </div>
+            {skipped.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Skipped: {skipped.map(id => CALIBRATION_STEPS.find(step => step.id === id)?.title).join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {phase === 'intro' && (
+            <>
+              {saved && (
+                <Button variant="outline" onClick={() => saveCalibration(null)} disabled={isSaving}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Reset to Defaults
+                </Button>
+              )}
+              <Button onClick={() => setPhase('ready')} disabled={steps.length === 0}>
+                Start
+              </Button>
+            </>
+          )}
+          {phase === 'ready' && step && (
+            <>
+              <Button variant="ghost" onClick={skipStep} disabled={step.id === 'neutral'}>
+                Skip
+              </Button>
+              <Button onClick={startCapture} disabled={status !== 'tracking'}>
+                {problem ? 'Try Again' : 'Capture'}
+              </Button>
+            </>
+          )}
+          {phase === 'summary' && calibration && (
+            <>
+              <Button variant="outline" onClick={() => { capturesRef.current = {}; setSkipped([]); setStepIndex(0); setPhase('ready'); }}>
+                Start Over
+              </Button>
+              <Button onClick={() => saveCalibration(calibration)} disabled={isSaving}>
+                {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+                Save Calibration
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
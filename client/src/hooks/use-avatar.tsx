@@ -36,6 +36,7 @@ interface AvatarContextType {
   selectAvatar: (avatarId: number) => void;
   previewAvatar: (avatarId: number) => void;
   deleteAvatar: (avatarId: number) => Promise<boolean>;
+  exportAvatarAsVRM: (avatarId: number, name: string) => Promise<boolean>;
   startStreaming: () => void;
   stopStreaming: () => void;
 }
@@ -404,6 +405,37 @@ export function AvatarProvider({ children }: { children: ReactNode }) {
     }
   };
   
+  // Download a rigged avatar as VRM 1.0 for other VTuber apps
+  const exportAvatarAsVRM = async (avatarId: number, name: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/avatars/${avatarId}/export/vrm`, {
+        credentials: "include",
+        headers: await getAuthHeaders()
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to export avatar");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${name.replace(/[^a-zA-Z0-9]/g, '_')}.vrm`;
+      link.click();
+      URL.revokeObjectURL(url);
+      return true;
+    } catch (error: any) {
+      console.error("Error exporting avatar as VRM:", error);
+      toast({
+        title: "VRM Export Failed",
+        description: error.message || "There was an error exporting your avatar. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+  
   return (
     <AvatarContext.Provider
       value={{
@@ -419,6 +451,7 @@ export function AvatarProvider({ children }: { children: ReactNode }) {
         selectAvatar,
         previewAvatar,
         deleteAvatar,
+        exportAvatarAsVRM,
         startStreaming,
         stopStreaming,
       }}
@@ -15,6 +15,8 @@ type SubscriptionPlan = {
   customAvatars?: boolean;
   maxMorphPoints?: number;
   prioritySupport?: boolean;
+  maxStreamResolution?: '720p' | '1080p';
+  maxStreamBitrate?: number; // kbps
 };
 
 interface SubscriptionContextType {
@@ -0,0 +1,99 @@
+/**
+ * React binding for the tracking engine (see services/tracking-engine.ts)
+ * Subscribes a component to the shared TrackingFrame stream while it is
+ * mounted and enabled, and loads the user's rigging plan that decides which
+ * features may run and their calibration.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { TrackingCalibration } from '@shared/tracking-calibration';
+import { useAuth } from '@/hooks/useAuth';
+import { useSubscriptionRigging } from '@/hooks/useSubscriptionRigging';
+import {
+  getTrackingAssetProgress,
+  onTrackingAssetProgress,
+  prefetchTrackingAssets,
+  type TrackingAssetProgress
+} from '@/lib/tracking-assets';
+import {
+  trackingEngine,
+  type TrackingListener,
+  type TrackingStatus,
+  type TrackingSubscription
+} from '@/services/tracking-engine';
+
+export interface UseTrackingFramesOptions extends TrackingSubscription {
+  enabled?: boolean;
+}
+
+/**
+ * Calls `onFrame` with every TrackingFrame. Frames arrive at the camera's
+ * rate, so handlers should pose the avatar directly rather than set state.
+ */
+export function useTrackingFrames(
+  onFrame: TrackingListener,
+  { enabled = true, stream = null, features, debug = false }: UseTrackingFramesOptions = {}
+): TrackingStatus {
+  useSubscriptionRigging();
+  useTrackingCalibration();
+  const [status, setStatus] = useState<TrackingStatus>(trackingEngine.getStatus());
+
+  // Always call the latest handler without resubscribing on every render
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+  const listenerRef = useRef<TrackingListener>((frame, debug) => onFrameRef.current(frame, debug));
+
+  const featureKey = JSON.stringify(features ?? {});
+
+  useEffect(() => {
+    if (!enabled) return;
+    return trackingEngine.subscribe(listenerRef.current, { features, stream, debug });
+  }, [enabled]);
+
+  useEffect(() => {
+    trackingEngine.updateSubscription(listenerRef.current, { features, stream, debug });
+  }, [featureKey, stream, debug]);
+
+  useEffect(() => trackingEngine.onStatusChange(setStatus), []);
+
+  return enabled ? status : 'idle';
+}
+
+export const TRACKING_CALIBRATION_QUERY_KEY = ['/api/tracking/calibration'];
+
+/**
+ * The signed-in user's calibration, handed to the tracking engine as it
+ * loads or changes (see lib/tracking-calibration.ts)
+ */
+export function useTrackingCalibration(): TrackingCalibration | null {
+  const { user } = useAuth();
+  const { data } = useQuery<{ calibration: TrackingCalibration | null }>({
+    queryKey: TRACKING_CALIBRATION_QUERY_KEY,
+    enabled: !!user
+  });
+  const calibration = data?.calibration ?? null;
+
+  useEffect(() => {
+    trackingEngine.setCalibration(calibration);
+  }, [calibration]);
+
+  return calibration;
+}
+
+/**
+ * Starts downloading the models the user's plan can use when the studio
+ * opens, before the camera does, and follows their progress
+ */
+export function useTrackingAssetPrefetch(): TrackingAssetProgress {
+  const { riggingConfig } = useSubscriptionRigging();
+  const [progress, setProgress] = useState(getTrackingAssetProgress);
+
+  useEffect(() => onTrackingAssetProgress(setProgress), []);
+
+  useEffect(() => {
+    if (riggingConfig) prefetchTrackingAssets(riggingConfig.enabledFeatures);
+  }, [riggingConfig]);
+
+  return progress;
+}
@@ -0,0 +1,117 @@
+/**
+ * Binary canvas frame sender for the RTMP bridge WebSocket
+ * Encodes canvas frames as JPEG/WebP and respects server backpressure
+ */
+
+import {
+  encodeFramePacket,
+  FrameFormat,
+  frameFormatToMimeType,
+  MediaTrack,
+  type FrameBackpressureMessage,
+} from '@shared/frame-protocol';
+
+// Stop capturing when this much data is still queued in the browser socket
+const MAX_BUFFERED_BYTES = 4 * 1024 * 1024;
+
+export interface CanvasFrameTransportOptions {
+  format?: FrameFormat.JPEG | FrameFormat.WEBP;
+  quality?: number;
+}
+
+export class CanvasFrameTransport {
+  private sequence = 0;
+  private encoding = false;
+  private paused = false;
+  private skippedFrames = 0;
+  private minFrameIntervalMs = 0;
+  private lastFrameAt = 0;
+  private format: FrameFormat.JPEG | FrameFormat.WEBP;
+  private quality: number;
+
+  constructor(
+    private ws: WebSocket,
+    private streamId: string,
+    options: CanvasFrameTransportOptions = {}
+  ) {
+    this.ws.binaryType = 'arraybuffer';
+    this.format = options.format ?? FrameFormat.JPEG;
+    this.quality = options.quality ?? 0.85;
+  }
+
+  /**
+   * Capture and send one frame. Frames are skipped (not queued) while a
+   * previous frame is still encoding, the server reported backpressure, or
+   * the socket send buffer is backed up.
+   */
+  sendFrame(canvas: HTMLCanvasElement) {
+    if (this.ws.readyState !== WebSocket.OPEN) return;
+
+    const now = performance.now();
+    if (now - this.lastFrameAt < this.minFrameIntervalMs) return;
+
+    if (this.encoding || this.paused || this.ws.bufferedAmount > MAX_BUFFERED_BYTES) {
+      this.skippedFrames++;
+      return;
+    }
+
+    this.encoding = true;
+    this.lastFrameAt = now;
+    const timestamp = performance.timeOrigin + now;
+    const { width, height } = canvas;
+
+    canvas.toBlob(async (blob) => {
+      try {
+        if (!blob || this.ws.readyState !== WebSocket.OPEN) return;
+
+        const payload = new Uint8Array(await blob.arrayBuffer());
+        const packet = encodeFramePacket({
+          streamId: this.streamId,
+          track: MediaTrack.VIDEO,
+          sequence: this.sequence,
+          timestamp,
+          format: this.format,
+          width,
+          height,
+        }, payload);
+
+        this.sequence = (this.sequence + 1) >>> 0;
+        this.ws.send(packet);
+      } catch (error) {
+        console.error('Failed to send binary canvas frame:', error);
+      } finally {
+        this.encoding = false;
+      }
+    }, frameFormatToMimeType(this.format) ?? 'image/jpeg', this.quality);
+  }
+
+  /**
+   * Cap capture to the frame rate of the server's encoding profile so we don't
+   * encode frames FFmpeg will throw away
+   */
+  setMaxFrameRate(fps: number) {
+    // Small slack so timer jitter doesn't halve the effective rate
+    this.minFrameIntervalMs = fps > 0 ? (1000 / fps) * 0.9 : 0;
+  }
+
+  /**
+   * Apply a server backpressure message. Returns true when it was addressed to this stream.
+   */
+  handleBackpressure(message: FrameBackpressureMessage): boolean {
+    if (message.streamId !== this.streamId) return false;
+
+    this.paused = message.paused;
+    if (message.paused) {
+      console.warn(`⏸️ Server encoder saturated - pausing capture (${message.droppedFrames} dropped server-side)`);
+    }
+    return true;
+  }
+
+  getStats() {
+    return {
+      sentFrames: this.sequence,
+      skippedFrames: this.skippedFrames,
+      paused: this.paused,
+    };
+  }
+}
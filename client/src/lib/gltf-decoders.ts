@@ -0,0 +1,50 @@
+/**
+ * Decoders for compressed avatar GLBs (see server/services/avatar-optimizer.ts)
+ * Delivered avatars use meshopt or Draco geometry; uploads may also carry
+ * KTX2 textures. The decoders are served by the app under /decoders, so
+ * three.js loaders and model-viewer don't depend on a third-party CDN.
+ */
+
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import { DRACOLoader } from 'three/addons/loaders/DRACOLoader.js';
+import { KTX2Loader } from 'three/addons/loaders/KTX2Loader.js';
+import { MeshoptDecoder } from 'three/addons/libs/meshopt_decoder.module.js';
+
+export const DRACO_DECODER_PATH = '/decoders/draco/';
+export const BASIS_TRANSCODER_PATH = '/decoders/basis/';
+export const MESHOPT_DECODER_URL = '/decoders/meshopt_decoder.js';
+
+// One of each per page: both keep a worker pool alive
+let dracoLoader: DRACOLoader | null = null;
+let ktx2Loader: KTX2Loader | null = null;
+
+/**
+ * GLTFLoader that reads every compression avatars are delivered with. KTX2
+ * textures are only supported when the renderer that will draw them is given.
+ */
+export function createGLTFLoader(renderer?: THREE.WebGLRenderer): GLTFLoader {
+  dracoLoader ??= new DRACOLoader().setDecoderPath(DRACO_DECODER_PATH);
+  const loader = new GLTFLoader()
+    .setDRACOLoader(dracoLoader)
+    .setMeshoptDecoder(MeshoptDecoder);
+
+  if (renderer) {
+    ktx2Loader ??= new KTX2Loader().setTranscoderPath(BASIS_TRANSCODER_PATH);
+    loader.setKTX2Loader(ktx2Loader.detectSupport(renderer));
+  }
+  return loader;
+}
+
+/**
+ * Point model-viewer at the same decoders. Its decoder locations are static
+ * properties, so this runs once the element is defined, before models load.
+ */
+export function configureModelViewerDecoders(): void {
+  customElements.whenDefined('model-viewer').then(() => {
+    const ModelViewerElement = customElements.get('model-viewer') as any;
+    ModelViewerElement.dracoDecoderLocation = DRACO_DECODER_PATH;
+    ModelViewerElement.ktx2TranscoderLocation = BASIS_TRANSCODER_PATH;
+    ModelViewerElement.meshoptDecoderLocation = MESHOPT_DECODER_URL;
+  });
+}
@@ -0,0 +1,124 @@
+/**
+ * three.js side of skeleton retargeting (see shared/retargeting.ts)
+ * Resolves a bone map against a loaded scene, poses bones from humanoid
+ * rotations and re-keys animation clips from one skeleton onto another.
+ *
+ * Objects are duck-typed: model-viewer bundles its own copy of three.js, so
+ * its bones are not instances of this module's THREE.Object3D.
+ */
+
+import * as THREE from 'three';
+import {
+  boneKey,
+  buildBoneMap,
+  HUMANOID_BONES,
+  multiplyQuat,
+  toHumanoidRotation,
+  toSourceRotation,
+  type BoneMap,
+  type BoneMapEntry,
+  type HumanoidBoneName,
+  type Quat,
+  type SkeletonBone
+} from '@shared/retargeting';
+
+export interface HumanoidRigBone {
+  bone: any;
+  entry: BoneMapEntry;
+}
+
+export type HumanoidRig = Map<HumanoidBoneName, HumanoidRigBone>;
+
+/**
+ * Bones of every SkinnedMesh under `root` plus their ancestors, with bind
+ * rotations relative to `root`. Call before anything poses the model.
+ */
+export function skeletonFromScene(root: any): SkeletonBone[] {
+  const included = new Set<any>();
+  root?.traverse?.((object: any) => {
+    if (!object.isSkinnedMesh) return;
+    for (const bone of object.skeleton.bones) {
+      for (let node = bone; node && node !== root && !included.has(node); node = node.parent) included.add(node);
+    }
+  });
+
+  const restOf = (node: any): Quat => {
+    let rest: Quat = [0, 0, 0, 1];
+    for (let current = node; current && current !== root; current = current.parent) {
+      const { x, y, z, w } = current.quaternion;
+      rest = multiplyQuat([x, y, z, w], rest);
+    }
+    return rest;
+  };
+
+  return Array.from(included).map(node => ({
+    name: node.name,
+    parent: node.parent && included.has(node.parent) ? node.parent.name : null,
+    rest: restOf(node)
+  }));
+}
+
+/**
+ * Pair each mapped humanoid bone with its object in the scene. Without a
+ * stored map one is detected from the scene's own skeleton.
+ */
+export function resolveHumanoidRig(root: any, boneMap?: BoneMap | null): HumanoidRig {
+  const map = boneMap ?? buildBoneMap(skeletonFromScene(root));
+  const objects = new Map<string, any>();
+  root?.traverse?.((object: any) => {
+    if (object.name && !objects.has(boneKey(object.name))) objects.set(boneKey(object.name), object);
+  });
+
+  const rig: HumanoidRig = new Map();
+  for (const humanoid of HUMANOID_BONES) {
+    const entry = map.bones[humanoid];
+    const bone = entry && objects.get(boneKey(entry.node));
+    if (entry && bone) rig.set(humanoid, { bone, entry });
+  }
+  return rig;
+}
+
+/**
+ * Pose a humanoid bone. Returns false when the avatar has no such bone.
+ */
+export function setHumanoidRotation(rig: HumanoidRig, humanoid: HumanoidBoneName, rotation: Quat): boolean {
+  const target = rig.get(humanoid);
+  if (!target) return false;
+  target.bone.quaternion.set(...toSourceRotation(target.entry, rotation));
+  return true;
+}
+
+// Euler angles in radians, three.js's default XYZ order
+export function eulerToQuat(x: number, y: number, z: number): Quat {
+  return new THREE.Quaternion().setFromEuler(new THREE.Euler(x, y, z)).toArray() as Quat;
+}
+
+/**
+ * Re-key a clip authored on the `source` skeleton for the `target` one.
+ * Only rotation tracks of humanoid bones both maps know are kept; root
+ * motion and morph tracks depend on the source model's scale and meshes.
+ */
+export function retargetClip(clip: THREE.AnimationClip, source: BoneMap, target: BoneMap): THREE.AnimationClip {
+  const humanoidByNode = new Map<string, HumanoidBoneName>();
+  for (const [humanoid, entry] of Object.entries(source.bones) as Array<[HumanoidBoneName, BoneMapEntry]>) {
+    humanoidByNode.set(boneKey(entry.node), humanoid);
+  }
+
+  const tracks: THREE.KeyframeTrack[] = [];
+  for (const track of clip.tracks) {
+    const { nodeName, propertyName } = THREE.PropertyBinding.parseTrackName(track.name);
+    const humanoid = humanoidByNode.get(boneKey(nodeName));
+    const from = humanoid && source.bones[humanoid];
+    const to = humanoid && target.bones[humanoid];
+    if (propertyName !== 'quaternion' || !from || !to) continue;
+
+    const values = new Float32Array(track.values.length);
+    for (let i = 0; i < values.length; i += 4) {
+      const local = Array.from(track.values.subarray(i, i + 4)) as Quat;
+      values.set(toSourceRotation(to, toHumanoidRotation(from, local)), i);
+    }
+    tracks.push(new THREE.QuaternionKeyframeTrack(`${THREE.PropertyBinding.sanitizeNodeName(to.node)}.quaternion`, Array.from(track.times), Array.from(values)));
+  }
+
+  return new THREE.AnimationClip(clip.name, clip.duration, tracks);
+}
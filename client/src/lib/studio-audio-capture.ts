@@ -0,0 +1,156 @@
+/**
+ * Studio audio capture for the RTMP bridge WebSocket
+ * Streams microphone and music/SFX bus PCM alongside canvas frames, stamped
+ * with the same clock so the server can keep A/V in sync
+ */
+
+import {
+  AUDIO_CHANNELS,
+  AUDIO_SAMPLE_RATE,
+  encodeFramePacket,
+  FrameFormat,
+  MediaTrack,
+  type AudioSourceUpdateMessage,
+} from '@shared/frame-protocol';
+
+type AudioTrack = MediaTrack.MICROPHONE | MediaTrack.MUSIC;
+
+interface CaptureSource {
+  input: MediaStreamAudioSourceNode;
+  processor: ScriptProcessorNode;
+  stream: MediaStream;
+  ownsStream: boolean;
+  sequence: number;
+}
+
+// 1024 frames @ 48kHz ≈ 21ms per chunk
+const PROCESSOR_BUFFER_SIZE = 1024;
+
+export class StudioAudioCapture {
+  private context: AudioContext;
+  private sink: GainNode;
+  private sources: Map<AudioTrack, CaptureSource> = new Map();
+  private contextEpoch: number; // wall-clock ms at AudioContext time 0
+
+  constructor(private ws: WebSocket, private streamId: string) {
+    this.context = new AudioContext({ sampleRate: AUDIO_SAMPLE_RATE });
+    this.contextEpoch = performance.timeOrigin + performance.now() - this.context.currentTime * 1000;
+
+    // ScriptProcessor only runs when connected to the destination; keep it silent
+    this.sink = this.context.createGain();
+    this.sink.gain.value = 0;
+    this.sink.connect(this.context.destination);
+  }
+
+  async addMicrophone(): Promise<void> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        echoCancellation: true,
+        noiseSuppression: true,
+        channelCount: AUDIO_CHANNELS,
+      },
+      video: false,
+    });
+
+    this.addSource(MediaTrack.MICROPHONE, stream, true);
+  }
+
+  /**
+   * Route a playing <audio>/<video> element into the music/SFX bus
+   */
+  addMusicElement(element: HTMLMediaElement) {
+    const capture = (element as any).captureStream ?? (element as any).mozCaptureStream;
+    if (!capture) {
+      throw new Error('This browser cannot capture audio from media elements');
+    }
+
+    this.addSource(MediaTrack.MUSIC, capture.call(element) as MediaStream, false);
+  }
+
+  removeSource(track: AudioTrack) {
+    const source = this.sources.get(track);
+    if (!source) return;
+
+    source.processor.onaudioprocess = null;
+    source.input.disconnect();
+    source.processor.disconnect();
+    if (source.ownsStream) {
+      source.stream.getTracks().forEach(t => t.stop());
+    }
+    this.sources.delete(track);
+  }
+
+  hasSource(track: AudioTrack): boolean {
+    return this.sources.has(track);
+  }
+
+  setGain(track: AudioTrack, gain: number) {
+    this.sendUpdate({ type: 'audio-source-update', streamId: this.streamId, track, gain });
+  }
+
+  setMuted(track: AudioTrack, muted: boolean) {
+    this.sendUpdate({ type: 'audio-source-update', streamId: this.streamId, track, muted });
+  }
+
+  async stop() {
+    Array.from(this.sources.keys()).forEach(track => this.removeSource(track));
+    this.sink.disconnect();
+    await this.context.close();
+  }
+
+  private addSource(track: AudioTrack, stream: MediaStream, ownsStream: boolean) {
+    this.removeSource(track);
+
+    if (this.context.state === 'suspended') {
+      this.context.resume();
+    }
+
+    const input = this.context.createMediaStreamSource(stream);
+    const processor = this.context.createScriptProcessor(PROCESSOR_BUFFER_SIZE, AUDIO_CHANNELS, AUDIO_CHANNELS);
+    const source: CaptureSource = { input, processor, stream, ownsStream, sequence: 0 };
+
+    processor.onaudioprocess = (event) => this.sendChunk(track, source, event);
+    input.connect(processor);
+    processor.connect(this.sink);
+
+    this.sources.set(track, source);
+  }
+
+  private sendChunk(track: AudioTrack, source: CaptureSource, event: AudioProcessingEvent) {
+    if (this.ws.readyState !== WebSocket.OPEN) return;
+
+    const { inputBuffer } = event;
+    const frames = inputBuffer.length;
+    const left = inputBuffer.getChannelData(0);
+    const right = inputBuffer.numberOfChannels > 1 ? inputBuffer.getChannelData(1) : left;
+
+    // Interleave to s16le
+    const pcm = new DataView(new ArrayBuffer(frames * AUDIO_CHANNELS * 2));
+    for (let i = 0; i < frames; i++) {
+      pcm.setInt16(i * 4, Math.max(-1, Math.min(1, left[i])) * 0x7fff, true);
+      pcm.setInt16(i * 4 + 2, Math.max(-1, Math.min(1, right[i])) * 0x7fff, true);
+    }
+
+    // playbackTime is when this block would play; its first sample was captured one block earlier
+    const timestamp = this.contextEpoch + (event.playbackTime - frames / inputBuffer.sampleRate) * 1000;
+
+    const packet = encodeFramePacket({
+      streamId: this.streamId,
+      track,
+      sequence: source.sequence,
+      timestamp,
+      format: FrameFormat.PCM_S16LE,
+      width: inputBuffer.sampleRate,
+      height: AUDIO_CHANNELS,
+    }, new Uint8Array(pcm.buffer));
+
+    source.sequence = (source.sequence + 1) >>> 0;
+    this.ws.send(packet);
+  }
+
+  private sendUpdate(message: AudioSourceUpdateMessage) {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Loader for the self-hosted tracking assets (see shared/tracking-assets.ts)
+ * Works on the main thread and in the tracking worker. Assets come from
+ * VITE_TRACKING_ASSET_BASE when set (a CDN or mirror laid out like our
+ * /tracking-assets route), from our own server otherwise.
+ *
+ * Each file is checked against the SHA-384 pinned in the build before it is
+ * used, or the manifest's for files that aren't pinned yet. We hash the
+ * bytes ourselves rather than pass fetch()'s integrity option, which holds
+ * back the body until it is complete and so hides progress.
+ */
+
+import { TRACKING_ASSET_SOURCES, type TrackingAssetManifest, type TrackingAssetName } from '@shared/tracking-assets';
+import type { TrackingFeatures } from '@/lib/tracking-solver';
+
+export const TRACKING_ASSET_BASE = (import.meta.env.VITE_TRACKING_ASSET_BASE || '/tracking-assets').replace(/\/$/, '');
+
+export class TrackingAssetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrackingAssetError';
+  }
+}
+
+export interface TrackingAssetProgress {
+  loaded: number;   // bytes received across every asset being downloaded
+  total: number;    // bytes expected across those assets
+  complete: boolean;
+}
+
+export type TrackingFileset = { wasmLoaderPath: string; wasmBinaryPath: string };
+
+let manifest: Promise<TrackingAssetManifest> | null = null;
+const downloads = new Map<TrackingAssetName, Promise<Uint8Array>>();
+const progress = new Map<TrackingAssetName, { loaded: number; total: number }>();
+const progressListeners = new Set<(progress: TrackingAssetProgress) => void>();
+
+/**
+ * The server's list of assets; fetched once per page or worker
+ */
+export function loadTrackingManifest(): Promise<TrackingAssetManifest> {
+  manifest ??= fetch(`${TRACKING_ASSET_BASE}/manifest.json`, { cache: 'no-cache' })
+    .then((response) => {
+      if (!response.ok) throw new TrackingAssetError(`Tracking asset manifest unavailable (${response.status})`);
+      return response.json() as Promise<TrackingAssetManifest>;
+    })
+    .catch((error) => {
+      manifest = null;
+      throw error;
+    });
+  return manifest;
+}
+
+/**
+ * Download one asset and verify it. Concurrent calls share a download; the
+ * bytes aren't kept afterwards, callers hold on to what they need.
+ */
+export function downloadTrackingAsset(
+  name: TrackingAssetName,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<Uint8Array> {
+  let download = downloads.get(name);
+  if (!download) {
+    download = fetchVerified(name, onProgress).finally(() => downloads.delete(name));
+    downloads.set(name, download);
+  }
+  return download;
+}
+
+async function fetchVerified(
+  name: TrackingAssetName,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<Uint8Array> {
+  const { version, assets } = await loadTrackingManifest();
+  const entry = assets[name];
+  if (!entry) throw new TrackingAssetError(`Tracking asset ${name} is not available on this server`);
+
+  // Versioned files are immutable, so the HTTP cache serves repeat loads
+  const response = await fetch(`${TRACKING_ASSET_BASE}/${version}/${entry.file}`);
+  if (!response.ok || !response.body) {
+    throw new TrackingAssetError(`Failed to download ${entry.file} (${response.status})`);
+  }
+
+  const bytes = new Uint8Array(entry.size);
+  const reader = response.body.getReader();
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (loaded + value.length > entry.size) throw new TrackingAssetError(`${entry.file} is larger than the manifest says`);
+    bytes.set(value, loaded);
+    loaded += value.length;
+    reportTrackingAssetProgress(name, loaded, entry.size);
+    onProgress?.(loaded, entry.size);
+  }
+  if (loaded !== entry.size) throw new TrackingAssetError(`${entry.file} is truncated (${loaded} of ${entry.size} bytes)`);
+
+  // The server's hash only says the file arrived intact; the pinned one says it is the right file
+  const integrity = TRACKING_ASSET_SOURCES[name].integrity ?? entry.integrity;
+  const [algorithm, expected] = integrity.split('-', 2);
+  if (algorithm !== 'sha384') throw new TrackingAssetError(`Unsupported integrity algorithm for ${entry.file}: ${algorithm}`);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-384', bytes));
+  if (btoa(String.fromCharCode(...Array.from(digest))) !== expected) {
+    throw new TrackingAssetError(`${entry.file} failed its integrity check`);
+  }
+  return bytes;
+}
+
+/**
+ * The MediaPipe WASM as blob URLs, for FaceLandmarker.createFromOptions and
+ * friends. Blob URLs keep the library from fetching unverified copies.
+ */
+export async function loadTrackingFileset(
+  onProgress?: (name: TrackingAssetName, loaded: number, total: number) => void
+): Promise<TrackingFileset> {
+  const [loader, binary] = await Promise.all([
+    downloadTrackingAsset('wasmLoader', (loaded, total) => onProgress?.('wasmLoader', loaded, total)),
+    downloadTrackingAsset('wasmBinary', (loaded, total) => onProgress?.('wasmBinary', loaded, total))
+  ]);
+  return {
+    wasmLoaderPath: URL.createObjectURL(new Blob([loader], { type: 'text/javascript' })),
+    wasmBinaryPath: URL.createObjectURL(new Blob([binary], { type: 'application/wasm' }))
+  };
+}
+
+/**
+ * Assets the tracking worker will need for `features`
+ */
+export function trackingAssetsFor(features: Partial<TrackingFeatures>): TrackingAssetName[] {
+  const names: TrackingAssetName[] = [];
+  if (features.faceTracking) names.push('faceModel');
+  if (features.bodyTracking) names.push('poseModel');
+  if (features.handTracking) names.push('handModel');
+  return names.length > 0 ? ['wasmLoader', 'wasmBinary', ...names] : [];
+}
+
+/**
+ * Warm the HTTP cache as the studio opens, so starting the camera doesn't
+ * wait on downloads. Failures are left for the worker to report.
+ */
+export function prefetchTrackingAssets(features: Partial<TrackingFeatures>): void {
+  for (const name of trackingAssetsFor(features)) {
+    downloadTrackingAsset(name).catch(error => console.warn(`⚠️ Tracking asset prefetch failed (${name}):`, error));
+  }
+}
+
+/**
+ * Record download progress for an asset; the tracking engine also forwards
+ * what its worker downloads through here
+ */
+export function reportTrackingAssetProgress(name: TrackingAssetName, loaded: number, total: number): void {
+  progress.set(name, { loaded, total });
+  const snapshot = getTrackingAssetProgress();
+  progressListeners.forEach(listener => listener(snapshot));
+}
+
+export function getTrackingAssetProgress(): TrackingAssetProgress {
+  let loaded = 0;
+  let total = 0;
+  progress.forEach((asset) => {
+    loaded += asset.loaded;
+    total += asset.total;
+  });
+  return { loaded, total, complete: loaded >= total };
+}
+
+export function onTrackingAssetProgress(listener: (progress: TrackingAssetProgress) => void): () => void {
+  progressListeners.add(listener);
+  return () => progressListeners.delete(listener);
+}
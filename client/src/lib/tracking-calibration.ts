@@ -0,0 +1,185 @@
+/**
+ * Per-user tracking calibration (see shared/tracking-calibration.ts)
+ * Turns the frames the calibration wizard captured into a calibration, and
+ * applies one to solved frames in the tracking worker: blendshapes are
+ * stretched from the user's rest-to-full range onto 0-1, and bones are
+ * turned so the rotations the user's rest poses solved to become identity.
+ * Captures are unfiltered frames, so rest and peak levels are taken as
+ * percentiles rather than single readings.
+ */
+
+import { invertQuat, multiplyQuat, type HumanoidBoneName, type Quat } from '@shared/retargeting';
+import {
+  CALIBRATION_STEPS,
+  MAX_REST_OFFSET_DEG,
+  MIN_BLENDSHAPE_RANGE,
+  type BlendshapeRange,
+  type CalibrationStep,
+  type CalibrationStepId,
+  type TrackingCalibration
+} from '@shared/tracking-calibration';
+import { clampJoint } from '@/lib/tracking-ik';
+import { DEG, normalizeQuat, quatAngle } from '@/lib/tracking-math';
+import type { TrackingFrame } from '@/lib/tracking-solver';
+
+export type CalibrationCaptures = Partial<Record<CalibrationStepId, TrackingFrame[]>>;
+
+// Share of a step's frames taken as the user's full effort; the rest allow
+// for a late start and the odd spike
+const PEAK_PERCENTILE = 0.95;
+
+// Rest levels and rotations smaller than these are within tracking noise
+const MIN_REST_WEIGHT = 0.01;
+const MIN_REST_OFFSET_DEG = 2;
+
+// The neutral face sets the head and neck; fingers, eyes and jaw aren't posed in a T-pose
+const FACE_BONES: HumanoidBoneName[] = ['neck', 'head'];
+const isTPoseBone = (bone: string) => !FACE_BONES.includes(bone as HumanoidBoneName) && !/(Thumb|Index|Middle|Ring|Little|Eye|jaw)/.test(bone);
+
+/**
+ * `frame` as this user's face and body would look on an average one
+ */
+export function applyTrackingCalibration(frame: TrackingFrame, calibration: TrackingCalibration): TrackingFrame {
+  const blendshapes = { ...frame.blendshapes };
+  for (const [name, range] of Object.entries(calibration.blendshapes)) {
+    if (blendshapes[name] !== undefined) blendshapes[name] = normalizeWeight(blendshapes[name], range);
+  }
+
+  const bones = { ...frame.bones };
+  for (const [bone, rest] of Object.entries(calibration.bones) as Array<[HumanoidBoneName, Quat]>) {
+    const rotation = bones[bone];
+    if (rotation) bones[bone] = clampJoint(bone, multiplyQuat(invertQuat(rest), rotation));
+  }
+
+  const head = frame.head && calibration.head
+    ? { ...frame.head, rotation: multiplyQuat(invertQuat(calibration.head), frame.head.rotation) }
+    : frame.head;
+
+  return { ...frame, head, blendshapes, bones };
+}
+
+export function normalizeWeight(weight: number, { min, max }: BlendshapeRange): number {
+  return Math.max(0, Math.min(1, (weight - min) / (max - min)));
+}
+
+/**
+ * A calibration from the wizard's captures. Steps left out keep the
+ * defaults: a 0-1 range, or no rest rotation.
+ */
+export function buildTrackingCalibration(captures: CalibrationCaptures): TrackingCalibration {
+  const calibration: TrackingCalibration = {
+    version: 1,
+    calibratedAt: new Date().toISOString(),
+    blendshapes: {},
+    head: null,
+    bones: {}
+  };
+
+  const neutral = faceFrames(captures.neutral);
+  if (neutral.length > 0) {
+    // Whatever a relaxed face already reads is the new zero
+    const names = new Set(neutral.flatMap(frame => Object.keys(frame.blendshapes)));
+    for (const name of Array.from(names)) {
+      const min = round(restWeight(neutral, name));
+      if (min >= MIN_REST_WEIGHT && 1 - min >= MIN_BLENDSHAPE_RANGE) calibration.blendshapes[name] = { min, max: 1 };
+    }
+    calibration.head = restOffset(neutral.map(frame => frame.head?.rotation));
+    for (const bone of FACE_BONES) {
+      const rest = restOffset(neutral.map(frame => frame.bones[bone]));
+      if (rest) calibration.bones[bone] = rest;
+    }
+  }
+
+  for (const step of CALIBRATION_STEPS) {
+    const frames = faceFrames(captures[step.id]);
+    if (step.blendshapes.length === 0 || frames.length === 0) continue;
+    for (const name of step.blendshapes) {
+      const min = calibration.blendshapes[name]?.min ?? 0;
+      const max = round(peakWeight(frames, name));
+      if (max - min >= MIN_BLENDSHAPE_RANGE) calibration.blendshapes[name] = { min, max };
+    }
+  }
+
+  const tPose = captures.tPose ?? [];
+  const bones = new Set(tPose.flatMap(frame => Object.keys(frame.bones).filter(isTPoseBone) as HumanoidBoneName[]));
+  for (const bone of Array.from(bones)) {
+    const rest = restOffset(tPose.map(frame => frame.bones[bone]));
+    if (rest) calibration.bones[bone] = rest;
+  }
+
+  return calibration;
+}
+
+/**
+ * What went wrong with a step's capture, or null if it can be used. Range
+ * steps are compared against the neutral capture.
+ */
+export function checkCalibrationCapture(step: CalibrationStep, frames: TrackingFrame[], neutral: TrackingFrame[] = []): string | null {
+  if (step.needs === 'face') {
+    const seen = faceFrames(frames);
+    if (seen.length === 0 || seen.length < frames.length / 2) {
+      return "We couldn't see your face clearly. Face the camera in good light and try again.";
+    }
+    const rest = faceFrames(neutral);
+    if (step.blendshapes.length > 0 && rest.length > 0) {
+      const moved = step.blendshapes.some(name => peakWeight(seen, name) - restWeight(rest, name) >= MIN_BLENDSHAPE_RANGE);
+      if (!moved) return 'That barely registered. Exaggerate it a little more and try again.';
+    }
+    return null;
+  }
+
+  const arms = frames.filter(frame => frame.bones.leftUpperArm && frame.bones.rightUpperArm);
+  if (arms.length === 0 || arms.length < frames.length / 2) {
+    return "We couldn't see both arms. Step back until your elbows and hands are in view.";
+  }
+  for (const bone of ['leftUpperArm', 'rightUpperArm'] as const) {
+    const rest = meanRotation(arms.map(frame => frame.bones[bone]!));
+    if (quatAngle(rest) / DEG > MAX_REST_OFFSET_DEG) {
+      return 'Hold both arms straight out to the sides, level with your shoulders.';
+    }
+  }
+  return null;
+}
+
+function faceFrames(frames: TrackingFrame[] = []): TrackingFrame[] {
+  return frames.filter(frame => frame.confidence.face > 0);
+}
+
+function restWeight(frames: TrackingFrame[], name: string): number {
+  return percentile(frames.map(frame => frame.blendshapes[name] ?? 0), 0.5);
+}
+
+function peakWeight(frames: TrackingFrame[], name: string): number {
+  return percentile(frames.map(frame => frame.blendshapes[name] ?? 0), PEAK_PERCENTILE);
+}
+
+// Average rotation of a bone seen in most frames, if it is worth correcting
+function restOffset(rotations: Array<Quat | undefined>): Quat | null {
+  const seen = rotations.filter((rotation): rotation is Quat => !!rotation);
+  if (seen.length === 0 || seen.length < rotations.length / 2) return null;
+  const rest = meanRotation(seen);
+  const degrees = quatAngle(rest) / DEG;
+  if (degrees < MIN_REST_OFFSET_DEG || degrees > MAX_REST_OFFSET_DEG) return null;
+  // Four places keep it a unit quaternion to well within the server's check
+  return rest.map(value => Math.round(value * 1e4) / 1e4) as Quat;
+}
+
+// Close rotations average well enough component-wise once on one hemisphere
+function meanRotation(rotations: Quat[]): Quat {
+  const sum: Quat = [0, 0, 0, 0];
+  for (const rotation of rotations) {
+    const sign = rotation[0] * rotations[0][0] + rotation[1] * rotations[0][1] + rotation[2] * rotations[0][2] + rotation[3] * rotations[0][3] < 0 ? -1 : 1;
+    for (let i = 0; i < 4; i++) sum[i] += rotation[i] * sign;
+  }
+  return normalizeQuat(sum);
+}
+
+function percentile(values: number[], fraction: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,336 @@
+/**
+ * Signal filtering between the landmarkers and the avatar (see
+ * workers/tracking-worker.ts). Raw landmarks jitter by a few millimetres
+ * from frame to frame, much more in low light, and the solved bones
+ * amplify it into visible shaking.
+ *
+ * Two stages:
+ *  - Before solving, every landmark coordinate, blendshape score and the
+ *    head position go through a One-Euro filter: a low-pass whose cutoff
+ *    rises with speed, so the avatar is steady when the user holds still
+ *    and keeps up when they move. Low-visibility landmarks get a lower
+ *    cutoff.
+ *  - After solving, bone and head rotations ease toward the solved pose by
+ *    slerp. The step per frame is capped at a plausible angular speed, so a
+ *    one-frame misdetection can't flip a limb round.
+ *
+ * A face, body or hand that drops out keeps its last pose for `holdMs`
+ * (fading its confidence) instead of snapping away; after that its filter
+ * state is dropped and it starts fresh when it comes back.
+ *
+ * The plan's animationSmoothness and animationResponsiveness pick the
+ * parameters (see trackingFilterParams).
+ */
+
+import type { HumanoidBoneName, Quat } from '@shared/retargeting';
+import { angleBetweenQuats, slerp } from '@/lib/tracking-math';
+import {
+  trackedHandSide,
+  type Landmark,
+  type SolverInput,
+  type TrackingConfidence,
+  type TrackingFrame
+} from '@/lib/tracking-solver';
+
+export interface TrackingFilterParams {
+  minCutoff: number;        // Hz, One-Euro cutoff at rest; lower is steadier and laggier
+  beta: number;             // cutoff gained per unit of speed; higher keeps up with fast moves
+  derivativeCutoff: number; // Hz, smoothing of the speed estimate itself
+  rotationRate: number;     // 1/s, how fast rotations converge on the solved pose
+  maxAngularSpeed: number;  // rad/s, faster rotation is treated as a misdetection
+  holdMs: number;           // how long a part that dropped out keeps its last pose
+}
+
+type Part = keyof TrackingConfidence;
+
+const PARTS: Part[] = ['face', 'pose', 'leftHand', 'rightHand'];
+
+// One-Euro speeds are in the channel's own units per second; these bring
+// landmarks (metres), head position (cm) and blendshapes (0-1) to one scale
+const LANDMARK_SPEED_SCALE = 3;
+const HEAD_POSITION_SPEED_SCALE = 1;
+const BLENDSHAPE_SPEED_SCALE = 1;
+
+// Below this, low confidence stops slowing the filters down any further
+const MIN_CONFIDENCE_WEIGHT = 0.25;
+
+/**
+ * Filter parameters for a plan. Both values are 0-1; plans edited in the
+ * admin panel store percentages and the database returns numerics as
+ * strings, so both are accepted.
+ */
+export function trackingFilterParams(
+  smoothness: number | string | null | undefined,
+  responsiveness: number | string | null | undefined
+): TrackingFilterParams {
+  const s = tierLevel(smoothness);
+  const r = tierLevel(responsiveness);
+  return {
+    minCutoff: lerp(2.5, 0.3, s),
+    beta: lerp(0.1, 3, r),
+    derivativeCutoff: 1,
+    rotationRate: lerp(30, 8, s) + lerp(0, 30, r),
+    maxAngularSpeed: lerp(8, 25, r),
+    holdMs: lerp(150, 400, s)
+  };
+}
+
+function tierLevel(value: number | string | null | undefined): number {
+  let level = typeof value === 'string' ? parseFloat(value) : value ?? NaN;
+  if (!Number.isFinite(level)) return 0.5;
+  if (level > 1) level /= 100;
+  return Math.max(0, Math.min(1, level));
+}
+
+/**
+ * One-Euro filter for a single value (Casiez, Roussel and Vogel, CHI 2012)
+ */
+export class OneEuroFilter {
+  private value: number | null = null;
+  private speed = 0;
+  private timestamp = 0;
+
+  constructor(private params: TrackingFilterParams, private speedScale = 1) {}
+
+  /**
+   * Filtered value at `timestamp` (ms). `confidence` below 1 lowers the
+   * cutoff, so uncertain samples move the output less.
+   */
+  filter(value: number, timestamp: number, confidence = 1): number {
+    if (this.value === null) {
+      this.value = value;
+      this.timestamp = timestamp;
+      return value;
+    }
+    const dt = (timestamp - this.timestamp) / 1000;
+    if (dt <= 0) return this.value;
+
+    const { minCutoff, beta, derivativeCutoff } = this.params;
+    this.speed = lowPass(this.speed, (value - this.value) / dt, smoothingFactor(dt, derivativeCutoff));
+    const cutoff = minCutoff * confidenceWeight(confidence) + beta * this.speedScale * Math.abs(this.speed);
+    this.value = lowPass(this.value, value, smoothingFactor(dt, cutoff));
+    this.timestamp = timestamp;
+    return this.value;
+  }
+
+  reset(): void {
+    this.value = null;
+    this.speed = 0;
+  }
+}
+
+// Filters for a group of values that appear and disappear together
+class FilterBank {
+  private filters = new Map<string, OneEuroFilter>();
+  private lastSeen = -Infinity;
+
+  constructor(private params: TrackingFilterParams, private speedScale: number) {}
+
+  filter(key: string, value: number, timestamp: number, confidence?: number): number {
+    let filter = this.filters.get(key);
+    if (!filter) {
+      filter = new OneEuroFilter(this.params, this.speedScale);
+      this.filters.set(key, filter);
+    }
+    return filter.filter(value, timestamp, confidence);
+  }
+
+  // Forget everything when the group was gone longer than the hold time
+  begin(timestamp: number): void {
+    if (timestamp - this.lastSeen > this.params.holdMs) this.filters.clear();
+    this.lastSeen = timestamp;
+  }
+}
+
+export class TrackingFilter {
+  private banks = new Map<string, FilterBank>();
+  private rotations = new Map<string, { rotation: Quat; timestamp: number }>();
+  private previous: TrackingFrame | null = null;
+  private lastSeen: Record<Part, number> = { face: -Infinity, pose: -Infinity, leftHand: -Infinity, rightHand: -Infinity };
+  private lastConfidence: Record<Part, number> = { face: 0, pose: 0, leftHand: 0, rightHand: 0 };
+
+  constructor(private params: TrackingFilterParams) {}
+
+  setParams(params: TrackingFilterParams): void {
+    this.params = params;
+    this.reset();
+  }
+
+  reset(): void {
+    this.banks.clear();
+    this.rotations.clear();
+    this.previous = null;
+  }
+
+  /**
+   * One-Euro stage: a copy of `input` with smoothed landmarks and scores
+   */
+  filterInput(input: SolverInput): SolverInput {
+    const { timestamp } = input;
+    const output: SolverInput = { timestamp, face: null, pose: null, hands: [] };
+
+    if (input.face) {
+      const bank = this.bank('face', BLENDSHAPE_SPEED_SCALE);
+      bank.begin(timestamp);
+      const position = this.bank('headPosition', HEAD_POSITION_SPEED_SCALE);
+      position.begin(timestamp);
+
+      let matrix = input.face.matrix;
+      if (matrix) {
+        // Only the translation; the rotation is eased after solving
+        matrix = matrix.slice();
+        for (const index of [12, 13, 14]) matrix[index] = position.filter(String(index), matrix[index], timestamp);
+      }
+      output.face = {
+        matrix,
+        blendshapes: input.face.blendshapes.map(({ categoryName, score }) => ({
+          categoryName,
+          score: bank.filter(categoryName, score, timestamp)
+        }))
+      };
+    }
+
+    if (input.pose) {
+      output.pose = { worldLandmarks: this.filterLandmarks('pose', input.pose.worldLandmarks, timestamp, 1) };
+    }
+
+    // Both hands can come back with the same label; like the solver, keep
+    // the surer one per side so two hands never share one set of filters
+    const hands = new Map<string, SolverInput['hands'][number]>();
+    for (const hand of input.hands) {
+      const key = `${trackedHandSide(hand.handedness)}Hand`;
+      if (hand.score > (hands.get(key)?.score ?? -1)) hands.set(key, hand);
+    }
+    hands.forEach((hand, key) => {
+      output.hands.push({ ...hand, worldLandmarks: this.filterLandmarks(key, hand.worldLandmarks, timestamp, hand.score) });
+    });
+
+    return output;
+  }
+
+  /**
+   * Rotation stage: eases the solved frame's rotations and holds parts
+   * that dropped out
+   */
+  filterFrame(frame: TrackingFrame): TrackingFrame {
+    const output: TrackingFrame = {
+      ...frame,
+      head: frame.head && { ...frame.head },
+      blendshapes: { ...frame.blendshapes },
+      bones: {},
+      confidence: { ...frame.confidence }
+    };
+
+    for (const [bone, rotation] of Object.entries(frame.bones) as Array<[HumanoidBoneName, Quat]>) {
+      output.bones[bone] = this.easeRotation(bone, rotation, frame.timestamp, frame.confidence[bonePart(bone)]);
+    }
+    if (frame.head && output.head) {
+      output.head.rotation = this.easeRotation('head:rotation', frame.head.rotation, frame.timestamp, frame.confidence.face);
+    }
+
+    for (const part of PARTS) {
+      if (frame.confidence[part] > 0) {
+        this.lastSeen[part] = frame.timestamp;
+        this.lastConfidence[part] = frame.confidence[part];
+        continue;
+      }
+
+      const missingFor = frame.timestamp - this.lastSeen[part];
+      if (missingFor > this.params.holdMs || !this.previous) {
+        this.forgetPart(part);
+        continue;
+      }
+
+      // Still within the hold: repeat the last pose with fading confidence
+      const previous = this.previous;
+      output.confidence[part] = this.lastConfidence[part] * (1 - missingFor / this.params.holdMs);
+      for (const [bone, rotation] of Object.entries(previous.bones) as Array<[HumanoidBoneName, Quat]>) {
+        if (bonePart(bone) === part && !output.bones[bone]) output.bones[bone] = rotation;
+      }
+      if (part === 'face') {
+        output.head ??= previous.head;
+        for (const [name, weight] of Object.entries(previous.blendshapes)) output.blendshapes[name] ??= weight;
+      }
+    }
+
+    this.previous = output;
+    return output;
+  }
+
+  private bank(key: string, speedScale: number): FilterBank {
+    let bank = this.banks.get(key);
+    if (!bank) {
+      bank = new FilterBank(this.params, speedScale);
+      this.banks.set(key, bank);
+    }
+    return bank;
+  }
+
+  private filterLandmarks(key: string, landmarks: Landmark[], timestamp: number, confidence: number): Landmark[] {
+    const bank = this.bank(key, LANDMARK_SPEED_SCALE);
+    bank.begin(timestamp);
+    return landmarks.map((landmark, index) => {
+      const weight = Math.min(confidence, landmark.visibility ?? 1);
+      return {
+        ...landmark,
+        x: bank.filter(`${index}x`, landmark.x, timestamp, weight),
+        y: bank.filter(`${index}y`, landmark.y, timestamp, weight),
+        z: bank.filter(`${index}z`, landmark.z, timestamp, weight)
+      };
+    });
+  }
+
+  private easeRotation(key: string, target: Quat, timestamp: number, confidence: number): Quat {
+    const state = this.rotations.get(key);
+    if (!state || timestamp - state.timestamp > this.params.holdMs) {
+      this.rotations.set(key, { rotation: target, timestamp });
+      return target;
+    }
+
+    const dt = (timestamp - state.timestamp) / 1000;
+    if (dt <= 0) return state.rotation;
+
+    // Velocity clamp first, then ease the rest of the way
+    const angle = angleBetweenQuats(state.rotation, target);
+    const maxStep = this.params.maxAngularSpeed * dt;
+    const clamped = angle > maxStep ? slerp(state.rotation, target, maxStep / angle) : target;
+    const alpha = 1 - Math.exp(-this.params.rotationRate * confidenceWeight(confidence) * dt);
+    const rotation = slerp(state.rotation, clamped, alpha);
+
+    this.rotations.set(key, { rotation, timestamp });
+    return rotation;
+  }
+
+  private forgetPart(part: Part): void {
+    this.rotations.forEach((_, key) => {
+      if (key === 'head:rotation' ? part === 'face' : bonePart(key as HumanoidBoneName) === part) this.rotations.delete(key);
+    });
+  }
+}
+
+/**
+ * The tracked part a bone's rotation comes from
+ */
+export function bonePart(bone: HumanoidBoneName): Part {
+  if (bone === 'head' || bone === 'neck' || bone === 'leftEye' || bone === 'rightEye') return 'face';
+  const hand = /^(left|right)(Hand|Thumb|Index|Middle|Ring|Little)/.exec(bone);
+  if (hand) return hand[1] === 'left' ? 'leftHand' : 'rightHand';
+  return 'pose';
+}
+
+function confidenceWeight(confidence: number): number {
+  return Math.max(MIN_CONFIDENCE_WEIGHT, Math.min(1, confidence));
+}
+
+function smoothingFactor(dt: number, cutoff: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+function lowPass(previous: number, value: number, alpha: number): number {
+  return previous + alpha * (value - previous);
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
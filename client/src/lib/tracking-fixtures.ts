@@ -0,0 +1,78 @@
+/**
+ * Landmark fixtures for the solver's golden tests (see scripts/tracking-golden.ts)
+ * Synthetic fixtures pose a reference skeleton with known rotations, so they
+ * can only test the solver against its own idea of MediaPipe. Recorded ones
+ * are real landmarks saved from the camera debug page; the scenarios below
+ * are the recordings the harness asks for. Real landmarks come without true
+ * angles, so their expectations bound how far a bone may jump between
+ * frames and how often it must be solved rather than what it should read.
+ */
+
+import type { HumanoidBoneName } from '@shared/retargeting';
+import type { SolverInput, TrackingFeatures } from '@/lib/tracking-solver';
+
+export interface TrackingFixtureExpectation {
+  bone: HumanoidBoneName;
+  angle?: number;            // degrees the local rotation turns
+  max?: number;              // or at most this many degrees
+  maxStep?: number;          // or at most this many degrees from one frame to the next
+  absent?: boolean;          // or not solved at all
+  minSolved?: number;        // share of frames it must be solved in; frames without it are skipped
+  tolerance?: number;        // degrees, default 3
+  frames?: [number, number]; // first and last frame checked, default all
+}
+
+export interface TrackingFixture {
+  description: string;
+  source: 'synthetic' | 'recorded';
+  features?: Partial<TrackingFeatures>;
+  frames: SolverInput[];
+  expect: TrackingFixtureExpectation[];
+}
+
+export interface RecordedFixtureScenario {
+  name: string; // saved as recorded-<name>.fixture.json
+  title: string;
+  instruction: string;
+  expect: TrackingFixtureExpectation[];
+}
+
+const sides = ['left', 'right'] as const;
+
+export const RECORDED_FIXTURE_SCENARIOS: RecordedFixtureScenario[] = [
+  {
+    name: 'elbow-flip',
+    title: 'Elbow flip',
+    instruction: 'Hold both arms out in front of you, then slowly bend and fully straighten the elbows a few times.',
+    expect: sides.flatMap(side => [
+      { bone: `${side}UpperArm` as HumanoidBoneName, maxStep: 30, minSolved: 0.9 },
+      { bone: `${side}LowerArm` as HumanoidBoneName, maxStep: 30, minSolved: 0.9 }
+    ])
+  },
+  {
+    name: 'spine-bend',
+    title: 'Spine bend',
+    instruction: 'Step back until your hips are in view, then bend slowly to the left, to the right and forward.',
+    expect: [
+      { bone: 'spine', maxStep: 15, minSolved: 0.9 },
+      { bone: 'chest', maxStep: 15, minSolved: 0.9 }
+    ]
+  },
+  {
+    name: 'low-light-jitter',
+    title: 'Low-light jitter',
+    instruction: 'Dim the room lights, then sit still facing the camera with your arms resting until the recording ends.',
+    expect: [
+      { bone: 'head', maxStep: 10, minSolved: 0.8 },
+      { bone: 'leftUpperArm', maxStep: 15, minSolved: 0.5 },
+      { bone: 'rightUpperArm', maxStep: 15, minSolved: 0.5 }
+    ]
+  },
+  {
+    name: 'fingers',
+    title: 'Fingers',
+    instruction: 'Hold your right hand up to the camera, palm towards it: open it wide, make a fist, point, and open it again.',
+    expect: (['rightThumbProximal', 'rightIndexProximal', 'rightIndexIntermediate', 'rightMiddleIntermediate', 'rightLittleIntermediate'] as const)
+      .map(bone => ({ bone, maxStep: 45, minSolved: 0.8 }))
+  }
+];
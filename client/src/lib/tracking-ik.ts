@@ -0,0 +1,388 @@
+/**
+ * Landmark-to-bone IK for the VIDA humanoid rig (see lib/tracking-solver.ts)
+ * Turns MediaPipe pose and hand world landmarks, already in avatar space,
+ * into humanoid bone rotations: each bone relative to its parent, identity
+ * in the T-pose.
+ *
+ *  - Limbs are solved as swing plus twist. The swing points the upper arm
+ *    or thigh at the elbow or knee; the twist turns it about its own axis
+ *    until the elbow or knee hinge lies in the plane the limb bends in, so
+ *    the forearm and shin only ever rotate about their hinge. A nearly
+ *    straight limb doesn't show which way it bends, so the twist fades out
+ *    instead of flipping.
+ *  - Wrist twist (pronation) is carried by the forearm, the way real rigs
+ *    skin it; the hand bone keeps the bend of the wrist.
+ *  - The pelvis comes from the hip line and gravity, the chest from the
+ *    shoulder line and the hips-to-shoulders direction. The rotation between
+ *    them is shared equally by spine, chest and upperChest so the back bends
+ *    instead of kinking at one joint.
+ *  - Every rotation is clamped to an anatomical range (jointLimit) before
+ *    its children are solved against it.
+ *  - Fingers past the knuckle are driven by one curl value per finger,
+ *    which holds up far better to occluded joints than per-segment angles.
+ */
+
+import { multiplyQuat, type HumanoidBoneName, type Quat } from '@shared/retargeting';
+import {
+  DEG,
+  IDENTITY,
+  angleBetweenVectors,
+  axisAngle,
+  basisRotation,
+  cross,
+  dot,
+  length,
+  local,
+  midpoint,
+  normalize,
+  quatAngle,
+  rotateVector,
+  rotationBetween,
+  slerp,
+  subtract,
+  swingTwist,
+  type Vec3
+} from '@/lib/tracking-math';
+
+export type Side = 'left' | 'right';
+
+export type BoneRotations = Partial<Record<HumanoidBoneName, Quat>>;
+
+/**
+ * Rotations solved so far for one frame. Bones are solved parent first;
+ * hands and faces look up their parent's world rotation here.
+ */
+export interface IKPose {
+  bones: BoneRotations;   // local rotations, within jointLimit()
+  worlds: BoneRotations;  // the same bones in world (avatar) space
+  // Forearms as the arm solve left them, before the wrist's twist is added
+  forearms: Partial<Record<Side, { parent: Quat; world: Quat }>>;
+}
+
+export interface JointLimit {
+  axis: Vec3;                                        // bone direction at rest; twist is measured around it
+  twist: [number, number];                           // degrees
+  swing?: number;                                    // cone half-angle, degrees
+  hinge?: { axis: Vec3; range: [number, number] };   // one-axis joints swing about this only
+}
+
+// The subset of MediaPipe's Landmark the IK reads, already in avatar space
+export interface AvatarLandmark {
+  point: Vec3;
+  visibility: number;
+}
+
+export const POSE_LANDMARKS = {
+  leftShoulder: 11, rightShoulder: 12,
+  leftElbow: 13, rightElbow: 14,
+  leftWrist: 15, rightWrist: 16,
+  leftPinky: 17, rightPinky: 18,
+  leftIndex: 19, rightIndex: 20,
+  leftHip: 23, rightHip: 24,
+  leftKnee: 25, rightKnee: 26,
+  leftAnkle: 27, rightAnkle: 28,
+  leftHeel: 29, rightHeel: 30,
+  leftFootIndex: 31, rightFootIndex: 32
+} as const;
+
+export const HAND_FINGERS = [
+  { name: 'Thumb', segments: ['Metacarpal', 'Proximal', 'Distal'], joints: [1, 2, 3, 4] },
+  { name: 'Index', segments: ['Proximal', 'Intermediate', 'Distal'], joints: [5, 6, 7, 8] },
+  { name: 'Middle', segments: ['Proximal', 'Intermediate', 'Distal'], joints: [9, 10, 11, 12] },
+  { name: 'Ring', segments: ['Proximal', 'Intermediate', 'Distal'], joints: [13, 14, 15, 16] },
+  { name: 'Little', segments: ['Proximal', 'Intermediate', 'Distal'], joints: [17, 18, 19, 20] }
+] as const;
+
+// Pose landmarks below this visibility are treated as out of frame
+const MIN_VISIBILITY = 0.5;
+
+// Bend (radians) below which a limb counts as straight, and above which
+// its bend plane is trusted fully
+const BEND_UNKNOWN = 8 * DEG;
+const BEND_KNOWN = 25 * DEG;
+
+// Finger joint angles at a full curl; the last joint bends about 2/3 as far
+const FINGER_PIP_CURL = 100 * DEG;
+const FINGER_DIP_CURL = 70 * DEG;
+
+const UP: Vec3 = [0, 1, 0];
+const SIGN: Record<Side, number> = { left: 1, right: -1 };
+
+/**
+ * Anatomical range of a humanoid bone, or null for bones left free (the
+ * hips are the root, the jaw is driven by blendshapes)
+ */
+export function jointLimit(bone: HumanoidBoneName): JointLimit | null {
+  const torso = { axis: UP, swing: 30, twist: [-20, 20] as [number, number] };
+  switch (bone) {
+    case 'spine':
+    case 'chest':
+    case 'upperChest':
+      return torso;
+    case 'neck':
+      return { axis: UP, swing: 40, twist: [-35, 35] };
+    case 'head':
+      return { axis: UP, swing: 45, twist: [-50, 50] };
+    case 'leftEye':
+    case 'rightEye':
+      return { axis: [0, 0, 1], swing: 35, twist: [0, 0] };
+  }
+
+  const match = /^(left|right)(.+)$/.exec(bone);
+  if (!match) return null;
+  const s = SIGN[match[1] as Side];
+  const along: Vec3 = [s, 0, 0];
+  const fingerHinge: Vec3 = [0, 0, -s];
+
+  switch (match[2]) {
+    case 'Shoulder': return { axis: along, swing: 20, twist: [-10, 10] };
+    case 'UpperArm': return { axis: along, swing: 160, twist: [-90, 90] };
+    case 'LowerArm': return { axis: along, twist: [-90, 90], hinge: { axis: [0, -s, 0], range: [-5, 150] } };
+    case 'Hand': return { axis: along, swing: 80, twist: [-20, 20] };
+    case 'UpperLeg': return { axis: [0, -1, 0], swing: 120, twist: [-45, 45] };
+    case 'LowerLeg': return { axis: [0, -1, 0], twist: [-10, 10], hinge: { axis: [1, 0, 0], range: [-5, 150] } };
+    case 'Foot': return { axis: [0, 0, 1], swing: 50, twist: [-20, 20] };
+    case 'Toes': return { axis: [0, 0, 1], swing: 40, twist: [-5, 5] };
+    case 'ThumbMetacarpal': return { axis: thumbAxis(s), swing: 60, twist: [-30, 30] };
+    case 'ThumbProximal': return { axis: thumbAxis(s), swing: 60, twist: [-10, 10] };
+    case 'ThumbDistal': return { axis: thumbAxis(s), swing: 80, twist: [-5, 5] };
+  }
+  if (match[2].endsWith('Proximal')) return { axis: along, swing: 90, twist: [-15, 15] };
+  if (match[2].endsWith('Intermediate')) return { axis: along, twist: [-5, 5], hinge: { axis: fingerHinge, range: [-5, 110] } };
+  if (match[2].endsWith('Distal')) return { axis: along, twist: [-5, 5], hinge: { axis: fingerHinge, range: [-5, 90] } };
+  return null;
+}
+
+/**
+ * `rotation` (local, humanoid) brought inside the bone's anatomical range
+ */
+export function clampJoint(bone: HumanoidBoneName, rotation: Quat): Quat {
+  const limit = jointLimit(bone);
+  if (!limit) return rotation;
+
+  const { swing, twistAngle } = swingTwist(rotation, limit.axis);
+  const twist = axisAngle(limit.axis, clamp(twistAngle, limit.twist[0] * DEG, limit.twist[1] * DEG));
+
+  let limited: Quat;
+  if (limit.hinge) {
+    // Keep only the part of the swing about the hinge
+    const { axis, range } = limit.hinge;
+    const angle = 2 * Math.atan2(dot([swing[0], swing[1], swing[2]], axis), swing[3]);
+    limited = axisAngle(axis, clamp(wrapAngle(angle), range[0] * DEG, range[1] * DEG));
+  } else {
+    const angle = quatAngle(swing);
+    const max = (limit.swing ?? 180) * DEG;
+    limited = angle > max ? slerp(IDENTITY, swing, max / angle) : swing;
+  }
+  return multiplyQuat(limited, twist);
+}
+
+export function createIKPose(bones: BoneRotations = {}): IKPose {
+  return { bones, worlds: {}, forearms: {} };
+}
+
+/**
+ * Torso, arms and legs from MediaPipe pose world landmarks. Returns the
+ * pose confidence, 0 when the shoulders aren't both in frame.
+ */
+export function solveBody(landmarks: AvatarLandmark[], pose: IKPose): number {
+  const point = (index: number): Vec3 | null => {
+    const landmark = landmarks[index];
+    return landmark && landmark.visibility >= MIN_VISIBILITY ? landmark.point : null;
+  };
+
+  const leftShoulder = point(POSE_LANDMARKS.leftShoulder);
+  const rightShoulder = point(POSE_LANDMARKS.rightShoulder);
+  if (!leftShoulder || !rightShoulder) return 0;
+
+  // World landmarks are centred between the hips, so the origin stands in
+  // for them when webcam framing cuts the hips off
+  const leftHip = point(POSE_LANDMARKS.leftHip);
+  const rightHip = point(POSE_LANDMARKS.rightHip);
+  const hipCenter: Vec3 = leftHip && rightHip ? midpoint(leftHip, rightHip) : [0, 0, 0];
+
+  const hips = leftHip && rightHip ? basisRotation(subtract(leftHip, rightHip), UP, [1, 0, 0], UP) : IDENTITY;
+  if (leftHip && rightHip) {
+    pose.bones.hips = hips;
+    pose.worlds.hips = hips;
+  }
+
+  const chest = basisRotation(subtract(leftShoulder, rightShoulder), subtract(midpoint(leftShoulder, rightShoulder), hipCenter), [1, 0, 0], UP);
+  const share = slerp(IDENTITY, local(hips, chest), 1 / 3);
+  let torso = hips;
+  for (const bone of ['spine', 'chest', 'upperChest'] as const) {
+    torso = setBone(pose, bone, torso, share);
+  }
+
+  for (const side of ['left', 'right'] as Side[]) {
+    const s = SIGN[side];
+    const landmark = (name: string) => point(POSE_LANDMARKS[`${side}${name}` as keyof typeof POSE_LANDMARKS]);
+
+    const elbow = landmark('Elbow');
+    const wrist = landmark('Wrist');
+    const shoulder = side === 'left' ? leftShoulder : rightShoulder;
+    const lowerArm = solveLimb(pose, `${side}UpperArm`, `${side}LowerArm`, torso, shoulder, elbow, wrist, [s, 0, 0], [0, -s, 0]);
+    if (lowerArm) {
+      pose.forearms[side] = lowerArm;
+      // The pose model's index and pinky points give a rough palm until
+      // the hand landmarker has a better one
+      const index = landmark('Index');
+      const pinky = landmark('Pinky');
+      if (wrist && index && pinky) {
+        attachHand(pose, side, basisRotation(subtract(midpoint(index, pinky), wrist), subtract(index, pinky), [s, 0, 0], [0, 0, 1]));
+      }
+    }
+
+    const hip = side === 'left' ? leftHip : rightHip;
+    const ankle = landmark('Ankle');
+    const lowerLeg = hip && solveLimb(pose, `${side}UpperLeg`, `${side}LowerLeg`, hips, hip, landmark('Knee'), ankle, [0, -1, 0], [1, 0, 0]);
+    const toe = landmark('FootIndex');
+    if (lowerLeg && ankle && toe) {
+      const heel = landmark('Heel');
+      const foot = subtract(toe, heel ?? ankle);
+      const world = multiplyQuat(rotationBetween(rotateVector(lowerLeg.world, [0, 0, 1]), foot), lowerLeg.world);
+      setBone(pose, `${side}Foot`, lowerLeg.world, local(lowerLeg.world, world));
+    }
+  }
+
+  return Math.min(landmarks[POSE_LANDMARKS.leftShoulder].visibility, landmarks[POSE_LANDMARKS.rightShoulder].visibility);
+}
+
+/**
+ * Hand and fingers from the 21 hand landmarker world landmarks, in avatar
+ * space. Without a solved forearm the hand bone is skipped, since there is
+ * nothing to put the wrist relative to, but the fingers still are.
+ */
+export function solveHand(points: Vec3[], side: Side, pose: IKPose, fingers: boolean): void {
+  if (points.length < 21) return;
+  const s = SIGN[side];
+
+  // T-pose hand: fingers along the arm, palm down, index finger forward
+  const measured = basisRotation(subtract(points[9], points[0]), subtract(points[5], points[17]), [s, 0, 0], [0, 0, 1]);
+  const hand = attachHand(pose, side, measured) ?? measured;
+  if (!fingers) return;
+
+  for (const finger of HAND_FINGERS) {
+    const direction = (segment: number) => subtract(points[finger.joints[segment + 1]], points[finger.joints[segment]]);
+    const bone = (segment: number) => `${side}${finger.name}${finger.segments[segment]}` as HumanoidBoneName;
+
+    if (finger.name === 'Thumb') {
+      // The thumb has no clean hinge; follow each segment
+      let parent = hand;
+      finger.segments.forEach((_, segment) => {
+        const world = multiplyQuat(rotationBetween(rotateVector(parent, thumbAxis(s)), direction(segment)), parent);
+        parent = setBone(pose, bone(segment), parent, local(parent, world));
+      });
+      continue;
+    }
+
+    const proximalWorld = multiplyQuat(rotationBetween(rotateVector(hand, [s, 0, 0]), direction(0)), hand);
+    const proximal = setBone(pose, bone(0), hand, local(hand, proximalWorld));
+    const curl = fingerCurl(points, finger.joints);
+    const hinge: Vec3 = [0, 0, -s];
+    const intermediate = setBone(pose, bone(1), proximal, axisAngle(hinge, curl * FINGER_PIP_CURL));
+    setBone(pose, bone(2), intermediate, axisAngle(hinge, curl * FINGER_DIP_CURL));
+  }
+}
+
+/**
+ * How far a finger is curled, 0 straight to 1 in a fist, from the bend at
+ * its two outer joints. `joints` are the hand landmark indices from the
+ * knuckle to the tip.
+ */
+export function fingerCurl(points: Vec3[], joints: readonly number[]): number {
+  const segment = (index: number) => subtract(points[joints[index + 1]], points[joints[index]]);
+  const bend = angleBetweenVectors(segment(0), segment(1)) + angleBetweenVectors(segment(1), segment(2));
+  return clamp(bend / (FINGER_PIP_CURL + FINGER_DIP_CURL), 0, 1);
+}
+
+/**
+ * Put the hand at `handWorld`: the wrist's twist goes to the forearm, the
+ * rest to the hand bone. Returns the hand's world rotation after limits,
+ * or null when the arm hasn't been solved.
+ */
+function attachHand(pose: IKPose, side: Side, handWorld: Quat): Quat | null {
+  const forearm = pose.forearms[side];
+  if (!forearm) return null;
+
+  const axis: Vec3 = [SIGN[side], 0, 0];
+  const { twistAngle } = swingTwist(local(forearm.world, handWorld), axis);
+  const lowerArm = setBone(pose, `${side}LowerArm`, forearm.parent, multiplyQuat(local(forearm.parent, forearm.world), axisAngle(axis, twistAngle)));
+  return setBone(pose, `${side}Hand`, lowerArm, local(lowerArm, handWorld));
+}
+
+/**
+ * Two-bone limb from root `a` through joint `b` to end `c`. Returns the
+ * lower bone's parent and world rotation, or null without the joint.
+ */
+function solveLimb(
+  pose: IKPose,
+  upperBone: HumanoidBoneName,
+  lowerBone: HumanoidBoneName,
+  parent: Quat,
+  a: Vec3,
+  b: Vec3 | null,
+  c: Vec3 | null,
+  restAxis: Vec3,
+  restHinge: Vec3
+): { parent: Quat; world: Quat } | null {
+  if (!b) return null;
+  const upperDirection = subtract(b, a);
+  // Swing from where the parent holds the limb at rest, so a straight limb
+  // keeps the parent's roll
+  const swing = multiplyQuat(rotationBetween(rotateVector(parent, restAxis), upperDirection), parent);
+  let upperWorld = swing;
+
+  if (c) {
+    const lowerDirection = subtract(c, b);
+    const normal = cross(upperDirection, lowerDirection);
+    if (length(normal) > 1e-9) {
+      // Turn the limb about itself until its hinge lies across the bend
+      const axis = normalize(upperDirection);
+      const twist = signedAngle(rotateVector(swing, restHinge), normal, axis);
+      const trust = smoothstep(BEND_UNKNOWN, BEND_KNOWN, angleBetweenVectors(upperDirection, lowerDirection));
+      upperWorld = multiplyQuat(axisAngle(axis, twist * trust), swing);
+    }
+  }
+
+  const upper = setBone(pose, upperBone, parent, local(parent, upperWorld));
+  if (!c) return null;
+
+  const lowerWorld = multiplyQuat(rotationBetween(rotateVector(upper, restAxis), subtract(c, b)), upper);
+  const lower = setBone(pose, lowerBone, upper, local(upper, lowerWorld));
+  return { parent: upper, world: lower };
+}
+
+// Clamp, record and return the bone's world rotation
+function setBone(pose: IKPose, bone: HumanoidBoneName, parentWorld: Quat, rotation: Quat): Quat {
+  const limited = clampJoint(bone, rotation);
+  pose.bones[bone] = limited;
+  const world = multiplyQuat(parentWorld, limited);
+  pose.worlds[bone] = world;
+  return world;
+}
+
+function thumbAxis(s: number): Vec3 {
+  return normalize([s, 0, 1]);
+}
+
+// Angle about `axis` from `from` to `to`, both projected onto its plane
+function signedAngle(from: Vec3, to: Vec3, axis: Vec3): number {
+  const project = (v: Vec3): Vec3 => subtract(v, [axis[0] * dot(v, axis), axis[1] * dot(v, axis), axis[2] * dot(v, axis)]);
+  const a = project(from);
+  const b = project(to);
+  return Math.atan2(dot(cross(a, b), axis), dot(a, b));
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = clamp((x - edge0) / (edge1 - edge0), 0, 1);
+  return t * t * (3 - 2 * t);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
@@ -0,0 +1,178 @@
+/**
+ * Vector and quaternion helpers for the tracking solver, filter and IK
+ * (see lib/tracking-solver.ts). Plain arrays, so they run in the tracking
+ * worker and in node scripts alike. Quaternions are [x, y, z, w].
+ */
+
+import { invertQuat, multiplyQuat, type Quat } from '@shared/retargeting';
+
+export type Vec3 = [number, number, number];
+
+export const IDENTITY: Quat = [0, 0, 0, 1];
+
+export const DEG = Math.PI / 180;
+
+export function add(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+export function subtract(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+export function scale(v: Vec3, factor: number): Vec3 {
+  return [v[0] * factor, v[1] * factor, v[2] * factor];
+}
+
+export function midpoint(a: Vec3, b: Vec3): Vec3 {
+  return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, (a[2] + b[2]) / 2];
+}
+
+export function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+export function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+export function length(v: Vec3): number {
+  return Math.hypot(v[0], v[1], v[2]);
+}
+
+export function normalize(v: Vec3): Vec3 {
+  const size = length(v) || 1;
+  return [v[0] / size, v[1] / size, v[2] / size];
+}
+
+// Angle between two directions, radians
+export function angleBetweenVectors(a: Vec3, b: Vec3): number {
+  return Math.acos(Math.max(-1, Math.min(1, dot(normalize(a), normalize(b)))));
+}
+
+export function normalizeQuat(q: Quat): Quat {
+  const size = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+  return [q[0] / size, q[1] / size, q[2] / size, q[3] / size];
+}
+
+export function axisAngle(axis: Vec3, angle: number): Quat {
+  const s = Math.sin(angle / 2);
+  return [axis[0] * s, axis[1] * s, axis[2] * s, Math.cos(angle / 2)];
+}
+
+export function rotateVector(q: Quat, v: Vec3): Vec3 {
+  const [x, y, z] = multiplyQuat(multiplyQuat(q, [v[0], v[1], v[2], 0]), invertQuat(q));
+  return [x, y, z];
+}
+
+// Rotation angle of a quaternion, radians in [0, π]
+export function quatAngle(q: Quat): number {
+  return 2 * Math.acos(Math.min(1, Math.abs(q[3])));
+}
+
+// Angle of the rotation taking a onto b, radians in [0, π]
+export function angleBetweenQuats(a: Quat, b: Quat): number {
+  const cos = Math.abs(a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3]);
+  return 2 * Math.acos(Math.min(1, cos));
+}
+
+/**
+ * A child's rotation relative to its parent, both given in world space
+ */
+export function local(parentWorld: Quat, world: Quat): Quat {
+  return multiplyQuat(invertQuat(parentWorld), world);
+}
+
+// Shortest-arc rotation taking direction `from` onto direction `to`
+export function rotationBetween(from: Vec3, to: Vec3): Quat {
+  const a = normalize(from);
+  const b = normalize(to);
+  const d = dot(a, b);
+  if (d < -0.999999) {
+    // Opposite directions: turn half way round any axis perpendicular to `a`
+    const axis = normalize(Math.abs(a[0]) < 0.9 ? cross([1, 0, 0], a) : cross([0, 1, 0], a));
+    return [axis[0], axis[1], axis[2], 0];
+  }
+  const c = cross(a, b);
+  return normalizeQuat([c[0], c[1], c[2], 1 + d]);
+}
+
+/**
+ * Split `q` into a twist around unit `axis` and a swing perpendicular to
+ * it, with q = swing · twist (and also q = twist · swing', since the twist
+ * is the same either way round). `twistAngle` is signed, in (-π, π].
+ */
+export function swingTwist(q: Quat, axis: Vec3): { swing: Quat; twist: Quat; twistAngle: number } {
+  const projection = dot([q[0], q[1], q[2]], axis);
+  let twist: Quat = [axis[0] * projection, axis[1] * projection, axis[2] * projection, q[3]];
+  // A half turn of pure swing leaves no twist to measure
+  if (Math.hypot(twist[0], twist[1], twist[2], twist[3]) < 1e-9) twist = IDENTITY;
+  twist = normalizeQuat(twist);
+  if (twist[3] < 0) twist = [-twist[0], -twist[1], -twist[2], -twist[3]];
+
+  const swing = multiplyQuat(q, invertQuat(twist));
+  const twistAngle = 2 * Math.atan2(dot([twist[0], twist[1], twist[2]], axis), twist[3]);
+  return { swing, twist, twistAngle };
+}
+
+/**
+ * Rotation taking the rest frame spanned by (restPrimary, restSecondary)
+ * onto the frame spanned by (primary, secondary). The primary axis is
+ * matched exactly; the secondary one only fixes the roll around it.
+ */
+export function basisRotation(primary: Vec3, secondary: Vec3, restPrimary: Vec3, restSecondary: Vec3): Quat {
+  const frameOf = (p: Vec3, s: Vec3): [Vec3, Vec3, Vec3] => {
+    const u = normalize(p);
+    const w = normalize(cross(u, s));
+    return [u, cross(w, u), w];
+  };
+  const [u, v, w] = frameOf(primary, secondary);
+  const [ru, rv, rw] = frameOf(restPrimary, restSecondary);
+
+  // R = [u v w] · [ru rv rw]ᵀ
+  const m = (row: number, column: number) => u[row] * ru[column] + v[row] * rv[column] + w[row] * rw[column];
+  return matrixToQuat(m(0, 0), m(0, 1), m(0, 2), m(1, 0), m(1, 1), m(1, 2), m(2, 0), m(2, 1), m(2, 2));
+}
+
+// Row-major 3x3 rotation matrix to quaternion
+export function matrixToQuat(
+  m00: number, m01: number, m02: number,
+  m10: number, m11: number, m12: number,
+  m20: number, m21: number, m22: number
+): Quat {
+  const trace = m00 + m11 + m22;
+  let q: Quat;
+  if (trace > 0) {
+    const s = 0.5 / Math.sqrt(trace + 1);
+    q = [(m21 - m12) * s, (m02 - m20) * s, (m10 - m01) * s, 0.25 / s];
+  } else if (m00 > m11 && m00 > m22) {
+    const s = 2 * Math.sqrt(1 + m00 - m11 - m22);
+    q = [0.25 * s, (m01 + m10) / s, (m02 + m20) / s, (m21 - m12) / s];
+  } else if (m11 > m22) {
+    const s = 2 * Math.sqrt(1 + m11 - m00 - m22);
+    q = [(m01 + m10) / s, 0.25 * s, (m12 + m21) / s, (m02 - m20) / s];
+  } else {
+    const s = 2 * Math.sqrt(1 + m22 - m00 - m11);
+    q = [(m02 + m20) / s, (m12 + m21) / s, 0.25 * s, (m10 - m01) / s];
+  }
+  return normalizeQuat(q);
+}
+
+export function slerp(a: Quat, b: Quat, t: number): Quat {
+  let cos = a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+  // Take the short way round
+  const sign = cos < 0 ? -1 : 1;
+  cos *= sign;
+  if (cos > 0.9995) {
+    return normalizeQuat([
+      a[0] + (b[0] * sign - a[0]) * t,
+      a[1] + (b[1] * sign - a[1]) * t,
+      a[2] + (b[2] * sign - a[2]) * t,
+      a[3] + (b[3] * sign - a[3]) * t
+    ]);
+  }
+  const angle = Math.acos(cos);
+  const wa = Math.sin((1 - t) * angle) / Math.sin(angle);
+  const wb = Math.sin(t * angle) / Math.sin(angle) * sign;
+  return [a[0] * wa + b[0] * wb, a[1] * wa + b[1] * wb, a[2] * wa + b[2] * wb, a[3] * wa + b[3] * wb];
+}
@@ -0,0 +1,62 @@
+/**
+ * Poses a loaded avatar from TrackingFrames (see services/tracking-engine.ts)
+ * Bones go through the avatar's bone map like any other humanoid rotation;
+ * blendshape weights go to morph targets of the same ARKit name, which is
+ * what our rigger and VRM imports produce.
+ *
+ * Objects are duck-typed for the same reason as in lib/retargeting.ts:
+ * model-viewer brings its own copy of three.js.
+ */
+
+import type { BoneMap, HumanoidBoneName, Quat } from '@shared/retargeting';
+import type { TrackingFrame } from '@/lib/tracking-solver';
+import { resolveHumanoidRig, setHumanoidRotation, type HumanoidRig } from '@/lib/retargeting';
+
+export interface TrackedAvatar {
+  rig: HumanoidRig;
+  // Per morphing mesh, blendshape name (lower case) to influence index
+  morphs: Array<{ mesh: any; indices: Map<string, number> }>;
+}
+
+/**
+ * three.js scene of a <model-viewer> element, which keeps it behind a
+ * private symbol
+ */
+export function modelViewerScene(modelViewer: any): any {
+  if (!modelViewer) return null;
+  const sceneSymbol = Object.getOwnPropertySymbols(modelViewer).find(symbol => symbol.description === 'scene');
+  return (sceneSymbol && modelViewer[sceneSymbol]) || modelViewer.model?.scene || null;
+}
+
+/**
+ * Look up everything a frame will touch once, right after the model loads
+ */
+export function bindTrackedAvatar(root: any, boneMap?: BoneMap | null): TrackedAvatar {
+  const morphs: TrackedAvatar['morphs'] = [];
+  root?.traverse?.((object: any) => {
+    if (!object.morphTargetDictionary || !object.morphTargetInfluences) return;
+    const indices = new Map<string, number>();
+    for (const [name, index] of Object.entries(object.morphTargetDictionary as Record<string, number>)) {
+      indices.set(name.toLowerCase(), index);
+    }
+    morphs.push({ mesh: object, indices });
+  });
+  return { rig: resolveHumanoidRig(root, boneMap), morphs };
+}
+
+/**
+ * Pose the avatar from one frame. Bones the frame doesn't mention keep
+ * their current rotation, so a lost hand doesn't snap the arm back.
+ */
+export function applyTrackingFrame(avatar: TrackedAvatar, frame: TrackingFrame): void {
+  for (const [bone, rotation] of Object.entries(frame.bones) as Array<[HumanoidBoneName, Quat]>) {
+    setHumanoidRotation(avatar.rig, bone, rotation);
+  }
+
+  for (const { mesh, indices } of avatar.morphs) {
+    for (const [name, weight] of Object.entries(frame.blendshapes)) {
+      const index = indices.get(name.toLowerCase());
+      if (index !== undefined) mesh.morphTargetInfluences[index] = Math.max(0, Math.min(1, weight));
+    }
+  }
+}
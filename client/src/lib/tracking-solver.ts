@@ -0,0 +1,156 @@
+/**
+ * Turns MediaPipe landmarker results into a TrackingFrame (see
+ * services/tracking-engine.ts). Runs inside the tracking worker, so it only
+ * does math on plain data.
+ *
+ * MediaPipe world landmarks are in camera space: x to the right of the
+ * image, y down, z away from the camera. Avatars face +Z with +Y up and
+ * their left side on +X, so a landmark maps to (x, -y, -z). The camera
+ * image isn't mirrored, which makes the avatar mirror the user the way the
+ * raw video does: raising the left hand raises the avatar's left hand.
+ *
+ * Bone rotations are humanoid rotations (see shared/retargeting.ts): the
+ * rotation of each bone relative to its parent, with every bone resting at
+ * identity in a T-pose. Body and hands are solved by lib/tracking-ik.ts;
+ * the face is solved here, relative to the torso it found.
+ */
+
+import { multiplyQuat, type HumanoidBoneName, type Quat } from '@shared/retargeting';
+import type { RiggingConfiguration } from '@/services/avatar-rigging-service';
+import { clampJoint, createIKPose, solveBody, solveHand, type Side } from '@/lib/tracking-ik';
+import { IDENTITY, axisAngle, local, matrixToQuat, slerp, type Vec3 } from '@/lib/tracking-math';
+
+export type { Vec3 } from '@/lib/tracking-math';
+
+export type TrackingFeatures = RiggingConfiguration['enabledFeatures'];
+
+export interface TrackingConfidence {
+  face: number;
+  pose: number;
+  leftHand: number;
+  rightHand: number;
+}
+
+export interface TrackingFrame {
+  timestamp: number;  // ms, capture time of the video frame (performance.now())
+  head: {
+    rotation: Quat;   // head orientation relative to the camera
+    position: Vec3;   // metres from the camera, avatar axes
+  } | null;
+  blendshapes: Record<string, number>;  // ARKit names, 0-1
+  bones: Partial<Record<HumanoidBoneName, Quat>>;
+  confidence: TrackingConfidence;
+}
+
+// The subset of MediaPipe's NormalizedLandmark/Landmark the solver reads
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+  visibility?: number;
+}
+
+export interface SolverInput {
+  timestamp: number;
+  face: {
+    matrix: number[] | null;  // facial transformation matrix, column-major 4x4
+    blendshapes: Array<{ categoryName: string; score: number }>;
+  } | null;
+  pose: {
+    worldLandmarks: Landmark[];
+  } | null;
+  hands: Array<{
+    handedness: 'Left' | 'Right';  // as MediaPipe labels it, see trackedHandSide
+    score: number;
+    worldLandmarks: Landmark[];
+  }>;
+}
+
+// Share of the head rotation (relative to the torso) carried by the neck
+const NECK_SHARE = 0.3;
+
+// Eye rotation at a full eyeLook* blendshape, radians
+const EYE_YAW = 0.45;
+const EYE_PITCH = 0.35;
+
+/**
+ * One TrackingFrame from whatever the enabled landmarkers returned
+ */
+export function solveTrackingFrame(input: SolverInput, features: TrackingFeatures): TrackingFrame {
+  const frame: TrackingFrame = {
+    timestamp: input.timestamp,
+    head: null,
+    blendshapes: {},
+    bones: {},
+    confidence: { face: 0, pose: 0, leftHand: 0, rightHand: 0 }
+  };
+
+  const pose = createIKPose(frame.bones);
+  if (features.bodyTracking && input.pose) {
+    const landmarks = input.pose.worldLandmarks.map(landmark => ({ point: toAvatarSpace(landmark), visibility: landmark.visibility ?? 1 }));
+    frame.confidence.pose = solveBody(landmarks, pose);
+  }
+  if (features.faceTracking && input.face) solveFace(input.face, features, frame, pose.worlds.upperChest ?? IDENTITY);
+  if (features.handTracking) {
+    for (const hand of input.hands) {
+      // Of two hands given the same label, the surer one wins
+      const side = trackedHandSide(hand.handedness);
+      const confidenceKey = side === 'left' ? 'leftHand' : 'rightHand';
+      if (hand.score <= frame.confidence[confidenceKey] || hand.worldLandmarks.length < 21) continue;
+      frame.confidence[confidenceKey] = hand.score;
+      solveHand(hand.worldLandmarks.map(toAvatarSpace), side, pose, features.fingerTracking);
+    }
+  }
+
+  return frame;
+}
+
+function solveFace(face: NonNullable<SolverInput['face']>, features: TrackingFeatures, frame: TrackingFrame, torso: Quat): void {
+  frame.confidence.face = 1;
+
+  if (face.matrix) {
+    // The face matrix maps MediaPipe's canonical face (facing the camera,
+    // y up) into camera space, whose axes already match the avatar's
+    const m = face.matrix;
+    const head = matrixToQuat(m[0], m[4], m[8], m[1], m[5], m[9], m[2], m[6], m[10]);
+    frame.head = { rotation: head, position: [m[12] / 100, m[13] / 100, m[14] / 100] };
+
+    const relative = local(torso, head);
+    const neck = clampJoint('neck', slerp(IDENTITY, relative, NECK_SHARE));
+    frame.bones.neck = neck;
+    frame.bones.head = clampJoint('head', local(neck, relative));
+  }
+
+  const weights: Record<string, number> = {};
+  for (const { categoryName, score } of face.blendshapes) {
+    if (categoryName !== '_neutral') weights[categoryName] = score;
+  }
+
+  if (features.eyeTracking) {
+    for (const side of ['Left', 'Right'] as const) {
+      // eyeLookOut turns the eye toward its own side: +X for the left eye
+      const outward = side === 'Left' ? 1 : -1;
+      const yaw = ((weights[`eyeLookOut${side}`] ?? 0) - (weights[`eyeLookIn${side}`] ?? 0)) * EYE_YAW * outward;
+      const pitch = ((weights[`eyeLookDown${side}`] ?? 0) - (weights[`eyeLookUp${side}`] ?? 0)) * EYE_PITCH;
+      frame.bones[`${side === 'Left' ? 'left' : 'right'}Eye`] = multiplyQuat(axisAngle([0, 1, 0], yaw), axisAngle([1, 0, 0], pitch));
+    }
+  }
+
+  if (features.expressionTracking) {
+    for (const [name, weight] of Object.entries(weights)) {
+      if (features.eyeTracking || !name.startsWith('eyeLook')) frame.blendshapes[name] = weight;
+    }
+  }
+}
+
+/**
+ * The avatar side a MediaPipe hand belongs to. MediaPipe labels handedness
+ * as if the image were mirrored; ours isn't.
+ */
+export function trackedHandSide(handedness: 'Left' | 'Right'): Side {
+  return handedness === 'Left' ? 'right' : 'left';
+}
+
+function toAvatarSpace({ x, y, z }: Landmark): Vec3 {
+  return [x, -y, -z];
+}
@@ -2,6 +2,7 @@ import { createRoot } from "react-dom/client";
 import App from "./App";
 import "./index.css";
 import "remixicon/fonts/remixicon.css";
+import { configureModelViewerDecoders } from "./lib/gltf-decoders";
 
 // Register service worker for IPFS caching
 if ('serviceWorker' in navigator) {
@@ -16,4 +17,6 @@ if ('serviceWorker' in navigator) {
   });
 }
 
+configureModelViewerDecoders();
+
 createRoot(document.getElementById("root")!).render(<App />);
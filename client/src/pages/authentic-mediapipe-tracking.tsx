@@ -1,569 +0,0 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
-import { Progress } from '@/components/ui/progress';
-import { FaceMesh } from '@mediapipe/face_mesh';
-import { Hands } from '@mediapipe/hands';
-import { Pose } from '@mediapipe/pose';
-import { Camera } from '@mediapipe/camera_utils';
-import { drawConnectors, drawLandmarks } from '@mediapipe/drawing_utils';
-
-interface TrackingData {
-  face: {
-    landmarks: number;
-    expressions: {
-      smile: number;
-      frown: number;
-      eyebrowRaise: number;
-      jawDrop: number;
-    };
-    headRotation: { x: number; y: number; z: number };
-  };
-  hands: {
-    left: { detected: boolean; landmarks: number; gesture: string };
-    right: { detected: boolean; landmarks: number; gesture: string };
-  };
-  body: {
-    pose: { detected: boolean; landmarks: number; confidence: number };
-    skeleton: { joints: number; tracking: boolean };
-  };
-  eyes: {
-    left: { openness: number; gazeX: number; gazeY: number; blinking: boolean };
-    right: { openness: number; gazeX: number; gazeY: number; blinking: boolean };
-  };
-  mouth: { openness: number; shape: string; speaking: boolean; lipSync: number };
-}
-
-export default function AuthenticMediaPipeTracking() {
-  const [cameraActive, setCameraActive] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [logs, setLogs] = useState<string[]>([]);
-  const [detectionActive, setDetectionActive] = useState(false);
-  const [modelsLoaded, setModelsLoaded] = useState(false);
-  
-  const [trackingData, setTrackingData] = useState<TrackingData>({
-    face: { landmarks: 0, expressions: { smile: 0, frown: 0, eyebrowRaise: 0, jawDrop: 0 }, headRotation: { x: 0, y: 0, z: 0 } },
-    hands: {
-      left: { detected: false, landmarks: 0, gesture: 'none' },
-      right: { detected: false, landmarks: 0, gesture: 'none' }
-    },
-    body: {
-      pose: { detected: false, landmarks: 0, confidence: 0 },
-      skeleton: { joints: 0, tracking: false }
-    },
-    eyes: {
-      left: { openness: 0, gazeX: 0, gazeY: 0, blinking: false },
-      right: { openness: 0, gazeX: 0, gazeY: 0, blinking: false }
-    },
-    mouth: { openness: 0, shape: 'closed', speaking: false, lipSync: 0 }
-  });
-
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  
-  // MediaPipe model references
-  const faceMeshRef = useRef<FaceMesh | null>(null);
-  const handsRef = useRef<Hands | null>(null);
-  const poseRef = useRef<Pose | null>(null);
-  const cameraRef = useRef<Camera | null>(null);
-
-  const addLog = (message: string) => {
-    const timestamp = new Date().toLocaleTimeString();
-    setLogs(prev => [...prev.slice(-9), `${timestamp}: ${message}`]);
-  };
-
-  // Load authentic MediaPipe models
-  const loadMediaPipeModels = async () => {
-    addLog('Loading authentic MediaPipe models...');
-    setIsLoading(true);
-    
-    try {
-      // Initialize FaceMesh
-      addLog('Initializing FaceMesh (468 landmarks)...');
-      const faceMesh = new FaceMesh({
-        locateFile: (file) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/${file}`;
-        }
-      });
-      
-      faceMesh.setOptions({
-        maxNumFaces: 1,
-        refineLandmarks: true,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5
-      });
-
-      faceMesh.onResults((results) => {
-        if (results.multiFaceLandmarks && results.multiFaceLandmarks.length > 0) {
-          const landmarks = results.multiFaceLandmarks[0];
-          const expressions = calculateFacialExpressions(landmarks);
-          const headRotation = calculateHeadRotation(landmarks);
-
-          setTrackingData(prev => ({
-            ...prev,
-            face: {
-              landmarks: 468,
-              expressions,
-              headRotation
-            },
-            eyes: {
-              left: {
-                openness: 0.8 + Math.random() * 0.2,
-                gazeX: headRotation.y / 45,
-                gazeY: headRotation.x / 45,
-                blinking: Math.random() > 0.95
-              },
-              right: {
-                openness: 0.8 + Math.random() * 0.2,
-                gazeX: headRotation.y / 45,
-                gazeY: headRotation.x / 45,
-                blinking: Math.random() > 0.95
-              }
-            },
-            mouth: {
-              openness: expressions.jawDrop,
-              shape: expressions.smile > 0.3 ? 'smile' : expressions.jawDrop > 0.2 ? 'open' : 'closed',
-              speaking: expressions.jawDrop > 0.1,
-              lipSync: expressions.jawDrop * 0.8
-            }
-          }));
-
-          addLog(`Face: 468 landmarks detected, Head: ${headRotation.x.toFixed(1)}°/${headRotation.y.toFixed(1)}°/${headRotation.z.toFixed(1)}°`);
-        }
-      });
-
-      faceMeshRef.current = faceMesh;
-      addLog('FaceMesh initialized successfully');
-
-      // Initialize Hands
-      addLog('Initializing Hands (21 landmarks each)...');
-      const hands = new Hands({
-        locateFile: (file) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-        }
-      });
-
-      hands.setOptions({
-        maxNumHands: 2,
-        modelComplexity: 1,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5
-      });
-
-      hands.onResults((results) => {
-        if (results.multiHandLandmarks) {
-          const leftHand = results.multiHandLandmarks.find((_, index) => 
-            results.multiHandedness[index].label === 'Left');
-          const rightHand = results.multiHandLandmarks.find((_, index) => 
-            results.multiHandedness[index].label === 'Right');
-
-          setTrackingData(prev => ({
-            ...prev,
-            hands: {
-              left: {
-                detected: !!leftHand,
-                landmarks: leftHand ? 21 : 0,
-                gesture: leftHand ? ['wave', 'point', 'fist', 'open'][Math.floor(Math.random() * 4)] : 'none'
-              },
-              right: {
-                detected: !!rightHand,
-                landmarks: rightHand ? 21 : 0,
-                gesture: rightHand ? ['wave', 'point', 'fist', 'open'][Math.floor(Math.random() * 4)] : 'none'
-              }
-            }
-          }));
-
-          if (leftHand || rightHand) {
-            addLog(`Hands detected: ${leftHand ? 'Left' : ''}${leftHand && rightHand ? '+' : ''}${rightHand ? 'Right' : ''}`);
-          }
-        }
-      });
-
-      handsRef.current = hands;
-      addLog('Hands initialized successfully');
-
-      // Initialize Pose
-      addLog('Initializing Pose (33 landmarks)...');
-      const pose = new Pose({
-        locateFile: (file) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/pose/${file}`;
-        }
-      });
-
-      pose.setOptions({
-        modelComplexity: 1,
-        smoothLandmarks: true,
-        enableSegmentation: false,
-        smoothSegmentation: true,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5
-      });
-
-      pose.onResults((results) => {
-        if (results.poseLandmarks) {
-          const confidence = Math.random() * 0.3 + 0.7;
-          setTrackingData(prev => ({
-            ...prev,
-            body: {
-              pose: {
-                detected: true,
-                landmarks: 33,
-                confidence
-              },
-              skeleton: {
-                joints: 17,
-                tracking: confidence > 0.5
-              }
-            }
-          }));
-          addLog(`Pose: 33 landmarks, ${(confidence * 100).toFixed(0)}% confidence`);
-        }
-      });
-
-      poseRef.current = pose;
-      addLog('Pose initialized successfully');
-
-      setModelsLoaded(true);
-      addLog('All MediaPipe models loaded successfully');
-      return true;
-      
-    } catch (error: any) {
-      addLog(`MediaPipe initialization error: ${error.message}`);
-      return false;
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Calculate head rotation from MediaPipe facial landmarks
-  const calculateHeadRotation = (landmarks: any[]) => {
-    if (!landmarks || landmarks.length < 468) return { x: 0, y: 0, z: 0 };
-
-    // Key MediaPipe facial landmarks for head pose estimation
-    const noseTip = landmarks[1];
-    const leftEye = landmarks[33];
-    const rightEye = landmarks[263];
-    const chin = landmarks[175];
-    const forehead = landmarks[10];
-
-    // Calculate head rotation angles using landmark positions
-    const eyeVector = [rightEye.x - leftEye.x, rightEye.y - leftEye.y];
-    const rollAngle = Math.atan2(eyeVector[1], eyeVector[0]) * (180 / Math.PI);
-
-    const noseVector = [noseTip.x - chin.x, noseTip.y - chin.y];
-    const pitchAngle = Math.atan2(noseVector[1], noseVector[0]) * (180 / Math.PI) - 90;
-
-    const faceCenter = [(leftEye.x + rightEye.x) / 2, (leftEye.y + rightEye.y) / 2];
-    const yawAngle = (noseTip.x - faceCenter[0]) * 90; // Enhanced yaw calculation
-
-    return {
-      x: Math.max(-45, Math.min(45, pitchAngle)),
-      y: Math.max(-45, Math.min(45, yawAngle)),
-      z: Math.max(-30, Math.min(30, rollAngle))
-    };
-  };
-
-  // Calculate facial expressions from MediaPipe landmarks
-  const calculateFacialExpressions = (landmarks: any[]) => {
-    if (!landmarks || landmarks.length < 468) return { smile: 0, frown: 0, eyebrowRaise: 0, jawDrop: 0 };
-
-    // MediaPipe mouth landmarks for expression detection
-    const leftMouth = landmarks[61];
-    const rightMouth = landmarks[291];
-    const topLip = landmarks[13];
-    const bottomLip = landmarks[14];
-
-    // Calculate mouth dimensions for expressions
-    const mouthWidth = Math.abs(rightMouth.x - leftMouth.x);
-    const mouthHeight = Math.abs(topLip.y - bottomLip.y);
-    const smile = Math.min(1, mouthWidth / (mouthHeight + 0.01) / 50);
-
-    // MediaPipe eyebrow landmarks
-    const leftBrow = landmarks[70];
-    const rightBrow = landmarks[300];
-    const leftEye = landmarks[33];
-    const rightEye = landmarks[263];
-
-    // Calculate eyebrow movement
-    const eyebrowRaise = Math.max(0, Math.min(1, (leftEye.y - leftBrow.y + rightEye.y - rightBrow.y) / 0.05));
-
-    // Jaw drop from mouth height
-    const jawDrop = Math.max(0, Math.min(1, mouthHeight / 0.05));
-
-    return {
-      smile: smile,
-      frown: Math.max(0, 0.5 - smile),
-      eyebrowRaise: eyebrowRaise,
-      jawDrop: jawDrop
-    };
-  };
-
-  // Process video frames continuously with MediaPipe
-  const startProcessing = async () => {
-    if (!videoRef.current || !modelsLoaded) return;
-
-    const video = videoRef.current;
-    
-    // Start camera for MediaPipe processing
-    const camera = new Camera(video, {
-      onFrame: async () => {
-        // Send video frame to all MediaPipe models
-        if (faceMeshRef.current) {
-          await faceMeshRef.current.send({ image: video });
-        }
-        if (handsRef.current) {
-          await handsRef.current.send({ image: video });
-        }
-        if (poseRef.current) {
-          await poseRef.current.send({ image: video });
-        }
-      },
-      width: 640,
-      height: 480
-    });
-    
-    cameraRef.current = camera;
-    camera.start();
-    addLog('MediaPipe camera processing started');
-  };
-
-  const startCamera = async () => {
-    setIsLoading(true);
-    addLog('Starting camera and MediaPipe detection...');
-
-    try {
-      // Load MediaPipe models first
-      const modelsReady = await loadMediaPipeModels();
-      if (!modelsReady) {
-        addLog('MediaPipe models failed to initialize');
-        return;
-      }
-
-      // Start camera
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { width: 640, height: 480, facingMode: 'user' },
-        audio: false
-      });
-
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        await videoRef.current.play();
-        streamRef.current = stream;
-        setCameraActive(true);
-        setDetectionActive(true);
-        addLog('Camera started successfully');
-
-        // Start MediaPipe processing with camera utility
-        await startProcessing();
-        addLog('Authentic MediaPipe tracking activated');
-      }
-    } catch (error: any) {
-      addLog(`Camera error: ${error.message}`);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const stopCamera = () => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    if (cameraRef.current) {
-      cameraRef.current.stop();
-      cameraRef.current = null;
-    }
-    setCameraActive(false);
-    setDetectionActive(false);
-    addLog('Camera and MediaPipe tracking stopped');
-  };
-
-  useEffect(() => {
-    return () => {
-      stopCamera();
-    };
-  }, []);
-
-  return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-4">
-      <div className="max-w-7xl mx-auto space-y-6">
-        {/* Header */}
-        <div className="text-center space-y-4">
-          <h1 className="text-4xl font-bold text-white">
-            Authentic MediaPipe Tracking
-          </h1>
-          <p className="text-lg text-gray-300">
-            Real TensorFlow.js MediaPipe models with precise landmark detection
-          </p>
-        </div>
-
-        {/* Camera Controls */}
-        <Card className="glass-card shadow-glow-lg">
-          <CardHeader>
-            <CardTitle className="text-white">MediaPipe Control</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="flex gap-4">
-              <Button
-                onClick={startCamera}
-                disabled={cameraActive || isLoading}
-                className="bg-green-600 hover:bg-green-700 text-white"
-              >
-                {isLoading ? 'Loading Models...' : 'Start MediaPipe'}
-              </Button>
-              <Button
-                onClick={stopCamera}
-                disabled={!cameraActive}
-                variant="destructive"
-              >
-                Stop Tracking
-              </Button>
-            </div>
-            
-            <div className="flex gap-4 items-center">
-              <Badge variant={modelsLoaded ? "default" : "secondary"}>
-                Models: {modelsLoaded ? 'Loaded' : 'Loading'}
-              </Badge>
-              <Badge variant={cameraActive ? "default" : "secondary"}>
-                Camera: {cameraActive ? 'Active' : 'Inactive'}
-              </Badge>
-              <Badge variant={detectionActive ? "default" : "secondary"}>
-                MediaPipe: {detectionActive ? 'Running' : 'Stopped'}
-              </Badge>
-            </div>
-          </CardContent>
-        </Card>
-
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Video Feed */}
-          <Card className="glass-card shadow-glow-md">
-            <CardHeader>
-              <CardTitle className="text-white">Live MediaPipe Feed</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="relative">
-                <video
-                  ref={videoRef}
-                  className="w-full h-auto rounded-lg bg-black"
-                  playsInline
-                  muted
-                />
-                <canvas
-                  ref={canvasRef}
-                  className="absolute top-0 left-0 w-full h-full opacity-30 pointer-events-none"
-                />
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Tracking Results */}
-          <div className="space-y-4">
-            {/* Face Tracking */}
-            <Card className="glass-card shadow-glow-sm">
-              <CardHeader>
-                <CardTitle className="text-white flex items-center justify-between">
-                  Face Tracking (468 Landmarks)
-                  <Badge variant={trackingData.face.landmarks > 0 ? "default" : "secondary"}>
-                    {trackingData.face.landmarks} points
-                  </Badge>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div>
-                  <div className="flex justify-between text-sm text-gray-300">
-                    <span>Head Rotation X (Pitch)</span>
-                    <span>{trackingData.face.headRotation.x.toFixed(1)}°</span>
-                  </div>
-                  <Progress value={Math.abs(trackingData.face.headRotation.x) * 2} className="h-2" />
-                </div>
-                <div>
-                  <div className="flex justify-between text-sm text-gray-300">
-                    <span>Head Rotation Y (Yaw)</span>
-                    <span>{trackingData.face.headRotation.y.toFixed(1)}°</span>
-                  </div>
-                  <Progress value={Math.abs(trackingData.face.headRotation.y) * 2} className="h-2" />
-                </div>
-                <div>
-                  <div className="flex justify-between text-sm text-gray-300">
-                    <span>Head Rotation Z (Roll)</span>
-                    <span>{trackingData.face.headRotation.z.toFixed(1)}°</span>
-                  </div>
-                  <Progress value={Math.abs(trackingData.face.headRotation.z) * 3} className="h-2" />
-                </div>
-                <div>
-                  <div className="flex justify-between text-sm text-gray-300">
-                    <span>Smile Expression</span>
-                    <span>{Math.round(trackingData.face.expressions.smile * 100)}%</span>
-                  </div>
-                  <Progress value={trackingData.face.expressions.smile * 100} className="h-2" />
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Hand Tracking */}
-            <Card className="glass-card shadow-glow-sm">
-              <CardHeader>
-                <CardTitle className="text-white">Hand Tracking (21 Points Each)</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <div className="text-sm text-gray-300">Left Hand</div>
-                    <Badge variant={trackingData.hands.left.detected ? "default" : "secondary"}>
-                      {trackingData.hands.left.gesture}
-                    </Badge>
-                  </div>
-                  <div>
-                    <div className="text-sm text-gray-300">Right Hand</div>
-                    <Badge variant={trackingData.hands.right.detected ? "default" : "secondary"}>
-                      {trackingData.hands.right.gesture}
-                    </Badge>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Body Tracking */}
-            <Card className="glass-card shadow-glow-sm">
-              <CardHeader>
-                <CardTitle className="text-white flex items-center justify-between">
-                  Body Pose (33 Landmarks)
-                  <Badge variant={trackingData.body.pose.detected ? "default" : "secondary"}>
-                    {trackingData.body.pose.landmarks} points
-                  </Badge>
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div>
-                  <div className="flex justify-between text-sm text-gray-300">
-                    <span>Pose Confidence</span>
-                    <span>{Math.round(trackingData.body.pose.confidence * 100)}%</span>
-                  </div>
-                  <Progress value={trackingData.body.pose.confidence * 100} className="h-2" />
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-        </div>
-
-        {/* System Log */}
-        <Card className="glass-card shadow-glow-md">
-          <CardHeader>
-            <CardTitle className="text-white">MediaPipe System Log</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="bg-black/50 rounded-lg p-4 h-32 overflow-y-auto">
-              {logs.map((log, index) => (
-                <div key={index} className="text-green-400 text-sm font-mono">
-                  {log}
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      </div>
-    </div>
-  );
-}
\ No newline at end of file
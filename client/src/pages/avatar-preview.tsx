@@ -28,8 +28,9 @@ import {
 } from "lucide-react";
 import ThreeModelViewer from "@/components/ThreeModelViewer";
 import AvatarAnimationController from "@/components/AvatarAnimationController";
-import MotionTracker from "@/components/MotionTracker";
 import VidaRigInterface from "@/components/VidaRigInterface";
+import BoneMappingEditor from "@/components/BoneMappingEditor";
+import type { BoneMap } from "@shared/retargeting";
 
 export default function AvatarPreview() {
   const [, setLocation] = useLocation();
@@ -45,15 +46,6 @@ export default function AvatarPreview() {
   });
   const [cameraActive, setCameraActive] = useState(false);
   const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
-  const [motionData, setMotionData] = useState({
-    faceRotation: { x: 0, y: 0, z: 0 },
-    headPosition: { x: 0, y: 0, z: 0 },
-    bodyPose: { x: 0, y: 0, z: 0 },
-    blendShapes: {} as Record<string, number>,
-    handPoses: { left: null as any, right: null as any },
-    shoulderRotation: { x: 0, y: 0, z: 0 },
-    neckRotation: { x: 0, y: 0, z: 0 }
-  });
   const [riggedModelUrl, setRiggedModelUrl] = useState<string | null>(null);
   const [isAutoRigged, setIsAutoRigged] = useState(false);
 
@@ -242,6 +234,10 @@ export default function AvatarPreview() {
     }
   };
 
+  const handleBoneMapChange = (boneMap: BoneMap) => {
+    setAvatar((prev: any) => prev && { ...prev, metadata: { ...(prev.metadata || {}), boneMap } });
+  };
+
   const handleUseAvatar = async () => {
     if (!avatar) return;
     
@@ -342,9 +338,18 @@ export default function AvatarPreview() {
                   {(avatar?.modelUrl || avatar?.fileUrl || avatar?.supabaseUrl || avatar?.model_url || avatar?.file_url || avatar?.supabase_url) ? (
                     <>
                       <AvatarAnimationController
-                        modelUrl={riggedModelUrl || avatar.modelUrl || avatar.fileUrl || avatar.supabaseUrl || avatar.model_url || avatar.file_url || avatar.supabase_url}
-                        motionData={motionData}
-                        className="w-full h-full"
+                        avatarUrl={riggedModelUrl || avatar.modelUrl || avatar.fileUrl || avatar.supabaseUrl || avatar.model_url || avatar.file_url || avatar.supabase_url}
+                        boneMap={avatar.metadata?.boneMap}
+                        enableTracking={cameraActive}
+                        cameraStream={cameraStream}
+                        trackingFeatures={{
+                          faceTracking: previewSettings.faceTracking,
+                          expressionTracking: previewSettings.faceTracking,
+                          eyeTracking: previewSettings.eyeTracking,
+                          bodyTracking: previewSettings.bodyTracking,
+                          handTracking: previewSettings.handTracking,
+                          fingerTracking: previewSettings.handTracking
+                        }}
                       />
                       {isAutoRigged && (
                         <div className="absolute top-2 right-2">
@@ -354,101 +359,6 @@ export default function AvatarPreview() {
                           </Badge>
                         </div>
                       )}
-                      {cameraActive && cameraStream && (
-                        <MotionTracker
-                          videoStream={cameraStream}
-                          faceTracking={previewSettings.faceTracking}
-                          bodyTracking={previewSettings.bodyTracking}
-                          handTracking={previewSettings.handTracking}
-                          onFaceDetected={(faceData) => {
-                            if (faceData) {
-                              setMotionData(prev => ({
-                                ...prev,
-                                faceRotation: faceData.rotation || prev.faceRotation,
-                                headPosition: faceData.position || prev.headPosition,
-                                blendShapes: faceData.blendShapes || prev.blendShapes
-                              }));
-                            }
-                          }}
-                          onPoseDetected={(poseData) => {
-                            if (poseData && poseData.length > 0) {
-                              // Extract key body landmarks for comprehensive tracking
-                              const nose = poseData[0];
-                              const leftShoulder = poseData[11];
-                              const rightShoulder = poseData[12];
-                              const leftElbow = poseData[13];
-                              const rightElbow = poseData[14];
-                              const leftWrist = poseData[15];
-                              const rightWrist = poseData[16];
-                              const leftHip = poseData[23];
-                              const rightHip = poseData[24];
-
-                              if (leftShoulder && rightShoulder && nose) {
-                                // Calculate shoulder rotation and body pose
-                                const shoulderAngle = Math.atan2(
-                                  rightShoulder.y - leftShoulder.y,
-                                  rightShoulder.x - leftShoulder.x
-                                );
-
-                                // Calculate neck/head position relative to shoulders
-                                const shoulderCenterX = (leftShoulder.x + rightShoulder.x) / 2;
-                                const shoulderCenterY = (leftShoulder.y + rightShoulder.y) / 2;
-                                const neckRotationX = (nose.y - shoulderCenterY) * 100;
-                                const neckRotationY = (nose.x - shoulderCenterX) * 100;
-
-                                // Calculate torso lean from hip-shoulder alignment
-                                let torsoLean = { x: 0, y: 0, z: 0 };
-                                if (leftHip && rightHip) {
-                                  const hipCenterX = (leftHip.x + rightHip.x) / 2;
-                                  const hipCenterY = (leftHip.y + rightHip.y) / 2;
-                                  torsoLean = {
-                                    x: (shoulderCenterY - hipCenterY - 0.3) * 50,
-                                    y: (shoulderCenterX - hipCenterX) * 50,
-                                    z: shoulderAngle * 20
-                                  };
-                                }
-
-                                setMotionData(prev => ({
-                                  ...prev,
-                                  bodyPose: torsoLean,
-                                  shoulderRotation: {
-                                    x: 0,
-                                    y: 0,
-                                    z: shoulderAngle * 15
-                                  },
-                                  neckRotation: {
-                                    x: Math.max(-30, Math.min(30, neckRotationX)),
-                                    y: Math.max(-45, Math.min(45, neckRotationY)),
-                                    z: 0
-                                  }
-                                }));
-                              }
-                            }
-                          }}
-                          onHandsDetected={(handData) => {
-                            if (handData && handData.length > 0) {
-                              const leftHand = handData.find((hand: any, index: number) => index === 0);
-                              const rightHand = handData.find((hand: any, index: number) => index === 1);
-                              
-                              setMotionData(prev => ({
-                                ...prev,
-                                handPoses: {
-                                  left: leftHand ? {
-                                    x: leftHand[8]?.x || 0,
-                                    y: leftHand[8]?.y || 0,
-                                    z: leftHand[8]?.z || 0
-                                  } : null,
-                                  right: rightHand ? {
-                                    x: rightHand[8]?.x || 0,
-                                    y: rightHand[8]?.y || 0,
-                                    z: rightHand[8]?.z || 0
-                                  } : null
-                                }
-                              }));
-                            }
-                          }}
-                        />
-                      )}
                     </>
                   ) : (
                     <div className="flex items-center justify-center h-full text-center">
@@ -636,6 +546,14 @@ export default function AvatarPreview() {
                 />
               )}
 
+              {/* Bone Mapping */}
+              {avatar?.id && (avatar.isRigged || isAutoRigged) && (
+                <BoneMappingEditor
+                  avatarId={avatar.id}
+                  onBoneMapChange={handleBoneMapChange}
+                />
+              )}
+
               {/* Action Buttons */}
               <div className="space-y-4">
                 <Button 
@@ -53,7 +53,7 @@ import {
 export default function Avatars() {
   const { toast } = useToast();
   const { user } = useAuth();
-  const { avatars, selectedAvatar, isLoading, isGenerating, previewAvatar, createAvatarFrom2D, createAvatarFromGLB, uploadGLBAvatar } = useAvatar();
+  const { avatars, selectedAvatar, isLoading, isGenerating, previewAvatar, createAvatarFrom2D, createAvatarFromGLB, uploadGLBAvatar, exportAvatarAsVRM } = useAvatar();
   const { currentPlan } = useSubscription();
   const { startAutoRigging, completeAutoRigging, showProgress } = useAutoRigging();
   const [, setLocation] = useLocation();
@@ -130,6 +130,7 @@ export default function Avatars() {
     
     const isValidGLB = file.name.endsWith('.glb') || 
                       file.name.endsWith('.gltf') || 
+                      file.name.endsWith('.vrm') || 
                       file.type === 'model/gltf-binary' || 
                       file.type === 'model/gltf+json' ||
                       file.type === 'application/octet-stream' ||
@@ -141,7 +142,7 @@ export default function Avatars() {
       console.log('❌ File type rejected:', file.type, 'Name:', file.name);
       toast({
         title: "Invalid file type",
-        description: `File type: ${file.type || 'unknown'} - Please select a GLB or GLTF file`,
+        description: `File type: ${file.type || 'unknown'} - Please select a GLB, GLTF or VRM file`,
         variant: "destructive",
       });
       return;
@@ -220,6 +221,7 @@ export default function Avatars() {
       } else if (type === 'glb' && (
         file.name.endsWith('.glb') || 
         file.name.endsWith('.gltf') || 
+        file.name.endsWith('.vrm') || 
         file.type === 'model/gltf-binary' || 
         file.type === 'model/gltf+json' ||
         file.type === 'application/octet-stream'
@@ -573,6 +575,20 @@ export default function Avatars() {
             <Button size="sm" variant="secondary" className="h-8 w-8 p-0 rounded-full">
               <Play className="h-4 w-4" />
             </Button>
+            {avatar.isRigged && (
+              <Button
+                size="sm"
+                variant="secondary"
+                className="h-8 w-8 p-0 rounded-full"
+                title="Export as VRM"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  exportAvatarAsVRM(avatar.id, avatar.name);
+                }}
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -586,7 +602,7 @@ export default function Avatars() {
             {!isGridView && (
               <div className="flex items-center gap-2 mt-1">
                 <span className="text-xs text-muted-foreground">
-                  {avatar.type === 'glb-upload' ? 'GLB Model' : '2D to 3D'}
+                  {avatar.type === 'glb-upload' ? 'GLB Model' : avatar.type === 'vrm-upload' ? 'VRM Model' : '2D to 3D'}
                 </span>
                 {avatar.isRigged && (
                   <BadgeGlow variant="secondary" className="text-xs">Rigged</BadgeGlow>
@@ -1003,7 +1019,7 @@ export default function Avatars() {
                             <li>• Upload humanoid GLB/GLTF models for best rigging results</li>
                             <li>• Automatic Enhanced 10-Model Pipeline processing included</li>
                             <li>• Face, body, and hand tracking capabilities added</li>
-                            <li>• File size limit: 50MB • Supports GLB and GLTF formats</li>
+                            <li>• File size limit: 50MB • Supports GLB, GLTF and VRM formats</li>
                           </ul>
                         </div>
                       </div>
@@ -1036,7 +1052,7 @@ export default function Avatars() {
                       <input
                         ref={glbInputRef}
                         type="file"
-                        accept=".glb,.gltf,model/gltf-binary,model/gltf+json,application/octet-stream,*/*"
+                        accept=".glb,.gltf,.vrm,model/gltf-binary,model/gltf+json,application/octet-stream,*/*"
                         onChange={handleGlbUpload}
                         className="hidden"
                       />
@@ -1102,7 +1118,7 @@ export default function Avatars() {
                                 <p className="text-lg font-medium">Drop your GLB file here</p>
                                 <p className="text-sm text-muted-foreground">or click to browse files</p>
                                 <p className="text-xs text-muted-foreground mt-2">
-                                  GLB & GLTF • Max 50MB • Automatic rigging included
+                                  GLB, GLTF & VRM • Max 50MB • Automatic rigging included
                                 </p>
                               </div>
                             </div>
@@ -1192,7 +1208,7 @@ export default function Avatars() {
           <input
             ref={glbInputRef}
             type="file"
-            accept=".glb,.gltf,model/gltf-binary,model/gltf+json,application/octet-stream,*/*"
+            accept=".glb,.gltf,.vrm,model/gltf-binary,model/gltf+json,application/octet-stream,*/*"
             onChange={handleGlbUpload}
             className="hidden"
             id="lightbox-glb-input"
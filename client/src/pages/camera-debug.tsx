@@ -1,7 +1,202 @@
 import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Camera, CameraOff } from 'lucide-react';
+import { Camera, CameraOff, Circle } from 'lucide-react';
+import type { Quat } from '@shared/retargeting';
+import { useTrackingFrames } from '@/hooks/use-tracking';
+import type { SolverInput } from '@/lib/tracking-solver';
+import { RECORDED_FIXTURE_SCENARIOS, type RecordedFixtureScenario, type TrackingFixture } from '@/lib/tracking-fixtures';
+import { trackingEngine, type TrackingFrame } from '@/services/tracking-engine';
+
+const ALL_TRACKING_FEATURES = {
+  faceTracking: true,
+  bodyTracking: true,
+  handTracking: true,
+  fingerTracking: true,
+  eyeTracking: true,
+  expressionTracking: true
+};
+
+// Channels plotted raw (grey) against filtered and calibrated (colour)
+const FILTER_CHANNELS: Array<{ label: string; color: string; read: (frame: TrackingFrame) => number | null }> = [
+  { label: 'Head yaw (°)', color: '#60a5fa', read: frame => frame.head && headAngles(frame.head.rotation).yaw },
+  { label: 'Head pitch (°)', color: '#34d399', read: frame => frame.head && headAngles(frame.head.rotation).pitch },
+  { label: 'Jaw open', color: '#f472b6', read: frame => frame.blendshapes.jawOpen ?? null },
+  { label: 'Left upper arm (°)', color: '#fbbf24', read: frame => boneAngle(frame.bones.leftUpperArm) },
+  { label: 'Right hand (°)', color: '#a78bfa', read: frame => boneAngle(frame.bones.rightHand) }
+];
+
+const PLOT_WINDOW_MS = 5000;
+const RECORDING_MS = 5000;
+const PLOT_ROW_HEIGHT = 60;
+
+type FilterSample = { timestamp: number; raw: Array<number | null>; filtered: Array<number | null> };
+
+function headAngles([x, y, z, w]: Quat) {
+  // Where the face's forward axis points
+  const forward = [2 * (x * z + w * y), 2 * (y * z - w * x), 1 - 2 * (x * x + y * y)];
+  return {
+    yaw: Math.atan2(forward[0], forward[2]) * 180 / Math.PI,
+    pitch: Math.asin(Math.max(-1, Math.min(1, -forward[1]))) * 180 / Math.PI
+  };
+}
+
+function boneAngle(rotation: Quat | undefined): number | null {
+  return rotation ? 2 * Math.acos(Math.min(1, Math.abs(rotation[3]))) * 180 / Math.PI : null;
+}
+
+// Saves landmarks in the solver's fixture format, ready for scripts/golden/tracking
+function downloadFixture(scenario: RecordedFixtureScenario, frames: SolverInput[]) {
+  const fixture: TrackingFixture = {
+    description: `${scenario.title}: ${scenario.instruction} Recorded on the camera debug page, ${new Date().toISOString()}`,
+    source: 'recorded',
+    features: ALL_TRACKING_FEATURES,
+    frames,
+    expect: scenario.expect
+  };
+  const url = URL.createObjectURL(new Blob([JSON.stringify(fixture, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `recorded-${scenario.name}.fixture.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Plots what the tracking filter does to a few channels over the last
+ * five seconds (see lib/tracking-filter.ts), and records landmark fixtures
+ * for the solver's golden tests
+ */
+function TrackingFilterPlot({ stream }: { stream: MediaStream | null }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const samplesRef = useRef<FilterSample[]>([]);
+  const recordingRef = useRef<{ until: number; scenario: RecordedFixtureScenario; frames: SolverInput[] } | null>(null);
+  const [recording, setRecording] = useState<RecordedFixtureScenario | null>(null);
+
+  const status = useTrackingFrames((frame, debug) => {
+    if (!debug) return;
+    const { raw } = debug;
+
+    const take = recordingRef.current;
+    if (take) {
+      take.frames.push(debug.input);
+      if (performance.now() >= take.until) {
+        recordingRef.current = null;
+        setRecording(null);
+        downloadFixture(take.scenario, take.frames);
+      }
+    }
+
+    const samples = samplesRef.current;
+    samples.push({
+      timestamp: frame.timestamp,
+      raw: FILTER_CHANNELS.map(channel => channel.read(raw)),
+      filtered: FILTER_CHANNELS.map(channel => channel.read(frame))
+    });
+    while (samples.length > 0 && samples[0].timestamp < frame.timestamp - PLOT_WINDOW_MS) samples.shift();
+    drawFilterPlot(canvasRef.current, samples);
+  }, { enabled: !!stream, stream, features: ALL_TRACKING_FEATURES, debug: true });
+
+  const params = trackingEngine.getFilterParams();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tracking Filter</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="text-xs text-muted-foreground">
+          Status: {status} · cutoff {params.minCutoff.toFixed(2)} Hz · beta {params.beta.toFixed(2)} ·
+          rotation rate {params.rotationRate.toFixed(0)}/s · max {params.maxAngularSpeed.toFixed(0)} rad/s ·
+          hold {params.holdMs.toFixed(0)} ms
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {RECORDED_FIXTURE_SCENARIOS.map(scenario => (
+            <Button
+              key={scenario.name}
+              size="sm"
+              variant="outline"
+              disabled={!!recording || status !== 'tracking'}
+              onClick={() => {
+                recordingRef.current = { until: performance.now() + RECORDING_MS, scenario, frames: [] };
+                setRecording(scenario);
+              }}
+            >
+              <Circle className={`h-3 w-3 mr-2 ${recording === scenario ? 'fill-red-500 text-red-500' : ''}`} />
+              {recording === scenario ? 'Recording…' : `Record ${scenario.title.toLowerCase()} (5 s)`}
+            </Button>
+          ))}
+        </div>
+        <ul className="text-xs text-muted-foreground space-y-1">
+          {RECORDED_FIXTURE_SCENARIOS.map(scenario => (
+            <li key={scenario.name} className={recording === scenario ? 'text-foreground' : ''}>
+              <span className="font-medium">{scenario.title}:</span> {scenario.instruction}
+            </li>
+          ))}
+        </ul>
+        <canvas
+          ref={canvasRef}
+          width={800}
+          height={FILTER_CHANNELS.length * PLOT_ROW_HEIGHT}
+          className="w-full bg-black rounded"
+        />
+        <div className="flex flex-wrap gap-4 text-xs">
+          <span className="text-gray-400">— raw</span>
+          {FILTER_CHANNELS.map(channel => (
+            <span key={channel.label} style={{ color: channel.color }}>— {channel.label}</span>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function drawFilterPlot(canvas: HTMLCanvasElement | null, samples: FilterSample[]) {
+  const ctx = canvas?.getContext('2d');
+  if (!canvas || !ctx || samples.length === 0) return;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  const end = samples[samples.length - 1].timestamp;
+  const x = (timestamp: number) => canvas.width * (1 - (end - timestamp) / PLOT_WINDOW_MS);
+
+  FILTER_CHANNELS.forEach((channel, index) => {
+    const top = index * PLOT_ROW_HEIGHT;
+    const values = samples.flatMap(sample => [sample.raw[index], sample.filtered[index]]).filter((value): value is number => value !== null);
+    if (values.length === 0) return;
+
+    // Each row scales to its own range so small jitter stays visible
+    const min = Math.min(...values);
+    const range = Math.max(Math.max(...values) - min, 1e-3);
+    const y = (value: number) => top + PLOT_ROW_HEIGHT - 4 - ((value - min) / range) * (PLOT_ROW_HEIGHT - 8);
+
+    for (const [key, color] of [['raw', '#6b7280'], ['filtered', channel.color]] as const) {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = key === 'raw' ? 1 : 2;
+      ctx.beginPath();
+      let drawing = false;
+      for (const sample of samples) {
+        const value = sample[key][index];
+        if (value === null) {
+          drawing = false;
+          continue;
+        }
+        if (drawing) ctx.lineTo(x(sample.timestamp), y(value));
+        else ctx.moveTo(x(sample.timestamp), y(value));
+        drawing = true;
+      }
+      ctx.stroke();
+    }
+
+    ctx.fillStyle = channel.color;
+    ctx.font = '11px sans-serif';
+    ctx.fillText(`${channel.label}  ${min.toFixed(2)} – ${(min + range).toFixed(2)}`, 6, top + 13);
+    ctx.strokeStyle = '#1f2937';
+    ctx.beginPath();
+    ctx.moveTo(0, top + PLOT_ROW_HEIGHT - 0.5);
+    ctx.lineTo(canvas.width, top + PLOT_ROW_HEIGHT - 0.5);
+    ctx.stroke();
+  });
+}
 
 export default function CameraDebug() {
   const [cameraActive, setCameraActive] = useState(false);
@@ -397,6 +592,9 @@ export default function CameraDebug() {
             </Card>
           </div>
         )}
+
+        {/* Raw vs filtered tracking channels */}
+        {cameraActive && <TrackingFilterPlot stream={cameraStream} />}
       </div>
     </div>
   );
@@ -15,9 +15,10 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
+import { getAuthHeaders } from "@/lib/auth-helper";
 import { useToast } from "@/hooks/use-toast";
-import { Trash2, Edit, Plus, Upload, Eye, EyeOff, Settings, Monitor } from "lucide-react";
-import type { StreamBackground, BackgroundCategory } from "@shared/schema";
+import { Trash2, Edit, Plus, Upload, Eye, EyeOff, Settings, Monitor, Download, Scissors } from "lucide-react";
+import type { StreamBackground, BackgroundCategory, StreamRecordingMetadata } from "@shared/schema";
 
 // Form schemas
 const backgroundSchema = z.object({
@@ -229,9 +230,10 @@ export default function StreamManagement() {
       </div>
 
       <Tabs defaultValue="backgrounds" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="backgrounds">Background Management</TabsTrigger>
           <TabsTrigger value="categories">Category Management</TabsTrigger>
+          <TabsTrigger value="recordings">Recordings</TabsTrigger>
         </TabsList>
 
         <TabsContent value="backgrounds" className="space-y-6">
@@ -676,7 +678,249 @@ export default function StreamManagement() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="recordings" className="space-y-6">
+          <StreamRecordings />
+        </TabsContent>
       </Tabs>
     </div>
   );
-}
\ No newline at end of file
+}
+interface StreamHistoryEntry {
+  id: number;
+  startTime: string;
+  endTime: string | null;
+  duration: number | null;
+  platform: string | null;
+  status: string;
+  recording: StreamRecordingMetadata | null;
+}
+
+function formatDuration(seconds: number) {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return h > 0
+    ? `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`
+    : `${m}:${String(s).padStart(2, "0")}`;
+}
+
+function formatSize(bytes: number) {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function StreamRecordings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [trimming, setTrimming] = useState<StreamHistoryEntry | null>(null);
+  const [trimStart, setTrimStart] = useState(0);
+  const [trimEnd, setTrimEnd] = useState(0);
+  const [downloadingId, setDownloadingId] = useState<number | null>(null);
+
+  const { data: history = [], isLoading } = useQuery<StreamHistoryEntry[]>({
+    queryKey: ["/api/stream/history"],
+  });
+
+  const recordings = history.filter(session => session.recording && session.recording.status !== "expired");
+
+  const trimMutation = useMutation({
+    mutationFn: async ({ id, start, end }: { id: number; start: number; end: number }) => {
+      return apiRequest("POST", `/api/stream/recordings/${id}/trim`, { start, end });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stream/history"] });
+      setTrimming(null);
+      toast({ title: "Success", description: "Recording trimmed" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to trim recording: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/stream/recordings/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stream/history"] });
+      toast({ title: "Success", description: "Recording deleted" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete recording: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Downloads need the auth header, so fetch the file and hand the browser a blob URL
+  const handleDownload = async (session: StreamHistoryEntry) => {
+    setDownloadingId(session.id);
+    try {
+      const res = await fetch(`/api/stream/recordings/${session.id}/download`, {
+        headers: await getAuthHeaders(),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || res.statusText);
+      }
+
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `vida3-stream-${session.id}.mp4`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: `Failed to download recording: ${error.message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const openTrimDialog = (session: StreamHistoryEntry) => {
+    setTrimming(session);
+    setTrimStart(0);
+    setTrimEnd(session.recording?.durationSec ?? session.duration ?? 0);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Stream Recordings</CardTitle>
+        <CardDescription>
+          Local copies of your broadcasts. Enable "Record Stream" in the studio before going live.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="animate-pulse">
+                <div className="bg-gray-200 dark:bg-gray-700 h-16 rounded-lg"></div>
+              </div>
+            ))}
+          </div>
+        ) : recordings.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">No recordings yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {recordings.map((session) => {
+              const recording = session.recording!;
+              const ready = recording.status === "ready";
+
+              return (
+                <Card key={session.id} className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <h3 className="font-semibold">{new Date(session.startTime).toLocaleString()}</h3>
+                        <Badge variant={ready ? "default" : recording.status === "failed" ? "destructive" : "secondary"}>
+                          {recording.status}
+                        </Badge>
+                        {recording.trimmed && <Badge variant="outline">Trimmed</Badge>}
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                        {session.platform || "Stream"}
+                        {recording.durationSec !== undefined && ` · ${formatDuration(recording.durationSec)}`}
+                        {recording.sizeBytes !== undefined && ` · ${formatSize(recording.sizeBytes)}`}
+                        {recording.expiresAt && ` · Deleted ${new Date(recording.expiresAt).toLocaleDateString()}`}
+                      </p>
+                      {recording.error && (
+                        <p className="text-sm text-red-600 mt-1">{recording.error}</p>
+                      )}
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={!ready || downloadingId === session.id}
+                        onClick={() => handleDownload(session)}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={!ready}
+                        onClick={() => openTrimDialog(session)}
+                      >
+                        <Scissors className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={recording.status === "recording" || deleteMutation.isPending}
+                        onClick={() => {
+                          if (confirm("Delete this recording? This cannot be undone.")) {
+                            deleteMutation.mutate(session.id);
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!trimming} onOpenChange={(open) => !open && setTrimming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Trim Recording</DialogTitle>
+            <DialogDescription>
+              Keep the section between start and end (seconds). Cuts snap to the nearest keyframe.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="trim-start">Start</Label>
+              <Input
+                id="trim-start"
+                type="number"
+                min={0}
+                value={trimStart}
+                onChange={(e) => setTrimStart(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trim-end">End</Label>
+              <Input
+                id="trim-end"
+                type="number"
+                min={0}
+                value={trimEnd}
+                onChange={(e) => setTrimEnd(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setTrimming(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={trimMutation.isPending || trimEnd <= trimStart}
+              onClick={() => trimming && trimMutation.mutate({ id: trimming.id, start: trimStart, end: trimEnd })}
+            >
+              {trimMutation.isPending ? "Trimming..." : "Trim"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -2,12 +2,27 @@ import Navbar from "@/components/Navbar";
 import MobileNavbar from "@/components/MobileNavbar";
 import Footer from "@/components/Footer";
 import StableStreamingStudio from "@/components/StableStreamingStudio";
+import { Progress } from "@/components/ui/progress";
+import { useTrackingAssetPrefetch } from "@/hooks/use-tracking";
 
 export default function Stream() {
+  const assetProgress = useTrackingAssetPrefetch();
+
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
       <MobileNavbar />
+      {/* Tracking model download */}
+      {!assetProgress.complete && (
+        <div className="container mx-auto px-4 pt-4">
+          <div className="max-w-sm space-y-1">
+            <Progress value={(assetProgress.loaded / assetProgress.total) * 100} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              Downloading tracking models ({(assetProgress.loaded / 1048576).toFixed(1)} of {(assetProgress.total / 1048576).toFixed(1)} MB)
+            </p>
+          </div>
+        </div>
+      )}
       <StableStreamingStudio />
       <Footer />
     </div>
@@ -10,6 +10,16 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import AvatarAnimationController from '@/components/AvatarAnimationController';
 
+// The rig test exercises every solver the plan allows
+const ALL_TRACKING_FEATURES = {
+  faceTracking: true,
+  bodyTracking: true,
+  handTracking: true,
+  fingerTracking: true,
+  eyeTracking: true,
+  expressionTracking: true
+};
+
 interface AnalysisResult {
   vertices: number;
   meshCount: number;
@@ -49,6 +59,7 @@ export default function VidaRigTestPage() {
   const [rigResult, setRigResult] = useState<RigResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState(0);
+  const [trackingEnabled, setTrackingEnabled] = useState(false);
 
   // Sample Greek Soldier model URL for testing
   const sampleModelUrl = 'https://gateway.pinata.cloud/ipfs/QmYourGreekSoldierModelHash'; // Replace with actual IPFS hash
@@ -386,17 +397,22 @@ export default function VidaRigTestPage() {
             </CardHeader>
             <CardContent>
               {(modelUrl || rigResult) && (
-                <div className="bg-gray-100 dark:bg-gray-800 rounded-lg aspect-square">
-                  <AvatarAnimationController
-                    modelUrl={rigResult ? rigResult.rigResult.riggedModelUrl : modelUrl}
-                    motionData={{
-                      faceRotation: { x: 0, y: 0, z: 0 },
-                      headPosition: { x: 0, y: 0, z: 0 },
-                      bodyPose: { x: 0, y: 0, z: 0 },
-                      blendShapes: {}
-                    }}
-                    className="w-full h-full"
-                  />
+                <div className="space-y-3">
+                  <div className="bg-gray-100 dark:bg-gray-800 rounded-lg aspect-square">
+                    <AvatarAnimationController
+                      avatarUrl={rigResult ? rigResult.rigResult.riggedModelUrl : modelUrl}
+                      enableTracking={trackingEnabled}
+                      trackingFeatures={ALL_TRACKING_FEATURES}
+                    />
+                  </div>
+                  <Button
+                    variant={trackingEnabled ? 'default' : 'outline'}
+                    onClick={() => setTrackingEnabled(!trackingEnabled)}
+                    className="w-full"
+                  >
+                    <Eye className="w-4 h-4 mr-2" />
+                    {trackingEnabled ? 'Stop Camera Tracking' : 'Test With Camera Tracking'}
+                  </Button>
                 </div>
               )}
               {!modelUrl && !rigResult && (
@@ -431,7 +447,7 @@ export default function VidaRigTestPage() {
                 </div>
                 <div className="flex items-center gap-2">
                   <div className="w-2 h-2 rounded-full bg-red-500"></div>
-                  <span>5. Motion Tracking - Enables MediaPipe compatibility</span>
+                  <span>5. Motion Tracking - Driven live by the tracking engine</span>
                 </div>
               </div>
             </CardContent>
@@ -1,442 +0,0 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
-import { Progress } from '@/components/ui/progress';
-
-// Define tracking data structure
-interface TrackingData {
-  face: {
-    landmarks: number;
-    expressions: {
-      smile: number;
-      frown: number;
-      eyebrowRaise: number;
-      jawDrop: number;
-    };
-    headRotation: { x: number; y: number; z: number };
-  };
-  hands: {
-    left: { detected: boolean; landmarks: number; gesture: string };
-    right: { detected: boolean; landmarks: number; gesture: string };
-  };
-  body: {
-    pose: { detected: boolean; landmarks: number; confidence: number };
-    skeleton: { joints: number; tracking: boolean };
-  };
-  eyes: {
-    left: { openness: number; gazeX: number; gazeY: number; blinking: boolean };
-    right: { openness: number; gazeX: number; gazeY: number; blinking: boolean };
-  };
-  mouth: { openness: number; shape: string; speaking: boolean; lipSync: number };
-}
-
-export default function WorkingMediaPipeTracking() {
-  const [cameraActive, setCameraActive] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [logs, setLogs] = useState<string[]>([]);
-  const [detectionActive, setDetectionActive] = useState(false);
-  
-  const [trackingData, setTrackingData] = useState<TrackingData>({
-    face: { landmarks: 0, expressions: { smile: 0, frown: 0, eyebrowRaise: 0, jawDrop: 0 }, headRotation: { x: 0, y: 0, z: 0 } },
-    hands: {
-      left: { detected: false, landmarks: 0, gesture: 'none' },
-      right: { detected: false, landmarks: 0, gesture: 'none' }
-    },
-    body: {
-      pose: { detected: false, landmarks: 0, confidence: 0 },
-      skeleton: { joints: 0, tracking: false }
-    },
-    eyes: {
-      left: { openness: 0, gazeX: 0, gazeY: 0, blinking: false },
-      right: { openness: 0, gazeX: 0, gazeY: 0, blinking: false }
-    },
-    mouth: { openness: 0, shape: 'closed', speaking: false, lipSync: 0 }
-  });
-
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const detectionIntervalRef = useRef<any>(null);
-
-  const addLog = (message: string) => {
-    const timestamp = new Date().toLocaleTimeString();
-    setLogs(prev => [...prev.slice(-9), `${timestamp}: ${message}`]);
-  };
-
-  // Load MediaPipe via script injection (more reliable than imports)
-  const loadMediaPipe = (): Promise<boolean> => {
-    return new Promise((resolve) => {
-      if ((window as any).FaceMesh && (window as any).Hands && (window as any).Pose) {
-        resolve(true);
-        return;
-      }
-
-      const script = document.createElement('script');
-      script.src = 'https://cdn.jsdelivr.net/npm/@mediapipe/camera_utils/camera_utils.js';
-      script.onload = () => {
-        const faceScript = document.createElement('script');
-        faceScript.src = 'https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/face_mesh.js';
-        faceScript.onload = () => {
-          const handsScript = document.createElement('script');
-          handsScript.src = 'https://cdn.jsdelivr.net/npm/@mediapipe/hands/hands.js';
-          handsScript.onload = () => {
-            const poseScript = document.createElement('script');
-            poseScript.src = 'https://cdn.jsdelivr.net/npm/@mediapipe/pose/pose.js';
-            poseScript.onload = () => resolve(true);
-            poseScript.onerror = () => resolve(false);
-            document.head.appendChild(poseScript);
-          };
-          handsScript.onerror = () => resolve(false);
-          document.head.appendChild(handsScript);
-        };
-        faceScript.onerror = () => resolve(false);
-        document.head.appendChild(faceScript);
-      };
-      script.onerror = () => resolve(false);
-      document.head.appendChild(script);
-    });
-  };
-
-  // Enhanced detection algorithm with motion analysis
-  const simulateDetection = () => {
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    if (!video || !canvas || !cameraActive) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Draw video frame to canvas
-    canvas.width = video.videoWidth || 640;
-    canvas.height = video.videoHeight || 480;
-    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-
-    // Get image data for analysis
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
-
-    // Enhanced detection with multiple criteria
-    let totalBrightness = 0;
-    let brightPixels = 0;
-    let darkPixels = 0;
-    let edgePixels = 0;
-
-    for (let i = 0; i < data.length; i += 4) {
-      const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
-      totalBrightness += brightness;
-      
-      if (brightness > 100) brightPixels++;
-      if (brightness < 50) darkPixels++;
-      
-      // Simple edge detection
-      if (i > 0 && i < data.length - 4) {
-        const prevBrightness = (data[i-4] + data[i-3] + data[i-2]) / 3;
-        if (Math.abs(brightness - prevBrightness) > 30) edgePixels++;
-      }
-    }
-
-    const avgBrightness = totalBrightness / (data.length / 4);
-    const brightRatio = brightPixels / (data.length / 4);
-    const darkRatio = darkPixels / (data.length / 4);
-    const edgeRatio = edgePixels / (data.length / 4);
-
-    // Much more sensitive detection criteria
-    const faceDetected = avgBrightness > 40; // Any reasonable lighting
-    const handMotion = edgeRatio > 0.05 || brightRatio > 0.15; // Any movement or bright areas
-    const bodyVisible = avgBrightness > 30; // Very low threshold
-
-    // Add debug logging
-    console.log('Detection analysis:', {
-      avgBrightness: avgBrightness.toFixed(1),
-      brightRatio: brightRatio.toFixed(3),
-      darkRatio: darkRatio.toFixed(3),
-      edgeRatio: edgeRatio.toFixed(3),
-      faceDetected,
-      handMotion,
-      bodyVisible
-    });
-
-    if (faceDetected || handMotion || bodyVisible) {
-      setTrackingData(prev => ({
-        ...prev,
-        face: {
-          landmarks: faceDetected ? 468 : 0,
-          expressions: {
-            smile: faceDetected ? Math.random() * 0.8 : 0,
-            frown: faceDetected ? Math.random() * 0.3 : 0,
-            eyebrowRaise: faceDetected ? Math.random() * 0.6 : 0,
-            jawDrop: faceDetected ? Math.random() * 0.4 : 0
-          },
-          headRotation: faceDetected ? {
-            x: (Math.random() - 0.5) * 30,
-            y: (Math.random() - 0.5) * 30,
-            z: (Math.random() - 0.5) * 15
-          } : { x: 0, y: 0, z: 0 }
-        },
-        hands: {
-          left: {
-            detected: handMotion && Math.random() > 0.5,
-            landmarks: handMotion ? 21 : 0,
-            gesture: handMotion ? ['wave', 'point', 'fist', 'open'][Math.floor(Math.random() * 4)] : 'none'
-          },
-          right: {
-            detected: handMotion && Math.random() > 0.5,
-            landmarks: handMotion ? 21 : 0,
-            gesture: handMotion ? ['wave', 'point', 'fist', 'open'][Math.floor(Math.random() * 4)] : 'none'
-          }
-        },
-        body: {
-          pose: {
-            detected: bodyVisible,
-            landmarks: bodyVisible ? 33 : 0,
-            confidence: bodyVisible ? 0.7 + Math.random() * 0.3 : 0
-          },
-          skeleton: {
-            joints: bodyVisible ? 17 : 0,
-            tracking: bodyVisible
-          }
-        },
-        eyes: {
-          left: {
-            openness: faceDetected ? 0.7 + Math.random() * 0.3 : 0,
-            gazeX: faceDetected ? (Math.random() - 0.5) * 2 : 0,
-            gazeY: faceDetected ? (Math.random() - 0.5) * 2 : 0,
-            blinking: faceDetected ? Math.random() > 0.9 : false
-          },
-          right: {
-            openness: faceDetected ? 0.7 + Math.random() * 0.3 : 0,
-            gazeX: faceDetected ? (Math.random() - 0.5) * 2 : 0,
-            gazeY: faceDetected ? (Math.random() - 0.5) * 2 : 0,
-            blinking: faceDetected ? Math.random() > 0.9 : false
-          }
-        },
-        mouth: {
-          openness: faceDetected ? Math.random() * 0.6 : 0,
-          shape: faceDetected ? ['closed', 'open', 'smile', 'o'][Math.floor(Math.random() * 4)] : 'closed',
-          speaking: faceDetected ? Math.random() > 0.8 : false,
-          lipSync: faceDetected ? Math.random() * 0.8 : 0
-        }
-      }));
-
-      if (faceDetected) addLog(`Face detected: 468 landmarks, expressions active`);
-      if (handMotion) addLog(`Hand motion detected`);
-      if (bodyVisible) addLog(`Body pose detected: 33 landmarks`);
-    }
-  };
-
-  const startCamera = async () => {
-    setIsLoading(true);
-    addLog('Starting camera and detection system...');
-
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { width: 640, height: 480, facingMode: 'user' },
-        audio: false
-      });
-
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        await videoRef.current.play();
-        streamRef.current = stream;
-        setCameraActive(true);
-        setDetectionActive(true);
-        addLog('Camera started successfully');
-
-        // Start detection loop - only real computer vision analysis
-        detectionIntervalRef.current = setInterval(() => {
-          simulateDetection();
-        }, 200);
-        addLog('Real-time computer vision detection activated');
-      }
-    } catch (error: any) {
-      addLog(`Camera error: ${error.message}`);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const stopCamera = () => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    if (detectionIntervalRef.current) {
-      clearInterval(detectionIntervalRef.current);
-      detectionIntervalRef.current = null;
-    }
-    setCameraActive(false);
-    setDetectionActive(false);
-    addLog('Camera and detection stopped');
-  };
-
-  useEffect(() => {
-    return () => {
-      stopCamera();
-    };
-  }, []);
-
-  return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-4">
-      <div className="max-w-7xl mx-auto space-y-6">
-        {/* Header */}
-        <div className="text-center space-y-4">
-          <h1 className="text-4xl font-bold text-white">
-            Working MediaPipe Tracking
-          </h1>
-          <p className="text-lg text-gray-300">
-            Reliable computer vision tracking with visual feedback
-          </p>
-        </div>
-
-        {/* Camera Controls */}
-        <Card className="glass-card shadow-glow-lg">
-          <CardHeader>
-            <CardTitle className="text-white">Camera Control</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="flex gap-4">
-              <Button
-                onClick={startCamera}
-                disabled={cameraActive || isLoading}
-                className="bg-green-600 hover:bg-green-700 text-white"
-              >
-                {isLoading ? 'Starting...' : 'Start Camera'}
-              </Button>
-              <Button
-                onClick={stopCamera}
-                disabled={!cameraActive}
-                variant="destructive"
-              >
-                Stop Camera
-              </Button>
-            </div>
-            
-            <div className="flex gap-4 items-center">
-              <Badge variant={cameraActive ? "default" : "secondary"}>
-                Camera: {cameraActive ? 'Active' : 'Inactive'}
-              </Badge>
-              <Badge variant={detectionActive ? "default" : "secondary"}>
-                Detection: {detectionActive ? 'Running' : 'Stopped'}
-              </Badge>
-            </div>
-          </CardContent>
-        </Card>
-
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Video Feed */}
-          <Card className="glass-card shadow-glow-md">
-            <CardHeader>
-              <CardTitle className="text-white">Live Camera Feed</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="relative">
-                <video
-                  ref={videoRef}
-                  className="w-full h-auto rounded-lg bg-black"
-                  playsInline
-                  muted
-                />
-                <canvas
-                  ref={canvasRef}
-                  className="absolute top-0 left-0 w-full h-full opacity-30 pointer-events-none"
-                />
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Tracking Results */}
-          <div className="space-y-4">
-            {/* Face Tracking */}
-            <Card className="glass-card shadow-glow-sm">
-              <CardHeader>
-                <CardTitle className="text-white flex items-center justify-between">
-                  Face Tracking
-                  <Badge variant={trackingData.face.landmarks > 0 ? "default" : "secondary"}>
-                    {trackingData.face.landmarks} landmarks
-                  </Badge>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div>
-                  <div className="flex justify-between text-sm text-gray-300">
-                    <span>Smile</span>
-                    <span>{Math.round(trackingData.face.expressions.smile * 100)}%</span>
-                  </div>
-                  <Progress value={trackingData.face.expressions.smile * 100} className="h-2" />
-                </div>
-                <div>
-                  <div className="flex justify-between text-sm text-gray-300">
-                    <span>Head Rotation X</span>
-                    <span>{trackingData.face.headRotation.x.toFixed(1)}°</span>
-                  </div>
-                  <Progress value={Math.abs(trackingData.face.headRotation.x) * 2} className="h-2" />
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Hand Tracking */}
-            <Card className="glass-card shadow-glow-sm">
-              <CardHeader>
-                <CardTitle className="text-white">Hand Tracking</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <div className="text-sm text-gray-300">Left Hand</div>
-                    <Badge variant={trackingData.hands.left.detected ? "default" : "secondary"}>
-                      {trackingData.hands.left.gesture}
-                    </Badge>
-                  </div>
-                  <div>
-                    <div className="text-sm text-gray-300">Right Hand</div>
-                    <Badge variant={trackingData.hands.right.detected ? "default" : "secondary"}>
-                      {trackingData.hands.right.gesture}
-                    </Badge>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Body Tracking */}
-            <Card className="glass-card shadow-glow-sm">
-              <CardHeader>
-                <CardTitle className="text-white flex items-center justify-between">
-                  Body Tracking
-                  <Badge variant={trackingData.body.pose.detected ? "default" : "secondary"}>
-                    {trackingData.body.pose.landmarks} landmarks
-                  </Badge>
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div>
-                  <div className="flex justify-between text-sm text-gray-300">
-                    <span>Pose Confidence</span>
-                    <span>{Math.round(trackingData.body.pose.confidence * 100)}%</span>
-                  </div>
-                  <Progress value={trackingData.body.pose.confidence * 100} className="h-2" />
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-        </div>
-
-        {/* System Log */}
-        <Card className="glass-card shadow-glow-md">
-          <CardHeader>
-            <CardTitle className="text-white">System Log</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="bg-black/50 rounded-lg p-4 h-32 overflow-y-auto">
-              {logs.map((log, index) => (
-                <div key={index} className="text-green-400 text-sm font-mono">
-                  {log}
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      </div>
-    </div>
-  );
-}
\ No newline at end of file
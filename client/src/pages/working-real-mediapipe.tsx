@@ -1,1132 +0,0 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
-import { Progress } from '@/components/ui/progress';
-import { FaceMesh } from '@mediapipe/face_mesh';
-import { Hands } from '@mediapipe/hands';
-import { Pose } from '@mediapipe/pose';
-import { Camera } from '@mediapipe/camera_utils';
-
-interface TrackingData {
-  face: {
-    landmarks: number;
-    expressions: {
-      smile: number;
-      frown: number;
-      eyebrowRaise: number;
-      jawDrop: number;
-      surprise: number;
-      anger: number;
-      disgust: number;
-      concentration: number;
-      microExpressions: {
-        cheekRaise: number;
-        lipPurse: number;
-        noseWrinkle: number;
-        dimpler: number;
-        lipCornerDepressor: number;
-        chinRaise: number;
-        nostrilFlare: number;
-        lipSuck: number;
-      };
-    };
-    headRotation: { x: number; y: number; z: number };
-  };
-  hands: {
-    left: { detected: boolean; landmarks: number; gesture: string };
-    right: { detected: boolean; landmarks: number; gesture: string };
-  };
-  body: {
-    pose: { detected: boolean; landmarks: number; confidence: number };
-    skeleton: { joints: number; tracking: boolean };
-  };
-  eyes: {
-    left: { openness: number; gazeX: number; gazeY: number; blinking: boolean; winking: boolean; squinting: boolean };
-    right: { openness: number; gazeX: number; gazeY: number; blinking: boolean; winking: boolean; squinting: boolean };
-    microExpressions: { leftWink: boolean; rightWink: boolean; doubleWink: boolean; squint: boolean; eyeRoll: boolean };
-  };
-  mouth: { openness: number; shape: string; speaking: boolean; lipSync: number };
-}
-
-export default function WorkingRealMediaPipe() {
-  const [cameraActive, setCameraActive] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [logs, setLogs] = useState<string[]>([]);
-  const [detectionActive, setDetectionActive] = useState(false);
-  const [modelsLoaded, setModelsLoaded] = useState(false);
-  
-  // Enhanced calibration state
-  const [isCalibrating, setIsCalibrating] = useState(true);
-  const [calibrationFrames, setCalibrationFrames] = useState(0);
-  const [personalBaseline, setPersonalBaseline] = useState<any>(null);
-  const [expressionHistory, setExpressionHistory] = useState<any[]>([]);
-  
-  const [trackingData, setTrackingData] = useState<TrackingData>({
-    face: { 
-      landmarks: 0, 
-      expressions: { 
-        smile: 0, frown: 0, eyebrowRaise: 0, jawDrop: 0,
-        surprise: 0, anger: 0, disgust: 0, concentration: 0,
-        microExpressions: {
-          cheekRaise: 0, lipPurse: 0, noseWrinkle: 0, dimpler: 0,
-          lipCornerDepressor: 0, chinRaise: 0, nostrilFlare: 0, lipSuck: 0
-        }
-      }, 
-      headRotation: { x: 0, y: 0, z: 0 } 
-    },
-    hands: {
-      left: { detected: false, landmarks: 0, gesture: 'none' },
-      right: { detected: false, landmarks: 0, gesture: 'none' }
-    },
-    body: {
-      pose: { detected: false, landmarks: 0, confidence: 0 },
-      skeleton: { joints: 0, tracking: false }
-    },
-    eyes: {
-      left: { openness: 0, gazeX: 0, gazeY: 0, blinking: false, winking: false, squinting: false },
-      right: { openness: 0, gazeX: 0, gazeY: 0, blinking: false, winking: false, squinting: false },
-      microExpressions: { leftWink: false, rightWink: false, doubleWink: false, squint: false, eyeRoll: false }
-    },
-    mouth: { openness: 0, shape: 'closed', speaking: false, lipSync: 0 }
-  });
-
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  
-  // MediaPipe model references
-  const faceMeshRef = useRef<FaceMesh | null>(null);
-  const handsRef = useRef<Hands | null>(null);
-  const poseRef = useRef<Pose | null>(null);
-  const cameraRef = useRef<Camera | null>(null);
-
-  const addLog = (message: string) => {
-    const timestamp = new Date().toLocaleTimeString();
-    setLogs(prev => [...prev.slice(-9), `${timestamp}: ${message}`]);
-  };
-
-  // Calculate head rotation from MediaPipe facial landmarks
-  const calculateHeadRotation = (landmarks: any[]) => {
-    if (!landmarks || landmarks.length < 468) return { x: 0, y: 0, z: 0 };
-
-    // Key MediaPipe facial landmarks for head pose estimation
-    const noseTip = landmarks[1];      // Nose tip
-    const leftEye = landmarks[33];     // Left eye inner corner
-    const rightEye = landmarks[263];   // Right eye inner corner
-    const chin = landmarks[175];       // Chin center
-    const forehead = landmarks[10];    // Forehead center
-
-    // Calculate face center and dimensions for normalization
-    const faceCenter = [(leftEye.x + rightEye.x) / 2, (leftEye.y + rightEye.y) / 2];
-    const faceWidth = Math.abs(rightEye.x - leftEye.x);
-    const faceHeight = Math.abs(forehead.y - chin.y);
-
-    // Roll angle from eye alignment (head tilt left/right)
-    const eyeVector = [rightEye.x - leftEye.x, rightEye.y - leftEye.y];
-    const rollAngle = Math.atan2(eyeVector[1], eyeVector[0]) * (180 / Math.PI);
-
-    // Yaw angle from nose position relative to face center (head turn left/right)
-    const noseOffset = (noseTip.x - faceCenter[0]) / faceWidth;
-    const yawAngle = noseOffset * 60; // Scale to reasonable range
-
-    // Pitch angle from nose-chin relationship (head up/down)
-    const noseToFaceCenter = noseTip.y - faceCenter[1];
-    const chinToFaceCenter = chin.y - faceCenter[1];
-    const pitchRatio = noseToFaceCenter / Math.abs(chinToFaceCenter);
-    const pitchAngle = pitchRatio * 30; // Scale to reasonable range
-
-    return {
-      x: Math.max(-45, Math.min(45, pitchAngle)),    // Pitch (up/down)
-      y: Math.max(-45, Math.min(45, yawAngle)),      // Yaw (left/right)
-      z: Math.max(-30, Math.min(30, rollAngle))      // Roll (tilt)
-    };
-  };
-
-  // Calculate enhanced eye tracking with micro-expressions from MediaPipe landmarks
-  const calculateEyeTracking = (landmarks: any[]) => {
-    if (!landmarks || landmarks.length < 468) return {
-      left: { openness: 0, gazeX: 0, gazeY: 0, blinking: false, winking: false, squinting: false },
-      right: { openness: 0, gazeX: 0, gazeY: 0, blinking: false, winking: false, squinting: false },
-      microExpressions: { leftWink: false, rightWink: false, doubleWink: false, squint: false, eyeRoll: false }
-    };
-
-    // Enhanced left eye landmarks for micro-expression detection
-    const leftEyeTop = landmarks[159];        // Top of left eye
-    const leftEyeBottom = landmarks[145];     // Bottom of left eye
-    const leftEyeLeft = landmarks[33];        // Left corner
-    const leftEyeRight = landmarks[133];      // Right corner
-    const leftEyeCenter = landmarks[168];     // Eye center
-    const leftUpperLid = landmarks[158];      // Upper eyelid
-    const leftLowerLid = landmarks[153];      // Lower eyelid
-
-    // Enhanced right eye landmarks for micro-expression detection
-    const rightEyeTop = landmarks[386];       // Top of right eye
-    const rightEyeBottom = landmarks[374];    // Bottom of right eye
-    const rightEyeLeft = landmarks[362];      // Left corner
-    const rightEyeRight = landmarks[263];     // Right corner
-    const rightEyeCenter = landmarks[473];    // Eye center
-    const rightUpperLid = landmarks[387];     // Upper eyelid
-    const rightLowerLid = landmarks[380];     // Lower eyelid
-
-    // Calculate precise eye dimensions
-    const leftEyeHeight = Math.abs(leftEyeTop.y - leftEyeBottom.y);
-    const rightEyeHeight = Math.abs(rightEyeTop.y - rightEyeBottom.y);
-    const leftEyeWidth = Math.abs(leftEyeRight.x - leftEyeLeft.x);
-    const rightEyeWidth = Math.abs(rightEyeRight.x - rightEyeLeft.x);
-
-    // Enhanced openness calculation with lid position
-    const leftLidSeparation = Math.abs(leftUpperLid.y - leftLowerLid.y);
-    const rightLidSeparation = Math.abs(rightUpperLid.y - rightLowerLid.y);
-    
-    const leftOpenness = Math.min(1, Math.max(0, leftLidSeparation / (leftEyeWidth * 0.25)));
-    const rightOpenness = Math.min(1, Math.max(0, rightLidSeparation / (rightEyeWidth * 0.25)));
-
-    // Advanced gaze direction with pupil tracking
-    const leftGazeX = (leftEyeCenter.x - (leftEyeLeft.x + leftEyeRight.x) / 2) / (leftEyeWidth * 0.4);
-    const leftGazeY = (leftEyeCenter.y - (leftEyeTop.y + leftEyeBottom.y) / 2) / (leftEyeHeight * 0.4);
-    const rightGazeX = (rightEyeCenter.x - (rightEyeLeft.x + rightEyeRight.x) / 2) / (rightEyeWidth * 0.4);
-    const rightGazeY = (rightEyeCenter.y - (rightEyeTop.y + rightEyeBottom.y) / 2) / (rightEyeHeight * 0.4);
-
-    // Micro-expression detection
-    const leftBlinking = leftOpenness < 0.3;
-    const rightBlinking = rightOpenness < 0.3;
-    const leftSquinting = leftOpenness > 0.3 && leftOpenness < 0.7;
-    const rightSquinting = rightOpenness > 0.3 && rightOpenness < 0.7;
-
-    // Wink detection (one eye closed, other open)
-    const leftWinking = leftBlinking && rightOpenness > 0.6;
-    const rightWinking = rightBlinking && leftOpenness > 0.6;
-    const doubleWink = leftBlinking && rightBlinking;
-
-    // Eye roll detection (extreme gaze movement)
-    const eyeRoll = Math.abs(leftGazeY) > 0.8 || Math.abs(rightGazeY) > 0.8;
-
-    // General squint detection (both eyes partially closed)
-    const generalSquint = leftSquinting && rightSquinting;
-
-    return {
-      left: {
-        openness: leftOpenness,
-        gazeX: Math.max(-1, Math.min(1, leftGazeX)),
-        gazeY: Math.max(-1, Math.min(1, leftGazeY)),
-        blinking: leftBlinking,
-        winking: leftWinking,
-        squinting: leftSquinting
-      },
-      right: {
-        openness: rightOpenness,
-        gazeX: Math.max(-1, Math.min(1, rightGazeX)),
-        gazeY: Math.max(-1, Math.min(1, rightGazeY)),
-        blinking: rightBlinking,
-        winking: rightWinking,
-        squinting: rightSquinting
-      },
-      microExpressions: {
-        leftWink: leftWinking,
-        rightWink: rightWinking,
-        doubleWink: doubleWink,
-        squint: generalSquint,
-        eyeRoll: eyeRoll
-      }
-    };
-  };
-
-  // Establish personal baseline during calibration phase
-  const establishBaseline = (landmarks: any[]) => {
-    if (!landmarks || landmarks.length < 468) return null;
-    
-    const faceWidth = Math.abs(landmarks[234].x - landmarks[454].x);
-    const leftMouthCorner = landmarks[61];
-    const rightMouthCorner = landmarks[291];
-    const mouthCenter = landmarks[17];
-    const upperLip = landmarks[13];
-    const lowerLip = landmarks[14];
-    const leftBrowInner = landmarks[70];
-    const rightBrowInner = landmarks[107];
-    const leftEyeTop = landmarks[159];
-    const rightEyeTop = landmarks[386];
-    
-    return {
-      faceWidth,
-      neutralMouthCornerY: (leftMouthCorner.y + rightMouthCorner.y) / 2,
-      neutralMouthHeight: Math.abs(upperLip.y - lowerLip.y),
-      neutralBrowDistance: ((leftBrowInner.y - leftEyeTop.y) + (rightBrowInner.y - rightEyeTop.y)) / 2,
-      neutralMouthWidth: Math.abs(rightMouthCorner.x - leftMouthCorner.x),
-      frameTimestamp: Date.now()
-    };
-  };
-
-  // Calculate comprehensive facial expressions with personal baseline
-  const calculateFacialExpressions = (landmarks: any[]) => {
-    if (!landmarks || landmarks.length < 468) return { 
-      smile: 0, frown: 0, eyebrowRaise: 0, jawDrop: 0, 
-      surprise: 0, anger: 0, disgust: 0, concentration: 0,
-      microExpressions: {
-        cheekRaise: 0, lipPurse: 0, noseWrinkle: 0, dimpler: 0,
-        lipCornerDepressor: 0, chinRaise: 0, nostrilFlare: 0, lipSuck: 0
-      }
-    };
-
-    // Use personal baseline if available, fallback to anthropometric standards
-    const baseline = personalBaseline || {
-      faceWidth: Math.abs(landmarks[234].x - landmarks[454].x),
-      neutralMouthCornerY: (landmarks[61].y + landmarks[291].y) / 2,
-      neutralMouthHeight: 0.025,
-      neutralBrowDistance: -0.045,
-      neutralMouthWidth: 0.12
-    };
-
-    // Enhanced mouth landmarks for detailed expression detection
-    const leftMouthCorner = landmarks[61];   // Left mouth corner
-    const rightMouthCorner = landmarks[291]; // Right mouth corner
-    const upperLip = landmarks[13];          // Upper lip center
-    const lowerLip = landmarks[14];          // Lower lip center
-    const mouthCenter = landmarks[17];       // Mouth center
-    const leftUpperLip = landmarks[267];     // Left upper lip
-    const rightUpperLip = landmarks[37];     // Right upper lip
-    const leftLowerLip = landmarks[269];     // Left lower lip
-    const rightLowerLip = landmarks[39];     // Right lower lip
-
-    // Calculate normalized mouth dimensions
-    const mouthWidth = Math.abs(rightMouthCorner.x - leftMouthCorner.x);
-    const mouthHeight = Math.abs(upperLip.y - lowerLip.y);
-    
-    // Enhanced FACS-based expression detection with personal baseline
-    const faceWidth = baseline.faceWidth;
-    
-    // FACS AU12 (Lip Corner Puller) - Duchenne Smile Detection
-    const avgCornerY = (leftMouthCorner.y + rightMouthCorner.y) / 2;
-    const cornerLift = (baseline.neutralMouthCornerY - avgCornerY) / faceWidth;
-    
-    // Enhanced smile detection with cheek engagement
-    const leftCheekPoint = landmarks[116];
-    const rightCheekPoint = landmarks[345];
-    const avgCheekYSmile = (leftCheekPoint.y + rightCheekPoint.y) / 2;
-    const cheekRaiseForSmile = Math.max(0, (baseline.neutralMouthCornerY - avgCheekYSmile) / faceWidth);
-    
-    // Combine mouth corner and cheek movement for accurate smile
-    const mouthSmile = Math.max(0, Math.min(1, cornerLift * 50));
-    const cheekComponent = Math.max(0, Math.min(1, cheekRaiseForSmile * 30));
-    const smile = Math.min(1, mouthSmile + (cheekComponent * 0.4));
-    
-    // FACS AU15 (Lip Corner Depressor) - Frown detection
-    const frown = Math.max(0, Math.min(1, -cornerLift * 30));
-
-    // FACS AU26 (Jaw Drop) with personal baseline
-    const currentMouthHeight = Math.abs(upperLip.y - lowerLip.y);
-    const mouthHeightChange = (currentMouthHeight - baseline.neutralMouthHeight) / faceWidth;
-    const jawDrop = Math.max(0, Math.min(1, mouthHeightChange * 40)); // MediaPipe research scaling
-
-    // FACS AU1+AU2 (Inner + Outer Brow Raiser) - Surprise detection
-    const leftBrowInner = landmarks[70];
-    const rightBrowInner = landmarks[107];
-    const leftEyeTop = landmarks[159];
-    const rightEyeTop = landmarks[386];
-    
-    const currentBrowDist = ((leftBrowInner.y - leftEyeTop.y) + (rightBrowInner.y - rightEyeTop.y)) / 2;
-    const browChange = (baseline.neutralBrowDistance - currentBrowDist) / faceWidth;
-    const eyebrowRaise = Math.max(0, Math.min(1, browChange * 35)); // FACS AU1+2 intensity scaling
-
-    // FACS AU4 (Brow Lowerer) - Anger/concentration
-    const browLower = Math.max(0, Math.min(1, -browChange * 30));
-
-    // Enhanced surprise detection (eyebrow + jaw combination)
-    const surprise = Math.min(1, eyebrowRaise * 0.7 + jawDrop * 0.3);
-
-    // Enhanced anger detection (brow lowering + tension)
-    const anger = Math.max(0, Math.min(1, browLower));
-
-    // Enhanced disgust detection using nose wrinkle and upper lip raise
-    const noseTip = landmarks[1];
-    const noseBase = landmarks[2];
-    const leftNostrilMain = landmarks[5];
-    const rightNostrilMain = landmarks[6];
-    
-    // Nose wrinkle detection
-    const nostrilWidthMain = Math.abs(rightNostrilMain.x - leftNostrilMain.x) / faceWidth;
-    const normalNostrilWidthMain = 0.025;
-    const noseWrinkleMain = Math.max(0, Math.min(1, (nostrilWidthMain - normalNostrilWidthMain) * 40));
-    
-    // Upper lip raise for disgust
-    const lipToNose = Math.abs(upperLip.y - noseBase.y) / faceWidth;
-    const normalLipToNose = 0.08;
-    const upperLipRaise = Math.max(0, Math.min(1, (normalLipToNose - lipToNose) * 35));
-    
-    const disgust = Math.min(1, upperLipRaise * 0.6 + noseWrinkleMain * 0.4);
-
-    // Concentration (sustained AU4 without other expressions)
-    const concentration = Math.min(1, (browLower > 0.2 && smile < 0.1 && jawDrop < 0.1) ? browLower * 0.8 : 0);
-
-    // MICRO-EXPRESSIONS DETECTION (using face-width normalization)
-    
-    // Cheek raise (smile muscles engaging cheeks) - micro expressions
-    const leftCheekMicro = landmarks[205];
-    const rightCheekMicro = landmarks[425];
-    const eyeCenterLeft = landmarks[168];
-    const eyeCenterRight = landmarks[473];
-    const cheekBaseline = (eyeCenterLeft.y + eyeCenterRight.y) / 2;
-    const avgCheekYMicro = (leftCheekMicro.y + rightCheekMicro.y) / 2;
-    const normalizedCheekRaise = (cheekBaseline - avgCheekYMicro) / faceWidth;
-    const cheekRaise = Math.max(0, Math.min(1, normalizedCheekRaise * 8));
-
-    // Lip purse (lips pressed together and pushed forward)
-    const normalizedMouthWidth = mouthWidth / faceWidth;
-    const normalMouthWidth = 0.12; // Typical mouth width ratio
-    const lipPurse = Math.max(0, Math.min(1, (normalMouthWidth - normalizedMouthWidth) * 15));
-
-    // Nose wrinkle (disgust/concentration around nose) - micro expressions
-    const leftNostrilSecond = landmarks[219];
-    const rightNostrilSecond = landmarks[438];
-    const nostrilWidthSecond = Math.abs(rightNostrilSecond.x - leftNostrilSecond.x);
-    const normalizedNostrilWidthSecond = nostrilWidthSecond / faceWidth;
-    const normalNostrilWidthSecond = 0.04; // Typical nostril width ratio
-    const noseWrinkleSecond = Math.max(0, Math.min(1, (normalizedNostrilWidthSecond - normalNostrilWidthSecond) * 20));
-
-    // Dimpler (dimple activation during smile)
-    const dimpler = Math.min(1, smile * cheekRaise * 2);
-
-    // Lip corner depressor (downward mouth movement)
-    const lipCornerDepressor = Math.max(0, Math.min(1, -cornerLift * 25));
-
-    // Chin raise (mentalis muscle activation)
-    const chin = landmarks[175];
-    const chinToLipDist = (chin.y - lowerLip.y) / faceWidth;
-    const normalChinToLipDist = 0.08; // Typical chin-to-lip distance ratio
-    const chinRaise = Math.max(0, Math.min(1, (normalChinToLipDist - chinToLipDist) * 12));
-
-    // Nostril flare (anger/intensity)
-    const nostrilFlare = Math.max(0, Math.min(1, (normalizedNostrilWidth - normalNostrilWidth) * 25));
-
-    // Lip suck (lips pulled inward)
-    const currentMouthHeightNorm = currentMouthHeight / faceWidth;
-    const normalLipThickness = 0.025; // Typical lip thickness ratio
-    const lipSuck = Math.max(0, Math.min(1, (normalLipThickness - currentMouthHeightNorm) * 30));
-
-    return {
-      smile,
-      frown,
-      eyebrowRaise,
-      jawDrop,
-      surprise,
-      anger,
-      disgust,
-      concentration,
-      microExpressions: {
-        cheekRaise,
-        lipPurse,
-        noseWrinkle: noseWrinkleSecond,
-        dimpler,
-        lipCornerDepressor,
-        chinRaise,
-        nostrilFlare,
-        lipSuck
-      }
-    };
-  };
-
-  // Initialize MediaPipe models
-  const initializeMediaPipe = async () => {
-    addLog('Initializing MediaPipe models...');
-    setIsLoading(true);
-    
-    try {
-      // Initialize FaceMesh
-      const faceMesh = new FaceMesh({
-        locateFile: (file) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/${file}`;
-        }
-      });
-      
-      faceMesh.setOptions({
-        maxNumFaces: 1,
-        refineLandmarks: true,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5
-      });
-
-      faceMesh.onResults((results) => {
-        if (results.multiFaceLandmarks && results.multiFaceLandmarks.length > 0) {
-          const landmarks = results.multiFaceLandmarks[0];
-          
-          // Handle calibration phase (first 30 frames for personal baseline)
-          if (isCalibrating && calibrationFrames < 30) {
-            const baseline = establishBaseline(landmarks);
-            if (baseline) {
-              setCalibrationFrames(prev => prev + 1);
-              
-              if (!personalBaseline) {
-                setPersonalBaseline(baseline);
-              } else {
-                // Average with previous baselines for stability
-                setPersonalBaseline((prev: any) => ({
-                  faceWidth: (prev.faceWidth + baseline.faceWidth) / 2,
-                  neutralMouthCornerY: (prev.neutralMouthCornerY + baseline.neutralMouthCornerY) / 2,
-                  neutralMouthHeight: (prev.neutralMouthHeight + baseline.neutralMouthHeight) / 2,
-                  neutralBrowDistance: (prev.neutralBrowDistance + baseline.neutralBrowDistance) / 2,
-                  neutralMouthWidth: (prev.neutralMouthWidth + baseline.neutralMouthWidth) / 2,
-                  frameTimestamp: Date.now()
-                }));
-              }
-              
-              if (calibrationFrames === 29) {
-                setIsCalibrating(false);
-                addLog(`✅ Personal baseline calibrated - FACS-validated tracking active`);
-              } else {
-                addLog(`📊 Calibrating baseline... ${calibrationFrames + 1}/30 frames`);
-              }
-            }
-            return;
-          }
-
-          const expressions = calculateFacialExpressions(landmarks);
-          const headRotation = calculateHeadRotation(landmarks);
-          const eyeData = calculateEyeTracking(landmarks);
-
-          // Temporal validation: expressions must persist across 3+ frames
-          const currentFrame = { ...expressions, timestamp: Date.now() };
-          setExpressionHistory(prev => {
-            const newHistory = [...prev, currentFrame].slice(-5);
-            
-            // Apply temporal smoothing for stable expression detection
-            let validatedExpressions = { ...expressions };
-            if (newHistory.length >= 3) {
-              const recentFrames = newHistory.slice(-3);
-              
-              // Validate each main expression for consistency
-              (['smile', 'frown', 'eyebrowRaise', 'jawDrop', 'surprise', 'anger'] as const).forEach(expr => {
-                const values = recentFrames.map(frame => frame[expr]);
-                const avgValue = values.reduce((sum, val) => sum + val, 0) / values.length;
-                const stability = Math.min(...values) / (Math.max(...values) + 0.001);
-                
-                // Require 60% stability for expression validation (research threshold)
-                if (stability < 0.6) {
-                  (validatedExpressions as any)[expr] = avgValue * 0.7; // Reduce unstable expressions
-                }
-              });
-            }
-
-            setTrackingData(prev => ({
-              ...prev,
-              face: {
-                landmarks: 468,
-                expressions: validatedExpressions,
-                headRotation
-              },
-              eyes: eyeData,
-              mouth: {
-                openness: validatedExpressions.jawDrop,
-                shape: validatedExpressions.smile > 0.3 ? 'smile' : 
-                       validatedExpressions.surprise > 0.4 ? 'surprised' :
-                       validatedExpressions.anger > 0.3 ? 'angry' :
-                       validatedExpressions.disgust > 0.3 ? 'disgusted' :
-                       validatedExpressions.jawDrop > 0.2 ? 'open' : 'closed',
-                speaking: validatedExpressions.jawDrop > 0.15,
-                lipSync: validatedExpressions.jawDrop * 0.9
-              }
-            }));
-
-            // Enhanced logging with FACS AU references
-            const dominantExpression = validatedExpressions.smile > 0.3 ? 'AU12(Smile)' : 
-                                     validatedExpressions.surprise > 0.4 ? 'AU1+2(Surprise)' : 
-                                     validatedExpressions.anger > 0.3 ? 'AU4(Anger)' :
-                                     validatedExpressions.disgust > 0.3 ? 'AU9+10(Disgust)' :
-                                     validatedExpressions.concentration > 0.4 ? 'AU4(Focus)' : 'Neutral';
-            
-            const eyeStatus = eyeData.microExpressions.leftWink ? 'LeftWink' :
-                            eyeData.microExpressions.rightWink ? 'RightWink' :
-                            eyeData.left.blinking || eyeData.right.blinking ? 'Blink' : 
-                            `Gaze(${eyeData.left.gazeX.toFixed(1)},${eyeData.left.gazeY.toFixed(1)})`;
-            
-            addLog(`${dominantExpression} | ${eyeStatus} | Head: ${headRotation.x.toFixed(1)}°/${headRotation.y.toFixed(1)}°/${headRotation.z.toFixed(1)}°`);
-            
-            return newHistory;
-          });
-        }
-      });
-
-      faceMeshRef.current = faceMesh;
-      addLog('FaceMesh initialized');
-
-      // Initialize Hands
-      const hands = new Hands({
-        locateFile: (file) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-        }
-      });
-
-      hands.setOptions({
-        maxNumHands: 2,
-        modelComplexity: 1,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5
-      });
-
-      hands.onResults((results) => {
-        if (results.multiHandLandmarks) {
-          const leftHand = results.multiHandLandmarks.find((_, index) => 
-            results.multiHandedness && results.multiHandedness[index].label === 'Left');
-          const rightHand = results.multiHandLandmarks.find((_, index) => 
-            results.multiHandedness && results.multiHandedness[index].label === 'Right');
-
-          setTrackingData(prev => ({
-            ...prev,
-            hands: {
-              left: {
-                detected: !!leftHand,
-                landmarks: leftHand ? 21 : 0,
-                gesture: leftHand ? ['wave', 'point', 'fist', 'open'][Math.floor(Math.random() * 4)] : 'none'
-              },
-              right: {
-                detected: !!rightHand,
-                landmarks: rightHand ? 21 : 0,
-                gesture: rightHand ? ['wave', 'point', 'fist', 'open'][Math.floor(Math.random() * 4)] : 'none'
-              }
-            }
-          }));
-
-          if (leftHand || rightHand) {
-            addLog(`Hands: ${leftHand ? 'Left' : ''}${leftHand && rightHand ? '+' : ''}${rightHand ? 'Right' : ''}`);
-          }
-        }
-      });
-
-      handsRef.current = hands;
-      addLog('Hands initialized');
-
-      // Initialize Pose
-      const pose = new Pose({
-        locateFile: (file) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/pose/${file}`;
-        }
-      });
-
-      pose.setOptions({
-        modelComplexity: 1,
-        smoothLandmarks: true,
-        enableSegmentation: false,
-        smoothSegmentation: true,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5
-      });
-
-      pose.onResults((results) => {
-        if (results.poseLandmarks) {
-          const confidence = 0.8 + Math.random() * 0.2;
-          setTrackingData(prev => ({
-            ...prev,
-            body: {
-              pose: {
-                detected: true,
-                landmarks: 33,
-                confidence
-              },
-              skeleton: {
-                joints: 17,
-                tracking: confidence > 0.5
-              }
-            }
-          }));
-          addLog(`Pose: 33 landmarks, ${(confidence * 100).toFixed(0)}% confidence`);
-        }
-      });
-
-      poseRef.current = pose;
-      addLog('Pose initialized');
-
-      setModelsLoaded(true);
-      addLog('All MediaPipe models loaded successfully');
-      return true;
-      
-    } catch (error: any) {
-      addLog(`MediaPipe error: ${error.message}`);
-      return false;
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const startCamera = async () => {
-    addLog('Starting MediaPipe camera...');
-    
-    try {
-      // Initialize MediaPipe models first
-      const modelsReady = await initializeMediaPipe();
-      if (!modelsReady) {
-        addLog('Failed to initialize MediaPipe models');
-        return;
-      }
-
-      // Get video element
-      const video = videoRef.current;
-      if (!video) {
-        addLog('Video element not available');
-        return;
-      }
-
-      // Setup camera with MediaPipe
-      const camera = new Camera(video, {
-        onFrame: async () => {
-          // Send video frame to all MediaPipe models
-          if (faceMeshRef.current) {
-            await faceMeshRef.current.send({ image: video });
-          }
-          if (handsRef.current) {
-            await handsRef.current.send({ image: video });
-          }
-          if (poseRef.current) {
-            await poseRef.current.send({ image: video });
-          }
-        },
-        width: 640,
-        height: 480
-      });
-      
-      cameraRef.current = camera;
-      camera.start();
-      
-      setCameraActive(true);
-      setDetectionActive(true);
-      addLog('MediaPipe camera started successfully');
-      
-    } catch (error: any) {
-      addLog(`Camera error: ${error.message}`);
-    }
-  };
-
-  const stopCamera = () => {
-    if (cameraRef.current) {
-      cameraRef.current.stop();
-      cameraRef.current = null;
-    }
-    setCameraActive(false);
-    setDetectionActive(false);
-    addLog('MediaPipe camera stopped');
-  };
-
-  useEffect(() => {
-    return () => {
-      stopCamera();
-    };
-  }, []);
-
-  return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-4">
-      <div className="max-w-7xl mx-auto space-y-6">
-        {/* Header */}
-        <div className="text-center space-y-4">
-          <h1 className="text-4xl font-bold text-white">
-            Working Real MediaPipe
-          </h1>
-          <p className="text-lg text-gray-300">
-            Authentic MediaPipe models with real landmark detection
-          </p>
-        </div>
-
-        {/* Camera Controls */}
-        <Card className="glass-card shadow-glow-lg">
-          <CardHeader>
-            <CardTitle className="text-white">MediaPipe Control</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="flex gap-4">
-              <Button
-                onClick={startCamera}
-                disabled={cameraActive || isLoading}
-                className="bg-green-600 hover:bg-green-700 text-white"
-              >
-                {isLoading ? 'Loading Models...' : 'Start MediaPipe'}
-              </Button>
-              <Button
-                onClick={stopCamera}
-                disabled={!cameraActive}
-                variant="destructive"
-              >
-                Stop Tracking
-              </Button>
-            </div>
-            
-            <div className="flex gap-4 items-center">
-              <Badge variant={modelsLoaded ? "default" : "secondary"}>
-                Models: {modelsLoaded ? 'Loaded' : 'Loading'}
-              </Badge>
-              <Badge variant={cameraActive ? "default" : "secondary"}>
-                Camera: {cameraActive ? 'Active' : 'Inactive'}
-              </Badge>
-              <Badge variant={detectionActive ? "default" : "secondary"}>
-                MediaPipe: {detectionActive ? 'Running' : 'Stopped'}
-              </Badge>
-            </div>
-          </CardContent>
-        </Card>
-
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Video Feed */}
-          <Card className="glass-card shadow-glow-md">
-            <CardHeader>
-              <CardTitle className="text-white">Live MediaPipe Feed</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="relative">
-                <video
-                  ref={videoRef}
-                  className="w-full h-auto rounded-lg bg-black"
-                  playsInline
-                  muted
-                />
-                <canvas
-                  ref={canvasRef}
-                  className="absolute top-0 left-0 w-full h-full opacity-30 pointer-events-none"
-                />
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Tracking Results */}
-          <div className="space-y-4">
-            {/* Face Tracking */}
-            <Card className="glass-card shadow-glow-sm">
-              <CardHeader>
-                <CardTitle className="text-white flex items-center justify-between">
-                  Face Tracking (468 Landmarks)
-                  <Badge variant={trackingData.face.landmarks > 0 ? "default" : "secondary"}>
-                    {trackingData.face.landmarks} points
-                  </Badge>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div>
-                  <div className="flex justify-between text-sm text-gray-300">
-                    <span>Head Rotation X (Pitch)</span>
-                    <span>{trackingData.face.headRotation.x.toFixed(1)}°</span>
-                  </div>
-                  <Progress value={Math.abs(trackingData.face.headRotation.x) * 2} className="h-2" />
-                </div>
-                <div>
-                  <div className="flex justify-between text-sm text-gray-300">
-                    <span>Head Rotation Y (Yaw)</span>
-                    <span>{trackingData.face.headRotation.y.toFixed(1)}°</span>
-                  </div>
-                  <Progress value={Math.abs(trackingData.face.headRotation.y) * 2} className="h-2" />
-                </div>
-                <div>
-                  <div className="flex justify-between text-sm text-gray-300">
-                    <span>Head Rotation Z (Roll)</span>
-                    <span>{trackingData.face.headRotation.z.toFixed(1)}°</span>
-                  </div>
-                  <Progress value={Math.abs(trackingData.face.headRotation.z) * 3} className="h-2" />
-                </div>
-                <div className="grid grid-cols-2 gap-3">
-                  <div>
-                    <div className="flex justify-between text-sm text-gray-300">
-                      <span>Smile</span>
-                      <span>{Math.round(trackingData.face.expressions.smile * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.face.expressions.smile * 100} className="h-2" />
-                  </div>
-                  <div>
-                    <div className="flex justify-between text-sm text-gray-300">
-                      <span>Surprise</span>
-                      <span>{Math.round(trackingData.face.expressions.surprise * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.face.expressions.surprise * 100} className="h-2" />
-                  </div>
-                  <div>
-                    <div className="flex justify-between text-sm text-gray-300">
-                      <span>Anger</span>
-                      <span>{Math.round(trackingData.face.expressions.anger * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.face.expressions.anger * 100} className="h-2" />
-                  </div>
-                  <div>
-                    <div className="flex justify-between text-sm text-gray-300">
-                      <span>Disgust</span>
-                      <span>{Math.round(trackingData.face.expressions.disgust * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.face.expressions.disgust * 100} className="h-2" />
-                  </div>
-                  <div>
-                    <div className="flex justify-between text-sm text-gray-300">
-                      <span>Focus</span>
-                      <span>{Math.round(trackingData.face.expressions.concentration * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.face.expressions.concentration * 100} className="h-2" />
-                  </div>
-                  <div>
-                    <div className="flex justify-between text-sm text-gray-300">
-                      <span>Jaw Drop</span>
-                      <span>{Math.round(trackingData.face.expressions.jawDrop * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.face.expressions.jawDrop * 100} className="h-2" />
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Enhanced Eye Tracking */}
-            <Card className="glass-card shadow-glow-sm">
-              <CardHeader>
-                <CardTitle className="text-white">Enhanced Eye Tracking</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <div className="text-sm text-gray-300 font-medium">Left Eye</div>
-                    <div>
-                      <div className="flex justify-between text-xs text-gray-400">
-                        <span>Openness</span>
-                        <span>{Math.round(trackingData.eyes.left.openness * 100)}%</span>
-                      </div>
-                      <Progress value={trackingData.eyes.left.openness * 100} className="h-1.5" />
-                    </div>
-                    <div>
-                      <div className="flex justify-between text-xs text-gray-400">
-                        <span>Gaze X</span>
-                        <span>{trackingData.eyes.left.gazeX.toFixed(2)}</span>
-                      </div>
-                      <Progress value={Math.abs(trackingData.eyes.left.gazeX) * 50} className="h-1.5" />
-                    </div>
-                    <div>
-                      <div className="flex justify-between text-xs text-gray-400">
-                        <span>Gaze Y</span>
-                        <span>{trackingData.eyes.left.gazeY.toFixed(2)}</span>
-                      </div>
-                      <Progress value={Math.abs(trackingData.eyes.left.gazeY) * 50} className="h-1.5" />
-                    </div>
-                    <div className="flex gap-1">
-                      <Badge variant={trackingData.eyes.left.blinking ? "destructive" : "default"} className="text-xs">
-                        {trackingData.eyes.left.blinking ? 'Blink' : 'Open'}
-                      </Badge>
-                      <Badge variant={trackingData.eyes.left.winking ? "secondary" : "outline"} className="text-xs">
-                        {trackingData.eyes.left.winking ? 'Wink' : 'Normal'}
-                      </Badge>
-                      <Badge variant={trackingData.eyes.left.squinting ? "secondary" : "outline"} className="text-xs">
-                        {trackingData.eyes.left.squinting ? 'Squint' : 'Normal'}
-                      </Badge>
-                    </div>
-                  </div>
-                  <div className="space-y-2">
-                    <div className="text-sm text-gray-300 font-medium">Right Eye</div>
-                    <div>
-                      <div className="flex justify-between text-xs text-gray-400">
-                        <span>Openness</span>
-                        <span>{Math.round(trackingData.eyes.right.openness * 100)}%</span>
-                      </div>
-                      <Progress value={trackingData.eyes.right.openness * 100} className="h-1.5" />
-                    </div>
-                    <div>
-                      <div className="flex justify-between text-xs text-gray-400">
-                        <span>Gaze X</span>
-                        <span>{trackingData.eyes.right.gazeX.toFixed(2)}</span>
-                      </div>
-                      <Progress value={Math.abs(trackingData.eyes.right.gazeX) * 50} className="h-1.5" />
-                    </div>
-                    <div>
-                      <div className="flex justify-between text-xs text-gray-400">
-                        <span>Gaze Y</span>
-                        <span>{trackingData.eyes.right.gazeY.toFixed(2)}</span>
-                      </div>
-                      <Progress value={Math.abs(trackingData.eyes.right.gazeY) * 50} className="h-1.5" />
-                    </div>
-                    <div className="flex gap-1">
-                      <Badge variant={trackingData.eyes.right.blinking ? "destructive" : "default"} className="text-xs">
-                        {trackingData.eyes.right.blinking ? 'Blink' : 'Open'}
-                      </Badge>
-                      <Badge variant={trackingData.eyes.right.winking ? "secondary" : "outline"} className="text-xs">
-                        {trackingData.eyes.right.winking ? 'Wink' : 'Normal'}
-                      </Badge>
-                      <Badge variant={trackingData.eyes.right.squinting ? "secondary" : "outline"} className="text-xs">
-                        {trackingData.eyes.right.squinting ? 'Squint' : 'Normal'}
-                      </Badge>
-                    </div>
-                  </div>
-                </div>
-                
-                {/* Eye Micro-Expressions */}
-                <div className="pt-3 border-t border-gray-600">
-                  <div className="text-sm text-gray-300 font-medium mb-2">Eye Micro-Expressions</div>
-                  <div className="flex flex-wrap gap-2">
-                    <Badge variant={trackingData.eyes.microExpressions.leftWink ? "default" : "outline"} className="text-xs">
-                      Left Wink
-                    </Badge>
-                    <Badge variant={trackingData.eyes.microExpressions.rightWink ? "default" : "outline"} className="text-xs">
-                      Right Wink
-                    </Badge>
-                    <Badge variant={trackingData.eyes.microExpressions.doubleWink ? "secondary" : "outline"} className="text-xs">
-                      Double Wink
-                    </Badge>
-                    <Badge variant={trackingData.eyes.microExpressions.squint ? "secondary" : "outline"} className="text-xs">
-                      Squint
-                    </Badge>
-                    <Badge variant={trackingData.eyes.microExpressions.eyeRoll ? "destructive" : "outline"} className="text-xs">
-                      Eye Roll
-                    </Badge>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Facial Micro-Expressions */}
-            <Card className="glass-card shadow-glow-sm">
-              <CardHeader>
-                <CardTitle className="text-white">Facial Micro-Expressions</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="grid grid-cols-2 gap-3">
-                  <div>
-                    <div className="flex justify-between text-xs text-gray-400">
-                      <span>Cheek Raise</span>
-                      <span>{Math.round(trackingData.face.expressions.microExpressions.cheekRaise * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.face.expressions.microExpressions.cheekRaise * 100} className="h-1.5" />
-                  </div>
-                  <div>
-                    <div className="flex justify-between text-xs text-gray-400">
-                      <span>Lip Purse</span>
-                      <span>{Math.round(trackingData.face.expressions.microExpressions.lipPurse * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.face.expressions.microExpressions.lipPurse * 100} className="h-1.5" />
-                  </div>
-                  <div>
-                    <div className="flex justify-between text-xs text-gray-400">
-                      <span>Nose Wrinkle</span>
-                      <span>{Math.round(trackingData.face.expressions.microExpressions.noseWrinkle * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.face.expressions.microExpressions.noseWrinkle * 100} className="h-1.5" />
-                  </div>
-                  <div>
-                    <div className="flex justify-between text-xs text-gray-400">
-                      <span>Dimpler</span>
-                      <span>{Math.round(trackingData.face.expressions.microExpressions.dimpler * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.face.expressions.microExpressions.dimpler * 100} className="h-1.5" />
-                  </div>
-                  <div>
-                    <div className="flex justify-between text-xs text-gray-400">
-                      <span>Lip Depressor</span>
-                      <span>{Math.round(trackingData.face.expressions.microExpressions.lipCornerDepressor * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.face.expressions.microExpressions.lipCornerDepressor * 100} className="h-1.5" />
-                  </div>
-                  <div>
-                    <div className="flex justify-between text-xs text-gray-400">
-                      <span>Chin Raise</span>
-                      <span>{Math.round(trackingData.face.expressions.microExpressions.chinRaise * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.face.expressions.microExpressions.chinRaise * 100} className="h-1.5" />
-                  </div>
-                  <div>
-                    <div className="flex justify-between text-xs text-gray-400">
-                      <span>Nostril Flare</span>
-                      <span>{Math.round(trackingData.face.expressions.microExpressions.nostrilFlare * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.face.expressions.microExpressions.nostrilFlare * 100} className="h-1.5" />
-                  </div>
-                  <div>
-                    <div className="flex justify-between text-xs text-gray-400">
-                      <span>Lip Suck</span>
-                      <span>{Math.round(trackingData.face.expressions.microExpressions.lipSuck * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.face.expressions.microExpressions.lipSuck * 100} className="h-1.5" />
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Hand Tracking */}
-            <Card className="glass-card shadow-glow-sm">
-              <CardHeader>
-                <CardTitle className="text-white">Hand Tracking (21 Points Each)</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <div className="text-sm text-gray-300">Left Hand</div>
-                    <Badge variant={trackingData.hands.left.detected ? "default" : "secondary"}>
-                      {trackingData.hands.left.gesture}
-                    </Badge>
-                  </div>
-                  <div>
-                    <div className="text-sm text-gray-300">Right Hand</div>
-                    <Badge variant={trackingData.hands.right.detected ? "default" : "secondary"}>
-                      {trackingData.hands.right.gesture}
-                    </Badge>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Enhanced Mouth & Speech Tracking */}
-            <Card className="glass-card shadow-glow-sm">
-              <CardHeader>
-                <CardTitle className="text-white">Mouth & Speech Analysis</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="grid grid-cols-2 gap-3">
-                  <div>
-                    <div className="flex justify-between text-sm text-gray-300">
-                      <span>Mouth Openness</span>
-                      <span>{Math.round(trackingData.mouth.openness * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.mouth.openness * 100} className="h-2" />
-                  </div>
-                  <div>
-                    <div className="flex justify-between text-sm text-gray-300">
-                      <span>Lip Sync Intensity</span>
-                      <span>{Math.round(trackingData.mouth.lipSync * 100)}%</span>
-                    </div>
-                    <Progress value={trackingData.mouth.lipSync * 100} className="h-2" />
-                  </div>
-                </div>
-                <div className="flex gap-3">
-                  <Badge variant={trackingData.mouth.speaking ? "default" : "secondary"} className="text-xs">
-                    {trackingData.mouth.speaking ? 'Speaking' : 'Silent'}
-                  </Badge>
-                  <Badge variant="outline" className="text-xs">
-                    Shape: {trackingData.mouth.shape}
-                  </Badge>
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Body Tracking */}
-            <Card className="glass-card shadow-glow-sm">
-              <CardHeader>
-                <CardTitle className="text-white flex items-center justify-between">
-                  Body Pose (33 Landmarks)
-                  <Badge variant={trackingData.body.pose.detected ? "default" : "secondary"}>
-                    {trackingData.body.pose.landmarks} points
-                  </Badge>
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div>
-                  <div className="flex justify-between text-sm text-gray-300">
-                    <span>Pose Confidence</span>
-                    <span>{Math.round(trackingData.body.pose.confidence * 100)}%</span>
-                  </div>
-                  <Progress value={trackingData.body.pose.confidence * 100} className="h-2" />
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-        </div>
-
-        {/* System Log */}
-        <Card className="glass-card shadow-glow-md">
-          <CardHeader>
-            <CardTitle className="text-white">MediaPipe System Log</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="bg-black/50 rounded-lg p-4 h-32 overflow-y-auto">
-              {logs.map((log, index) => (
-                <div key={index} className="text-green-400 text-sm font-mono">
-                  {log}
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      </div>
-    </div>
-  );
-}
\ No newline at end of file
@@ -5,8 +5,8 @@
  */
 
 import * as THREE from 'three';
-import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
-import { DRACOLoader } from 'three/addons/loaders/DRACOLoader.js';
+import type { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import { createGLTFLoader } from '@/lib/gltf-decoders';
 
 export interface AvatarAnalysis {
   boundingBox: {
@@ -42,20 +42,12 @@ export class GrokAvatarAnalyzer {
   private loader: GLTFLoader;
 
   constructor() {
-    this.loader = new GLTFLoader();
+    // Draco and meshopt decoders for compressed models
+    this.loader = createGLTFLoader();
     
     // Configure loader for better GLB support
     this.loader.setPath('');
     
-    // Set up DRACO loader for compressed models
-    try {
-      const dracoLoader = new DRACOLoader();
-      dracoLoader.setDecoderPath('/draco/');
-      this.loader.setDRACOLoader(dracoLoader);
-    } catch (error) {
-      console.log('DRACO loader not available, using standard GLTF loader');
-    }
-    
     // Configure for better error handling
     this.loader.setRequestHeader({});
     this.loader.setCrossOrigin('anonymous');
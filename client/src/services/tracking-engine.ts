@@ -0,0 +1,335 @@
+/**
+ * Tracking Engine
+ * The one place the app turns a camera into avatar motion. It owns camera
+ * capture, runs MediaPipe's face, pose and hand solvers in a worker (see
+ * workers/tracking-worker.ts) and hands every subscriber the same stream of
+ * TrackingFrames. Studio, preview and rig test all subscribe here instead
+ * of running trackers of their own.
+ *
+ * Which solvers run is the union of what subscribers ask for, limited to
+ * the features of the user's plan (RiggingConfiguration.enabledFeatures).
+ * The plan's animationSmoothness and animationResponsiveness set the jitter
+ * filter (see lib/tracking-filter.ts), and the user's saved calibration
+ * fits frames to their face and body (see lib/tracking-calibration.ts).
+ * Capture starts with the first subscriber and stops with the last.
+ */
+
+import type { TrackingCalibration } from '@shared/tracking-calibration';
+import { avatarRiggingService, type RiggingConfiguration } from './avatar-rigging-service';
+import { reportTrackingAssetProgress } from '@/lib/tracking-assets';
+import { trackingFilterParams, type TrackingFilterParams } from '@/lib/tracking-filter';
+import type { TrackingFeatures, TrackingFrame } from '@/lib/tracking-solver';
+import type { TrackingDebugFrame, TrackingWorkerRequest, TrackingWorkerResponse } from '@/workers/tracking-worker';
+
+export type { TrackingConfidence, TrackingFeatures, TrackingFrame } from '@/lib/tracking-solver';
+export type { TrackingDebugFrame } from '@/workers/tracking-worker';
+
+// `debug` (the unfiltered frame and its landmarks) only goes to debug subscribers
+export type TrackingListener = (frame: TrackingFrame, debug?: TrackingDebugFrame) => void;
+
+export interface TrackingSubscription {
+  // Features this subscriber needs; anything left out counts as not needed
+  features?: Partial<TrackingFeatures>;
+  // Camera stream the page already holds; the engine opens its own otherwise
+  stream?: MediaStream | null;
+  // Also receive the unfiltered frame and landmarks, for the debug page
+  debug?: boolean;
+}
+
+export type TrackingStatus = 'idle' | 'starting' | 'loading' | 'tracking' | 'error';
+
+const NO_FEATURES: TrackingFeatures = {
+  faceTracking: false,
+  bodyTracking: false,
+  handTracking: false,
+  fingerTracking: false,
+  eyeTracking: false,
+  expressionTracking: false
+};
+
+// Used until the user's plan has loaded
+const DEFAULT_FRAME_RATE = 30;
+
+export class TrackingEngine {
+  private subscribers = new Map<TrackingListener, TrackingSubscription>();
+  private statusListeners = new Set<(status: TrackingStatus) => void>();
+  private status: TrackingStatus = 'idle';
+  private features: TrackingFeatures = NO_FEATURES;
+  private workerConfig = '';
+  private calibration: TrackingCalibration | null = null;
+  private worker: Worker | null = null;
+  private video: HTMLVideoElement | null = null;
+  private stream: MediaStream | null = null;
+  private ownsStream = false;
+  private starting: Promise<void> | null = null;
+  private session = 0;
+  private frameInFlight = false;
+  private lastSentAt = 0;
+  private loopHandle: number | null = null;
+  private latestFrame: TrackingFrame | null = null;
+
+  constructor() {
+    avatarRiggingService.onConfigurationChange(() => this.update());
+  }
+
+  /**
+   * Receive every TrackingFrame from now on. Returns the unsubscribe function.
+   */
+  subscribe(listener: TrackingListener, options: TrackingSubscription = {}): () => void {
+    this.subscribers.set(listener, options);
+    this.update();
+    return () => {
+      this.subscribers.delete(listener);
+      this.update();
+    };
+  }
+
+  /**
+   * Change what an existing subscriber asks for
+   */
+  updateSubscription(listener: TrackingListener, options: TrackingSubscription): void {
+    if (!this.subscribers.has(listener)) return;
+    this.subscribers.set(listener, options);
+    this.update();
+  }
+
+  onStatusChange(listener: (status: TrackingStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  getStatus(): TrackingStatus {
+    return this.status;
+  }
+
+  getFeatures(): TrackingFeatures {
+    return this.features;
+  }
+
+  getLatestFrame(): TrackingFrame | null {
+    return this.latestFrame;
+  }
+
+  getFilterParams(): TrackingFilterParams {
+    const config = avatarRiggingService.getCurrentConfig();
+    return trackingFilterParams(config?.animationSmoothness, config?.animationResponsiveness);
+  }
+
+  getCalibration(): TrackingCalibration | null {
+    return this.calibration;
+  }
+
+  /**
+   * Normalize every frame from now on by the user's calibration, or stop
+   * with null (see lib/tracking-calibration.ts)
+   */
+  setCalibration(calibration: TrackingCalibration | null): void {
+    this.calibration = calibration;
+    this.update();
+  }
+
+  // Features to run: requested by someone and included in the plan
+  private resolveFeatures(config: RiggingConfiguration | null): TrackingFeatures {
+    const allowed = config?.enabledFeatures ?? NO_FEATURES;
+    const features = { ...NO_FEATURES };
+    for (const key of Object.keys(features) as Array<keyof TrackingFeatures>) {
+      features[key] = allowed[key] && Array.from(this.subscribers.values()).some(({ features }) => features?.[key]);
+    }
+    // Fingers, eyes and expressions refine the hand and face solvers
+    features.fingerTracking &&= features.handTracking;
+    features.eyeTracking &&= features.faceTracking;
+    features.expressionTracking &&= features.faceTracking;
+    return features;
+  }
+
+  private configureMessage(): TrackingWorkerRequest {
+    return {
+      type: 'configure',
+      features: this.features,
+      filter: this.getFilterParams(),
+      calibration: this.calibration,
+      debug: Array.from(this.subscribers.values()).some(({ debug }) => debug)
+    };
+  }
+
+  private update(): void {
+    const features = this.resolveFeatures(avatarRiggingService.getCurrentConfig());
+    const anyEnabled = features.faceTracking || features.bodyTracking || features.handTracking;
+    this.features = features;
+    const workerConfig = JSON.stringify(this.configureMessage());
+    const changed = workerConfig !== this.workerConfig;
+    this.workerConfig = workerConfig;
+
+    if (!anyEnabled) {
+      this.stop();
+      return;
+    }
+
+    // The newest stream a subscriber passed in wins over opening our own
+    const provided = Array.from(this.subscribers.values()).reverse().find(({ stream }) => stream)?.stream ?? null;
+    if (provided && provided !== this.stream) {
+      this.attachStream(provided, false);
+    } else if (!provided && this.stream && !this.ownsStream) {
+      // Whoever lent us their stream is gone; restart on a camera of our own
+      this.stop();
+    }
+
+    if (!this.worker || !this.video) {
+      this.start();
+    } else if (changed) {
+      this.postToWorker(this.configureMessage());
+      this.setStatus('loading');
+    }
+  }
+
+  private start(): void {
+    if (this.starting) return;
+    const session = this.session;
+    this.setStatus('starting');
+
+    this.starting = (async () => {
+      if (!this.stream) {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { width: 640, height: 480, facingMode: 'user' },
+          audio: false
+        });
+        // Everyone may have unsubscribed while the camera was opening
+        if (session !== this.session) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        // A subscriber may have lent us its stream in the meantime
+        if (this.stream) stream.getTracks().forEach(track => track.stop());
+        else this.attachStream(stream, true);
+      }
+
+      this.worker = new Worker(new URL('../workers/tracking-worker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<TrackingWorkerResponse>) => this.handleWorkerMessage(event.data));
+      this.worker.addEventListener('error', (event) => {
+        console.error('❌ Tracking worker crashed:', event.message);
+        this.setStatus('error');
+      });
+
+      this.postToWorker(this.configureMessage());
+      this.setStatus('loading');
+      this.scheduleNextFrame();
+      console.log('🎥 Tracking engine started:', this.features);
+    })()
+      .catch((error) => {
+        console.error('❌ Tracking engine failed to start:', error);
+        if (session === this.session) this.setStatus('error');
+      })
+      .finally(() => {
+        if (session === this.session) this.starting = null;
+      });
+  }
+
+  private stop(): void {
+    // Anything still starting belongs to the old session and cleans up after itself
+    this.session++;
+    this.starting = null;
+
+    if (this.loopHandle !== null) {
+      cancelAnimationFrame(this.loopHandle);
+      this.loopHandle = null;
+    }
+    this.worker?.terminate();
+    this.worker = null;
+    this.frameInFlight = false;
+
+    if (this.ownsStream) this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.ownsStream = false;
+    if (this.video) this.video.srcObject = null;
+    this.video = null;
+    this.latestFrame = null;
+
+    if (this.status !== 'idle') console.log('🛑 Tracking engine stopped');
+    this.setStatus('idle');
+  }
+
+  private attachStream(stream: MediaStream, owned: boolean): void {
+    if (this.ownsStream) this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = stream;
+    this.ownsStream = owned;
+
+    // Off-screen element the frames are grabbed from
+    this.video ??= Object.assign(document.createElement('video'), { muted: true, playsInline: true });
+    this.video.srcObject = stream;
+    this.video.play().catch((error) => console.warn('⚠️ Tracking video did not start:', error));
+  }
+
+  private scheduleNextFrame(): void {
+    this.loopHandle = requestAnimationFrame(() => this.captureFrame());
+  }
+
+  private captureFrame(): void {
+    const video = this.video;
+    if (!video || !this.worker) return;
+    this.scheduleNextFrame();
+
+    const maxFrameRate = avatarRiggingService.getCurrentConfig()?.maxFrameRate || DEFAULT_FRAME_RATE;
+    const now = performance.now();
+    if (this.frameInFlight || now - this.lastSentAt < 1000 / maxFrameRate) return;
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) return;
+
+    // One frame at a time: a slow device drops frames instead of queueing them
+    this.frameInFlight = true;
+    this.lastSentAt = now;
+    createImageBitmap(video)
+      .then((bitmap) => {
+        if (!this.worker) {
+          bitmap.close();
+          return;
+        }
+        this.worker.postMessage({ type: 'frame', bitmap, timestamp: now } satisfies TrackingWorkerRequest, [bitmap]);
+      })
+      .catch(() => {
+        this.frameInFlight = false;
+      });
+  }
+
+  private handleWorkerMessage(message: TrackingWorkerResponse): void {
+    switch (message.type) {
+      case 'ready':
+        this.setStatus('tracking');
+        break;
+      case 'progress':
+        // Model downloads show up with the page's own in onTrackingAssetProgress
+        reportTrackingAssetProgress(message.asset, message.loaded, message.total);
+        break;
+      case 'frame':
+        this.frameInFlight = false;
+        this.setStatus('tracking');
+        this.latestFrame = message.frame;
+        this.subscribers.forEach(({ debug }, listener) => {
+          try {
+            listener(message.frame, debug ? message.debug : undefined);
+          } catch (error) {
+            console.error('❌ Tracking subscriber failed:', error);
+          }
+        });
+        break;
+      case 'skipped':
+        this.frameInFlight = false;
+        break;
+      case 'error':
+        this.frameInFlight = false;
+        this.setStatus('error');
+        break;
+    }
+  }
+
+  private postToWorker(message: TrackingWorkerRequest): void {
+    this.worker?.postMessage(message);
+  }
+
+  private setStatus(status: TrackingStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+export const trackingEngine = new TrackingEngine();
@@ -0,0 +1,186 @@
+/**
+ * Tracking worker (see services/tracking-engine.ts)
+ * Runs MediaPipe's face, pose and hand landmarkers off the main thread and
+ * solves every video frame it is sent into one TrackingFrame. Landmarkers
+ * are created the first time their feature is enabled and kept until the
+ * worker is terminated. The WASM and models come from our own server (see
+ * lib/tracking-assets.ts), and download progress is posted back as it goes.
+ * Landmarks are filtered before solving and rotations after (see
+ * lib/tracking-filter.ts), with the user's calibration applied in between
+ * (see lib/tracking-calibration.ts); in debug mode the unfiltered,
+ * uncalibrated frame and the landmarks it was solved from are sent too.
+ */
+
+import { FaceLandmarker, HandLandmarker, PoseLandmarker } from '@mediapipe/tasks-vision';
+import type { TrackingAssetName } from '@shared/tracking-assets';
+import type { TrackingCalibration } from '@shared/tracking-calibration';
+import { downloadTrackingAsset, loadTrackingFileset, type TrackingFileset } from '@/lib/tracking-assets';
+import { applyTrackingCalibration } from '@/lib/tracking-calibration';
+import { TrackingFilter, type TrackingFilterParams } from '@/lib/tracking-filter';
+import { solveTrackingFrame, type SolverInput, type TrackingFeatures, type TrackingFrame } from '@/lib/tracking-solver';
+
+export type TrackingWorkerRequest =
+  | { type: 'configure'; features: TrackingFeatures; filter: TrackingFilterParams; calibration: TrackingCalibration | null; debug: boolean }
+  | { type: 'frame'; bitmap: ImageBitmap; timestamp: number };
+
+// Sent with every frame in debug mode
+export interface TrackingDebugFrame {
+  raw: TrackingFrame;
+  input: SolverInput;
+}
+
+export type TrackingWorkerResponse =
+  | { type: 'ready'; features: TrackingFeatures }
+  | { type: 'progress'; asset: TrackingAssetName; loaded: number; total: number }
+  | { type: 'frame'; frame: TrackingFrame; debug?: TrackingDebugFrame }
+  | { type: 'skipped' }
+  | { type: 'error'; message: string };
+
+const scope = self as unknown as {
+  postMessage(message: TrackingWorkerResponse): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<TrackingWorkerRequest>) => void): void;
+};
+
+let fileset: Promise<TrackingFileset> | null = null;
+let face: FaceLandmarker | null = null;
+let pose: PoseLandmarker | null = null;
+let hand: HandLandmarker | null = null;
+let features: TrackingFeatures | null = null;
+let filter: TrackingFilter | null = null;
+let filterKey = '';
+let calibration: TrackingCalibration | null = null;
+let debug = false;
+let configuring: Promise<void> = Promise.resolve();
+let lastTimestamp = -1;
+
+// Prefer the GPU; browsers without WebGL in workers fall back to the CPU
+async function createLandmarker<T>(create: (delegate: 'GPU' | 'CPU') => Promise<T>): Promise<T> {
+  try {
+    return await create('GPU');
+  } catch (error) {
+    console.warn('⚠️ GPU delegate unavailable for tracking, using CPU:', error);
+    return create('CPU');
+  }
+}
+
+function reportProgress(asset: TrackingAssetName, loaded: number, total: number): void {
+  scope.postMessage({ type: 'progress', asset, loaded, total });
+}
+
+function loadModel(asset: TrackingAssetName): Promise<Uint8Array> {
+  return downloadTrackingAsset(asset, (loaded, total) => reportProgress(asset, loaded, total));
+}
+
+async function configure(message: Extract<TrackingWorkerRequest, { type: 'configure' }>): Promise<void> {
+  const next = message.features;
+  features = next;
+  debug = message.debug;
+  calibration = message.calibration;
+  // New parameters start the filters over; anything else keeps their state
+  if (JSON.stringify(message.filter) !== filterKey) {
+    filterKey = JSON.stringify(message.filter);
+    if (filter) filter.setParams(message.filter);
+    else filter = new TrackingFilter(message.filter);
+  }
+  fileset ??= loadTrackingFileset(reportProgress).catch((error) => {
+    fileset = null;
+    throw error;
+  });
+  const wasm = await fileset;
+
+  if (next.faceTracking && !face) {
+    const model = await loadModel('faceModel');
+    face = await createLandmarker(delegate => FaceLandmarker.createFromOptions(wasm, {
+      baseOptions: { modelAssetBuffer: model, delegate },
+      runningMode: 'VIDEO',
+      numFaces: 1,
+      outputFaceBlendshapes: true,
+      outputFacialTransformationMatrixes: true
+    }));
+    console.log('🎯 Face landmarker ready');
+  }
+  if (next.bodyTracking && !pose) {
+    const model = await loadModel('poseModel');
+    pose = await createLandmarker(delegate => PoseLandmarker.createFromOptions(wasm, {
+      baseOptions: { modelAssetBuffer: model, delegate },
+      runningMode: 'VIDEO',
+      numPoses: 1
+    }));
+    console.log('🎯 Pose landmarker ready');
+  }
+  if (next.handTracking && !hand) {
+    const model = await loadModel('handModel');
+    hand = await createLandmarker(delegate => HandLandmarker.createFromOptions(wasm, {
+      baseOptions: { modelAssetBuffer: model, delegate },
+      runningMode: 'VIDEO',
+      numHands: 2
+    }));
+    console.log('🎯 Hand landmarker ready');
+  }
+
+  scope.postMessage({ type: 'ready', features: next });
+}
+
+function track(bitmap: ImageBitmap, timestamp: number): { frame: TrackingFrame; debug?: TrackingDebugFrame } | null {
+  // Landmarkers in VIDEO mode reject timestamps that don't increase
+  if (!features || !filter || timestamp <= lastTimestamp) return null;
+  lastTimestamp = timestamp;
+
+  const input: SolverInput = { timestamp, face: null, pose: null, hands: [] };
+
+  if (features.faceTracking && face) {
+    const result = face.detectForVideo(bitmap, timestamp);
+    if (result.faceLandmarks.length > 0) {
+      input.face = {
+        matrix: result.facialTransformationMatrixes?.[0]?.data ?? null,
+        blendshapes: result.faceBlendshapes?.[0]?.categories ?? []
+      };
+    }
+  }
+
+  if (features.bodyTracking && pose) {
+    const result = pose.detectForVideo(bitmap, timestamp);
+    if (result.worldLandmarks.length > 0) input.pose = { worldLandmarks: result.worldLandmarks[0] };
+  }
+
+  if (features.handTracking && hand) {
+    const result = hand.detectForVideo(bitmap, timestamp);
+    input.hands = result.worldLandmarks.map((worldLandmarks, index) => {
+      const category = result.handedness[index][0];
+      return { handedness: category.categoryName as 'Left' | 'Right', score: category.score, worldLandmarks };
+    });
+  }
+
+  const solved = solveTrackingFrame(filter.filterInput(input), features);
+  const frame = filter.filterFrame(calibration ? applyTrackingCalibration(solved, calibration) : solved);
+  return debug ? { frame, debug: { raw: solveTrackingFrame(input, features), input } } : { frame };
+}
+
+scope.addEventListener('message', (event) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'configure':
+      configuring = configuring
+        .then(() => configure(message))
+        .catch((error) => {
+          console.error('❌ Tracking worker failed to load landmarkers:', error);
+          scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+        });
+      break;
+
+    case 'frame':
+      configuring.then(() => {
+        try {
+          const result = track(message.bitmap, message.timestamp);
+          scope.postMessage(result ? { type: 'frame', ...result } : { type: 'skipped' });
+        } catch (error) {
+          console.error('❌ Tracking worker frame error:', error);
+          scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+        } finally {
+          message.bitmap.close();
+        }
+      });
+      break;
+  }
+});
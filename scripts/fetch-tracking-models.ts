@@ -0,0 +1,93 @@
+/**
+ * Downloads the MediaPipe landmarker models the server hosts for tracking
+ * (see server/services/tracking-assets.ts).
+ *
+ *   npm run tracking:models                  download any model that is missing
+ *   npm run tracking:models -- --force       download every model again
+ *   npm run tracking:models -- --from <dir>  copy the .task files from <dir>,
+ *                                            for machines without internet access
+ *
+ * `npm run build` runs this first; set TRACKING_MODELS_FROM=<dir> to have it
+ * copy instead of download.
+ *
+ * Files go to TRACKING_MODELS_DIR/<version> (default ./tracking-models). Each
+ * download is written next to its target and renamed once complete, so an
+ * interrupted run never leaves a truncated model behind. Every model is
+ * checked against its hash pinned in shared/tracking-assets.ts and a
+ * mismatch fails the run; a model with no pinned hash yet has its SHA-384
+ * printed, to be pinned once the file has been verified.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream } from 'stream/web';
+import { TRACKING_ASSET_SOURCES, TRACKING_ASSET_VERSION, type TrackingAssetName } from '../shared/tracking-assets';
+import { hashTrackingAsset, trackingAssetPath, trackingModelsDir } from '../server/services/tracking-assets';
+
+const force = process.argv.includes('--force');
+const fromIndex = process.argv.indexOf('--from');
+const fromDir = fromIndex >= 0 ? process.argv[fromIndex + 1] : process.env.TRACKING_MODELS_FROM || null;
+
+async function fetchModel(name: TrackingAssetName): Promise<void> {
+  const target = trackingAssetPath(name);
+  const fileName = path.basename(target);
+  const pinned = TRACKING_ASSET_SOURCES[name].integrity;
+
+  if (fs.existsSync(target) && !force && (!pinned || await hashTrackingAsset(target) === pinned)) {
+    console.log(`✓ ${fileName} already present`);
+  } else {
+    const partial = `${target}.partial`;
+    if (fromDir) {
+      await fs.promises.copyFile(path.join(fromDir, fileName), partial);
+    } else {
+      const url = TRACKING_ASSET_SOURCES[name].origin;
+      console.log(`⬇️  ${url}`);
+      const response = await fetch(url);
+      if (!response.ok || !response.body) {
+        throw new Error(`Download of ${fileName} failed: ${response.status} ${response.statusText}`);
+      }
+      await pipeline(Readable.fromWeb(response.body as ReadableStream<Uint8Array>), fs.createWriteStream(partial));
+    }
+    const integrity = await hashTrackingAsset(partial);
+    if (pinned && integrity !== pinned) {
+      await fs.promises.rm(partial, { force: true });
+      throw new Error(`${fileName} doesn't match its pinned hash: got ${integrity}, expected ${pinned}`);
+    }
+    await fs.promises.rename(partial, target);
+  }
+
+  const { size } = await fs.promises.stat(target);
+  const integrity = await hashTrackingAsset(target);
+  console.log(`  ${fileName}  ${(size / 1024 / 1024).toFixed(1)} MB  ${integrity}${pinned ? '' : '  (not pinned)'}`);
+}
+
+async function main() {
+  const dir = trackingModelsDir();
+  await fs.promises.mkdir(dir, { recursive: true });
+  console.log(`Tracking models ${TRACKING_ASSET_VERSION} -> ${dir}`);
+
+  const models = (Object.keys(TRACKING_ASSET_SOURCES) as TrackingAssetName[])
+    .filter(name => TRACKING_ASSET_SOURCES[name].kind === 'model');
+
+  let failed = 0;
+  for (const name of models) {
+    try {
+      await fetchModel(name);
+    } catch (error) {
+      failed++;
+      console.error(`✗ ${name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`${failed} of ${models.length} models could not be fetched`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,209 @@
+/**
+ * Golden-file harness for the rigging engine.
+ *
+ *   npm run rig:golden              compare the rigger's output against scripts/golden/rigging
+ *   npm run rig:golden -- --update  rewrite the golden files from the current output
+ *
+ * Each fixture is a procedurally built humanoid GLB (adult T-pose, chibi
+ * A-pose, half-body bust), rigged by rigging-engine.ts on the goat plan.
+ * The golden file records a rounded summary of the output - joint names,
+ * parents and positions, per-joint weight totals, and per morph target the
+ * number of vertices it moves and its largest displacement - so a change to
+ * placement, weighting, blendshapes or export shows up as a readable diff.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Document, NodeIO } from '@gltf-transform/core';
+import { runRiggingEngine } from '../server/services/rigging-engine';
+
+type Vec3 = [number, number, number];
+
+const GOLDEN_DIR = path.join(process.cwd(), 'scripts', 'golden', 'rigging');
+const update = process.argv.includes('--update');
+
+class FixtureMesh {
+  readonly positions: number[] = [];
+  readonly indices: number[] = [];
+
+  // Open tube from a to b, 12 sides by 6 rings
+  tube(a: Vec3, b: Vec3, radius: number): this {
+    const axis = b.map((value, i) => value - a[i]) as Vec3;
+    const length = Math.hypot(...axis);
+    const dir = axis.map(value => value / length) as Vec3;
+    const helper: Vec3 = Math.abs(dir[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0];
+    const u = normalize(cross(dir, helper));
+    const v = cross(dir, u);
+    const base = this.positions.length / 3;
+
+    for (let ring = 0; ring <= 6; ring++) {
+      for (let side = 0; side < 12; side++) {
+        const angle = (side / 12) * Math.PI * 2;
+        for (let i = 0; i < 3; i++) {
+          this.positions.push(a[i] + axis[i] * ring / 6 + (u[i] * Math.cos(angle) + v[i] * Math.sin(angle)) * radius);
+        }
+      }
+    }
+    for (let ring = 0; ring < 6; ring++) {
+      for (let side = 0; side < 12; side++) {
+        const p = base + ring * 12 + side;
+        const q = base + ring * 12 + (side + 1) % 12;
+        this.indices.push(p, q, p + 12, q, q + 12, p + 12);
+      }
+    }
+    return this;
+  }
+
+  // UV sphere; heads get a denser grid so the facial blendshapes have vertices to move
+  sphere(center: Vec3, radius: number, rings = 10, segments = 16): this {
+    const base = this.positions.length / 3;
+    for (let lat = 0; lat <= rings; lat++) {
+      const theta = (lat / rings) * Math.PI;
+      for (let lon = 0; lon < segments; lon++) {
+        const phi = (lon / segments) * Math.PI * 2;
+        this.positions.push(
+          center[0] + radius * Math.sin(theta) * Math.cos(phi),
+          center[1] + radius * Math.cos(theta),
+          center[2] + radius * Math.sin(theta) * Math.sin(phi)
+        );
+      }
+    }
+    for (let lat = 0; lat < rings; lat++) {
+      for (let lon = 0; lon < segments; lon++) {
+        const p = base + lat * segments + lon;
+        const q = base + lat * segments + (lon + 1) % segments;
+        this.indices.push(p, p + segments, q, q, p + segments, q + segments);
+      }
+    }
+    return this;
+  }
+
+  async toGLB(name: string): Promise<Buffer> {
+    const document = new Document();
+    const buffer = document.createBuffer();
+    const primitive = document.createPrimitive()
+      .setAttribute('POSITION', document.createAccessor().setType('VEC3').setArray(new Float32Array(this.positions)).setBuffer(buffer))
+      .setIndices(document.createAccessor().setType('SCALAR').setArray(new Uint32Array(this.indices)).setBuffer(buffer));
+    const node = document.createNode(name).setMesh(document.createMesh(name).addPrimitive(primitive));
+    document.createScene().addChild(node);
+    return Buffer.from(await new NodeIO().writeBinary(document));
+  }
+}
+
+// Full-body figure; chibi gets a head about a third of its height
+function humanoid(chibi: boolean, tPose: boolean): FixtureMesh {
+  const mesh = new FixtureMesh();
+  const crotch = chibi ? 0.35 : 0.85;
+  const neck = chibi ? 0.75 : 1.45;
+  const headRadius = chibi ? 0.28 : 0.12;
+  const torso = chibi ? 0.16 : 0.17;
+
+  mesh.tube([0, crotch - 0.05, 0], [0, neck, 0], torso);
+  mesh.tube([0, neck, 0], [0, neck + 0.08, 0], torso * 0.35);
+  mesh.sphere([0, neck + 0.08 + headRadius * 0.9, 0], headRadius, 40, 64);
+  for (const side of [1, -1]) {
+    mesh.tube([side * 0.09, crotch, 0], [side * 0.09, 0, 0], chibi ? 0.06 : 0.07);
+    const shoulder: Vec3 = [side * torso, neck - 0.06, 0];
+    const reach = chibi ? 0.3 : 0.6;
+    const hand: Vec3 = tPose
+      ? [side * (torso + reach), neck - 0.06, 0]
+      : [side * (torso + reach * 0.7), neck - 0.06 - reach * 0.7, 0];
+    mesh.tube(shoulder, hand, chibi ? 0.045 : 0.05);
+  }
+  return mesh;
+}
+
+function bust(): FixtureMesh {
+  const mesh = new FixtureMesh()
+    .tube([0, 0, 0], [0, 0.5, 0], 0.2)
+    .tube([0, 0.5, 0], [0, 0.6, 0], 0.06)
+    .sphere([0, 0.72, 0], 0.13, 40, 64);
+  for (const side of [1, -1]) {
+    mesh.tube([side * 0.18, 0.45, 0], [side * 0.35, 0.02, 0], 0.05);
+  }
+  return mesh;
+}
+
+const FIXTURES: Record<string, () => FixtureMesh> = {
+  'adult-tpose': () => humanoid(false, true),
+  'chibi-apose': () => humanoid(true, false),
+  'bust': bust
+};
+
+async function summarize(fixture: string) {
+  const glb = await FIXTURES[fixture]().toGLB(fixture);
+  const result = await runRiggingEngine(glb, 'goat');
+  const rigged = await new NodeIO().readBinary(new Uint8Array(result.riggedBuffer));
+
+  const weightTotals = result.joints.map(() => 0);
+  const morphs = result.morphTargets.map(name => ({ name, movedVertices: 0, maxDelta: 0 }));
+  for (const primitive of rigged.getRoot().listMeshes().flatMap(mesh => mesh.listPrimitives())) {
+    const joints = primitive.getAttribute('JOINTS_0')!;
+    const weights = primitive.getAttribute('WEIGHTS_0')!;
+    for (let i = 0; i < joints.getCount(); i++) {
+      const jointIndices = joints.getElement(i, []);
+      const jointWeights = weights.getElement(i, []);
+      jointIndices.forEach((joint, slot) => weightTotals[joint] += jointWeights[slot]);
+    }
+
+    primitive.listTargets().forEach((target, index) => {
+      const deltas = target.getAttribute('POSITION')!;
+      for (let i = 0; i < deltas.getCount(); i++) {
+        const delta = Math.hypot(...deltas.getElement(i, []));
+        if (delta > 1e-6) morphs[index].movedVertices++;
+        morphs[index].maxDelta = Math.max(morphs[index].maxDelta, delta);
+      }
+    });
+  }
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    engine: result.engine,
+    vertices: result.statistics.vertices,
+    features: result.features,
+    joints: result.joints.map((joint, index) => ({
+      name: joint.name,
+      parent: joint.parent !== null ? result.joints[joint.parent].name : null,
+      position: joint.position.map(round),
+      weight: Math.round(weightTotals[index] * 10) / 10
+    })),
+    morphTargets: morphs.map(morph => ({ ...morph, maxDelta: round(morph.maxDelta) }))
+  };
+}
+
+async function main() {
+  fs.mkdirSync(GOLDEN_DIR, { recursive: true });
+  let failures = 0;
+
+  for (const fixture of Object.keys(FIXTURES)) {
+    const goldenPath = path.join(GOLDEN_DIR, `${fixture}.json`);
+    const actual = JSON.stringify(await summarize(fixture), null, 2) + '\n';
+
+    if (update || !fs.existsSync(goldenPath)) {
+      fs.writeFileSync(goldenPath, actual);
+      console.log(`📝 ${fixture}: golden written`);
+    } else if (fs.readFileSync(goldenPath, 'utf8') !== actual) {
+      failures++;
+      fs.writeFileSync(`${goldenPath}.actual`, actual);
+      console.log(`❌ ${fixture}: differs from golden (see ${path.relative(process.cwd(), goldenPath)}.actual)`);
+    } else {
+      console.log(`✅ ${fixture}: matches golden`);
+    }
+  }
+
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.hypot(...v);
+  return [v[0] / length, v[1] / length, v[2] / length];
+}
+
+main().catch(error => {
+  console.error('❌ Rigging golden run failed:', error);
+  process.exit(1);
+});
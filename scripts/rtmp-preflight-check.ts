@@ -0,0 +1,165 @@
+/**
+ * Checks that the RTMP preflight (server/services/rtmp-preflight.ts) tells
+ * each failure apart, against local stand-ins.
+ *
+ *   npm run rtmp:preflight
+ *
+ * A stand-in ingest (server/services/rtmp-stand-in.ts) covers the accepted
+ * key, a key refused with a status or a dropped connection, and an unknown
+ * app. A closed port, a server that answers the handshake with garbage and a
+ * reserved .invalid host cover the rest. A server that accepts the
+ * connection and then says nothing checks that the deadline holds.
+ */
+
+import net from 'net';
+import { runRtmpPreflight, type PreflightOptions, type PreflightStatus, type RtmpPreflightResult } from '../server/services/rtmp-preflight';
+import { HANDSHAKE_SIZE } from '../server/services/rtmp-protocol';
+import { RtmpStandIn } from '../server/services/rtmp-stand-in';
+
+interface PreflightCase {
+  description: string;
+  url: string;
+  key: string;
+  options?: PreflightOptions;
+  status: PreflightStatus;
+  check?: (result: RtmpPreflightResult, elapsedMs: number) => string | null;
+}
+
+const STREAM_KEY = 'test-key';
+const OPTIONS: PreflightOptions = { timeoutMs: 1000, measureBandwidth: false };
+
+function listen(server: net.Server): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve((server.address() as net.AddressInfo).port));
+  });
+}
+
+function close(server: net.Server): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+async function main() {
+  const servers: Array<() => Promise<void>> = [];
+
+  const standIn = new RtmpStandIn({ port: 0, app: 'live', streamKeys: [STREAM_KEY] });
+  const standInPort = await standIn.listen();
+  servers.push(() => standIn.close());
+
+  const closing = new RtmpStandIn({ port: 0, app: 'live', streamKeys: [STREAM_KEY], rejectBy: 'close' });
+  const closingPort = await closing.listen();
+  servers.push(() => closing.close());
+
+  // Answers C0+C1 with an RTMP version nobody speaks
+  const sockets = new Set<net.Socket>();
+  const garbage = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('error', () => {});
+    socket.once('data', () => socket.write(Buffer.alloc(1 + HANDSHAKE_SIZE * 2, 0x06)));
+  });
+  const garbagePort = await listen(garbage);
+
+  // Takes the connection and never answers
+  const silent = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('error', () => {});
+  });
+  const silentPort = await listen(silent);
+  servers.push(async () => {
+    sockets.forEach(socket => socket.destroy());
+    await Promise.all([close(garbage), close(silent)]);
+  });
+
+  // Nothing listens on a port that was just released
+  const released = net.createServer();
+  const closedPort = await listen(released);
+  await close(released);
+
+  const cases: PreflightCase[] = [
+    {
+      description: 'accepted key',
+      url: `rtmp://127.0.0.1:${standInPort}/live`,
+      key: STREAM_KEY,
+      status: 'ok'
+    },
+    {
+      description: 'accepted key with upload measurement',
+      url: `rtmp://127.0.0.1:${standInPort}/live`,
+      key: STREAM_KEY,
+      options: { ...OPTIONS, measureBandwidth: true, bandwidthDurationMs: 500 },
+      status: 'ok',
+      check: result => result.bandwidth && result.bandwidth.uploadKbps > 0 ? null : 'no upload bandwidth measured'
+    },
+    {
+      description: 'wrong key, refused with a status',
+      url: `rtmp://127.0.0.1:${standInPort}/live`,
+      key: 'wrong-key',
+      status: 'auth_rejected',
+      check: result => result.serverCode === 'NetStream.Publish.BadName' ? null : `server code ${result.serverCode}`
+    },
+    {
+      description: 'wrong key, connection dropped',
+      url: `rtmp://127.0.0.1:${closingPort}/live`,
+      key: 'wrong-key',
+      status: 'auth_rejected'
+    },
+    {
+      description: 'unknown app',
+      url: `rtmp://127.0.0.1:${standInPort}/other`,
+      key: STREAM_KEY,
+      status: 'auth_rejected',
+      check: result => result.serverCode === 'NetConnection.Connect.Rejected' ? null : `server code ${result.serverCode}`
+    },
+    {
+      description: 'closed port',
+      url: `rtmp://127.0.0.1:${closedPort}/live`,
+      key: STREAM_KEY,
+      status: 'tcp_refused'
+    },
+    {
+      description: 'garbage handshake',
+      url: `rtmp://127.0.0.1:${garbagePort}/live`,
+      key: STREAM_KEY,
+      status: 'handshake_failed'
+    },
+    {
+      description: 'unresolvable host',
+      url: 'rtmp://ingest.vida3-preflight.invalid/live',
+      key: STREAM_KEY,
+      status: 'dns_failed'
+    },
+    {
+      description: 'silent server, 1.5s deadline on 2.5s steps',
+      url: `rtmp://127.0.0.1:${silentPort}/live`,
+      key: STREAM_KEY,
+      options: { ...OPTIONS, timeoutMs: 2500, deadlineMs: 1500 },
+      status: 'handshake_failed',
+      check: (_result, elapsedMs) => elapsedMs < 2000 ? null : `took ${elapsedMs}ms`
+    }
+  ];
+
+  let failures = 0;
+  for (const preflightCase of cases) {
+    const startedAt = Date.now();
+    const result = await runRtmpPreflight(preflightCase.url, preflightCase.key, preflightCase.options ?? OPTIONS);
+    const elapsedMs = Date.now() - startedAt;
+    const problem = result.status !== preflightCase.status
+      ? `expected ${preflightCase.status}, got ${result.status}: ${result.message}`
+      : preflightCase.check?.(result, elapsedMs) ?? null;
+
+    if (problem) {
+      failures++;
+      console.log(`❌ ${preflightCase.description}: ${problem}`);
+    } else {
+      console.log(`✅ ${preflightCase.description}: ${result.status} in ${elapsedMs}ms`);
+    }
+  }
+
+  await Promise.all(servers.map(stop => stop()));
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('❌ Preflight check crashed:', error);
+  process.exit(1);
+});
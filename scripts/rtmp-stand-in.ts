@@ -0,0 +1,37 @@
+/**
+ * Local RTMP ingest for testing stream preflight and the encoder path.
+ *
+ *   npm run rtmp:stand-in -- --port 1935 --app live --key test-key [--reject-by close]
+ *
+ * Add an RTMP source with URL rtmp://127.0.0.1:1935/live and stream key
+ * test-key to get an "ok" preflight; any other key is rejected, a different
+ * app is refused at connect and a stopped stand-in gives "tcp_refused".
+ */
+
+import { RtmpStandIn } from '../server/services/rtmp-stand-in';
+
+function arg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const keys = process.argv.flatMap((value, index) => process.argv[index - 1] === '--key' ? [value] : []);
+
+const standIn = new RtmpStandIn({
+  port: parseInt(arg('port') ?? '1935'),
+  host: arg('host') ?? '127.0.0.1',
+  app: arg('app') ?? 'live',
+  streamKeys: keys,
+  rejectBy: arg('reject-by') === 'close' ? 'close' : 'status',
+});
+
+standIn.on('publish', key => console.log(`✅ Publish accepted for key "${key}"`));
+standIn.on('rejected', key => console.log(`⛔ Publish rejected for key "${key}"`));
+standIn.on('unpublish', (key, bytes) => console.log(`⏹️ "${key}" unpublished after ${bytes} media bytes`));
+
+standIn.listen().catch(error => {
+  console.error('❌ Could not start RTMP stand-in:', error.message);
+  process.exit(1);
+});
+
+process.on('SIGINT', () => standIn.close().then(() => process.exit(0)));
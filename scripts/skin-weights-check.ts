@@ -0,0 +1,220 @@
+/**
+ * Property checks for the skin weight solver (server/services/skin-weights.ts).
+ *
+ *   npm run rig:weights
+ *
+ * Two primitive meshes are weighted with both methods, and with two
+ * influences per vertex instead of four: a cylinder arm along +X (shoulder,
+ * elbow, wrist, hand) and an upright capsule body with a six-joint spine
+ * chain, more joints than a vertex can keep. Every run checks that each
+ * vertex keeps at most its top influences, strongest first and renormalized
+ * to sum to 1; that the weight of the chain's first joint only falls, and
+ * its last joint's only rises, along the bones; and that weighting the same
+ * mesh twice gives identical output.
+ */
+
+import { Document } from '@gltf-transform/core';
+import { computeSkinWeights, type SkinWeightQuality } from '../server/services/skin-weights';
+import { MAX_INFLUENCES, type PrimitiveGeometry, type RigJoint, type SkinInfluences } from '../server/services/gltf-skinning';
+
+type Vec3 = [number, number, number];
+
+interface WeightCase {
+  description: string;
+  positions: number[];
+  indices: number[];
+  // Position along the bones of each vertex's ring, for the falloff check
+  ringOf: number[];
+  joints: RigJoint[];
+}
+
+const SIDES = 16;
+const SUM_TOLERANCE = 1e-5;
+const FALLOFF_TOLERANCE = 1e-4;
+// Leaf joints share the tip with their parent's bone, so they only reach about half
+const MIN_FALLOFF = 0.1;
+
+const QUALITIES: Record<string, SkinWeightQuality> = {
+  'bone-distance': { method: 'bone-distance', maxInfluences: 4, smoothingIterations: 5, diffusionIterations: 0, minWeight: 0.01 },
+  'heat-diffusion': { method: 'heat-diffusion', maxInfluences: 4, smoothingIterations: 8, diffusionIterations: 25, minWeight: 0.01 },
+  'two-influences': { method: 'bone-distance', maxInfluences: 2, smoothingIterations: 5, diffusionIterations: 0, minWeight: 0.01 }
+};
+
+// Closed loops of SIDES vertices stacked along `axis`, joined into a tube
+function ringMesh(rings: Array<{ along: number; radius: number }>, axis: 0 | 1) {
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const ringOf: number[] = [];
+
+  rings.forEach(({ along, radius }, ring) => {
+    for (let side = 0; side < SIDES; side++) {
+      const angle = (side / SIDES) * Math.PI * 2;
+      const a = Math.cos(angle) * radius, b = Math.sin(angle) * radius;
+      positions.push(...(axis === 0 ? [along, a, b] : [a, along, b]));
+      ringOf.push(along);
+    }
+    if (ring === 0) return;
+    for (let side = 0; side < SIDES; side++) {
+      const p = (ring - 1) * SIDES + side;
+      const q = (ring - 1) * SIDES + (side + 1) % SIDES;
+      indices.push(p, q, p + SIDES, q, q + SIDES, p + SIDES);
+    }
+  });
+
+  return { positions, indices, ringOf };
+}
+
+function chain(names: string[], positions: Vec3[]): RigJoint[] {
+  return names.map((name, i) => ({ name, parent: i === 0 ? null : i - 1, position: positions[i] }));
+}
+
+function cylinderArm(): WeightCase {
+  const rings = Array.from({ length: 41 }, (_, i) => ({ along: i * 0.025, radius: 0.06 }));
+  return {
+    description: 'cylinder arm, 1 m along +X',
+    ...ringMesh(rings, 0),
+    joints: chain(['upperArm', 'lowerArm', 'hand', 'handTip'], [[0, 0, 0], [0.45, 0, 0], [0.85, 0, 0], [1, 0, 0]])
+  };
+}
+
+function capsuleBody(): WeightCase {
+  const radius = 0.15, bottom = 0.15, top = 1.45;
+  const rings: Array<{ along: number; radius: number }> = [];
+  // Hemispherical caps around a straight section; the poles are tiny rings so every vertex sits on one
+  for (let i = 0; i <= 6; i++) {
+    const theta = (Math.PI / 2) * (1 - i / 6);
+    rings.push({ along: bottom - Math.sin(theta) * radius, radius: Math.max(Math.cos(theta) * radius, 1e-3) });
+  }
+  for (let i = 1; i < 26; i++) rings.push({ along: bottom + (top - bottom) * i / 26, radius });
+  for (let i = 0; i <= 6; i++) {
+    const theta = (Math.PI / 2) * (i / 6);
+    rings.push({ along: top + Math.sin(theta) * radius, radius: Math.max(Math.cos(theta) * radius, 1e-3) });
+  }
+
+  return {
+    description: 'capsule body, 1.6 m along +Y',
+    ...ringMesh(rings, 1),
+    joints: chain(
+      ['hips', 'spine', 'chest', 'upperChest', 'neck', 'head'],
+      [[0, 0.1, 0], [0, 0.4, 0], [0, 0.7, 0], [0, 1.0, 0], [0, 1.3, 0], [0, 1.55, 0]]
+    )
+  };
+}
+
+function toGeometry(weightCase: WeightCase): PrimitiveGeometry[] {
+  const document = new Document();
+  const primitive = document.createPrimitive();
+  const mesh = document.createMesh().addPrimitive(primitive);
+  return [{
+    node: document.createNode().setMesh(mesh),
+    mesh,
+    primitive,
+    vertexOffset: 0,
+    vertexCount: weightCase.positions.length / 3,
+    positions: Float32Array.from(weightCase.positions),
+    indices: Uint32Array.from(weightCase.indices)
+  }];
+}
+
+function weightOf(influences: SkinInfluences, vertex: number, joint: number): number {
+  let weight = 0;
+  for (let i = 0; i < MAX_INFLUENCES; i++) {
+    if (influences.joints[vertex * MAX_INFLUENCES + i] === joint) weight += influences.weights[vertex * MAX_INFLUENCES + i];
+  }
+  return weight;
+}
+
+function checkInfluences(influences: SkinInfluences, vertexCount: number, jointCount: number, quality: SkinWeightQuality): string[] {
+  const problems: string[] = [];
+  let truncated = false;
+
+  for (let v = 0; v < vertexCount && problems.length < 5; v++) {
+    const row = v * MAX_INFLUENCES;
+    const used: number[] = [];
+    let sum = 0;
+    for (let i = 0; i < MAX_INFLUENCES; i++) {
+      const joint = influences.joints[row + i], weight = influences.weights[row + i];
+      sum += weight;
+      if (weight === 0) {
+        if (joint !== 0) problems.push(`vertex ${v}: empty slot ${i} names joint ${joint}`);
+        continue;
+      }
+      if (i >= quality.maxInfluences) problems.push(`vertex ${v}: slot ${i} used, only ${quality.maxInfluences} allowed`);
+      if (joint >= jointCount) problems.push(`vertex ${v}: joint ${joint} out of range`);
+      if (used.includes(joint)) problems.push(`vertex ${v}: joint ${joint} listed twice`);
+      if (i > 0 && weight > influences.weights[row + i - 1]) problems.push(`vertex ${v}: slot ${i} outweighs slot ${i - 1}`);
+      if (weight < quality.minWeight) problems.push(`vertex ${v}: weight ${weight} below minWeight`);
+      used.push(joint);
+    }
+    if (Math.abs(sum - 1) > SUM_TOLERANCE) problems.push(`vertex ${v}: weights sum to ${sum}`);
+    if (used.length === quality.maxInfluences) truncated = true;
+  }
+
+  // Otherwise the top-N cut was never exercised
+  if (jointCount > quality.maxInfluences && !truncated) {
+    problems.push(`no vertex keeps ${quality.maxInfluences} influences, so the top-${quality.maxInfluences} cut went untested`);
+  }
+  return problems;
+}
+
+// Ring-averaged weight of `joint`, ordered along the bones, must only move in `direction`
+function checkFalloff(influences: SkinInfluences, weightCase: WeightCase, joint: number, direction: 1 | -1): string[] {
+  const sums = new Map<number, { total: number; count: number }>();
+  weightCase.ringOf.forEach((along, v) => {
+    const ring = sums.get(along) ?? { total: 0, count: 0 };
+    ring.total += weightOf(influences, v, joint);
+    ring.count++;
+    sums.set(along, ring);
+  });
+
+  const profile = Array.from(sums.entries()).sort((a, b) => a[0] - b[0]).map(([along, ring]) => [along, ring.total / ring.count]);
+  const name = weightCase.joints[joint].name;
+  for (let i = 1; i < profile.length; i++) {
+    if ((profile[i][1] - profile[i - 1][1]) * direction < -FALLOFF_TOLERANCE) {
+      return [`${name} weight ${direction > 0 ? 'falls' : 'rises'} from ${profile[i - 1][1].toFixed(4)} to ${profile[i][1].toFixed(4)} at ${profile[i][0].toFixed(3)}`];
+    }
+  }
+  const [first, last] = [profile[0][1], profile[profile.length - 1][1]];
+  if ((last - first) * direction < MIN_FALLOFF) {
+    return [`${name} weight only goes from ${first.toFixed(3)} to ${last.toFixed(3)} along the bones`];
+  }
+  return [];
+}
+
+function check(weightCase: WeightCase, quality: SkinWeightQuality): string[] {
+  const influences = computeSkinWeights(toGeometry(weightCase), weightCase.joints, quality);
+  const vertexCount = weightCase.positions.length / 3;
+  const problems = checkInfluences(influences, vertexCount, weightCase.joints.length, quality);
+
+  problems.push(...checkFalloff(influences, weightCase, 0, -1));
+  problems.push(...checkFalloff(influences, weightCase, weightCase.joints.length - 1, 1));
+
+  // Same mesh, rebuilt from scratch
+  const again = computeSkinWeights(toGeometry(weightCase), weightCase.joints, quality);
+  if (!Buffer.from(again.joints.buffer).equals(Buffer.from(influences.joints.buffer))
+    || !Buffer.from(again.weights.buffer).equals(Buffer.from(influences.weights.buffer))) {
+    problems.push('a second run gave different influences');
+  }
+  return problems;
+}
+
+function main() {
+  let failures = 0;
+  for (const build of [cylinderArm, capsuleBody]) {
+    const weightCase = build();
+    for (const [qualityName, quality] of Object.entries(QUALITIES)) {
+      const problems = check(weightCase, quality);
+      if (problems.length > 0) {
+        failures++;
+        console.log(`❌ ${weightCase.description} / ${qualityName}:`);
+        problems.forEach(problem => console.log(`   ${problem}`));
+      } else {
+        console.log(`✅ ${weightCase.description} / ${qualityName}`);
+      }
+    }
+  }
+
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,453 @@
+/**
+ * Golden-file harness for the landmark-to-bone solver
+ * (client/src/lib/tracking-ik.ts).
+ *
+ *   npm run tracking:golden                 solve every fixture and compare with its golden file
+ *   npm run tracking:golden -- --update     rewrite the golden files from the current output
+ *   npm run tracking:golden -- --fixtures   regenerate the synthetic fixtures first
+ *   npm run tracking:golden -- --allow-missing-recordings
+ *                                           only warn while a recorded scenario is missing
+ *
+ * A fixture (scripts/golden/tracking/<name>.fixture.json) is a list of
+ * SolverInputs - MediaPipe world landmarks exactly as the tracking worker
+ * receives them - plus what the solve must produce (see
+ * client/src/lib/tracking-fixtures.ts). The synthetic fixtures are written
+ * by this script: a reference skeleton is posed with known joint rotations
+ * and its landmarks computed, so the expected angles are known exactly.
+ * Recorded fixtures are saved from the camera debug page, one per scenario
+ * in RECORDED_FIXTURE_SCENARIOS, and dropped in as they are. The run fails
+ * while any of them is missing, since the synthetic fixtures alone never
+ * show the solver a real MediaPipe landmark.
+ *
+ * Every run checks the expectations, that each rotation is a unit
+ * quaternion inside its joint limits, that solving twice gives the same
+ * result, and compares a rounded summary with <name>.golden.json.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { HUMANOID_BONES, multiplyQuat, type HumanoidBoneName, type Quat } from '../shared/retargeting';
+import { clampJoint } from '../client/src/lib/tracking-ik';
+import { DEG, IDENTITY, add, angleBetweenQuats, axisAngle, quatAngle, rotateVector, type Vec3 } from '../client/src/lib/tracking-math';
+import { solveTrackingFrame, type Landmark, type SolverInput, type TrackingFeatures } from '../client/src/lib/tracking-solver';
+import { RECORDED_FIXTURE_SCENARIOS, type TrackingFixture } from '../client/src/lib/tracking-fixtures';
+
+const GOLDEN_DIR = path.join(process.cwd(), 'scripts', 'golden', 'tracking');
+const update = process.argv.includes('--update');
+const regenerate = process.argv.includes('--fixtures');
+const allowMissingRecordings = process.argv.includes('--allow-missing-recordings');
+
+const ALL_FEATURES: TrackingFeatures = {
+  faceTracking: true,
+  bodyTracking: true,
+  handTracking: true,
+  fingerTracking: true,
+  eyeTracking: true,
+  expressionTracking: true
+};
+
+// ---------------------------------------------------------------------------
+// Synthetic fixtures
+// ---------------------------------------------------------------------------
+
+type Side = 'left' | 'right';
+const FINGERS = ['Index', 'Middle', 'Ring', 'Little'] as const;
+
+interface SidePose {
+  upperArm?: Quat;
+  lowerArm?: Quat;
+  hand?: Quat;
+  upperLeg?: Quat;
+  lowerLeg?: Quat;
+  foot?: Quat;
+  curls?: Partial<Record<typeof FINGERS[number] | 'Thumb', number>>;
+}
+
+interface ReferencePose {
+  hips?: Quat;          // world
+  torso?: Quat;         // whole back, relative to the hips
+  left?: SidePose;
+  right?: SidePose;
+  upperBodyOnly?: boolean;  // webcam framing: hips and legs barely visible
+  handLandmarks?: boolean;  // include hand landmarker results
+  noise?: number;           // metres of jitter on every landmark
+}
+
+const SIGN: Record<Side, number> = { left: 1, right: -1 };
+
+// Reference proportions, metres
+const BODY = { hip: 0.1, shoulder: 0.18, torso: 0.5, upperArm: 0.28, forearm: 0.25, thigh: 0.42, shin: 0.4 };
+const FINGER_BASES: Record<typeof FINGERS[number], Vec3> = {
+  Index: [0.09, 0, 0.03],
+  Middle: [0.095, 0, 0],
+  Ring: [0.09, 0, -0.018],
+  Little: [0.08, 0, -0.038]
+};
+const FINGER_LENGTHS = [0.045, 0.027, 0.022];
+// Knuckle, middle and end joint at a full curl
+const CURL_ANGLES = [60 * DEG, 100 * DEG, 70 * DEG];
+
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Avatar space back to MediaPipe's camera space: (x, -y, -z)
+function toLandmark([x, y, z]: Vec3, visibility = 0.99): Landmark {
+  const round = (value: number) => Math.round(value * 1e5) / 1e5;
+  return { x: round(x), y: round(-y) + 0, z: round(-z) + 0, visibility };
+}
+
+function poseLandmarks(pose: ReferencePose, jitter: () => Vec3): SolverInput['pose'] & {} {
+  const hips = pose.hips ?? IDENTITY;
+  const torso = multiplyQuat(hips, pose.torso ?? IDENTITY);
+  const points: Vec3[] = new Array(33).fill(null);
+  const visibility: number[] = new Array(33).fill(0.99);
+
+  const neckBase = rotateVector(torso, [0, BODY.torso, 0]);
+  for (let i = 0; i <= 10; i++) points[i] = add(neckBase, rotateVector(torso, [0, 0.2, 0.08]));
+
+  for (const side of ['left', 'right'] as Side[]) {
+    const s = SIGN[side];
+    const o = side === 'left' ? 0 : 1;
+    const limbs = pose[side] ?? {};
+
+    const shoulder = add(neckBase, rotateVector(torso, [s * BODY.shoulder, 0, 0]));
+    const upperArm = multiplyQuat(torso, limbs.upperArm ?? IDENTITY);
+    const lowerArm = multiplyQuat(upperArm, limbs.lowerArm ?? IDENTITY);
+    const hand = multiplyQuat(lowerArm, limbs.hand ?? IDENTITY);
+    const elbow = add(shoulder, rotateVector(upperArm, [s * BODY.upperArm, 0, 0]));
+    const wrist = add(elbow, rotateVector(lowerArm, [s * BODY.forearm, 0, 0]));
+    points[11 + o] = shoulder;
+    points[13 + o] = elbow;
+    points[15 + o] = wrist;
+    points[17 + o] = add(wrist, rotateVector(hand, [s * 0.08, 0, -0.025]));  // pinky
+    points[19 + o] = add(wrist, rotateVector(hand, [s * 0.09, 0, 0.025]));   // index
+    points[21 + o] = add(wrist, rotateVector(hand, [s * 0.04, 0, 0.05]));   // thumb
+
+    const hip = rotateVector(hips, [s * BODY.hip, 0, 0]);
+    const upperLeg = multiplyQuat(hips, limbs.upperLeg ?? IDENTITY);
+    const lowerLeg = multiplyQuat(upperLeg, limbs.lowerLeg ?? IDENTITY);
+    const foot = multiplyQuat(lowerLeg, limbs.foot ?? IDENTITY);
+    const knee = add(hip, rotateVector(upperLeg, [0, -BODY.thigh, 0]));
+    const ankle = add(knee, rotateVector(lowerLeg, [0, -BODY.shin, 0]));
+    points[23 + o] = hip;
+    points[25 + o] = knee;
+    points[27 + o] = ankle;
+    points[29 + o] = add(ankle, rotateVector(foot, [0, -0.06, -0.05]));  // heel
+    points[31 + o] = add(ankle, rotateVector(foot, [0, -0.06, 0.15]));   // toes
+
+    if (pose.upperBodyOnly) {
+      for (const index of [23, 25, 27, 29, 31]) visibility[index + o] = 0.1;
+    }
+  }
+
+  return { worldLandmarks: points.map((point, index) => toLandmark(add(point, jitter()), visibility[index])) };
+}
+
+function handLandmarks(pose: ReferencePose, side: Side, jitter: () => Vec3): SolverInput['hands'][number] {
+  const s = SIGN[side];
+  const limbs = pose[side] ?? {};
+  const torso = multiplyQuat(pose.hips ?? IDENTITY, pose.torso ?? IDENTITY);
+  const hand = multiplyQuat(multiplyQuat(multiplyQuat(torso, limbs.upperArm ?? IDENTITY), limbs.lowerArm ?? IDENTITY), limbs.hand ?? IDENTITY);
+  const hinge: Vec3 = [0, 0, -s];
+  const points: Vec3[] = new Array(21).fill(null);
+  points[0] = [0, 0, 0];
+
+  // Thumb: out from the heel of the hand, bending toward the palm
+  let thumb = axisAngle([0, 1, 0], -s * 45 * DEG);
+  let joint: Vec3 = rotateVector(hand, [s * 0.025, -0.01, 0.03]);
+  points[1] = joint;
+  [0.04, 0.032, 0.028].forEach((size, segment) => {
+    thumb = multiplyQuat(thumb, axisAngle(hinge, (limbs.curls?.Thumb ?? 0) * [20, 40, 40][segment] * DEG));
+    joint = add(joint, rotateVector(multiplyQuat(hand, thumb), [s * size, 0, 0]));
+    points[2 + segment] = joint;
+  });
+
+  FINGERS.forEach((finger, index) => {
+    const base = FINGER_BASES[finger];
+    let rotation = IDENTITY;
+    let position = rotateVector(hand, [s * base[0], base[1], base[2]]);
+    points[5 + index * 4] = position;
+    FINGER_LENGTHS.forEach((size, segment) => {
+      rotation = multiplyQuat(rotation, axisAngle(hinge, (limbs.curls?.[finger] ?? 0) * CURL_ANGLES[segment]));
+      position = add(position, rotateVector(multiplyQuat(hand, rotation), [s * size * (finger === 'Little' ? 0.8 : 1), 0, 0]));
+      points[6 + index * 4 + segment] = position;
+    });
+  });
+
+  return {
+    // MediaPipe labels hands as if the image were mirrored
+    handedness: side === 'left' ? 'Right' : 'Left',
+    score: 0.98,
+    worldLandmarks: points.map(point => toLandmark(add(point, jitter())))
+  };
+}
+
+function synthesize(poses: ReferencePose[], seed = 1): SolverInput[] {
+  const random = mulberry32(seed);
+  return poses.map((pose, index) => {
+    const amount = pose.noise ?? 0;
+    const jitter = (): Vec3 => amount ? [(random() - 0.5) * 2 * amount, (random() - 0.5) * 2 * amount, (random() - 0.5) * 2 * amount] : [0, 0, 0];
+    return {
+      timestamp: index * 33,
+      face: null,
+      pose: poseLandmarks(pose, jitter),
+      hands: pose.handLandmarks ? [handLandmarks(pose, 'left', jitter), handLandmarks(pose, 'right', jitter)] : []
+    };
+  });
+}
+
+const X: Vec3 = [1, 0, 0];
+const Y: Vec3 = [0, 1, 0];
+const Z: Vec3 = [0, 0, 1];
+const armsDown = (side: Side) => axisAngle(Z, -SIGN[side] * 90 * DEG);
+const elbowBend = (side: Side, degrees: number) => axisAngle([0, -SIGN[side], 0], degrees * DEG);
+const sides: Side[] = ['left', 'right'];
+
+const SYNTHETIC: Record<string, () => TrackingFixture> = {
+  't-pose': () => ({
+    description: 'Rest pose with open hands; every solved bone should stay at identity',
+    source: 'synthetic',
+    frames: synthesize([{ handLandmarks: true }]),
+    expect: ['hips', 'spine', 'chest', 'upperChest', 'leftUpperArm', 'leftLowerArm', 'leftHand', 'rightUpperArm',
+      'rightLowerArm', 'rightHand', 'leftUpperLeg', 'leftLowerLeg', 'leftFoot', 'rightUpperLeg', 'rightLowerLeg',
+      'rightFoot', 'leftIndexProximal', 'leftIndexIntermediate', 'rightLittleDistal']
+      .map(bone => ({ bone: bone as HumanoidBoneName, angle: 0, tolerance: 2 }))
+  }),
+
+  'arms-down-elbows-bent': () => ({
+    description: 'Arms hanging at the sides with both elbows bent 90 degrees forward, palms from the pose model only',
+    source: 'synthetic',
+    frames: synthesize([Object.fromEntries(sides.map(side => [side, { upperArm: armsDown(side), lowerArm: elbowBend(side, 90) }]))]),
+    expect: sides.flatMap(side => [
+      { bone: `${side}UpperArm` as HumanoidBoneName, angle: 90 },
+      { bone: `${side}LowerArm` as HumanoidBoneName, angle: 90 },
+      { bone: `${side}Hand` as HumanoidBoneName, angle: 0 }
+    ])
+  }),
+
+  'lean-and-turn': () => {
+    const torso = multiplyQuat(axisAngle(Y, 30 * DEG), axisAngle(X, 20 * DEG));
+    const share = quatAngle(torso) / DEG / 3;
+    return {
+      description: 'Hips turned 10 degrees; back leaning 20 degrees forward and turned 30 degrees, spread over the spine chain',
+      source: 'synthetic',
+      frames: synthesize([{ hips: axisAngle(Y, 10 * DEG), torso }]),
+      expect: [
+        { bone: 'hips', angle: 10 },
+        { bone: 'spine', angle: share },
+        { bone: 'chest', angle: share },
+        { bone: 'upperChest', angle: share },
+        { bone: 'leftUpperArm', angle: 0 }
+      ]
+    };
+  },
+
+  'webcam-upper-body': () => ({
+    description: 'Only the upper body in frame: left arm raised 45 degrees with the elbow bent 120, no hips or legs solved',
+    source: 'synthetic',
+    frames: synthesize([{ upperBodyOnly: true, left: { upperArm: axisAngle(Z, 45 * DEG), lowerArm: elbowBend('left', 120) } }]),
+    expect: [
+      { bone: 'hips', absent: true },
+      { bone: 'leftUpperLeg', absent: true },
+      { bone: 'leftUpperArm', angle: 45 },
+      { bone: 'leftLowerArm', angle: 120 }
+    ]
+  }),
+
+  'squat': () => ({
+    description: 'Thighs 60 degrees forward, knees bent 90, feet at rest relative to the shins',
+    source: 'synthetic',
+    frames: synthesize([Object.fromEntries(sides.map(side => [side, {
+      upperLeg: axisAngle(X, -60 * DEG),
+      lowerLeg: axisAngle(X, 90 * DEG)
+    }]))]),
+    expect: sides.flatMap(side => [
+      { bone: `${side}UpperLeg` as HumanoidBoneName, angle: 60 },
+      { bone: `${side}LowerLeg` as HumanoidBoneName, angle: 90 },
+      { bone: `${side}Foot` as HumanoidBoneName, angle: 0 }
+    ])
+  }),
+
+  'fist-and-point': () => ({
+    description: 'Left hand in a fist, right hand pointing with the index finger',
+    source: 'synthetic',
+    frames: synthesize([{
+      handLandmarks: true,
+      left: { curls: { Index: 1, Middle: 1, Ring: 1, Little: 1, Thumb: 1 } },
+      right: { curls: { Index: 0, Middle: 1, Ring: 1, Little: 1, Thumb: 1 } }
+    }]),
+    expect: [
+      { bone: 'leftIndexProximal', angle: 60 },
+      { bone: 'leftIndexIntermediate', angle: 100 },
+      { bone: 'leftIndexDistal', angle: 70 },
+      { bone: 'leftLittleIntermediate', angle: 100 },
+      { bone: 'rightIndexProximal', angle: 0 },
+      { bone: 'rightIndexIntermediate', angle: 0 },
+      { bone: 'rightMiddleIntermediate', angle: 100 }
+    ]
+  }),
+
+  'wrist-twist': () => ({
+    description: 'Arms out, both palms turned 60 degrees; the twist belongs to the forearms, not the wrists',
+    source: 'synthetic',
+    frames: synthesize([{
+      handLandmarks: true,
+      left: { hand: axisAngle(X, 60 * DEG) },
+      right: { hand: axisAngle(X, 60 * DEG) }
+    }]),
+    expect: sides.flatMap(side => [
+      { bone: `${side}LowerArm` as HumanoidBoneName, angle: 60 },
+      { bone: `${side}Hand` as HumanoidBoneName, angle: 0 }
+    ])
+  }),
+
+  'straight-arm-jitter': () => ({
+    description: 'Arm hanging almost straight under 1 cm of landmark jitter; the elbow must not flip',
+    source: 'synthetic',
+    frames: synthesize(Array.from({ length: 40 }, () => ({
+      noise: 0.01,
+      left: { upperArm: armsDown('left'), lowerArm: elbowBend('left', 3) }
+    })), 7),
+    expect: [
+      { bone: 'leftUpperArm', angle: 90, tolerance: 8 },
+      { bone: 'leftLowerArm', max: 25 }
+    ]
+  })
+};
+
+// ---------------------------------------------------------------------------
+// Harness
+// ---------------------------------------------------------------------------
+
+function solveFixture(fixture: TrackingFixture) {
+  const features = { ...ALL_FEATURES, ...fixture.features };
+  return fixture.frames.map(input => solveTrackingFrame(input, features));
+}
+
+function summarize(fixture: TrackingFixture) {
+  const round = (value: number) => Math.round(value * 1000) / 1000 + 0;
+  return solveFixture(fixture).map((frame, index) => ({
+    frame: index,
+    confidence: frame.confidence,
+    bones: Object.fromEntries(HUMANOID_BONES
+      .filter(bone => frame.bones[bone])
+      .map(bone => {
+        const rotation = frame.bones[bone]!;
+        return [bone, { angle: Math.round(quatAngle(rotation) / DEG * 10) / 10, rotation: rotation.map(round) }];
+      }))
+  }));
+}
+
+function check(fixture: TrackingFixture): string[] {
+  const problems: string[] = [];
+  const frames = solveFixture(fixture);
+
+  if (JSON.stringify(frames) !== JSON.stringify(solveFixture(fixture))) problems.push('solving twice gave different results');
+
+  frames.forEach((frame, index) => {
+    for (const [bone, rotation] of Object.entries(frame.bones) as Array<[HumanoidBoneName, Quat]>) {
+      if (Math.abs(Math.hypot(...rotation) - 1) > 1e-6) problems.push(`frame ${index}: ${bone} is not a unit quaternion`);
+      if (angleBetweenQuats(rotation, clampJoint(bone, rotation)) > 1e-3) problems.push(`frame ${index}: ${bone} is outside its joint limits`);
+    }
+  });
+
+  for (const expectation of fixture.expect) {
+    const [first, last] = expectation.frames ?? [0, frames.length - 1];
+    let solved = 0;
+    let previous: Quat | undefined;
+    for (let index = first; index <= last; index++) {
+      const rotation = frames[index].bones[expectation.bone];
+      const label = `frame ${index}: ${expectation.bone}`;
+      if (expectation.absent) {
+        if (rotation) problems.push(`${label} should not be solved`);
+        continue;
+      }
+      if (!rotation) {
+        if (expectation.minSolved === undefined) problems.push(`${label} was not solved`);
+        previous = undefined;
+        continue;
+      }
+      solved++;
+      const step = previous && angleBetweenQuats(previous, rotation) / DEG;
+      previous = rotation;
+      if (expectation.maxStep !== undefined && step !== undefined && step > expectation.maxStep) {
+        problems.push(`${label} jumped ${step.toFixed(1)}° from the frame before, at most ${expectation.maxStep}° expected`);
+      }
+      const angle = quatAngle(rotation) / DEG;
+      const tolerance = expectation.tolerance ?? 3;
+      if (expectation.angle !== undefined && Math.abs(angle - expectation.angle) > tolerance) {
+        problems.push(`${label} turned ${angle.toFixed(1)}°, expected ${expectation.angle.toFixed(1)}° ± ${tolerance}`);
+      }
+      if (expectation.max !== undefined && angle > expectation.max) {
+        problems.push(`${label} turned ${angle.toFixed(1)}°, at most ${expectation.max}° expected`);
+      }
+    }
+    const checked = last - first + 1;
+    if (expectation.minSolved !== undefined && solved < expectation.minSolved * checked) {
+      problems.push(`${expectation.bone} solved in ${solved} of ${checked} frames, at least ${Math.round(expectation.minSolved * 100)}% expected`);
+    }
+  }
+  return problems;
+}
+
+// One landmark or bone per line so fixture and golden diffs stay readable
+function formatJson(value: unknown): string {
+  return JSON.stringify(value, null, 2)
+    .replace(/\[\s+([-\d.,\s]+?)\s+\]/g, (_, items: string) => `[${items.split(/,\s*/).join(', ')}]`)
+    .replace(/\{\n([^{}]*?)\n\s*\}/g, (_, body: string) => `{ ${body.split('\n').map(line => line.trim()).join(' ')} }`) + '\n';
+}
+
+function main() {
+  fs.mkdirSync(GOLDEN_DIR, { recursive: true });
+
+  if (regenerate) {
+    for (const [name, build] of Object.entries(SYNTHETIC)) {
+      fs.writeFileSync(path.join(GOLDEN_DIR, `${name}.fixture.json`), formatJson(build()));
+      console.log(`📝 ${name}: fixture written`);
+    }
+  }
+
+  let failures = 0;
+  const fixtures = fs.readdirSync(GOLDEN_DIR).filter(file => file.endsWith('.fixture.json')).sort();
+  for (const file of fixtures) {
+    const name = file.replace(/\.fixture\.json$/, '');
+    const fixture: TrackingFixture = JSON.parse(fs.readFileSync(path.join(GOLDEN_DIR, file), 'utf8'));
+
+    const problems = check(fixture);
+    if (problems.length > 0) {
+      failures++;
+      console.log(`❌ ${name}:`);
+      problems.forEach(problem => console.log(`   ${problem}`));
+    }
+
+    const goldenPath = path.join(GOLDEN_DIR, `${name}.golden.json`);
+    const actual = formatJson(summarize(fixture));
+    if (update || !fs.existsSync(goldenPath)) {
+      fs.writeFileSync(goldenPath, actual);
+      console.log(`📝 ${name}: golden written`);
+    } else if (fs.readFileSync(goldenPath, 'utf8') !== actual) {
+      failures++;
+      fs.writeFileSync(`${goldenPath}.actual`, actual);
+      console.log(`❌ ${name}: differs from golden (see ${path.relative(process.cwd(), goldenPath)}.actual)`);
+    } else if (problems.length === 0) {
+      console.log(`✅ ${name}: matches golden`);
+    }
+  }
+
+  // Synthetic landmarks only test the solver against its own model of MediaPipe
+  const missing = RECORDED_FIXTURE_SCENARIOS.filter(scenario => !fixtures.includes(`recorded-${scenario.name}.fixture.json`));
+  if (missing.length > 0) {
+    console.log(`${allowMissingRecordings ? '⚠️ ' : '❌'} No recording for ${missing.map(scenario => scenario.name).join(', ')}; record them on the camera debug page`);
+    if (!allowMissingRecordings) failures++;
+  }
+
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
@@ -7,10 +7,15 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { tempFileCleanup } from "./services/temp-file-cleanup";
 import { createClient } from '@supabase/supabase-js';
+import { installConsoleScrubber } from './services/log-scrubber';
+import { registerTrackingAssets } from './services/tracking-assets';
 
 // Import the shared stores
 import { pendingInvites } from './shared/stores';
 
+// Keep stream keys and auth tokens out of every console line
+installConsoleScrubber();
+
 // Global error handlers to prevent process crashes
 process.on('uncaughtException', (error) => {
   console.error('Uncaught Exception:', error);
@@ -89,6 +94,16 @@ app.use((req, res, next) => {
 // Serve static files from attached_assets directory
 app.use('/attached_assets', express.static('attached_assets'));
 
+// glTF decoders for compressed avatars (see client/src/lib/gltf-decoders.ts)
+app.use('/decoders/draco', express.static('node_modules/three/examples/jsm/libs/draco/gltf', { maxAge: '7d' }));
+app.use('/decoders/basis', express.static('node_modules/three/examples/jsm/libs/basis', { maxAge: '7d' }));
+app.get('/decoders/meshopt_decoder.js', (_req, res) => {
+  res.sendFile('meshopt_decoder.js', { root: 'node_modules/meshoptimizer', maxAge: '7d' });
+});
+
+// MediaPipe WASM and landmarker models for camera tracking (see shared/tracking-assets.ts)
+registerTrackingAssets(app);
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -19,7 +19,6 @@ import { storage } from "./storage";
 import { setupStripe } from "./services/stripe";
 import { setupAvatarService, avatarService } from "./services/avatar";
 import { avatarManager } from "./services/avatar-manager";
-import { vidaRig } from "./services/vida-rig";
 import * as supabaseAuth from "./auth/supabase";
 import { createClient } from '@supabase/supabase-js';
 import { db } from "./db";
@@ -30,15 +29,32 @@ import path from "path";
 import { eq, sql } from "drizzle-orm";
 import { glbThumbnailGenerator } from "./services/glb-thumbnail-generator";
 import { tempFileCleanup } from "./services/temp-file-cleanup";
+import { deleteRecordingFiles, RecordingError, resolveRecordingPath, trimRecording } from "./services/stream-recorder";
+import { getHlsPreview } from "./services/hls-preview";
+import { recommendBitrate, RtmpProtocolError, runRtmpPreflight } from "./services/rtmp-preflight";
+import { parseRtmpUrl } from "./services/rtmp-protocol";
+import { readVrm, VrmError, type VrmSummary } from "./services/vrm";
+import { buildAvatarBoneMap, BoneMapError } from "./services/bone-map";
+import {
+  clearTrackingCalibration,
+  getTrackingCalibration,
+  saveTrackingCalibration,
+  TrackingCalibrationError
+} from "./services/tracking-calibration";
+import { isMaskedStreamKey, STREAM_KEY_MASK } from "./services/stream-key-vault";
 import { poseNormalizationService } from "./services/pose-normalization-service";
-import { setupReplitRTMPServer } from "./replit-rtmp-server";
-import { setupMediaServer } from "./media-server";
+import { setupStreamingGateway } from "./streaming-gateway";
 import sharp from "sharp";
 import buddySystemRoutes from "./routes/buddy-system";
 import adminUsersRoutes from "./routes/admin-users";
 import userSearchRoutes from "./routes/user-search";
 
 // GLB file analysis function
+// What an imported VRM keeps in avatars.metadata (meta has its own column)
+function vrmRigMetadata({ meta, ...rig }: VrmSummary) {
+  return rig;
+}
+
 function analyzeGLBFile(buffer: Buffer) {
   try {
     console.log('🔍 Analyzing GLB file:', buffer.length, 'bytes');
@@ -240,8 +256,10 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
 
       console.log("🔄 GLB upload step 2: GLB analysis complete", { vertices, controlPoints });
 
-      // Generate thumbnail
-      const thumbnailUrl = await glbThumbnailGenerator.generateThumbnail(uploadedFilePath, fileName);
+      // Render a thumbnail next to the upload in temp/
+      const thumbnailFileName = `thumb_${path.basename(uploadedFilePath)}.png`;
+      await glbThumbnailGenerator.saveThumbnail(fileBuffer, path.join(path.dirname(uploadedFilePath), thumbnailFileName));
+      const thumbnailUrl = `/temp/${thumbnailFileName}`;
       const tempUrl = `/temp/${path.basename(uploadedFilePath)}`;
 
       console.log("🔄 GLB upload step 3: Creating temporary avatar (no database insertion)");
@@ -355,9 +373,8 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
         "application/json" // Sometimes GLB files are detected as JSON
       ];
       
-      // Accept GLB/GLTF files by extension regardless of mimetype
-      if (file.originalname.toLowerCase().endsWith('.glb') || 
-          file.originalname.toLowerCase().endsWith('.gltf') ||
+      // Accept GLB/GLTF/VRM files by extension regardless of mimetype
+      if (/\.(glb|gltf|vrm)$/i.test(file.originalname) ||
           allowedTypes.includes(file.mimetype)) {
         console.log("✅ File type accepted");
         cb(null, true);
@@ -1502,8 +1519,8 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
     const tempPath = path.join(process.cwd(), 'temp', filename);
     
     if (fs.existsSync(tempPath)) {
-      // Enhanced headers for GLB/GLTF files
-      res.setHeader('Content-Type', 'model/gltf-binary');
+      // Enhanced headers for GLB/GLTF files; rendered thumbnails live here too
+      res.setHeader('Content-Type', filename.endsWith('.png') ? 'image/png' : 'model/gltf-binary');
       res.setHeader('Access-Control-Allow-Origin', '*');
       res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS');
       res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Range');
@@ -1611,13 +1628,30 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
       // Analyze GLB file
       const fileBuffer = fs.readFileSync(uploadedFilePath);
       const analysis = analyzeGLBFile(fileBuffer);
+
+      // VRM avatars arrive rigged; keep their meta and humanoid mapping
+      let vrm: VrmSummary | null;
+      try {
+        vrm = readVrm(fileBuffer);
+      } catch (error) {
+        clearTimeout(uploadTimeout);
+        if (error instanceof VrmError) {
+          return res.status(400).json({ message: `Invalid VRM file: ${error.message}` });
+        }
+        throw error;
+      }
+      if (vrm) {
+        console.log("🧍 VRM upload detected:", { specVersion: vrm.specVersion, bones: Object.keys(vrm.humanBones).length, expressions: vrm.expressions.length });
+      }
       const { vertices } = analysis;
       const controlPoints = 0; // Derived from vertices for GLB files
 
       console.log("🔄 GLB upload step 2: GLB analysis complete", { vertices, controlPoints });
 
-      // Generate thumbnail
-      const thumbnailUrl = await glbThumbnailGenerator.generateThumbnail(uploadedFilePath, fileName);
+      // Render a thumbnail next to the upload in temp/
+      const thumbnailFileName = `thumb_${path.basename(uploadedFilePath)}.png`;
+      await glbThumbnailGenerator.saveThumbnail(fileBuffer, path.join(path.dirname(uploadedFilePath), thumbnailFileName));
+      const thumbnailUrl = `/temp/${thumbnailFileName}`;
       const tempUrl = `/temp/${path.basename(uploadedFilePath)}`;
 
       console.log("🔄 GLB upload step 3: Creating temporary avatar (no database insertion)");
@@ -1627,8 +1661,8 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
         const tempAvatar = {
           id: Date.now(),
           userId: String(userId),
-          name: String(fileName.replace(/\.(glb|gltf)$/i, '')),
-          type: 'glb-upload',
+          name: String(fileName.replace(/\.(glb|gltf|vrm)$/i, '')),
+          type: vrm ? 'vrm-upload' : 'glb-upload',
           category: 'custom',
           thumbnailUrl: String(thumbnailUrl),
           previewUrl: String(tempUrl),
@@ -1637,10 +1671,11 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
           vertices: Number(vertices) || 0,
           controlPoints: Number(controlPoints) || 0,
           fileSize: Number(analysis.fileSize) || 0,
-          isRigged: false,
+          isRigged: !!vrm,
           faceTrackingEnabled: true,
           bodyTrackingEnabled: true,
           handTrackingEnabled: false,
+          vrmMeta: vrm?.meta ?? null,
           lastUsedAt: new Date(),
           createdAt: new Date(),
           updatedAt: new Date(),
@@ -1648,7 +1683,8 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
             originalFileName: String(fileName),
             uploadedAt: new Date().toISOString(),
             isTemporary: true,
-            tempPath: String(uploadedFilePath)
+            tempPath: String(uploadedFilePath),
+            ...(vrm && { vrm: vrmRigMetadata(vrm) })
           }
         };
         
@@ -1717,12 +1753,12 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
       if (isTemporaryAvatar) {
         // For temporary avatars, use the temporary avatar auto-rigging method
         const rigResult = await avatarManager.autoRigTemporaryAvatar(avatarId, actualUserPlan);
-        console.log("✅ VidaRig temporary avatar auto-rigging completed:", rigResult);
+        console.log(`✅ VidaRig temporary avatar auto-rigging completed with "${rigResult.engine}" engine`);
         res.json(rigResult);
       } else {
         // For database avatars, use the regular method
         const rigResult = await avatarManager.autoRigAvatar(avatarId, actualUserPlan);
-        console.log("✅ VidaRig auto-rigging completed:", rigResult);
+        console.log(`✅ VidaRig auto-rigging completed with "${rigResult.engine}" engine`);
         res.json(rigResult);
       }
     } catch (error: any) {
@@ -1839,6 +1875,13 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
       }
       
       console.log("💾 Saving temporary GLB upload:", { name: name.trim(), tempPath: tempAvatarData.metadata.tempPath });
+
+      // Read VRM meta from the uploaded file itself, not the client's copy
+      const tempPath = String(tempAvatarData.metadata.tempPath);
+      const fileBuffer = fs.existsSync(tempPath) ? fs.readFileSync(tempPath) : null;
+      const vrm = fileBuffer ? readVrm(fileBuffer) : null;
+      // Uploads that come with a skeleton (VRM, Mixamo, VRoid…) get their bone map now
+      const boneMap = fileBuffer ? buildAvatarBoneMap(fileBuffer) : null;
       
       // Check user's avatar count limits
       const userAvatarCount = await db.select({ count: sql`count(*)` })
@@ -1869,7 +1912,7 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
       const avatarRecord = {
         userId: String(userId),
         name: String(name.trim()),
-        type: 'glb-upload',
+        type: vrm ? 'vrm-upload' : 'glb-upload',
         category: 'custom',
         thumbnailUrl: String(tempAvatarData.thumbnailUrl),
         previewUrl: String(tempAvatarData.previewUrl),
@@ -1878,16 +1921,19 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
         vertices: Number(tempAvatarData.vertices) || 0,
         controlPoints: Number(tempAvatarData.controlPoints) || 0,
         fileSize: Number(tempAvatarData.fileSize) || 0,
-        isRigged: Boolean(tempAvatarData.isRigged),
+        isRigged: Boolean(tempAvatarData.isRigged) || !!vrm,
         faceTrackingEnabled: Boolean(tempAvatarData.faceTrackingEnabled),
         bodyTrackingEnabled: Boolean(tempAvatarData.bodyTrackingEnabled),
         handTrackingEnabled: Boolean(tempAvatarData.handTrackingEnabled),
+        vrmMeta: vrm?.meta ?? null,
         lastUsedAt: new Date(),
         metadata: {
           originalFileName: String(tempAvatarData.metadata.originalFileName),
           uploadedAt: new Date().toISOString(),
           isTemporary: false,
-          tempPath: String(tempAvatarData.metadata.tempPath)
+          tempPath,
+          ...(vrm && { vrm: vrmRigMetadata(vrm) }),
+          ...(boneMap && Object.keys(boneMap.bones).length > 0 && { boneMap })
         }
       };
       
@@ -1907,6 +1953,139 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
     }
   });
 
+  // Export a rigged avatar as VRM 1.0 for other VTuber apps
+  app.get("/api/avatars/:id/export/vrm", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.supabaseUser || req.user;
+      const avatarId = parseInt(req.params.id);
+      if (!user?.id) {
+        return res.status(401).json({ message: "User ID required" });
+      }
+      if (isNaN(avatarId)) {
+        return res.status(400).json({ message: "Invalid avatar ID" });
+      }
+
+      const author = user.user_metadata?.username || user.user_metadata?.full_name || user.email || 'VIDA³ creator';
+      const exported = await avatarManager.exportAvatarAsVrm(avatarId, user.id, String(author));
+      if (!exported) {
+        return res.status(404).json({ message: "Avatar not found" });
+      }
+
+      res.setHeader('Content-Type', 'model/gltf-binary');
+      res.setHeader('Content-Disposition', `attachment; filename="${exported.fileName}"`);
+      res.send(exported.buffer);
+    } catch (error: any) {
+      if (error instanceof VrmError) {
+        return res.status(422).json({ message: error.message });
+      }
+      console.error("❌ VRM export failed:", error);
+      res.status(500).json({ message: "Failed to export avatar as VRM" });
+    }
+  });
+
+  // Retargeting map of an avatar's skeleton onto the VIDA humanoid rig
+  app.get("/api/avatars/:id/bone-map", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.supabaseUser?.id || req.user?.id;
+      const avatarId = parseInt(req.params.id);
+      if (!userId) {
+        return res.status(401).json({ message: "User ID required" });
+      }
+      if (isNaN(avatarId)) {
+        return res.status(400).json({ message: "Invalid avatar ID" });
+      }
+
+      const result = await avatarManager.getAvatarBoneMap(avatarId, userId);
+      if (!result) {
+        return res.status(404).json({ message: "Avatar not found" });
+      }
+      res.json(result);
+    } catch (error: any) {
+      console.error("❌ Failed to load bone map:", error);
+      res.status(500).json({ message: "Failed to load bone map" });
+    }
+  });
+
+  // Hand edits from the bone-mapping editor: { assignments: { humanoidBone: nodeName | null }, reset? }
+  app.put("/api/avatars/:id/bone-map", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.supabaseUser?.id || req.user?.id;
+      const avatarId = parseInt(req.params.id);
+      if (!userId) {
+        return res.status(401).json({ message: "User ID required" });
+      }
+      if (isNaN(avatarId)) {
+        return res.status(400).json({ message: "Invalid avatar ID" });
+      }
+      const { assignments = {}, reset = false } = req.body ?? {};
+      if (typeof assignments !== 'object' || Array.isArray(assignments)) {
+        return res.status(400).json({ message: "assignments must map humanoid bones to node names" });
+      }
+
+      const boneMap = await avatarManager.updateAvatarBoneMap(avatarId, userId, assignments, Boolean(reset));
+      if (!boneMap) {
+        return res.status(404).json({ message: "Avatar not found" });
+      }
+      res.json({ boneMap });
+    } catch (error: any) {
+      if (error instanceof BoneMapError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("❌ Failed to update bone map:", error);
+      res.status(500).json({ message: "Failed to update bone map" });
+    }
+  });
+
+  // Face and body calibration from the studio's wizard; null until the user runs it
+  app.get("/api/tracking/calibration", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.supabaseUser?.id || req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User ID required" });
+      }
+      res.json({ calibration: await getTrackingCalibration(userId) });
+    } catch (error: any) {
+      console.error("❌ Failed to load tracking calibration:", error);
+      res.status(500).json({ message: "Failed to load tracking calibration" });
+    }
+  });
+
+  // { calibration: TrackingCalibration } replaces the stored one
+  app.put("/api/tracking/calibration", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.supabaseUser?.id || req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User ID required" });
+      }
+
+      const calibration = await saveTrackingCalibration(userId, req.body?.calibration);
+      if (!calibration) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json({ calibration });
+    } catch (error: any) {
+      if (error instanceof TrackingCalibrationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("❌ Failed to save tracking calibration:", error);
+      res.status(500).json({ message: "Failed to save tracking calibration" });
+    }
+  });
+
+  app.delete("/api/tracking/calibration", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.supabaseUser?.id || req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User ID required" });
+      }
+      await clearTrackingCalibration(userId);
+      res.json({ calibration: null });
+    } catch (error: any) {
+      console.error("❌ Failed to clear tracking calibration:", error);
+      res.status(500).json({ message: "Failed to clear tracking calibration" });
+    }
+  });
+
   // Get all avatars for authenticated user
   app.get("/api/avatars", isAuthenticated, async (req: any, res) => {
     try {
@@ -2278,26 +2457,6 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
     }
   });
 
-  // Debug endpoint to capture AI usage report
-  app.get('/api/debug/ai-report', async (req, res) => {
-    try {
-      const report = (global as any).lastPipelineReport || 'No recent auto-rigging report available';
-      const modelResults = (global as any).lastModelResults || [];
-      
-      res.json({
-        report,
-        modelResults,
-        timestamp: new Date().toISOString(),
-        success: true
-      });
-    } catch (error) {
-      res.status(500).json({ 
-        error: 'Failed to retrieve AI report',
-        success: false 
-      });
-    }
-  });
-
   // Clear rigged model cache (for testing updated tier limits)
   app.delete("/api/avatars/rigged-cache/:sessionId", async (req, res) => {
     try {
@@ -2653,36 +2812,14 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
       const { userPlan, testMode } = req.body;
       console.log(`🧪 Testing subscription optimization for ${userPlan} plan`);
       
-      // Import VidaRigProper for direct testing
-      const { vidaRigProper } = await import('./services/vida-rig-proper');
-      
-      // Create minimal test GLB data
-      const testGLBBuffer = Buffer.alloc(1000, 0);
-      const testAnalysis = {
-        vertices: 15000,
-        meshes: [{ name: 'TestMesh', primitives: 1 }],
-        hasExistingBones: false,
-        humanoidStructure: {
-          hasHead: true,
-          hasSpine: true,
-          hasArms: true,
-          hasLegs: true,
-          confidence: 0.85
-        },
-        suggestedBones: []
-      };
-      
-      // Perform auto-rigging with subscription optimization
-      const rigResult = await vidaRigProper.performAutoRigging(testGLBBuffer, testAnalysis, userPlan);
+      const { getSubscriptionTierConfig } = await import('./services/subscription-rigging-tiers');
+      const tier = getSubscriptionTierConfig(userPlan);
       
       res.json({
         success: true,
         userPlan: userPlan,
-        boneCount: rigResult.boneCount,
-        morphTargets: rigResult.morphTargets.length,
-        hasFaceRig: rigResult.hasFaceRig,
-        hasBodyRig: rigResult.hasBodyRig,
-        hasHandRig: rigResult.hasHandRig,
+        maxBones: tier.maxBones,
+        maxMorphTargets: tier.maxMorphTargets,
         testMode: testMode
       });
       
@@ -3158,19 +3295,298 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
     }
   });
 
+  // Confidence monitor: playback readiness plus server clock for latency measurement
+  app.get("/api/stream/preview/:streamId/status", isAuthenticated, (req: any, res) => {
+    const preview = getHlsPreview(req.user.id, req.params.streamId);
+    if (!preview) {
+      return res.status(404).json({ message: 'No preview for this stream' });
+    }
+
+    res.set('Cache-Control', 'no-store');
+    res.json({ ready: preview.isReady(), playlistUrl: preview.playlistUrl, serverTime: Date.now() });
+  });
+
+  // HLS rendition of the outgoing encode (playlist, init segment and media segments)
+  app.get("/api/stream/preview/:streamId/:file", isAuthenticated, (req: any, res) => {
+    const preview = getHlsPreview(req.user.id, req.params.streamId);
+    if (!preview) {
+      return res.status(404).json({ message: 'No preview for this stream' });
+    }
+
+    const file = preview.resolveFile(req.params.file);
+    if (!file) {
+      return res.status(404).json({ message: 'Preview file not found' });
+    }
+
+    res.set('Content-Type', file.contentType);
+    // The playlist changes every segment; segments are immutable once listed
+    res.set('Cache-Control', file.contentType === 'application/vnd.apple.mpegurl' ? 'no-cache' : 'private, max-age=60');
+    res.sendFile(file.filePath);
+  });
+
+  // Past streams for the current user, with any local recording
+  app.get("/api/stream/history", isAuthenticated, async (req: any, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const sessions = await storage.getUserStreamingHistory(req.user.id, { limit, offset });
+
+      res.json(sessions.map(session => {
+        const metadata = (session.metadata || {}) as { recording?: schema.StreamRecordingMetadata };
+        return {
+          id: session.id,
+          startTime: session.startTime,
+          endTime: session.endTime,
+          duration: session.duration,
+          platform: session.platform,
+          status: session.status,
+          recording: metadata.recording || null
+        };
+      }));
+    } catch (error) {
+      console.error('Stream history error:', error);
+      res.status(500).json({ message: 'Failed to load stream history' });
+    }
+  });
+
+  // Load a session's recording, checking it belongs to the requesting user
+  async function getOwnedRecording(req: any) {
+    const session = await storage.getStreamingSession(parseInt(req.params.sessionId));
+    if (!session || session.userId !== req.user.id) {
+      throw new RecordingError('Recording not found', 404);
+    }
+
+    const metadata = (session.metadata || {}) as { recording?: schema.StreamRecordingMetadata };
+    if (!metadata.recording || metadata.recording.status === 'expired') {
+      throw new RecordingError('Recording not found', 404);
+    }
+
+    return { session, metadata, recording: metadata.recording };
+  }
+
+  function sendRecordingError(res: any, error: any, action: string) {
+    if (error instanceof RecordingError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error(`Recording ${action} error:`, error);
+    res.status(500).json({ message: `Failed to ${action} recording` });
+  }
+
+  app.get("/api/stream/recordings/:sessionId/download", isAuthenticated, async (req: any, res) => {
+    try {
+      const { session, recording } = await getOwnedRecording(req);
+      if (recording.status !== 'ready') {
+        return res.status(409).json({ message: `Recording is ${recording.status}` });
+      }
+
+      const filePath = resolveRecordingPath(recording.fileName);
+      if (!fs.existsSync(filePath)) {
+        return res.status(404).json({ message: 'Recording file is missing' });
+      }
+
+      res.download(filePath, `vida3-stream-${session.id}.mp4`);
+    } catch (error) {
+      sendRecordingError(res, error, 'download');
+    }
+  });
+
+  app.post("/api/stream/recordings/:sessionId/trim", isAuthenticated, async (req: any, res) => {
+    try {
+      const { session, metadata, recording } = await getOwnedRecording(req);
+      const trimmed = await trimRecording(recording, Number(req.body.start), Number(req.body.end));
+
+      await storage.updateStreamingSession(session.id, {
+        metadata: { ...metadata, recording: trimmed }
+      });
+      res.json({ success: true, recording: trimmed });
+    } catch (error) {
+      sendRecordingError(res, error, 'trim');
+    }
+  });
+
+  app.delete("/api/stream/recordings/:sessionId", isAuthenticated, async (req: any, res) => {
+    try {
+      const { session, metadata, recording } = await getOwnedRecording(req);
+      if (recording.status === 'recording') {
+        return res.status(409).json({ message: 'Stop the stream before deleting its recording' });
+      }
+
+      await deleteRecordingFiles(recording);
+      const { recording: _deleted, ...rest } = metadata;
+      await storage.updateStreamingSession(session.id, { metadata: rest });
+
+      res.json({ success: true });
+    } catch (error) {
+      sendRecordingError(res, error, 'delete');
+    }
+  });
+
+  // RTMP sources: the user's saved ingest destinations (snake_case to match the studio client).
+  // Stream keys never leave the server - responses carry a fixed mask.
+  function toRtmpSourceResponse(source: schema.RtmpSource) {
+    return {
+      id: source.id,
+      name: source.name,
+      url: source.url,
+      stream_key: STREAM_KEY_MASK,
+      bitrate: source.bitrate,
+      is_default: source.isDefault,
+      created_at: source.createdAt,
+      updated_at: source.updatedAt
+    };
+  }
+
+  // Accepts both the create form's field names (rtmp_url, stream_key) and the edit form's (url, streamKey)
+  function parseRtmpSourceBody(body: any): Partial<schema.InsertRtmpSource> {
+    const fields: Partial<schema.InsertRtmpSource> = {};
+    const url = body.url ?? body.rtmp_url;
+    const streamKey = body.streamKey ?? body.stream_key;
+
+    if (body.name !== undefined) fields.name = String(body.name).trim();
+    if (url !== undefined) {
+      fields.url = String(url).trim().replace(/\/+$/, '');
+      parseRtmpUrl(fields.url);
+    }
+    // The edit form echoes the mask back when the key wasn't changed
+    if (streamKey !== undefined && String(streamKey).trim() && !isMaskedStreamKey(String(streamKey))) {
+      fields.streamKey = String(streamKey).trim();
+    }
+    if (body.bitrate !== undefined) {
+      const bitrate = parseInt(body.bitrate);
+      if (!Number.isFinite(bitrate) || bitrate <= 0) {
+        throw new RtmpProtocolError('Bitrate must be a positive number of kbps');
+      }
+      fields.bitrate = bitrate;
+    }
+    if (body.is_default !== undefined || body.isDefault !== undefined) {
+      fields.isDefault = Boolean(body.is_default ?? body.isDefault);
+    }
+    return fields;
+  }
+
+  async function getOwnedRtmpSource(req: any) {
+    const source = await storage.getRtmpSource(parseInt(req.params.id ?? req.body.sourceId));
+    return source && source.userId === req.user.id ? source : undefined;
+  }
+
+  app.get("/api/rtmp-sources", isAuthenticated, async (req: any, res) => {
+    try {
+      const sources = await storage.getUserRtmpSources(req.user.id);
+      res.json(sources.map(toRtmpSourceResponse));
+    } catch (error) {
+      console.error('Get RTMP sources error:', error);
+      res.status(500).json({ message: 'Failed to load RTMP sources' });
+    }
+  });
+
+  app.post("/api/rtmp-sources", isAuthenticated, async (req: any, res) => {
+    try {
+      const fields = parseRtmpSourceBody(req.body);
+      if (!fields.name || !fields.url || !fields.streamKey) {
+        return res.status(400).json({ message: 'Name, RTMP URL and stream key are required' });
+      }
+
+      const source = await storage.createRtmpSource({
+        userId: req.user.id,
+        name: fields.name,
+        url: fields.url,
+        streamKey: fields.streamKey,
+        bitrate: fields.bitrate,
+        isDefault: fields.isDefault
+      });
+      res.status(201).json(toRtmpSourceResponse(source));
+    } catch (error) {
+      if (error instanceof RtmpProtocolError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Create RTMP source error:', error);
+      res.status(500).json({ message: 'Failed to create RTMP source' });
+    }
+  });
+
+  app.put("/api/rtmp-sources/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const source = await getOwnedRtmpSource(req);
+      if (!source) {
+        return res.status(404).json({ message: 'RTMP source not found' });
+      }
+
+      const updated = await storage.updateRtmpSource(source.id, parseRtmpSourceBody(req.body));
+      res.json(toRtmpSourceResponse(updated!));
+    } catch (error) {
+      if (error instanceof RtmpProtocolError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Update RTMP source error:', error);
+      res.status(500).json({ message: 'Failed to update RTMP source' });
+    }
+  });
+
+  app.delete("/api/rtmp-sources/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const source = await getOwnedRtmpSource(req);
+      if (!source) {
+        return res.status(404).json({ message: 'RTMP source not found' });
+      }
+
+      await storage.deleteRtmpSource(source.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete RTMP source error:', error);
+      res.status(500).json({ message: 'Failed to delete RTMP source' });
+    }
+  });
+
+  // Ingest preflight: handshake and publish probe against a saved source, plus upload bandwidth
+  app.post("/api/stream/preflight", isAuthenticated, async (req: any, res) => {
+    try {
+      const source = await getOwnedRtmpSource(req);
+      if (!source) {
+        return res.status(404).json({ message: 'RTMP source not found' });
+      }
+
+      // The deadline keeps the whole probe inside the client's 15s request timeout
+      const result = await runRtmpPreflight(source.url, source.streamKey, {
+        timeoutMs: 2500,
+        deadlineMs: 12000,
+        measureBandwidth: req.body.measureBandwidth !== false,
+        bandwidthDurationMs: 2000
+      });
+      const userPlan = req.user.user_metadata?.plan || 'free';
+
+      res.json({
+        sourceId: source.id,
+        ...result,
+        recommendedBitrate: result.bandwidth ? recommendBitrate(result.bandwidth.uploadKbps, userPlan) : null
+      });
+    } catch (error) {
+      if (error instanceof RtmpProtocolError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Stream preflight error:', error);
+      res.status(500).json({ message: 'Preflight check failed' });
+    }
+  });
+
   const httpServer = createServer(app);
   
   // Initialize streaming servers
   try {
     console.log('🎬 Initializing VIDA³ streaming servers...');
     
-    // Initialize Replit RTMP Server for WebRTC-to-RTMP streaming
-    const rtmpServer = setupReplitRTMPServer(httpServer);
-    console.log('✅ Replit RTMP Server initialized on /rtmp-relay');
-    
-    // Initialize Media Server for additional streaming capabilities
-    const mediaServer = setupMediaServer(httpServer);
-    console.log('✅ Media Server initialized on /media-relay');
+    // Studio broadcasts: one authenticated gateway feeding RTMP, recording and preview outputs
+    setupStreamingGateway(httpServer, {
+      authenticate: async (token) => {
+        const { data, error } = await supabaseAdmin.auth.getUser(token);
+        if (error || !data.user) return null;
+        return { id: data.user.id, plan: data.user.user_metadata?.plan || 'free' };
+      }
+    });
+
+    // Move plaintext and retired-key stream keys onto the current encryption key
+    storage.reencryptRtmpSourceKeys()
+      .then(count => count > 0 && console.log(`🔐 Re-encrypted ${count} RTMP stream key(s)`))
+      .catch(error => console.error('❌ Stream key re-encryption failed:', error));
     
     console.log('🎯 VIDA³ streaming infrastructure ready');
   } catch (error) {
@@ -3196,17 +3612,6 @@ export async function registerRoutes(app: Express, wsInstance?: any, io?: any):
     }
   });
 
-  // Add missing RTMP sources endpoint
-  app.get("/api/rtmp-sources", async (req: any, res: Response) => {
-    try {
-      // Return empty array for now
-      res.json([]);
-    } catch (error) {
-      console.error('Get RTMP sources error:', error);
-      res.status(500).json({ error: 'Internal server error' });
-    }
-  });
-
   return httpServer;
 }
 
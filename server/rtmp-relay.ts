@@ -1,89 +0,0 @@
-import { WebSocketServer } from 'ws';
-import { Server } from 'http';
-
-export function setupRTMPRelay(server: Server) {
-  const wss = new WebSocketServer({ 
-    server, 
-    path: '/rtmp-relay'
-  });
-
-  wss.on('connection', (ws) => {
-    console.log('WebRTC-RTMP relay connection established');
-
-    ws.on('message', (data) => {
-      try {
-        const message = JSON.parse(data.toString());
-        
-        switch (message.type) {
-          case 'start-stream':
-            handleStartStream(ws, message);
-            break;
-          case 'stop-stream':
-            handleStopStream(ws, message);
-            break;
-          case 'webrtc-offer':
-            handleWebRTCOffer(ws, message);
-            break;
-          default:
-            console.log('Unknown message type:', message.type);
-        }
-      } catch (error) {
-        console.error('Error processing relay message:', error);
-      }
-    });
-
-    ws.on('close', () => {
-      console.log('RTMP relay connection closed');
-    });
-  });
-
-  return wss;
-}
-
-function handleStartStream(ws: any, message: any) {
-  const { rtmpUrl, streamKey } = message;
-  
-  if (!rtmpUrl || !streamKey) {
-    ws.send(JSON.stringify({
-      type: 'error',
-      message: 'RTMP URL and stream key required'
-    }));
-    return;
-  }
-
-  // In a production environment, this would:
-  // 1. Set up FFmpeg process to receive WebRTC stream
-  // 2. Transcode and forward to RTMP endpoint
-  // 3. Handle connection status and errors
-  
-  console.log('Starting RTMP relay to:', rtmpUrl);
-  
-  ws.send(JSON.stringify({
-    type: 'stream-ready',
-    message: 'RTMP relay initialized',
-    rtmpUrl: rtmpUrl.replace(streamKey, '***')
-  }));
-}
-
-function handleStopStream(ws: any, message: any) {
-  console.log('Stopping RTMP relay');
-  
-  ws.send(JSON.stringify({
-    type: 'stream-stopped',
-    message: 'RTMP relay stopped'
-  }));
-}
-
-function handleWebRTCOffer(ws: any, message: any) {
-  // In production, this would handle WebRTC negotiation
-  // and set up the media pipeline to RTMP
-  
-  console.log('Received WebRTC offer for RTMP relay');
-  
-  // Simulate WebRTC answer
-  ws.send(JSON.stringify({
-    type: 'webrtc-answer',
-    sdp: 'mock-answer-sdp',
-    message: 'WebRTC connection established'
-  }));
-}
\ No newline at end of file
@@ -0,0 +1,141 @@
+/**
+ * VIDA³ Avatar LOD Generator
+ * Decimated copies of a rigged avatar for small viewer tiles and crowded
+ * co-stream grids (see shared/avatar-lod.ts for how a level is picked).
+ *
+ * Each level welds identical vertices, simplifies every primitive with
+ * meshoptimizer and shrinks its textures. Simplification only keeps a
+ * subset of the original vertices, so JOINTS/WEIGHTS and morph target
+ * deltas carry over untouched; each level is checked for that before it is
+ * kept. A level that barely reduces the previous one is skipped, so small
+ * models end up with fewer levels.
+ */
+
+import type { Document } from '@gltf-transform/core';
+import { simplify, textureCompress, weld } from '@gltf-transform/functions';
+import { MeshoptSimplifier } from 'meshoptimizer';
+import sharp from 'sharp';
+import { readGltfDocument, writeGltfDocument } from './gltf-skinning';
+import type { AvatarLodLevel } from '@shared/avatar-lod';
+
+export class LodError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LodError';
+  }
+}
+
+interface LodPreset {
+  level: number;
+  ratio: number;       // target share of level 0's triangles
+  error: number;       // meshoptimizer error limit, fraction of the mesh radius
+  textureSize: number; // longest texture edge
+}
+
+export const LOD_PRESETS: LodPreset[] = [
+  { level: 1, ratio: 0.5, error: 0.01, textureSize: 1024 },
+  { level: 2, ratio: 0.2, error: 0.02, textureSize: 512 },
+  { level: 3, ratio: 0.08, error: 0.05, textureSize: 256 }
+];
+
+// A level must drop at least this share of the previous level's triangles
+const MIN_LEVEL_REDUCTION = 0.2;
+
+export interface LodVariant extends Omit<AvatarLodLevel, 'url'> {
+  buffer: Buffer;
+}
+
+interface RigSignature {
+  skins: number;
+  skinnedPrimitives: number;
+  morphTargets: number[];
+}
+
+/**
+ * Level 0 (the input as given) plus up to three decimated levels
+ */
+export async function generateLodVariants(buffer: Buffer): Promise<LodVariant[]> {
+  await MeshoptSimplifier.ready;
+  const startTime = Date.now();
+
+  const source = await readGltfDocument(buffer);
+  const signature = rigSignature(source);
+  const base = baseVariant(source, buffer);
+  const variants: LodVariant[] = [base];
+
+  for (const preset of LOD_PRESETS) {
+    // Each level starts from the full model so errors don't accumulate
+    const document = await readGltfDocument(buffer);
+    await document.transform(
+      weld(),
+      simplify({ simplifier: MeshoptSimplifier, ratio: preset.ratio, error: preset.error }),
+      textureCompress({ encoder: sharp, resize: [preset.textureSize, preset.textureSize] })
+    );
+
+    const previous = variants[variants.length - 1];
+    const { vertices, triangles } = countGeometry(document);
+    if (triangles > previous.triangles * (1 - MIN_LEVEL_REDUCTION)) {
+      console.log(`⏭️ LOD ${preset.level} skipped: ${triangles} triangles is too close to LOD ${previous.level} (${previous.triangles})`);
+      break;
+    }
+
+    const lodSignature = rigSignature(document);
+    if (JSON.stringify(lodSignature) !== JSON.stringify(signature)) {
+      throw new LodError(`LOD ${preset.level} lost rig data: ${JSON.stringify(signature)} became ${JSON.stringify(lodSignature)}`);
+    }
+
+    const lodBuffer = await writeGltfDocument(document);
+    variants.push({
+      level: preset.level,
+      ratio: Math.round(triangles / base.triangles * 1000) / 1000,
+      vertices,
+      triangles,
+      fileSize: lodBuffer.length,
+      maxTextureSize: maxTextureSize(document),
+      buffer: lodBuffer
+    });
+  }
+
+  console.log(`🔻 Generated ${variants.length - 1} LOD levels in ${Date.now() - startTime}ms: ${variants.map(variant => `${variant.triangles} tris / ${(variant.fileSize / 1024 / 1024).toFixed(2)}MB`).join(' → ')}`);
+  return variants;
+}
+
+/**
+ * Level 0 on its own, for when decimating the model fails
+ */
+export async function generateBaseLodVariant(buffer: Buffer): Promise<LodVariant> {
+  return baseVariant(await readGltfDocument(buffer), buffer);
+}
+
+function baseVariant(source: Document, buffer: Buffer): LodVariant {
+  const { vertices, triangles } = countGeometry(source);
+  return { level: 0, ratio: 1, vertices, triangles, fileSize: buffer.length, maxTextureSize: maxTextureSize(source), buffer };
+}
+
+function countGeometry(document: Document): { vertices: number; triangles: number } {
+  let vertices = 0;
+  let triangles = 0;
+  for (const mesh of document.getRoot().listMeshes()) {
+    for (const primitive of mesh.listPrimitives()) {
+      const count = primitive.getAttribute('POSITION')?.getCount() ?? 0;
+      vertices += count;
+      triangles += Math.floor((primitive.getIndices()?.getCount() ?? count) / 3);
+    }
+  }
+  return { vertices, triangles };
+}
+
+// What every level must keep from level 0 to stay drivable by the same rig
+function rigSignature(document: Document): RigSignature {
+  const primitives = document.getRoot().listMeshes().flatMap(mesh => mesh.listPrimitives());
+  return {
+    skins: document.getRoot().listSkins().length,
+    skinnedPrimitives: primitives.filter(primitive => primitive.getAttribute('JOINTS_0') && primitive.getAttribute('WEIGHTS_0')).length,
+    morphTargets: primitives.map(primitive => primitive.listTargets().length)
+  };
+}
+
+function maxTextureSize(document: Document): number | null {
+  const sizes = document.getRoot().listTextures().map(texture => Math.max(...(texture.getSize() ?? [0, 0])));
+  return sizes.length > 0 ? Math.max(...sizes) : null;
+}
@@ -14,9 +14,14 @@ import path from 'path';
 import sharp from 'sharp';
 import https from 'https';
 import { URL } from 'url';
-import { vidaRig, RigAnalysis } from './vida-rig';
 import { glbThumbnailGenerator } from './glb-thumbnail-generator';
-import { enhancedGLBRigger } from './enhanced-glb-rigger';
+import { runRiggingEngine, type RiggingEngineResult } from './rigging-engine';
+import { exportVrm, VRM_LICENSE_URL, type VrmMeta } from './vrm';
+import { buildAvatarBoneMap, describeSkeleton } from './bone-map';
+import { generateBaseLodVariant, generateLodVariants, type LodVariant } from './avatar-lod-generator';
+import { optimizeAvatarGlb, type AvatarOptimization, type OptimizedAvatar } from './avatar-optimizer';
+import type { AvatarLodLevel } from '@shared/avatar-lod';
+import { isBoneMap, type BoneAssignments, type BoneMap } from '@shared/retargeting';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
@@ -342,6 +347,7 @@ export class AvatarManager {
   // Auto-rig avatar using VidaRig AI system
   async autoRigAvatar(avatarId: number, userPlan: string = 'free'): Promise<{
     success: boolean;
+    engine?: RiggingEngineResult['engine'];
     sessionId?: string;
     riggedModelUrl?: string;
     studioUrl?: string;
@@ -366,10 +372,6 @@ export class AvatarManager {
         throw new Error('Failed to download model file');
       }
 
-      // Initialize VidaRig Enhanced 10-Model Pipeline
-      await vidaRig.initialize();
-      console.log('🔧 Using Enhanced 10-Model Hugging Face Pipeline for authentic bone/morph target placement');
-      
       // Get subscription tier configuration
       const tierConfig = await this.getSubscriptionTierConfig(userPlan);
       console.log('📊 Subscription tier config:', {
@@ -378,27 +380,18 @@ export class AvatarManager {
         maxMorphTargets: tierConfig.maxMorphTargets
       });
 
-      // Analyze model structure with Enhanced Pipeline
-      const analysis = await vidaRig.analyzeModel(modelBuffer);
-      console.log('📊 Enhanced Pipeline Analysis:', {
-        vertices: analysis.vertices,
-        humanoidConfidence: analysis.humanoidStructure.confidence,
-        hasExistingBones: analysis.hasExistingBones,
-        suggestedBones: analysis.suggestedBones.length
+      // Rig within the plan row's limits
+      const rigResult = await runRiggingEngine(modelBuffer, userPlan, {
+        limits: { maxBones: tierConfig.maxBones, maxMorphTargets: tierConfig.maxMorphTargets }
       });
-      
-      // Perform Enhanced 10-Model Pipeline auto-rigging with authentic AI models
-      console.log('🚀 Starting Enhanced 10-Model Pipeline with authentic AI models...');
-      const enhancedTierConfig = { ...tierConfig, userPlan, plan: userPlan };
-      const rigResult = await vidaRig.runEnhanced10ModelPipeline([], analysis, enhancedTierConfig);
-      console.log('🦴 Enhanced 10-Model Pipeline Result:', {
+      const analysis = this.summarizeRigAnalysis(rigResult);
+      console.log('🦴 Rigging result:', {
+        engine: rigResult.engine,
         boneCount: rigResult.statistics.boneCount,
         morphTargets: rigResult.statistics.morphCount,
         hasFaceRig: rigResult.hasFaceRig,
         hasBodyRig: rigResult.hasBodyRig,
         hasHandRig: rigResult.hasHandRig,
-        modelsUsed: rigResult.statistics.modelsUsed,
-        modelsSuccessful: rigResult.statistics.modelsSuccessful,
         userPlan: userPlan
       });
       
@@ -419,6 +412,7 @@ export class AvatarManager {
           fileSize: modelBuffer.length
         },
         rigResult: {
+          engine: rigResult.engine,
           boneCount: rigResult.statistics.boneCount,
           morphTargets: rigResult.morphTargets,
           hasFaceRig: rigResult.hasFaceRig,
@@ -472,13 +466,11 @@ export class AvatarManager {
       // DO NOT update database - only cache for preview
       // Database update happens only when user saves the rigged model
       
-      console.log(`✅ VidaRig auto-rigging completed for avatar ${avatarId}`);
-      
-      // Use enhanced rigged model analysis for accurate data
-      const riggedAnalysis = (rigResult as any).enhancedAnalysis || {};
+      console.log(`✅ VidaRig auto-rigging completed for avatar ${avatarId} with "${rigResult.engine}" engine`);
       
       return {
         success: true,
+        engine: rigResult.engine,
         sessionId: rigSessionId,
         riggedModelUrl,
         studioUrl: `/studio?avatar=${avatarId}`,
@@ -496,6 +488,56 @@ export class AvatarManager {
     }
   }
 
+  /**
+   * Compressed LOD levels of the rigged model for clients to download. The
+   * uncompressed rigged model stays at riggedModelUrl as the master; the
+   * returned optimization reports what LOD 0 saved against it. Compression
+   * doesn't depend on decimation, so if the LODs fail LOD 0 is still
+   * delivered compressed, on its own.
+   */
+  private async uploadDeliveryModels(riggedBuffer: Buffer, riggedModelUrl: string, avatarId: number): Promise<{
+    lodLevels: AvatarLodLevel[] | null;
+    optimization: AvatarOptimization | null;
+  }> {
+    const optimizedMaster = await this.optimizeForDelivery(riggedBuffer, avatarId);
+    const optimization = optimizedMaster?.report ?? null;
+    try {
+      let variants: LodVariant[];
+      try {
+        variants = await generateLodVariants(riggedBuffer);
+      } catch (error) {
+        console.error(`⚠️ LOD generation failed for avatar ${avatarId}, delivering LOD 0 only:`, error);
+        variants = [await generateBaseLodVariant(riggedBuffer)];
+      }
+
+      const lodLevels: AvatarLodLevel[] = [];
+      for (const { buffer, ...variant } of variants) {
+        const optimized = variant.level === 0 ? optimizedMaster : await this.optimizeForDelivery(buffer, avatarId);
+
+        const filename = variant.level === 0 ? `rigged_avatar_${avatarId}_optimized.glb` : `rigged_avatar_${avatarId}_lod${variant.level}.glb`;
+        const url = variant.level === 0 && !optimized
+          ? riggedModelUrl
+          : `https://gateway.pinata.cloud/ipfs/${(await this.uploadToIPFS(optimized?.buffer ?? buffer, filename)).IpfsHash}`;
+        lodLevels.push({ ...variant, fileSize: optimized?.buffer.length ?? variant.fileSize, url });
+      }
+      return { lodLevels, optimization };
+    } catch (error) {
+      // The full-resolution model still works everywhere, just heavier
+      console.error(`⚠️ Delivery models failed for avatar ${avatarId}:`, error);
+      return { lodLevels: null, optimization };
+    }
+  }
+
+  // A level that can't be compressed is delivered as it is
+  private async optimizeForDelivery(buffer: Buffer, avatarId: number): Promise<OptimizedAvatar | null> {
+    try {
+      return await optimizeAvatarGlb(buffer);
+    } catch (error) {
+      console.error(`⚠️ Optimization failed for avatar ${avatarId}, delivering uncompressed:`, error);
+      return null;
+    }
+  }
+
   // Clear session cache (memory + disk)
   clearSessionCache(sessionId: string): void {
     try {
@@ -564,15 +606,16 @@ export class AvatarManager {
       const ipfsResult = await this.uploadToIPFS(cachedModel.buffer, `rigged_avatar_${avatarId}.glb`);
       const riggedModelUrl = `https://gateway.pinata.cloud/ipfs/${ipfsResult.IpfsHash}`;
 
-      // Generate thumbnail from GLB model preview
-      const thumbnailBuffer = await this.generateThumbnailFromGLB(cachedModel.buffer);
-      const thumbnailResult = await this.uploadToIPFS(thumbnailBuffer, `thumbnail_${avatarId}.png`);
-      const thumbnailUrl = `https://gateway.pinata.cloud/ipfs/${thumbnailResult.IpfsHash}`;
+      // Render thumbnail and turntable preview of the rigged model
+      const { thumbnailIpfsHash, thumbnailUrl, frontThumbnailUrl, previewUrl } = await this.uploadModelImages(cachedModel.buffer, `avatar_${avatarId}`);
 
       console.log(`📸 Generated thumbnail and uploaded to IPFS: ${thumbnailUrl}`);
 
+      const { lodLevels, optimization } = await this.uploadDeliveryModels(cachedModel.buffer, riggedModelUrl, avatarId);
+
       // Get original avatar data
       const [originalAvatar] = await db.select().from(avatars).where(eq(avatars.id, avatarId));
+      const boneMap = buildAvatarBoneMap(cachedModel.buffer);
       
       // Update avatar with rigged model and thumbnail URLs
       const [riggedAvatar] = await db.update(avatars)
@@ -580,6 +623,9 @@ export class AvatarManager {
           riggedModelUrl: riggedModelUrl,
           riggedIpfsHash: ipfsResult.IpfsHash,
           thumbnailUrl: thumbnailUrl, // Store thumbnail for streaming access
+          ...(previewUrl && { previewUrl }),
+          ...(frontThumbnailUrl && { frontThumbnailUrl }),
+          lodLevels,
           isRigged: true,
           faceTrackingEnabled: cachedModel.rigResult.hasFaceRig,
           bodyTrackingEnabled: cachedModel.rigResult.hasBodyRig,
@@ -588,20 +634,26 @@ export class AvatarManager {
           metadata: originalAvatar.metadata ? {
             ...originalAvatar.metadata,
             vidaRigAnalysis: cachedModel.analysis,
+            boneMap,
             rigResult: {
+              engine: cachedModel.rigResult.engine,
               boneCount: cachedModel.rigResult.boneCount,
               morphTargets: cachedModel.rigResult.morphTargets.length,
               riggedAt: new Date().toISOString()
             },
-            thumbnailIpfsHash: thumbnailResult.IpfsHash
+            optimization,
+            thumbnailIpfsHash
           } : {
             vidaRigAnalysis: cachedModel.analysis,
+            boneMap,
             rigResult: {
+              engine: cachedModel.rigResult.engine,
               boneCount: cachedModel.rigResult.boneCount,
               morphTargets: cachedModel.rigResult.morphTargets.length,
               riggedAt: new Date().toISOString()
             },
-            thumbnailIpfsHash: thumbnailResult.IpfsHash
+            optimization,
+            thumbnailIpfsHash
           },
           updatedAt: new Date()
         })
@@ -626,35 +678,34 @@ export class AvatarManager {
     }
   }
 
-  // Generate thumbnail from GLB model using actual 3D model data
-  private async generateThumbnailFromGLB(glbBuffer: Buffer): Promise<Buffer> {
-    try {
-      console.log(`📸 Generating actual 2D thumbnail from GLB model (${(glbBuffer.length / 1024 / 1024).toFixed(2)}MB)`);
-      
-      // Use GLB thumbnail generator to create actual 2D image of the model
-      const thumbnailBuffer = await glbThumbnailGenerator.generateThumbnail(glbBuffer, {
-        width: 512,
-        height: 512,
-        transparent: true,
-        backgroundColor: 'transparent'
-      });
-
-      console.log(`✅ Generated GLB thumbnail: ${thumbnailBuffer.length} bytes`);
-      return thumbnailBuffer;
-    } catch (error) {
-      console.error('❌ GLB thumbnail generation failed:', error);
-      
-      // Fallback: use the generator's fallback method
-      return await glbThumbnailGenerator.generateThumbnail(Buffer.alloc(0), {
-        width: 512,
-        height: 512,
-        transparent: true
-      });
-    }
+  // Render 3/4 view and front view stills (PNG) and a turntable preview (WebP) of the model and upload them
+  private async uploadModelImages(glbBuffer: Buffer, baseName: string): Promise<{
+    thumbnailIpfsHash: string;
+    thumbnailUrl: string;
+    frontThumbnailUrl: string | null;
+    previewUrl: string | null;
+  }> {
+    console.log(`📸 Rendering thumbnails and turntable from GLB model (${(glbBuffer.length / 1024 / 1024).toFixed(2)}MB)`);
+    const { thumbnail, front, preview } = await glbThumbnailGenerator.generateImages(glbBuffer, {
+      width: 512,
+      height: 512,
+      transparent: true
+    });
+
+    const thumbnailResult = await this.uploadToIPFS(thumbnail, `thumb_${baseName}.png`);
+    const frontResult = front ? await this.uploadToIPFS(front, `front_${baseName}.png`) : null;
+    const previewResult = preview ? await this.uploadToIPFS(preview, `turntable_${baseName}.webp`) : null;
+    return {
+      thumbnailIpfsHash: thumbnailResult.IpfsHash,
+      thumbnailUrl: `https://gateway.pinata.cloud/ipfs/${thumbnailResult.IpfsHash}`,
+      frontThumbnailUrl: frontResult ? `https://gateway.pinata.cloud/ipfs/${frontResult.IpfsHash}` : null,
+      previewUrl: previewResult ? `https://gateway.pinata.cloud/ipfs/${previewResult.IpfsHash}` : null
+    };
   }
 
 
 
+
   // Get subscription tier configuration from Supabase database
   public async getSubscriptionTierConfig(userPlan: string) {
     try {
@@ -772,128 +823,6 @@ export class AvatarManager {
     }
   }
 
-  // Determine rigging quality based on vertex count and subscription tier
-  private determineRigQuality(vertices: number): {
-    includeFace: boolean;
-    includeBody: boolean;
-    includeHands: boolean;
-    faceBlendShapeCount: number;
-    quality: 'basic' | 'standard' | 'premium';
-  } {
-    if (vertices > 100000) {
-      // Premium quality for high-poly models
-      return {
-        includeFace: true,
-        includeBody: true,
-        includeHands: true,
-        faceBlendShapeCount: 52, // ARKit-compatible blend shapes
-        quality: 'premium'
-      };
-    } else if (vertices > 50000) {
-      // Standard quality for medium-poly models
-      return {
-        includeFace: true,
-        includeBody: true,
-        includeHands: false,
-        faceBlendShapeCount: 32, // Essential facial expressions
-        quality: 'standard'
-      };
-    } else {
-      // Basic quality for low-poly models
-      return {
-        includeFace: true,
-        includeBody: true,
-        includeHands: false,
-        faceBlendShapeCount: 16, // Core expressions only
-        quality: 'basic'
-      };
-    }
-  }
-
-  // Generate facial blend shapes for real-time animation
-  private async generateFacialBlendShapes(fileBuffer: Buffer, rigQuality: any): Promise<{
-    names: string[];
-    targets: any[];
-    weights: number[];
-  }> {
-    // Define ARKit-compatible blend shape names for podcast streaming
-    const coreBlendShapes = [
-      'eyeBlinkLeft', 'eyeLookDownLeft', 'eyeLookInLeft', 'eyeLookOutLeft', 'eyeLookUpLeft',
-      'eyeBlinkRight', 'eyeLookDownRight', 'eyeLookInRight', 'eyeLookOutRight', 'eyeLookUpRight',
-      'jawForward', 'jawLeft', 'jawRight', 'jawOpen',
-      'mouthClose', 'mouthFunnel', 'mouthPucker', 'mouthLeft', 'mouthRight',
-      'mouthSmileLeft', 'mouthSmileRight', 'mouthFrownLeft', 'mouthFrownRight',
-      'browDownLeft', 'browDownRight', 'browInnerUp', 'browOuterUpLeft', 'browOuterUpRight',
-      'cheekPuff', 'cheekSquintLeft', 'cheekSquintRight',
-      'noseSneerLeft', 'noseSneerRight'
-    ];
-
-    const extendedBlendShapes = [
-      ...coreBlendShapes,
-      'mouthDimpleLeft', 'mouthDimpleRight', 'mouthLowerDownLeft', 'mouthLowerDownRight',
-      'mouthPressLeft', 'mouthPressRight', 'mouthRollLower', 'mouthRollUpper',
-      'mouthShrugLower', 'mouthShrugUpper', 'mouthStretchLeft', 'mouthStretchRight',
-      'mouthUpperUpLeft', 'mouthUpperUpRight', 'tongueOut', 'viseme_A', 'viseme_E',
-      'viseme_I', 'viseme_O', 'viseme_U'
-    ];
-
-    const selectedShapes = rigQuality.faceBlendShapeCount <= 16 ? 
-      coreBlendShapes.slice(0, 16) :
-      rigQuality.faceBlendShapeCount <= 32 ?
-        coreBlendShapes :
-        extendedBlendShapes.slice(0, rigQuality.faceBlendShapeCount);
-
-    console.log(`🎨 Generated ${selectedShapes.length} facial blend shapes for ${rigQuality.quality} quality`);
-
-    return {
-      names: selectedShapes,
-      targets: selectedShapes.map(name => ({ name, weight: 0.0 })),
-      weights: new Array(selectedShapes.length).fill(0.0)
-    };
-  }
-
-  // Add advanced VRM-compatible rigging with facial blend shapes
-  private async addAdvancedVRMRigging(fileBuffer: Buffer, blendShapes: any): Promise<Buffer> {
-    console.log(`🦴 Adding VRM rigging with ${blendShapes.names.length} blend shapes`);
-    
-    // This simulates advanced rigging similar to vidarig approach
-    // In production, this would:
-    // 1. Parse GLB with gltf-transform or Three.js GLTFLoader
-    // 2. Analyze facial geometry and identify key vertices
-    // 3. Create facial bone rig with jaw, eye, and brow controls
-    // 4. Generate blend shape targets for each expression
-    // 5. Add VRM humanoid bone structure
-    // 6. Set up morph target animations
-    // 7. Export as VRM-compatible GLB
-    
-    // For now, we'll modify the buffer to include blend shape metadata
-    const riggedData = this.injectBlendShapeMetadata(fileBuffer, blendShapes);
-    
-    return riggedData;
-  }
-
-  // Inject blend shape metadata into GLB for podcast-style streaming
-  private injectBlendShapeMetadata(fileBuffer: Buffer, blendShapes: any): Buffer {
-    // Create a new buffer with blend shape information
-    // This simulates adding morph targets to the GLB file
-    
-    const metadata = {
-      rigType: 'podcast_optimized',
-      blendShapes: blendShapes.names,
-      morphTargets: blendShapes.targets,
-      faceRigVersion: '2.0',
-      snapchatCompatible: true,
-      arkitCompatible: true
-    };
-    
-    // In a real implementation, this would modify the GLB's JSON chunk
-    // to include morph target definitions and blend shape weights
-    
-    console.log(`📦 Injected metadata for ${blendShapes.names.length} morph targets`);
-    
-    return fileBuffer; // Return modified buffer
-  }
-
   // Create avatar studio session for manual refinement
   private async createStudioSession(avatarId: number, modelUrl: string, analysis: any): Promise<string> {
     const sessionId = `studio_${avatarId}_${Date.now()}`;
@@ -1028,7 +957,7 @@ export class AvatarManager {
             // Reconstruct temp avatar from file
             tempAvatar = {
               id: parseInt(tempAvatarId),
-              name: matchingFile.replace(/\.(glb|gltf)$/i, ''),
+              name: matchingFile.replace(/\.(glb|gltf|vrm)$/i, ''),
               type: 'glb-upload',
               modelUrl: `/temp/${matchingFile}`,
               fileSize: stats.size,
@@ -1075,23 +1004,19 @@ export class AvatarManager {
         maxMorphTargets: tierConfig.maxMorphTargets
       });
       
-      // Analyze GLB file structure using VidaRig
-      const analysis = await vidaRig.analyzeModel(fileBuffer);
-      console.log(`🔍 GLB Analysis:`, analysis);
-      
-      // Use Enhanced 10-Model Pipeline with AI-optimized quality and performance balance
-      console.log(`🚀 Starting Enhanced 10-Model Pipeline with AI-optimized balance for ${userPlan} plan...`);
-      console.log(`📊 Passing REAL GLB analysis with ${analysis.vertices} vertices to Enhanced Pipeline`);
-      const enhancedTierConfig = { ...tierConfig, userPlan, plan: userPlan };
-      const rigResult = await vidaRig.performLocalAutoRigging(fileBuffer, analysis, enhancedTierConfig);
-      
-      console.log(`✅ Enhanced 10-Model Pipeline completed:`, {
-        boneCount: rigResult.boneCount || 0,
-        morphTargets: rigResult.morphTargets?.length || 0,
-        hasFaceRig: rigResult.hasFaceRig || false,
-        hasBodyRig: rigResult.hasBodyRig || false,
-        hasHandRig: rigResult.hasHandRig || false,
-        fileSize: rigResult.riggedBuffer ? `${(rigResult.riggedBuffer.length / 1024 / 1024).toFixed(2)}MB` : '0MB'
+      // Rig within the plan row's limits
+      const rigResult = await runRiggingEngine(fileBuffer, userPlan, {
+        limits: { maxBones: tierConfig.maxBones, maxMorphTargets: tierConfig.maxMorphTargets }
+      });
+      const analysis = this.summarizeRigAnalysis(rigResult);
+      
+      console.log(`✅ Rigging completed with "${rigResult.engine}" engine:`, {
+        boneCount: rigResult.statistics.boneCount,
+        morphTargets: rigResult.statistics.morphCount,
+        hasFaceRig: rigResult.hasFaceRig,
+        hasBodyRig: rigResult.hasBodyRig,
+        hasHandRig: rigResult.hasHandRig,
+        fileSize: `${(rigResult.riggedBuffer.length / 1024 / 1024).toFixed(2)}MB`
       });
       
       // Store rigged model in cache with temp avatar ID as session
@@ -1102,11 +1027,12 @@ export class AvatarManager {
         timestamp: Date.now(),
         analysis: analysis,
         rigResult: {
+          engine: rigResult.engine,
           boneCount: rigResult.statistics.boneCount,
           morphTargets: rigResult.morphTargets,
-          hasFaceRig: rigResult.bones && Array.isArray(rigResult.bones) ? rigResult.bones.some((b: any) => b.type === 'head') : false,
-          hasBodyRig: rigResult.bones && Array.isArray(rigResult.bones) ? rigResult.bones.some((b: any) => b.type === 'spine') : false,
-          hasHandRig: rigResult.bones && Array.isArray(rigResult.bones) ? rigResult.bones.some((b: any) => b.type === 'hand') : false,
+          hasFaceRig: rigResult.hasFaceRig,
+          hasBodyRig: rigResult.hasBodyRig,
+          hasHandRig: rigResult.hasHandRig,
           riggedBuffer: rigResult.riggedBuffer
         },
         userPlan: userPlan,
@@ -1121,23 +1047,25 @@ export class AvatarManager {
       
       return {
         success: true,
+        engine: rigResult.engine,
         sessionId: tempAvatarId, // Use temp ID as session for serving
         boneCount: rigResult.statistics.boneCount,
         morphTargets: rigResult.statistics.morphCount,
         fileSize: rigResult.statistics.riggedSize,
         originalFileSize: rigResult.statistics.originalSize,
-        message: `Enhanced 10-Model Pipeline completed successfully! Generated ${rigResult.statistics.boneCount} bones and ${rigResult.statistics.morphCount} morph targets using ${rigResult.statistics.modelsSuccessful}/${rigResult.statistics.modelsUsed} AI models.`,
+        message: `Auto-rigging completed with the ${rigResult.engine} engine! Generated ${rigResult.statistics.boneCount} bones and ${rigResult.statistics.morphCount} morph targets.`,
         riggedModelUrl: `/api/avatars/rigged-preview/${tempAvatarId}`,
         metadata: {
           boneCount: rigResult.statistics.boneCount,
           morphTargets: rigResult.statistics.morphCount,
-          faceRig: rigResult.bones.some(b => b.type === 'head'),
-          bodyRig: rigResult.bones.some(b => b.type === 'spine'),
-          handRig: rigResult.bones.some(b => b.type === 'hand'),
+          faceRig: rigResult.hasFaceRig,
+          bodyRig: rigResult.hasBodyRig,
+          handRig: rigResult.hasHandRig,
           userPlan: userPlan,
           isTemporary: true,
-          aiModelReport: rigResult.aiModelReport,
-          processingTime: rigResult.statistics.processingTime
+          engine: rigResult.engine,
+          processingTime: rigResult.statistics.processingTime,
+          stageTimings: rigResult.statistics.stageTimings
         }
       };
     } catch (error: any) {
@@ -1146,6 +1074,16 @@ export class AvatarManager {
     }
   }
 
+  // Serializable analysis kept with cached rigs (the glTF document is not)
+  private summarizeRigAnalysis(rigResult: RiggingEngineResult) {
+    return {
+      engine: rigResult.engine,
+      vertices: rigResult.statistics.vertices,
+      humanoidStructure: rigResult.features,
+      joints: rigResult.joints.map(joint => joint.name)
+    };
+  }
+
   // Get rigged model from cache
   getRiggedModel(sessionId: string): RiggedModelCache | undefined {
     return this.riggedModelCache.get(sessionId);
@@ -1222,6 +1160,83 @@ export class AvatarManager {
     }
   }
 
+  /**
+   * Export an avatar's rig as VRM 1.0. Imported VRMs keep their own meta;
+   * everything else gets the most restrictive usage terms, credited to `author`.
+   */
+  async exportAvatarAsVrm(avatarId: number, userId: string, author: string): Promise<{ buffer: Buffer; fileName: string } | null> {
+    const avatar = await this.getAvatarById(avatarId, userId);
+    if (!avatar) return null;
+
+    const modelBuffer = await this.downloadFile(avatar.riggedModelUrl || avatar.modelUrl);
+    const meta: Omit<VrmMeta, 'specVersion'> = {
+      name: avatar.name,
+      authors: [author],
+      licenseUrl: VRM_LICENSE_URL,
+      avatarPermission: 'onlyAuthor',
+      commercialUsage: 'personalNonProfit',
+      allowExcessivelyViolentUsage: false,
+      allowExcessivelySexualUsage: false,
+      allowPoliticalOrReligiousUsage: false,
+      allowAntisocialOrHateUsage: false,
+      allowRedistribution: false,
+      modification: 'prohibited',
+      creditNotation: 'required'
+    };
+
+    const buffer = exportVrm(modelBuffer, meta);
+    console.log(`📤 Exported avatar ${avatarId} as VRM 1.0 (${(buffer.length / 1024 / 1024).toFixed(2)}MB)`);
+    return { buffer, fileName: `${avatar.name.replace(/[^a-zA-Z0-9]/g, '_')}.vrm` };
+  }
+
+  /**
+   * An avatar's retargeting map and the skeleton nodes it can point at.
+   * Avatars rigged before bone maps existed get one built and stored here.
+   */
+  async getAvatarBoneMap(avatarId: number, userId: string): Promise<{ boneMap: BoneMap; skeleton: string[] } | null> {
+    const avatar = await this.getAvatarById(avatarId, userId);
+    if (!avatar) return null;
+
+    const modelBuffer = await this.downloadFile(avatar.riggedModelUrl || avatar.modelUrl);
+    const skeleton = describeSkeleton(modelBuffer).map(bone => bone.name);
+    const stored = (avatar.metadata as any)?.boneMap;
+    if (isBoneMap(stored)) {
+      return { boneMap: stored, skeleton };
+    }
+
+    const boneMap = buildAvatarBoneMap(modelBuffer);
+    await this.storeBoneMap(avatar, boneMap);
+    return { boneMap, skeleton };
+  }
+
+  /**
+   * Apply bone-mapping edits on top of the stored map; `reset` drops
+   * earlier edits and goes back to the auto-detected mapping
+   */
+  async updateAvatarBoneMap(avatarId: number, userId: string, assignments: BoneAssignments, reset = false): Promise<BoneMap | null> {
+    const avatar = await this.getAvatarById(avatarId, userId);
+    if (!avatar) return null;
+
+    const modelBuffer = await this.downloadFile(avatar.riggedModelUrl || avatar.modelUrl);
+    const stored = (avatar.metadata as any)?.boneMap;
+    const boneMap = buildAvatarBoneMap(modelBuffer, reset || !isBoneMap(stored) ? null : stored, assignments);
+    await this.storeBoneMap(avatar, boneMap);
+    return boneMap;
+  }
+
+  private async storeBoneMap(avatar: Avatar, boneMap: BoneMap): Promise<void> {
+    await db
+      .update(schema.avatars)
+      .set({
+        metadata: {
+          ...(typeof avatar.metadata === 'object' && avatar.metadata !== null ? avatar.metadata : {}),
+          boneMap
+        },
+        updatedAt: new Date()
+      })
+      .where(eq(schema.avatars.id, avatar.id));
+  }
+
   // Delete avatar
   async deleteAvatar(avatarId: number, userId: string): Promise<boolean> {
     const [deletedAvatar] = await db.delete(avatars)
@@ -1629,13 +1644,12 @@ export class AvatarManager {
 
       // Upload model to IPFS
       console.log('🌐 Uploading model to IPFS...');
-      const modelFileName = `${name.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}.glb`;
+      const modelFileName = `${name.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}.${avatar.type === 'vrm-upload' ? 'vrm' : 'glb'}`;
       const ipfsResult = await this.uploadToIPFS(modelBuffer, modelFileName);
 
-      // Generate and upload thumbnail
+      // Render and upload thumbnail and turntable preview
       console.log('📸 Generating thumbnail...');
-      const thumbnailBuffer = await this.generateThumbnailFromGLB(modelBuffer);
-      const thumbnailResult = await this.uploadToIPFS(thumbnailBuffer, `thumb_${modelFileName}.png`);
+      const { thumbnailUrl, frontThumbnailUrl, previewUrl } = await this.uploadModelImages(modelBuffer, modelFileName);
 
       // Update avatar in database with proper IPFS URLs and metadata
       const updateData = {
@@ -1643,8 +1657,9 @@ export class AvatarManager {
         ipfsHash: ipfsResult.IpfsHash,
         modelUrl: `https://gateway.pinata.cloud/ipfs/${ipfsResult.IpfsHash}`,
         fileUrl: `https://gateway.pinata.cloud/ipfs/${ipfsResult.IpfsHash}`,
-        thumbnailUrl: `https://gateway.pinata.cloud/ipfs/${thumbnailResult.IpfsHash}`,
-        previewUrl: `https://gateway.pinata.cloud/ipfs/${ipfsResult.IpfsHash}`,
+        thumbnailUrl,
+        frontThumbnailUrl,
+        previewUrl: previewUrl ?? `https://gateway.pinata.cloud/ipfs/${ipfsResult.IpfsHash}`,
         fileSize: fileSize,
         isRigged: isRigged,
         lastUsedAt: new Date(),
@@ -0,0 +1,90 @@
+/**
+ * VIDA³ Avatar Optimizer
+ * Delivery copies of a rigged avatar: compressed geometry and WebP textures.
+ * The uncompressed file stays the master that re-rigging, bone mapping,
+ * LOD generation and VRM export read from; clients only download copies.
+ *
+ * Geometry uses meshopt (EXT_meshopt_compression) when the model has morph
+ * targets, since Draco leaves target deltas uncompressed, and Draco
+ * (KHR_draco_mesh_compression) otherwise. KTX2 textures need KTX-Software's
+ * toktx, which isn't part of the server image, so textures go to WebP.
+ * Every copy is checked to keep the rig before it is returned.
+ */
+
+import type { Document } from '@gltf-transform/core';
+import { draco, meshopt, textureCompress } from '@gltf-transform/functions';
+import { MeshoptEncoder } from 'meshoptimizer';
+import sharp from 'sharp';
+import { readGltfDocument, writeGltfDocument } from './gltf-skinning';
+
+export class OptimizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OptimizationError';
+  }
+}
+
+export type GeometryCompression = 'meshopt' | 'draco';
+
+// Reported on the avatar record as metadata.optimization
+export interface AvatarOptimization {
+  geometry: GeometryCompression;
+  textures: 'webp';
+  masterSize: number;
+  optimizedSize: number;
+  savedBytes: number;
+  savedPercent: number;
+}
+
+export interface OptimizedAvatar {
+  buffer: Buffer;
+  report: AvatarOptimization;
+}
+
+/**
+ * Compressed delivery copy of a GLB. The input buffer is left untouched.
+ */
+export async function optimizeAvatarGlb(buffer: Buffer): Promise<OptimizedAvatar> {
+  const startTime = Date.now();
+  const document = await readGltfDocument(buffer);
+  const before = rigCounts(document);
+  const geometry: GeometryCompression = before.morphTargets > 0 ? 'meshopt' : 'draco';
+
+  await document.transform(
+    textureCompress({ encoder: sharp, targetFormat: 'webp' }),
+    geometry === 'meshopt'
+      ? meshopt({ encoder: MeshoptEncoder, level: 'medium' })
+      : draco()
+  );
+  const optimized = await writeGltfDocument(document);
+
+  // Read the result back so a codec problem shows up here, not in a viewer
+  const after = rigCounts(await readGltfDocument(optimized));
+  if (JSON.stringify(after) !== JSON.stringify(before)) {
+    throw new OptimizationError(`Optimized model lost rig data: ${JSON.stringify(before)} became ${JSON.stringify(after)}`);
+  }
+
+  const savedBytes = buffer.length - optimized.length;
+  const report: AvatarOptimization = {
+    geometry,
+    textures: 'webp',
+    masterSize: buffer.length,
+    optimizedSize: optimized.length,
+    savedBytes,
+    savedPercent: Math.round(savedBytes / buffer.length * 1000) / 10
+  };
+
+  console.log(`🗜️ Optimized avatar with ${geometry} + webp in ${Date.now() - startTime}ms: ${(buffer.length / 1024 / 1024).toFixed(2)}MB → ${(optimized.length / 1024 / 1024).toFixed(2)}MB (${report.savedPercent}% saved)`);
+  return { buffer: optimized, report };
+}
+
+function rigCounts(document: Document): { skins: number; joints: number; skinnedPrimitives: number; morphTargets: number } {
+  const root = document.getRoot();
+  const primitives = root.listMeshes().flatMap(mesh => mesh.listPrimitives());
+  return {
+    skins: root.listSkins().length,
+    joints: root.listSkins().reduce((total, skin) => total + skin.listJoints().length, 0),
+    skinnedPrimitives: primitives.filter(primitive => primitive.getAttribute('JOINTS_0') && primitive.getAttribute('WEIGHTS_0')).length,
+    morphTargets: primitives.reduce((total, primitive) => total + primitive.listTargets().length, 0)
+  };
+}
@@ -0,0 +1,254 @@
+/**
+ * VIDA³ Blendshape Synthesis
+ * Generates the ARKit-52 facial blendshapes as real vertex deltas on the
+ * user's own mesh. Names follow ARKit exactly, so the blendshape scores from
+ * MediaPipe FaceLandmarker drive the morph targets one-to-one.
+ *
+ * The face is located from the placed skeleton: everything above the neck
+ * joint and within a head's width of the centre line is the head, and its
+ * front (+Z) half is the face. Features sit at canonical fractions of the
+ * chin-to-crown height, and each shape moves one or more elliptical regions
+ * of that face with a smooth falloff, so seams and neighbouring features
+ * blend instead of tearing. Characters face +Z, so their left side is +X and
+ * "Left" shapes move the character's left.
+ */
+
+import type { JointPlacement } from './joint-placement';
+import { totalVertexCount, type MorphTargetData, type PrimitiveGeometry, type Vec3 } from './gltf-skinning';
+
+// In priority order: a tier capped at N morph targets gets the first N
+export const ARKIT_BLENDSHAPES = [
+  // Free: speech and blinking
+  'jawOpen', 'eyeBlinkLeft', 'eyeBlinkRight', 'mouthSmileLeft', 'mouthSmileRight',
+  // Reply Guy: basic emotion and vowel shapes
+  'mouthFunnel', 'mouthPucker', 'browInnerUp', 'browDownLeft', 'browDownRight', 'mouthFrownLeft', 'mouthFrownRight',
+  // Spartan: eye and brow detail
+  'mouthClose', 'eyeWideLeft', 'eyeWideRight', 'eyeSquintLeft', 'eyeSquintRight', 'browOuterUpLeft', 'browOuterUpRight', 'cheekPuff',
+  // Zeus: gaze, jaw and mouth direction
+  'eyeLookUpLeft', 'eyeLookUpRight', 'eyeLookDownLeft', 'eyeLookDownRight',
+  'eyeLookInLeft', 'eyeLookInRight', 'eyeLookOutLeft', 'eyeLookOutRight',
+  'mouthLeft', 'mouthRight', 'jawLeft', 'jawRight', 'jawForward', 'mouthStretchLeft', 'mouthStretchRight',
+  // Goat: lip articulation
+  'mouthRollLower', 'mouthRollUpper', 'mouthShrugLower', 'mouthShrugUpper', 'mouthPressLeft', 'mouthPressRight',
+  'mouthLowerDownLeft', 'mouthLowerDownRight', 'mouthUpperUpLeft', 'mouthUpperUpRight',
+  'mouthDimpleLeft', 'mouthDimpleRight', 'cheekSquintLeft', 'cheekSquintRight', 'noseSneerLeft', 'noseSneerRight',
+  'tongueOut'
+] as const;
+
+export type ArkitBlendshapeName = typeof ARKIT_BLENDSHAPES[number];
+
+/**
+ * One moving patch of the face. `at` and `size` are in face coordinates:
+ * u across the face (-1 right edge, +1 left edge), v up it (0 chin, 1 crown).
+ * `move` is the full-weight displacement in face heights.
+ */
+interface FaceRegion {
+  at: [number, number];
+  size: [number, number];
+  move: Vec3;
+}
+
+interface FaceFrame {
+  centerX: number;
+  centerZ: number;
+  halfWidth: number;
+  halfDepth: number;
+  chinY: number;
+  height: number;
+}
+
+// Canonical feature positions on a neutral face (character's left side)
+const EYE: [number, number] = [0.38, 0.48];
+const BROW: [number, number] = [0.38, 0.6];
+const MOUTH_CORNER: [number, number] = [0.22, 0.2];
+const UPPER_LIP: [number, number] = [0, 0.235];
+const LOWER_LIP: [number, number] = [0, 0.17];
+const JAW: [number, number] = [0, 0.08];
+
+function region(at: [number, number], size: [number, number], move: Vec3): FaceRegion {
+  return { at, size, move };
+}
+
+// Same region on the character's right: u and the X movement flip
+function mirror(face: FaceRegion): FaceRegion {
+  return region([-face.at[0], face.at[1]], face.size, [-face.move[0], face.move[1], face.move[2]]);
+}
+
+function bothSides(face: FaceRegion): FaceRegion[] {
+  return [face, mirror(face)];
+}
+
+// Shapes with a Left/Right pair are defined once for the left side
+const SIDED_SHAPES: Record<string, FaceRegion[]> = {
+  eyeBlink: [
+    region([EYE[0], EYE[1] + 0.03], [0.18, 0.06], [0, -0.035, 0]),
+    region([EYE[0], EYE[1] - 0.03], [0.16, 0.04], [0, 0.01, 0])
+  ],
+  eyeSquint: [region([EYE[0], EYE[1] - 0.03], [0.18, 0.05], [0, 0.015, 0])],
+  eyeWide: [region([EYE[0], EYE[1] + 0.04], [0.18, 0.06], [0, 0.02, 0])],
+  eyeLookUp: [region(EYE, [0.12, 0.05], [0, 0.012, 0])],
+  eyeLookDown: [region(EYE, [0.12, 0.05], [0, -0.012, 0])],
+  eyeLookIn: [region(EYE, [0.12, 0.05], [-0.012, 0, 0])],
+  eyeLookOut: [region(EYE, [0.12, 0.05], [0.012, 0, 0])],
+  browDown: [region(BROW, [0.25, 0.06], [0, -0.02, 0.004])],
+  browOuterUp: [region([BROW[0] + 0.17, BROW[1] + 0.01], [0.15, 0.06], [0, 0.025, 0])],
+  cheekSquint: [region([0.45, 0.38], [0.2, 0.07], [0, 0.015, 0.003])],
+  noseSneer: [region([0.1, 0.36], [0.1, 0.06], [0, 0.015, 0.003])],
+  jaw: [region(JAW, [0.9, 0.2], [0.03, 0, 0])],
+  mouth: [region([0, 0.2], [0.4, 0.08], [0.025, 0, 0])],
+  mouthSmile: [region(MOUTH_CORNER, [0.15, 0.07], [0.015, 0.025, -0.005])],
+  mouthFrown: [region(MOUTH_CORNER, [0.15, 0.07], [0, -0.02, 0])],
+  mouthDimple: [region(MOUTH_CORNER, [0.12, 0.06], [0.01, 0, -0.01])],
+  mouthStretch: [region(MOUTH_CORNER, [0.15, 0.07], [0.02, -0.01, 0])],
+  mouthPress: [region([0.1, 0.2], [0.15, 0.05], [0, 0, -0.008])],
+  mouthLowerDown: [region([0.1, LOWER_LIP[1] - 0.01], [0.15, 0.04], [0, -0.02, 0])],
+  mouthUpperUp: [region([0.1, UPPER_LIP[1] + 0.005], [0.15, 0.04], [0, 0.02, 0])]
+};
+
+const CENTER_SHAPES: Record<string, FaceRegion[]> = {
+  jawOpen: [region(JAW, [0.9, 0.2], [0, -0.07, -0.01])],
+  jawForward: [region(JAW, [0.9, 0.2], [0, 0, 0.025])],
+  mouthClose: [
+    region(LOWER_LIP, [0.3, 0.04], [0, 0.02, 0]),
+    region(UPPER_LIP, [0.3, 0.035], [0, -0.01, 0])
+  ],
+  mouthFunnel: [region([0, 0.2], [0.3, 0.07], [0, 0, 0.02])],
+  mouthPucker: [
+    region([0, 0.2], [0.35, 0.07], [0, 0, 0.025]),
+    ...bothSides(region(MOUTH_CORNER, [0.1, 0.05], [-0.02, 0, 0.005]))
+  ],
+  mouthRollLower: [region(LOWER_LIP, [0.3, 0.035], [0, 0.005, -0.015])],
+  mouthRollUpper: [region(UPPER_LIP, [0.3, 0.035], [0, -0.005, -0.015])],
+  mouthShrugLower: [region([0, 0.14], [0.3, 0.05], [0, 0.015, 0.005])],
+  mouthShrugUpper: [region([0, 0.24], [0.3, 0.04], [0, 0.01, 0])],
+  browInnerUp: bothSides(region([0.15, BROW[1]], [0.14, 0.06], [0, 0.025, 0])),
+  cheekPuff: bothSides(region([0.45, 0.28], [0.22, 0.12], [0.01, 0, 0.02])),
+  tongueOut: [region([0, 0.18], [0.15, 0.04], [0, -0.01, 0.03])]
+};
+
+function shapeRegions(name: ArkitBlendshapeName): FaceRegion[] {
+  if (CENTER_SHAPES[name]) return CENTER_SHAPES[name];
+
+  const side = name.endsWith('Left') ? 'Left' : 'Right';
+  const regions = SIDED_SHAPES[name.slice(0, -side.length)];
+  return side === 'Left' ? regions : regions.map(mirror);
+}
+
+/**
+ * Generate up to maxTargets ARKit blendshapes for world-space geometry (see
+ * prepareForSkinning), in the global vertex order used by writeMorphTargets.
+ * Returns nothing when no face can be located on the mesh.
+ */
+export function synthesizeBlendshapes(
+  geometries: PrimitiveGeometry[],
+  placement: JointPlacement,
+  maxTargets: number
+): MorphTargetData[] {
+  const names = ARKIT_BLENDSHAPES.slice(0, Math.max(0, maxTargets));
+  if (names.length === 0) return [];
+
+  const frame = locateFace(geometries, placement);
+  if (!frame) {
+    console.log('⚠️ No face region found on the mesh, skipping blendshapes');
+    return [];
+  }
+
+  const head = placement.joints.find(joint => joint.name === 'head');
+  if (head?.source === 'template') {
+    console.log('⚠️ Head placed from template, blendshapes use estimated face proportions');
+  }
+
+  const vertexCount = totalVertexCount(geometries);
+  const morphs: MorphTargetData[] = names.map(name => ({ name, positionDeltas: new Float32Array(vertexCount * 3) }));
+  const regions = names.map(shapeRegions);
+
+  for (const geometry of geometries) {
+    for (let i = 0; i < geometry.vertexCount; i++) {
+      const x = geometry.positions[i * 3];
+      const y = geometry.positions[i * 3 + 1];
+      const z = geometry.positions[i * 3 + 2];
+
+      // Only the front of the head moves, fading out toward the ears
+      const front = smoothstep(0, 0.5, (z - frame.centerZ) / frame.halfDepth);
+      if (front === 0) continue;
+
+      const u = (x - frame.centerX) / frame.halfWidth;
+      const v = (y - frame.chinY) / frame.height;
+      if (Math.abs(u) > 1.2 || v < -0.3 || v > 1) continue;
+
+      const offset = (geometry.vertexOffset + i) * 3;
+      for (let m = 0; m < morphs.length; m++) {
+        for (const face of regions[m]) {
+          const du = (u - face.at[0]) / face.size[0];
+          const dv = (v - face.at[1]) / face.size[1];
+          const falloff = 1 - (du * du + dv * dv);
+          if (falloff <= 0) continue;
+
+          const weight = front * falloff * falloff * frame.height;
+          morphs[m].positionDeltas[offset] += face.move[0] * weight;
+          morphs[m].positionDeltas[offset + 1] += face.move[1] * weight;
+          morphs[m].positionDeltas[offset + 2] += face.move[2] * weight;
+        }
+      }
+    }
+  }
+
+  console.log(`😀 Synthesized ${morphs.length} ARKit blendshapes on a ${frame.height.toFixed(3)}m face`);
+  return morphs;
+}
+
+/**
+ * Head bounds above the neck joint, with the chin taken as the lowest point
+ * of the front centre of the head
+ */
+function locateFace(geometries: PrimitiveGeometry[], placement: JointPlacement): FaceFrame | null {
+  const neck = placement.joints.find(joint => joint.name === 'neck');
+  const head = placement.joints.find(joint => joint.name === 'head');
+  if (!neck || !head) return null;
+
+  const span = placement.headTop[1] - neck.position[1];
+  if (span <= 0) return null;
+
+  const headVertices: Vec3[] = [];
+  for (const geometry of geometries) {
+    for (let i = 0; i < geometry.vertexCount; i++) {
+      const x = geometry.positions[i * 3];
+      const y = geometry.positions[i * 3 + 1];
+      if (y > neck.position[1] + span * 0.1 && Math.abs(x - head.position[0]) < span) {
+        headVertices.push([x, y, geometry.positions[i * 3 + 2]]);
+      }
+    }
+  }
+  if (headVertices.length === 0) return null;
+
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (const vertex of headVertices) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], vertex[axis]);
+      max[axis] = Math.max(max[axis], vertex[axis]);
+    }
+  }
+
+  const centerX = (min[0] + max[0]) / 2;
+  const centerZ = (min[2] + max[2]) / 2;
+  const halfWidth = (max[0] - min[0]) / 2;
+  const halfDepth = (max[2] - min[2]) / 2;
+  if (halfWidth <= 0 || halfDepth <= 0) return null;
+
+  let chinY = Infinity;
+  for (const [x, y, z] of headVertices) {
+    if (z > centerZ + halfDepth * 0.5 && Math.abs(x - centerX) < halfWidth * 0.3) {
+      chinY = Math.min(chinY, y);
+    }
+  }
+  if (!Number.isFinite(chinY)) chinY = min[1];
+
+  const height = max[1] - chinY;
+  return height > 0 ? { centerX, centerZ, halfWidth, halfDepth, chinY, height } : null;
+}
+
+function smoothstep(edge0: number, edge1: number, value: number): number {
+  const t = Math.min(1, Math.max(0, (value - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
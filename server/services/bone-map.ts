@@ -0,0 +1,95 @@
+/**
+ * VIDA³ Bone Map
+ * Builds the persisted retargeting map (avatars.metadata.boneMap) from a
+ * model file, see shared/retargeting.ts for the conventions and the math.
+ *
+ * The skeleton is every skin joint plus its ancestors, so an armature node
+ * rotated or scaled by the exporter (Mixamo, Blender) still counts toward
+ * the bind rotations. VRM files map through their own humanoid extension;
+ * everything else is matched by naming convention. Edits from the
+ * bone-mapping editor are reapplied on every rebuild.
+ */
+
+import { Quaternion, Vector3 } from 'three';
+import { GLBExporter } from './glb-exporter';
+import { humanBoneNames, isVrm, parentIndices, worldTransforms } from './vrm';
+import {
+  buildBoneMap,
+  HUMANOID_BONES,
+  type BoneAssignments,
+  type BoneMap,
+  type Quat,
+  type SkeletonBone
+} from '@shared/retargeting';
+
+export class BoneMapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BoneMapError';
+  }
+}
+
+/**
+ * Skeleton nodes of a GLB with their bind rotations in model space
+ */
+export function describeSkeleton(buffer: Buffer): SkeletonBone[] {
+  const { json } = GLBExporter.parseGLB(buffer);
+  const nodes: any[] = json.nodes ?? [];
+  const parents = parentIndices(json);
+  const world = worldTransforms(json);
+
+  const included = new Set<number>();
+  const include = (index: number) => {
+    for (let node = index; node !== -1 && !included.has(node); node = parents[node]) included.add(node);
+  };
+  for (const skin of json.skins ?? []) {
+    for (const joint of skin.joints ?? []) include(joint);
+  }
+  if (isVrm(buffer)) {
+    const names = new Set(Object.values(humanBoneNames(json)));
+    nodes.forEach((node, index) => names.has(node.name ?? `node_${index}`) && include(index));
+  }
+
+  const nameOf = (index: number) => nodes[index].name ?? `node_${index}`;
+  const rotation = new Quaternion();
+  return Array.from(included).sort((a, b) => a - b).map(index => {
+    world[index].decompose(new Vector3(), rotation, new Vector3());
+    return {
+      name: nameOf(index),
+      parent: parents[index] === -1 ? null : nameOf(parents[index]),
+      rest: rotation.toArray() as Quat
+    };
+  });
+}
+
+/**
+ * Bone map for a GLB or VRM. `previous` carries the hand edits of the map
+ * being replaced; `assignments` adds new ones on top.
+ */
+export function buildAvatarBoneMap(buffer: Buffer, previous?: BoneMap | null, assignments: BoneAssignments = {}): BoneMap {
+  const skeleton = describeSkeleton(buffer);
+  const nodeNames = new Set(skeleton.map(bone => bone.name));
+  for (const [bone, node] of Object.entries(assignments)) {
+    if (!(HUMANOID_BONES as readonly string[]).includes(bone)) {
+      throw new BoneMapError(`Unknown humanoid bone "${bone}"`);
+    }
+    if (node !== null && !nodeNames.has(node)) {
+      throw new BoneMapError(`Node "${node}" is not part of the avatar's skeleton`);
+    }
+  }
+
+  const edits: BoneAssignments = {};
+  for (const bone of previous?.edited ?? []) {
+    edits[bone] = previous?.bones[bone]?.node ?? null;
+  }
+
+  const vrm = isVrm(buffer);
+  const boneMap = buildBoneMap(skeleton, {
+    convention: vrm ? 'vrm' : undefined,
+    pinned: vrm ? humanBoneNames(GLBExporter.parseGLB(buffer).json) : undefined,
+    assignments: { ...edits, ...assignments }
+  });
+
+  console.log(`🦴 Bone map: ${boneMap.convention} skeleton, ${Object.keys(boneMap.bones).length}/${skeleton.length} nodes mapped${boneMap.edited ? `, ${boneMap.edited.length} edited` : ''}`);
+  return boneMap;
+}
@@ -0,0 +1,173 @@
+/**
+ * VIDA³ Encoding Profile Builder
+ * Derives the effective FFmpeg video settings for an RTMP output from the
+ * user's plan, the chosen RTMP source and the studio's quality setting
+ */
+
+import { getSubscriptionTierConfig } from './subscription-rigging-tiers';
+import { AUDIO_CHANNELS, AUDIO_SAMPLE_RATE } from '@shared/frame-protocol';
+
+export type StreamQuality = '720p' | '1080p';
+export type H264Profile = 'baseline' | 'main' | 'high';
+
+export interface EncodingProfileRequest {
+  userPlan: string;
+  quality?: string;           // studio streamQuality setting
+  sourceBitrate?: number;     // rtmp_sources.bitrate (kbps)
+  frameRate?: number;         // requested output fps
+  preferredProfile?: H264Profile;
+}
+
+export interface EncodingProfile {
+  quality: StreamQuality;
+  width: number;
+  height: number;
+  frameRate: number;
+  gopSize: number;            // frames between keyframes
+  keyframeIntervalSec: number;
+  h264Profile: H264Profile;
+  h264Level: string;
+  videoBitrate: number;       // kbps
+  maxBitrate: number;         // kbps
+  bufferSize: number;         // kbits
+  audioBitrate: number;       // kbps
+  preset: string;
+}
+
+export class EncodingProfileError extends Error {
+  constructor(message: string, public readonly field: 'quality' | 'frameRate' | 'bitrate') {
+    super(message);
+    this.name = 'EncodingProfileError';
+  }
+}
+
+const RESOLUTIONS: Record<StreamQuality, { width: number; height: number; defaultBitrate: number }> = {
+  '720p': { width: 1280, height: 720, defaultBitrate: 3000 },
+  '1080p': { width: 1920, height: 1080, defaultBitrate: 6000 },
+};
+
+// RTMP ingest services (X, Twitch, YouTube) accept at most 60fps
+const MAX_INGEST_FRAME_RATE = 60;
+const DEFAULT_FRAME_RATE = 30;
+const MIN_VIDEO_BITRATE = 500;
+// Twitch and YouTube require a keyframe at least every 2 seconds
+const KEYFRAME_INTERVAL_SEC = 2;
+const AUDIO_BITRATE = 128;
+
+/**
+ * Smallest H.264 level whose macroblock rate covers the output
+ */
+function selectH264Level(width: number, height: number, frameRate: number): string {
+  const macroblocksPerSecond = Math.ceil(width / 16) * Math.ceil(height / 16) * frameRate;
+
+  if (macroblocksPerSecond <= 108000) return '3.1';
+  if (macroblocksPerSecond <= 245760) return '4.1';
+  if (macroblocksPerSecond <= 522240) return '4.2';
+  return '5.1';
+}
+
+/**
+ * Build the effective encoding profile. Throws EncodingProfileError when the
+ * requested combination exceeds what the plan allows instead of silently
+ * downgrading, so the studio can tell the user why.
+ */
+export function buildEncodingProfile(request: EncodingProfileRequest): EncodingProfile {
+  const tier = getSubscriptionTierConfig(request.userPlan);
+  const quality: StreamQuality = request.quality === '720p' ? '720p' : '1080p';
+
+  if (quality === '1080p' && tier.maxStreamResolution === '720p') {
+    throw new EncodingProfileError(
+      `The ${request.userPlan} plan is limited to 720p streaming. Upgrade for 1080p.`,
+      'quality'
+    );
+  }
+
+  const maxFrameRate = Math.min(tier.maxFrameRate, MAX_INGEST_FRAME_RATE);
+  const frameRate = request.frameRate ?? Math.min(DEFAULT_FRAME_RATE, maxFrameRate);
+  if (!Number.isFinite(frameRate) || frameRate < 1) {
+    throw new EncodingProfileError(`Invalid frame rate ${request.frameRate}`, 'frameRate');
+  }
+  if (frameRate > maxFrameRate) {
+    throw new EncodingProfileError(
+      `The ${request.userPlan} plan allows up to ${maxFrameRate}fps, ${frameRate}fps requested.`,
+      'frameRate'
+    );
+  }
+
+  const { width, height, defaultBitrate } = RESOLUTIONS[quality];
+  const videoBitrate = request.sourceBitrate ?? Math.min(defaultBitrate, tier.maxStreamBitrate);
+  if (!Number.isFinite(videoBitrate) || videoBitrate < MIN_VIDEO_BITRATE) {
+    throw new EncodingProfileError(`Bitrate must be at least ${MIN_VIDEO_BITRATE}kbps`, 'bitrate');
+  }
+  if (videoBitrate > tier.maxStreamBitrate) {
+    throw new EncodingProfileError(
+      `The ${request.userPlan} plan allows up to ${tier.maxStreamBitrate}kbps, ${videoBitrate}kbps requested.`,
+      'bitrate'
+    );
+  }
+
+  return {
+    quality,
+    width,
+    height,
+    frameRate,
+    gopSize: Math.round(frameRate * KEYFRAME_INTERVAL_SEC),
+    keyframeIntervalSec: KEYFRAME_INTERVAL_SEC,
+    h264Profile: request.preferredProfile ?? 'high',
+    h264Level: selectH264Level(width, height, frameRate),
+    videoBitrate,
+    maxBitrate: videoBitrate,
+    bufferSize: videoBitrate * 2,
+    audioBitrate: AUDIO_BITRATE,
+    preset: 'ultrafast',
+  };
+}
+
+/**
+ * FFmpeg input arguments for the studio feed: raw RGBA frames on stdin and
+ * the mixed s16le audio bus on fd 3, mapped as the output's video/audio
+ */
+export function studioInputFFmpegArgs(profile: EncodingProfile): string[] {
+  return [
+    '-f', 'rawvideo',
+    '-pix_fmt', 'rgba',
+    '-s', `${profile.width}x${profile.height}`,
+    '-r', String(profile.frameRate),
+    '-i', 'pipe:0',
+
+    '-thread_queue_size', '512',
+    '-f', 's16le',
+    '-ar', String(AUDIO_SAMPLE_RATE),
+    '-ac', String(AUDIO_CHANNELS),
+    '-i', 'pipe:3',
+
+    '-map', '0:v',
+    '-map', '1:a',
+  ];
+}
+
+/**
+ * FFmpeg output arguments for the video encoder described by a profile
+ */
+export function encodingProfileToFFmpegArgs(profile: EncodingProfile): string[] {
+  return [
+    '-c:v', 'libx264',
+    '-preset', profile.preset,
+    '-profile:v', profile.h264Profile,
+    '-level:v', profile.h264Level,
+    '-pix_fmt', 'yuv420p',
+    '-s', `${profile.width}x${profile.height}`,
+    '-b:v', `${profile.videoBitrate}k`,
+    '-maxrate', `${profile.maxBitrate}k`,
+    '-bufsize', `${profile.bufferSize}k`,
+    '-r', String(profile.frameRate),
+    '-g', String(profile.gopSize),
+    '-keyint_min', String(profile.gopSize),
+    '-sc_threshold', '0',
+    '-force_key_frames', `expr:gte(t,n_forced*${profile.keyframeIntervalSec})`,
+  ];
+}
+
+export function describeEncodingProfile(profile: EncodingProfile): string {
+  return `${profile.width}x${profile.height}@${profile.frameRate} H.264 ${profile.h264Profile}@${profile.h264Level} ${profile.videoBitrate}k (GOP ${profile.gopSize})`;
+}
@@ -1,824 +0,0 @@
-/**
- * Enhanced 10-Model GLB Auto-Rigger with AI-Optimized Performance/Quality Balance
- * Uses intelligent analysis to determine optimal bone and morph configuration
- */
-
-import { HfInference } from '@huggingface/inference';
-
-export interface EnhancedRiggingResult {
-  riggedBuffer: Buffer;
-  bones: BoneHierarchy[];
-  morphTargets: MorphTarget[];
-  aiModelReport: string;
-  statistics: {
-    originalSize: number;
-    riggedSize: number;
-    boneCount: number;
-    morphCount: number;
-    processingTime: number;
-    modelsUsed: number;
-    modelsSuccessful: number;
-  };
-}
-
-export interface BoneHierarchy {
-  id: number;
-  name: string;
-  type: 'root' | 'spine' | 'head' | 'neck' | 'shoulder' | 'arm' | 'hand' | 'hip' | 'leg' | 'foot';
-  position: [number, number, number];
-  rotation: [number, number, number, number];
-  parent: number | null;
-  children: number[];
-  weight: number;
-}
-
-export interface MorphTarget {
-  name: string;
-  type: 'facial' | 'body' | 'corrective';
-  vertexDeltas: Float32Array;
-  normalDeltas: Float32Array;
-  weight: number;
-}
-
-export class EnhancedGLBRigger {
-  private hf: HfInference;
-  private tierLimits: any;
-
-  // Professional 10-Model Pipeline for Comprehensive GLB Analysis
-  private readonly ENHANCED_MODELS = [
-    // Facial Analysis & Expression Generation (Models 1-3)
-    'microsoft/DialoGPT-medium',           // Advanced facial expression understanding
-    'facebook/detr-resnet-50',             // Object detection for facial features
-    'microsoft/resnet-50',                 // Image classification for face analysis
-    
-    // Body Structure & Pose Analysis (Models 4-6)
-    'google/vit-base-patch16-224',         // Vision transformer for body structure
-    'huggingface/CodeBERTa-small-v1',      // Code generation for bone hierarchy
-    'microsoft/deberta-v3-base',           // Advanced text understanding for rigging
-    
-    // Bone Hierarchy & Animation Optimization (Models 7-8)
-    'facebook/blenderbot-400M-distill',    // Conversational AI for rigging decisions
-    'microsoft/DialoGPT-large',            // Large-scale dialogue for complex rigging
-    
-    // Morph Target & Quality Analysis (Models 9-10)
-    'openai/clip-vit-base-patch32',        // Vision-language model for morphs
-    'sentence-transformers/all-MiniLM-L6-v2' // Sentence embedding for optimization
-  ];
-
-  constructor() {
-    this.hf = new HfInference(process.env.HUGGINGFACE_API_KEY);
-  }
-
-  private async initialize(userPlan: string): Promise<void> {
-    // Get subscription tier configuration from database
-    const { db } = await import('../db');
-    const { subscriptionPlans } = await import('../../shared/schema');
-    const { eq } = await import('drizzle-orm');
-
-    const [plan] = await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.id, userPlan));
-    
-    if (!plan) {
-      throw new Error(`Subscription plan '${userPlan}' not found in database`);
-    }
-
-    this.tierLimits = {
-      maxBones: plan.maxBones,
-      maxMorphTargets: plan.maxMorphTargets,
-      maxFileSizeMB: plan.maxFileSizeMb
-    };
-
-    console.log(`🎯 Enhanced Pipeline initialized for ${userPlan} plan:`, this.tierLimits);
-  }
-
-  async processGLB(buffer: Buffer, userPlan: string): Promise<EnhancedRiggingResult> {
-    await this.initialize(userPlan);
-    
-    const startTime = Date.now();
-    const originalSize = buffer.length;
-    
-    console.log(`🚀 Enhanced 10-Model Pipeline processing ${(originalSize / 1024 / 1024).toFixed(1)}MB GLB`);
-    
-    // Step 1: Analyze GLB structure
-    const analysis = await this.analyzeGLBStructure(buffer);
-    
-    // Step 2: Run Enhanced 10-Model AI Pipeline
-    const modelResults = await this.runEnhanced10ModelPipeline(buffer, analysis);
-    
-    // Step 3: Generate AI-optimized bones
-    const bones = await this.generateAIOptimizedBones(analysis, modelResults);
-    
-    // Step 4: Generate AI-optimized morph targets
-    const morphTargets = await this.generateAIOptimizedMorphs(analysis, modelResults);
-    
-    // Step 5: Apply rigging to GLB with substantial data embedding
-    const riggedBuffer = await this.applyEnhancedRigging(buffer, bones, morphTargets);
-    
-    // Step 6: Generate comprehensive AI model report
-    const aiModelReport = this.generateModelUsageReport(modelResults);
-    
-    const processingTime = Date.now() - startTime;
-    const riggedSize = riggedBuffer.length;
-    
-    console.log(`✅ Enhanced rigging complete: ${bones.length} bones, ${morphTargets.length} morphs, ${(riggedSize / 1024 / 1024).toFixed(1)}MB`);
-    
-    return {
-      riggedBuffer,
-      bones,
-      morphTargets,
-      aiModelReport,
-      statistics: {
-        originalSize,
-        riggedSize,
-        boneCount: bones.length,
-        morphCount: morphTargets.length,
-        processingTime,
-        modelsUsed: this.ENHANCED_MODELS.length,
-        modelsSuccessful: modelResults.filter(r => r.success).length
-      }
-    };
-  }
-
-  private async analyzeGLBStructure(buffer: Buffer): Promise<any> {
-    // Parse GLB header and JSON chunk
-    const view = new DataView(buffer.buffer);
-    const magic = view.getUint32(0, true);
-    
-    if (magic !== 0x46546C67) { // 'glTF'
-      throw new Error('Invalid GLB file format');
-    }
-    
-    const version = view.getUint32(4, true);
-    const length = view.getUint32(8, true);
-    const jsonChunkLength = view.getUint32(12, true);
-    
-    const jsonChunk = buffer.slice(20, 20 + jsonChunkLength);
-    const gltf = JSON.parse(jsonChunk.toString('utf8'));
-    
-    // Calculate vertices and analyze structure
-    let totalVertices = 0;
-    let meshCount = 0;
-    
-    if (gltf.meshes) {
-      meshCount = gltf.meshes.length;
-      gltf.meshes.forEach((mesh: any) => {
-        mesh.primitives?.forEach((primitive: any) => {
-          if (primitive.attributes?.POSITION !== undefined) {
-            const accessor = gltf.accessors[primitive.attributes.POSITION];
-            totalVertices += accessor.count;
-          }
-        });
-      });
-    }
-    
-    return {
-      vertices: totalVertices,
-      meshes: meshCount,
-      materials: gltf.materials?.length || 0,
-      hasExistingBones: gltf.skins?.length > 0,
-      hasAnimations: gltf.animations?.length > 0,
-      humanoidFeatures: {
-        hasHead: true,
-        hasTorso: true,
-        hasArms: true,
-        hasLegs: true,
-        confidence: 0.9
-      }
-    };
-  }
-
-  private async runEnhanced10ModelPipeline(buffer: Buffer, analysis: any): Promise<any[]> {
-    console.log(`🧠 Running Enhanced 10-Model Pipeline for AI-optimized rigging`);
-    
-    const modelResults: any[] = [];
-    
-    for (let i = 0; i < this.ENHANCED_MODELS.length; i++) {
-      const modelName = this.ENHANCED_MODELS[i];
-      const startTime = Date.now();
-      
-      try {
-        let result;
-        
-        // Models 1-3: Facial Analysis
-        if (i < 3) {
-          const facialPrompt = `Analyze facial structure for avatar rigging: ${analysis.vertices} vertices, humanoid confidence ${analysis.humanoidFeatures.confidence}. Generate optimal facial bone placement for streaming performance.`;
-          
-          result = await this.hf.textGeneration({
-            model: modelName,
-            inputs: facialPrompt,
-            parameters: { 
-              max_new_tokens: 120, 
-              temperature: 0.2
-            }
-          });
-        }
-        // Models 4-6: Body Structure Analysis
-        else if (i < 6) {
-          const bodyPrompt = `Analyze body structure for avatar rigging: ${analysis.meshes} meshes, ${analysis.materials} materials. Determine optimal bone hierarchy for real-time tracking performance.`;
-          
-          result = await this.hf.textGeneration({
-            model: modelName,
-            inputs: bodyPrompt,
-            parameters: { 
-              max_new_tokens: 140, 
-              temperature: 0.1
-            }
-          });
-        }
-        // Models 7-8: Bone Hierarchy Optimization
-        else if (i < 8) {
-          const hierarchyPrompt = `Generate optimized bone hierarchy for streaming avatar: Balance performance vs quality. Recommend bone count for ${analysis.vertices} vertices with existing bones: ${analysis.hasExistingBones}.`;
-          
-          result = await this.hf.textGeneration({
-            model: modelName,
-            inputs: hierarchyPrompt,
-            parameters: { 
-              max_new_tokens: 180, 
-              temperature: 0.1
-            }
-          });
-        }
-        // Models 9-10: Morph Target Generation
-        else {
-          const morphPrompt = `Generate optimal morph targets for avatar: Balance facial expressions (60%), body corrections (30%), and performance morphs (10%). Optimize for ${analysis.vertices} vertices.`;
-          
-          result = await this.hf.textGeneration({
-            model: modelName,
-            inputs: morphPrompt,
-            parameters: { 
-              max_new_tokens: 160, 
-              temperature: 0.4
-            }
-          });
-        }
-        
-        const processingTime = Date.now() - startTime;
-        modelResults.push({
-          modelIndex: i,
-          modelName,
-          success: true,
-          result,
-          processingTime,
-          category: i < 3 ? 'facial' : i < 6 ? 'body' : i < 8 ? 'hierarchy' : 'morphs'
-        });
-        
-        console.log(`✅ Model ${i + 1}/10: ${modelName.split('/')[1] || modelName} (${processingTime}ms)`);
-        
-      } catch (error: any) {
-        console.error(`❌ Model ${i + 1}/10: ${modelName} - ${error.message}`);
-        
-        modelResults.push({
-          modelIndex: i,
-          modelName,
-          success: false,
-          error: error.message,
-          processingTime: Date.now() - startTime,
-          category: i < 3 ? 'facial' : i < 6 ? 'body' : i < 8 ? 'hierarchy' : 'morphs'
-        });
-      }
-    }
-    
-    const successCount = modelResults.filter(r => r.success).length;
-    console.log(`📊 Enhanced Pipeline: ${successCount}/10 models successful`);
-    
-    if (successCount < 3) {
-      throw new Error(`Enhanced 10-Model Pipeline requires minimum 3 successful models, got ${successCount}`);
-    }
-    
-    return modelResults;
-  }
-
-  private async generateAIOptimizedBones(analysis: any, modelResults: any[]): Promise<BoneHierarchy[]> {
-    const bones: BoneHierarchy[] = [];
-    
-    // AI-driven optimization based on model complexity and use case
-    const complexity = this.calculateModelComplexity(analysis);
-    const optimizedBoneCount = this.calculateOptimalBoneCount(complexity, analysis);
-    
-    console.log(`🦴 AI-optimized bone count: ${optimizedBoneCount} (complexity: ${complexity.toFixed(2)})`);
-    
-    // Essential core bones for all models (15-18 bones)
-    const coreCount = Math.min(18, optimizedBoneCount);
-    for (let i = 0; i < coreCount; i++) {
-      bones.push({
-        id: i,
-        name: this.getCoreBoneName(i),
-        type: this.getCoreBoneType(i),
-        position: this.getCorePosition(i),
-        rotation: [0, 0, 0, 1],
-        parent: i > 0 ? Math.floor(i / 3) : null,
-        children: [],
-        weight: 0.9
-      });
-    }
-    
-    // Add detail bones based on AI analysis
-    if (optimizedBoneCount > 18) {
-      const detailBones = this.generateDetailBones(analysis, modelResults, optimizedBoneCount - bones.length);
-      bones.push(...detailBones);
-    }
-    
-    console.log(`✅ Generated ${bones.length} AI-optimized bones for performance/quality balance`);
-    return bones;
-  }
-
-  private calculateModelComplexity(analysis: any): number {
-    // Calculate complexity score based on model characteristics
-    let complexity = 0;
-    
-    // Vertex density factor (0.0 - 0.4)
-    const vertexFactor = Math.min(0.4, analysis.vertices / 100000);
-    complexity += vertexFactor;
-    
-    // Mesh complexity factor (0.0 - 0.2)
-    const meshFactor = Math.min(0.2, analysis.meshes / 10);
-    complexity += meshFactor;
-    
-    // Material complexity factor (0.0 - 0.2)
-    const materialFactor = Math.min(0.2, analysis.materials / 20);
-    complexity += materialFactor;
-    
-    // Existing rigging factor (0.0 - 0.2)
-    const riggingFactor = analysis.hasExistingBones ? 0.2 : 0;
-    complexity += riggingFactor;
-    
-    return Math.min(1.0, complexity);
-  }
-
-  private calculateOptimalBoneCount(complexity: number, analysis: any): number {
-    const maxBones = this.tierLimits.maxBones;
-    
-    // Base bone count for simple models (15-25 bones)
-    let optimalBones = 18;
-    
-    if (complexity < 0.3) {
-      // Simple models: Focus on essential bones only
-      optimalBones = Math.min(25, Math.max(15, Math.floor(maxBones * 0.3)));
-    } else if (complexity < 0.6) {
-      // Medium complexity: Balanced approach
-      optimalBones = Math.min(40, Math.max(25, Math.floor(maxBones * 0.5)));
-    } else {
-      // Complex models: More bones for quality, but stay efficient
-      optimalBones = Math.min(60, Math.max(35, Math.floor(maxBones * 0.7)));
-    }
-    
-    // Humanoid models benefit from additional facial bones
-    if (analysis.humanoidFeatures?.confidence > 0.8) {
-      optimalBones += 8;
-    }
-    
-    return Math.min(maxBones, optimalBones);
-  }
-
-  private generateDetailBones(analysis: any, modelResults: any[], remainingBones: number): BoneHierarchy[] {
-    const detailBones: BoneHierarchy[] = [];
-    const baseId = 18; // After core bones
-    
-    // Prioritize facial bones for humanoid models
-    if (analysis.humanoidFeatures?.confidence > 0.7 && remainingBones > 0) {
-      const facialCount = Math.min(12, remainingBones);
-      for (let i = 0; i < facialCount; i++) {
-        detailBones.push({
-          id: baseId + detailBones.length,
-          name: `facial_${i + 1}`,
-          type: 'head',
-          position: [Math.sin(i * 0.5) * 0.3, 1.2 + (i * 0.02), Math.cos(i * 0.5) * 0.2],
-          rotation: [0, 0, 0, 1],
-          parent: 1, // Head bone
-          children: [],
-          weight: 0.6
-        });
-      }
-      remainingBones -= facialCount;
-    }
-    
-    // Add finger bones if complexity warrants it (aligned with tracking system)
-    if (remainingBones > 0 && analysis.vertices > 20000) {
-      const fingerBones = [
-        // Left hand fingers
-        'leftThumb1', 'leftThumb2', 'leftThumb3',
-        'leftIndex1', 'leftIndex2', 'leftIndex3',
-        'leftMiddle1', 'leftMiddle2', 'leftMiddle3',
-        'leftRing1', 'leftRing2', 'leftRing3',
-        'leftPinky1', 'leftPinky2', 'leftPinky3',
-        // Right hand fingers
-        'rightThumb1', 'rightThumb2', 'rightThumb3',
-        'rightIndex1', 'rightIndex2', 'rightIndex3',
-        'rightMiddle1', 'rightMiddle2', 'rightMiddle3',
-        'rightRing1', 'rightRing2', 'rightRing3',
-        'rightPinky1', 'rightPinky2', 'rightPinky3'
-      ];
-      
-      const fingerCount = Math.min(fingerBones.length, remainingBones);
-      for (let i = 0; i < fingerCount; i++) {
-        const boneName = fingerBones[i];
-        const isLeft = boneName.includes('left');
-        const handParent = isLeft ? 9 : 13; // leftHand or rightHand index
-        
-        detailBones.push({
-          id: baseId + detailBones.length,
-          name: boneName,
-          type: 'hand',
-          position: [isLeft ? -0.5 : 0.5, 0.8, 0.1 + (i * 0.02)],
-          rotation: [0, 0, 0, 1],
-          parent: handParent,
-          children: [],
-          weight: 0.4
-        });
-      }
-    }
-    
-    return detailBones;
-  }
-
-  private async generateAIOptimizedMorphs(analysis: any, modelResults: any[]): Promise<MorphTarget[]> {
-    const morphTargets: MorphTarget[] = [];
-    
-    // AI-driven optimization based on model complexity
-    const complexity = this.calculateModelComplexity(analysis);
-    const optimizedMorphCount = this.calculateOptimalMorphCount(complexity, analysis);
-    const vertexCount = analysis.vertices;
-    
-    console.log(`😊 AI-optimized morph count: ${optimizedMorphCount} (complexity: ${complexity.toFixed(2)})`);
-    
-    // Essential facial morphs with proper naming for real-time tracking
-    const facialExpressionNames = [
-      'jawOpen', 'mouthSmile', 'eyeBlinkLeft', 'eyeBlinkRight',
-      'browRaiseInner', 'browRaiseOuter', 'cheekPuff', 'mouthPucker',
-      'noseSneer', 'eyeSquint', 'mouthFrown', 'mouthPress',
-      'eyeWide', 'mouthRollUpper', 'mouthRollLower', 'jawLeft',
-      'jawRight', 'mouthLeft', 'mouthRight', 'cheekSquintLeft',
-      'cheekSquintRight', 'browInnerUp', 'browOuterUpLeft'
-    ];
-    
-    const facialCount = Math.min(facialExpressionNames.length, Math.floor(optimizedMorphCount * 0.6));
-    console.log(`🎭 Creating ${facialCount} facial expression morphs for real-time tracking`);
-    
-    for (let i = 0; i < facialCount; i++) {
-      const morphName = facialExpressionNames[i];
-      morphTargets.push({
-        name: morphName,
-        type: 'facial',
-        vertexDeltas: this.generateFacialVertexDeltas(vertexCount, morphName, i),
-        normalDeltas: this.generateOptimizedNormalDeltas(vertexCount, 0.8),
-        weight: 0.0
-      });
-      console.log(`✅ Created facial morph: ${morphName}`);
-    }
-    
-    // Body morphs (30% of optimal count)
-    const bodyCount = Math.floor(optimizedMorphCount * 0.3);
-    for (let i = 0; i < bodyCount; i++) {
-      morphTargets.push({
-        name: `body_${i + 1}`,
-        type: 'body',
-        vertexDeltas: this.generateOptimizedVertexDeltas(vertexCount, 'body', i),
-        normalDeltas: this.generateOptimizedNormalDeltas(vertexCount, 0.5),
-        weight: 0.0
-      });
-    }
-    
-    // Corrective morphs (remaining 10%)
-    const correctiveCount = optimizedMorphCount - morphTargets.length;
-    for (let i = 0; i < correctiveCount; i++) {
-      morphTargets.push({
-        name: `corrective_${i + 1}`,
-        type: 'corrective',
-        vertexDeltas: this.generateOptimizedVertexDeltas(vertexCount, 'corrective', i),
-        normalDeltas: this.generateOptimizedNormalDeltas(vertexCount, 0.3),
-        weight: 0.0
-      });
-    }
-    
-    console.log(`✅ Generated ${morphTargets.length} AI-optimized morph targets for performance/quality balance`);
-    return morphTargets;
-  }
-
-  private calculateOptimalMorphCount(complexity: number, analysis: any): number {
-    const maxMorphs = this.tierLimits.maxMorphTargets;
-    
-    // Base morph count for simple models (8-15 morphs)
-    let optimalMorphs = 12;
-    
-    if (complexity < 0.3) {
-      // Simple models: Essential morphs only
-      optimalMorphs = Math.min(15, Math.max(8, Math.floor(maxMorphs * 0.2)));
-    } else if (complexity < 0.6) {
-      // Medium complexity: Balanced morph set
-      optimalMorphs = Math.min(30, Math.max(15, Math.floor(maxMorphs * 0.4)));
-    } else {
-      // Complex models: Rich expression set
-      optimalMorphs = Math.min(50, Math.max(25, Math.floor(maxMorphs * 0.6)));
-    }
-    
-    // Humanoid models benefit from additional facial morphs
-    if (analysis.humanoidFeatures?.confidence > 0.8) {
-      optimalMorphs += 6;
-    }
-    
-    return Math.min(maxMorphs, optimalMorphs);
-  }
-
-  // Helper methods for bone generation
-  private getCoreBoneName(index: number): string {
-    // Align with RiggedModelAnimator bone mapping for tracking compatibility
-    const coreNames = [
-      'root', 'spine', 'spine1', 'spine2', 'neck', 'head',
-      'leftShoulder', 'leftArm', 'leftForeArm', 'leftHand',
-      'rightShoulder', 'rightArm', 'rightForeArm', 'rightHand',
-      'leftHip', 'leftUpperLeg', 'leftLowerLeg', 'leftFoot',
-      'rightHip', 'rightUpperLeg', 'rightLowerLeg', 'rightFoot'
-    ];
-    return coreNames[index] || `bone_${index}`;
-  }
-
-  private getCoreBoneType(index: number): BoneHierarchy['type'] {
-    if (index === 0) return 'root';
-    if (index >= 1 && index <= 3) return 'spine';
-    if (index === 4) return 'neck';
-    if (index === 5) return 'head';
-    if (index >= 6 && index <= 9) return 'arm';
-    if (index >= 10 && index <= 13) return 'arm';
-    if (index >= 14 && index <= 17) return 'leg';
-    return 'root';
-  }
-
-  private getCorePosition(index: number): [number, number, number] {
-    const positions: [number, number, number][] = [
-      [0, 0, 0],        // root
-      [0, 0.2, 0],      // spine_base
-      [0, 0.6, 0],      // spine_mid
-      [0, 1.0, 0],      // spine_top
-      [0, 1.3, 0],      // neck
-      [0, 1.5, 0],      // head
-      [-0.3, 1.0, 0],   // shoulder_L
-      [-0.6, 0.8, 0],   // arm_upper_L
-      [-0.8, 0.4, 0],   // arm_lower_L
-      [-1.0, 0.2, 0],   // hand_L
-      [0.3, 1.0, 0],    // shoulder_R
-      [0.6, 0.8, 0],    // arm_upper_R
-      [0.8, 0.4, 0],    // arm_lower_R
-      [1.0, 0.2, 0],    // hand_R
-      [-0.2, -0.1, 0],  // hip_L
-      [-0.2, -0.5, 0],  // leg_upper_L
-      [-0.2, -1.0, 0],  // leg_lower_L
-      [-0.2, -1.4, 0]   // foot_L
-    ];
-    return positions[index] || [0, 0, 0];
-  }
-
-  // Helper methods for morph generation
-  private generateFacialVertexDeltas(vertexCount: number, morphName: string, index: number): Float32Array {
-    const deltas = new Float32Array(vertexCount * 3);
-    
-    // Define facial regions and their vertex ranges (approximate)
-    const faceRegions = {
-      mouth: { start: 0.75, end: 0.85, center: [0, -0.1, 0.1] },
-      jaw: { start: 0.70, end: 0.80, center: [0, -0.15, 0.05] },
-      eyes: { start: 0.85, end: 0.95, center: [0, 0.05, 0.15] },
-      brows: { start: 0.90, end: 1.0, center: [0, 0.12, 0.1] },
-      cheeks: { start: 0.75, end: 0.90, center: [0.08, -0.02, 0.12] },
-      nose: { start: 0.80, end: 0.90, center: [0, 0.02, 0.18] }
-    };
-    
-    for (let i = 0; i < vertexCount; i++) {
-      const vertexRatio = i / vertexCount;
-      const baseIndex = i * 3;
-      
-      // Only affect facial area vertices (top 30% of model)
-      if (vertexRatio < 0.7) continue;
-      
-      let intensity = 0;
-      let deltaX = 0, deltaY = 0, deltaZ = 0;
-      
-      // Apply morph-specific deformations
-      switch (morphName) {
-        case 'jawOpen':
-          if (vertexRatio >= faceRegions.jaw.start && vertexRatio <= faceRegions.jaw.end) {
-            intensity = 0.25; // Strong jaw movement
-            deltaY = -intensity * (1 - (vertexRatio - faceRegions.jaw.start) / (faceRegions.jaw.end - faceRegions.jaw.start));
-            deltaZ = intensity * 0.3; // Slight forward movement
-          }
-          break;
-          
-        case 'mouthSmile':
-          if (vertexRatio >= faceRegions.mouth.start && vertexRatio <= faceRegions.mouth.end) {
-            intensity = 0.15;
-            deltaX = Math.sin((vertexRatio - faceRegions.mouth.start) * Math.PI * 4) * intensity * 0.5;
-            deltaY = intensity * 0.8;
-            deltaZ = intensity * 0.2;
-          }
-          break;
-          
-        case 'eyeBlinkLeft':
-        case 'eyeBlinkRight':
-          if (vertexRatio >= faceRegions.eyes.start && vertexRatio <= faceRegions.eyes.end) {
-            intensity = 0.12;
-            const isLeft = morphName.includes('Left');
-            deltaX = (isLeft ? -0.05 : 0.05) * intensity;
-            deltaY = -intensity * 0.8;
-          }
-          break;
-          
-        case 'browRaiseInner':
-        case 'browRaiseOuter':
-          if (vertexRatio >= faceRegions.brows.start && vertexRatio <= faceRegions.brows.end) {
-            intensity = 0.10;
-            deltaY = intensity;
-            deltaZ = intensity * 0.3;
-          }
-          break;
-          
-        case 'cheekPuff':
-          if (vertexRatio >= faceRegions.cheeks.start && vertexRatio <= faceRegions.cheeks.end) {
-            intensity = 0.18;
-            deltaX = Math.sign(Math.random() - 0.5) * intensity * 0.8;
-            deltaZ = intensity;
-          }
-          break;
-          
-        case 'mouthPucker':
-          if (vertexRatio >= faceRegions.mouth.start && vertexRatio <= faceRegions.mouth.end) {
-            intensity = 0.14;
-            deltaZ = intensity;
-            deltaX = deltaX * 0.5; // Compress horizontally
-          }
-          break;
-          
-        default:
-          // Generic facial expression
-          if (vertexRatio >= 0.75) {
-            intensity = 0.08 + (index * 0.02);
-            deltaX = (Math.random() - 0.5) * intensity;
-            deltaY = (Math.random() - 0.5) * intensity;
-            deltaZ = (Math.random() - 0.5) * intensity;
-          }
-      }
-      
-      deltas[baseIndex] = deltaX;
-      deltas[baseIndex + 1] = deltaY;
-      deltas[baseIndex + 2] = deltaZ;
-    }
-    
-    return deltas;
-  }
-
-  private generateOptimizedVertexDeltas(vertexCount: number, type: string, index: number): Float32Array {
-    const deltas = new Float32Array(vertexCount * 3);
-    const intensity = type === 'facial' ? 0.8 : type === 'body' ? 0.5 : 0.3;
-    
-    for (let i = 0; i < vertexCount * 3; i += 3) {
-      // Generate realistic vertex deltas based on type and intensity
-      deltas[i] = (Math.random() - 0.5) * intensity * 0.1;     // X
-      deltas[i + 1] = (Math.random() - 0.5) * intensity * 0.1; // Y
-      deltas[i + 2] = (Math.random() - 0.5) * intensity * 0.05; // Z
-    }
-    
-    return deltas;
-  }
-
-  private generateOptimizedNormalDeltas(vertexCount: number, intensity: number): Float32Array {
-    const deltas = new Float32Array(vertexCount * 3);
-    
-    for (let i = 0; i < vertexCount * 3; i += 3) {
-      // Generate normal deltas for lighting consistency
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.random() * Math.PI;
-      
-      deltas[i] = Math.sin(phi) * Math.cos(theta) * intensity * 0.1;
-      deltas[i + 1] = Math.sin(phi) * Math.sin(theta) * intensity * 0.1;
-      deltas[i + 2] = Math.cos(phi) * intensity * 0.1;
-    }
-    
-    return deltas;
-  }
-
-  // Enhanced GLB processing methods
-  private async applyEnhancedRigging(buffer: Buffer, bones: BoneHierarchy[], morphTargets: MorphTarget[]): Promise<Buffer> {
-    // Parse original GLB
-    const view = new DataView(buffer.buffer);
-    const jsonChunkLength = view.getUint32(12, true);
-    const jsonChunk = buffer.slice(20, 20 + jsonChunkLength);
-    const gltf = JSON.parse(jsonChunk.toString('utf8'));
-    
-    // Add bones and morphs to GLB structure
-    gltf.bones = bones;
-    gltf.morphTargets = morphTargets.map(m => ({
-      name: m.name,
-      type: m.type,
-      weight: m.weight
-    }));
-    
-    // Generate substantial rigging data
-    const boneMatrices = bones.map(bone => this.generateBoneMatrix(bone));
-    const morphData = morphTargets.map(morph => ({
-      vertexDeltas: Array.from(morph.vertexDeltas),
-      normalDeltas: Array.from(morph.normalDeltas)
-    }));
-    
-    // Embed AI-generated rigging data
-    const riggingData = {
-      boneMatrices,
-      morphData,
-      metadata: {
-        aiGenerated: true,
-        complexity: this.calculateModelComplexity({ vertices: 1000, meshes: 1, materials: 1 }),
-        timestamp: Date.now()
-      }
-    };
-    
-    const riggingBuffer = Buffer.from(JSON.stringify(riggingData));
-    
-    // Create enhanced GLB with embedded rigging
-    const newJsonChunk = Buffer.from(JSON.stringify(gltf));
-    const newJsonChunkLength = newJsonChunk.length;
-    
-    // Calculate padded lengths
-    const jsonPadding = (4 - (newJsonChunkLength % 4)) % 4;
-    const totalJsonLength = newJsonChunkLength + jsonPadding;
-    
-    const binaryDataLength = buffer.length - (20 + jsonChunkLength + 8);
-    const newBinaryLength = binaryDataLength + riggingBuffer.length;
-    const binaryPadding = (4 - (newBinaryLength % 4)) % 4;
-    const totalBinaryLength = newBinaryLength + binaryPadding;
-    
-    const totalLength = 12 + 8 + totalJsonLength + 8 + totalBinaryLength;
-    
-    // Build enhanced GLB
-    const enhancedBuffer = Buffer.alloc(totalLength);
-    let offset = 0;
-    
-    // GLB header
-    enhancedBuffer.writeUInt32LE(0x46546C67, offset); offset += 4; // magic
-    enhancedBuffer.writeUInt32LE(2, offset); offset += 4;          // version
-    enhancedBuffer.writeUInt32LE(totalLength, offset); offset += 4; // length
-    
-    // JSON chunk header
-    enhancedBuffer.writeUInt32LE(totalJsonLength, offset); offset += 4;
-    enhancedBuffer.writeUInt32LE(0x4E4F534A, offset); offset += 4; // 'JSON'
-    
-    // JSON data
-    newJsonChunk.copy(enhancedBuffer, offset);
-    offset += newJsonChunkLength;
-    
-    // JSON padding
-    for (let i = 0; i < jsonPadding; i++) {
-      enhancedBuffer.writeUInt8(0x20, offset++); // space
-    }
-    
-    // Binary chunk header
-    enhancedBuffer.writeUInt32LE(totalBinaryLength, offset); offset += 4;
-    enhancedBuffer.writeUInt32LE(0x004E4942, offset); offset += 4; // 'BIN\0'
-    
-    // Original binary data
-    const originalBinaryStart = 20 + jsonChunkLength + 8;
-    buffer.copy(enhancedBuffer, offset, originalBinaryStart, originalBinaryStart + binaryDataLength);
-    offset += binaryDataLength;
-    
-    // Enhanced rigging data
-    riggingBuffer.copy(enhancedBuffer, offset);
-    offset += riggingBuffer.length;
-    
-    // Binary padding
-    for (let i = 0; i < binaryPadding; i++) {
-      enhancedBuffer.writeUInt8(0, offset++);
-    }
-    
-    return enhancedBuffer;
-  }
-
-  private generateBoneMatrix(bone: BoneHierarchy): number[] {
-    // Generate 4x4 transformation matrix for bone
-    const matrix = new Array(16).fill(0);
-    
-    // Identity matrix with translation
-    matrix[0] = matrix[5] = matrix[10] = matrix[15] = 1;
-    matrix[12] = bone.position[0];
-    matrix[13] = bone.position[1];
-    matrix[14] = bone.position[2];
-    
-    return matrix;
-  }
-
-  private generateModelUsageReport(modelResults: any[]): string {
-    const successful = modelResults.filter(r => r.success);
-    const failed = modelResults.filter(r => !r.success);
-    
-    const categories = {
-      facial: successful.filter(r => r.category === 'facial').length,
-      body: successful.filter(r => r.category === 'body').length,
-      hierarchy: successful.filter(r => r.category === 'hierarchy').length,
-      morphs: successful.filter(r => r.category === 'morphs').length
-    };
-    
-    return `Enhanced 10-Model Pipeline Report:
-- Facial Analysis: ${categories.facial}/3 models successful
-- Body Structure: ${categories.body}/3 models successful  
-- Bone Hierarchy: ${categories.hierarchy}/2 models successful
-- Morph Generation: ${categories.morphs}/2 models successful
-- Total Success Rate: ${successful.length}/10 (${((successful.length/10)*100).toFixed(1)}%)
-- AI-Optimized for Performance/Quality Balance`;
-  }
-}
-
-// Export singleton instance
-export const enhancedGLBRigger = new EnhancedGLBRigger();
\ No newline at end of file
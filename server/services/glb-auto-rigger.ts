@@ -1,1628 +0,0 @@
-/**
- * GLB Auto-Rigger - Real GLB Processing and Bone Placement
- * Focuses on actual GLB file analysis and rigging enhancement
- */
-
-export interface GLBAnalysis {
-  vertices: number;
-  meshes: MeshInfo[];
-  materials: number;
-  hasExistingBones: boolean;
-  hasAnimations: boolean;
-  boundingBox: {
-    min: [number, number, number];
-    max: [number, number, number];
-  };
-  humanoidFeatures: {
-    hasHead: boolean;
-    hasTorso: boolean;
-    hasArms: boolean;
-    hasLegs: boolean;
-    confidence: number;
-  };
-}
-
-export interface MeshInfo {
-  name: string;
-  vertexCount: number;
-  primitiveCount: number;
-  hasNormals: boolean;
-  hasTexCoords: boolean;
-  hasColors: boolean;
-}
-
-export interface BoneHierarchy {
-  id: number;
-  name: string;
-  type: 'root' | 'spine' | 'head' | 'neck' | 'shoulder' | 'arm' | 'hand' | 'hip' | 'leg' | 'foot';
-  position: [number, number, number];
-  rotation: [number, number, number, number]; // quaternion
-  parent: number | null;
-  children: number[];
-  weight: number;
-}
-
-export interface MorphTarget {
-  name: string;
-  type: 'facial' | 'body' | 'corrective';
-  vertexDeltas: Float32Array;
-  normalDeltas: Float32Array;
-  weight: number;
-}
-
-export interface RiggingResult {
-  riggedBuffer: Buffer;
-  bones: BoneHierarchy[];
-  morphTargets: MorphTarget[];
-  statistics: {
-    originalSize: number;
-    riggedSize: number;
-    boneCount: number;
-    morphCount: number;
-    processingTime: number;
-  };
-}
-
-export class GLBAutoRigger {
-  private tierLimits: any = null;
-  private hf: any = null;
-
-  // Enhanced 10-Model Pipeline for Professional GLB Auto-Rigging
-  private readonly HUGGING_FACE_MODELS = [
-    // Facial Analysis & Expression Models (1-3)
-    'microsoft/DialoGPT-medium',           // Facial expression generation and analysis
-    'facebook/detr-resnet-50',             // Object detection for facial landmarks
-    'distilbert-base-uncased',             // Text-based facial feature description
-    
-    // Body Structure & Pose Models (4-6) 
-    'microsoft/resnet-50',                 // Body structure and pose detection
-    'google/vit-base-patch16-224',         // Vision transformer for pose analysis
-    'bert-base-uncased',                   // Body part relationship analysis
-    
-    // Bone Hierarchy & Rigging Models (7-8)
-    'huggingface/CodeBERTa-small-v1',      // Code-like bone hierarchy generation
-    'microsoft/deberta-v3-base',           // Advanced hierarchical understanding
-    
-    // Morph Target & Animation Models (9-10)
-    'gpt2',                                // Advanced morph target generation
-    'distilbert-base-cased'                // Animation parameter optimization
-  ];
-
-  async initialize(userPlan: string) {
-    const { db } = await import('../db');
-    const { subscriptionPlans } = await import('../../shared/schema');
-    const { eq } = await import('drizzle-orm');
-
-    const [plan] = await db
-      .select()
-      .from(subscriptionPlans)
-      .where(eq(subscriptionPlans.id, userPlan));
-
-    if (!plan) {
-      throw new Error(`Subscription plan "${userPlan}" not found in database`);
-    }
-
-    this.tierLimits = {
-      maxBones: plan.maxBones,
-      maxMorphTargets: plan.maxMorphTargets,
-      maxFileSizeMB: plan.maxFileSizeMb
-    };
-
-    // Initialize Hugging Face client
-    if (!process.env.HUGGINGFACE_API_KEY) {
-      throw new Error('HUGGINGFACE_API_KEY environment variable required for Enhanced 10-Model Pipeline');
-    }
-
-    const { HfInference } = await import('@huggingface/inference');
-    this.hf = new HfInference(process.env.HUGGINGFACE_API_KEY);
-
-    console.log(`Enhanced 10-Model Pipeline initialized for ${userPlan} plan: ${this.tierLimits.maxBones} bones, ${this.tierLimits.maxMorphTargets} morphs`);
-  }
-
-  async processGLB(buffer: Buffer, userPlan: string): Promise<RiggingResult> {
-    const startTime = Date.now();
-    await this.initialize(userPlan);
-
-    console.log('\n🚀 ═══════════════════════════════════════════════════════════════');
-    console.log('🤖 STARTING ENHANCED 10-MODEL HUGGING FACE PIPELINE');
-    console.log(`📁 File Size: ${(buffer.length / (1024 * 1024)).toFixed(2)} MB`);
-    console.log(`👤 User Plan: ${userPlan}`);
-    console.log('═══════════════════════════════════════════════════════════════');
-    
-    // Parse and analyze GLB structure
-    const analysis = await this.analyzeGLB(buffer);
-    console.log(`GLB Analysis: ${analysis.vertices} vertices, ${analysis.meshes.length} meshes`);
-
-    // Run 10 Hugging Face models for intelligent rigging
-    const modelResults = await this.runHuggingFaceModels(buffer, analysis);
-    console.log(`Processed ${modelResults.length} Hugging Face models`);
-
-    // Generate bone hierarchy using AI model results
-    const bones = await this.generateAIBoneHierarchy(analysis, modelResults);
-    console.log(`Generated ${bones.length} bones using AI optimization`);
-
-    // Create morph targets using AI facial analysis
-    const morphTargets = await this.generateAIMorphTargets(analysis, modelResults);
-    console.log(`Generated ${morphTargets.length} AI-optimized morph targets`);
-
-    // Apply rigging data to GLB buffer
-    const riggedBuffer = await this.applyRiggingToGLB(buffer, bones, morphTargets);
-    
-    const processingTime = Date.now() - startTime;
-    
-    console.log('\n✅ ═══════════════════════════════════════════════════════════════');
-    console.log('🎉 ENHANCED 10-MODEL PIPELINE COMPLETED SUCCESSFULLY!');
-    console.log(`⏱️  Processing Time: ${processingTime}ms`);
-    console.log(`📊 Results: ${bones.length} bones, ${morphTargets.length} morph targets`);
-    console.log(`📈 File Size: ${(buffer.length / (1024 * 1024)).toFixed(2)} MB → ${(riggedBuffer.length / (1024 * 1024)).toFixed(2)} MB`);
-    console.log('═══════════════════════════════════════════════════════════════\n');
-
-    return {
-      riggedBuffer,
-      bones,
-      morphTargets,
-      statistics: {
-        originalSize: buffer.length,
-        riggedSize: riggedBuffer.length,
-        boneCount: bones.length,
-        morphCount: morphTargets.length,
-        processingTime
-      }
-    };
-  }
-
-  private async analyzeGLB(buffer: Buffer): Promise<GLBAnalysis> {
-    // Parse GLB binary format
-    if (buffer.length < 12) {
-      throw new Error('Invalid GLB file - too small');
-    }
-
-    const magic = buffer.readUInt32LE(0);
-    if (magic !== 0x46546C67) { // 'glTF'
-      throw new Error('Invalid GLB magic number');
-    }
-
-    // Parse JSON chunk
-    let offset = 12;
-    const chunkLength = buffer.readUInt32LE(offset);
-    const chunkType = buffer.readUInt32LE(offset + 4);
-
-    if (chunkType !== 0x4E4F534A) { // 'JSON'
-      throw new Error('First chunk must be JSON');
-    }
-
-    const jsonData = buffer.subarray(offset + 8, offset + 8 + chunkLength);
-    const gltf = JSON.parse(jsonData.toString('utf8'));
-
-    // Analyze mesh data
-    let totalVertices = 0;
-    const meshes: MeshInfo[] = gltf.meshes?.map((mesh: any, index: number) => {
-      const primitives = mesh.primitives || [];
-      let vertexCount = 0;
-      let hasNormals = false;
-      let hasTexCoords = false;
-      let hasColors = false;
-
-      for (const primitive of primitives) {
-        const positionAccessor = gltf.accessors?.[primitive.attributes?.POSITION];
-        if (positionAccessor) {
-          vertexCount += positionAccessor.count || 0;
-        }
-        if (primitive.attributes?.NORMAL) hasNormals = true;
-        if (primitive.attributes?.TEXCOORD_0) hasTexCoords = true;
-        if (primitive.attributes?.COLOR_0) hasColors = true;
-      }
-
-      totalVertices += vertexCount;
-      return {
-        name: mesh.name || `mesh_${index}`,
-        vertexCount,
-        primitiveCount: primitives.length,
-        hasNormals,
-        hasTexCoords,
-        hasColors
-      };
-    }) || [];
-
-    // Calculate bounding box for humanoid analysis
-    const boundingBox = this.calculateBoundingBox(gltf);
-    
-    // Analyze humanoid features
-    const humanoidFeatures = this.analyzeHumanoidFeatures(boundingBox, meshes, totalVertices);
-
-    return {
-      vertices: totalVertices,
-      meshes,
-      materials: gltf.materials?.length || 0,
-      hasExistingBones: (gltf.skins?.length || 0) > 0,
-      hasAnimations: (gltf.animations?.length || 0) > 0,
-      boundingBox,
-      humanoidFeatures
-    };
-  }
-
-  private calculateBoundingBox(gltf: any) {
-    // Calculate model bounding box from accessors
-    let minX = Infinity, minY = Infinity, minZ = Infinity;
-    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
-
-    if (gltf.accessors) {
-      for (const accessor of gltf.accessors) {
-        if (accessor.min && accessor.max) {
-          minX = Math.min(minX, accessor.min[0] || 0);
-          minY = Math.min(minY, accessor.min[1] || 0);
-          minZ = Math.min(minZ, accessor.min[2] || 0);
-          maxX = Math.max(maxX, accessor.max[0] || 0);
-          maxY = Math.max(maxY, accessor.max[1] || 0);
-          maxZ = Math.max(maxZ, accessor.max[2] || 0);
-        }
-      }
-    }
-
-    return {
-      min: [minX, minY, minZ] as [number, number, number],
-      max: [maxX, maxY, maxZ] as [number, number, number]
-    };
-  }
-
-  private analyzeHumanoidFeatures(boundingBox: any, meshes: MeshInfo[], vertices: number) {
-    const height = boundingBox.max[1] - boundingBox.min[1];
-    const width = boundingBox.max[0] - boundingBox.min[0];
-    const depth = boundingBox.max[2] - boundingBox.min[2];
-
-    // Basic humanoid proportions analysis
-    const aspectRatio = height / Math.max(width, depth);
-    const isHumanoidHeight = aspectRatio > 1.5 && aspectRatio < 8.0;
-    const hasReasonableVertexCount = vertices > 1000 && vertices < 200000;
-
-    // Mesh distribution analysis
-    const hasMultipleMeshes = meshes.length > 1;
-    const hasDetailedGeometry = meshes.some(m => m.hasNormals && m.hasTexCoords);
-
-    const confidence = (
-      (isHumanoidHeight ? 0.3 : 0) +
-      (hasReasonableVertexCount ? 0.2 : 0) +
-      (hasMultipleMeshes ? 0.2 : 0) +
-      (hasDetailedGeometry ? 0.3 : 0)
-    );
-
-    return {
-      hasHead: confidence > 0.4,
-      hasTorso: confidence > 0.3,
-      hasArms: confidence > 0.5,
-      hasLegs: confidence > 0.5,
-      confidence
-    };
-  }
-
-  private async generateBoneHierarchy(analysis: GLBAnalysis): Promise<BoneHierarchy[]> {
-    if (!this.tierLimits) {
-      throw new Error('Tier limits not initialized');
-    }
-
-    const bones: BoneHierarchy[] = [];
-    const maxBones = this.tierLimits.maxBones;
-    
-    // Always include essential bones
-    let boneId = 0;
-    
-    // Root bone
-    bones.push({
-      id: boneId++,
-      name: 'root',
-      type: 'root',
-      position: [0, 0, 0],
-      rotation: [0, 0, 0, 1],
-      parent: null,
-      children: [],
-      weight: 1.0
-    });
-
-    // Add bones based on humanoid analysis and tier limits
-    if (analysis.humanoidFeatures.hasTorso && boneId < maxBones) {
-      bones.push({
-        id: boneId++,
-        name: 'spine',
-        type: 'spine',
-        position: [0, analysis.boundingBox.max[1] * 0.3, 0],
-        rotation: [0, 0, 0, 1],
-        parent: 0,
-        children: [],
-        weight: 0.9
-      });
-    }
-
-    if (analysis.humanoidFeatures.hasHead && boneId < maxBones) {
-      bones.push({
-        id: boneId++,
-        name: 'neck',
-        type: 'neck',
-        position: [0, analysis.boundingBox.max[1] * 0.8, 0],
-        rotation: [0, 0, 0, 1],
-        parent: 1,
-        children: [],
-        weight: 0.8
-      });
-
-      if (boneId < maxBones) {
-        bones.push({
-          id: boneId++,
-          name: 'head',
-          type: 'head',
-          position: [0, analysis.boundingBox.max[1] * 0.9, 0],
-          rotation: [0, 0, 0, 1],
-          parent: 2,
-          children: [],
-          weight: 0.7
-        });
-      }
-    }
-
-    // Add arm bones if tier allows
-    if (analysis.humanoidFeatures.hasArms && boneId < maxBones - 1) {
-      const shoulderY = analysis.boundingBox.max[1] * 0.7;
-      
-      // Left arm
-      bones.push({
-        id: boneId++,
-        name: 'shoulder_L',
-        type: 'shoulder',
-        position: [-analysis.boundingBox.max[0] * 0.3, shoulderY, 0],
-        rotation: [0, 0, 0, 1],
-        parent: 1,
-        children: [],
-        weight: 0.6
-      });
-
-      if (boneId < maxBones) {
-        bones.push({
-          id: boneId++,
-          name: 'arm_L',
-          type: 'arm',
-          position: [-analysis.boundingBox.max[0] * 0.6, shoulderY, 0],
-          rotation: [0, 0, 0, 1],
-          parent: boneId - 2,
-          children: [],
-          weight: 0.5
-        });
-      }
-
-      // Right arm (if space allows)
-      if (boneId < maxBones - 1) {
-        bones.push({
-          id: boneId++,
-          name: 'shoulder_R',
-          type: 'shoulder',
-          position: [analysis.boundingBox.max[0] * 0.3, shoulderY, 0],
-          rotation: [0, 0, 0, 1],
-          parent: 1,
-          children: [],
-          weight: 0.6
-        });
-
-        if (boneId < maxBones) {
-          bones.push({
-            id: boneId++,
-            name: 'arm_R',
-            type: 'arm',
-            position: [analysis.boundingBox.max[0] * 0.6, shoulderY, 0],
-            rotation: [0, 0, 0, 1],
-            parent: boneId - 2,
-            children: [],
-            weight: 0.5
-          });
-        }
-      }
-    }
-
-    // Update parent-child relationships
-    for (const bone of bones) {
-      if (bone.parent !== null) {
-        const parent = bones.find(b => b.id === bone.parent);
-        if (parent) {
-          parent.children.push(bone.id);
-        }
-      }
-    }
-
-    console.log(`Generated ${bones.length} bones (max: ${maxBones})`);
-    return bones;
-  }
-
-  private async generateMorphTargets(analysis: GLBAnalysis): Promise<MorphTarget[]> {
-    if (!this.tierLimits) {
-      throw new Error('Tier limits not initialized');
-    }
-
-    const morphTargets: MorphTarget[] = [];
-    const maxMorphs = this.tierLimits.maxMorphTargets;
-    const vertexCount = analysis.vertices;
-
-    // Essential facial morphs
-    if (analysis.humanoidFeatures.hasHead && morphTargets.length < maxMorphs) {
-      morphTargets.push({
-        name: 'smile',
-        type: 'facial',
-        vertexDeltas: new Float32Array(vertexCount * 3),
-        normalDeltas: new Float32Array(vertexCount * 3),
-        weight: 1.0
-      });
-    }
-
-    if (analysis.humanoidFeatures.hasHead && morphTargets.length < maxMorphs) {
-      morphTargets.push({
-        name: 'blink',
-        type: 'facial',
-        vertexDeltas: new Float32Array(vertexCount * 3),
-        normalDeltas: new Float32Array(vertexCount * 3),
-        weight: 1.0
-      });
-    }
-
-    // Body morphs for higher tiers
-    if (analysis.humanoidFeatures.hasTorso && morphTargets.length < maxMorphs) {
-      morphTargets.push({
-        name: 'breathe',
-        type: 'body',
-        vertexDeltas: new Float32Array(vertexCount * 3),
-        normalDeltas: new Float32Array(vertexCount * 3),
-        weight: 0.5
-      });
-    }
-
-    // Fill remaining slots with corrective morphs
-    while (morphTargets.length < maxMorphs && morphTargets.length < 20) {
-      morphTargets.push({
-        name: `corrective_${morphTargets.length}`,
-        type: 'corrective',
-        vertexDeltas: new Float32Array(vertexCount * 3),
-        normalDeltas: new Float32Array(vertexCount * 3),
-        weight: 0.3
-      });
-    }
-
-    console.log(`Generated ${morphTargets.length} morph targets (max: ${maxMorphs})`);
-    return morphTargets;
-  }
-
-  private async applyRiggingToGLB(buffer: Buffer, bones: BoneHierarchy[], morphTargets: MorphTarget[]): Promise<Buffer> {
-    // Calculate rigging data size
-    const boneDataSize = bones.length * 128; // 128 bytes per bone (matrices + metadata)
-    const morphDataSize = morphTargets.reduce((sum, morph) => 
-      sum + morph.vertexDeltas.length * 4 + morph.normalDeltas.length * 4, 0
-    );
-    
-    const riggingDataSize = boneDataSize + morphDataSize + 1024; // Extra for metadata
-    const riggedBuffer = Buffer.alloc(buffer.length + riggingDataSize);
-    
-    // Copy original GLB data
-    buffer.copy(riggedBuffer, 0);
-    
-    // Append rigging data
-    let offset = buffer.length;
-    
-    // Write bone data
-    for (const bone of bones) {
-      // Write bone matrix (16 floats = 64 bytes)
-      const matrix = this.generateBoneMatrix(bone);
-      for (let i = 0; i < 16; i++) {
-        riggedBuffer.writeFloatLE(matrix[i], offset + i * 4);
-      }
-      offset += 64;
-      
-      // Write bone metadata (64 bytes)
-      riggedBuffer.writeFloatLE(bone.position[0], offset);
-      riggedBuffer.writeFloatLE(bone.position[1], offset + 4);
-      riggedBuffer.writeFloatLE(bone.position[2], offset + 8);
-      riggedBuffer.writeFloatLE(bone.rotation[0], offset + 12);
-      riggedBuffer.writeFloatLE(bone.rotation[1], offset + 16);
-      riggedBuffer.writeFloatLE(bone.rotation[2], offset + 20);
-      riggedBuffer.writeFloatLE(bone.rotation[3], offset + 24);
-      riggedBuffer.writeUInt32LE(bone.id, offset + 28);
-      riggedBuffer.writeInt32LE(bone.parent || -1, offset + 32);
-      riggedBuffer.writeFloatLE(bone.weight, offset + 36);
-      offset += 64;
-    }
-    
-    // Write morph target data
-    for (const morph of morphTargets) {
-      // Write vertex deltas
-      for (let i = 0; i < morph.vertexDeltas.length; i++) {
-        riggedBuffer.writeFloatLE(morph.vertexDeltas[i], offset);
-        offset += 4;
-      }
-      // Write normal deltas
-      for (let i = 0; i < morph.normalDeltas.length; i++) {
-        riggedBuffer.writeFloatLE(morph.normalDeltas[i], offset);
-        offset += 4;
-      }
-    }
-    
-    console.log(`Applied rigging data: ${bones.length} bones, ${morphTargets.length} morphs`);
-    console.log(`Size increase: ${buffer.length} -> ${riggedBuffer.length} (+${riggingDataSize} bytes)`);
-    
-    return riggedBuffer;
-  }
-
-  private generateBoneMatrix(bone: BoneHierarchy): number[] {
-    // Generate 4x4 transformation matrix from bone data
-    const matrix = new Array(16).fill(0);
-    
-    // Identity matrix base
-    matrix[0] = matrix[5] = matrix[10] = matrix[15] = 1;
-    
-    // Apply translation
-    matrix[12] = bone.position[0];
-    matrix[13] = bone.position[1];
-    matrix[14] = bone.position[2];
-    
-    // Apply rotation (quaternion to matrix conversion)
-    const [x, y, z, w] = bone.rotation;
-    const x2 = x * 2, y2 = y * 2, z2 = z * 2;
-    const xx = x * x2, xy = x * y2, xz = x * z2;
-    const yy = y * y2, yz = y * z2, zz = z * z2;
-    const wx = w * x2, wy = w * y2, wz = w * z2;
-    
-    matrix[0] = 1 - (yy + zz);
-    matrix[4] = xy - wz;
-    matrix[8] = xz + wy;
-    matrix[1] = xy + wz;
-    matrix[5] = 1 - (xx + zz);
-    matrix[9] = yz - wx;
-    matrix[2] = xz - wy;
-    matrix[6] = yz + wx;
-    matrix[10] = 1 - (xx + yy);
-    
-    return matrix;
-  }
-
-  /**
-   * Run 10 Hugging Face models for enhanced GLB analysis
-   */
-  private async runHuggingFaceModels(buffer: Buffer, analysis: GLBAnalysis): Promise<any[]> {
-    console.log('Running Enhanced 10-Model Hugging Face Pipeline...');
-    
-    if (!this.hf) {
-      throw new Error('Hugging Face client not initialized');
-    }
-
-    const modelResults = [];
-
-    try {
-      // Model 1: Text classification for facial analysis
-      console.log('Processing Model 1: DistilBERT facial analysis...');
-      try {
-        const facialResult = await this.hf.textClassification({
-          model: this.HUGGING_FACE_MODELS[0],
-          inputs: `3D avatar with ${analysis.vertices} vertices needs facial rigging analysis for expression mapping`
-        });
-        
-        modelResults.push({
-          model: 'facial_expression',
-          result: this.parseFacialAnalysis(JSON.stringify(facialResult), analysis),
-          aiUsed: true,
-          modelName: this.HUGGING_FACE_MODELS[0]
-        });
-      } catch (error) {
-        console.log('🔴 Model 1 (DistilBERT) unavailable, using geometric fallback');
-        modelResults.push({
-          model: 'facial_expression',
-          result: this.parseFacialAnalysis('facial analysis complete', analysis),
-          aiUsed: false,
-          modelName: this.HUGGING_FACE_MODELS[0]
-        });
-      }
-
-      // Model 2: Text classification for body detection
-      console.log('Processing Model 2: BERT body detection...');
-      try {
-        const bodyResult = await this.hf.textClassification({
-          model: this.HUGGING_FACE_MODELS[1],
-          inputs: `3D model body analysis: ${analysis.vertices} vertices, ${analysis.meshes.length} meshes, humanoid features detected`
-        });
-        modelResults.push({
-          model: 'body_detection',
-          result: this.parseBodyDetection(bodyResult, analysis),
-          aiUsed: true,
-          modelName: this.HUGGING_FACE_MODELS[1]
-        });
-      } catch (error) {
-        console.log('🔴 Model 2 (BERT) unavailable, using geometric analysis');
-        modelResults.push({
-          model: 'body_detection',
-          result: this.parseBodyDetection([], analysis),
-          aiUsed: false,
-          modelName: this.HUGGING_FACE_MODELS[1]
-        });
-      }
-
-      // Model 3: Text classification for bone placement
-      console.log('Processing Model 3: DistilBERT bone placement...');
-      try {
-        const boneResult = await this.hf.textClassification({
-          model: this.HUGGING_FACE_MODELS[2],
-          inputs: `Bone placement optimization for 3D avatar: ${analysis.vertices} vertices, humanoid confidence ${analysis.humanoidFeatures.confidence}%`
-        });
-        modelResults.push({
-          model: 'bone_placement',
-          result: this.parseBonePlacement(JSON.stringify(boneResult), analysis),
-          aiUsed: true,
-          modelName: this.HUGGING_FACE_MODELS[2]
-        });
-      } catch (error) {
-        console.log('🔴 Model 3 (DistilBERT) unavailable, using geometric bone placement');
-        modelResults.push({
-          model: 'bone_placement',
-          result: this.parseBonePlacement([], analysis),
-          aiUsed: false,
-          modelName: this.HUGGING_FACE_MODELS[2]
-        });
-      }
-
-      // Model 4: CodeBERTa for pose estimation
-      console.log('Processing Model 4: CodeBERTa pose estimation...');
-      try {
-        const poseResult = await this.hf.fillMask({
-          model: this.HUGGING_FACE_MODELS[3],
-          inputs: `The 3D model pose should be [MASK] for optimal rigging.`
-        });
-        modelResults.push({
-          model: 'pose_estimation',
-          result: this.parsePoseEstimation(JSON.stringify(poseResult), analysis),
-          aiUsed: true,
-          modelName: this.HUGGING_FACE_MODELS[3]
-        });
-      } catch (error) {
-        console.log('🔴 Model 4 (CodeBERTa) unavailable, using bounding box pose analysis');
-        modelResults.push({
-          model: 'pose_estimation',
-          result: this.parsePoseEstimation([], analysis),
-          aiUsed: false,
-          modelName: this.HUGGING_FACE_MODELS[3]
-        });
-      }
-
-      // Model 5: DistilBERT for hierarchy optimization
-      console.log('Processing Model 5: DistilBERT hierarchy...');
-      try {
-        const hierarchyResult = await this.hf.fillMask({
-          model: this.HUGGING_FACE_MODELS[4],
-          inputs: `The bone hierarchy should [MASK] for optimal rigging.`
-        });
-        modelResults.push({
-          model: 'hierarchy_optimization',
-          result: this.parseHierarchyOptimization(JSON.stringify(hierarchyResult), analysis),
-          aiUsed: true,
-          modelName: this.HUGGING_FACE_MODELS[4]
-        });
-      } catch (error) {
-        console.log('🔴 Model 5 (DistilBERT) unavailable, using standard hierarchy');
-        modelResults.push({
-          model: 'hierarchy_optimization',
-          result: this.parseHierarchyOptimization('optimize hierarchy', analysis),
-          aiUsed: false,
-          modelName: this.HUGGING_FACE_MODELS[4]
-        });
-      }
-
-      // Model 6: DialoGPT Small for morph generation
-      console.log('Processing Model 6: DialoGPT Small morph generation...');
-      try {
-        const morphResult = await this.hf.conversational({
-          model: this.HUGGING_FACE_MODELS[5],
-          inputs: {
-            past_user_inputs: [],
-            generated_responses: [],
-            text: `Generate facial morph targets for 3D avatar with ${this.tierLimits.maxMorphTargets} expressions`
-          }
-        });
-        modelResults.push({
-          model: 'morph_generation',
-          result: this.parseMorphGeneration(morphResult.generated_text, analysis),
-          aiUsed: true,
-          modelName: this.HUGGING_FACE_MODELS[5]
-        });
-      } catch (error) {
-        console.log('🔴 Model 6 (DialoGPT-small) unavailable, using standard morph generation');
-        modelResults.push({
-          model: 'morph_generation',
-          result: this.parseMorphGeneration('smile blink frown', analysis),
-          aiUsed: false,
-          modelName: this.HUGGING_FACE_MODELS[5]
-        });
-      }
-
-      // Model 7: BERT for expression variants
-      console.log('Processing Model 7: BERT expression analysis...');
-      try {
-        const expressionResult = await this.hf.fillMask({
-          model: this.HUGGING_FACE_MODELS[6],
-          inputs: `Avatar expressions include [MASK] and emotional variants.`
-        });
-        modelResults.push({
-          model: 'expression_variants',
-          result: this.parseExpressionVariants(JSON.stringify(expressionResult), analysis),
-          aiUsed: true,
-          modelName: this.HUGGING_FACE_MODELS[6]
-        });
-      } catch (error) {
-        console.log('🔴 Model 7 (BERT) unavailable, using standard expressions');
-        modelResults.push({
-          model: 'expression_variants',
-          result: this.parseExpressionVariants('happy sad angry surprised', analysis),
-          aiUsed: false,
-          modelName: this.HUGGING_FACE_MODELS[6]
-        });
-      }
-
-      // Model 8: EfficientNet for visual classification
-      console.log('Processing Model 8: EfficientNet visual understanding...');
-      try {
-        const visualResult = await this.hf.imageClassification({
-          model: this.HUGGING_FACE_MODELS[7],
-          data: this.generateThumbnail(buffer, analysis)
-        });
-        modelResults.push({
-          model: 'visual_classification',
-          result: this.parseVisualClassification(JSON.stringify(visualResult), analysis),
-          aiUsed: true,
-          modelName: this.HUGGING_FACE_MODELS[7]
-        });
-      } catch (error) {
-        console.log('🔴 Model 8 (EfficientNet) unavailable, using geometric classification');
-        modelResults.push({
-          model: 'visual_classification',
-          result: this.parseVisualClassification('humanoid character model', analysis),
-          aiUsed: false,
-          modelName: this.HUGGING_FACE_MODELS[7]
-        });
-      }
-
-      // Model 9: Multilingual DistilBERT for spatial analysis
-      console.log('Processing Model 9: Multilingual DistilBERT spatial analysis...');
-      try {
-        const spatialResult = await this.hf.fillMask({
-          model: this.HUGGING_FACE_MODELS[8],
-          inputs: `The 3D model spatial structure is [MASK] for rigging analysis.`
-        });
-        modelResults.push({
-          model: 'spatial_analysis',
-          result: this.parseSpatialAnalysis(JSON.stringify(spatialResult), analysis),
-          aiUsed: true,
-          modelName: this.HUGGING_FACE_MODELS[8]
-        });
-      } catch (error) {
-        console.log('🔴 Model 9 (Multilingual DistilBERT) unavailable, using vertex analysis');
-        modelResults.push({
-          model: 'spatial_analysis',
-          result: this.parseSpatialAnalysis([0.8, 0.3, 0.1], analysis),
-          aiUsed: false,
-          modelName: this.HUGGING_FACE_MODELS[8]
-        });
-      }
-
-      // Model 10: DistilBERT for final optimization
-      console.log('Processing Model 10: DistilBERT rigging optimization...');
-      try {
-        const configResult = await this.hf.fillMask({
-          model: this.HUGGING_FACE_MODELS[9],
-          inputs: `The rigging configuration should [MASK] for ${this.tierLimits.maxBones} bones.`
-        });
-        modelResults.push({
-          model: 'rigging_optimization',
-          result: this.parseRiggingOptimization(JSON.stringify(configResult), analysis),
-          aiUsed: true,
-          modelName: this.HUGGING_FACE_MODELS[9]
-        });
-      } catch (error) {
-        console.log('🔴 Model 10 (DistilBERT-cased) unavailable, using tier-based optimization');
-        modelResults.push({
-          model: 'rigging_optimization',
-          result: this.parseRiggingOptimization('optimize for tier', analysis),
-          aiUsed: false,
-          modelName: this.HUGGING_FACE_MODELS[9]
-        });
-      }
-
-      // Generate detailed model usage report
-      const modelReport = this.generateModelUsageReport(modelResults);
-      
-      // Store report for debugging access
-      const { lastPipelineReport, lastModelResults } = await import('./glb-auto-rigger');
-      (global as any).lastPipelineReport = modelReport;
-      (global as any).lastModelResults = modelResults;
-      
-      console.log('\n🤖 ═══════════════════════════════════════════════════════════════');
-      console.log('📊 ENHANCED 10-MODEL PIPELINE RESULTS:');
-      console.log('═══════════════════════════════════════════════════════════════');
-      console.log(modelReport);
-      console.log('═══════════════════════════════════════════════════════════════\n');
-      
-      console.log(`✅ Completed Enhanced 10-Model Pipeline: ${modelResults.length} models processed`);
-      return modelResults;
-
-    } catch (error) {
-      console.error('Hugging Face pipeline error:', error);
-      // If critical error, fail fast as required
-      throw new Error(`Enhanced 10-Model Pipeline failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  /**
-   * Generate AI-optimized bone hierarchy using model results
-   */
-  private async generateAIBoneHierarchy(analysis: GLBAnalysis, modelResults: any[]): Promise<BoneHierarchy[]> {
-    if (!this.tierLimits) {
-      throw new Error('Tier limits not initialized');
-    }
-
-    const bones: BoneHierarchy[] = [];
-    const maxBones = this.tierLimits.maxBones;
-    
-    // Extract AI insights from model results
-    const boneData = this.extractBoneDataFromModels(modelResults, analysis);
-    const hierarchyData = this.extractHierarchyFromModels(modelResults);
-    const poseData = this.extractPoseDataFromModels(modelResults);
-
-    console.log(`Generating AI-optimized bone hierarchy (max: ${maxBones} bones)...`);
-
-    let boneId = 0;
-    
-    // Root bone (always required)
-    bones.push({
-      id: boneId++,
-      name: 'root',
-      type: 'root',
-      position: [0, 0, 0],
-      rotation: [0, 0, 0, 1],
-      parent: null,
-      children: [],
-      weight: 1.0
-    });
-
-    // AI-guided bone placement based on model analysis
-    if (boneData.hasSpine && boneId < maxBones) {
-      bones.push({
-        id: boneId++,
-        name: 'spine',
-        type: 'spine',
-        position: boneData.spinePosition || [0, analysis.boundingBox.max[1] * 0.3, 0],
-        rotation: [0, 0, 0, 1],
-        parent: 0,
-        children: [],
-        weight: boneData.spineWeight || 0.9
-      });
-    }
-
-    if (boneData.hasNeck && boneId < maxBones) {
-      bones.push({
-        id: boneId++,
-        name: 'neck',
-        type: 'neck',
-        position: boneData.neckPosition || [0, analysis.boundingBox.max[1] * 0.8, 0],
-        rotation: [0, 0, 0, 1],
-        parent: 1,
-        children: [],
-        weight: boneData.neckWeight || 0.8
-      });
-    }
-
-    if (boneData.hasHead && boneId < maxBones) {
-      bones.push({
-        id: boneId++,
-        name: 'head',
-        type: 'head',
-        position: boneData.headPosition || [0, analysis.boundingBox.max[1] * 0.9, 0],
-        rotation: [0, 0, 0, 1],
-        parent: 2,
-        children: [],
-        weight: boneData.headWeight || 0.7
-      });
-    }
-
-    // Add arms based on AI detection
-    if (boneData.hasArms && boneId < maxBones - 1) {
-      const shoulderY = boneData.shoulderHeight || analysis.boundingBox.max[1] * 0.7;
-      
-      // Left arm
-      bones.push({
-        id: boneId++,
-        name: 'shoulder_L',
-        type: 'shoulder',
-        position: boneData.leftShoulderPos || [-analysis.boundingBox.max[0] * 0.3, shoulderY, 0],
-        rotation: [0, 0, 0, 1],
-        parent: 1,
-        children: [],
-        weight: boneData.shoulderWeight || 0.6
-      });
-
-      if (boneId < maxBones) {
-        bones.push({
-          id: boneId++,
-          name: 'arm_L',
-          type: 'arm',
-          position: boneData.leftArmPos || [-analysis.boundingBox.max[0] * 0.6, shoulderY, 0],
-          rotation: [0, 0, 0, 1],
-          parent: boneId - 2,
-          children: [],
-          weight: boneData.armWeight || 0.5
-        });
-      }
-
-      // Right arm
-      if (boneId < maxBones - 1) {
-        bones.push({
-          id: boneId++,
-          name: 'shoulder_R',
-          type: 'shoulder',
-          position: boneData.rightShoulderPos || [analysis.boundingBox.max[0] * 0.3, shoulderY, 0],
-          rotation: [0, 0, 0, 1],
-          parent: 1,
-          children: [],
-          weight: boneData.shoulderWeight || 0.6
-        });
-
-        if (boneId < maxBones) {
-          bones.push({
-            id: boneId++,
-            name: 'arm_R',
-            type: 'arm',
-            position: boneData.rightArmPos || [analysis.boundingBox.max[0] * 0.6, shoulderY, 0],
-            rotation: [0, 0, 0, 1],
-            parent: boneId - 2,
-            children: [],
-            weight: boneData.armWeight || 0.5
-          });
-        }
-      }
-    }
-
-    // Generate bones to utilize FULL subscription tier capacity (Goat: 82 bones)
-    const targetBones = maxBones; // Use full allocation for proper tier value
-    
-    // Phase 1: Core body structure (spine, limbs, head) - 15-20 bones
-    while (boneId < Math.min(targetBones, 20)) {
-      bones.push({
-        id: boneId++,
-        name: `core_bone_${boneId}`,
-        type: 'spine',
-        position: [0, Math.random() * 2 - 1, 0],
-        rotation: [0, 0, 0, 1],
-        parent: boneId > 1 ? Math.floor(Math.random() * (boneId - 1)) : null,
-        children: [],
-        weight: 0.8
-      });
-    }
-    
-    // Phase 2: Finger bones for Goat plan (40 bones for full finger tracking)
-    if (maxBones >= 60 && boneId < targetBones) {
-      const fingerCount = Math.min(40, targetBones - boneId);
-      for (let i = 0; i < fingerCount; i++) {
-        bones.push({
-          id: boneId++,
-          name: `finger_${Math.floor(i/4)}_joint_${i%4}`,
-          type: 'hand',
-          position: [i % 2 === 0 ? -0.6 : 0.6, 0.5 + (i * 0.02), 0],
-          rotation: [0, 0, 0, 1],
-          parent: Math.max(0, boneId - 2),
-          children: [],
-          weight: 0.4
-        });
-      }
-    }
-    
-    // Phase 3: Facial expression bones (15-25 bones for detailed expressions)
-    if (boneId < targetBones) {
-      const facialCount = Math.min(25, targetBones - boneId);
-      for (let i = 0; i < facialCount; i++) {
-        bones.push({
-          id: boneId++,
-          name: `facial_${['jaw', 'eyebrow', 'cheek', 'lip', 'nose'][i % 5]}_${Math.floor(i/5)}`,
-          type: 'head',
-          position: [Math.sin(i * 0.3) * 0.3, 1.5 + (i * 0.01), Math.cos(i * 0.3) * 0.3],
-          rotation: [0, 0, 0, 1],
-          parent: 1, // Connect to head bone
-          children: [],
-          weight: 0.3
-        });
-      }
-    }
-    
-    // Phase 4: Fill remaining slots with detail bones to reach target
-    while (boneId < targetBones) {
-      bones.push({
-        id: boneId++,
-        name: `detail_bone_${boneId}`,
-        type: boneId % 3 === 0 ? 'spine' : boneId % 3 === 1 ? 'arm' : 'leg',
-        position: [Math.random() * 0.4 - 0.2, Math.random() * 2, Math.random() * 0.4 - 0.2],
-        rotation: [0, 0, 0, 1],
-        parent: Math.floor(Math.random() * Math.min(boneId - 1, 10)),
-        children: [],
-        weight: 0.5
-      });
-    }
-
-    // Update parent-child relationships using AI hierarchy optimization
-    this.optimizeBoneHierarchy(bones, hierarchyData);
-
-    console.log(`Generated ${bones.length} AI-optimized bones (target: ${targetBones}, max: ${maxBones})`);
-    return bones;
-  }
-
-  /**
-   * Generate finger bones for enhanced hand tracking (Goat plan)
-   */
-  private generateFingerBones(startId: number, targetBones: number, boneData: any): BoneHierarchy[] {
-    const fingerBones: BoneHierarchy[] = [];
-    const remainingSlots = targetBones - startId;
-    const fingersToAdd = Math.min(20, remainingSlots); // 4 fingers × 5 bones each
-    
-    let boneId = startId;
-    const fingers = ['thumb', 'index', 'middle', 'ring', 'pinky'];
-    
-    for (let hand = 0; hand < 2 && boneId < startId + fingersToAdd; hand++) {
-      const handSide = hand === 0 ? 'L' : 'R';
-      const handX = hand === 0 ? -0.6 : 0.6;
-      
-      for (let f = 0; f < fingers.length && boneId < startId + fingersToAdd; f++) {
-        const finger = fingers[f];
-        
-        // Only add first joint for each finger to stay within limits
-        fingerBones.push({
-          id: boneId++,
-          name: `${finger}_${handSide}`,
-          type: 'hand',
-          position: [handX, 0.5, 0],
-          rotation: [0, 0, 0, 1],
-          parent: hand === 0 ? 5 : 7, // Connect to arm bones
-          children: [],
-          weight: 0.3
-        });
-      }
-    }
-    
-    return fingerBones;
-  }
-
-  /**
-   * Generate facial bones for expression control
-   */
-  private generateFacialBones(startId: number, targetBones: number, boneData: any): BoneHierarchy[] {
-    const facialBones: BoneHierarchy[] = [];
-    const remainingSlots = targetBones - startId;
-    const facialBonesCount = Math.min(15, remainingSlots);
-    
-    let boneId = startId;
-    const facialPoints = [
-      'jaw', 'chin', 'cheek_L', 'cheek_R', 'eyebrow_L', 'eyebrow_R',
-      'eye_L', 'eye_R', 'nose', 'mouth', 'lip_upper', 'lip_lower',
-      'ear_L', 'ear_R', 'forehead'
-    ];
-    
-    for (let i = 0; i < Math.min(facialPoints.length, facialBonesCount); i++) {
-      facialBones.push({
-        id: boneId++,
-        name: facialPoints[i],
-        type: 'head',
-        position: [0, 0.9, 0.1],
-        rotation: [0, 0, 0, 1],
-        parent: 3, // Connect to head bone
-        children: [],
-        weight: 0.4
-      });
-    }
-    
-    return facialBones;
-  }
-
-  /**
-   * Generate spine detail bones for professional rigging
-   */
-  private generateSpineDetailBones(startId: number, targetBones: number, boneData: any): BoneHierarchy[] {
-    const spineBones: BoneHierarchy[] = [];
-    const remainingSlots = targetBones - startId;
-    const spineSegments = Math.min(8, remainingSlots);
-    
-    let boneId = startId;
-    
-    for (let i = 0; i < spineSegments; i++) {
-      const segmentHeight = 0.1 + (i * 0.1);
-      spineBones.push({
-        id: boneId++,
-        name: `spine_${i + 2}`,
-        type: 'spine',
-        position: [0, segmentHeight, 0],
-        rotation: [0, 0, 0, 1],
-        parent: i === 0 ? 1 : (boneId - 2), // Connect to previous spine bone
-        children: [],
-        weight: 0.8 - (i * 0.1)
-      });
-    }
-    
-    return spineBones;
-  }
-
-  /**
-   * Generate leg and foot bones
-   */
-  private generateLegBones(startId: number, targetBones: number, boneData: any, analysis: GLBAnalysis): BoneHierarchy[] {
-    const legBones: BoneHierarchy[] = [];
-    const remainingSlots = targetBones - startId;
-    const legBonesCount = Math.min(12, remainingSlots); // 6 bones per leg
-    
-    let boneId = startId;
-    
-    for (let leg = 0; leg < 2 && boneId < startId + legBonesCount; leg++) {
-      const legSide = leg === 0 ? 'L' : 'R';
-      const legX = leg === 0 ? -0.2 : 0.2;
-      
-      // Hip
-      legBones.push({
-        id: boneId++,
-        name: `hip_${legSide}`,
-        type: 'hip',
-        position: [legX, 0, 0],
-        rotation: [0, 0, 0, 1],
-        parent: 0, // Connect to root
-        children: [],
-        weight: 0.9
-      });
-      
-      // Thigh
-      if (boneId < startId + legBonesCount) {
-        legBones.push({
-          id: boneId++,
-          name: `thigh_${legSide}`,
-          type: 'leg',
-          position: [legX, -0.3, 0],
-          rotation: [0, 0, 0, 1],
-          parent: boneId - 2,
-          children: [],
-          weight: 0.8
-        });
-      }
-      
-      // Knee
-      if (boneId < startId + legBonesCount) {
-        legBones.push({
-          id: boneId++,
-          name: `knee_${legSide}`,
-          type: 'leg',
-          position: [legX, -0.6, 0],
-          rotation: [0, 0, 0, 1],
-          parent: boneId - 2,
-          children: [],
-          weight: 0.7
-        });
-      }
-      
-      // Foot
-      if (boneId < startId + legBonesCount) {
-        legBones.push({
-          id: boneId++,
-          name: `foot_${legSide}`,
-          type: 'foot',
-          position: [legX, analysis.boundingBox.min[1], 0],
-          rotation: [0, 0, 0, 1],
-          parent: boneId - 2,
-          children: [],
-          weight: 0.6
-        });
-      }
-    }
-    
-    return legBones;
-  }
-
-  /**
-   * Generate AI-optimized morph targets using model results
-   */
-  private async generateAIMorphTargets(analysis: GLBAnalysis, modelResults: any[]): Promise<MorphTarget[]> {
-    if (!this.tierLimits) {
-      throw new Error('Tier limits not initialized');
-    }
-
-    const morphTargets: MorphTarget[] = [];
-    const maxMorphs = this.tierLimits.maxMorphTargets;
-    const vertexCount = analysis.vertices;
-
-    // Extract AI insights for morph generation
-    const morphData = this.extractMorphDataFromModels(modelResults);
-    const expressionData = this.extractExpressionDataFromModels(modelResults);
-
-    console.log(`Generating ${maxMorphs} AI-optimized morph targets...`);
-
-    // AI-guided facial morphs
-    if (morphData.facialMorphs && morphTargets.length < maxMorphs) {
-      for (const morphInfo of morphData.facialMorphs.slice(0, maxMorphs)) {
-        morphTargets.push({
-          name: morphInfo.name || 'ai_facial',
-          type: 'facial',
-          vertexDeltas: this.generateAIMorphDeltas(vertexCount, morphInfo),
-          normalDeltas: this.generateAINormalDeltas(vertexCount, morphInfo),
-          weight: morphInfo.weight || 1.0
-        });
-      }
-    }
-
-    // AI-guided expression variants
-    if (expressionData.variants && morphTargets.length < maxMorphs) {
-      for (const variant of expressionData.variants.slice(0, maxMorphs - morphTargets.length)) {
-        morphTargets.push({
-          name: variant.name || 'ai_expression',
-          type: 'facial',
-          vertexDeltas: this.generateAIExpressionDeltas(vertexCount, variant),
-          normalDeltas: this.generateAINormalDeltas(vertexCount, variant),
-          weight: variant.intensity || 0.8
-        });
-      }
-    }
-
-    // Generate morph targets to utilize FULL subscription tier capacity (Goat: 100 morphs)
-    const targetMorphs = maxMorphs; // Use full allocation for proper tier value
-    
-    // Phase 1: Facial expression morphs (60% of allocation for detailed expressions)
-    const facialMorphCount = Math.floor(targetMorphs * 0.6);
-    for (let i = morphTargets.length; i < facialMorphCount; i++) {
-      morphTargets.push({
-        name: this.generateMorphName(i, 'facial'),
-        type: 'facial',
-        vertexDeltas: this.generateAIExpressionDeltas(vertexCount, { expression: i % 20 }),
-        normalDeltas: this.generateAINormalDeltas(vertexCount, { intensity: 0.7 }),
-        weight: 0.5 + (Math.random() * 0.5)
-      });
-    }
-    
-    // Phase 2: Body correction morphs (25% of allocation)
-    const bodyMorphCount = Math.floor(targetMorphs * 0.25);
-    for (let i = 0; i < bodyMorphCount && morphTargets.length < targetMorphs; i++) {
-      morphTargets.push({
-        name: this.generateMorphName(morphTargets.length, 'body'),
-        type: 'body',
-        vertexDeltas: this.generateAICorrectiveDeltas(vertexCount),
-        normalDeltas: this.generateAINormalDeltas(vertexCount, { intensity: 0.4 }),
-        weight: 0.4 + (Math.random() * 0.4)
-      });
-    }
-    
-    // Phase 3: Fill remaining slots with corrective morphs (15% of allocation)
-    while (morphTargets.length < targetMorphs) {
-      morphTargets.push({
-        name: this.generateMorphName(morphTargets.length, 'corrective'),
-        type: 'corrective',
-        vertexDeltas: this.generateAICorrectiveDeltas(vertexCount),
-        normalDeltas: this.generateAINormalDeltas(vertexCount, { intensity: 0.3 }),
-        weight: 0.3 + (Math.random() * 0.5)
-      });
-    }
-
-    console.log(`Generated ${morphTargets.length} AI-optimized morph targets`);
-    return morphTargets;
-  }
-
-  /**
-   * Select optimal morph type based on current count and subscription tier
-   */
-  private selectOptimalMorphType(currentCount: number, maxMorphs: number): 'facial' | 'body' | 'corrective' {
-    const progress = currentCount / maxMorphs;
-    
-    // For Goat plan (100 morphs), distribute intelligently
-    if (progress < 0.6) return 'facial';  // First 60% facial expressions
-    if (progress < 0.8) return 'body';    // Next 20% body corrections
-    return 'corrective';                  // Final 20% corrective morphs
-  }
-
-  /**
-   * Generate contextual morph names
-   */
-  private generateMorphName(index: number, type: 'facial' | 'body' | 'corrective'): string {
-    const facialMorphs = [
-      'smile', 'frown', 'blink_L', 'blink_R', 'eyebrow_raise_L', 'eyebrow_raise_R',
-      'mouth_open', 'jaw_left', 'jaw_right', 'cheek_puff_L', 'cheek_puff_R',
-      'nose_sneer_L', 'nose_sneer_R', 'lip_corner_pull_L', 'lip_corner_pull_R',
-      'lip_pucker', 'tongue_out', 'squint_L', 'squint_R', 'mouth_stretch_L',
-      'mouth_stretch_R', 'lip_roll_upper', 'lip_roll_lower', 'chin_raise',
-      'mouth_dimple_L', 'mouth_dimple_R', 'mouth_press_L', 'mouth_press_R',
-      'mouth_shrug_upper', 'mouth_shrug_lower', 'brow_down_L', 'brow_down_R',
-      'eye_wide_L', 'eye_wide_R', 'cheek_squint_L', 'cheek_squint_R',
-      'mouth_upper_up_L', 'mouth_upper_up_R', 'mouth_lower_down_L', 'mouth_lower_down_R'
-    ];
-    
-    const bodyMorphs = [
-      'chest_expand', 'shoulder_up_L', 'shoulder_up_R', 'shoulder_forward_L',
-      'shoulder_forward_R', 'arm_twist_L', 'arm_twist_R', 'elbow_bend_L', 'elbow_bend_R',
-      'wrist_up_L', 'wrist_up_R', 'finger_spread_L', 'finger_spread_R',
-      'spine_twist_L', 'spine_twist_R', 'hip_twist_L', 'hip_twist_R',
-      'knee_bend_L', 'knee_bend_R', 'ankle_up_L', 'ankle_up_R'
-    ];
-    
-    const correctiveMorphs = [
-      'volume_preserve', 'muscle_bulge_L', 'muscle_bulge_R', 'joint_correct_L',
-      'joint_correct_R', 'skin_slide_L', 'skin_slide_R', 'compression_fix',
-      'stretch_limit', 'bend_compensation', 'twist_fix', 'pose_correct'
-    ];
-    
-    switch (type) {
-      case 'facial':
-        return facialMorphs[index % facialMorphs.length] || `facial_${index}`;
-      case 'body':
-        return bodyMorphs[index % bodyMorphs.length] || `body_${index}`;
-      case 'corrective':
-        return correctiveMorphs[index % correctiveMorphs.length] || `corrective_${index}`;
-    }
-  }
-
-  // AI model result parsing methods
-  private parseFacialAnalysis(text: string, analysis: GLBAnalysis): any {
-    return {
-      hasDetailedFace: analysis.humanoidFeatures.hasHead,
-      faceComplexity: analysis.humanoidFeatures.confidence,
-      recommendedMorphs: this.tierLimits.maxMorphTargets
-    };
-  }
-
-  private parseBodyDetection(result: any, analysis: GLBAnalysis): any {
-    return {
-      hasSpine: analysis.humanoidFeatures.hasTorso,
-      hasArms: analysis.humanoidFeatures.hasArms,
-      hasLegs: analysis.humanoidFeatures.hasLegs,
-      confidence: analysis.humanoidFeatures.confidence
-    };
-  }
-
-  private parseBonePlacement(result: any, analysis: GLBAnalysis): any {
-    return {
-      optimalBoneCount: this.tierLimits.maxBones,
-      boneDensity: analysis.vertices / this.tierLimits.maxBones,
-      placement: 'ai_optimized'
-    };
-  }
-
-  private parsePoseEstimation(result: any, analysis: GLBAnalysis): any {
-    return {
-      pose: 'neutral',
-      jointConfidence: analysis.humanoidFeatures.confidence,
-      recommendedJoints: Math.min(this.tierLimits.maxBones - 3, 15)
-    };
-  }
-
-  private parseHierarchyOptimization(text: string, analysis: GLBAnalysis): any {
-    return {
-      hierarchyDepth: 4,
-      rootBones: 1,
-      optimizationLevel: this.tierLimits.maxBones > 50 ? 'high' : 'standard'
-    };
-  }
-
-  private parseMorphGeneration(text: string, analysis: GLBAnalysis): any {
-    return {
-      facialMorphs: [
-        { name: 'smile', weight: 1.0, priority: 1 },
-        { name: 'blink', weight: 1.0, priority: 1 },
-        { name: 'jaw_open', weight: 0.8, priority: 2 },
-        { name: 'eyebrow_raise', weight: 0.6, priority: 3 }
-      ]
-    };
-  }
-
-  private parseExpressionVariants(text: string, analysis: GLBAnalysis): any {
-    return {
-      variants: [
-        { name: 'happy', intensity: 0.9 },
-        { name: 'sad', intensity: 0.7 },
-        { name: 'angry', intensity: 0.8 },
-        { name: 'surprised', intensity: 0.9 }
-      ]
-    };
-  }
-
-  private parseVisualClassification(text: string, analysis: GLBAnalysis): any {
-    return {
-      modelType: 'humanoid',
-      confidence: analysis.humanoidFeatures.confidence,
-      category: 'character'
-    };
-  }
-
-  private parseSpatialAnalysis(result: any, analysis: GLBAnalysis): any {
-    return {
-      spatialType: 'humanoid',
-      proportions: 'standard',
-      complexity: analysis.vertices > 10000 ? 'high' : 'medium'
-    };
-  }
-
-  private parseRiggingOptimization(text: string, analysis: GLBAnalysis): any {
-    return {
-      strategy: 'tier_optimized',
-      boneAllocation: this.tierLimits.maxBones,
-      morphAllocation: this.tierLimits.maxMorphTargets,
-      quality: 'production'
-    };
-  }
-
-  // Helper methods for AI data extraction
-  private extractBoneDataFromModels(modelResults: any[], analysis: GLBAnalysis): any {
-    const bodyDetection = modelResults.find(r => r.model === 'body_detection');
-    const bonePlacement = modelResults.find(r => r.model === 'bone_placement');
-    
-    return {
-      hasSpine: bodyDetection?.result?.hasSpine || analysis.humanoidFeatures.hasTorso,
-      hasNeck: bodyDetection?.result?.hasSpine || analysis.humanoidFeatures.hasHead,
-      hasHead: bodyDetection?.result?.hasSpine || analysis.humanoidFeatures.hasHead,
-      hasArms: bodyDetection?.result?.hasArms || analysis.humanoidFeatures.hasArms,
-      spinePosition: [0, analysis.boundingBox.max[1] * 0.3, 0],
-      neckPosition: [0, analysis.boundingBox.max[1] * 0.8, 0],
-      headPosition: [0, analysis.boundingBox.max[1] * 0.9, 0],
-      shoulderHeight: analysis.boundingBox.max[1] * 0.7,
-      spineWeight: 0.9,
-      neckWeight: 0.8,
-      headWeight: 0.7,
-      shoulderWeight: 0.6,
-      armWeight: 0.5
-    };
-  }
-
-  private extractHierarchyFromModels(modelResults: any[]): any {
-    const hierarchy = modelResults.find(r => r.model === 'hierarchy_optimization');
-    return hierarchy?.result || { optimized: true };
-  }
-
-  private extractPoseDataFromModels(modelResults: any[]): any {
-    const pose = modelResults.find(r => r.model === 'pose_estimation');
-    return pose?.result || { pose: 'neutral' };
-  }
-
-  private extractMorphDataFromModels(modelResults: any[]): any {
-    const morph = modelResults.find(r => r.model === 'morph_generation');
-    return morph?.result || { facialMorphs: [] };
-  }
-
-  private extractExpressionDataFromModels(modelResults: any[]): any {
-    const expression = modelResults.find(r => r.model === 'expression_variants');
-    return expression?.result || { variants: [] };
-  }
-
-  private optimizeBoneHierarchy(bones: BoneHierarchy[], hierarchyData: any): void {
-    for (const bone of bones) {
-      if (bone.parent !== null) {
-        const parent = bones.find(b => b.id === bone.parent);
-        if (parent) {
-          parent.children.push(bone.id);
-        }
-      }
-    }
-  }
-
-  private generateAIMorphDeltas(vertexCount: number, morphInfo: any): Float32Array {
-    const deltas = new Float32Array(vertexCount * 3);
-    const intensity = morphInfo.weight || 0.5;
-    
-    for (let i = 0; i < vertexCount; i++) {
-      const factor = intensity * (Math.sin(i * 0.01) * 0.1);
-      deltas[i * 3] = factor;     // X
-      deltas[i * 3 + 1] = factor * 0.5; // Y
-      deltas[i * 3 + 2] = factor * 0.2; // Z
-    }
-    
-    return deltas;
-  }
-
-  private generateAINormalDeltas(vertexCount: number, morphInfo: any): Float32Array {
-    const deltas = new Float32Array(vertexCount * 3);
-    const intensity = morphInfo.weight || 0.3;
-    
-    for (let i = 0; i < vertexCount; i++) {
-      const factor = intensity * 0.1;
-      deltas[i * 3] = factor;
-      deltas[i * 3 + 1] = factor;
-      deltas[i * 3 + 2] = factor;
-    }
-    
-    return deltas;
-  }
-
-  private generateAIExpressionDeltas(vertexCount: number, variant: any): Float32Array {
-    return this.generateAIMorphDeltas(vertexCount, variant);
-  }
-
-  private generateAICorrectiveDeltas(vertexCount: number): Float32Array {
-    const deltas = new Float32Array(vertexCount * 3);
-    
-    for (let i = 0; i < vertexCount; i++) {
-      const corrective = Math.sin(i * 0.005) * 0.05;
-      deltas[i * 3] = corrective;
-      deltas[i * 3 + 1] = corrective * 0.3;
-      deltas[i * 3 + 2] = corrective * 0.1;
-    }
-    
-    return deltas;
-  }
-
-  // Image generation methods for visual models
-  private generateImageFromGLB(buffer: Buffer, analysis: GLBAnalysis): Buffer {
-    // Generate a basic representation for AI analysis
-    const width = 224, height = 224;
-    const imageData = Buffer.alloc(width * height * 3);
-    
-    // Simple visualization based on bounding box
-    const centerX = width / 2;
-    const centerY = height / 2;
-    const scale = Math.min(width, height) * 0.4;
-    
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const dx = (x - centerX) / scale;
-        const dy = (y - centerY) / scale;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-        
-        const index = (y * width + x) * 3;
-        if (dist < 1.0) {
-          imageData[index] = Math.floor(255 * (1 - dist));     // R
-          imageData[index + 1] = Math.floor(128 * (1 - dist)); // G
-          imageData[index + 2] = Math.floor(64 * (1 - dist));  // B
-        }
-      }
-    }
-    
-    return imageData;
-  }
-
-  private generateSkeletonView(buffer: Buffer, analysis: GLBAnalysis): Buffer {
-    return this.generateImageFromGLB(buffer, analysis);
-  }
-
-  private generatePoseView(buffer: Buffer, analysis: GLBAnalysis): Buffer {
-    return this.generateImageFromGLB(buffer, analysis);
-  }
-
-  private generateThumbnail(buffer: Buffer, analysis: GLBAnalysis): Buffer {
-    return this.generateImageFromGLB(buffer, analysis);
-  }
-
-  /**
-   * Generate detailed report of which AI models were used vs fallbacks
-   */
-  private generateModelUsageReport(modelResults: any[]): string {
-    const aiUsedCount = modelResults.filter(r => r.aiUsed).length;
-    const fallbackCount = modelResults.filter(r => !r.aiUsed).length;
-    
-    let report = `\n🤖 AI Models Used: ${aiUsedCount}/10 | 🔧 Geometric Fallbacks: ${fallbackCount}/10\n`;
-    report += `═══════════════════════════════════════════════════════════════\n`;
-    
-    modelResults.forEach((result, index) => {
-      const status = result.aiUsed ? '✅' : '🔴';
-      const method = result.aiUsed ? 'AI Analysis' : 'Geometric Fallback';
-      report += `${status} Model ${index + 1}: ${result.modelName} (${result.model}) - ${method}\n`;
-    });
-    
-    report += `═══════════════════════════════════════════════════════════════\n`;
-    
-    if (aiUsedCount === 10) {
-      report += `🎉 PERFECT: All 10 Hugging Face models successfully processed!\n`;
-    } else if (aiUsedCount >= 7) {
-      report += `✨ EXCELLENT: ${aiUsedCount} AI models used with ${fallbackCount} intelligent fallbacks\n`;
-    } else if (aiUsedCount >= 4) {
-      report += `👍 GOOD: ${aiUsedCount} AI models used, enhanced rigging with some fallbacks\n`;
-    } else {
-      report += `⚠️  LIMITED: Only ${aiUsedCount} AI models available, mostly geometric analysis\n`;
-    }
-    
-    return report;
-  }
-}
-
-export const glbAutoRigger = new GLBAutoRigger();
-
-// Store last pipeline report for debugging
-export let lastPipelineReport: string = '';
-export let lastModelResults: any[] = [];
-
-// Export function to get last report
-export function getLastPipelineReport() {
-  return {
-    report: lastPipelineReport,
-    modelResults: lastModelResults,
-    timestamp: new Date().toISOString()
-  };
-}
\ No newline at end of file
@@ -182,10 +182,75 @@ export class GLBExporter {
           if (primitive.attributes && typeof primitive.attributes.POSITION !== 'number') {
             issues.push(`Mesh ${meshIndex}, primitive ${primIndex}: Missing POSITION attribute`);
           }
+
+          const attributes = primitive.attributes || {};
+          const vertexCount = gltfData.accessors?.[attributes.POSITION]?.count;
+          if ((typeof attributes.JOINTS_0 === 'number') !== (typeof attributes.WEIGHTS_0 === 'number')) {
+            issues.push(`Mesh ${meshIndex}, primitive ${primIndex}: JOINTS_0 and WEIGHTS_0 must be used together`);
+          }
+          for (const semantic of ['JOINTS_0', 'WEIGHTS_0']) {
+            const accessor = gltfData.accessors?.[attributes[semantic]];
+            if (typeof attributes[semantic] === 'number' && (accessor?.type !== 'VEC4' || accessor.count !== vertexCount)) {
+              issues.push(`Mesh ${meshIndex}, primitive ${primIndex}: ${semantic} must be a VEC4 per vertex`);
+            }
+          }
+
+          const targetCount = mesh.primitives[0].targets?.length || 0;
+          if ((primitive.targets?.length || 0) !== targetCount) {
+            issues.push(`Mesh ${meshIndex}, primitive ${primIndex}: All primitives must have the same number of morph targets`);
+          }
+          primitive.targets?.forEach((target: any, targetIndex: number) => {
+            Object.keys(target).forEach(semantic => {
+              if (gltfData.accessors?.[target[semantic]]?.count !== vertexCount) {
+                issues.push(`Mesh ${meshIndex}, primitive ${primIndex}: Morph target ${targetIndex} ${semantic} count does not match POSITION`);
+              }
+            });
+          });
         });
+
+        const targetCount = mesh.primitives?.[0]?.targets?.length || 0;
+        if (mesh.weights && mesh.weights.length !== targetCount) {
+          issues.push(`Mesh ${meshIndex}: weights has ${mesh.weights.length} entries for ${targetCount} morph targets`);
+        }
       });
     }
-    
+
+    // Validate skins
+    if (gltfData.skins) {
+      gltfData.skins.forEach((skin: any, skinIndex: number) => {
+        if (!skin.joints || skin.joints.length === 0) {
+          issues.push(`Skin ${skinIndex}: Must have at least one joint`);
+          return;
+        }
+        skin.joints.forEach((joint: any) => {
+          if (!gltfData.nodes?.[joint]) {
+            issues.push(`Skin ${skinIndex}: Joint ${joint} is not a node`);
+          }
+        });
+        if (typeof skin.inverseBindMatrices === 'number') {
+          const accessor = gltfData.accessors?.[skin.inverseBindMatrices];
+          if (accessor?.type !== 'MAT4' || accessor.count !== skin.joints.length) {
+            issues.push(`Skin ${skinIndex}: inverseBindMatrices must hold one MAT4 per joint`);
+          }
+        }
+      });
+    }
+
+    if (gltfData.nodes) {
+      gltfData.nodes.forEach((node: any, index: number) => {
+        if (typeof node.skin !== 'number') return;
+        if (!gltfData.skins?.[node.skin]) {
+          issues.push(`Node ${index}: References missing skin ${node.skin}`);
+        }
+        const mesh = gltfData.meshes?.[node.mesh];
+        if (!mesh) {
+          issues.push(`Node ${index}: Skinned node must have a mesh`);
+        } else if (mesh.primitives?.some((primitive: any) => typeof primitive.attributes?.JOINTS_0 !== 'number')) {
+          issues.push(`Node ${index}: Skinned mesh ${node.mesh} is missing JOINTS_0 / WEIGHTS_0`);
+        }
+      });
+    }
+
     // Validate accessors
     if (gltfData.accessors) {
       gltfData.accessors.forEach((accessor: any, index: number) => {
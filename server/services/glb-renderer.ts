@@ -0,0 +1,442 @@
+/**
+ * VIDA³ GLB Renderer
+ * Software rasterizer for avatar thumbnails and turntable previews, so the
+ * server can picture a model without a GPU or a native canvas build.
+ *
+ * The model is drawn in its rest pose (skins applied, default morph
+ * weights) by an orthographic camera circling its vertical axis. Color is
+ * base color factor × texture × vertex color under a key light and ambient
+ * fill; frames are rasterized at twice their size and downsampled so edges
+ * come out smooth.
+ */
+
+import type { Document, Material, Node, Primitive, Texture } from '@gltf-transform/core';
+import { Matrix4, Vector3 } from 'three';
+import sharp from 'sharp';
+import { readGltfDocument } from './gltf-skinning';
+
+export class RenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RenderError';
+  }
+}
+
+interface RenderTexture {
+  width: number;
+  height: number;
+  data: Buffer; // RGBA, sRGB encoded
+}
+
+interface RenderMaterial {
+  color: [number, number, number, number]; // linear
+  texture: RenderTexture | null;
+  texCoord: number;
+  alphaCutoff: number | null;
+}
+
+/**
+ * Triangles of a model in scene space, ready to be drawn from any angle
+ */
+export interface RenderScene {
+  triangleCount: number;
+  positions: Float32Array; // 9 per triangle
+  normals: Float32Array;   // 9 per triangle
+  uvs: Float32Array;       // 6 per triangle
+  colors: Float32Array;    // 9 per triangle, linear vertex colors
+  materials: Uint16Array;  // per triangle, index into materialList
+  materialList: RenderMaterial[];
+  center: [number, number, number];
+  radius: number;          // furthest vertex from the vertical axis through center
+  height: number;
+}
+
+export interface RenderViewOptions {
+  width: number;
+  height: number;
+  yaw: number; // degrees the camera is turned around the model, 0 looks at its front (+Z)
+}
+
+export interface TurntableOptions {
+  width: number;
+  height: number;
+  frames: number;
+  duration: number; // ms for a full turn
+}
+
+const SUPERSAMPLE = 2;
+const MAX_TEXTURE_SIZE = 1024;
+const FRAME_FILL = 0.9;
+
+// Light directions in view space: key from the upper left, fill from the right
+const KEY_LIGHT = new Vector3(-0.45, 0.55, 0.7).normalize();
+const FILL_LIGHT = new Vector3(0.6, 0.1, 0.8).normalize();
+const AMBIENT = 0.35;
+
+const SRGB_TO_LINEAR = Float32Array.from({ length: 256 }, (_, value) => Math.pow(value / 255, 2.2));
+
+/**
+ * Read a GLB into triangles. Throws RenderError when there is nothing to draw.
+ */
+export async function loadRenderScene(buffer: Buffer): Promise<RenderScene> {
+  const document = await readGltfDocument(buffer);
+  const materials = new Map<Material | null, number>();
+  const materialList: RenderMaterial[] = [];
+  const textures = new Map<Texture, Promise<RenderTexture | null>>();
+
+  const materialIndex = async (material: Material | null): Promise<number> => {
+    if (!materials.has(material)) {
+      materials.set(material, materialList.length);
+      materialList.push(await toRenderMaterial(material, textures));
+    }
+    return materials.get(material)!;
+  };
+
+  const chunks: Array<{ primitive: Primitive; material: number; positions: Float32Array; normals: Float32Array | null }> = [];
+  for (const node of drawableNodes(document)) {
+    const mesh = node.getMesh()!;
+    for (const primitive of mesh.listPrimitives()) {
+      if (primitive.getMode() !== 4 || !primitive.getAttribute('POSITION')) continue; // triangles only
+      const { positions, normals } = restPose(node, primitive, mesh.getWeights());
+      chunks.push({ primitive, material: await materialIndex(primitive.getMaterial()), positions, normals });
+    }
+  }
+
+  const triangleCount = chunks.reduce((total, chunk) => total + Math.floor(vertexOrder(chunk.primitive).length / 3), 0);
+  if (triangleCount === 0) {
+    throw new RenderError('Model has no triangles to render');
+  }
+
+  const scene: RenderScene = {
+    triangleCount,
+    positions: new Float32Array(triangleCount * 9),
+    normals: new Float32Array(triangleCount * 9),
+    uvs: new Float32Array(triangleCount * 6),
+    colors: new Float32Array(triangleCount * 9).fill(1),
+    materials: new Uint16Array(triangleCount),
+    materialList,
+    center: [0, 0, 0],
+    radius: 0,
+    height: 0
+  };
+
+  let triangle = 0;
+  const element: number[] = [];
+  for (const { primitive, material, positions, normals } of chunks) {
+    const order = vertexOrder(primitive);
+    const uv = primitive.getAttribute(`TEXCOORD_${materialList[material].texCoord}`);
+    const color = primitive.getAttribute('COLOR_0');
+
+    for (let i = 0; i + 2 < order.length; i += 3, triangle++) {
+      scene.materials[triangle] = material;
+      for (let corner = 0; corner < 3; corner++) {
+        const vertex = order[i + corner];
+        const out = triangle * 3 + corner;
+        scene.positions.set(positions.subarray(vertex * 3, vertex * 3 + 3), out * 3);
+        if (normals) scene.normals.set(normals.subarray(vertex * 3, vertex * 3 + 3), out * 3);
+        if (uv) {
+          uv.getElement(vertex, element);
+          scene.uvs[out * 2] = element[0];
+          scene.uvs[out * 2 + 1] = element[1];
+        }
+        if (color) {
+          color.getElement(vertex, element);
+          scene.colors.set([element[0], element[1], element[2]], out * 3);
+        }
+      }
+      if (!normals) faceNormal(scene, triangle);
+    }
+  }
+
+  frameScene(scene);
+  return scene;
+}
+
+/**
+ * One view as a PNG with a transparent background
+ */
+export async function renderView(scene: RenderScene, { width, height, yaw }: RenderViewOptions): Promise<Buffer> {
+  const pixels = rasterize(scene, width * SUPERSAMPLE, height * SUPERSAMPLE, yaw);
+  return sharp(pixels, { raw: { width: width * SUPERSAMPLE, height: height * SUPERSAMPLE, channels: 4 } })
+    .resize(width, height)
+    .png()
+    .toBuffer();
+}
+
+/**
+ * A full turn starting from the front, as a looping animated WebP
+ */
+export async function renderTurntable(scene: RenderScene, { width, height, frames, duration }: TurntableOptions): Promise<Buffer> {
+  const images: Buffer[] = [];
+  for (let frame = 0; frame < frames; frame++) {
+    images.push(await renderView(scene, { width, height, yaw: frame / frames * 360 }));
+  }
+  return sharp(images, { join: { animated: true } })
+    .webp({ loop: 0, delay: new Array(frames).fill(Math.round(duration / frames)), quality: 80 })
+    .toBuffer();
+}
+
+function drawableNodes(document: Document): Node[] {
+  const root = document.getRoot();
+  const scene = root.getDefaultScene() ?? root.listScenes()[0];
+  const nodes: Node[] = [];
+  scene?.traverse(node => {
+    if (node.getMesh()) nodes.push(node);
+  });
+  return nodes;
+}
+
+// Triangle corners as vertex indices, whether or not the primitive is indexed
+function vertexOrder(primitive: Primitive): ArrayLike<number> {
+  const indices = primitive.getIndices()?.getArray();
+  if (indices) return indices;
+  return Array.from({ length: primitive.getAttribute('POSITION')!.getCount() }, (_, index) => index);
+}
+
+/**
+ * Vertex positions and normals in scene space with default morph weights
+ * and, for skinned meshes, the skin's bind pose applied
+ */
+function restPose(node: Node, primitive: Primitive, weights: number[]): { positions: Float32Array; normals: Float32Array | null } {
+  const position = primitive.getAttribute('POSITION')!;
+  const normal = primitive.getAttribute('NORMAL');
+  const count = position.getCount();
+  const positions = new Float32Array(count * 3);
+  const normals = normal ? new Float32Array(count * 3) : null;
+  const element: number[] = [];
+
+  for (let vertex = 0; vertex < count; vertex++) {
+    position.getElement(vertex, element);
+    positions.set([element[0], element[1], element[2]], vertex * 3);
+    if (normal && normals) {
+      normal.getElement(vertex, element);
+      normals.set([element[0], element[1], element[2]], vertex * 3);
+    }
+  }
+
+  primitive.listTargets().forEach((target, index) => {
+    const weight = weights[index] ?? 0;
+    const delta = target.getAttribute('POSITION');
+    if (!weight || !delta) return;
+    for (let vertex = 0; vertex < count; vertex++) {
+      delta.getElement(vertex, element);
+      for (let axis = 0; axis < 3; axis++) positions[vertex * 3 + axis] += weight * element[axis];
+    }
+  });
+
+  const matrices = vertexMatrices(node, primitive);
+  const point = new Vector3();
+  for (let vertex = 0; vertex < count; vertex++) {
+    const matrix = matrices(vertex);
+    point.fromArray(positions, vertex * 3).applyMatrix4(matrix).toArray(positions, vertex * 3);
+    if (normals) point.fromArray(normals, vertex * 3).transformDirection(matrix).toArray(normals, vertex * 3);
+  }
+
+  return { positions, normals };
+}
+
+// Scene transform per vertex: the node's world matrix, or the blended joint matrices of its skin
+function vertexMatrices(node: Node, primitive: Primitive): (vertex: number) => Matrix4 {
+  const skin = node.getSkin();
+  const world = new Matrix4().fromArray(node.getWorldMatrix());
+  if (!skin || !primitive.getAttribute('JOINTS_0') || !primitive.getAttribute('WEIGHTS_0')) {
+    return () => world;
+  }
+
+  const inverseBind = skin.getInverseBindMatrices();
+  const element: number[] = [];
+  const jointMatrices = skin.listJoints().map((joint, index) => {
+    const matrix = new Matrix4().fromArray(joint.getWorldMatrix());
+    return inverseBind ? matrix.multiply(new Matrix4().fromArray(inverseBind.getElement(index, element))) : matrix;
+  });
+
+  const sets = [0, 1]
+    .map(set => ({ joints: primitive.getAttribute(`JOINTS_${set}`), weights: primitive.getAttribute(`WEIGHTS_${set}`) }))
+    .filter(set => set.joints && set.weights);
+  const blended = new Matrix4();
+  const joints: number[] = [];
+  const weights: number[] = [];
+
+  return (vertex) => {
+    blended.elements.fill(0);
+    let total = 0;
+    for (const set of sets) {
+      set.joints!.getElement(vertex, joints);
+      set.weights!.getElement(vertex, weights);
+      for (let i = 0; i < 4; i++) {
+        const matrix = jointMatrices[joints[i]];
+        if (!weights[i] || !matrix) continue;
+        total += weights[i];
+        for (let e = 0; e < 16; e++) blended.elements[e] += weights[i] * matrix.elements[e];
+      }
+    }
+    return total > 0 ? blended : world;
+  };
+}
+
+function faceNormal(scene: RenderScene, triangle: number): void {
+  const p = scene.positions.subarray(triangle * 9, triangle * 9 + 9);
+  const a = new Vector3(p[3] - p[0], p[4] - p[1], p[5] - p[2]);
+  const b = new Vector3(p[6] - p[0], p[7] - p[1], p[8] - p[2]);
+  const normal = a.cross(b).normalize();
+  for (let corner = 0; corner < 3; corner++) normal.toArray(scene.normals, triangle * 9 + corner * 3);
+}
+
+// Center on the bounding box and measure what every yaw must fit
+function frameScene(scene: RenderScene): void {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < scene.positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], scene.positions[i + axis]);
+      max[axis] = Math.max(max[axis], scene.positions[i + axis]);
+    }
+  }
+
+  scene.center = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+  scene.height = max[1] - min[1];
+  for (let i = 0; i < scene.positions.length; i += 3) {
+    const dx = scene.positions[i] - scene.center[0];
+    const dz = scene.positions[i + 2] - scene.center[2];
+    scene.radius = Math.max(scene.radius, Math.hypot(dx, dz));
+  }
+}
+
+async function toRenderMaterial(material: Material | null, textures: Map<Texture, Promise<RenderTexture | null>>): Promise<RenderMaterial> {
+  if (!material) {
+    return { color: [0.8, 0.8, 0.8, 1], texture: null, texCoord: 0, alphaCutoff: null };
+  }
+
+  const texture = material.getBaseColorTexture();
+  if (texture && !textures.has(texture)) textures.set(texture, decodeTexture(texture));
+
+  const alphaMode = material.getAlphaMode();
+  return {
+    color: material.getBaseColorFactor() as [number, number, number, number],
+    texture: texture ? await textures.get(texture)! : null,
+    texCoord: material.getBaseColorTextureInfo()?.getTexCoord() ?? 0,
+    // Blended surfaces are drawn opaque except where nearly invisible
+    alphaCutoff: alphaMode === 'MASK' ? material.getAlphaCutoff() : alphaMode === 'BLEND' ? 0.1 : null
+  };
+}
+
+// Formats sharp can't read (KTX2) fall back to the material's color factor
+async function decodeTexture(texture: Texture): Promise<RenderTexture | null> {
+  const image = texture.getImage();
+  if (!image) return null;
+  try {
+    const { data, info } = await sharp(Buffer.from(image.buffer, image.byteOffset, image.byteLength))
+      .resize({ width: MAX_TEXTURE_SIZE, height: MAX_TEXTURE_SIZE, fit: 'inside', withoutEnlargement: true })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return { width: info.width, height: info.height, data };
+  } catch (error: any) {
+    console.warn(`⚠️ Skipping ${texture.getMimeType()} texture "${texture.getName()}": ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * Z-buffered rasterization of every triangle into an RGBA buffer. The
+ * camera is orthographic, so attributes interpolate linearly in screen space.
+ */
+function rasterize(scene: RenderScene, width: number, height: number, yaw: number): Buffer {
+  const pixels = Buffer.alloc(width * height * 4);
+  const depth = new Float32Array(width * height).fill(-Infinity);
+
+  const angle = yaw * Math.PI / 180;
+  const right = [Math.cos(angle), 0, -Math.sin(angle)];
+  const toward = [Math.sin(angle), 0, Math.cos(angle)];
+  const scale = FRAME_FILL * Math.min(width / (2 * scene.radius || 1), height / (scene.height || 1));
+  const [cx, cy, cz] = scene.center;
+
+  const sx = new Float32Array(3);
+  const sy = new Float32Array(3);
+  const sz = new Float32Array(3);
+  const normal = new Vector3();
+  const color = [0, 0, 0, 0];
+
+  for (let triangle = 0; triangle < scene.triangleCount; triangle++) {
+    for (let corner = 0; corner < 3; corner++) {
+      const p = (triangle * 3 + corner) * 3;
+      const dx = scene.positions[p] - cx;
+      const dy = scene.positions[p + 1] - cy;
+      const dz = scene.positions[p + 2] - cz;
+      sx[corner] = width / 2 + (dx * right[0] + dz * right[2]) * scale;
+      sy[corner] = height / 2 - dy * scale;
+      sz[corner] = dx * toward[0] + dz * toward[2];
+    }
+
+    const area = (sx[1] - sx[0]) * (sy[2] - sy[0]) - (sx[2] - sx[0]) * (sy[1] - sy[0]);
+    if (Math.abs(area) < 1e-9) continue;
+
+    const minX = Math.max(0, Math.floor(Math.min(sx[0], sx[1], sx[2])));
+    const maxX = Math.min(width - 1, Math.ceil(Math.max(sx[0], sx[1], sx[2])));
+    const minY = Math.max(0, Math.floor(Math.min(sy[0], sy[1], sy[2])));
+    const maxY = Math.min(height - 1, Math.ceil(Math.max(sy[0], sy[1], sy[2])));
+    const material = scene.materialList[scene.materials[triangle]];
+
+    for (let y = minY; y <= maxY; y++) {
+      const py = y + 0.5;
+      for (let x = minX; x <= maxX; x++) {
+        const px = x + 0.5;
+        const w0 = ((sx[1] - px) * (sy[2] - py) - (sx[2] - px) * (sy[1] - py)) / area;
+        const w1 = ((sx[2] - px) * (sy[0] - py) - (sx[0] - px) * (sy[2] - py)) / area;
+        const w2 = 1 - w0 - w1;
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+
+        const index = y * width + x;
+        const z = w0 * sz[0] + w1 * sz[1] + w2 * sz[2];
+        if (z <= depth[index]) continue;
+
+        baseColor(scene, material, triangle, w0, w1, w2, color);
+        if (material.alphaCutoff !== null && color[3] < material.alphaCutoff) continue;
+
+        const n = triangle * 9;
+        normal.set(
+          w0 * scene.normals[n] + w1 * scene.normals[n + 3] + w2 * scene.normals[n + 6],
+          w0 * scene.normals[n + 1] + w1 * scene.normals[n + 4] + w2 * scene.normals[n + 7],
+          w0 * scene.normals[n + 2] + w1 * scene.normals[n + 5] + w2 * scene.normals[n + 8]
+        );
+        normal.set(normal.x * right[0] + normal.z * right[2], normal.y, normal.x * toward[0] + normal.z * toward[2]).normalize();
+        if (normal.z < 0) normal.negate(); // back faces are lit like double-sided ones
+
+        const light = AMBIENT + 0.75 * Math.max(0, normal.dot(KEY_LIGHT)) + 0.2 * Math.max(0, normal.dot(FILL_LIGHT));
+        depth[index] = z;
+        pixels[index * 4] = toSrgb(color[0] * light);
+        pixels[index * 4 + 1] = toSrgb(color[1] * light);
+        pixels[index * 4 + 2] = toSrgb(color[2] * light);
+        pixels[index * 4 + 3] = 255;
+      }
+    }
+  }
+
+  return pixels;
+}
+
+// Linear RGBA at a point of a triangle: factor × texture × vertex color
+function baseColor(scene: RenderScene, material: RenderMaterial, triangle: number, w0: number, w1: number, w2: number, out: number[]): void {
+  const c = triangle * 9;
+  out[0] = material.color[0] * (w0 * scene.colors[c] + w1 * scene.colors[c + 3] + w2 * scene.colors[c + 6]);
+  out[1] = material.color[1] * (w0 * scene.colors[c + 1] + w1 * scene.colors[c + 4] + w2 * scene.colors[c + 7]);
+  out[2] = material.color[2] * (w0 * scene.colors[c + 2] + w1 * scene.colors[c + 5] + w2 * scene.colors[c + 8]);
+  out[3] = material.color[3];
+
+  const texture = material.texture;
+  if (!texture) return;
+  const t = triangle * 6;
+  const u = w0 * scene.uvs[t] + w1 * scene.uvs[t + 2] + w2 * scene.uvs[t + 4];
+  const v = w0 * scene.uvs[t + 1] + w1 * scene.uvs[t + 3] + w2 * scene.uvs[t + 5];
+  const tx = Math.min(texture.width - 1, Math.floor((u - Math.floor(u)) * texture.width));
+  const ty = Math.min(texture.height - 1, Math.floor((v - Math.floor(v)) * texture.height));
+  const texel = (ty * texture.width + tx) * 4;
+  out[0] *= SRGB_TO_LINEAR[texture.data[texel]];
+  out[1] *= SRGB_TO_LINEAR[texture.data[texel + 1]];
+  out[2] *= SRGB_TO_LINEAR[texture.data[texel + 2]];
+  out[3] *= texture.data[texel + 3] / 255;
+}
+
+function toSrgb(linear: number): number {
+  return Math.round(Math.pow(Math.min(1, Math.max(0, linear)), 1 / 2.2) * 255);
+}
@@ -1,14 +1,22 @@
 import sharp from 'sharp';
 import fs from 'fs';
 import path from 'path';
+import { loadRenderScene, renderTurntable, renderView, type RenderScene } from './glb-renderer';
 
 export interface ThumbnailOptions {
   width?: number;
   height?: number;
   backgroundColor?: string;
   transparent?: boolean;
-  cameraDistance?: number;
-  lightIntensity?: number;
+  yaw?: number;          // camera angle around the model in degrees, 0 is the front
+  frames?: number;       // turntable frames
+  duration?: number;     // turntable length of one turn in ms
+}
+
+export interface ModelImages {
+  thumbnail: Buffer;     // PNG, 3/4 view
+  front: Buffer | null;  // PNG, front view; null when the model couldn't be rendered
+  preview: Buffer | null; // animated WebP turntable, null when the model couldn't be rendered
 }
 
 export class GLBThumbnailGenerator {
@@ -17,8 +25,9 @@ export class GLBThumbnailGenerator {
     height: 512,
     backgroundColor: 'transparent',
     transparent: true,
-    cameraDistance: 3,
-    lightIntensity: 1
+    yaw: 35,
+    frames: 24,
+    duration: 3000
   };
 
   constructor() {
@@ -26,188 +35,69 @@ export class GLBThumbnailGenerator {
   }
 
   async generateThumbnail(glbBuffer: Buffer, options: ThumbnailOptions = {}): Promise<Buffer> {
+    return (await this.generateImages(glbBuffer, options, false)).thumbnail;
+  }
+
+  /**
+   * Thumbnail, front view and turntable preview from a single parse of the model
+   */
+  async generateImages(glbBuffer: Buffer, options: ThumbnailOptions = {}, allViews = true): Promise<ModelImages> {
     const opts = { ...this.defaultOptions, ...options };
-    
-    try {
-      console.log('🔄 Starting GLB thumbnail generation...');
-      
-      // Analyze GLB structure for basic info
-      const glbInfo = this.analyzeGLBStructure(glbBuffer);
-      console.log('📊 GLB analyzed:', glbInfo);
-
-      // Create a professional-quality thumbnail with proper PNG format
-      const buffer = await sharp({
-        create: {
-          width: opts.width,
-          height: opts.height,
-          channels: 4,
-          background: { r: 100, g: 150, b: 255, alpha: 0.8 }
-        }
-      })
-      .png({
-        quality: 90,
-        compressionLevel: 6,
-        progressive: false
-      })
-      .toBuffer();
-      
-      console.log(`✅ GLB thumbnail generated: ${buffer.length} bytes (PNG format)`);
-      return buffer;
 
+    let scene: RenderScene;
+    try {
+      const startTime = Date.now();
+      scene = await loadRenderScene(glbBuffer);
+      console.log(`📐 Loaded ${scene.triangleCount} triangles for rendering in ${Date.now() - startTime}ms`);
     } catch (error) {
-      console.error('❌ GLB thumbnail generation failed:', error);
-      return await this.createFallbackThumbnail(opts);
+      console.error('❌ GLB could not be rendered:', error);
+      return { thumbnail: await this.createFallbackThumbnail(opts), front: null, preview: null };
     }
-  }
 
-  private analyzeGLBStructure(buffer: Buffer) {
-    try {
-      // Basic GLB header analysis
-      if (buffer.length < 12) return { valid: false, error: 'File too small' };
-      
-      const magic = buffer.readUInt32LE(0);
-      const version = buffer.readUInt32LE(4);
-      const length = buffer.readUInt32LE(8);
-      
-      if (magic !== 0x46546C67) return { valid: false, error: 'Invalid GLB magic' };
-      
-      return {
-        valid: true,
-        version,
-        length,
-        hasData: length > 12,
-        complexity: Math.min(Math.floor(length / 1000000), 10) // Simple complexity metric
-      };
-    } catch (error: any) {
-      return { valid: false, error: error.message };
-    }
+    const startTime = Date.now();
+    const thumbnail = await this.finish(await renderView(scene, opts), opts).png().toBuffer();
+    console.log(`✅ GLB thumbnail rendered: ${thumbnail.length} bytes in ${Date.now() - startTime}ms`);
+    if (!allViews) return { thumbnail, front: null, preview: null };
+
+    const front = opts.yaw === 0
+      ? thumbnail
+      : await this.finish(await renderView(scene, { ...opts, yaw: 0 }), opts).png().toBuffer();
+
+    // The turntable is a preview, so half the thumbnail's size keeps it light
+    const turntable = await renderTurntable(scene, {
+      width: Math.round(opts.width / 2),
+      height: Math.round(opts.height / 2),
+      frames: opts.frames,
+      duration: opts.duration
+    });
+    const preview = opts.transparent
+      ? turntable
+      : await this.finish(turntable, opts, true).webp({ loop: 0, quality: 80 }).toBuffer();
+    console.log(`🔄 GLB turntable rendered: ${opts.frames} frames, ${preview.length} bytes in ${Date.now() - startTime}ms`);
+
+    return { thumbnail, front, preview };
   }
 
-  private generateModelSVG(options: Required<ThumbnailOptions>, glbInfo: any): string {
-    const centerX = options.width / 2;
-    const centerY = options.height / 2;
-    const baseSize = Math.min(options.width, options.height) * 0.7;
-    const complexity = glbInfo.complexity || 3;
-    
-    // Create isometric projection
-    const modelSize = baseSize * 0.6;
-    const depth = modelSize * 0.3;
-    const cos30 = Math.cos(Math.PI / 6);
-    const sin30 = Math.sin(Math.PI / 6);
-    
-    let svgElements = '';
-    
-    // Draw multiple layers based on complexity
-    for (let layer = 0; layer < Math.min(complexity, 5); layer++) {
-      const layerSize = modelSize - (layer * modelSize * 0.1);
-      const layerDepth = depth - (layer * depth * 0.2);
-      const alpha = 0.8 - (layer * 0.15);
-      
-      // Front face
-      svgElements += `
-        <rect x="${centerX - layerSize/2}" y="${centerY - layerSize/2}" 
-              width="${layerSize}" height="${layerSize}"
-              fill="url(#frontGrad${layer})" stroke="rgba(50, 100, 200, ${alpha})" stroke-width="2"/>
-      `;
-      
-      // Top face (isometric)
-      const topPoints = [
-        [centerX - layerSize/2, centerY - layerSize/2],
-        [centerX - layerSize/2 + layerDepth * cos30, centerY - layerSize/2 - layerDepth * sin30],
-        [centerX + layerSize/2 + layerDepth * cos30, centerY - layerSize/2 - layerDepth * sin30],
-        [centerX + layerSize/2, centerY - layerSize/2]
-      ];
-      
-      svgElements += `
-        <polygon points="${topPoints.map(p => p.join(',')).join(' ')}"
-                 fill="rgba(120, 170, 255, ${alpha * 0.7})" stroke="rgba(40, 80, 160, ${alpha * 0.8})" stroke-width="1"/>
-      `;
-      
-      // Right face (isometric)
-      const rightPoints = [
-        [centerX + layerSize/2, centerY - layerSize/2],
-        [centerX + layerSize/2 + layerDepth * cos30, centerY - layerSize/2 - layerDepth * sin30],
-        [centerX + layerSize/2 + layerDepth * cos30, centerY + layerSize/2 - layerDepth * sin30],
-        [centerX + layerSize/2, centerY + layerSize/2]
-      ];
-      
-      svgElements += `
-        <polygon points="${rightPoints.map(p => p.join(',')).join(' ')}"
-                 fill="rgba(70, 120, 200, ${alpha * 0.6})" stroke="rgba(40, 80, 160, ${alpha * 0.8})" stroke-width="1"/>
-      `;
-    }
-    
-    // Generate gradients
-    let gradients = '';
-    for (let layer = 0; layer < Math.min(complexity, 5); layer++) {
-      const alpha = 0.8 - (layer * 0.15);
-      gradients += `
-        <linearGradient id="frontGrad${layer}" x1="0%" y1="0%" x2="100%" y2="100%">
-          <stop offset="0%" style="stop-color:rgba(100, 150, 255, ${alpha});stop-opacity:1" />
-          <stop offset="50%" style="stop-color:rgba(80, 120, 220, ${alpha * 0.9});stop-opacity:1" />
-          <stop offset="100%" style="stop-color:rgba(60, 100, 180, ${alpha * 0.8});stop-opacity:1" />
-        </linearGradient>
-      `;
-    }
-    
-    return `
-      <svg width="${options.width}" height="${options.height}" xmlns="http://www.w3.org/2000/svg">
-        <defs>
-          <radialGradient id="bgGrad" cx="50%" cy="50%" r="70%">
-            <stop offset="0%" style="stop-color:rgba(100, 150, 255, 0.1);stop-opacity:1" />
-            <stop offset="100%" style="stop-color:rgba(50, 100, 200, 0.05);stop-opacity:1" />
-          </radialGradient>
-          ${gradients}
-        </defs>
-        <rect width="100%" height="100%" fill="${options.transparent ? 'none' : 'url(#bgGrad)'}"/>
-        ${svgElements}
-        <rect x="${centerX - modelSize/4}" y="${centerY - modelSize/4}" 
-              width="${modelSize/2}" height="${modelSize/2}"
-              fill="url(#highlight)" opacity="0.3"/>
-        <defs>
-          <linearGradient id="highlight" x1="0%" y1="0%" x2="100%" y2="100%">
-            <stop offset="0%" style="stop-color:rgba(255, 255, 255, 0.3);stop-opacity:1" />
-            <stop offset="100%" style="stop-color:rgba(255, 255, 255, 0.0);stop-opacity:1" />
-          </linearGradient>
-        </defs>
-      </svg>
-    `;
+  private finish(image: Buffer, options: Required<ThumbnailOptions>, animated = false): sharp.Sharp {
+    const pipeline = sharp(image, { animated });
+    return options.transparent || options.backgroundColor === 'transparent'
+      ? pipeline
+      : pipeline.flatten({ background: options.backgroundColor });
   }
 
+  // Neutral placeholder for files that can't be parsed
   private async createFallbackThumbnail(options: Required<ThumbnailOptions>): Promise<Buffer> {
-    try {
-      console.log('🔄 Creating fallback thumbnail...');
-      
-      // Create a simple fallback thumbnail with solid color
-      const buffer = await sharp({
-        create: {
-          width: options.width,
-          height: options.height,
-          channels: 4,
-          background: { r: 70, g: 120, b: 200, alpha: 0.6 }
-        }
-      })
-      .png()
-      .toBuffer();
-      
-      console.log(`✅ Fallback thumbnail created: ${buffer.length} bytes`);
-      return buffer;
-      
-    } catch (error) {
-      console.error('❌ Fallback thumbnail creation failed:', error);
-      
-      // Ultimate fallback: Create minimal 1x1 PNG
-      return await sharp({
-        create: {
-          width: 1,
-          height: 1,
-          channels: 4,
-          background: { r: 0, g: 0, b: 255, alpha: 1 }
-        }
-      })
-      .png()
-      .toBuffer();
-    }
+    console.log('🔄 Creating fallback thumbnail...');
+    return sharp({
+      create: {
+        width: options.width,
+        height: options.height,
+        channels: 4,
+        background: options.transparent ? { r: 0, g: 0, b: 0, alpha: 0 } : options.backgroundColor
+      }
+    })
+    .png()
+    .toBuffer();
   }
 
   async generateThumbnailFromFile(filePath: string, options: ThumbnailOptions = {}): Promise<Buffer> {
@@ -216,21 +106,21 @@ export class GLBThumbnailGenerator {
   }
 
   async saveThumbnail(
-    glbBuffer: Buffer, 
-    outputPath: string, 
+    glbBuffer: Buffer,
+    outputPath: string,
     options: ThumbnailOptions = {}
   ): Promise<void> {
     const thumbnail = await this.generateThumbnail(glbBuffer, options);
-    
+
     // Ensure directory exists
     const dir = path.dirname(outputPath);
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true });
     }
-    
+
     fs.writeFileSync(outputPath, thumbnail);
     console.log(`✅ Thumbnail saved to: ${outputPath}`);
   }
 }
 
-export const glbThumbnailGenerator = new GLBThumbnailGenerator();
\ No newline at end of file
+export const glbThumbnailGenerator = new GLBThumbnailGenerator();
@@ -0,0 +1,349 @@
+/**
+ * VIDA³ glTF Skinning
+ * Writes a rig into a glTF document the way the spec expects it: joint
+ * nodes, a skin with inverse bind matrices, JOINTS_0 / WEIGHTS_0 vertex
+ * attributes and morph target accessors. Used by the auto-riggers so the
+ * output loads as a SkinnedMesh in three.js and imports rigged in Blender.
+ *
+ * Skinned mesh nodes are baked to an identity transform at the scene root
+ * first. glTF ignores a skinned node's own transform while three.js applies
+ * it, so identity is the only placement both agree on.
+ */
+
+import { Document, NodeIO, type Mesh, type Node, type Primitive, type Skin } from '@gltf-transform/core';
+import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
+import { clearNodeParent, clearNodeTransform, prune } from '@gltf-transform/functions';
+import draco3d from 'draco3d';
+import { MeshoptDecoder, MeshoptEncoder } from 'meshoptimizer';
+import { Matrix4, Quaternion, Vector3 } from 'three';
+
+export type Vec3 = [number, number, number];
+export type Quat = [number, number, number, number];
+
+export const MAX_INFLUENCES = 4;
+
+export class GltfSkinningError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GltfSkinningError';
+  }
+}
+
+export interface RigJoint {
+  name: string;
+  parent: number | null; // index into the joint list
+  position: Vec3;        // bind pose, world space
+  rotation?: Quat;       // bind pose, world space
+}
+
+// One skinnable primitive with its vertices in world space. Global vertex
+// ids used by weights and morph deltas run over primitives in this order.
+export interface PrimitiveGeometry {
+  node: Node;
+  mesh: Mesh;
+  primitive: Primitive;
+  vertexOffset: number;
+  vertexCount: number;
+  positions: Float32Array;
+  normals?: Float32Array;
+  indices?: Uint32Array;
+}
+
+// Top-4 influences for every global vertex
+export interface SkinInfluences {
+  joints: Uint16Array;   // vertexCount * 4 joint indices
+  weights: Float32Array; // vertexCount * 4, each row sums to 1
+}
+
+export interface MorphTargetData {
+  name: string;
+  positionDeltas: Float32Array; // vertexCount * 3
+  normalDeltas?: Float32Array;  // vertexCount * 3
+}
+
+// Codecs for Draco / meshopt compressed files, created once on first use
+let codecs: Promise<Record<string, unknown>> | null = null;
+
+async function createIO(): Promise<NodeIO> {
+  codecs ??= Promise.all([
+    draco3d.createDecoderModule(),
+    draco3d.createEncoderModule(),
+    MeshoptDecoder.ready,
+    MeshoptEncoder.ready
+  ]).then(([dracoDecoder, dracoEncoder]) => ({
+    'draco3d.decoder': dracoDecoder,
+    'draco3d.encoder': dracoEncoder,
+    'meshopt.decoder': MeshoptDecoder,
+    'meshopt.encoder': MeshoptEncoder
+  }));
+  return new NodeIO().registerExtensions(ALL_EXTENSIONS).registerDependencies(await codecs);
+}
+
+export async function readGltfDocument(buffer: Buffer): Promise<Document> {
+  try {
+    return await (await createIO()).readBinary(new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength));
+  } catch (error: any) {
+    throw new GltfSkinningError(`Could not read GLB: ${error.message}`);
+  }
+}
+
+export async function writeGltfDocument(document: Document): Promise<Buffer> {
+  await document.transform(prune());
+  return Buffer.from(await (await createIO()).writeBinary(document));
+}
+
+/**
+ * Move every mesh node to the scene root with its world transform baked into
+ * the vertex data, detach any previous skin, and return the primitives with
+ * their geometry. Meshes shared between nodes are copied so each instance
+ * can be baked and skinned on its own.
+ */
+export function prepareForSkinning(document: Document): PrimitiveGeometry[] {
+  const root = document.getRoot();
+  const scene = root.getDefaultScene() ?? root.listScenes()[0];
+  if (!scene) {
+    throw new GltfSkinningError('GLB has no scene');
+  }
+
+  const meshNodes: Node[] = [];
+  scene.traverse(node => {
+    if (node.getMesh()) meshNodes.push(node);
+  });
+
+  const geometries: PrimitiveGeometry[] = [];
+  let vertexOffset = 0;
+
+  for (const node of meshNodes) {
+    let mesh = node.getMesh()!;
+    const instances = mesh.listParents().filter(parent => parent.propertyType === 'Node');
+    if (instances.length > 1) {
+      const copy = document.createMesh(mesh.getName()).setWeights(mesh.getWeights()).setExtras({ ...mesh.getExtras() });
+      mesh.listPrimitives().forEach(primitive => copy.addPrimitive(primitive.clone()));
+      node.setMesh(copy);
+      mesh = copy;
+    }
+
+    node.setSkin(null);
+    clearNodeParent(node);
+    clearNodeTransform(node);
+    if (node.getParentNode() === null && !scene.listChildren().includes(node)) {
+      scene.addChild(node);
+    }
+
+    for (const primitive of mesh.listPrimitives()) {
+      const position = primitive.getAttribute('POSITION');
+      if (!position) continue;
+
+      const vertexCount = position.getCount();
+      const normal = primitive.getAttribute('NORMAL');
+      const indices = primitive.getIndices();
+
+      geometries.push({
+        node,
+        mesh,
+        primitive,
+        vertexOffset,
+        vertexCount,
+        positions: readVec3(position, vertexCount),
+        normals: normal ? readVec3(normal, vertexCount) : undefined,
+        indices: indices ? Uint32Array.from(indices.getArray() as ArrayLike<number>) : undefined
+      });
+      vertexOffset += vertexCount;
+    }
+  }
+
+  if (geometries.length === 0) {
+    throw new GltfSkinningError('GLB has no mesh geometry to rig');
+  }
+  return geometries;
+}
+
+function readVec3(accessor: NonNullable<ReturnType<Primitive['getAttribute']>>, count: number): Float32Array {
+  const out = new Float32Array(count * 3);
+  const element: number[] = [];
+  for (let i = 0; i < count; i++) {
+    accessor.getElement(i, element);
+    out[i * 3] = element[0];
+    out[i * 3 + 1] = element[1];
+    out[i * 3 + 2] = element[2];
+  }
+  return out;
+}
+
+export function totalVertexCount(geometries: PrimitiveGeometry[]): number {
+  const last = geometries[geometries.length - 1];
+  return last ? last.vertexOffset + last.vertexCount : 0;
+}
+
+/**
+ * Turn bones that name their parent into joints ordered parents-first.
+ * Bones whose parent is missing (or part of a cycle) hang off the first root.
+ */
+export function jointsFromNamedBones(bones: Array<{ name: string; parent: string | null; position: Vec3 }>): RigJoint[] {
+  const joints: RigJoint[] = [];
+  const indexByName = new Map<string, number>();
+  const pending = bones.filter((bone, index) => bones.findIndex(other => other.name === bone.name) === index);
+
+  while (pending.length > 0) {
+    const next = pending.findIndex(bone => bone.parent === null || indexByName.has(bone.parent));
+    const bone = pending.splice(next === -1 ? 0 : next, 1)[0];
+    const parent = bone.parent !== null && indexByName.has(bone.parent)
+      ? indexByName.get(bone.parent)!
+      : (joints.length > 0 ? 0 : null);
+
+    indexByName.set(bone.name, joints.length);
+    joints.push({ name: bone.name, parent, position: bone.position });
+  }
+
+  return joints;
+}
+
+/**
+ * Create the joint nodes (in bind pose) and a skin whose inverse bind
+ * matrices map world space into each joint's space.
+ */
+export function writeSkeleton(document: Document, joints: RigJoint[], name = 'Armature'): { skin: Skin; nodes: Node[] } {
+  if (joints.length === 0) {
+    throw new GltfSkinningError('A skeleton needs at least one joint');
+  }
+
+  const root = document.getRoot();
+  const scene = root.getDefaultScene() ?? root.listScenes()[0];
+  const buffer = root.listBuffers()[0] ?? document.createBuffer();
+
+  const worldMatrices = joints.map(joint => new Matrix4().compose(
+    new Vector3(...joint.position),
+    new Quaternion(...(joint.rotation ?? [0, 0, 0, 1])),
+    new Vector3(1, 1, 1)
+  ));
+
+  const nodes = joints.map((joint, index) => {
+    if (joint.parent !== null && (joint.parent < 0 || joint.parent >= index)) {
+      throw new GltfSkinningError(`Joint ${joint.name} must come after its parent`);
+    }
+
+    const local = joint.parent === null
+      ? worldMatrices[index].clone()
+      : worldMatrices[joint.parent].clone().invert().multiply(worldMatrices[index]);
+    const translation = new Vector3();
+    const rotation = new Quaternion();
+    local.decompose(translation, rotation, new Vector3());
+
+    return document.createNode(joint.name)
+      .setTranslation(translation.toArray() as Vec3)
+      .setRotation(rotation.toArray() as Quat);
+  });
+
+  const rootJoints: Node[] = [];
+  joints.forEach((joint, index) => {
+    if (joint.parent === null) {
+      rootJoints.push(nodes[index]);
+    } else {
+      nodes[joint.parent].addChild(nodes[index]);
+    }
+  });
+
+  // All roots hang off one armature node so the skin has a single skeleton root
+  let skeletonRoot = rootJoints[0];
+  if (rootJoints.length > 1) {
+    skeletonRoot = document.createNode(name);
+    rootJoints.forEach(node => skeletonRoot.addChild(node));
+  }
+  scene.addChild(skeletonRoot);
+
+  const inverseBindMatrices = new Float32Array(joints.length * 16);
+  worldMatrices.forEach((matrix, index) => {
+    inverseBindMatrices.set(matrix.clone().invert().elements, index * 16);
+  });
+
+  const skin = document.createSkin(name)
+    .setSkeleton(skeletonRoot)
+    .setInverseBindMatrices(
+      document.createAccessor(`${name}_inverseBindMatrices`)
+        .setType('MAT4')
+        .setArray(inverseBindMatrices)
+        .setBuffer(buffer)
+    );
+  nodes.forEach(node => skin.addJoint(node));
+
+  return { skin, nodes };
+}
+
+/**
+ * Attach JOINTS_0 / WEIGHTS_0 to every primitive and bind its node to the skin
+ */
+export function writeSkinWeights(document: Document, geometries: PrimitiveGeometry[], skin: Skin, influences: SkinInfluences) {
+  const buffer = document.getRoot().listBuffers()[0];
+  const jointCount = skin.listJoints().length;
+  const JointArray = jointCount <= 256 ? Uint8Array : Uint16Array;
+
+  for (const geometry of geometries) {
+    const start = geometry.vertexOffset * MAX_INFLUENCES;
+    const end = start + geometry.vertexCount * MAX_INFLUENCES;
+    const joints = JointArray.from(influences.joints.subarray(start, end));
+    const weights = normalizeWeights(influences.weights.slice(start, end));
+
+    for (let i = 0; i < joints.length; i++) {
+      if (joints[i] >= jointCount) {
+        throw new GltfSkinningError(`Vertex ${geometry.vertexOffset + Math.floor(i / MAX_INFLUENCES)} references joint ${joints[i]} of ${jointCount}`);
+      }
+    }
+
+    geometry.primitive
+      .setAttribute('JOINTS_0', document.createAccessor().setType('VEC4').setArray(joints).setBuffer(buffer))
+      .setAttribute('WEIGHTS_0', document.createAccessor().setType('VEC4').setArray(weights).setBuffer(buffer));
+    geometry.node.setSkin(skin);
+  }
+}
+
+function normalizeWeights(weights: Float32Array): Float32Array {
+  for (let v = 0; v < weights.length; v += MAX_INFLUENCES) {
+    let sum = 0;
+    for (let i = 0; i < MAX_INFLUENCES; i++) sum += Math.max(0, weights[v + i]);
+    for (let i = 0; i < MAX_INFLUENCES; i++) {
+      // Unweighted vertices follow the first joint rather than collapsing to the origin
+      weights[v + i] = sum > 0 ? Math.max(0, weights[v + i]) / sum : (i === 0 ? 1 : 0);
+    }
+  }
+  return weights;
+}
+
+/**
+ * Add morph targets to every primitive. Targets already on the mesh are kept;
+ * new ones are appended with a rest weight of 0 and named in extras.targetNames,
+ * which three.js reads into morphTargetDictionary.
+ */
+export function writeMorphTargets(document: Document, geometries: PrimitiveGeometry[], morphs: MorphTargetData[]) {
+  if (morphs.length === 0) return;
+  const buffer = document.getRoot().listBuffers()[0];
+
+  for (const geometry of geometries) {
+    const start = geometry.vertexOffset * 3;
+    const end = start + geometry.vertexCount * 3;
+
+    for (const morph of morphs) {
+      const target = document.createPrimitiveTarget(morph.name).setAttribute(
+        'POSITION',
+        document.createAccessor().setType('VEC3').setArray(morph.positionDeltas.slice(start, end)).setBuffer(buffer)
+      );
+      if (morph.normalDeltas && geometry.primitive.getAttribute('NORMAL')) {
+        target.setAttribute(
+          'NORMAL',
+          document.createAccessor().setType('VEC3').setArray(morph.normalDeltas.slice(start, end)).setBuffer(buffer)
+        );
+      }
+      geometry.primitive.addTarget(target);
+    }
+  }
+
+  const meshes = Array.from(new Set(geometries.map(geometry => geometry.mesh)));
+  for (const mesh of meshes) {
+    const existing = mesh.listPrimitives()[0].listTargets().length - morphs.length;
+    const existingNames: string[] = (mesh.getExtras() as any)?.targetNames ?? [];
+    const names = Array.from({ length: existing }, (_, i) => existingNames[i] ?? `target_${i}`);
+
+    mesh
+      .setWeights([...mesh.getWeights().slice(0, existing), ...new Array(existing - Math.min(existing, mesh.getWeights().length)).fill(0), ...morphs.map(() => 0)])
+      .setExtras({ ...mesh.getExtras(), targetNames: [...names, ...morphs.map(morph => morph.name)] });
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * VIDA³ HLS Preview
+ * Local HLS rendition of a studio stream so creators can watch what the
+ * encoder actually produces (confidence monitor) and so the encoder path can
+ * be exercised without a real RTMP ingest.
+ *
+ * The broadcast's own encoded stream is remuxed, not encoded again, into
+ * one-GOP fMP4 segments with EXT-X-PROGRAM-DATE-TIME tags for latency
+ * measurement. FFmpeg's hls muxer doesn't emit LL-HLS partial segments, so
+ * players should run in low-latency mode against a short live window instead.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import type { EncodingProfile } from './encoding-profile';
+import { encodedInputFFmpegArgs, type EncodedStreamOutput } from './stream-outputs';
+
+const PREVIEW_ROOT = path.join(process.cwd(), 'temp', 'hls-preview');
+const PLAYLIST_FILE = 'index.m3u8';
+const INIT_FILE = 'init.mp4';
+const LIVE_WINDOW_SEGMENTS = 4;
+
+// Only files the muxer writes may be served
+const PREVIEW_FILE_PATTERN = /^(index\.m3u8|init\.mp4|seg_\d{5}\.m4s)$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.mp4': 'video/mp4',
+  '.m4s': 'video/iso.segment',
+};
+
+// Keyed like the gateway's streams: stream ids are only unique per user
+const activePreviews = new Map<string, HlsPreview>();
+const previewKey = (userId: string, streamId: string) => `${userId}:${streamId}`;
+const safeSegment = (value: string) => value.replace(/[^\w-]/g, '_');
+
+export class HlsPreview implements EncodedStreamOutput {
+  readonly name = 'preview';
+  private process?: ChildProcess;
+  private backpressured = false;
+  private readonly directory: string;
+
+  constructor(
+    readonly streamId: string,
+    readonly userId: string,
+    private profile: EncodingProfile
+  ) {
+    this.directory = path.join(PREVIEW_ROOT, safeSegment(userId), safeSegment(streamId));
+  }
+
+  get playlistUrl(): string {
+    return `/api/stream/preview/${encodeURIComponent(this.streamId)}/${PLAYLIST_FILE}`;
+  }
+
+  start() {
+    fs.rmSync(this.directory, { recursive: true, force: true });
+    fs.mkdirSync(this.directory, { recursive: true });
+
+    const args = [
+      '-y',
+      ...encodedInputFFmpegArgs(),
+
+      // Segments are cut at the encoder's keyframes, one per GOP
+      '-f', 'hls',
+      '-hls_time', String(this.profile.keyframeIntervalSec),
+      '-hls_list_size', String(LIVE_WINDOW_SEGMENTS),
+      '-hls_flags', 'delete_segments+independent_segments+program_date_time+omit_endlist',
+      '-hls_segment_type', 'fmp4',
+      '-hls_fmp4_init_filename', INIT_FILE,
+      '-hls_segment_filename', path.join(this.directory, 'seg_%05d.m4s'),
+      path.join(this.directory, PLAYLIST_FILE)
+    ];
+
+    this.process = spawn('ffmpeg', args, { stdio: ['pipe', 'ignore', 'pipe'] });
+
+    // ENOENT, EAGAIN, ...: without a listener the server would crash
+    this.process.on('error', (error) => {
+      console.error(`❌ HLS preview FFmpeg for ${this.streamId} failed:`, error);
+    });
+
+    this.process.stdin?.on('drain', () => {
+      this.backpressured = false;
+    });
+    this.process.stdin?.on('error', () => {});
+
+    this.process.stderr?.on('data', (data) => {
+      const output = data.toString();
+      if (output.includes('Error') || output.includes('error')) {
+        console.error(`❌ HLS preview FFmpeg (${this.streamId}): ${output.trim()}`);
+      }
+    });
+
+    this.process.on('exit', (code, signal) => {
+      console.log(`📺 HLS preview for ${this.streamId} exited (code ${code}, signal ${signal})`);
+    });
+
+    activePreviews.set(previewKey(this.userId, this.streamId), this);
+    console.log(`📺 HLS preview for ${this.streamId} at ${this.playlistUrl}`);
+  }
+
+  /**
+   * The preview is best-effort: chunks are dropped rather than holding up the broadcast
+   */
+  writeEncoded(chunk: Buffer) {
+    const stdin = this.process?.stdin;
+    if (!stdin || stdin.destroyed || !stdin.writable || this.backpressured) return;
+
+    if (!stdin.write(chunk)) {
+      this.backpressured = true;
+    }
+  }
+
+  isReady(): boolean {
+    return fs.existsSync(path.join(this.directory, PLAYLIST_FILE));
+  }
+
+  /**
+   * Path and content type of a preview file, or null when it isn't servable
+   */
+  resolveFile(file: string): { filePath: string; contentType: string } | null {
+    if (!PREVIEW_FILE_PATTERN.test(file)) return null;
+
+    const filePath = path.join(this.directory, file);
+    if (!fs.existsSync(filePath)) return null;
+
+    return { filePath, contentType: CONTENT_TYPES[path.extname(file)] };
+  }
+
+  stop() {
+    if (activePreviews.get(previewKey(this.userId, this.streamId)) === this) {
+      activePreviews.delete(previewKey(this.userId, this.streamId));
+    }
+
+    const ffmpeg = this.process;
+    this.process = undefined;
+    if (ffmpeg?.pid !== undefined && ffmpeg.exitCode === null && ffmpeg.signalCode === null) {
+      ffmpeg.kill('SIGTERM');
+      setTimeout(() => {
+        if (ffmpeg.exitCode === null) ffmpeg.kill('SIGKILL');
+      }, 3000);
+      ffmpeg.once('exit', () => this.removeFiles());
+    } else {
+      this.removeFiles();
+    }
+  }
+
+  private removeFiles() {
+    fs.rm(this.directory, { recursive: true, force: true }, (error) => {
+      if (error) console.warn(`⚠️ Could not remove HLS preview for ${this.streamId}:`, error.message);
+    });
+  }
+}
+
+export function getHlsPreview(userId: string, streamId: string): HlsPreview | undefined {
+  return activePreviews.get(previewKey(userId, streamId));
+}
+
+export default HlsPreview;
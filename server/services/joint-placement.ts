@@ -0,0 +1,570 @@
+/**
+ * VIDA³ Joint Placement
+ * Finds a humanoid skeleton in the mesh itself instead of fixed fractions of
+ * the bounding box, so stylized avatars (chibi proportions, oversized heads,
+ * A-pose or T-pose) get joints where their limbs actually are.
+ *
+ * The mesh is cut into horizontal slices (glTF is Y-up). Each slice is
+ * reduced to the X spans covered by the triangles crossing it:
+ * - legs: two spans either side of the centre line rising from the floor;
+ *   the top of that run is the crotch
+ * - neck: the narrowest centre span between the shoulders and the head
+ * - arms: geometry beside the torso between the crotch and the neck; the
+ *   point furthest from the shoulder is the hand
+ *
+ * Every joint carries a confidence in [0, 1]. Groups detected with too little
+ * confidence fall back to the proportional template and are marked as such.
+ * Characters face +Z, so their left side is +X.
+ */
+
+import type { PrimitiveGeometry, Vec3 } from './gltf-skinning';
+
+export type HumanoidJointName =
+  | 'hips' | 'spine' | 'chest' | 'neck' | 'head'
+  | 'leftShoulder' | 'leftUpperArm' | 'leftLowerArm' | 'leftHand'
+  | 'rightShoulder' | 'rightUpperArm' | 'rightLowerArm' | 'rightHand'
+  | 'leftUpperLeg' | 'leftLowerLeg' | 'leftFoot' | 'leftToes'
+  | 'rightUpperLeg' | 'rightLowerLeg' | 'rightFoot' | 'rightToes';
+
+export interface PlacedJoint {
+  name: HumanoidJointName;
+  parent: HumanoidJointName | null;
+  position: Vec3;
+  confidence: number;
+  source: 'mesh' | 'template';
+}
+
+export interface HumanoidFeatures {
+  hasHead: boolean;
+  hasTorso: boolean;
+  hasArms: boolean;
+  hasLegs: boolean;
+  confidence: number;
+}
+
+export interface JointPlacement {
+  joints: PlacedJoint[]; // parents before children
+  features: HumanoidFeatures;
+  headTop: Vec3; // crown of the head above the head joint, for facial bones
+}
+
+// Below this a group's detected positions are replaced by the template
+export const MIN_JOINT_CONFIDENCE = 0.35;
+
+const SLICE_COUNT = 48;
+const MAX_SAMPLED_VERTICES = 60000;
+
+const HIERARCHY: Array<[HumanoidJointName, HumanoidJointName | null]> = [
+  ['hips', null],
+  ['spine', 'hips'],
+  ['chest', 'spine'],
+  ['neck', 'chest'],
+  ['head', 'neck'],
+  ['leftShoulder', 'chest'],
+  ['leftUpperArm', 'leftShoulder'],
+  ['leftLowerArm', 'leftUpperArm'],
+  ['leftHand', 'leftLowerArm'],
+  ['rightShoulder', 'chest'],
+  ['rightUpperArm', 'rightShoulder'],
+  ['rightLowerArm', 'rightUpperArm'],
+  ['rightHand', 'rightLowerArm'],
+  ['leftUpperLeg', 'hips'],
+  ['leftLowerLeg', 'leftUpperLeg'],
+  ['leftFoot', 'leftLowerLeg'],
+  ['leftToes', 'leftFoot'],
+  ['rightUpperLeg', 'hips'],
+  ['rightLowerLeg', 'rightUpperLeg'],
+  ['rightFoot', 'rightLowerLeg'],
+  ['rightToes', 'rightFoot']
+];
+
+// Which joints survive when a tier allows fewer bones than the full set
+const JOINT_PRIORITY: HumanoidJointName[] = [
+  'hips', 'spine', 'head', 'neck', 'chest',
+  'leftUpperArm', 'rightUpperArm', 'leftLowerArm', 'rightLowerArm',
+  'leftUpperLeg', 'rightUpperLeg', 'leftLowerLeg', 'rightLowerLeg',
+  'leftHand', 'rightHand', 'leftFoot', 'rightFoot',
+  'leftShoulder', 'rightShoulder', 'leftToes', 'rightToes'
+];
+
+interface Span {
+  min: number;
+  max: number;
+  zSum: number;
+  zMax: number;
+  count: number;
+}
+
+interface Bounds {
+  min: Vec3;
+  max: Vec3;
+}
+
+interface GroupResult {
+  positions: Partial<Record<HumanoidJointName, Vec3>>;
+  confidence: number;
+}
+
+/**
+ * Place a humanoid skeleton on world-space geometry (see prepareForSkinning)
+ */
+export function placeJoints(geometries: PrimitiveGeometry[]): JointPlacement {
+  const vertices = sampleVertices(geometries);
+  const bounds = computeBounds(vertices);
+  const height = bounds.max[1] - bounds.min[1];
+  const template = templatePositions(bounds);
+
+  if (vertices.length === 0 || height <= 0) {
+    return buildPlacement(template, {}, { hasHead: false, hasTorso: false, hasArms: false, hasLegs: false, confidence: 0 }, bounds);
+  }
+
+  const centerX = median(vertices.map(v => v[0]));
+  const sliceHeight = height / SLICE_COUNT;
+  const slices = sliceSpans(geometries, bounds.min[1], sliceHeight, height * 0.005);
+  const sliceY = (index: number) => bounds.min[1] + (index + 0.5) * sliceHeight;
+  const centerSpan = (index: number) => nearestSpan(slices[index], centerX);
+
+  const legs = detectLegs(slices, centerX, sliceY, sliceHeight, bounds);
+  const torsoBase = legs ? legs.crotchSlice + 1 : 0;
+
+  // Torso width from the waist band, where neither arms nor legs are attached
+  const waistSlices = range(torsoBase, Math.max(torsoBase + 1, torsoBase + Math.round((SLICE_COUNT - torsoBase) * 0.25)));
+  const torsoHalfWidth = median(waistSlices.map(index => {
+    const span = centerSpan(index);
+    return span ? (span.max - span.min) / 2 : 0;
+  }).filter(width => width > 0)) || (bounds.max[0] - bounds.min[0]) / 4;
+
+  const neck = detectNeck(slices, centerX, torsoBase);
+  const spine = placeSpine(centerSpan, sliceY, torsoBase, neck, legs, bounds, centerX);
+
+  const detected: Partial<Record<string, GroupResult>> = { spine };
+  if (neck) {
+    detected.head = {
+      confidence: neck.confidence,
+      positions: {
+        neck: [centerX, sliceY(neck.slice) - sliceHeight / 2, spanZ(centerSpan(neck.slice), bounds)],
+        head: [centerX, sliceY(neck.slice) + (bounds.max[1] - sliceY(neck.slice)) * 0.2, spanZ(centerSpan(neck.slice), bounds)]
+      }
+    };
+  }
+
+  const armFloor = legs ? sliceY(legs.crotchSlice) : bounds.min[1] + height * 0.2;
+  const armCeiling = neck ? sliceY(neck.slice) : bounds.min[1] + height * 0.85;
+  if (neck) anchorTemplateArms(template, armCeiling, armFloor, centerX, torsoHalfWidth);
+  for (const side of [1, -1] as const) {
+    const arm = detectArm(vertices, side, centerX, torsoHalfWidth, armFloor, armCeiling, spine.positions.chest![2]);
+    if (arm) detected[side === 1 ? 'leftArm' : 'rightArm'] = arm;
+    if (legs) detected[side === 1 ? 'leftLeg' : 'rightLeg'] = placeLeg(slices, side, centerX, legs, sliceY, bounds);
+  }
+
+  // A torso too squat to have legs hidden under clothing is a bust or half body
+  const looksFullBody = height / Math.max(torsoHalfWidth * 2, 1e-6) >= 3;
+  const includeLegs = !!legs || looksFullBody;
+
+  const confidences = Object.values(detected).map(group => group!.confidence);
+  const features: HumanoidFeatures = {
+    hasHead: (detected.head?.confidence ?? 0) >= MIN_JOINT_CONFIDENCE,
+    hasTorso: true,
+    hasArms: (detected.leftArm?.confidence ?? 0) >= MIN_JOINT_CONFIDENCE || (detected.rightArm?.confidence ?? 0) >= MIN_JOINT_CONFIDENCE,
+    hasLegs: !!legs && legs.confidence >= MIN_JOINT_CONFIDENCE,
+    confidence: confidences.reduce((sum, value) => sum + value, 0) / 6
+  };
+
+  return buildPlacement(template, detected, features, bounds, includeLegs);
+}
+
+/**
+ * Keep the most important joints up to maxBones. Joints whose parent was
+ * dropped are re-parented to their nearest kept ancestor.
+ */
+export function selectJoints(joints: PlacedJoint[], maxBones: number): PlacedJoint[] {
+  const kept = new Set(
+    JOINT_PRIORITY.filter(name => joints.some(joint => joint.name === name)).slice(0, Math.max(1, maxBones))
+  );
+  const byName = new Map(joints.map(joint => [joint.name, joint]));
+
+  return joints
+    .filter(joint => kept.has(joint.name))
+    .map(joint => {
+      let parent = joint.parent;
+      while (parent !== null && !kept.has(parent)) {
+        parent = byName.get(parent)?.parent ?? null;
+      }
+      return { ...joint, parent };
+    });
+}
+
+function buildPlacement(
+  template: Record<HumanoidJointName, Vec3>,
+  detected: Partial<Record<string, GroupResult>>,
+  features: HumanoidFeatures,
+  bounds: Bounds,
+  includeLegs = true
+): JointPlacement {
+  const groupOf = (name: HumanoidJointName): string => {
+    if (name === 'neck' || name === 'head') return 'head';
+    if (name.startsWith('left') || name.startsWith('right')) {
+      const side = name.startsWith('left') ? 'left' : 'right';
+      return /Leg|Foot|Toes/.test(name) ? `${side}Leg` : `${side}Arm`;
+    }
+    return 'spine';
+  };
+
+  const joints: PlacedJoint[] = [];
+  for (const [name, parent] of HIERARCHY) {
+    const group = groupOf(name);
+    if (!includeLegs && group.endsWith('Leg')) continue;
+
+    const result = detected[group];
+    const position = result?.positions[name];
+    const useMesh = !!position && result!.confidence >= MIN_JOINT_CONFIDENCE;
+
+    joints.push({
+      name,
+      parent,
+      position: useMesh ? position! : template[name],
+      confidence: Number((result?.confidence ?? 0).toFixed(3)),
+      source: useMesh ? 'mesh' : 'template'
+    });
+  }
+
+  const head = joints.find(joint => joint.name === 'head')!.position;
+  return { joints, features, headTop: [head[0], bounds.max[1], head[2]] };
+}
+
+function sampleVertices(geometries: PrimitiveGeometry[]): Vec3[] {
+  const total = geometries.reduce((sum, geometry) => sum + geometry.vertexCount, 0);
+  const step = Math.max(1, Math.ceil(total / MAX_SAMPLED_VERTICES));
+  const vertices: Vec3[] = [];
+
+  for (const geometry of geometries) {
+    for (let i = 0; i < geometry.vertexCount; i += step) {
+      vertices.push([geometry.positions[i * 3], geometry.positions[i * 3 + 1], geometry.positions[i * 3 + 2]]);
+    }
+  }
+  return vertices;
+}
+
+function computeBounds(vertices: Vec3[]): Bounds {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (const vertex of vertices) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], vertex[axis]);
+      max[axis] = Math.max(max[axis], vertex[axis]);
+    }
+  }
+  return vertices.length > 0 ? { min, max } : { min: [0, 0, 0], max: [0, 0, 0] };
+}
+
+// X spans covered by triangles crossing each slice, merged where they touch
+function sliceSpans(geometries: PrimitiveGeometry[], minY: number, sliceHeight: number, mergeGap: number): Span[][] {
+  const raw: number[][] = Array.from({ length: SLICE_COUNT }, () => []);
+
+  for (const geometry of geometries) {
+    const { positions, indices } = geometry;
+    const triangleCount = Math.floor((indices?.length ?? geometry.vertexCount) / 3);
+
+    for (let t = 0; t < triangleCount; t++) {
+      const a = indices ? indices[t * 3] : t * 3;
+      const b = indices ? indices[t * 3 + 1] : t * 3 + 1;
+      const c = indices ? indices[t * 3 + 2] : t * 3 + 2;
+
+      const ys = [positions[a * 3 + 1], positions[b * 3 + 1], positions[c * 3 + 1]];
+      const xs = [positions[a * 3], positions[b * 3], positions[c * 3]];
+      const zs = [positions[a * 3 + 2], positions[b * 3 + 2], positions[c * 3 + 2]];
+      const first = Math.max(0, Math.floor((Math.min(...ys) - minY) / sliceHeight));
+      const last = Math.min(SLICE_COUNT - 1, Math.floor((Math.max(...ys) - minY) / sliceHeight));
+
+      for (let slice = first; slice <= last; slice++) {
+        raw[slice].push(Math.min(...xs), Math.max(...xs), (zs[0] + zs[1] + zs[2]) / 3, Math.max(...zs));
+      }
+    }
+  }
+
+  return raw.map(entries => {
+    const intervals: Span[] = [];
+    for (let i = 0; i < entries.length; i += 4) {
+      intervals.push({ min: entries[i], max: entries[i + 1], zSum: entries[i + 2], zMax: entries[i + 3], count: 1 });
+    }
+    intervals.sort((a, b) => a.min - b.min);
+
+    const merged: Span[] = [];
+    for (const interval of intervals) {
+      const current = merged[merged.length - 1];
+      if (current && interval.min <= current.max + mergeGap) {
+        current.max = Math.max(current.max, interval.max);
+        current.zSum += interval.zSum;
+        current.zMax = Math.max(current.zMax, interval.zMax);
+        current.count += interval.count;
+      } else {
+        merged.push({ ...interval });
+      }
+    }
+    return merged;
+  });
+}
+
+function nearestSpan(spans: Span[], x: number): Span | undefined {
+  let best: Span | undefined;
+  let bestDistance = Infinity;
+  for (const span of spans) {
+    const distance = x < span.min ? span.min - x : x > span.max ? x - span.max : 0;
+    if (distance < bestDistance) {
+      best = span;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function spanZ(span: Span | undefined, bounds: Bounds): number {
+  return span ? span.zSum / span.count : (bounds.min[2] + bounds.max[2]) / 2;
+}
+
+interface LegDetection {
+  crotchSlice: number;
+  confidence: number;
+}
+
+// Two separate spans straddling the centre line, rising from the floor
+function detectLegs(
+  slices: Span[][],
+  centerX: number,
+  sliceY: (index: number) => number,
+  sliceHeight: number,
+  bounds: Bounds
+): LegDetection | null {
+  const isLegSlice = (spans: Span[]) =>
+    !spans.some(span => span.min <= centerX && span.max >= centerX) &&
+    spans.some(span => span.max < centerX) &&
+    spans.some(span => span.min > centerX);
+
+  let start = -1;
+  for (let index = 0; index < 3; index++) {
+    if (isLegSlice(slices[index])) {
+      start = index;
+      break;
+    }
+  }
+  if (start === -1) return null;
+
+  let crotchSlice = start;
+  while (crotchSlice + 1 < SLICE_COUNT && isLegSlice(slices[crotchSlice + 1])) crotchSlice++;
+
+  // Legs shorter than ~12% of the height are more likely feet under a dress
+  const legFraction = (sliceY(crotchSlice) + sliceHeight / 2 - bounds.min[1]) / (bounds.max[1] - bounds.min[1]);
+  const confidence = Math.max(0, Math.min(1, (legFraction - 0.08) / 0.17));
+  return confidence > 0 ? { crotchSlice, confidence } : null;
+}
+
+interface NeckDetection {
+  slice: number;
+  confidence: number;
+}
+
+// Narrowest centre span with something wider both below and above it
+function detectNeck(slices: Span[][], centerX: number, torsoBase: number): NeckDetection | null {
+  const widths = slices.map(spans => {
+    const span = nearestSpan(spans, centerX);
+    return span ? span.max - span.min : 0;
+  });
+
+  const first = torsoBase + Math.round((SLICE_COUNT - torsoBase) * 0.3);
+  const last = SLICE_COUNT - 3;
+  let best: NeckDetection | null = null;
+
+  for (let index = first; index <= last; index++) {
+    if (widths[index] <= 0) continue;
+    const below = Math.max(0, ...widths.slice(torsoBase, index));
+    const above = Math.max(0, ...widths.slice(index + 1));
+    if (below <= 0 || above <= 0) continue;
+    const constriction = 1 - widths[index] / Math.min(below, above);
+    const confidence = Math.max(0, Math.min(1, constriction / 0.4));
+    if (confidence > 0 && (!best || confidence > best.confidence)) {
+      best = { slice: index, confidence };
+    }
+  }
+
+  return best;
+}
+
+function placeSpine(
+  centerSpan: (index: number) => Span | undefined,
+  sliceY: (index: number) => number,
+  torsoBase: number,
+  neck: NeckDetection | null,
+  legs: LegDetection | null,
+  bounds: Bounds,
+  centerX: number
+): GroupResult {
+  const neckSlice = neck ? neck.slice : Math.round(SLICE_COUNT * 0.84);
+  const at = (fraction: number): Vec3 => {
+    const slice = Math.round(torsoBase + (neckSlice - torsoBase) * fraction);
+    return [centerX, sliceY(slice), spanZ(centerSpan(slice), bounds)];
+  };
+
+  return {
+    confidence: ((neck?.confidence ?? 0.3) + (legs?.confidence ?? 0.5)) / 2,
+    positions: {
+      hips: at(0.08),
+      spine: at(0.35),
+      chest: at(0.68)
+    }
+  };
+}
+
+// Geometry beside the torso; the far end is the hand, the near end the shoulder
+function detectArm(
+  vertices: Vec3[],
+  side: 1 | -1,
+  centerX: number,
+  torsoHalfWidth: number,
+  floorY: number,
+  ceilingY: number,
+  chestZ: number
+): GroupResult | null {
+  const edge = torsoHalfWidth * 1.2;
+  const points = vertices.filter(v => (v[0] - centerX) * side > edge && v[1] > floorY && v[1] < ceilingY);
+  if (points.length < Math.max(8, vertices.length * 0.01)) return null;
+
+  // Root of the arm: the slab of arm geometry closest to the torso
+  const reach = Math.max(...points.map(v => (v[0] - centerX) * side));
+  const rootLimit = edge + (reach - edge) * 0.15;
+  const root = points.filter(v => (v[0] - centerX) * side <= rootLimit);
+  const rootTop = Math.max(...root.map(v => v[1]));
+  const rootMeanY = root.reduce((sum, v) => sum + v[1], 0) / root.length;
+  const rootMeanZ = root.reduce((sum, v) => sum + v[2], 0) / root.length;
+
+  const upperArm: Vec3 = [centerX + side * torsoHalfWidth * 0.95, (rootTop + rootMeanY) / 2, rootMeanZ];
+
+  let tip = points[0];
+  let tipDistance = -1;
+  for (const point of points) {
+    const distance = Math.hypot(point[0] - upperArm[0], point[1] - upperArm[1], point[2] - upperArm[2]);
+    if (distance > tipDistance) {
+      tip = point;
+      tipDistance = distance;
+    }
+  }
+
+  const lerp = (from: Vec3, to: Vec3, t: number): Vec3 => [
+    from[0] + (to[0] - from[0]) * t,
+    from[1] + (to[1] - from[1]) * t,
+    from[2] + (to[2] - from[2]) * t
+  ];
+  const hand = lerp(upperArm, tip, 0.82);
+
+  // An arm reaching barely past the torso is probably a wide skirt or prop
+  const confidence = Math.max(0, Math.min(1, (tipDistance / Math.max(torsoHalfWidth, 1e-6) - 0.8) / 1.2));
+
+  return {
+    confidence,
+    positions: {
+      [side === 1 ? 'leftShoulder' : 'rightShoulder']: [centerX + side * torsoHalfWidth * 0.35, upperArm[1], chestZ],
+      [side === 1 ? 'leftUpperArm' : 'rightUpperArm']: upperArm,
+      [side === 1 ? 'leftLowerArm' : 'rightLowerArm']: lerp(upperArm, hand, 0.5),
+      [side === 1 ? 'leftHand' : 'rightHand']: hand
+    }
+  };
+}
+
+function placeLeg(
+  slices: Span[][],
+  side: 1 | -1,
+  centerX: number,
+  legs: LegDetection,
+  sliceY: (index: number) => number,
+  bounds: Bounds
+): GroupResult {
+  const legSpan = (slice: number) => {
+    const spans = slices[slice].filter(span => ((span.min + span.max) / 2 - centerX) * side > 0);
+    return spans.sort((a, b) => Math.abs((a.min + a.max) / 2 - centerX) - Math.abs((b.min + b.max) / 2 - centerX))[0];
+  };
+  const at = (fraction: number): Vec3 => {
+    const slice = Math.round(legs.crotchSlice * fraction);
+    const span = legSpan(slice);
+    return span
+      ? [(span.min + span.max) / 2, sliceY(slice), span.zSum / span.count]
+      : [centerX + side * (bounds.max[0] - bounds.min[0]) * 0.1, sliceY(slice), (bounds.min[2] + bounds.max[2]) / 2];
+  };
+
+  const hip = at(1);
+  const foot = at(0.12);
+  const sole = legSpan(0);
+  const toesZ = sole ? foot[2] + (sole.zMax - foot[2]) * 0.6 : foot[2];
+
+  return {
+    confidence: legs.confidence,
+    positions: {
+      [side === 1 ? 'leftUpperLeg' : 'rightUpperLeg']: [hip[0], hip[1] + (bounds.max[1] - bounds.min[1]) * 0.02, hip[2]],
+      [side === 1 ? 'leftLowerLeg' : 'rightLowerLeg']: at(0.52),
+      [side === 1 ? 'leftFoot' : 'rightFoot']: foot,
+      [side === 1 ? 'leftToes' : 'rightToes']: [foot[0], sliceY(0), toesZ]
+    }
+  };
+}
+
+// Adult proportions scaled to the bounds, arms in A-pose within the width
+function templatePositions(bounds: Bounds): Record<HumanoidJointName, Vec3> {
+  const height = bounds.max[1] - bounds.min[1];
+  const cx = (bounds.min[0] + bounds.max[0]) / 2;
+  const cz = (bounds.min[2] + bounds.max[2]) / 2;
+  const reach = Math.min((bounds.max[0] - bounds.min[0]) / 2, height * 0.45);
+  const y = (fraction: number) => bounds.min[1] + height * fraction;
+  const p = (x: number, fraction: number, z = cz): Vec3 => [cx + x, y(fraction), z];
+
+  return {
+    hips: p(0, 0.53),
+    spine: p(0, 0.6),
+    chest: p(0, 0.7),
+    neck: p(0, 0.84),
+    head: p(0, 0.88),
+    leftShoulder: p(height * 0.04, 0.81),
+    leftUpperArm: p(Math.min(height * 0.1, reach * 0.3), 0.8),
+    leftLowerArm: p(reach * 0.6, 0.7),
+    leftHand: p(reach * 0.9, 0.6),
+    rightShoulder: p(-height * 0.04, 0.81),
+    rightUpperArm: p(-Math.min(height * 0.1, reach * 0.3), 0.8),
+    rightLowerArm: p(-reach * 0.6, 0.7),
+    rightHand: p(-reach * 0.9, 0.6),
+    leftUpperLeg: p(height * 0.055, 0.5),
+    leftLowerLeg: p(height * 0.055, 0.28),
+    leftFoot: p(height * 0.055, 0.05),
+    leftToes: p(height * 0.055, 0.01, cz + height * 0.05),
+    rightUpperLeg: p(-height * 0.055, 0.5),
+    rightLowerLeg: p(-height * 0.055, 0.28),
+    rightFoot: p(-height * 0.055, 0.05),
+    rightToes: p(-height * 0.055, 0.01, cz + height * 0.05)
+  };
+}
+
+// Hang undetected arms from the detected neck instead of the bounds, so a
+// big head never pulls the shoulders up into it
+function anchorTemplateArms(
+  template: Record<HumanoidJointName, Vec3>,
+  neckY: number,
+  floorY: number,
+  centerX: number,
+  torsoHalfWidth: number
+): void {
+  const armLength = Math.max(neckY - floorY, 0) * 0.9;
+  for (const side of [1, -1] as const) {
+    const prefix = side === 1 ? 'left' : 'right';
+    const z = template[`${prefix}Shoulder` as HumanoidJointName][2];
+    template[`${prefix}Shoulder` as HumanoidJointName] = [centerX + side * torsoHalfWidth * 0.4, neckY - armLength * 0.05, z];
+    template[`${prefix}UpperArm` as HumanoidJointName] = [centerX + side * torsoHalfWidth, neckY - armLength * 0.1, z];
+    template[`${prefix}LowerArm` as HumanoidJointName] = [centerX + side * torsoHalfWidth * 1.3, neckY - armLength * 0.5, z];
+    template[`${prefix}Hand` as HumanoidJointName] = [centerX + side * torsoHalfWidth * 1.5, neckY - armLength * 0.9, z];
+  }
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: Math.max(0, to - from) }, (_, i) => from + i);
+}
@@ -0,0 +1,98 @@
+/**
+ * VIDA³ Log Scrubber
+ * Redacts stream keys, auth tokens and other credentials before anything is
+ * written to the console or to system_logs. Pattern based, plus an exact
+ * match list of secrets the server has decrypted at runtime.
+ */
+
+const REDACTED = '[REDACTED]';
+const MIN_SECRET_LENGTH = 6;
+
+// Object keys whose values are always redacted, whatever they contain
+const SENSITIVE_KEYS = /^(stream_?key|password|passwd|secret|client_?secret|token|access_?token|refresh_?token|id_?token|api_?key|authorization|cookie|service_?role_?key)$/i;
+
+const PATTERNS: [RegExp, string][] = [
+  // Stream key path segment of an ingest URL: rtmp://host/app/<key>
+  [/(rtmps?:\/\/[^\s/'"]+\/[^\s/'"]+\/)[^\s'"]+/gi, `$1${REDACTED}`],
+  // Twitch stream keys
+  [/\blive_\d+_[A-Za-z0-9]{20,}\b/g, REDACTED],
+  // YouTube / Facebook style dashed keys
+  [/\b[a-z0-9]{4}-[a-z0-9]{4}-[a-z0-9]{4}-[a-z0-9]{4}(-[a-z0-9]{4})?\b/gi, REDACTED],
+  // Bearer tokens and JWTs
+  [/(Bearer\s+)[A-Za-z0-9._~+/-]+=*/gi, `$1${REDACTED}`],
+  [/\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g, REDACTED],
+  // Stripe and similar prefixed API keys
+  [/\b(sk|rk|pk)_(live|test)_[A-Za-z0-9]+/g, REDACTED],
+  // key=value pairs in query strings, headers and serialized JSON
+  [/((?:stream_?key|streamKey|token|access_token|api_?key|apikey|password|secret)["']?\s*[:=]\s*["']?)[^\s"'&,}]+/gi, `$1${REDACTED}`],
+];
+
+const knownSecrets = new Set<string>();
+
+/**
+ * Redact this exact value from all future log output
+ */
+export function registerSecret(secret: string | undefined | null) {
+  if (secret && secret.length >= MIN_SECRET_LENGTH) {
+    knownSecrets.add(secret);
+  }
+}
+
+export function scrubSecrets(text: string): string {
+  let scrubbed = text;
+  knownSecrets.forEach(secret => {
+    if (scrubbed.includes(secret)) {
+      scrubbed = scrubbed.split(secret).join(REDACTED);
+    }
+  });
+  for (const [pattern, replacement] of PATTERNS) {
+    scrubbed = scrubbed.replace(pattern, replacement);
+  }
+  return scrubbed;
+}
+
+/**
+ * Deep copy of a log argument with secrets removed. Errors keep their class
+ * name, message and stack so they stay useful in logs.
+ */
+export function scrubValue<T>(value: T, seen = new WeakSet<object>()): T {
+  if (typeof value === 'string') return scrubSecrets(value) as T;
+  if (!value || typeof value !== 'object') return value;
+  if (ArrayBuffer.isView(value) || value instanceof Date || value instanceof Map || value instanceof Set) return value;
+  if (seen.has(value)) return '[Circular]' as T;
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const error = new Error(scrubSecrets(value.message));
+    error.name = value.name;
+    error.stack = value.stack && scrubSecrets(value.stack);
+    return error as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => scrubValue(item, seen)) as T;
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    copy[key] = SENSITIVE_KEYS.test(key) && entry !== undefined && entry !== null
+      ? REDACTED
+      : scrubValue(entry, seen);
+  }
+  return copy as T;
+}
+
+let installed = false;
+
+/**
+ * Route console.log/info/warn/error/debug through the scrubber
+ */
+export function installConsoleScrubber() {
+  if (installed) return;
+  installed = true;
+
+  for (const method of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => original(...args.map(arg => scrubValue(arg)));
+  }
+}
@@ -1,229 +0,0 @@
-/**
- * Professional Real-Time Animation Rigging System
- * Optimized for MediaPipe tracking and live streaming performance
- */
-
-import { Buffer } from 'buffer';
-
-export interface ProfessionalRigResult {
-  success: boolean;
-  boneCount: number;
-  morphTargets: number;
-  hasFaceRig: boolean;
-  hasBodyRig: boolean;
-  hasHandRig: boolean;
-  riggedBuffer: Buffer;
-  trackingOptimized: boolean;
-  realTimeReady: boolean;
-}
-
-export interface BoneStructure {
-  name: string;
-  position: [number, number, number];
-  rotation: [number, number, number, number]; // quaternion
-  parent?: string;
-  mediaPipeMapping?: string; // Maps to MediaPipe landmarks
-}
-
-export interface MorphTarget {
-  name: string;
-  mediaPipeBlendShape?: string; // Maps to MediaPipe blend shapes
-  weight: number;
-}
-
-const SUBSCRIPTION_LIMITS = {
-  free: { maxBones: 9, maxMorphTargets: 5 },
-  'reply-guy': { maxBones: 25, maxMorphTargets: 20 },
-  spartan: { maxBones: 45, maxMorphTargets: 35 },
-  zeus: { maxBones: 55, maxMorphTargets: 50 },
-  goat: { maxBones: 65, maxMorphTargets: 100 }
-};
-
-export class ProfessionalRiggingSystem {
-  
-  constructor() {
-    console.log('🎭 Professional Rigging System initialized for real-time tracking');
-  }
-
-  async performRigging(glbBuffer: Buffer, userPlan: string = 'free'): Promise<ProfessionalRigResult> {
-    const limits = SUBSCRIPTION_LIMITS[userPlan as keyof typeof SUBSCRIPTION_LIMITS] || SUBSCRIPTION_LIMITS.free;
-    
-    console.log(`🦴 Creating professional rig for ${userPlan} plan: ${limits.maxBones} bones, ${limits.maxMorphTargets} morph targets`);
-
-    try {
-      // Create MediaPipe-compatible bone structure
-      const bones = this.createMediaPipeBones(limits.maxBones);
-      
-      // Create real-time morph targets
-      const morphTargets = this.createRealTimeMorphTargets(limits.maxMorphTargets);
-      
-      // Generate rigged GLB with proper bone weights
-      const riggedBuffer = this.generateRiggedGLB(glbBuffer, bones, morphTargets);
-      
-      return {
-        success: true,
-        boneCount: bones.length,
-        morphTargets: morphTargets.length,
-        hasFaceRig: bones.some(b => b.mediaPipeMapping?.includes('face')),
-        hasBodyRig: bones.some(b => b.mediaPipeMapping?.includes('pose')),
-        hasHandRig: bones.some(b => b.mediaPipeMapping?.includes('hand')),
-        riggedBuffer,
-        trackingOptimized: true,
-        realTimeReady: true
-      };
-      
-    } catch (error: any) {
-      console.error('❌ Professional rigging failed:', error.message);
-      throw error;
-    }
-  }
-
-  private createMediaPipeBones(maxBones: number): BoneStructure[] {
-    const bones: BoneStructure[] = [];
-    
-    // Essential bones for MediaPipe tracking
-    const essentialBones = [
-      { name: 'root', position: [0, 0, 0] as [number, number, number], rotation: [0, 0, 0, 1] as [number, number, number, number] },
-      { name: 'hips', position: [0, 0.8, 0] as [number, number, number], rotation: [0, 0, 0, 1] as [number, number, number, number], parent: 'root', mediaPipeMapping: 'pose_hips' },
-      { name: 'spine', position: [0, 1.0, 0] as [number, number, number], rotation: [0, 0, 0, 1] as [number, number, number, number], parent: 'hips', mediaPipeMapping: 'pose_spine' }
-    ];
-
-    // Add face bones for higher tiers
-    const faceBones = [
-      { name: 'head', position: [0, 1.6, 0], rotation: [0, 0, 0, 1], parent: 'spine', mediaPipeMapping: 'face_head' },
-      { name: 'jaw', position: [0, 1.55, 0.05], rotation: [0, 0, 0, 1], parent: 'head', mediaPipeMapping: 'face_jaw' },
-      { name: 'left_eye', position: [-0.03, 1.65, 0.08], rotation: [0, 0, 0, 1], parent: 'head', mediaPipeMapping: 'face_left_eye' },
-      { name: 'right_eye', position: [0.03, 1.65, 0.08], rotation: [0, 0, 0, 1], parent: 'head', mediaPipeMapping: 'face_right_eye' }
-    ];
-
-    // Add arm bones
-    const armBones = [
-      { name: 'left_shoulder', position: [-0.15, 1.4, 0], rotation: [0, 0, 0, 1], parent: 'spine', mediaPipeMapping: 'pose_left_shoulder' },
-      { name: 'left_arm', position: [-0.3, 1.4, 0], rotation: [0, 0, 0, 1], parent: 'left_shoulder', mediaPipeMapping: 'pose_left_elbow' },
-      { name: 'left_forearm', position: [-0.55, 1.4, 0], rotation: [0, 0, 0, 1], parent: 'left_arm', mediaPipeMapping: 'pose_left_wrist' },
-      { name: 'right_shoulder', position: [0.15, 1.4, 0], rotation: [0, 0, 0, 1], parent: 'spine', mediaPipeMapping: 'pose_right_shoulder' },
-      { name: 'right_arm', position: [0.3, 1.4, 0], rotation: [0, 0, 0, 1], parent: 'right_shoulder', mediaPipeMapping: 'pose_right_elbow' },
-      { name: 'right_forearm', position: [0.55, 1.4, 0], rotation: [0, 0, 0, 1], parent: 'right_arm', mediaPipeMapping: 'pose_right_wrist' }
-    ];
-
-    // Add leg bones
-    const legBones = [
-      { name: 'left_thigh', position: [-0.1, 0.4, 0], rotation: [0, 0, 0, 1], parent: 'hips', mediaPipeMapping: 'pose_left_knee' },
-      { name: 'left_shin', position: [-0.1, 0.0, 0], rotation: [0, 0, 0, 1], parent: 'left_thigh', mediaPipeMapping: 'pose_left_ankle' },
-      { name: 'right_thigh', position: [0.1, 0.4, 0], rotation: [0, 0, 0, 1], parent: 'hips', mediaPipeMapping: 'pose_right_knee' },
-      { name: 'right_shin', position: [0.1, 0.0, 0], rotation: [0, 0, 0, 1], parent: 'right_thigh', mediaPipeMapping: 'pose_right_ankle' }
-    ];
-
-    // Hand bones for detailed tracking
-    const handBones = [
-      { name: 'left_hand', position: [-0.65, 1.4, 0], rotation: [0, 0, 0, 1], parent: 'left_forearm', mediaPipeMapping: 'hand_left_wrist' },
-      { name: 'left_thumb', position: [-0.67, 1.42, 0.02], rotation: [0, 0, 0, 1], parent: 'left_hand', mediaPipeMapping: 'hand_left_thumb' },
-      { name: 'left_index', position: [-0.69, 1.45, 0], rotation: [0, 0, 0, 1], parent: 'left_hand', mediaPipeMapping: 'hand_left_index' },
-      { name: 'right_hand', position: [0.65, 1.4, 0], rotation: [0, 0, 0, 1], parent: 'right_forearm', mediaPipeMapping: 'hand_right_wrist' },
-      { name: 'right_thumb', position: [0.67, 1.42, 0.02], rotation: [0, 0, 0, 1], parent: 'right_hand', mediaPipeMapping: 'hand_right_thumb' },
-      { name: 'right_index', position: [0.69, 1.45, 0], rotation: [0, 0, 0, 1], parent: 'right_hand', mediaPipeMapping: 'hand_right_index' }
-    ];
-
-    // Build bone hierarchy based on subscription tier
-    bones.push(...essentialBones);
-    
-    if (maxBones > 3) bones.push(...faceBones.slice(0, Math.min(4, maxBones - 3)));
-    if (maxBones > 7) bones.push(...armBones.slice(0, Math.min(6, maxBones - 7)));
-    if (maxBones > 13) bones.push(...legBones.slice(0, Math.min(4, maxBones - 13)));
-    if (maxBones > 17) bones.push(...handBones.slice(0, Math.min(6, maxBones - 17)));
-
-    // Add additional detail bones for higher tiers
-    if (maxBones > 23) {
-      const detailBones = [
-        { name: 'neck', position: [0, 1.5, 0], rotation: [0, 0, 0, 1], parent: 'spine', mediaPipeMapping: 'pose_neck' },
-        { name: 'left_clavicle', position: [-0.05, 1.45, 0], rotation: [0, 0, 0, 1], parent: 'spine', mediaPipeMapping: 'pose_left_shoulder' },
-        { name: 'right_clavicle', position: [0.05, 1.45, 0], rotation: [0, 0, 0, 1], parent: 'spine', mediaPipeMapping: 'pose_right_shoulder' }
-      ];
-      bones.push(...detailBones.slice(0, maxBones - bones.length));
-    }
-
-    return bones.slice(0, maxBones);
-  }
-
-  private createRealTimeMorphTargets(maxTargets: number): MorphTarget[] {
-    const targets: MorphTarget[] = [];
-    
-    // Essential facial expressions for MediaPipe
-    const essentialTargets = [
-      { name: 'eyeBlinkLeft', mediaPipeBlendShape: 'eyeBlinkLeft', weight: 0 },
-      { name: 'eyeBlinkRight', mediaPipeBlendShape: 'eyeBlinkRight', weight: 0 },
-      { name: 'mouthSmileLeft', mediaPipeBlendShape: 'mouthSmileLeft', weight: 0 },
-      { name: 'mouthSmileRight', mediaPipeBlendShape: 'mouthSmileRight', weight: 0 },
-      { name: 'jawOpen', mediaPipeBlendShape: 'jawOpen', weight: 0 }
-    ];
-
-    // Extended expressions for higher tiers
-    const extendedTargets = [
-      { name: 'eyeSquintLeft', mediaPipeBlendShape: 'eyeSquintLeft', weight: 0 },
-      { name: 'eyeSquintRight', mediaPipeBlendShape: 'eyeSquintRight', weight: 0 },
-      { name: 'eyeWideLeft', mediaPipeBlendShape: 'eyeWideLeft', weight: 0 },
-      { name: 'eyeWideRight', mediaPipeBlendShape: 'eyeWideRight', weight: 0 },
-      { name: 'browDownLeft', mediaPipeBlendShape: 'browDownLeft', weight: 0 },
-      { name: 'browDownRight', mediaPipeBlendShape: 'browDownRight', weight: 0 },
-      { name: 'browInnerUp', mediaPipeBlendShape: 'browInnerUp', weight: 0 },
-      { name: 'browOuterUpLeft', mediaPipeBlendShape: 'browOuterUpLeft', weight: 0 },
-      { name: 'browOuterUpRight', mediaPipeBlendShape: 'browOuterUpRight', weight: 0 },
-      { name: 'cheekPuff', mediaPipeBlendShape: 'cheekPuff', weight: 0 },
-      { name: 'cheekSquintLeft', mediaPipeBlendShape: 'cheekSquintLeft', weight: 0 },
-      { name: 'cheekSquintRight', mediaPipeBlendShape: 'cheekSquintRight', weight: 0 },
-      { name: 'mouthFrownLeft', mediaPipeBlendShape: 'mouthFrownLeft', weight: 0 },
-      { name: 'mouthFrownRight', mediaPipeBlendShape: 'mouthFrownRight', weight: 0 },
-      { name: 'mouthFunnel', mediaPipeBlendShape: 'mouthFunnel', weight: 0 }
-    ];
-
-    targets.push(...essentialTargets);
-    if (maxTargets > 5) {
-      targets.push(...extendedTargets.slice(0, maxTargets - 5));
-    }
-
-    return targets.slice(0, maxTargets);
-  }
-
-  private generateRiggedGLB(originalGLB: Buffer, bones: BoneStructure[], morphTargets: MorphTarget[]): Buffer {
-    // Create a proper rigged GLB with real bone data
-    const baseSize = originalGLB.length;
-    const boneDataSize = bones.length * 64; // 64 bytes per bone (transform matrix + metadata)
-    const morphDataSize = morphTargets.length * 32; // 32 bytes per morph target
-    const additionalDataSize = boneDataSize + morphDataSize + 1024; // Extra for GLB structure
-    
-    const riggedBuffer = Buffer.alloc(baseSize + additionalDataSize);
-    
-    // Copy original GLB data
-    originalGLB.copy(riggedBuffer, 0);
-    
-    // Add bone hierarchy data
-    let offset = baseSize;
-    bones.forEach((bone, index) => {
-      // Write bone transform matrix (16 floats)
-      const transform = new Float32Array(16);
-      transform[0] = 1; transform[5] = 1; transform[10] = 1; transform[15] = 1; // Identity matrix
-      transform[12] = bone.position[0];
-      transform[13] = bone.position[1];
-      transform[14] = bone.position[2];
-      
-      const transformBuffer = Buffer.from(transform.buffer);
-      transformBuffer.copy(riggedBuffer, offset);
-      offset += 64;
-    });
-    
-    // Add morph target data
-    morphTargets.forEach((target, index) => {
-      // Write morph target metadata
-      const targetData = Buffer.alloc(32);
-      targetData.writeFloatLE(target.weight, 0);
-      targetData.write(target.name, 4, 24, 'utf8');
-      targetData.copy(riggedBuffer, offset);
-      offset += 32;
-    });
-    
-    console.log(`📦 Generated rigged GLB: ${bones.length} bones, ${morphTargets.length} morph targets`);
-    console.log(`📊 File size: ${baseSize} → ${riggedBuffer.length} bytes (+${additionalDataSize} rigging data)`);
-    
-    return riggedBuffer;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,237 @@
+/**
+ * VIDA³ Rigging Engine
+ * The one auto-rigger. A run always goes analyze → skeleton → weights →
+ * morphs → export and reports how long each stage took. Every plan rigs with
+ * the geometric engine; tiers differ only in the bone and morph limits they
+ * pass in (see subscription-rigging-tiers.ts).
+ *
+ * VRM avatars arrive rigged by their author. They skip the stages entirely
+ * and keep their file byte for byte (see vrm.ts), reported as "vrm-import".
+ */
+
+import type { Document } from '@gltf-transform/core';
+import { synthesizeBlendshapes } from './blendshape-synthesis';
+import { GLBExporter } from './glb-exporter';
+import { placeJoints, selectJoints, type HumanoidFeatures, type JointPlacement } from './joint-placement';
+import { computeSkinWeights, getSkinWeightQuality } from './skin-weights';
+import { getSubscriptionTierConfig, type SubscriptionTierConfig } from './subscription-rigging-tiers';
+import { readVrm, vrmHumanoidJoints, type VrmSummary } from './vrm';
+import {
+  jointsFromNamedBones,
+  prepareForSkinning,
+  readGltfDocument,
+  totalVertexCount,
+  writeGltfDocument,
+  writeMorphTargets,
+  writeSkeleton,
+  writeSkinWeights,
+  type MorphTargetData,
+  type PrimitiveGeometry,
+  type RigJoint,
+  type SkinInfluences
+} from './gltf-skinning';
+
+export type RiggingStage = 'analyze' | 'skeleton' | 'weights' | 'morphs' | 'export';
+
+export interface RiggingContext {
+  planId: string;
+  tier: SubscriptionTierConfig;
+}
+
+// Parsed model shared by every stage of one run
+export interface RigModel {
+  document: Document;
+  geometries: PrimitiveGeometry[]; // world space, see prepareForSkinning
+  vertices: number;
+  hasExistingBones: boolean;
+  placement: JointPlacement;
+}
+
+export interface RiggingEngine {
+  readonly id: string;
+  analyze(buffer: Buffer, context: RiggingContext): Promise<RigModel>;
+  buildSkeleton(model: RigModel, context: RiggingContext): Promise<RigJoint[]>;
+  computeWeights(model: RigModel, joints: RigJoint[], context: RiggingContext): Promise<SkinInfluences>;
+  buildMorphs(model: RigModel, joints: RigJoint[], context: RiggingContext): Promise<MorphTargetData[]>;
+  export(model: RigModel, joints: RigJoint[], influences: SkinInfluences, morphs: MorphTargetData[], context: RiggingContext): Promise<Buffer>;
+}
+
+export interface RiggingEngineResult {
+  engine: 'geometric' | 'vrm-import';
+  riggedBuffer: Buffer;
+  joints: RigJoint[];
+  morphTargets: string[];
+  features: HumanoidFeatures;
+  hasFaceRig: boolean;
+  hasBodyRig: boolean;
+  hasHandRig: boolean;
+  statistics: {
+    originalSize: number;
+    riggedSize: number;
+    vertices: number;
+    boneCount: number;
+    morphCount: number;
+    processingTime: number;
+    stageTimings: Record<RiggingStage, number>;
+  };
+}
+
+/**
+ * Mesh-only rigging: joints from slicing the mesh, weights from the joint
+ * segments, ARKit blendshapes synthesized on the face. Deterministic and
+ * needs no external service.
+ */
+export class GeometricRiggingEngine implements RiggingEngine {
+  readonly id = 'geometric' as const;
+
+  async analyze(buffer: Buffer, context: RiggingContext): Promise<RigModel> {
+    const document = await readGltfDocument(buffer);
+    const geometries = prepareForSkinning(document);
+
+    return {
+      document,
+      geometries,
+      vertices: totalVertexCount(geometries),
+      // Detached skins stay listed until the document is pruned on write
+      hasExistingBones: document.getRoot().listSkins().length > 0,
+      placement: placeJoints(geometries)
+    };
+  }
+
+  async buildSkeleton(model: RigModel, context: RiggingContext): Promise<RigJoint[]> {
+    return jointsFromNamedBones(selectJoints(model.placement.joints, context.tier.maxBones));
+  }
+
+  async computeWeights(model: RigModel, joints: RigJoint[], context: RiggingContext): Promise<SkinInfluences> {
+    return computeSkinWeights(model.geometries, joints, getSkinWeightQuality(context.tier));
+  }
+
+  async buildMorphs(model: RigModel, joints: RigJoint[], context: RiggingContext): Promise<MorphTargetData[]> {
+    return synthesizeBlendshapes(model.geometries, model.placement, context.tier.maxMorphTargets);
+  }
+
+  async export(
+    model: RigModel,
+    joints: RigJoint[],
+    influences: SkinInfluences,
+    morphs: MorphTargetData[],
+    context: RiggingContext
+  ): Promise<Buffer> {
+    const { skin } = writeSkeleton(model.document, joints);
+    writeSkinWeights(model.document, model.geometries, skin, influences);
+    writeMorphTargets(model.document, model.geometries, morphs.slice(0, context.tier.maxMorphTargets));
+
+    const riggedBuffer = await writeGltfDocument(model.document);
+
+    const validation = GLBExporter.validateGLB(GLBExporter.parseGLB(riggedBuffer).json);
+    if (!validation.valid) {
+      throw new Error(`Rigged GLB failed validation: ${validation.issues.join('; ')}`);
+    }
+    return riggedBuffer;
+  }
+}
+
+/**
+ * Rig a GLB within the plan's limits. `limits` overrides the static tier
+ * limits, e.g. with the subscription_plans row the caller already loaded.
+ */
+export async function runRiggingEngine(
+  buffer: Buffer,
+  planId: string,
+  options: { limits?: Partial<Pick<SubscriptionTierConfig, 'maxBones' | 'maxMorphTargets'>> } = {}
+): Promise<RiggingEngineResult> {
+  const startTime = Date.now();
+  const vrm = readVrm(buffer);
+  if (vrm) {
+    return keepImportedVrmRig(buffer, vrm, startTime);
+  }
+
+  // Fresh instance per run: the engine may keep per-run state between stages
+  const engine = new GeometricRiggingEngine();
+  const context: RiggingContext = {
+    planId,
+    tier: { ...getSubscriptionTierConfig(planId), ...options.limits }
+  };
+
+  console.log(`🦴 Rigging with "${engine.id}" engine for ${planId} plan (${context.tier.maxBones} bones, ${context.tier.maxMorphTargets} morphs)`);
+
+  const stageTimings = {} as Record<RiggingStage, number>;
+  const timed = async <T>(stage: RiggingStage, run: () => Promise<T>): Promise<T> => {
+    const stageStart = Date.now();
+    try {
+      return await run();
+    } finally {
+      stageTimings[stage] = Date.now() - stageStart;
+    }
+  };
+
+  const model = await timed('analyze', () => engine.analyze(buffer, context));
+  const joints = await timed('skeleton', () => engine.buildSkeleton(model, context));
+  const influences = await timed('weights', () => engine.computeWeights(model, joints, context));
+  const morphs = await timed('morphs', () => engine.buildMorphs(model, joints, context));
+  const riggedBuffer = await timed('export', () => engine.export(model, joints, influences, morphs, context));
+
+  const morphTargets = morphs.slice(0, context.tier.maxMorphTargets).map(morph => morph.name);
+  const jointNames = joints.map(joint => joint.name.toLowerCase());
+
+  console.log(`✅ "${engine.id}" engine rigged ${joints.length} joints and ${morphTargets.length} morph targets in ${Date.now() - startTime}ms`);
+
+  return {
+    engine: engine.id,
+    riggedBuffer,
+    joints,
+    morphTargets,
+    features: model.placement.features,
+    hasFaceRig: jointNames.some(name => name === 'head' || name === 'neck'),
+    hasBodyRig: jointNames.some(name => name.includes('spine') || name === 'hips'),
+    hasHandRig: jointNames.some(name => name.includes('hand')),
+    statistics: {
+      originalSize: buffer.length,
+      riggedSize: riggedBuffer.length,
+      vertices: model.vertices,
+      boneCount: joints.length,
+      morphCount: morphTargets.length,
+      processingTime: Date.now() - startTime,
+      stageTimings
+    }
+  };
+}
+
+// Re-encoding a VRM through the stages would drop its VRM extensions
+function keepImportedVrmRig(buffer: Buffer, vrm: VrmSummary, startTime: number): RiggingEngineResult {
+  const analyzeStart = Date.now();
+  const joints = vrmHumanoidJoints(buffer);
+  const { json } = GLBExporter.parseGLB(buffer);
+  const vertices = (json.meshes ?? []).reduce((sum: number, mesh: any) =>
+    sum + (mesh.primitives ?? []).reduce((count: number, primitive: any) =>
+      count + (json.accessors?.[primitive.attributes?.POSITION]?.count ?? 0), 0), 0);
+
+  const bones = new Set(Object.keys(vrm.humanBones));
+  console.log(`✅ Kept VRM ${vrm.specVersion} rig: ${joints.length} humanoid bones, ${vrm.expressions.length} expressions, ${vrm.springBone.springs} spring chains`);
+
+  return {
+    engine: 'vrm-import',
+    riggedBuffer: buffer,
+    joints,
+    morphTargets: vrm.expressions,
+    features: {
+      hasHead: bones.has('head'),
+      hasTorso: bones.has('spine'),
+      hasArms: bones.has('leftUpperArm') || bones.has('rightUpperArm'),
+      hasLegs: bones.has('leftUpperLeg') || bones.has('rightUpperLeg'),
+      confidence: 1
+    },
+    hasFaceRig: bones.has('head'),
+    hasBodyRig: bones.has('spine'),
+    hasHandRig: bones.has('leftHand') || bones.has('rightHand'),
+    statistics: {
+      originalSize: buffer.length,
+      riggedSize: buffer.length,
+      vertices,
+      boneCount: joints.length,
+      morphCount: vrm.expressions.length,
+      processingTime: Date.now() - startTime,
+      stageTimings: { analyze: Date.now() - analyzeStart, skeleton: 0, weights: 0, morphs: 0, export: 0 }
+    }
+  };
+}
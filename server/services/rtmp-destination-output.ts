@@ -0,0 +1,430 @@
+/**
+ * VIDA³ RTMP Destination Output
+ * One RTMP target (X, Twitch, ...) of a studio stream with its own FFmpeg
+ * encoder. Each destination preflights its ingest on first start, reconnects
+ * on its own with exponential backoff and buffers media while it is down, so
+ * one flaky platform never interrupts the others.
+ *
+ * The encoder also tees its output as MPEG-TS to stdout, which the gateway
+ * hands to the recorder and HLS preview.
+ *
+ * Events:
+ *   'status'  (status)          lifecycle transition, see stream-lifecycle
+ *   'retry'   (attempt, delay)  a reconnect has been scheduled
+ *   'drain'   ()                the encoder caught up after backpressure
+ *   'encoded' (chunk)           MPEG-TS bytes of what was sent to the ingest
+ */
+
+import { EventEmitter } from 'events';
+import { spawn, type ChildProcess } from 'child_process';
+import type { Writable } from 'stream';
+import type { FramePacket, StreamLifecycleState } from '@shared/frame-protocol';
+import type { DestinationSummary } from '@shared/streaming-gateway-protocol';
+import {
+  describeEncodingProfile,
+  encodingProfileToFFmpegArgs,
+  studioInputFFmpegArgs,
+  type EncodingProfile,
+} from './encoding-profile';
+import { runRtmpPreflight } from './rtmp-preflight';
+import { decryptStreamKey } from './stream-key-vault';
+import {
+  canTransition,
+  DEFAULT_RECONNECT_POLICY,
+  ReconnectBuffer,
+  reconnectDelay,
+  type ReconnectPolicy,
+} from './stream-lifecycle';
+import { decodeFrameToRaw, type StreamOutput } from './stream-outputs';
+
+export interface RtmpDestinationConfig {
+  id: string;
+  name: string;
+  rtmpUrl: string;
+  streamKey: string; // encrypted, see stream-key-vault
+  bitrate: number;
+  profile: EncodingProfile;
+}
+
+export class RtmpDestinationOutput extends EventEmitter implements StreamOutput {
+  readonly id: string;
+  readonly name: string;
+  readonly rtmpUrl: string;
+  readonly bitrate: number;
+  readonly profile: EncodingProfile;
+  status: StreamLifecycleState = 'connecting';
+  reconnectAttempts = 0;
+  retryInMs?: number;
+  backpressured = false;
+  droppedFrames = 0;
+  lastError?: string;
+
+  private streamKey: string;
+  private ffmpegProcess?: ChildProcess;
+  private reconnectTimer?: NodeJS.Timeout;
+  // Media held while the destination is down, replayed into its next encoder
+  private reconnectBuffer?: ReconnectBuffer;
+  private stopped = false;
+
+  constructor(
+    config: RtmpDestinationConfig,
+    private streamId: string,
+    private reconnectPolicy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY
+  ) {
+    super();
+    this.id = config.id;
+    this.name = config.name;
+    this.rtmpUrl = config.rtmpUrl;
+    this.streamKey = config.streamKey;
+    this.bitrate = config.bitrate;
+    this.profile = config.profile;
+  }
+
+  /**
+   * True while the encoder accepts input; buffering destinations don't count
+   */
+  get writable(): boolean {
+    return !!this.ffmpegProcess?.stdin?.writable && !this.reconnectBuffer;
+  }
+
+  /**
+   * First start. A destination that can't be reached is marked failed and
+   * the classified preflight reason is thrown.
+   */
+  async start(): Promise<void> {
+    try {
+      await this.launch();
+    } catch (error: any) {
+      this.lastError ??= error.message;
+      this.setStatus('failed');
+      throw error;
+    }
+  }
+
+  /**
+   * Feed a raw frame. A saturated encoder drops frames until it drains.
+   */
+  writeVideo(frame: Buffer) {
+    const stdin = this.ffmpegProcess?.stdin;
+
+    // Reconnecting destinations are fed from their buffer instead
+    if (!stdin || stdin.destroyed || !stdin.writable || this.reconnectBuffer) {
+      return;
+    }
+
+    if (this.backpressured) {
+      this.droppedFrames++;
+      return;
+    }
+
+    try {
+      const accepted = stdin.write(frame, (error) => {
+        // EPIPE is expected when the RTMP connection drops
+        if (error && (error as any).code !== 'EPIPE') {
+          console.error(`Error writing raw frame to ${this.name} FFmpeg:`, error);
+          this.lastError = error.message;
+        }
+      });
+
+      // stdin buffer is full - skip this destination until 'drain'
+      if (!accepted) {
+        this.backpressured = true;
+      }
+    } catch (writeError: any) {
+      if (writeError.code !== 'EPIPE') {
+        console.error(`Error writing to ${this.name} FFmpeg stdin:`, writeError);
+        this.lastError = writeError.message;
+      }
+    }
+  }
+
+  writeAudio(chunk: Buffer) {
+    if (this.reconnectBuffer) {
+      this.reconnectBuffer.pushAudio(chunk);
+      return;
+    }
+    const audioPipe = this.ffmpegProcess?.stdio[3] as Writable | undefined;
+    if (audioPipe && !audioPipe.destroyed && audioPipe.writable) {
+      audioPipe.write(chunk);
+    }
+  }
+
+  /**
+   * Keep an encoded frame for replay while the destination is down
+   */
+  bufferVideo(packet: FramePacket) {
+    this.reconnectBuffer?.pushVideo(packet);
+  }
+
+  stop() {
+    this.stopped = true;
+    this.status = 'stopped';
+    this.reconnectBuffer = undefined;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+
+    const ffmpegProcess = this.ffmpegProcess;
+    if (ffmpegProcess && !ffmpegProcess.killed) {
+      try {
+        ffmpegProcess.kill('SIGTERM');
+        setTimeout(() => {
+          if (ffmpegProcess.exitCode === null) {
+            ffmpegProcess.kill('SIGKILL');
+          }
+        }, 3000);
+      } catch (error) {
+        console.error(`Error killing FFmpeg process for ${this.name} on stream ${this.streamId}:`, error);
+      }
+    }
+  }
+
+  describe(): DestinationSummary {
+    return {
+      destinationId: this.id,
+      name: this.name,
+      status: this.status,
+      bitrate: this.bitrate,
+      encodingProfile: this.profile,
+      reconnectAttempts: this.reconnectAttempts,
+      maxReconnectAttempts: this.reconnectPolicy.maxAttempts,
+      retryInMs: this.status === 'reconnecting' ? this.retryInMs : undefined,
+      droppedFrames: this.droppedFrames,
+      error: this.status === 'failed' || this.status === 'reconnecting' ? this.lastError : undefined
+    };
+  }
+
+  /**
+   * Spawn (or respawn) the encoder and wire its lifecycle
+   */
+  private async launch(): Promise<void> {
+    console.log(`🎬 Creating FFmpeg process for ${this.name} with bitrate: ${this.bitrate}k`);
+
+    // First start only: fail fast with a classified reason instead of a generic encoder exit
+    if (this.reconnectAttempts === 0 && !this.ffmpegProcess) {
+      const preflight = await runRtmpPreflight(this.rtmpUrl, this.streamKey).catch((error: Error) => ({ ok: false, message: error.message }));
+      if (!preflight.ok) {
+        this.lastError = preflight.message;
+        throw new Error(preflight.message);
+      }
+    }
+
+    // Stream was stopped while the preflight was running
+    if (this.stopped) return;
+
+    let ffmpegProcess: ChildProcess;
+    try {
+      ffmpegProcess = this.createFFmpegProcess();
+    } catch (error: any) {
+      this.lastError = error.message;
+      throw error;
+    }
+
+    this.ffmpegProcess = ffmpegProcess;
+    this.backpressured = false;
+    this.retryInMs = undefined;
+    this.setStatus('connecting');
+
+    // Consider the destination live once FFmpeg survives its connect phase
+    setTimeout(() => {
+      if (this.ffmpegProcess === ffmpegProcess && ffmpegProcess.exitCode === null && this.status === 'connecting') {
+        this.reconnectAttempts = 0;
+        this.setStatus('live');
+      }
+    }, 2000);
+
+    ffmpegProcess.on('error', (error) => {
+      console.error(`❌ FFmpeg error for ${this.name} on stream ${this.streamId}:`, error);
+      this.lastError = error.message;
+    });
+
+    ffmpegProcess.on('exit', (code) => {
+      console.log(`🏁 FFmpeg process for ${this.name} exited with code ${code} on stream ${this.streamId}`);
+      if (this.ffmpegProcess !== ffmpegProcess) return;
+      this.ffmpegProcess = undefined;
+
+      if (this.stopped) return;
+      if (code !== 0 && !this.lastError) {
+        this.lastError = `Encoder exited with code ${code}`;
+      }
+      this.scheduleReconnect();
+    });
+
+    // Handle stdin errors to prevent process crashes
+    if (ffmpegProcess.stdin) {
+      ffmpegProcess.stdin.on('error', (error: any) => {
+        if (error.code !== 'EPIPE') {
+          console.error(`❌ FFmpeg stdin error for ${this.name} on stream ${this.streamId}:`, error);
+        }
+      });
+
+      // Resume sending once FFmpeg has consumed its input buffer
+      ffmpegProcess.stdin.on('drain', () => {
+        this.backpressured = false;
+        this.emit('drain');
+      });
+    }
+
+    const audioPipe = ffmpegProcess.stdio[3] as Writable | undefined;
+    audioPipe?.on('error', (error: any) => {
+      if (error.code !== 'EPIPE') {
+        console.error(`❌ FFmpeg audio pipe error for ${this.name} on stream ${this.streamId}:`, error);
+      }
+    });
+
+    if (this.reconnectBuffer) {
+      this.replayReconnectBuffer(ffmpegProcess);
+    }
+  }
+
+  /**
+   * Prime a reconnected encoder with the media captured while it was down,
+   * then hand it back to the live fan-out. Media that arrives during the
+   * replay keeps going to the buffer so video and audio stay in order.
+   */
+  private async replayReconnectBuffer(ffmpegProcess: ChildProcess) {
+    const buffer = this.reconnectBuffer!;
+    const stdin = ffmpegProcess.stdin!;
+    const audioPipe = ffmpegProcess.stdio[3] as Writable;
+    const isCurrent = () => this.ffmpegProcess === ffmpegProcess && !this.stopped && !stdin.destroyed;
+    let replayedFrames = 0;
+
+    try {
+      while (!buffer.isEmpty() && isCurrent()) {
+        const { video, audio } = buffer.drain();
+
+        audio.forEach(chunk => audioPipe.write(chunk));
+        for (const packet of video) {
+          const rawBuffer = await decodeFrameToRaw(packet, this.profile.width, this.profile.height);
+          if (!isCurrent()) return;
+
+          if (!stdin.write(rawBuffer)) {
+            await new Promise(resolve => stdin.once('drain', resolve));
+          }
+          replayedFrames++;
+        }
+      }
+    } catch (error) {
+      console.error(`❌ Failed to replay buffered media to ${this.name} on stream ${this.streamId}:`, error);
+    }
+
+    if (isCurrent()) {
+      console.log(`⏩ Replayed ${replayedFrames} buffered frames to ${this.name} (${buffer.droppedFrames} dropped while down)`);
+      this.droppedFrames += buffer.droppedFrames;
+      this.reconnectBuffer = undefined;
+    }
+  }
+
+  /**
+   * Recovery with exponential backoff; the destination fails for good once
+   * the policy's attempts are used up.
+   */
+  private scheduleReconnect() {
+    const { maxAttempts } = this.reconnectPolicy;
+
+    if (this.reconnectAttempts >= maxAttempts) {
+      console.error(`❌ Max reconnection attempts reached for ${this.name} on stream ${this.streamId}`);
+      this.reconnectBuffer = undefined;
+      this.lastError ??= 'reconnect failed';
+      this.setStatus('failed');
+      return;
+    }
+
+    this.reconnectAttempts++;
+    this.retryInMs = reconnectDelay(this.reconnectAttempts, this.reconnectPolicy);
+    this.reconnectBuffer ??= new ReconnectBuffer();
+
+    console.log(`🔄 Reconnecting ${this.name} on stream ${this.streamId} in ${this.retryInMs}ms (attempt ${this.reconnectAttempts}/${maxAttempts})`);
+    this.emit('retry', this.reconnectAttempts, this.retryInMs);
+    this.setStatus('reconnecting');
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      if (this.stopped) return;
+
+      this.launch().catch(error => {
+        console.error(`❌ Reconnect failed for ${this.name} on stream ${this.streamId}:`, error);
+        this.scheduleReconnect();
+      });
+    }, this.retryInMs);
+  }
+
+  private setStatus(status: StreamLifecycleState) {
+    if (this.stopped) return;
+    // Repeated 'reconnecting' is reported so the client sees each attempt
+    if (this.status === status && status !== 'reconnecting') return;
+    if (this.status !== status && !canTransition(this.status, status)) {
+      console.warn(`⚠️ Ignoring invalid transition ${this.status} -> ${status} for ${this.name} on stream ${this.streamId}`);
+      return;
+    }
+    this.status = status;
+    this.emit('status', status);
+  }
+
+  private createFFmpegProcess(): ChildProcess {
+    const { rtmpUrl, profile } = this;
+    const streamKey = decryptStreamKey(this.streamKey);
+
+    const ffmpegCommand = [
+      '-y',
+      // Raw canvas frames on stdin, mixed studio audio (mic + music bus) on fd 3
+      ...studioInputFFmpegArgs(profile),
+
+      ...encodingProfileToFFmpegArgs(profile),
+
+      '-c:a', 'aac',
+      '-b:a', `${profile.audioBitrate}k`,
+      '-ar', '44100',
+      '-ac', '2',
+      // Stretch/pad audio to follow its timestamps so A/V stays locked
+      '-af', 'aresample=async=1000',
+
+      '-metadata', `framerate=${profile.frameRate}`,
+      '-metadata', `videodatarate=${profile.videoBitrate}`,
+      '-metadata', `audiodatarate=${profile.audioBitrate}`,
+
+      // FLV to the ingest, and the same packets as MPEG-TS on stdout. FLV
+      // needs the codec headers out of band once the tee muxer sits in between.
+      '-flags', '+global_header',
+      '-f', 'tee',
+      `[f=flv]${teeEscape(`${rtmpUrl}/${streamKey}`)}|[f=mpegts:onfail=ignore]pipe:1`
+    ];
+
+    console.log(`🚀 RTMP Stream to ${this.name} - ${describeEncodingProfile(profile)} / ${profile.audioBitrate}k AAC (studio audio mix)`);
+    console.log(`🎯 FFmpeg: ${ffmpegCommand.slice(0, 10).join(' ')} ... [${ffmpegCommand.length} args]`);
+
+    const ffmpegProcess = spawn('ffmpeg', ffmpegCommand, {
+      stdio: ['pipe', 'pipe', 'pipe', 'pipe']
+    });
+
+    ffmpegProcess.stdout?.on('data', (chunk: Buffer) => this.emit('encoded', chunk));
+
+    // Log FFmpeg stderr for debugging
+    ffmpegProcess.stderr?.on('data', (data) => {
+      const output = data.toString();
+
+      if (output.includes('frame=') || output.includes('fps=')) {
+        // Log encoding progress occasionally
+        if (Math.random() < 0.05) {
+          console.log(`📊 FFmpeg ${this.name}: ${output.trim()}`);
+        }
+      } else if (output.includes('Connection refused') || output.includes('Network is unreachable')) {
+        console.error(`❌ FFmpeg ${this.name}: Network connection failed - ${output.trim()}`);
+      } else if (output.includes('Broken pipe')) {
+        console.warn(`⚠️ FFmpeg ${this.name}: RTMP connection interrupted - ${output.trim()}`);
+      } else if (output.includes('error') || output.includes('Error') || output.includes('failed')) {
+        console.error(`❌ FFmpeg ${this.name} error: ${output.trim()}`);
+      }
+    });
+
+    return ffmpegProcess;
+  }
+}
+
+// Characters the tee muxer's output list treats as syntax
+function teeEscape(value: string): string {
+  return value.replace(/[\\|[\]]/g, '\\$&');
+}
+
+export default RtmpDestinationOutput;
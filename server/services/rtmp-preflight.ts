@@ -0,0 +1,492 @@
+/**
+ * VIDA³ RTMP Ingest Preflight
+ * Walks the same steps an encoder takes before going live - DNS, TCP/TLS,
+ * RTMP handshake, connect and publish with the stream key - and reports
+ * which one failed. Optionally pushes filler data after a successful publish
+ * to measure upload bandwidth to the ingest.
+ */
+
+import dns from 'dns';
+import net from 'net';
+import tls from 'tls';
+import {
+  acknowledgementMessage,
+  commandMessage,
+  decodeCommand,
+  encodeMessage,
+  createHandshakePacket,
+  HANDSHAKE_SIZE,
+  MEDIA_CHUNK_STREAM,
+  MessageType,
+  parseRtmpUrl,
+  RtmpChunkReader,
+  RtmpProtocolError,
+  setChunkSizeMessage,
+  statusInfo,
+  UserControlEvent,
+  userControlMessage,
+  windowAckSizeMessage,
+  type RtmpCommand,
+  type RtmpEndpoint,
+  type RtmpMessage,
+} from './rtmp-protocol';
+import { getSubscriptionTierConfig } from './subscription-rigging-tiers';
+import { decryptStreamKey } from './stream-key-vault';
+
+export type PreflightStatus = 'ok' | 'dns_failed' | 'tcp_refused' | 'handshake_failed' | 'auth_rejected';
+
+export interface PreflightOptions {
+  timeoutMs?: number;           // per step
+  deadlineMs?: number;          // for the whole probe, bandwidth test included
+  measureBandwidth?: boolean;
+  bandwidthDurationMs?: number;
+  bandwidthMaxBytes?: number;
+}
+
+export interface UploadBandwidth {
+  uploadKbps: number;
+  bytesSent: number;
+  durationMs: number;
+  // 'acknowledged' counts bytes the ingest confirmed receiving; 'flushed' only bytes handed to the OS
+  method: 'acknowledged' | 'flushed';
+}
+
+export interface RtmpPreflightResult {
+  status: PreflightStatus;
+  ok: boolean;
+  message: string;
+  host: string;
+  port: number;
+  app: string;
+  secure: boolean;
+  address?: string;
+  serverCode?: string;
+  timings: {
+    dnsMs?: number;
+    connectMs?: number;
+    handshakeMs?: number;
+    publishMs?: number;
+  };
+  bandwidth?: UploadBandwidth;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const OUR_CHUNK_SIZE = 4096;
+const ACK_WINDOW = 256 * 1024;
+const FILLER_MESSAGE_BYTES = 64 * 1024;
+const AUDIO_HEADROOM_KBPS = 160;
+// Wait after the filler for the ingest to acknowledge it
+const ACK_GRACE_MS = 300;
+
+class PreflightFailure extends Error {
+  constructor(readonly status: Exclude<PreflightStatus, 'ok'>, message: string, readonly serverCode?: string) {
+    super(message);
+    this.name = 'PreflightFailure';
+  }
+}
+
+/**
+ * Promise-based view of one RTMP client connection
+ */
+class RtmpClientConnection {
+  private reader = new RtmpChunkReader();
+  private queue: RtmpMessage[] = [];
+  private waiter?: { match: (message: RtmpMessage) => boolean; resolve: (message: RtmpMessage) => void; reject: (error: Error) => void };
+  private handshakeBuffer: Buffer | null = Buffer.alloc(0);
+  private handshakeWaiter?: () => void;
+  private closedError?: Error;
+  private bytesReceived = 0;
+  private lastAckSent = 0;
+  private peerAckWindow = 0;
+  readonly acks: { bytes: number; at: number }[] = [];
+
+  constructor(private socket: net.Socket) {
+    socket.on('data', (data: Buffer) => this.onData(data));
+    socket.on('close', () => this.fail(new Error('Connection closed by server')));
+    socket.on('error', (error) => this.fail(error));
+  }
+
+  get bytesWritten(): number {
+    return this.socket.bytesWritten;
+  }
+
+  private fail(error: Error) {
+    this.closedError ??= error;
+    this.waiter?.reject(this.closedError);
+    this.waiter = undefined;
+    this.handshakeWaiter?.();
+  }
+
+  private onData(data: Buffer) {
+    this.bytesReceived += data.length;
+
+    if (this.handshakeBuffer) {
+      this.handshakeBuffer = Buffer.concat([this.handshakeBuffer, data]);
+      this.handshakeWaiter?.();
+      return;
+    }
+
+    try {
+      this.reader.push(data).forEach(message => this.onMessage(message));
+    } catch (error: any) {
+      this.fail(error);
+      this.socket.destroy();
+    }
+
+    if (this.peerAckWindow && this.bytesReceived - this.lastAckSent >= this.peerAckWindow) {
+      this.lastAckSent = this.bytesReceived;
+      this.send(acknowledgementMessage(this.bytesReceived));
+    }
+  }
+
+  private onMessage(message: RtmpMessage) {
+    switch (message.typeId) {
+      case MessageType.ACKNOWLEDGEMENT:
+        this.acks.push({ bytes: message.payload.readUInt32BE(0), at: Date.now() });
+        return;
+      case MessageType.WINDOW_ACK_SIZE:
+        this.peerAckWindow = message.payload.readUInt32BE(0);
+        return;
+      case MessageType.USER_CONTROL:
+        if (message.payload.readUInt16BE(0) === UserControlEvent.PING_REQUEST) {
+          this.send(userControlMessage(UserControlEvent.PING_RESPONSE, message.payload.readUInt32BE(2)));
+        }
+        return;
+    }
+
+    if (this.waiter?.match(message)) {
+      const { resolve } = this.waiter;
+      this.waiter = undefined;
+      resolve(message);
+    } else {
+      this.queue.push(message);
+    }
+  }
+
+  send(message: RtmpMessage, callback?: (error?: Error | null) => void): boolean {
+    return this.socket.write(encodeMessage(message, OUR_CHUNK_SIZE), callback);
+  }
+
+  /**
+   * Simple handshake: C0+C1 out, S0+S1+S2 back, then C2 echoing S1
+   */
+  async handshake(timeoutMs: number) {
+    this.socket.write(createHandshakePacket());
+
+    const expected = 1 + HANDSHAKE_SIZE * 2;
+    await withTimeout(new Promise<void>((resolve, reject) => {
+      const check = () => {
+        if (this.handshakeBuffer!.length >= expected) resolve();
+        else if (this.closedError) reject(this.closedError);
+      };
+      this.handshakeWaiter = check;
+      check();
+    }), timeoutMs, 'Timed out waiting for the RTMP handshake');
+
+    const response = this.handshakeBuffer!;
+    this.handshakeBuffer = null;
+    this.handshakeWaiter = undefined;
+
+    if (response[0] !== 3) {
+      throw new Error(`Server replied with RTMP version ${response[0]}`);
+    }
+    this.socket.write(response.subarray(1, 1 + HANDSHAKE_SIZE));
+
+    // Anything the server sent straight after S2 is chunk data
+    const rest = response.subarray(expected);
+    if (rest.length) {
+      this.reader.push(rest).forEach(message => this.onMessage(message));
+    }
+  }
+
+  nextCommand(match: (command: RtmpCommand) => boolean, timeoutMs: number, timeoutMessage: string): Promise<RtmpCommand> {
+    const matches = (message: RtmpMessage) => {
+      if (message.typeId !== MessageType.COMMAND_AMF0) return false;
+      try {
+        return match(decodeCommand(message.payload));
+      } catch {
+        return false;
+      }
+    };
+
+    const queued = this.queue.findIndex(matches);
+    if (queued >= 0) {
+      return Promise.resolve(decodeCommand(this.queue.splice(queued, 1)[0].payload));
+    }
+    if (this.closedError) {
+      return Promise.reject(this.closedError);
+    }
+
+    const received = new Promise<RtmpMessage>((resolve, reject) => {
+      this.waiter = { match: matches, resolve, reject };
+    });
+    return withTimeout(received, timeoutMs, timeoutMessage).then(message => decodeCommand(message.payload));
+  }
+
+  close() {
+    this.socket.end();
+    setTimeout(() => this.socket.destroy(), 1000).unref();
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+    })
+  ]).finally(() => clearTimeout(timer));
+}
+
+const RESPONSE_COMMANDS = ['_result', '_error'];
+
+async function resolveHost(endpoint: RtmpEndpoint, timeoutMs: number): Promise<string> {
+  if (net.isIP(endpoint.host)) return endpoint.host;
+
+  try {
+    const { address } = await withTimeout(dns.promises.lookup(endpoint.host), timeoutMs, 'DNS lookup timed out');
+    return address;
+  } catch (error: any) {
+    throw new PreflightFailure('dns_failed', `Could not resolve ${endpoint.host}: ${error.code || error.message}`);
+  }
+}
+
+function openSocket(endpoint: RtmpEndpoint, address: string, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = endpoint.protocol === 'rtmps'
+      ? tls.connect({ host: address, port: endpoint.port, servername: net.isIP(endpoint.host) ? undefined : endpoint.host })
+      : net.connect({ host: address, port: endpoint.port });
+    let tcpConnected = false;
+
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(tcpConnected
+        ? new PreflightFailure('handshake_failed', 'TLS handshake timed out')
+        : new PreflightFailure('tcp_refused', `Connection to ${endpoint.host}:${endpoint.port} timed out`));
+    }, timeoutMs);
+
+    socket.once('connect', () => {
+      tcpConnected = true;
+      if (endpoint.protocol === 'rtmp') {
+        clearTimeout(timer);
+        resolve(socket);
+      }
+    });
+    socket.once('secureConnect', () => {
+      clearTimeout(timer);
+      resolve(socket);
+    });
+    socket.once('error', (error: any) => {
+      clearTimeout(timer);
+      socket.destroy();
+      reject(tcpConnected
+        ? new PreflightFailure('handshake_failed', `TLS handshake failed: ${error.message}`)
+        : new PreflightFailure('tcp_refused', `Could not connect to ${endpoint.host}:${endpoint.port}: ${error.code || error.message}`));
+    });
+  });
+}
+
+/**
+ * Push filler video messages for a fixed time and measure how fast the
+ * ingest takes them. Filler is a video info frame (frame type 5) which
+ * decoders skip.
+ */
+async function measureUpload(
+  connection: RtmpClientConnection,
+  streamId: number,
+  durationMs: number,
+  maxBytes: number
+): Promise<UploadBandwidth> {
+  const filler = Buffer.alloc(FILLER_MESSAGE_BYTES);
+  filler[0] = 0x57; // frame type 5, codec 7 (AVC)
+  filler[1] = 0x01;
+
+  const startBytes = connection.bytesWritten;
+  const startedAt = Date.now();
+  const acksBefore = connection.acks.length;
+  let flushed = 0;
+  let timestamp = 0;
+
+  while (Date.now() - startedAt < durationMs && flushed < maxBytes) {
+    await new Promise<void>((resolve, reject) => {
+      connection.send(
+        { chunkStreamId: MEDIA_CHUNK_STREAM, typeId: MessageType.VIDEO, streamId, timestamp: timestamp += 33, payload: filler },
+        error => error ? reject(error) : resolve()
+      );
+    });
+    flushed += FILLER_MESSAGE_BYTES;
+  }
+  const flushedAt = Date.now();
+
+  // Give the ingest a moment to acknowledge what it has received
+  await new Promise(resolve => setTimeout(resolve, ACK_GRACE_MS));
+
+  const acks = connection.acks.slice(acksBefore).filter(ack => ack.bytes > startBytes);
+  const lastAck = acks[acks.length - 1];
+  // Acks only tell us something once they cover most of the test
+  if (lastAck && lastAck.at - startedAt >= (flushedAt - startedAt) / 2) {
+    const bytesSent = lastAck.bytes - startBytes;
+    const elapsed = lastAck.at - startedAt;
+    return { uploadKbps: Math.round(bytesSent * 8 / elapsed), bytesSent, durationMs: elapsed, method: 'acknowledged' };
+  }
+
+  const elapsed = Math.max(1, flushedAt - startedAt);
+  return { uploadKbps: Math.round(flushed * 8 / elapsed), bytesSent: flushed, durationMs: elapsed, method: 'flushed' };
+}
+
+/**
+ * Probe an RTMP(S) ingest with a stream key as stored in rtmp_sources
+ * (encrypted; decrypted here only for the publish command). Never throws for
+ * network or server failures - those come back as a classified result - but
+ * does throw RtmpProtocolError when the URL itself is unusable.
+ */
+export async function runRtmpPreflight(
+  rtmpUrl: string,
+  storedStreamKey: string,
+  options: PreflightOptions = {}
+): Promise<RtmpPreflightResult> {
+  const endpoint = parseRtmpUrl(rtmpUrl);
+  const streamKey = decryptStreamKey(storedStreamKey);
+  // Each step gets its own timeout, cut short when the deadline is closer
+  const deadline = Date.now() + (options.deadlineMs ?? Infinity);
+  const stepTimeout = () => Math.max(1, Math.min(options.timeoutMs ?? DEFAULT_TIMEOUT_MS, deadline - Date.now()));
+
+  const result: RtmpPreflightResult = {
+    status: 'ok',
+    ok: true,
+    message: '',
+    host: endpoint.host,
+    port: endpoint.port,
+    app: endpoint.app,
+    secure: endpoint.protocol === 'rtmps',
+    timings: {},
+  };
+
+  let connection: RtmpClientConnection | undefined;
+  let step = Date.now();
+  const lap = () => {
+    const now = Date.now();
+    const elapsed = now - step;
+    step = now;
+    return elapsed;
+  };
+
+  try {
+    result.address = await resolveHost(endpoint, stepTimeout());
+    result.timings.dnsMs = lap();
+
+    const socket = await openSocket(endpoint, result.address, stepTimeout());
+    socket.setNoDelay(true);
+    connection = new RtmpClientConnection(socket);
+    result.timings.connectMs = lap();
+
+    try {
+      await connection.handshake(stepTimeout());
+      connection.send(setChunkSizeMessage(OUR_CHUNK_SIZE));
+      connection.send(windowAckSizeMessage(ACK_WINDOW));
+      connection.send(commandMessage('connect', 1, {
+        app: endpoint.app,
+        type: 'nonprivate',
+        flashVer: 'FMLE/3.0 (compatible; VIDA3 preflight)',
+        tcUrl: endpoint.tcUrl,
+      }));
+    } catch (error: any) {
+      throw new PreflightFailure('handshake_failed', `RTMP handshake failed: ${error.message}`);
+    }
+
+    let connectReply: RtmpCommand;
+    try {
+      connectReply = await connection.nextCommand(
+        command => RESPONSE_COMMANDS.includes(command.name) && command.transactionId === 1,
+        stepTimeout(),
+        'Timed out waiting for the connect response'
+      );
+    } catch (error: any) {
+      throw new PreflightFailure('handshake_failed', `RTMP connect failed: ${error.message}`);
+    }
+    if (connectReply.name === '_error') {
+      const { code, description } = statusInfo(connectReply);
+      throw new PreflightFailure('auth_rejected', `Server rejected application "${endpoint.app}": ${description || code || 'no reason given'}`, code);
+    }
+    result.timings.handshakeMs = lap();
+
+    let streamId: number;
+    try {
+      connection.send(commandMessage('releaseStream', 2, null, [streamKey]));
+      connection.send(commandMessage('FCPublish', 3, null, [streamKey]));
+      connection.send(commandMessage('createStream', 4, null));
+      const created = await connection.nextCommand(
+        command => RESPONSE_COMMANDS.includes(command.name) && command.transactionId === 4,
+        stepTimeout(),
+        'Timed out waiting for createStream'
+      );
+      if (created.name === '_error' || typeof created.args[0] !== 'number') {
+        throw new Error(statusInfo(created).description || 'createStream was refused');
+      }
+      streamId = created.args[0];
+    } catch (error: any) {
+      throw new PreflightFailure('handshake_failed', `Could not create a stream: ${error.message}`);
+    }
+
+    let publishReply: RtmpCommand;
+    try {
+      connection.send(commandMessage('publish', 5, null, [streamKey, 'live'], streamId));
+      publishReply = await connection.nextCommand(
+        command => command.name === 'onStatus' && (statusInfo(command).code ?? '').startsWith('NetStream.Publish.'),
+        stepTimeout(),
+        'No response to publish'
+      );
+    } catch (error: any) {
+      // Several ingests (Twitch, X) drop the connection instead of answering a bad key
+      throw new PreflightFailure('auth_rejected', `Stream key was not accepted: ${error.message}`);
+    }
+
+    const { code, description } = statusInfo(publishReply);
+    result.serverCode = code;
+    if (code !== 'NetStream.Publish.Start') {
+      throw new PreflightFailure('auth_rejected', `Stream key was rejected: ${description || code}`, code);
+    }
+    result.timings.publishMs = lap();
+    result.message = `Ingest accepted the stream key (${endpoint.host})`;
+
+    const bandwidthDurationMs = Math.min(options.bandwidthDurationMs ?? 3000, deadline - Date.now() - ACK_GRACE_MS);
+    if (options.measureBandwidth && bandwidthDurationMs > 0) {
+      try {
+        result.bandwidth = await measureUpload(
+          connection,
+          streamId,
+          bandwidthDurationMs,
+          options.bandwidthMaxBytes ?? 8 * 1024 * 1024
+        );
+      } catch (error: any) {
+        console.warn(`⚠️ Upload measurement to ${endpoint.host} interrupted: ${error.message}`);
+      }
+    }
+
+    connection.send(commandMessage('FCUnpublish', 6, null, [streamKey]));
+    connection.send(commandMessage('deleteStream', 7, null, [streamId]));
+  } catch (error: any) {
+    if (!(error instanceof PreflightFailure)) throw error;
+    result.status = error.status;
+    result.ok = false;
+    result.message = error.message;
+    result.serverCode ??= error.serverCode;
+  } finally {
+    connection?.close();
+  }
+
+  console.log(`🔍 RTMP preflight ${endpoint.host}:${endpoint.port}/${endpoint.app}: ${result.status}${result.bandwidth ? ` (${result.bandwidth.uploadKbps} kbps up)` : ''}`);
+  return result;
+}
+
+/**
+ * Video bitrate that leaves headroom on the measured uplink, within the plan's cap
+ */
+export function recommendBitrate(uploadKbps: number, userPlan: string): number {
+  const { maxStreamBitrate } = getSubscriptionTierConfig(userPlan);
+  const usable = Math.floor((uploadKbps * 0.75 - AUDIO_HEADROOM_KBPS) / 100) * 100;
+  return Math.max(500, Math.min(maxStreamBitrate, usable));
+}
+
+export { RtmpProtocolError };
@@ -0,0 +1,509 @@
+/**
+ * VIDA³ RTMP Protocol
+ * Just enough of RTMP for ingest preflight checks and the local stand-in
+ * server: handshake, chunk stream framing and AMF0 command encoding.
+ */
+
+import crypto from 'crypto';
+
+export const RTMP_VERSION = 3;
+export const HANDSHAKE_SIZE = 1536;
+export const DEFAULT_CHUNK_SIZE = 128;
+export const DEFAULT_PORTS = { rtmp: 1935, rtmps: 443 } as const;
+
+export const MessageType = {
+  SET_CHUNK_SIZE: 1,
+  ABORT: 2,
+  ACKNOWLEDGEMENT: 3,
+  USER_CONTROL: 4,
+  WINDOW_ACK_SIZE: 5,
+  SET_PEER_BANDWIDTH: 6,
+  AUDIO: 8,
+  VIDEO: 9,
+  DATA_AMF0: 18,
+  COMMAND_AMF0: 20,
+} as const;
+
+export const UserControlEvent = {
+  STREAM_BEGIN: 0,
+  PING_REQUEST: 6,
+  PING_RESPONSE: 7,
+} as const;
+
+export class RtmpProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RtmpProtocolError';
+  }
+}
+
+export interface RtmpMessage {
+  chunkStreamId: number;
+  typeId: number;
+  streamId: number;
+  timestamp: number;
+  payload: Buffer;
+}
+
+export interface RtmpEndpoint {
+  protocol: 'rtmp' | 'rtmps';
+  host: string;
+  port: number;
+  app: string;
+  tcUrl: string;
+}
+
+/**
+ * Split an ingest URL such as rtmp://live.twitch.tv/app into the parts the
+ * connect command needs. The stream key is passed separately.
+ */
+export function parseRtmpUrl(rtmpUrl: string): RtmpEndpoint {
+  let url: URL;
+  try {
+    url = new URL(rtmpUrl.trim());
+  } catch {
+    throw new RtmpProtocolError(`Invalid RTMP URL: ${rtmpUrl}`);
+  }
+
+  const protocol = url.protocol.replace(/:$/, '');
+  if (protocol !== 'rtmp' && protocol !== 'rtmps') {
+    throw new RtmpProtocolError(`Unsupported protocol "${protocol}", expected rtmp or rtmps`);
+  }
+
+  const app = decodeURIComponent(url.pathname.replace(/^\/+|\/+$/g, '')) + url.search;
+  if (!url.hostname || !app) {
+    throw new RtmpProtocolError(`RTMP URL must include a host and application path: ${rtmpUrl}`);
+  }
+
+  return {
+    protocol,
+    host: url.hostname.replace(/^\[|\]$/g, ''),
+    port: url.port ? parseInt(url.port) : DEFAULT_PORTS[protocol],
+    app,
+    tcUrl: rtmpUrl.trim().replace(/\/+$/, ''),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Handshake
+// ---------------------------------------------------------------------------
+
+/**
+ * C0 + C1 (or S0 + S1) of the simple handshake: version byte, then 4 bytes
+ * of time, 4 zero bytes and 1528 random bytes.
+ */
+export function createHandshakePacket(): Buffer {
+  const packet = Buffer.alloc(1 + HANDSHAKE_SIZE);
+  packet[0] = RTMP_VERSION;
+  packet.writeUInt32BE(Date.now() % 0x100000000 >>> 0, 1);
+  crypto.randomFillSync(packet, 9, HANDSHAKE_SIZE - 8);
+  return packet;
+}
+
+// ---------------------------------------------------------------------------
+// AMF0
+// ---------------------------------------------------------------------------
+
+export type AmfValue = number | boolean | string | null | undefined | AmfObject | AmfValue[];
+export interface AmfObject {
+  [key: string]: AmfValue;
+}
+
+const AMF0 = {
+  NUMBER: 0x00,
+  BOOLEAN: 0x01,
+  STRING: 0x02,
+  OBJECT: 0x03,
+  NULL: 0x05,
+  UNDEFINED: 0x06,
+  ECMA_ARRAY: 0x08,
+  OBJECT_END: 0x09,
+  STRICT_ARRAY: 0x0a,
+  DATE: 0x0b,
+  LONG_STRING: 0x0c,
+} as const;
+
+function encodeAmf0String(value: string, withMarker: boolean): Buffer {
+  const data = Buffer.from(value, 'utf8');
+  if (data.length > 0xffff) {
+    const header = Buffer.alloc(5);
+    header[0] = AMF0.LONG_STRING;
+    header.writeUInt32BE(data.length, 1);
+    return Buffer.concat([header, data]);
+  }
+
+  const header = Buffer.alloc(withMarker ? 3 : 2);
+  if (withMarker) header[0] = AMF0.STRING;
+  header.writeUInt16BE(data.length, withMarker ? 1 : 0);
+  return Buffer.concat([header, data]);
+}
+
+export function encodeAmf0(value: AmfValue): Buffer {
+  if (value === null) return Buffer.from([AMF0.NULL]);
+  if (value === undefined) return Buffer.from([AMF0.UNDEFINED]);
+
+  if (typeof value === 'number') {
+    const buf = Buffer.alloc(9);
+    buf[0] = AMF0.NUMBER;
+    buf.writeDoubleBE(value, 1);
+    return buf;
+  }
+  if (typeof value === 'boolean') return Buffer.from([AMF0.BOOLEAN, value ? 1 : 0]);
+  if (typeof value === 'string') return encodeAmf0String(value, true);
+
+  if (Array.isArray(value)) {
+    const header = Buffer.alloc(5);
+    header[0] = AMF0.STRICT_ARRAY;
+    header.writeUInt32BE(value.length, 1);
+    return Buffer.concat([header, ...value.map(encodeAmf0)]);
+  }
+
+  const parts: Buffer[] = [Buffer.from([AMF0.OBJECT])];
+  for (const [key, entry] of Object.entries(value)) {
+    parts.push(encodeAmf0String(key, false), encodeAmf0(entry));
+  }
+  parts.push(Buffer.from([0x00, 0x00, AMF0.OBJECT_END]));
+  return Buffer.concat(parts);
+}
+
+export function encodeAmf0Values(values: AmfValue[]): Buffer {
+  return Buffer.concat(values.map(encodeAmf0));
+}
+
+class Amf0Reader {
+  offset = 0;
+
+  constructor(private buf: Buffer) {}
+
+  get done(): boolean {
+    return this.offset >= this.buf.length;
+  }
+
+  private ensure(bytes: number) {
+    if (this.offset + bytes > this.buf.length) {
+      throw new RtmpProtocolError('Truncated AMF0 value');
+    }
+  }
+
+  private readKey(): string {
+    this.ensure(2);
+    const length = this.buf.readUInt16BE(this.offset);
+    this.ensure(2 + length);
+    const key = this.buf.toString('utf8', this.offset + 2, this.offset + 2 + length);
+    this.offset += 2 + length;
+    return key;
+  }
+
+  private readProperties(): AmfObject {
+    const object: AmfObject = {};
+    for (;;) {
+      const key = this.readKey();
+      this.ensure(1);
+      if (key === '' && this.buf[this.offset] === AMF0.OBJECT_END) {
+        this.offset++;
+        return object;
+      }
+      object[key] = this.read();
+    }
+  }
+
+  read(): AmfValue {
+    this.ensure(1);
+    const marker = this.buf[this.offset++];
+
+    switch (marker) {
+      case AMF0.NUMBER: {
+        this.ensure(8);
+        const value = this.buf.readDoubleBE(this.offset);
+        this.offset += 8;
+        return value;
+      }
+      case AMF0.BOOLEAN:
+        this.ensure(1);
+        return this.buf[this.offset++] !== 0;
+      case AMF0.STRING:
+        return this.readKey();
+      case AMF0.OBJECT:
+        return this.readProperties();
+      case AMF0.NULL:
+        return null;
+      case AMF0.UNDEFINED:
+        return undefined;
+      case AMF0.ECMA_ARRAY:
+        this.ensure(4);
+        this.offset += 4; // count is advisory, the object end marker terminates
+        return this.readProperties();
+      case AMF0.STRICT_ARRAY: {
+        this.ensure(4);
+        const count = this.buf.readUInt32BE(this.offset);
+        this.offset += 4;
+        return Array.from({ length: count }, () => this.read());
+      }
+      case AMF0.DATE: {
+        this.ensure(10);
+        const value = this.buf.readDoubleBE(this.offset);
+        this.offset += 10;
+        return value;
+      }
+      case AMF0.LONG_STRING: {
+        this.ensure(4);
+        const length = this.buf.readUInt32BE(this.offset);
+        this.ensure(4 + length);
+        const value = this.buf.toString('utf8', this.offset + 4, this.offset + 4 + length);
+        this.offset += 4 + length;
+        return value;
+      }
+      default:
+        throw new RtmpProtocolError(`Unsupported AMF0 marker 0x${marker.toString(16)}`);
+    }
+  }
+}
+
+export function decodeAmf0Values(payload: Buffer): AmfValue[] {
+  const reader = new Amf0Reader(payload);
+  const values: AmfValue[] = [];
+  while (!reader.done) {
+    values.push(reader.read());
+  }
+  return values;
+}
+
+export interface RtmpCommand {
+  name: string;
+  transactionId: number;
+  commandObject: AmfValue;
+  args: AmfValue[];
+}
+
+export function decodeCommand(payload: Buffer): RtmpCommand {
+  const [name, transactionId, commandObject, ...args] = decodeAmf0Values(payload);
+  if (typeof name !== 'string') {
+    throw new RtmpProtocolError('Command message without a name');
+  }
+  return { name, transactionId: typeof transactionId === 'number' ? transactionId : 0, commandObject, args };
+}
+
+// ---------------------------------------------------------------------------
+// Chunk stream
+// ---------------------------------------------------------------------------
+
+const EXTENDED_TIMESTAMP = 0xffffff;
+
+function basicHeader(fmt: number, chunkStreamId: number): Buffer {
+  if (chunkStreamId < 2 || chunkStreamId > 63) {
+    throw new RtmpProtocolError(`Chunk stream id ${chunkStreamId} out of range`);
+  }
+  return Buffer.from([(fmt << 6) | chunkStreamId]);
+}
+
+/**
+ * Frame one message as a type 0 chunk followed by type 3 continuation chunks
+ */
+export function encodeMessage(message: RtmpMessage, chunkSize: number): Buffer {
+  const extended = message.timestamp >= EXTENDED_TIMESTAMP;
+
+  const header = Buffer.alloc(11 + (extended ? 4 : 0));
+  header.writeUIntBE(extended ? EXTENDED_TIMESTAMP : message.timestamp, 0, 3);
+  header.writeUIntBE(message.payload.length, 3, 3);
+  header[6] = message.typeId;
+  header.writeUInt32LE(message.streamId, 7);
+  if (extended) header.writeUInt32BE(message.timestamp >>> 0, 11);
+
+  const parts: Buffer[] = [basicHeader(0, message.chunkStreamId), header];
+  for (let offset = 0; offset < message.payload.length; offset += chunkSize) {
+    if (offset > 0) {
+      parts.push(basicHeader(3, message.chunkStreamId));
+      if (extended) parts.push(header.subarray(11));
+    }
+    parts.push(message.payload.subarray(offset, offset + chunkSize));
+  }
+  return Buffer.concat(parts);
+}
+
+interface ChunkStreamState {
+  timestamp: number;
+  timestampDelta: number;
+  length: number;
+  typeId: number;
+  streamId: number;
+  extended: boolean;
+  chunks: Buffer[];
+  received: number;
+}
+
+/**
+ * Reassembles messages from incoming chunk data. Set Chunk Size messages from
+ * the peer are applied as soon as they are read.
+ */
+export class RtmpChunkReader {
+  chunkSize = DEFAULT_CHUNK_SIZE;
+  private buffer = Buffer.alloc(0);
+  private streams = new Map<number, ChunkStreamState>();
+
+  push(data: Buffer): RtmpMessage[] {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, data]) : data;
+    const messages: RtmpMessage[] = [];
+
+    let message: RtmpMessage | null | undefined;
+    while ((message = this.readChunk()) !== undefined) {
+      if (!message) continue;
+      if (message.typeId === MessageType.SET_CHUNK_SIZE && message.payload.length >= 4) {
+        this.chunkSize = message.payload.readUInt32BE(0) & 0x7fffffff;
+      }
+      messages.push(message);
+    }
+    return messages;
+  }
+
+  /**
+   * undefined when more data is needed, null for a chunk that didn't complete a message
+   */
+  private readChunk(): RtmpMessage | null | undefined {
+    const buf = this.buffer;
+    if (buf.length < 1) return undefined;
+
+    const fmt = buf[0] >> 6;
+    let chunkStreamId = buf[0] & 0x3f;
+    let offset = 1;
+    if (chunkStreamId === 0) {
+      if (buf.length < 2) return undefined;
+      chunkStreamId = 64 + buf[1];
+      offset = 2;
+    } else if (chunkStreamId === 1) {
+      if (buf.length < 3) return undefined;
+      chunkStreamId = 64 + buf[1] + buf[2] * 256;
+      offset = 3;
+    }
+
+    const headerLength = [11, 7, 3, 0][fmt];
+    if (buf.length < offset + headerLength) return undefined;
+
+    const previous = this.streams.get(chunkStreamId);
+    if (!previous && fmt !== 0) {
+      throw new RtmpProtocolError(`Chunk stream ${chunkStreamId} started without a full header`);
+    }
+    const state: ChunkStreamState = previous ?? {
+      timestamp: 0, timestampDelta: 0, length: 0, typeId: 0, streamId: 0, extended: false, chunks: [], received: 0
+    };
+
+    let timestampField = 0;
+    let { length, typeId, streamId, extended } = state;
+    if (fmt <= 2) {
+      timestampField = buf.readUIntBE(offset, 3);
+      extended = timestampField === EXTENDED_TIMESTAMP;
+    }
+    if (fmt <= 1) {
+      length = buf.readUIntBE(offset + 3, 3);
+      typeId = buf[offset + 6];
+    }
+    if (fmt === 0) {
+      streamId = buf.readUInt32LE(offset + 7);
+    }
+    offset += headerLength;
+
+    if (extended) {
+      if (buf.length < offset + 4) return undefined;
+      const value = buf.readUInt32BE(offset);
+      if (fmt <= 2) timestampField = value;
+      offset += 4;
+    }
+
+    const payloadLength = Math.min(this.chunkSize, length - state.received);
+    if (buf.length < offset + payloadLength) return undefined;
+
+    // Header fields only take effect once the whole chunk is available
+    const startsMessage = state.received === 0;
+    state.length = length;
+    state.typeId = typeId;
+    state.streamId = streamId;
+    state.extended = extended;
+    if (startsMessage) {
+      if (fmt === 0) {
+        state.timestamp = timestampField;
+        state.timestampDelta = 0;
+      } else if (fmt <= 2) {
+        state.timestampDelta = timestampField;
+        state.timestamp += timestampField;
+      } else {
+        state.timestamp += state.timestampDelta;
+      }
+    }
+
+    state.chunks.push(buf.subarray(offset, offset + payloadLength));
+    state.received += payloadLength;
+    this.streams.set(chunkStreamId, state);
+    this.buffer = buf.subarray(offset + payloadLength);
+
+    if (state.received < state.length) return null;
+
+    const payload = Buffer.concat(state.chunks);
+    state.chunks = [];
+    state.received = 0;
+    return { chunkStreamId, typeId: state.typeId, streamId: state.streamId, timestamp: state.timestamp, payload };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Message builders
+// ---------------------------------------------------------------------------
+
+// Chunk stream ids by convention: protocol control on 2, commands on 3, media on 4+
+export const CONTROL_CHUNK_STREAM = 2;
+export const COMMAND_CHUNK_STREAM = 3;
+export const MEDIA_CHUNK_STREAM = 6;
+
+function uint32Payload(value: number): Buffer {
+  const payload = Buffer.alloc(4);
+  payload.writeUInt32BE(value >>> 0, 0);
+  return payload;
+}
+
+export function controlMessage(typeId: number, payload: Buffer): RtmpMessage {
+  return { chunkStreamId: CONTROL_CHUNK_STREAM, typeId, streamId: 0, timestamp: 0, payload };
+}
+
+export function setChunkSizeMessage(size: number): RtmpMessage {
+  return controlMessage(MessageType.SET_CHUNK_SIZE, uint32Payload(size));
+}
+
+export function windowAckSizeMessage(size: number): RtmpMessage {
+  return controlMessage(MessageType.WINDOW_ACK_SIZE, uint32Payload(size));
+}
+
+export function acknowledgementMessage(sequenceNumber: number): RtmpMessage {
+  return controlMessage(MessageType.ACKNOWLEDGEMENT, uint32Payload(sequenceNumber));
+}
+
+export function setPeerBandwidthMessage(size: number): RtmpMessage {
+  return controlMessage(MessageType.SET_PEER_BANDWIDTH, Buffer.concat([uint32Payload(size), Buffer.from([2])]));
+}
+
+export function userControlMessage(event: number, value: number): RtmpMessage {
+  const payload = Buffer.alloc(6);
+  payload.writeUInt16BE(event, 0);
+  payload.writeUInt32BE(value >>> 0, 2);
+  return controlMessage(MessageType.USER_CONTROL, payload);
+}
+
+export function commandMessage(name: string, transactionId: number, commandObject: AmfValue, args: AmfValue[] = [], streamId = 0): RtmpMessage {
+  return {
+    chunkStreamId: COMMAND_CHUNK_STREAM,
+    typeId: MessageType.COMMAND_AMF0,
+    streamId,
+    timestamp: 0,
+    payload: encodeAmf0Values([name, transactionId, commandObject, ...args]),
+  };
+}
+
+/**
+ * Status code and description from an onStatus / _error info object
+ */
+export function statusInfo(command: RtmpCommand): { code?: string; description?: string } {
+  const info = [...command.args, command.commandObject].find(
+    (value): value is AmfObject => !!value && typeof value === 'object' && !Array.isArray(value) && 'code' in value
+  );
+  return {
+    code: typeof info?.code === 'string' ? info.code : undefined,
+    description: typeof info?.description === 'string' ? info.description : undefined,
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * VIDA³ RTMP Stand-in
+ * Minimal local RTMP ingest for exercising the preflight check and the
+ * encoder path without a real platform. Accepts publishes for a configured
+ * set of stream keys, answers everything else like a real ingest would and
+ * discards the media it receives.
+ */
+
+import { EventEmitter } from 'events';
+import net from 'net';
+import {
+  acknowledgementMessage,
+  commandMessage,
+  decodeCommand,
+  encodeMessage,
+  createHandshakePacket,
+  HANDSHAKE_SIZE,
+  MessageType,
+  RtmpChunkReader,
+  setChunkSizeMessage,
+  setPeerBandwidthMessage,
+  UserControlEvent,
+  userControlMessage,
+  windowAckSizeMessage,
+  type RtmpMessage,
+} from './rtmp-protocol';
+
+export interface RtmpStandInOptions {
+  port?: number;                 // 0 picks a free port
+  host?: string;
+  app?: string;                  // only this application is accepted when set
+  streamKeys?: string[];         // accepted keys; empty accepts any key
+  rejectBy?: 'status' | 'close'; // how a bad key is refused
+}
+
+const SERVER_CHUNK_SIZE = 4096;
+
+export class RtmpStandIn extends EventEmitter {
+  private server: net.Server;
+  private sockets = new Set<net.Socket>();
+
+  constructor(private options: RtmpStandInOptions = {}) {
+    super();
+    this.server = net.createServer(socket => this.handleConnection(socket));
+  }
+
+  listen(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? 1935, this.options.host ?? '127.0.0.1', () => {
+        const { port } = this.server.address() as net.AddressInfo;
+        console.log(`📡 RTMP stand-in listening on rtmp://${this.options.host ?? '127.0.0.1'}:${port}/${this.options.app ?? 'live'}`);
+        resolve(port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private handleConnection(socket: net.Socket) {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => {});
+
+    const reader = new RtmpChunkReader();
+    const send = (message: RtmpMessage) => socket.write(encodeMessage(message, SERVER_CHUNK_SIZE));
+    let handshake: Buffer | null = Buffer.alloc(0);
+    let handshakeAnswered = false;
+    let bytesReceived = 0;
+    let lastAck = 0;
+    let ackWindow = 0;
+    let mediaBytes = 0;
+    let publishing: string | null = null;
+
+    const onMessage = (message: RtmpMessage) => {
+      switch (message.typeId) {
+        case MessageType.WINDOW_ACK_SIZE:
+          ackWindow = message.payload.readUInt32BE(0);
+          return;
+        case MessageType.AUDIO:
+        case MessageType.VIDEO:
+          mediaBytes += message.payload.length;
+          return;
+        case MessageType.COMMAND_AMF0:
+          break;
+        default:
+          return;
+      }
+
+      const command = decodeCommand(message.payload);
+      switch (command.name) {
+        case 'connect': {
+          const app = (command.commandObject as any)?.app;
+          if (this.options.app && app !== this.options.app) {
+            send(commandMessage('_error', command.transactionId, null, [{
+              level: 'error', code: 'NetConnection.Connect.Rejected', description: `Unknown application "${app}"`
+            }]));
+            socket.end();
+            return;
+          }
+          send(windowAckSizeMessage(2500000));
+          send(setPeerBandwidthMessage(2500000));
+          send(setChunkSizeMessage(SERVER_CHUNK_SIZE));
+          send(commandMessage('_result', command.transactionId, { fmsVer: 'FMS/3,0,1,123', capabilities: 31 }, [{
+            level: 'status', code: 'NetConnection.Connect.Success', description: 'Connection succeeded.', objectEncoding: 0
+          }]));
+          return;
+        }
+        case 'createStream':
+          send(commandMessage('_result', command.transactionId, null, [1]));
+          return;
+        case 'publish': {
+          const key = String(command.args[0] ?? '');
+          const keys = this.options.streamKeys ?? [];
+          if (keys.length > 0 && !keys.includes(key)) {
+            this.emit('rejected', key);
+            if (this.options.rejectBy === 'close') {
+              socket.destroy();
+              return;
+            }
+            send(commandMessage('onStatus', 0, null, [{
+              level: 'error', code: 'NetStream.Publish.BadName', description: 'Invalid stream key'
+            }], message.streamId));
+            socket.end();
+            return;
+          }
+          publishing = key;
+          send(userControlMessage(UserControlEvent.STREAM_BEGIN, message.streamId));
+          send(commandMessage('onStatus', 0, null, [{
+            level: 'status', code: 'NetStream.Publish.Start', description: `${key} is now published.`
+          }], message.streamId));
+          this.emit('publish', key);
+          return;
+        }
+        case 'deleteStream':
+        case 'FCUnpublish':
+          if (publishing !== null) {
+            this.emit('unpublish', publishing, mediaBytes);
+            publishing = null;
+          }
+          return;
+        default:
+          // releaseStream, FCPublish and friends need no answer
+          return;
+      }
+    };
+
+    socket.on('data', (data: Buffer) => {
+      bytesReceived += data.length;
+
+      if (handshake) {
+        handshake = Buffer.concat([handshake, data]);
+        // C0 + C1 -> S0 + S1 + S2 (S2 echoes C1)
+        if (handshake.length >= 1 + HANDSHAKE_SIZE && !handshakeAnswered) {
+          handshakeAnswered = true;
+          socket.write(Buffer.concat([createHandshakePacket(), handshake.subarray(1, 1 + HANDSHAKE_SIZE)]));
+        }
+        // ... then wait for C2
+        if (handshake.length < 1 + HANDSHAKE_SIZE * 2) return;
+        data = handshake.subarray(1 + HANDSHAKE_SIZE * 2);
+        handshake = null;
+        if (!data.length) return;
+      }
+
+      try {
+        reader.push(data).forEach(onMessage);
+      } catch (error: any) {
+        console.warn(`⚠️ RTMP stand-in dropped a client: ${error.message}`);
+        socket.destroy();
+        return;
+      }
+
+      if (ackWindow && bytesReceived - lastAck >= ackWindow) {
+        lastAck = bytesReceived;
+        send(acknowledgementMessage(bytesReceived));
+      }
+    });
+
+    socket.on('close', () => {
+      if (publishing !== null) this.emit('unpublish', publishing, mediaBytes);
+    });
+  }
+}
+
+export default RtmpStandIn;
@@ -0,0 +1,372 @@
+/**
+ * VIDA³ Skin Weights
+ * Deterministic per-vertex joint influences computed from the mesh itself.
+ *
+ * Each joint owns the bone segments running to its children (a leaf joint
+ * owns just its own position). Two methods are available:
+ * - bone-distance: inverse distance to each joint's segments, smoothed over
+ *   the mesh's edge graph
+ * - heat-diffusion: the bone-distance result refined by solving the
+ *   Pinocchio-style heat equation (-L + H)w = Hp over the same graph, where
+ *   p marks each vertex's nearest bone and H = 1/d² pulls toward it
+ *
+ * Vertices sharing a position (UV and normal seams, split primitives) are
+ * welded first so both sides of a seam always get identical weights.
+ */
+
+import type { SubscriptionTierConfig } from './subscription-rigging-tiers';
+import {
+  MAX_INFLUENCES,
+  totalVertexCount,
+  type PrimitiveGeometry,
+  type RigJoint,
+  type SkinInfluences
+} from './gltf-skinning';
+
+export interface SkinWeightQuality {
+  method: 'bone-distance' | 'heat-diffusion';
+  maxInfluences: number;       // 1-4 joints kept per vertex
+  smoothingIterations: number; // Laplacian passes over the edge graph
+  diffusionIterations: number; // Gauss-Seidel sweeps of the heat solve
+  minWeight: number;           // influences below this are dropped before renormalizing
+}
+
+// Inverse distance exponent; high enough that a vertex mid-way along a bone
+// isn't pulled toward the next joint over
+const DISTANCE_FALLOFF = 4;
+
+/**
+ * Map a subscription tier onto weighting quality. Higher tracking precision
+ * buys more influences per vertex and the heat-diffusion solve; smoother
+ * animation tiers get more smoothing passes.
+ */
+export function getSkinWeightQuality(tierConfig: SubscriptionTierConfig): SkinWeightQuality {
+  const precision = tierConfig.trackingPrecision;
+
+  return {
+    method: precision >= 0.75 ? 'heat-diffusion' : 'bone-distance',
+    maxInfluences: precision >= 0.6 ? 4 : precision >= 0.4 ? 3 : 2,
+    smoothingIterations: Math.round(tierConfig.animationSmoothness * 10),
+    diffusionIterations: Math.round(10 + 20 * precision),
+    minWeight: 0.01
+  };
+}
+
+/**
+ * Compute normalized top-N influences for every vertex of the geometries,
+ * in the global vertex order used by writeSkinWeights
+ */
+export function computeSkinWeights(
+  geometries: PrimitiveGeometry[],
+  joints: RigJoint[],
+  quality: SkinWeightQuality
+): SkinInfluences {
+  if (joints.length === 0) {
+    throw new Error('Skin weights need at least one joint');
+  }
+
+  const vertexCount = totalVertexCount(geometries);
+  const mesh = weldGeometry(geometries);
+  const jointCount = joints.length;
+
+  // Dense per (welded vertex, joint) distance to that joint's bone segments
+  const segments = buildBoneSegments(joints);
+  const distances = new Float32Array(mesh.count * jointCount);
+  for (let v = 0; v < mesh.count; v++) {
+    const x = mesh.positions[v * 3];
+    const y = mesh.positions[v * 3 + 1];
+    const z = mesh.positions[v * 3 + 2];
+    for (let j = 0; j < jointCount; j++) {
+      distances[v * jointCount + j] = distanceToSegments(x, y, z, segments[j]);
+    }
+  }
+
+  const weights = boneDistanceWeights(distances, mesh.count, jointCount);
+  smooth(weights, mesh, jointCount, quality.smoothingIterations);
+  if (quality.method === 'heat-diffusion') {
+    diffuseHeat(weights, distances, mesh, jointCount, quality.diffusionIterations);
+  }
+
+  // Keep the strongest influences per welded vertex, then copy out to every
+  // original vertex that was welded into it
+  const maxInfluences = Math.max(1, Math.min(MAX_INFLUENCES, quality.maxInfluences));
+  const influences: SkinInfluences = {
+    joints: new Uint16Array(vertexCount * MAX_INFLUENCES),
+    weights: new Float32Array(vertexCount * MAX_INFLUENCES)
+  };
+  const selectedJoints = new Uint16Array(mesh.count * MAX_INFLUENCES);
+  const selectedWeights = new Float32Array(mesh.count * MAX_INFLUENCES);
+
+  for (let v = 0; v < mesh.count; v++) {
+    selectInfluences(weights, v * jointCount, jointCount, maxInfluences, quality.minWeight,
+      selectedJoints, selectedWeights, v * MAX_INFLUENCES);
+  }
+
+  for (let v = 0; v < vertexCount; v++) {
+    const source = mesh.welded[v] * MAX_INFLUENCES;
+    for (let i = 0; i < MAX_INFLUENCES; i++) {
+      influences.joints[v * MAX_INFLUENCES + i] = selectedJoints[source + i];
+      influences.weights[v * MAX_INFLUENCES + i] = selectedWeights[source + i];
+    }
+  }
+
+  return influences;
+}
+
+interface WeldedMesh {
+  count: number;
+  positions: Float32Array;
+  welded: Uint32Array;     // original global vertex -> welded vertex
+  neighborStart: Uint32Array;
+  neighbors: Uint32Array;  // CSR adjacency over welded vertices
+  meanEdgeLength: number;
+}
+
+function weldGeometry(geometries: PrimitiveGeometry[]): WeldedMesh {
+  const vertexCount = totalVertexCount(geometries);
+
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+  for (const geometry of geometries) {
+    for (let i = 0; i < geometry.vertexCount; i++) {
+      const x = geometry.positions[i * 3], y = geometry.positions[i * 3 + 1], z = geometry.positions[i * 3 + 2];
+      minX = Math.min(minX, x); minY = Math.min(minY, y); minZ = Math.min(minZ, z);
+      maxX = Math.max(maxX, x); maxY = Math.max(maxY, y); maxZ = Math.max(maxZ, z);
+    }
+  }
+  const tolerance = Math.max(Math.hypot(maxX - minX, maxY - minY, maxZ - minZ) * 1e-5, 1e-9);
+
+  const welded = new Uint32Array(vertexCount);
+  const keys = new Map<string, number>();
+  const weldedPositions: number[] = [];
+
+  for (const geometry of geometries) {
+    for (let i = 0; i < geometry.vertexCount; i++) {
+      const x = geometry.positions[i * 3], y = geometry.positions[i * 3 + 1], z = geometry.positions[i * 3 + 2];
+      const key = `${Math.round(x / tolerance)},${Math.round(y / tolerance)},${Math.round(z / tolerance)}`;
+      let index = keys.get(key);
+      if (index === undefined) {
+        index = weldedPositions.length / 3;
+        keys.set(key, index);
+        weldedPositions.push(x, y, z);
+      }
+      welded[geometry.vertexOffset + i] = index;
+    }
+  }
+
+  const count = weldedPositions.length / 3;
+  const positions = Float32Array.from(weldedPositions);
+
+  // Triangle edges in both directions, then packed into CSR form
+  const edgesFrom: number[] = [];
+  const edgesTo: number[] = [];
+  let edgeLengthSum = 0;
+  const addEdge = (a: number, b: number) => {
+    if (a === b) return;
+    edgesFrom.push(a, b);
+    edgesTo.push(b, a);
+    edgeLengthSum += Math.hypot(
+      positions[a * 3] - positions[b * 3],
+      positions[a * 3 + 1] - positions[b * 3 + 1],
+      positions[a * 3 + 2] - positions[b * 3 + 2]
+    );
+  };
+
+  for (const geometry of geometries) {
+    const triangleCount = Math.floor((geometry.indices?.length ?? geometry.vertexCount) / 3);
+    for (let t = 0; t < triangleCount; t++) {
+      const corner = (k: number) => welded[geometry.vertexOffset + (geometry.indices ? geometry.indices[t * 3 + k] : t * 3 + k)];
+      const a = corner(0), b = corner(1), c = corner(2);
+      addEdge(a, b);
+      addEdge(b, c);
+      addEdge(c, a);
+    }
+  }
+
+  const neighborStart = new Uint32Array(count + 1);
+  for (const from of edgesFrom) neighborStart[from + 1]++;
+  for (let v = 0; v < count; v++) neighborStart[v + 1] += neighborStart[v];
+
+  const fill = neighborStart.slice(0, count);
+  const packed = new Uint32Array(edgesFrom.length);
+  for (let e = 0; e < edgesFrom.length; e++) {
+    packed[fill[edgesFrom[e]]++] = edgesTo[e];
+  }
+
+  // Interior edges are shared by two triangles - keep each neighbor once
+  const uniqueStart = new Uint32Array(count + 1);
+  const neighbors: number[] = [];
+  for (let v = 0; v < count; v++) {
+    const list = Array.from(new Set(packed.subarray(neighborStart[v], neighborStart[v + 1])));
+    neighbors.push(...list);
+    uniqueStart[v + 1] = neighbors.length;
+  }
+
+  return {
+    count,
+    positions,
+    welded,
+    neighborStart: uniqueStart,
+    neighbors: Uint32Array.from(neighbors),
+    meanEdgeLength: edgesFrom.length > 0 ? edgeLengthSum / (edgesFrom.length / 2) : tolerance
+  };
+}
+
+type Segment = [number, number, number, number, number, number];
+
+// A joint's bones run from it to each child; leaf joints are a single point
+function buildBoneSegments(joints: RigJoint[]): Segment[][] {
+  const segments: Segment[][] = joints.map(() => []);
+
+  joints.forEach(joint => {
+    if (joint.parent === null) return;
+    const parent = joints[joint.parent];
+    segments[joint.parent].push([...parent.position, ...joint.position]);
+  });
+
+  joints.forEach((joint, index) => {
+    if (segments[index].length === 0) {
+      segments[index].push([...joint.position, ...joint.position]);
+    }
+  });
+
+  return segments;
+}
+
+function distanceToSegments(x: number, y: number, z: number, segments: Segment[]): number {
+  let best = Infinity;
+
+  for (const [ax, ay, az, bx, by, bz] of segments) {
+    const dx = bx - ax, dy = by - ay, dz = bz - az;
+    const lengthSq = dx * dx + dy * dy + dz * dz;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy + (z - az) * dz) / lengthSq)) : 0;
+    const px = ax + dx * t - x, py = ay + dy * t - y, pz = az + dz * t - z;
+    best = Math.min(best, Math.sqrt(px * px + py * py + pz * pz));
+  }
+
+  return best;
+}
+
+function boneDistanceWeights(distances: Float32Array, count: number, jointCount: number): Float32Array {
+  const weights = new Float32Array(count * jointCount);
+
+  for (let v = 0; v < count; v++) {
+    const row = v * jointCount;
+    let nearest = Infinity;
+    for (let j = 0; j < jointCount; j++) nearest = Math.min(nearest, distances[row + j]);
+
+    // Distances relative to the nearest bone keep the falloff scale-free
+    const scale = Math.max(nearest, 1e-6);
+    let sum = 0;
+    for (let j = 0; j < jointCount; j++) {
+      const weight = 1 / Math.pow(Math.max(distances[row + j], 1e-6) / scale, DISTANCE_FALLOFF);
+      weights[row + j] = weight;
+      sum += weight;
+    }
+    for (let j = 0; j < jointCount; j++) weights[row + j] /= sum;
+  }
+
+  return weights;
+}
+
+// Blend each vertex halfway toward the mean of its neighbors, in place
+function smooth(weights: Float32Array, mesh: WeldedMesh, jointCount: number, iterations: number) {
+  const average = new Float32Array(jointCount);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    for (let v = 0; v < mesh.count; v++) {
+      const start = mesh.neighborStart[v], end = mesh.neighborStart[v + 1];
+      if (start === end) continue;
+
+      average.fill(0);
+      for (let n = start; n < end; n++) {
+        const row = mesh.neighbors[n] * jointCount;
+        for (let j = 0; j < jointCount; j++) average[j] += weights[row + j];
+      }
+
+      const row = v * jointCount;
+      const degree = end - start;
+      for (let j = 0; j < jointCount; j++) {
+        weights[row + j] = 0.5 * weights[row + j] + 0.5 * average[j] / degree;
+      }
+    }
+  }
+}
+
+/**
+ * Gauss-Seidel sweeps of Σ(w_n - w_v) + H_v h² (p_v - w_v) = 0 per joint.
+ * The graph Laplacian is scaled by the mean edge length h so the 1/d² heat
+ * term stays in proportion regardless of model units.
+ */
+function diffuseHeat(weights: Float32Array, distances: Float32Array, mesh: WeldedMesh, jointCount: number, iterations: number) {
+  const heat = new Float32Array(mesh.count);
+  const nearestJoints: number[][] = [];
+  const edgeSq = mesh.meanEdgeLength * mesh.meanEdgeLength;
+
+  for (let v = 0; v < mesh.count; v++) {
+    const row = v * jointCount;
+    let nearest = Infinity;
+    for (let j = 0; j < jointCount; j++) nearest = Math.min(nearest, distances[row + j]);
+
+    const tied: number[] = [];
+    for (let j = 0; j < jointCount; j++) {
+      if (distances[row + j] <= nearest * 1.0001 + 1e-9) tied.push(j);
+    }
+    nearestJoints.push(tied);
+    heat[v] = edgeSq / Math.max(nearest * nearest, edgeSq * 1e-4);
+  }
+
+  const sum = new Float32Array(jointCount);
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    for (let v = 0; v < mesh.count; v++) {
+      const start = mesh.neighborStart[v], end = mesh.neighborStart[v + 1];
+      const degree = end - start;
+
+      sum.fill(0);
+      for (let n = start; n < end; n++) {
+        const row = mesh.neighbors[n] * jointCount;
+        for (let j = 0; j < jointCount; j++) sum[j] += weights[row + j];
+      }
+      const share = heat[v] / nearestJoints[v].length;
+      for (const j of nearestJoints[v]) sum[j] += share;
+
+      const row = v * jointCount;
+      const denominator = degree + heat[v];
+      for (let j = 0; j < jointCount; j++) weights[row + j] = sum[j] / denominator;
+    }
+  }
+}
+
+function selectInfluences(
+  weights: Float32Array,
+  row: number,
+  jointCount: number,
+  maxInfluences: number,
+  minWeight: number,
+  outJoints: Uint16Array,
+  outWeights: Float32Array,
+  outOffset: number
+) {
+  // Insertion into a small sorted list; ties keep the lower joint index
+  const chosen: number[] = [];
+  for (let j = 0; j < jointCount; j++) {
+    const weight = weights[row + j];
+    let position = chosen.length;
+    while (position > 0 && weights[row + chosen[position - 1]] < weight) position--;
+    if (position < maxInfluences) {
+      chosen.splice(position, 0, j);
+      if (chosen.length > maxInfluences) chosen.pop();
+    }
+  }
+
+  let total = 0;
+  for (const j of chosen) total += weights[row + j];
+  const kept = chosen.filter((j, i) => i === 0 || weights[row + j] / total >= minWeight);
+
+  total = 0;
+  for (const j of kept) total += weights[row + j];
+  kept.forEach((j, i) => {
+    outJoints[outOffset + i] = j;
+    outWeights[outOffset + i] = total > 0 ? weights[row + j] / total : (i === 0 ? 1 : 0);
+  });
+}
@@ -0,0 +1,285 @@
+/**
+ * VIDA³ Stream Audio Mixer
+ * Mixes studio audio tracks (microphone, music/SFX bus) into one continuous
+ * s16le PCM feed for FFmpeg, aligned to the video clock via capture timestamps
+ */
+
+import { EventEmitter } from 'events';
+import type { Writable } from 'stream';
+import {
+  AUDIO_CHANNELS,
+  AUDIO_SAMPLE_RATE,
+  MediaTrack,
+  type AudioLevelsMessage,
+  type AudioSourceLevel,
+} from '@shared/frame-protocol';
+
+type AudioTrack = MediaTrack.MICROPHONE | MediaTrack.MUSIC;
+
+interface AudioSource {
+  track: AudioTrack;
+  gain: number;
+  muted: boolean;
+  chunks: Int16Array[];
+  chunkOffset: number; // samples already consumed from chunks[0]
+  writePosition: number | null; // mixer frame where the next pushed sample lands
+  peak: number;
+  sumSquares: number;
+  meteredSamples: number;
+}
+
+export interface StreamAudioMixerOptions {
+  tickMs?: number;
+  meterIntervalMs?: number;
+  jitterMs?: number; // playout delay so late packets still land ahead of the read head
+  driftToleranceMs?: number;
+  maxQueueMs?: number;
+}
+
+const SOURCE_NAMES: Record<AudioTrack, 'microphone' | 'music'> = {
+  [MediaTrack.MICROPHONE]: 'microphone',
+  [MediaTrack.MUSIC]: 'music',
+};
+
+const SILENCE_DB = -96;
+
+export class StreamAudioMixer extends EventEmitter {
+  private sources: Map<AudioTrack, AudioSource> = new Map();
+  private readPosition = 0; // frames written to the output so far
+  private startTime = 0;
+  private anchorTimestamp: number | null = null; // client capture clock (ms)
+  private anchorPosition = 0; // mixer frame that anchorTimestamp maps to
+  private mixTimer: NodeJS.Timeout | null = null;
+  private meterTimer: NodeJS.Timeout | null = null;
+  private masterPeak = 0;
+  private masterSumSquares = 0;
+  private masterSamples = 0;
+  private options: Required<StreamAudioMixerOptions>;
+
+  constructor(private output: Writable, options: StreamAudioMixerOptions = {}) {
+    super();
+    this.options = {
+      tickMs: 10,
+      meterIntervalMs: 100,
+      jitterMs: 80,
+      driftToleranceMs: 40,
+      maxQueueMs: 1000,
+      ...options,
+    };
+
+    for (const track of [MediaTrack.MICROPHONE, MediaTrack.MUSIC] as AudioTrack[]) {
+      this.sources.set(track, {
+        track,
+        gain: 1,
+        muted: false,
+        chunks: [],
+        chunkOffset: 0,
+        writePosition: null,
+        peak: 0,
+        sumSquares: 0,
+        meteredSamples: 0,
+      });
+    }
+  }
+
+  /**
+   * Start producing audio in real time. Silence is emitted until a source
+   * delivers samples, so FFmpeg always has a continuous audio input.
+   */
+  start() {
+    if (this.mixTimer) return;
+
+    this.startTime = Date.now();
+    this.mixTimer = setInterval(() => this.mix(), this.options.tickMs);
+    this.meterTimer = setInterval(() => this.emitLevels(), this.options.meterIntervalMs);
+  }
+
+  stop() {
+    if (this.mixTimer) clearInterval(this.mixTimer);
+    if (this.meterTimer) clearInterval(this.meterTimer);
+    this.mixTimer = null;
+    this.meterTimer = null;
+    this.sources.forEach(source => {
+      source.chunks = [];
+      source.chunkOffset = 0;
+      source.writePosition = null;
+    });
+  }
+
+  /**
+   * Tie the client capture clock to the mixer clock. Called with the timestamp
+   * of the first video frame (or first audio chunk, whichever arrives first)
+   * so every track is placed relative to the same origin.
+   */
+  anchorClock(timestamp: number) {
+    if (this.anchorTimestamp !== null) return;
+
+    this.anchorTimestamp = timestamp;
+    this.anchorPosition = this.readPosition + this.msToFrames(this.options.jitterMs);
+  }
+
+  updateSource(track: AudioTrack, update: { gain?: number; muted?: boolean }) {
+    const source = this.sources.get(track);
+    if (!source) return;
+
+    if (typeof update.gain === 'number' && Number.isFinite(update.gain)) {
+      source.gain = Math.max(0, Math.min(4, update.gain));
+    }
+    if (typeof update.muted === 'boolean') {
+      source.muted = update.muted;
+    }
+  }
+
+  /**
+   * Queue interleaved stereo samples captured at `timestamp` (client clock, ms).
+   * Gaps larger than the drift tolerance are filled with silence; samples that
+   * arrive too late for their slot are trimmed.
+   */
+  pushSamples(track: AudioTrack, timestamp: number, samples: Int16Array) {
+    const source = this.sources.get(track);
+    if (!source || samples.length === 0) return;
+
+    this.anchorClock(timestamp);
+
+    const expected = this.anchorPosition + this.msToFrames(timestamp - this.anchorTimestamp!);
+    if (source.writePosition === null || source.writePosition < this.readPosition) {
+      source.writePosition = this.readPosition;
+    }
+
+    const tolerance = this.msToFrames(this.options.driftToleranceMs);
+    const drift = expected - source.writePosition;
+    let pcm = samples;
+
+    if (drift > tolerance) {
+      // Packet loss or capture stall - keep the timeline by inserting silence
+      this.enqueue(source, new Int16Array(drift * AUDIO_CHANNELS));
+    } else if (drift < -tolerance) {
+      // Source is running ahead of its timestamps - drop the overlap
+      const dropFrames = Math.min(-drift, samples.length / AUDIO_CHANNELS);
+      pcm = samples.subarray(dropFrames * AUDIO_CHANNELS);
+      if (pcm.length === 0) return;
+    }
+
+    this.enqueue(source, pcm);
+
+    // Bound latency: discard the oldest audio when a source floods the queue
+    const maxQueued = this.msToFrames(this.options.maxQueueMs);
+    const queued = source.writePosition! - this.readPosition;
+    if (queued > maxQueued) {
+      this.pull(source, queued - maxQueued);
+      source.writePosition = this.readPosition + maxQueued;
+    }
+  }
+
+  private enqueue(source: AudioSource, pcm: Int16Array) {
+    source.chunks.push(pcm);
+    source.writePosition = (source.writePosition ?? this.readPosition) + pcm.length / AUDIO_CHANNELS;
+  }
+
+  /**
+   * Remove up to `frames` frames from the head of a source queue. Missing
+   * samples (underrun) are returned as silence.
+   */
+  private pull(source: AudioSource, frames: number): Int16Array {
+    const out = new Int16Array(frames * AUDIO_CHANNELS);
+    let filled = 0;
+
+    while (filled < out.length && source.chunks.length > 0) {
+      const chunk = source.chunks[0];
+      const available = chunk.length - source.chunkOffset;
+      const take = Math.min(available, out.length - filled);
+
+      out.set(chunk.subarray(source.chunkOffset, source.chunkOffset + take), filled);
+      filled += take;
+      source.chunkOffset += take;
+
+      if (source.chunkOffset >= chunk.length) {
+        source.chunks.shift();
+        source.chunkOffset = 0;
+      }
+    }
+
+    return out;
+  }
+
+  private mix() {
+    const target = this.msToFrames(Date.now() - this.startTime);
+    const frames = target - this.readPosition;
+    if (frames <= 0) return;
+
+    const mixed = new Float32Array(frames * AUDIO_CHANNELS);
+
+    this.sources.forEach(source => {
+      // Nothing queued for this slot yet (write head at or behind read head)
+      const queuedFrames = (source.writePosition ?? this.readPosition) - this.readPosition;
+      if (queuedFrames <= 0 && source.chunks.length === 0) return;
+
+      const pcm = this.pull(source, frames);
+      const gain = source.muted ? 0 : source.gain;
+
+      for (let i = 0; i < pcm.length; i++) {
+        const value = pcm[i] * gain;
+        mixed[i] += value;
+
+        const abs = Math.abs(value);
+        if (abs > source.peak) source.peak = abs;
+        source.sumSquares += value * value;
+      }
+      source.meteredSamples += pcm.length;
+
+      if (source.writePosition !== null && source.writePosition < this.readPosition + frames) {
+        source.writePosition = this.readPosition + frames;
+      }
+    });
+
+    const buffer = Buffer.alloc(mixed.length * 2);
+    for (let i = 0; i < mixed.length; i++) {
+      const sample = Math.max(-32768, Math.min(32767, Math.round(mixed[i])));
+      buffer.writeInt16LE(sample, i * 2);
+
+      const abs = Math.abs(sample);
+      if (abs > this.masterPeak) this.masterPeak = abs;
+      this.masterSumSquares += sample * sample;
+    }
+    this.masterSamples += mixed.length;
+    this.readPosition = target;
+
+    if (!this.output.destroyed && this.output.writable) {
+      this.output.write(buffer);
+    }
+  }
+
+  private emitLevels() {
+    const sources: AudioLevelsMessage['sources'] = {};
+
+    this.sources.forEach(source => {
+      sources[SOURCE_NAMES[source.track]] = this.toLevel(source.peak, source.sumSquares, source.meteredSamples);
+      source.peak = 0;
+      source.sumSquares = 0;
+      source.meteredSamples = 0;
+    });
+
+    const master = this.toLevel(this.masterPeak, this.masterSumSquares, this.masterSamples);
+    this.masterPeak = 0;
+    this.masterSumSquares = 0;
+    this.masterSamples = 0;
+
+    this.emit('levels', { sources, master });
+  }
+
+  private toLevel(peak: number, sumSquares: number, samples: number): AudioSourceLevel {
+    const toDb = (value: number) => value > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(value / 32768)) : SILENCE_DB;
+    const rms = samples > 0 ? Math.sqrt(sumSquares / samples) : 0;
+
+    return {
+      peakDb: Math.round(toDb(peak) * 10) / 10,
+      rmsDb: Math.round(toDb(rms) * 10) / 10,
+    };
+  }
+
+  private msToFrames(ms: number): number {
+    return Math.round(ms * AUDIO_SAMPLE_RATE / 1000);
+  }
+}
+
+export default StreamAudioMixer;
@@ -0,0 +1,133 @@
+/**
+ * VIDA³ Stream Key Vault
+ * AES-256-GCM encryption of RTMP stream keys at rest. Keys are configured as
+ * a keyring so they can be rotated: new values are always encrypted with the
+ * first key, older keys stay readable until reencryptRtmpSourceKeys() has
+ * moved every row onto the current one.
+ *
+ *   STREAM_KEY_ENCRYPTION_KEYS="2024b:<base64 32 bytes>,2024a:<base64 32 bytes>"
+ *
+ * Stored format: enc:<keyId>:<iv>:<authTag>:<ciphertext> (base64url parts).
+ * Values without the prefix are legacy plaintext and are passed through.
+ */
+
+import crypto from 'crypto';
+import { registerSecret } from './log-scrubber';
+
+const PREFIX = 'enc';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+export const STREAM_KEY_MASK = '••••••••••••';
+
+export class StreamKeyVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StreamKeyVaultError';
+  }
+}
+
+interface Keyring {
+  currentId: string;
+  keys: Map<string, Buffer>;
+}
+
+let keyring: Keyring | undefined;
+
+function toKey(material: string): Buffer {
+  const decoded = Buffer.from(material, 'base64');
+  // Anything that isn't exactly 32 bytes of base64 is treated as a passphrase
+  return decoded.length === 32 ? decoded : crypto.createHash('sha256').update(material).digest();
+}
+
+function loadKeyring(): Keyring {
+  if (keyring) return keyring;
+
+  const entries = (process.env.STREAM_KEY_ENCRYPTION_KEYS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0) {
+        throw new StreamKeyVaultError('STREAM_KEY_ENCRYPTION_KEYS entries must look like <id>:<key>');
+      }
+      return [entry.slice(0, separator), toKey(entry.slice(separator + 1))] as const;
+    });
+
+  if (entries.length === 0 && process.env.STREAM_KEY_ENCRYPTION_KEY) {
+    entries.push(['v1', toKey(process.env.STREAM_KEY_ENCRYPTION_KEY)]);
+  }
+
+  if (entries.length === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new StreamKeyVaultError('STREAM_KEY_ENCRYPTION_KEYS is not configured');
+    }
+    console.warn('⚠️ STREAM_KEY_ENCRYPTION_KEYS not set - using a development key for stream keys');
+    entries.push(['dev', toKey(process.env.SESSION_SECRET || 'vida3-development-stream-keys')]);
+  }
+
+  keyring = { currentId: entries[0][0], keys: new Map(entries) };
+  return keyring;
+}
+
+export function isEncryptedStreamKey(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+export function isMaskedStreamKey(value: string): boolean {
+  return value === STREAM_KEY_MASK;
+}
+
+export function encryptStreamKey(plaintext: string): string {
+  if (isEncryptedStreamKey(plaintext)) return plaintext;
+
+  const { currentId, keys } = loadKeyring();
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, keys.get(currentId)!, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [PREFIX, currentId, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => typeof part === 'string' ? part : part.toString('base64url'))
+    .join(':');
+}
+
+/**
+ * Only the encoder/ingest paths should call this. The plaintext is
+ * registered with the log scrubber so it can't leak through FFmpeg output.
+ */
+export function decryptStreamKey(stored: string): string {
+  if (!isEncryptedStreamKey(stored)) {
+    registerSecret(stored);
+    return stored;
+  }
+
+  const [, keyId, iv, authTag, ciphertext] = stored.split(':');
+  const key = loadKeyring().keys.get(keyId);
+  if (!key || !iv || !authTag || ciphertext === undefined) {
+    throw new StreamKeyVaultError(`Stream key was encrypted with unknown key "${keyId}"`);
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+    registerSecret(plaintext);
+    return plaintext;
+  } catch {
+    throw new StreamKeyVaultError('Stream key could not be decrypted');
+  }
+}
+
+/**
+ * True for legacy plaintext and for values encrypted with a retired key
+ */
+export function needsReencryption(stored: string): boolean {
+  if (!isEncryptedStreamKey(stored)) return true;
+  return stored.split(':')[1] !== loadKeyring().currentId;
+}
+
+export function reencryptStreamKey(stored: string): string {
+  const plaintext = isEncryptedStreamKey(stored) ? decryptStreamKey(stored) : stored;
+  return encryptStreamKey(plaintext);
+}
@@ -0,0 +1,135 @@
+/**
+ * VIDA³ Stream Lifecycle
+ * Lifecycle state machine, reconnect backoff and the bounded media buffer
+ * that bridges an RTMP destination's reconnect gap
+ */
+
+import type { FramePacket, StreamLifecycleState } from '@shared/frame-protocol';
+
+const TRANSITIONS: Record<StreamLifecycleState, StreamLifecycleState[]> = {
+  connecting: ['live', 'reconnecting', 'failed', 'stopped'],
+  live: ['reconnecting', 'stopped'],
+  reconnecting: ['connecting', 'live', 'failed', 'stopped'],
+  failed: ['stopped'],
+  stopped: [],
+};
+
+export function canTransition(from: StreamLifecycleState, to: StreamLifecycleState): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: number; // fraction of the delay, ±
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 6,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.2,
+};
+
+/**
+ * Exponential backoff for the given 1-based attempt: 1s, 2s, 4s ... capped at maxDelayMs
+ */
+export function reconnectDelay(attempt: number, policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY): number {
+  const delay = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  const jitter = delay * policy.jitter * (Math.random() * 2 - 1);
+  return Math.round(delay + jitter);
+}
+
+/**
+ * Derive a stream's state from its destinations: live while any destination
+ * is live, failed once all have failed, otherwise (re)connecting.
+ */
+export function deriveStreamState(
+  current: StreamLifecycleState,
+  destinationStates: StreamLifecycleState[]
+): StreamLifecycleState {
+  if (current === 'stopped') return current;
+  if (destinationStates.some(state => state === 'live')) return 'live';
+  if (destinationStates.every(state => state === 'failed' || state === 'stopped')) return 'failed';
+  return current === 'connecting' ? 'connecting' : 'reconnecting';
+}
+
+interface BufferedVideo {
+  receivedAt: number;
+  packet: FramePacket;
+}
+
+interface BufferedAudio {
+  receivedAt: number;
+  chunk: Buffer;
+}
+
+export interface ReconnectBufferOptions {
+  maxDurationMs?: number;
+  maxBytes?: number;
+}
+
+/**
+ * Holds the most recent compressed frames and mixed audio while a destination
+ * is down so its new encoder can be primed with them. Bounded by duration and
+ * by bytes; the oldest media is discarded first.
+ */
+export class ReconnectBuffer {
+  private video: BufferedVideo[] = [];
+  private audio: BufferedAudio[] = [];
+  private videoBytes = 0;
+  private readonly maxDurationMs: number;
+  private readonly maxBytes: number;
+  droppedFrames = 0;
+
+  constructor(options: ReconnectBufferOptions = {}) {
+    this.maxDurationMs = options.maxDurationMs ?? 3000;
+    this.maxBytes = options.maxBytes ?? 24 * 1024 * 1024;
+  }
+
+  pushVideo(packet: FramePacket, receivedAt = Date.now()) {
+    this.video.push({ receivedAt, packet });
+    this.videoBytes += packet.payload.byteLength;
+    this.trim(receivedAt);
+  }
+
+  pushAudio(chunk: Buffer, receivedAt = Date.now()) {
+    this.audio.push({ receivedAt, chunk });
+    this.trim(receivedAt);
+  }
+
+  isEmpty(): boolean {
+    return this.video.length === 0 && this.audio.length === 0;
+  }
+
+  /**
+   * Take everything buffered so far. Audio older than the first buffered
+   * frame is discarded so both inputs of the new encoder start together.
+   */
+  drain(): { video: FramePacket[]; audio: Buffer[] } {
+    const start = this.video[0]?.receivedAt;
+    const video = this.video.map(entry => entry.packet);
+    const audio = start === undefined
+      ? []
+      : this.audio.filter(entry => entry.receivedAt >= start).map(entry => entry.chunk);
+
+    this.video = [];
+    this.audio = [];
+    this.videoBytes = 0;
+
+    return { video, audio };
+  }
+
+  private trim(now: number) {
+    const cutoff = now - this.maxDurationMs;
+
+    while (this.video.length > 0 && (this.video[0].receivedAt < cutoff || this.videoBytes > this.maxBytes)) {
+      this.videoBytes -= this.video.shift()!.packet.payload.byteLength;
+      this.droppedFrames++;
+    }
+    while (this.audio.length > 0 && this.audio[0].receivedAt < cutoff) {
+      this.audio.shift();
+    }
+  }
+}
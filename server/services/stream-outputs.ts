@@ -0,0 +1,88 @@
+/**
+ * VIDA³ Stream Outputs
+ * RTMP destinations implement StreamOutput: the gateway decodes each frame
+ * once to raw RGBA at the stream's output geometry and mixes audio once,
+ * then fans both out to their encoders. Outputs that keep a copy of what is
+ * broadcast - the local recorder and the HLS preview - implement
+ * EncodedStreamOutput instead and are fed the MPEG-TS one destination's
+ * encoder tees off, so they only remux and never encode a second time.
+ */
+
+import sharp from 'sharp';
+import { FrameFormat, type FramePacket } from '@shared/frame-protocol';
+
+export interface StreamOutput {
+  readonly name: string;
+  // Raw RGBA frame at the stream's output geometry
+  writeVideo(frame: Buffer): void;
+  // Mixed s16le PCM at AUDIO_SAMPLE_RATE / AUDIO_CHANNELS
+  writeAudio(chunk: Buffer): void;
+  stop(): unknown;
+}
+
+export interface EncodedStreamOutput {
+  readonly name: string;
+  // MPEG-TS bytes from a destination's encoder; a new encoder starts a new TS
+  writeEncoded(chunk: Buffer): void;
+  stop(): unknown;
+}
+
+/**
+ * FFmpeg input arguments for remuxing an encoder's teed MPEG-TS from stdin
+ */
+export function encodedInputFFmpegArgs(): string[] {
+  return [
+    // FFmpeg evens out MPEG-TS timestamp jumps, such as a reconnected
+    // encoder starting again from zero; packets cut by dropped chunks go
+    '-fflags', '+discardcorrupt',
+    '-f', 'mpegts',
+    '-i', 'pipe:0',
+    '-map', '0',
+    '-c', 'copy',
+  ];
+}
+
+/**
+ * Decode a binary frame packet to raw RGBA at the given output size
+ */
+export async function decodeFrameToRaw(packet: FramePacket, outputWidth: number, outputHeight: number): Promise<Buffer> {
+  const { format, width, height } = packet.header;
+  const payload = Buffer.from(packet.payload.buffer, packet.payload.byteOffset, packet.payload.byteLength);
+
+  if (format === FrameFormat.RGBA) {
+    if (payload.length !== width * height * 4) {
+      throw new Error(`RGBA payload is ${payload.length} bytes, expected ${width * height * 4}`);
+    }
+
+    // Already at output geometry - pass straight through to FFmpeg
+    if (width === outputWidth && height === outputHeight) {
+      return payload;
+    }
+
+    return sharp(payload, { raw: { width, height, channels: 4 } })
+      .resize(outputWidth, outputHeight)
+      .raw()
+      .toBuffer();
+  }
+
+  return sharp(payload)
+    .resize(outputWidth, outputHeight)
+    .ensureAlpha()
+    .raw()
+    .toBuffer();
+}
+
+/**
+ * Decode a legacy `data:image/png;base64,` canvas frame to raw RGBA
+ */
+export async function decodeDataUrlToRaw(frameData: string, outputWidth: number, outputHeight: number): Promise<Buffer> {
+  if (!frameData.startsWith('data:image/png;base64,')) {
+    throw new Error('Invalid frame data format - expected PNG base64');
+  }
+
+  return sharp(Buffer.from(frameData.split(',')[1], 'base64'))
+    .resize(outputWidth, outputHeight)
+    .ensureAlpha()
+    .raw()
+    .toBuffer();
+}
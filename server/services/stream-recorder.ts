@@ -0,0 +1,301 @@
+/**
+ * VIDA³ Stream Recorder
+ * Writes a local VOD copy of a studio broadcast next to the RTMP push. The
+ * broadcast's own encoded stream is remuxed, not encoded again, into MKV
+ * segments (a crash only loses the open segment), then joined into a single
+ * MP4 when the stream stops.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import type { StreamRecordingMetadata } from '@shared/schema';
+import { getSubscriptionTierConfig } from './subscription-rigging-tiers';
+import { encodedInputFFmpegArgs, type EncodedStreamOutput } from './stream-outputs';
+
+export const RECORDINGS_DIR = path.join(process.cwd(), 'recordings');
+
+const SEGMENT_SECONDS = 300;
+const RECORDING_FILE = 'recording.mp4';
+const SEGMENT_LIST_FILE = 'segments.txt';
+const STOP_TIMEOUT_MS = 10000;
+
+export class RecordingError extends Error {
+  constructor(message: string, public readonly statusCode: number = 500) {
+    super(message);
+    this.name = 'RecordingError';
+  }
+}
+
+export class StreamRecorder implements EncodedStreamOutput {
+  readonly name = 'recorder';
+  private process?: ChildProcess;
+  // Settles once FFmpeg has exited or failed to spawn
+  private exited: Promise<void> = Promise.resolve();
+  private failure?: string;
+  private backpressured = false;
+  private droppedChunks = 0;
+  private startedAt = new Date();
+  private readonly directory: string;
+  readonly fileName: string;
+
+  constructor(
+    private userId: string,
+    private streamId: string,
+    private userPlan: string
+  ) {
+    this.directory = path.resolve(RECORDINGS_DIR, userId, streamId);
+    // Exactly two levels below RECORDINGS_DIR, or deleting the recording would take more with it
+    if (path.dirname(path.dirname(this.directory)) !== RECORDINGS_DIR || path.relative(RECORDINGS_DIR, this.directory) !== path.join(userId, streamId)) {
+      throw new RecordingError(`Invalid recording path for stream ${streamId}`, 400);
+    }
+    this.fileName = path.posix.join(userId, streamId, RECORDING_FILE);
+  }
+
+  start() {
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.startedAt = new Date();
+
+    const args = [
+      '-y',
+      ...encodedInputFFmpegArgs(),
+
+      // The encoder's keyframe every GOP keeps segment cuts clean
+      '-f', 'segment',
+      '-segment_time', String(SEGMENT_SECONDS),
+      '-segment_format', 'matroska',
+      '-reset_timestamps', '1',
+      path.join(this.directory, 'segment_%03d.mkv')
+    ];
+
+    console.log(`⏺️ Recording stream ${this.streamId} to ${this.directory}`);
+
+    const ffmpeg = spawn('ffmpeg', args, { stdio: ['pipe', 'ignore', 'pipe'] });
+    this.process = ffmpeg;
+    this.exited = new Promise(resolve => {
+      ffmpeg.once('exit', () => resolve());
+      ffmpeg.once('error', () => resolve());
+    });
+
+    // ENOENT, EAGAIN, ...: without a listener the server would crash
+    ffmpeg.on('error', (error) => {
+      console.error(`❌ Recorder FFmpeg for ${this.streamId} failed:`, error);
+      this.failure = error.message;
+    });
+
+    this.process.stdin?.on('drain', () => {
+      this.backpressured = false;
+    });
+    this.process.stdin?.on('error', () => {
+      // EPIPE after FFmpeg exits - reported through 'exit'
+    });
+
+    this.process.stderr?.on('data', (data) => {
+      const output = data.toString();
+      if (output.includes('Error') || output.includes('error')) {
+        console.error(`❌ Recorder FFmpeg (${this.streamId}): ${output.trim()}`);
+      }
+    });
+
+    this.process.on('exit', (code, signal) => {
+      console.log(`⏹️ Recorder FFmpeg for ${this.streamId} exited (code ${code}, signal ${signal})`);
+    });
+  }
+
+  /**
+   * Recording never slows the broadcast down - chunks are dropped while the
+   * recorder is behind, and the remux skips the packets they cut.
+   */
+  writeEncoded(chunk: Buffer) {
+    const stdin = this.process?.stdin;
+    if (!stdin || stdin.destroyed || !stdin.writable) return;
+
+    if (this.backpressured) {
+      this.droppedChunks++;
+      return;
+    }
+
+    if (!stdin.write(chunk)) {
+      this.backpressured = true;
+    }
+  }
+
+  /**
+   * Close the input, wait for FFmpeg to flush the last segment and join the
+   * segments into the final MP4.
+   */
+  async stop(): Promise<StreamRecordingMetadata> {
+    const ffmpeg = this.process;
+    this.process = undefined;
+
+    // A process that never spawned or has already ended has nothing left to flush
+    if (ffmpeg?.pid !== undefined && ffmpeg.exitCode === null && ffmpeg.signalCode === null && !this.failure) {
+      ffmpeg.stdin?.end();
+
+      const timeout = setTimeout(() => ffmpeg.kill('SIGTERM'), STOP_TIMEOUT_MS);
+      await this.exited;
+      clearTimeout(timeout);
+    }
+
+    const base: StreamRecordingMetadata = {
+      status: 'ready',
+      fileName: this.fileName,
+      format: 'mp4',
+      startedAt: this.startedAt.toISOString(),
+      completedAt: new Date().toISOString(),
+      expiresAt: recordingExpiry(this.userPlan, new Date()),
+    };
+
+    if (this.failure) {
+      return { ...base, status: 'failed', error: `Recorder could not run: ${this.failure}` };
+    }
+
+    try {
+      await this.joinSegments();
+      const stats = await fs.promises.stat(path.join(this.directory, RECORDING_FILE));
+      const durationSec = Math.round((Date.now() - this.startedAt.getTime()) / 1000);
+
+      console.log(`✅ Recording for ${this.streamId} ready: ${stats.size} bytes, ${durationSec}s (${this.droppedChunks} chunks dropped)`);
+      return { ...base, sizeBytes: stats.size, durationSec };
+    } catch (error: any) {
+      console.error(`❌ Failed to finalize recording for ${this.streamId}:`, error);
+      return { ...base, status: 'failed', error: error.message };
+    }
+  }
+
+  private async joinSegments() {
+    const segments = (await fs.promises.readdir(this.directory))
+      .filter(file => file.startsWith('segment_') && file.endsWith('.mkv'))
+      .sort();
+
+    if (segments.length === 0) {
+      throw new Error('No recording segments were written');
+    }
+
+    const listPath = path.join(this.directory, SEGMENT_LIST_FILE);
+    await fs.promises.writeFile(listPath, segments.map(file => `file '${file}'`).join('\n'));
+
+    await runFFmpeg([
+      '-y',
+      '-f', 'concat',
+      '-safe', '0',
+      '-i', listPath,
+      '-c', 'copy',
+      '-movflags', '+faststart',
+      path.join(this.directory, RECORDING_FILE)
+    ]);
+
+    await Promise.all([
+      fs.promises.unlink(listPath),
+      ...segments.map(file => fs.promises.unlink(path.join(this.directory, file)))
+    ]);
+  }
+}
+
+/**
+ * When a recording made now on `userPlan` should be removed, or null when the
+ * plan keeps recordings until the user deletes them
+ */
+export function recordingExpiry(userPlan: string, from: Date): string | null {
+  const days = getSubscriptionTierConfig(userPlan).recordingRetentionDays;
+  if (days === null) return null;
+  return new Date(from.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Absolute path of a recording file, refusing anything outside RECORDINGS_DIR
+ */
+export function resolveRecordingPath(fileName: string): string {
+  const resolved = path.resolve(RECORDINGS_DIR, fileName);
+  // Always <userId>/<streamId>/<file>: deleting a recording removes its whole directory
+  if (!resolved.startsWith(RECORDINGS_DIR + path.sep) || path.relative(RECORDINGS_DIR, resolved).split(path.sep).length !== 3) {
+    throw new RecordingError('Invalid recording path', 400);
+  }
+  return resolved;
+}
+
+/**
+ * Cut a finished recording down to [start, end] seconds in place. Stream copy
+ * is used, so cuts snap to the nearest keyframe (every 2s).
+ */
+export async function trimRecording(
+  recording: StreamRecordingMetadata,
+  start: number,
+  end: number
+): Promise<StreamRecordingMetadata> {
+  if (recording.status !== 'ready') {
+    throw new RecordingError(`Recording is ${recording.status}`, 409);
+  }
+  if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end <= start) {
+    throw new RecordingError('Trim range must satisfy 0 <= start < end', 400);
+  }
+  if (recording.durationSec !== undefined && start >= recording.durationSec) {
+    throw new RecordingError(`Start is beyond the end of the recording (${recording.durationSec}s)`, 400);
+  }
+
+  const filePath = resolveRecordingPath(recording.fileName);
+  const trimmedPath = filePath.replace(/\.mp4$/, '.trimmed.mp4');
+
+  await runFFmpeg([
+    '-y',
+    '-ss', String(start),
+    '-to', String(end),
+    '-i', filePath,
+    '-c', 'copy',
+    '-movflags', '+faststart',
+    trimmedPath
+  ]);
+  await fs.promises.rename(trimmedPath, filePath);
+
+  const stats = await fs.promises.stat(filePath);
+  const clippedEnd = recording.durationSec !== undefined ? Math.min(end, recording.durationSec) : end;
+
+  return {
+    ...recording,
+    sizeBytes: stats.size,
+    durationSec: Math.round(clippedEnd - start),
+    trimmed: { start, end: clippedEnd },
+  };
+}
+
+/**
+ * Remove a recording and its directory from disk
+ */
+export async function deleteRecordingFiles(recording: StreamRecordingMetadata): Promise<number> {
+  const directory = path.dirname(resolveRecordingPath(recording.fileName));
+  let sizeFreed = 0;
+
+  if (!fs.existsSync(directory)) return sizeFreed;
+
+  for (const file of await fs.promises.readdir(directory)) {
+    try {
+      sizeFreed += (await fs.promises.stat(path.join(directory, file))).size;
+    } catch {
+      // Already gone
+    }
+  }
+
+  await fs.promises.rm(directory, { recursive: true, force: true });
+  return sizeFreed;
+}
+
+function runFFmpeg(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+    let stderr = '';
+
+    ffmpeg.stderr?.on('data', (data) => {
+      stderr = (stderr + data.toString()).slice(-2000);
+    });
+    ffmpeg.on('error', reject);
+    ffmpeg.on('exit', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`FFmpeg exited with code ${code}: ${stderr.trim().split('\n').pop()}`));
+      }
+    });
+  });
+}
+
+export default StreamRecorder;
@@ -4,6 +4,7 @@
  */
 
 import { EventEmitter } from 'events';
+import type { StreamLifecycleState } from '@shared/frame-protocol';
 
 export interface StreamMetrics {
   streamId: string;
@@ -22,6 +23,7 @@ export interface StreamMetrics {
   status: 'active' | 'completed' | 'failed' | 'interrupted';
   errorCount: number;
   recoveryAttempts: number;
+  lifecycleState: StreamLifecycleState;
 }
 
 export interface SystemMetrics {
@@ -137,7 +139,8 @@ export class StreamingMonitoringService extends EventEmitter {
       rtmpUrl,
       status: 'active',
       errorCount: 0,
-      recoveryAttempts: 0
+      recoveryAttempts: 0,
+      lifecycleState: 'connecting'
     };
 
     this.streamMetrics.set(streamId, streamMetric);
@@ -240,6 +243,32 @@ export class StreamingMonitoringService extends EventEmitter {
     });
   }
 
+  /**
+   * Record a reconnect attempt for one of the stream's RTMP destinations
+   */
+  recordRecoveryAttempt(streamId: string, destination: string, attempt: number, delayMs: number): void {
+    const stream = this.streamMetrics.get(streamId);
+    if (!stream) return;
+
+    this.updateStreamMetrics(streamId, {
+      recoveryAttempts: stream.recoveryAttempts + 1
+    });
+
+    this.emit('stream-recovery', { streamId, destination, attempt, delayMs });
+  }
+
+  /**
+   * Record a stream lifecycle transition
+   */
+  recordStateTransition(streamId: string, state: StreamLifecycleState, reason?: string): void {
+    const stream = this.streamMetrics.get(streamId);
+    if (!stream) return;
+
+    const previousState = stream.lifecycleState;
+    this.updateStreamMetrics(streamId, { lifecycleState: state });
+    this.emit('stream-state', { streamId, state, previousState, reason });
+  }
+
   /**
    * Create an alert
    */
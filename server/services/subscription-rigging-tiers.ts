@@ -26,6 +26,12 @@ export interface SubscriptionTierConfig {
   // Performance limits
   maxFrameRate: number;
   priorityLevel: number;
+
+  // Streaming limits
+  maxStreamDestinations: number; // simultaneous RTMP destinations (simulcast)
+  maxStreamResolution: '720p' | '1080p';
+  maxStreamBitrate: number; // kbps per destination
+  recordingRetentionDays: number | null; // local VOD recordings, null = kept until deleted
 }
 
 export const SUBSCRIPTION_TIERS: { [key: string]: SubscriptionTierConfig } = {
@@ -45,6 +51,10 @@ export const SUBSCRIPTION_TIERS: { [key: string]: SubscriptionTierConfig } = {
     },
     maxFrameRate: 15,
     priorityLevel: 1,
+    maxStreamDestinations: 1,
+    maxStreamResolution: '720p',
+    maxStreamBitrate: 2500,
+    recordingRetentionDays: 7,
   },
   
   reply_guy: {
@@ -63,6 +73,10 @@ export const SUBSCRIPTION_TIERS: { [key: string]: SubscriptionTierConfig } = {
     },
     maxFrameRate: 24,
     priorityLevel: 2,
+    maxStreamDestinations: 1,
+    maxStreamResolution: '1080p',
+    maxStreamBitrate: 4500,
+    recordingRetentionDays: null,
   },
   
   spartan: {
@@ -81,6 +95,10 @@ export const SUBSCRIPTION_TIERS: { [key: string]: SubscriptionTierConfig } = {
     },
     maxFrameRate: 30,
     priorityLevel: 3,
+    maxStreamDestinations: 2,
+    maxStreamResolution: '1080p',
+    maxStreamBitrate: 6000,
+    recordingRetentionDays: null,
   },
   
   zeus: {
@@ -99,6 +117,10 @@ export const SUBSCRIPTION_TIERS: { [key: string]: SubscriptionTierConfig } = {
     },
     maxFrameRate: 60,
     priorityLevel: 4,
+    maxStreamDestinations: 3,
+    maxStreamResolution: '1080p',
+    maxStreamBitrate: 8000,
+    recordingRetentionDays: null,
   },
   
   goat: {
@@ -117,6 +139,10 @@ export const SUBSCRIPTION_TIERS: { [key: string]: SubscriptionTierConfig } = {
     },
     maxFrameRate: 120,
     priorityLevel: 5,
+    maxStreamDestinations: 5,
+    maxStreamResolution: '1080p',
+    maxStreamBitrate: 9000,
+    recordingRetentionDays: null,
   },
 };
 
@@ -1,13 +1,15 @@
 /**
  * Temporary File Cleanup Service
- * Handles cleanup of uploaded and generated files that haven't been saved
+ * Handles cleanup of uploaded and generated files that haven't been saved,
+ * and enforces the retention limit on stream recordings
  */
 
 import fs from 'fs';
 import path from 'path';
 import { db } from '../db';
-import { avatars } from '@shared/schema';
+import { avatars, streamingSessions, type StreamRecordingMetadata } from '@shared/schema';
 import { eq, sql } from 'drizzle-orm';
+import { deleteRecordingFiles } from './stream-recorder';
 
 export class TempFileCleanupService {
   private static instance: TempFileCleanupService;
@@ -95,6 +97,11 @@ export class TempFileCleanupService {
       totalFilesDeleted += thumbnailCleanup.filesDeleted;
       totalSizeCleaned += thumbnailCleanup.sizeFreed;
 
+      // 4. Remove stream recordings past their plan's retention period
+      const recordingCleanup = await this.cleanupExpiredRecordings();
+      totalFilesDeleted += recordingCleanup.filesDeleted;
+      totalSizeCleaned += recordingCleanup.sizeFreed;
+
       const duration = Date.now() - startTime;
       
       if (totalFilesDeleted > 0) {
@@ -290,6 +297,48 @@ export class TempFileCleanupService {
     return { filesDeleted, sizeFreed };
   }
 
+  /**
+   * Delete recordings whose expiresAt has passed and mark them expired on the session
+   */
+  private async cleanupExpiredRecordings(): Promise<{filesDeleted: number, sizeFreed: number}> {
+    let filesDeleted = 0;
+    let sizeFreed = 0;
+
+    try {
+      const now = new Date().toISOString();
+      const expiredSessions = await db
+        .select()
+        .from(streamingSessions)
+        .where(sql`${streamingSessions.metadata}->'recording'->>'expiresAt' < ${now}
+          AND ${streamingSessions.metadata}->'recording'->>'status' <> 'expired'`);
+
+      for (const session of expiredSessions) {
+        const metadata = session.metadata as { recording: StreamRecordingMetadata };
+
+        try {
+          sizeFreed += await deleteRecordingFiles(metadata.recording);
+          filesDeleted++;
+
+          await db
+            .update(streamingSessions)
+            .set({
+              metadata: { ...metadata, recording: { ...metadata.recording, status: 'expired', sizeBytes: 0 } },
+              updatedAt: new Date(),
+            })
+            .where(eq(streamingSessions.id, session.id));
+
+          console.log(`🗑️  Deleted expired recording for session ${session.id} (${metadata.recording.fileName})`);
+        } catch (error: any) {
+          console.log(`⚠️  Could not delete recording for session ${session.id}:`, error.message);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Failed to cleanup expired recordings:', error);
+    }
+
+    return { filesDeleted, sizeFreed };
+  }
+
   /**
    * Manual cleanup trigger (for testing or immediate cleanup)
    */
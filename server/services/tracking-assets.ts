@@ -0,0 +1,146 @@
+/**
+ * VIDA³ Tracking Assets
+ * Serves the MediaPipe WASM and landmarker models the tracking worker needs
+ * (see shared/tracking-assets.ts) from this server instead of a CDN.
+ *
+ * The WASM ships in the @mediapipe/tasks-vision package, pinned to exactly
+ * TRACKING_ASSET_VERSION. The models aren't published to npm, so
+ * `npm run tracking:models` downloads them into TRACKING_MODELS_DIR
+ * (default ./tracking-models), one folder per version; `npm run build` runs
+ * it first, so every build ships with its models.
+ * Files under a version path never change and are cached as immutable;
+ * the manifest that lists them, with their sizes and SHA-384 hashes, is
+ * revalidated on every load. Files are hashed at startup and any that
+ * differ from their pinned hash are left out of the manifest and not served.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Express } from 'express';
+import {
+  TRACKING_ASSET_SOURCES,
+  TRACKING_ASSET_VERSION,
+  type TrackingAssetManifest,
+  type TrackingAssetName
+} from '@shared/tracking-assets';
+
+const WASM_DIR = path.join('node_modules', '@mediapipe', 'tasks-vision', 'wasm');
+
+export function trackingModelsDir(): string {
+  return path.join(process.env.TRACKING_MODELS_DIR || 'tracking-models', TRACKING_ASSET_VERSION);
+}
+
+/**
+ * Where asset `name` lives on disk
+ */
+export function trackingAssetPath(name: TrackingAssetName): string {
+  const { file, kind } = TRACKING_ASSET_SOURCES[name];
+  return path.join(kind === 'wasm' ? WASM_DIR : trackingModelsDir(), path.basename(file));
+}
+
+/**
+ * Subresource Integrity value of a file: "sha384-<base64 digest>"
+ */
+export async function hashTrackingAsset(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha384');
+  for await (const chunk of fs.createReadStream(filePath)) hash.update(chunk);
+  return `sha384-${hash.digest('base64')}`;
+}
+
+let manifest: Promise<TrackingAssetManifest> | null = null;
+
+async function buildManifest(): Promise<TrackingAssetManifest> {
+  const result: TrackingAssetManifest = { version: TRACKING_ASSET_VERSION, assets: {} };
+  const missing: string[] = [];
+  let rejected = 0;
+
+  for (const name of Object.keys(TRACKING_ASSET_SOURCES) as TrackingAssetName[]) {
+    const { file, integrity: pinned } = TRACKING_ASSET_SOURCES[name];
+    const filePath = trackingAssetPath(name);
+    if (!fs.existsSync(filePath)) {
+      missing.push(path.basename(filePath));
+      continue;
+    }
+
+    const integrity = await hashTrackingAsset(filePath);
+    if (pinned && integrity !== pinned) {
+      console.error(`❌ Tracking asset ${file} doesn't match its pinned hash (${integrity}); not serving it`);
+      rejected++;
+      continue;
+    }
+    if (!pinned) {
+      console.warn(`⚠️ Tracking asset ${file} has no pinned hash; pin ${integrity} in shared/tracking-assets.ts once it is verified`);
+    }
+    result.assets[name] = { file, size: (await fs.promises.stat(filePath)).size, integrity };
+  }
+
+  if (missing.length > 0) {
+    console.warn(`⚠️ Tracking assets missing (${missing.join(', ')}); run "npm run tracking:models" to fetch them`);
+  } else if (rejected === 0) {
+    console.log(`🎯 Tracking assets ${TRACKING_ASSET_VERSION} ready`);
+  }
+  return result;
+}
+
+/**
+ * Hashes are computed once per process; the files only change on deploy
+ */
+export function getTrackingAssetManifest(): Promise<TrackingAssetManifest> {
+  manifest ??= buildManifest().catch((error) => {
+    manifest = null;
+    throw error;
+  });
+  return manifest;
+}
+
+/**
+ * Mount /tracking-assets on the app and start hashing the files
+ */
+export function registerTrackingAssets(app: Express): void {
+  const installed = readInstalledVersion();
+  if (installed && installed !== TRACKING_ASSET_VERSION) {
+    console.warn(`⚠️ @mediapipe/tasks-vision ${installed} is installed but tracking assets are pinned to ${TRACKING_ASSET_VERSION}`);
+  }
+
+  const base = `/tracking-assets/${TRACKING_ASSET_VERSION}`;
+  const immutable = { maxAge: '1y', immutable: true };
+  // Only the known files, and only once they have been checked
+  for (const name of Object.keys(TRACKING_ASSET_SOURCES) as TrackingAssetName[]) {
+    app.get(`${base}/${TRACKING_ASSET_SOURCES[name].file}`, async (_req, res, next) => {
+      try {
+        const { assets } = await getTrackingAssetManifest();
+        if (!assets[name]) return next();
+        res.sendFile(path.resolve(trackingAssetPath(name)), immutable);
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
+  app.get('/tracking-assets/manifest.json', async (_req, res) => {
+    try {
+      res.set('Cache-Control', 'no-cache');
+      res.json(await getTrackingAssetManifest());
+    } catch (error) {
+      console.error('❌ Failed to build tracking asset manifest:', error);
+      res.status(500).json({ error: 'Tracking assets unavailable' });
+    }
+  });
+
+  // Missing models and other versions must not fall through to the SPA's index.html
+  app.use('/tracking-assets', (_req, res) => {
+    res.status(404).json({ error: 'Tracking asset not found' });
+  });
+
+  getTrackingAssetManifest().catch(error => console.error('❌ Failed to hash tracking assets:', error));
+}
+
+function readInstalledVersion(): string | null {
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.join(WASM_DIR, '..', 'package.json'), 'utf8'));
+    return pkg.version ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * VIDA³ Tracking Calibration
+ * Keeps each user's face and body calibration on their profile
+ * (users.trackingCalibration). The studio's wizard measures it in the
+ * browser; the server only checks it and stores it, see
+ * shared/tracking-calibration.ts for what it holds.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { users } from '@shared/schema';
+import { isTrackingCalibration, type TrackingCalibration } from '@shared/tracking-calibration';
+
+export class TrackingCalibrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrackingCalibrationError';
+  }
+}
+
+/**
+ * The user's calibration, or null if they never ran the wizard (or the
+ * stored one predates the current format)
+ */
+export async function getTrackingCalibration(userId: string): Promise<TrackingCalibration | null> {
+  const [user] = await db
+    .select({ trackingCalibration: users.trackingCalibration })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  return isTrackingCalibration(user?.trackingCalibration) ? user.trackingCalibration : null;
+}
+
+/**
+ * Replace the user's calibration; null when there is no such user
+ */
+export async function saveTrackingCalibration(userId: string, calibration: unknown): Promise<TrackingCalibration | null> {
+  if (!isTrackingCalibration(calibration)) {
+    throw new TrackingCalibrationError('Calibration is malformed or out of range');
+  }
+  // Keep only the known fields
+  const stored: TrackingCalibration = {
+    version: 1,
+    calibratedAt: calibration.calibratedAt,
+    blendshapes: calibration.blendshapes,
+    head: calibration.head,
+    bones: calibration.bones
+  };
+
+  const [updated] = await db
+    .update(users)
+    .set({ trackingCalibration: stored, updatedAt: new Date() })
+    .where(eq(users.id, userId))
+    .returning({ id: users.id });
+  if (!updated) return null;
+
+  console.log(`🎯 Tracking calibration saved for ${userId}: ${Object.keys(stored.blendshapes).length} blendshape ranges, ${Object.keys(stored.bones).length} rest rotations`);
+  return stored;
+}
+
+export async function clearTrackingCalibration(userId: string): Promise<void> {
+  await db
+    .update(users)
+    .set({ trackingCalibration: null, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+}
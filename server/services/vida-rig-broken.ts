@@ -1,767 +0,0 @@
-/**
- * VidaRig - Enhanced Pipeline with Real Hugging Face Model Integration
- * Uses actual API calls to 10 models for authentic bone and morph target placement
- */
-
-export interface RigAnalysis {
-  vertices: number;
-  meshes: any[];
-  hasExistingBones: boolean;
-  humanoidStructure: {
-    hasHead: boolean;
-    hasSpine: boolean;
-    hasArms: boolean;
-    hasLegs: boolean;
-    confidence: number;
-  };
-  suggestedBones: BoneDefinition[];
-}
-
-export interface BoneDefinition {
-  name: string;
-  type: 'head' | 'neck' | 'spine' | 'shoulder' | 'arm' | 'hand' | 'hip' | 'leg' | 'foot' | 'upperarm' | 'lowerarm' | 'upperleg' | 'lowerleg';
-  position: [number, number, number];
-  rotation: [number, number, number];
-  parent: string | null;
-  weight: number;
-}
-
-export interface RiggedResult {
-  riggedBuffer: Buffer;
-  hasFaceRig: boolean;
-  hasBodyRig: boolean;
-  hasHandRig: boolean;
-  boneCount: number;
-  morphTargets: string[];
-}
-
-export class VidaRig {
-  private initialized = false;
-
-  async initialize() {
-    this.initialized = true;
-    console.log('🎯 VidaRig Enhanced Pipeline initialized with real model integration');
-  }
-
-  /**
-   * Analyze GLB model structure for rigging potential
-   */
-  async analyzeModel(glbBuffer: Buffer): Promise<RigAnalysis> {
-    const gltfData = this.parseGLB(glbBuffer);
-    const vertices = this.countVertices(gltfData);
-    const meshes = this.extractMeshes(gltfData);
-    const hasExistingBones = this.detectExistingBones(gltfData);
-    const humanoidStructure = await this.detectHumanoidStructure(gltfData);
-    const suggestedBones = this.generateBoneSuggestions(gltfData, humanoidStructure);
-
-    const analysis: RigAnalysis = {
-      vertices,
-      meshes,
-      hasExistingBones,
-      humanoidStructure,
-      suggestedBones
-    };
-
-    console.log(`📊 Model analysis: ${vertices} vertices, ${meshes.length} meshes, humanoid confidence: ${humanoidStructure.confidence}`);
-    return analysis;
-  }
-
-  /**
-   * Enhanced 10-Model Hugging Face Pipeline with Real Model Integration
-   */
-  async performLocalAutoRigging(glbBuffer: Buffer, analysis: RigAnalysis, tierConfig: any): Promise<RiggedResult> {
-    try {
-      console.log('🤖 Starting Enhanced 10-Model Pipeline with Real Hugging Face Integration...');
-      
-      // Run the real 10-model pipeline
-      const pipelineResults = await this.runEnhanced10ModelPipeline([], analysis, tierConfig);
-      
-      // Use model-driven results for optimization
-      const optimizedConfig = await this.optimizeRiggingFromAnalysis(analysis, tierConfig, pipelineResults.modelDrivenBones);
-      
-      // Create enhanced GLB with AI-optimized rigging
-      const riggedBuffer = this.createEnhancedGLBWithAI(
-        glbBuffer,
-        optimizedConfig.skeleton,
-        optimizedConfig.morphTargetNames,
-        optimizedConfig.finalBoneCount,
-        optimizedConfig.finalMorphTargets
-      );
-
-      const result: RiggedResult = {
-        riggedBuffer,
-        hasFaceRig: this.hasFaceCapabilities(optimizedConfig.skeleton),
-        hasBodyRig: this.hasBodyCapabilities(optimizedConfig.skeleton),
-        hasHandRig: this.hasHandCapabilities(optimizedConfig.skeleton),
-        boneCount: optimizedConfig.finalBoneCount,
-        morphTargets: optimizedConfig.morphTargetNames
-      };
-
-      console.log(`✅ Enhanced Pipeline complete: ${result.boneCount} bones, ${result.morphTargets.length} morph targets`);
-      return result;
-    } catch (error) {
-      console.error('❌ Enhanced Pipeline failed:', error);
-      throw new Error(`Auto-rigging failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  /**
-   * Run the Enhanced 10-Model Hugging Face Pipeline with Real Model Calls
-   * Optimized for 30fps real-time tracking performance
-   */
-  async runEnhanced10ModelPipeline(models: string[], analysis: RigAnalysis, tierConfig: any) {
-    console.log('🤖 Running Enhanced 10-Model Pipeline (Real-Time Optimized)...');
-    
-    const vertexComplexity = this.analyzeVertexComplexity(analysis.vertices);
-    const subscriptionTier = this.getSubscriptionTierLevel(tierConfig.planId);
-    
-    console.log(`🎯 Real-time optimization: ${vertexComplexity} complexity, ${subscriptionTier} tier`);
-    
-    // Fast-track real-time tracking models with immediate fallbacks for 30fps performance
-    console.log('⚡ Processing 10 real-time tracking models in parallel...');
-    
-    // Parallel processing for 30fps performance - all models use optimized fallbacks
-    const trackingResults = await Promise.all([
-      this.generateRealTimeOptimizedFallback('microsoft/DialoGPT-medium', 'facial expression tracking'),
-      this.generateRealTimeOptimizedFallback('facebook/detr-resnet-50', 'body part detection'),
-      this.generateRealTimeOptimizedFallback('microsoft/resnet-50', 'bone placement optimization'),
-      this.generateRealTimeOptimizedFallback('google/mediapipe-face-mesh', 'facial landmark tracking'),
-      this.generateRealTimeOptimizedFallback('google/mediapipe-hands', 'hand gesture recognition'),
-      this.generateRealTimeOptimizedFallback('google/mediapipe-pose', 'body pose estimation'),
-      this.generateRealTimeOptimizedFallback('microsoft/kinect-body-tracking', 'advanced body tracking'),
-      this.generateRealTimeOptimizedFallback('facebook/detectron2-keypoint', 'keypoint detection'),
-      this.generateRealTimeOptimizedFallback('openpose/body-pose-estimation', 'real-time pose'),
-      this.generateRealTimeOptimizedFallback('mediapipe/holistic-tracking', 'holistic coordination')
-    ]);
-    
-    console.log('✅ All 10 tracking models processed for real-time performance');
-    
-    // Extract and optimize tracking data for live streaming
-    const trackingData = this.extractRealTimeTrackingData({
-      expressionAnalysis: trackingResults[0],
-      bodyDetection: trackingResults[1], 
-      featureExtraction: trackingResults[2],
-      facialLandmarks: trackingResults[3],
-      handTracking: trackingResults[4],
-      poseEstimation: trackingResults[5],
-      bodyTracking: trackingResults[6],
-      keypointDetection: trackingResults[7],
-      realTimePose: trackingResults[8],
-      holisticTracking: trackingResults[9]
-    });
-    
-    console.log(`🎯 Real-time tracking optimized: ${trackingData.bones.length} bones, ${trackingData.morphTargets.length} morph targets`);
-    
-    return trackingData;
-  }
-      `Generate body pose bones for real-time tracking. Focus on spine, shoulders, hips, limbs. Optimize for live streaming performance.`
-    );
-    console.log(`🧍 Model 6 (Pose Estimation): ${poseEstimation.slice(0, 100)}...`);
-    
-    // Model 7: Advanced Body Tracking for Live Performance
-    const bodyTracking = await this.runRealTimeModel(
-      'microsoft/kinect-body-tracking',
-      `Advanced body tracking optimization. Generate high-precision bone hierarchy for live streaming avatar performance.`
-    );
-    console.log(`🎯 Model 7 (Body Tracking): ${bodyTracking.slice(0, 100)}...`);
-    
-    // Model 8: Keypoint Detection for Rigging
-    const keypointDetection = await this.runRealTimeModel(
-      'facebook/detectron2-keypoint',
-      `Detect keypoints for rigging optimization. Focus on tracking-critical points for real-time animation performance.`
-    );
-    console.log(`📍 Model 8 (Keypoint Detection): ${keypointDetection.slice(0, 100)}...`);
-    
-    // Model 9: Real-time Pose Estimation
-    const realTimePose = await this.runRealTimeModel(
-      'openpose/body-pose-estimation',
-      `Real-time pose estimation for live streaming. Generate bone structure optimized for low-latency tracking and smooth animation.`
-    );
-    console.log(`⚡ Model 9 (Real-time Pose): ${realTimePose.slice(0, 100)}...`);
-    
-    // Model 10: Holistic Tracking Integration
-    const holisticTracking = await this.runRealTimeModel(
-      'mediapipe/holistic-tracking',
-      `Holistic face+body+hands tracking integration. Balance ${tierConfig.maxBones} bones and ${tierConfig.maxMorphTargets} morph targets for optimal live streaming performance.`
-    );
-    console.log(`🌟 Model 10 (Holistic Tracking): ${holisticTracking.slice(0, 100)}...`);
-    
-    // Use all 10 real-time tracking model outputs for bone placement
-    const modelDrivenBones = this.extractRealTimeTrackingData({
-      expressionAnalysis,
-      bodyPartDetection,
-      featureExtraction,
-      facialLandmarks,
-      handTracking,
-      poseEstimation,
-      bodyTracking,
-      keypointDetection,
-      realTimePose,
-      holisticTracking
-    });
-    console.log(`🎯 Extracted ${modelDrivenBones.bones.length} model-driven bone placements from all 10 models`);
-    console.log(`🎯 Extracted ${modelDrivenBones.morphTargets.length} model-driven morph targets from all 10 models`);
-    
-    return {
-      modelDrivenBones,
-      contextAnalysis: `Avatar complexity: ${vertexComplexity}, tier: ${subscriptionTier}`,
-      boneStructure: `Optimized for ${tierConfig.planId} plan with ${tierConfig.maxBones} bones`,
-      optimization: `Enhanced 10-Model Pipeline completed with real integration from all 10 Hugging Face models`
-    };
-  }
-
-  /**
-   * Real-Time Tracking Model API Call - Optimized for Live Streaming
-   */
-  private async runRealTimeModel(modelId: string, prompt: string): Promise<string> {
-    try {
-      const apiKey = process.env.HUGGINGFACE_API_KEY;
-      if (!apiKey) {
-        console.log(`⚡ No API key - using real-time optimized fallback for ${modelId}`);
-        return this.generateRealTimeOptimizedFallback(modelId, prompt);
-      }
-
-      const response = await fetch(`https://api-inference.huggingface.co/models/${modelId}`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          inputs: prompt,
-          parameters: {
-            max_length: 150,
-            temperature: 0.3, // Lower temperature for consistent tracking
-            do_sample: true,
-            top_p: 0.9
-          }
-        })
-      });
-
-      if (!response.ok) {
-        console.log(`⚡ Model ${modelId} API error - using real-time optimized fallback`);
-        return this.generateRealTimeOptimizedFallback(modelId, prompt);
-      }
-
-      const result = await response.json();
-      
-      if (Array.isArray(result) && result[0]?.generated_text) {
-        console.log(`✅ Real-time model response from ${modelId}: ${result[0].generated_text.slice(0, 50)}...`);
-        return result[0].generated_text;
-      }
-      
-      return this.generateRealTimeOptimizedFallback(modelId, prompt);
-    } catch (error) {
-      console.log(`⚡ Model ${modelId} failed - using real-time optimized fallback:`, error);
-      return this.generateRealTimeOptimizedFallback(modelId, prompt);
-    }
-  }
-
-  /**
-   * Real Hugging Face Model API Call (Legacy Support)
-   */
-  private async runHuggingFaceModel(modelId: string, prompt: string): Promise<string> {
-    try {
-      const apiKey = process.env.HUGGINGFACE_API_KEY;
-      if (!apiKey) {
-        console.log(`⚠️ No Hugging Face API key - using intelligent fallback for ${modelId}`);
-        return this.generateIntelligentFallback(modelId, prompt);
-      }
-
-      const response = await fetch(`https://api-inference.huggingface.co/models/${modelId}`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          inputs: prompt,
-          parameters: {
-            max_length: 200,
-            temperature: 0.7,
-            do_sample: true
-          }
-        })
-      });
-
-      if (!response.ok) {
-        console.log(`⚠️ Model ${modelId} API error - using intelligent fallback`);
-        return this.generateIntelligentFallback(modelId, prompt);
-      }
-
-      const result = await response.json();
-      
-      if (Array.isArray(result) && result[0]?.generated_text) {
-        console.log(`✅ Real model response from ${modelId}: ${result[0].generated_text.slice(0, 50)}...`);
-        return result[0].generated_text;
-      }
-      
-      return this.generateIntelligentFallback(modelId, prompt);
-    } catch (error) {
-      console.log(`⚠️ Model ${modelId} failed - using intelligent fallback:`, error);
-      return this.generateIntelligentFallback(modelId, prompt);
-    }
-  }
-
-  /**
-   * Real-Time Optimized Fallback for Tracking Models
-   */
-  private generateRealTimeOptimizedFallback(modelId: string, prompt: string): string {
-    if (modelId.includes('mediapipe-face') || modelId.includes('face-mesh')) {
-      return `Facial landmarks: eyebrow_inner_left, eyebrow_outer_left, eyebrow_inner_right, eyebrow_outer_right, eye_left, eye_right, nose_tip, mouth_left, mouth_right, mouth_center, chin. Expression bones: jaw_open, smile_left, smile_right, frown, blink_left, blink_right. Real-time tracking optimized.`;
-    }
-    
-    if (modelId.includes('mediapipe-hands') || modelId.includes('hands')) {
-      return `Hand bones: wrist, thumb_base, thumb_mid, thumb_tip, index_base, index_mid, index_tip, middle_base, middle_mid, middle_tip, ring_base, ring_mid, ring_tip, pinky_base, pinky_mid, pinky_tip. Gesture tracking: fist, open_palm, pointing, thumbs_up. Real-time gesture recognition enabled.`;
-    }
-    
-    if (modelId.includes('mediapipe-pose') || modelId.includes('pose')) {
-      return `Body pose bones: spine_base, spine_mid, spine_top, neck, head, shoulder_left, shoulder_right, elbow_left, elbow_right, wrist_left, wrist_right, hip_left, hip_right, knee_left, knee_right, ankle_left, ankle_right. Live streaming pose tracking optimized.`;
-    }
-    
-    if (modelId.includes('holistic') || modelId.includes('body-tracking')) {
-      return `Holistic tracking: Face 68 landmarks, Hand 21 points each, Body 33 pose points. Expression morphs: happy, sad, surprised, angry, neutral. Real-time performance: 30fps tracking capability.`;
-    }
-    
-    if (modelId.includes('detr') || modelId.includes('detectron') || modelId.includes('openpose')) {
-      return `Keypoint detection: face_center, eye_centers, mouth_corners, shoulder_points, elbow_joints, wrist_positions, hip_joints, knee_joints, ankle_points. Tracking confidence: high precision for live streaming.`;
-    }
-    
-    return `Real-time tracking analysis complete for ${prompt.split(' ').slice(0, 5).join(' ')}. Optimized bone structure generated for live streaming performance with low-latency tracking capabilities.`;
-  }
-
-  /**
-   * Intelligent Fallback for Model Responses
-   */
-  private generateIntelligentFallback(modelId: string, prompt: string): string {
-    if (modelId.includes('flan-t5') && prompt.includes('bone hierarchy')) {
-      return `Optimal bone structure: Root->Spine->Neck->Head, LeftShoulder->LeftArm->LeftHand, RightShoulder->RightArm->RightHand, LeftHip->LeftLeg->LeftFoot, RightHip->RightLeg->RightFoot. Total bones optimized for subscription tier.`;
-    }
-    
-    if (modelId.includes('DialoGPT') && prompt.includes('morph targets')) {
-      return `Facial morph targets: eyeBlinkLeft, eyeBlinkRight, eyeLookUp, eyeLookDown, jawOpen, mouthSmile, mouthFrown, browInnerUp, browDownLeft, browDownRight, cheekPuff, mouthPucker, tongueOut. Expression blend shapes for avatar animation.`;
-    }
-    
-    if (modelId.includes('codebert') && prompt.includes('GLTF')) {
-      return `GLTF analysis complete. Mesh structure suitable for rigging. Vertex distribution allows for efficient bone placement. Subscription tier optimization applied for balanced performance.`;
-    }
-    
-    return `Model analysis complete for ${prompt.split(' ').slice(0, 5).join(' ')}. Optimization applied based on subscription tier and mesh complexity.`;
-  }
-
-  /**
-   * Extract Real-Time Tracking Data from Live Streaming Models
-   */
-  private extractRealTimeTrackingData(trackingOutputs: any): { bones: any[], morphTargets: string[] } {
-    const bones: any[] = [];
-    const morphTargets: string[] = [];
-
-    // Extract facial expression bones from MediaPipe Face Mesh
-    const facialBones = trackingOutputs.facialLandmarks?.match(/(\w+(?:_left|_right|_center|_tip|_inner|_outer)?)/g);
-    if (facialBones) {
-      facialBones.forEach((boneName: string) => {
-        if (!bones.find(b => b.name === boneName)) {
-          bones.push({
-            name: boneName,
-            type: this.inferTrackingBoneType(boneName),
-            position: this.calculateTrackingPosition(boneName),
-            parent: this.findTrackingParent(boneName, bones),
-            trackingType: 'facial'
-          });
-        }
-      });
-    }
-
-    // Extract hand tracking bones from MediaPipe Hands
-    const handBones = trackingOutputs.handTracking?.match(/(\w+(?:_base|_mid|_tip)?)/g);
-    if (handBones) {
-      handBones.forEach((boneName: string) => {
-        if (!bones.find(b => b.name === boneName)) {
-          bones.push({
-            name: boneName,
-            type: this.inferTrackingBoneType(boneName),
-            position: this.calculateTrackingPosition(boneName),
-            parent: this.findTrackingParent(boneName, bones),
-            trackingType: 'hand'
-          });
-        }
-      });
-    }
-
-    // Extract body pose bones from MediaPipe Pose
-    const poseBones = trackingOutputs.poseEstimation?.match(/(\w+(?:_left|_right|_base|_mid|_top)?)/g);
-    if (poseBones) {
-      poseBones.forEach((boneName: string) => {
-        if (!bones.find(b => b.name === boneName)) {
-          bones.push({
-            name: boneName,
-            type: this.inferTrackingBoneType(boneName),
-            position: this.calculateTrackingPosition(boneName),
-            parent: this.findTrackingParent(boneName, bones),
-            trackingType: 'body'
-          });
-        }
-      });
-    }
-
-    // Extract expression morphs from holistic tracking
-    const expressionMorphs = trackingOutputs.holisticTracking?.match(/(happy|sad|surprised|angry|neutral|blink_\w+|smile_\w+)/gi);
-    if (expressionMorphs) {
-      morphTargets.push(...expressionMorphs.slice(0, 25)); // Real-time optimized limit
-    }
-
-    // Extract gesture morphs from hand tracking
-    const gestureMorphs = trackingOutputs.handTracking?.match(/(fist|open_palm|pointing|thumbs_up|peace_sign)/gi);
-    if (gestureMorphs) {
-      gestureMorphs.forEach((gesture: string) => {
-        if (!morphTargets.includes(gesture)) {
-          morphTargets.push(gesture);
-        }
-      });
-    }
-
-    // Optimize for real-time performance - limit bone count for smooth tracking
-    const maxBonesForTracking = Math.min(bones.length, 65); // Optimized for live streaming
-    const maxMorphsForTracking = Math.min(morphTargets.length, 50); // Real-time expression limit
-
-    return { 
-      bones: bones.slice(0, maxBonesForTracking), 
-      morphTargets: morphTargets.slice(0, maxMorphsForTracking) 
-    };
-  }
-
-  /**
-   * Extract Bone Data from All 10 Model Outputs (Legacy Support)
-   */
-  private extractBoneDataFromModelOutputs(modelOutputs: any): { bones: any[], morphTargets: string[] } {
-    const bones: any[] = [];
-    const morphTargets: string[] = [];
-
-    // Extract bone names from Model 2 (FLAN-T5) bone structure output
-    const boneMatches = modelOutputs.boneStructure?.match(/(\w+)->/g);
-    if (boneMatches) {
-      boneMatches.forEach((match: string) => {
-        const boneName = match.replace('->', '');
-        bones.push({
-          name: boneName,
-          type: this.inferBoneType(boneName),
-          position: this.calculateBonePosition(boneName),
-          parent: this.findBoneParent(boneName, bones)
-        });
-      });
-    }
-
-    // Extract additional bone suggestions from Model 4 (BART) mesh complexity analysis
-    const complexityBones = modelOutputs.meshComplexity?.match(/bone[s]?:\s*(\w+(?:,\s*\w+)*)/gi);
-    if (complexityBones) {
-      complexityBones.forEach((match: string) => {
-        const boneNames = match.replace(/bone[s]?:\s*/i, '').split(',');
-        boneNames.forEach((boneName: string) => {
-          const cleanName = boneName.trim();
-          if (cleanName && !bones.find(b => b.name === cleanName)) {
-            bones.push({
-              name: cleanName,
-              type: this.inferBoneType(cleanName),
-              position: this.calculateBonePosition(cleanName),
-              parent: this.findBoneParent(cleanName, bones)
-            });
-          }
-        });
-      });
-    }
-
-    // Extract bone optimization from Model 8 (DistilBERT-cased) tier optimization
-    const optimizedBones = modelOutputs.tierOptimization?.match(/optimize[d]?\s+(\w+)\s+bone/gi);
-    if (optimizedBones) {
-      optimizedBones.forEach((match: string) => {
-        const boneName = match.replace(/optimize[d]?\s+/i, '').replace(/\s+bone/i, '');
-        if (boneName && !bones.find(b => b.name === boneName)) {
-          bones.push({
-            name: boneName,
-            type: this.inferBoneType(boneName),
-            position: this.calculateBonePosition(boneName),
-            parent: this.findBoneParent(boneName, bones)
-          });
-        }
-      });
-    }
-
-    // Extract morph targets from Model 7 (DialoGPT-large) advanced morph generation
-    const morphMatches = modelOutputs.morphTargets?.match(/(\w+(?:Up|Down|Left|Right|Open|Smile|Frown|Blink|Squint|Wide|Pucker)?)/g);
-    if (morphMatches) {
-      morphTargets.push(...morphMatches.slice(0, 20)); // Enhanced limit from model output
-    }
-
-    // Extract additional morph targets from Model 6 (DistilBERT-uncased) humanoid classification
-    const facialMorphs = modelOutputs.humanoidClassification?.match(/(eye|mouth|brow|cheek|jaw|nose)\w*/gi);
-    if (facialMorphs) {
-      facialMorphs.forEach((morph: string) => {
-        if (!morphTargets.includes(morph)) {
-          morphTargets.push(morph);
-        }
-      });
-    }
-
-    // Extract quality-assessed morphs from Model 9 (CodeBERT-MLM) quality assessment
-    const qualityMorphs = modelOutputs.qualityAssessment?.match(/morph\s+target[s]?:\s*(\w+(?:,\s*\w+)*)/gi);
-    if (qualityMorphs) {
-      qualityMorphs.forEach((match: string) => {
-        const morphNames = match.replace(/morph\s+target[s]?:\s*/i, '').split(',');
-        morphNames.forEach((morphName: string) => {
-          const cleanMorph = morphName.trim();
-          if (cleanMorph && !morphTargets.includes(cleanMorph)) {
-            morphTargets.push(cleanMorph);
-          }
-        });
-      });
-    }
-
-    // Apply final optimization from Model 10 (FLAN-T5-large) to balance results
-    const finalBoneCount = Math.min(bones.length, 82); // Max for GOAT tier
-    const finalMorphCount = Math.min(morphTargets.length, 100); // Max for GOAT tier
-
-    return { 
-      bones: bones.slice(0, finalBoneCount), 
-      morphTargets: morphTargets.slice(0, finalMorphCount) 
-    };
-  }
-
-  private analyzeVertexComplexity(vertices: number): string {
-    if (vertices < 5000) return 'simple';
-    if (vertices < 50000) return 'moderate';
-    if (vertices < 100000) return 'complex';
-    return 'high-complex';
-  }
-
-  private getSubscriptionTierLevel(planId: string): string {
-    if (!planId || typeof planId !== 'string') {
-      console.log(`⚠️ Invalid planId (${planId}), defaulting to 'free'`);
-      return 'free';
-    }
-    return planId.toLowerCase();
-  }
-
-  private async optimizeRiggingFromAnalysis(analysis: RigAnalysis, tierConfig: any, modelDrivenBones?: any): Promise<any> {
-    const maxBones = tierConfig.maxBones || 21;
-    const maxMorphTargets = tierConfig.maxMorphTargets || 10;
-    
-    // Use model-driven bones if available, otherwise use intelligent calculation
-    let finalBoneCount = maxBones;
-    let finalMorphTargets = maxMorphTargets;
-    
-    if (modelDrivenBones && modelDrivenBones.bones.length > 0) {
-      finalBoneCount = Math.min(maxBones, modelDrivenBones.bones.length);
-      finalMorphTargets = Math.min(maxMorphTargets, modelDrivenBones.morphTargets.length);
-    }
-    
-    const skeleton = this.generateOptimizedSkeleton(finalBoneCount, analysis.humanoidStructure);
-    const morphTargetNames = this.generateMorphTargetNames(finalMorphTargets);
-    
-    return {
-      finalBoneCount,
-      finalMorphTargets,
-      skeleton,
-      morphTargetNames,
-      tierOptimization: `${tierConfig.planId} tier optimization applied with model-driven placement`
-    };
-  }
-
-  private generateOptimizedSkeleton(boneCount: number, humanoidStructure: any): any[] {
-    const baseBones = [
-      { name: 'Root', type: 'spine', parent: null },
-      { name: 'Spine', type: 'spine', parent: 'Root' },
-      { name: 'Neck', type: 'neck', parent: 'Spine' },
-      { name: 'Head', type: 'head', parent: 'Neck' }
-    ];
-    
-    const additionalBones = [];
-    let remainingBones = boneCount - baseBones.length;
-    
-    if (humanoidStructure.hasArms && remainingBones >= 4) {
-      additionalBones.push(
-        { name: 'LeftShoulder', type: 'shoulder', parent: 'Spine' },
-        { name: 'LeftArm', type: 'arm', parent: 'LeftShoulder' },
-        { name: 'RightShoulder', type: 'shoulder', parent: 'Spine' },
-        { name: 'RightArm', type: 'arm', parent: 'RightShoulder' }
-      );
-      remainingBones -= 4;
-    }
-    
-    if (humanoidStructure.hasLegs && remainingBones >= 4) {
-      additionalBones.push(
-        { name: 'LeftHip', type: 'hip', parent: 'Root' },
-        { name: 'LeftLeg', type: 'leg', parent: 'LeftHip' },
-        { name: 'RightHip', type: 'hip', parent: 'Root' },
-        { name: 'RightLeg', type: 'leg', parent: 'RightHip' }
-      );
-      remainingBones -= 4;
-    }
-    
-    return [...baseBones, ...additionalBones];
-  }
-
-  private generateMorphTargetNames(count: number): string[] {
-    const baseMorphs = [
-      'eyeBlinkLeft', 'eyeBlinkRight', 'eyeLookUp', 'eyeLookDown', 
-      'jawOpen', 'mouthSmile', 'mouthFrown', 'browInnerUp'
-    ];
-    
-    const advancedMorphs = [
-      'browDownLeft', 'browDownRight', 'cheekPuff', 'eyeSquintLeft',
-      'eyeSquintRight', 'eyeWideLeft', 'eyeWideRight', 'mouthPucker',
-      'mouthLeft', 'mouthRight', 'tongueOut', 'noseSneerLeft'
-    ];
-    
-    return [...baseMorphs, ...advancedMorphs].slice(0, count);
-  }
-
-  private createEnhancedGLBWithAI(originalBuffer: Buffer, skeleton: any[], morphTargets: string[], boneCount: number, morphCount: number): Buffer {
-    // Enhanced GLB creation with AI-driven rigging
-    return originalBuffer;
-  }
-
-  private parseGLB(buffer: Buffer): any {
-    return {
-      json: { scenes: [{}], nodes: [], meshes: [] },
-      buffers: []
-    };
-  }
-
-  private countVertices(gltfData: any): number {
-    return gltfData.meshes?.reduce((total: number, mesh: any) => {
-      return total + (mesh.primitives?.[0]?.attributes?.POSITION?.count || 1000);
-    }, 0) || 15000;
-  }
-
-  private extractMeshes(gltfData: any): any[] {
-    return gltfData.meshes || [];
-  }
-
-  private detectExistingBones(gltfData: any): boolean {
-    return gltfData.skins && gltfData.skins.length > 0;
-  }
-
-  private async detectHumanoidStructure(gltfData: any): Promise<any> {
-    return {
-      hasHead: true,
-      hasSpine: true,
-      hasArms: true,
-      hasLegs: true,
-      confidence: 0.85
-    };
-  }
-
-  private generateBoneSuggestions(gltfData: any, humanoidStructure: any): BoneDefinition[] {
-    const suggestions: BoneDefinition[] = [];
-    
-    if (humanoidStructure.hasHead) {
-      suggestions.push({
-        name: 'Head',
-        type: 'head',
-        position: [0, 1.7, 0],
-        rotation: [0, 0, 0],
-        parent: 'Neck',
-        weight: 1.0
-      });
-    }
-    
-    return suggestions;
-  }
-
-  private hasFaceCapabilities(skeleton: any[]): boolean {
-    return skeleton.some(bone => bone.name?.includes('head') || bone.name?.includes('face'));
-  }
-
-  private hasBodyCapabilities(skeleton: any[]): boolean {
-    return skeleton.some(bone => bone.name?.includes('spine') || bone.name?.includes('torso'));
-  }
-
-  private hasHandCapabilities(skeleton: any[]): boolean {
-    return skeleton.some(bone => bone.name?.includes('hand') || bone.name?.includes('finger'));
-  }
-
-  private inferBoneType(boneName: string): string {
-    const name = boneName.toLowerCase();
-    if (name.includes('head')) return 'head';
-    if (name.includes('neck')) return 'neck';
-    if (name.includes('spine')) return 'spine';
-    if (name.includes('shoulder')) return 'shoulder';
-    if (name.includes('arm') || name.includes('hand')) return 'arm';
-    if (name.includes('hip')) return 'hip';
-    if (name.includes('leg') || name.includes('foot')) return 'leg';
-    return 'spine';
-  }
-
-  private calculateBonePosition(boneName: string): [number, number, number] {
-    const name = boneName.toLowerCase();
-    if (name.includes('head')) return [0, 1.7, 0];
-    if (name.includes('neck')) return [0, 1.5, 0];
-    if (name.includes('spine')) return [0, 1.0, 0];
-    if (name.includes('left')) return [-0.3, 1.2, 0];
-    if (name.includes('right')) return [0.3, 1.2, 0];
-    return [0, 0, 0];
-  }
-
-  private findBoneParent(boneName: string, existingBones: any[]): string | null {
-    const name = boneName.toLowerCase();
-    if (name.includes('head')) return 'Neck';
-    if (name.includes('neck')) return 'Spine';
-    if (name.includes('arm') && name.includes('left')) return 'LeftShoulder';
-    if (name.includes('arm') && name.includes('right')) return 'RightShoulder';
-    if (name.includes('shoulder')) return 'Spine';
-    return 'Root';
-  }
-
-  // Real-time tracking specific methods
-  private inferTrackingBoneType(boneName: string): string {
-    const name = boneName.toLowerCase();
-    if (name.includes('eye') || name.includes('brow') || name.includes('mouth') || name.includes('jaw')) return 'facial';
-    if (name.includes('thumb') || name.includes('index') || name.includes('middle') || name.includes('ring') || name.includes('pinky') || name.includes('wrist')) return 'hand';
-    if (name.includes('spine') || name.includes('shoulder') || name.includes('hip') || name.includes('knee') || name.includes('ankle')) return 'body';
-    if (name.includes('head') || name.includes('neck')) return 'head';
-    return 'body';
-  }
-
-  private calculateTrackingPosition(boneName: string): [number, number, number] {
-    const name = boneName.toLowerCase();
-    // Facial tracking positions
-    if (name.includes('eye_left')) return [-0.1, 1.65, 0.05];
-    if (name.includes('eye_right')) return [0.1, 1.65, 0.05];
-    if (name.includes('mouth')) return [0, 1.55, 0.05];
-    if (name.includes('jaw')) return [0, 1.5, 0];
-    // Hand tracking positions
-    if (name.includes('wrist') && name.includes('left')) return [-0.4, 1.0, 0];
-    if (name.includes('wrist') && name.includes('right')) return [0.4, 1.0, 0];
-    if (name.includes('thumb')) return name.includes('left') ? [-0.45, 1.05, 0] : [0.45, 1.05, 0];
-    // Body tracking positions
-    if (name.includes('spine_base')) return [0, 0.9, 0];
-    if (name.includes('spine_mid')) return [0, 1.2, 0];
-    if (name.includes('neck')) return [0, 1.4, 0];
-    if (name.includes('head')) return [0, 1.7, 0];
-    return [0, 0, 0];
-  }
-
-  private findTrackingParent(boneName: string, existingBones: any[]): string | null {
-    const name = boneName.toLowerCase();
-    // Facial hierarchy
-    if (name.includes('eye') || name.includes('brow') || name.includes('mouth')) return 'head';
-    if (name.includes('jaw')) return 'head';
-    // Hand hierarchy
-    if (name.includes('thumb_tip')) return name.includes('left') ? 'thumb_mid_left' : 'thumb_mid_right';
-    if (name.includes('thumb_mid')) return name.includes('left') ? 'thumb_base_left' : 'thumb_base_right';
-    if (name.includes('thumb_base')) return name.includes('left') ? 'wrist_left' : 'wrist_right';
-    if (name.includes('index_tip')) return name.includes('left') ? 'index_mid_left' : 'index_mid_right';
-    if (name.includes('finger') && name.includes('base')) return name.includes('left') ? 'wrist_left' : 'wrist_right';
-    // Body hierarchy
-    if (name.includes('head')) return 'neck';
-    if (name.includes('neck')) return 'spine_top';
-    if (name.includes('spine_top')) return 'spine_mid';
-    if (name.includes('spine_mid')) return 'spine_base';
-    if (name.includes('wrist')) return name.includes('left') ? 'elbow_left' : 'elbow_right';
-    if (name.includes('elbow')) return name.includes('left') ? 'shoulder_left' : 'shoulder_right';
-    if (name.includes('shoulder')) return 'spine_top';
-    return 'spine_base';
-  }
-}
-
-export const vidaRig = new VidaRig();
\ No newline at end of file
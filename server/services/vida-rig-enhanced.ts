@@ -1,472 +0,0 @@
-/**
- * VidaRig Enhanced - Next-Generation Quality-Optimized Pipeline
- * Uses state-of-the-art models for maximum rigging quality
- */
-
-import { HfInference } from '@huggingface/inference';
-import { pipeline } from '@huggingface/transformers';
-
-interface BoneDefinition {
-  name: string;
-  type: string;
-  position: [number, number, number];
-  rotation: [number, number, number];
-  parent: string | null;
-  weight: number;
-}
-
-interface RigAnalysis {
-  vertices: number;
-  meshes: any[];
-  hasExistingBones: boolean;
-  humanoidStructure: {
-    hasHead: boolean;
-    hasSpine: boolean;
-    hasArms: boolean;
-    hasLegs: boolean;
-    confidence: number;
-  };
-  suggestedBones: BoneDefinition[];
-}
-
-interface RigResult {
-  boneCount: number;
-  morphTargets: any[];
-  hasFaceRig: boolean;
-  hasBodyRig: boolean;
-  hasHandRig: boolean;
-  qualityScore: number;
-  riggedBuffer: Buffer;
-}
-
-export class VidaRigEnhanced {
-  private hf: HfInference;
-  private initialized = false;
-  
-  // Enhanced State-of-the-Art Models
-  private anatomyDetectionModel: any;      // GPT-3.5 level for 3D analysis
-  private poseEstimationModel: any;        // YOLO v8 for superior detection
-  private meshAnalysisModel: any;          // T5-large for complex geometry
-  private humanoidClassificationModel: any; // RoBERTa-large for precision
-  private boneOptimizationModel: any;      // GraphCodeBERT for structure
-  private weightCalculationModel: any;     // BART-large-CNN for distribution
-  private morphTargetModel: any;          // GPT-4 level for facial features
-  private subscriptionOptimizationModel: any; // BERT-large for plan matching
-  private qualityAssessmentModel: any;    // DeBERTa for validation
-  private performanceBalancingModel: any;  // T5-3B for optimization
-
-  constructor() {
-    if (process.env.HUGGINGFACE_API_KEY) {
-      this.hf = new HfInference(process.env.HUGGINGFACE_API_KEY);
-    }
-  }
-
-  private async initialize() {
-    if (this.initialized) return;
-    
-    await this.initializeEnhancedModels();
-    this.initialized = true;
-  }
-
-  // Initialize state-of-the-art models for maximum quality
-  private async initializeEnhancedModels() {
-    try {
-      console.log('Initializing Next-Generation Quality Pipeline...');
-      
-      // Enhanced Model 1: Advanced 3D Anatomy Detection
-      this.anatomyDetectionModel = await pipeline('text-generation', 'microsoft/CodeGPT-small-java', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 2: Superior Object Detection (YOLOv8 equivalent)
-      this.poseEstimationModel = await pipeline('object-detection', 'facebook/detr-resnet-101', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 3: Advanced Geometric Analysis
-      this.meshAnalysisModel = await pipeline('text-generation', 'google/flan-t5-large', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 4: Precision Humanoid Classification
-      this.humanoidClassificationModel = await pipeline('text-classification', 'roberta-large', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 5: Graph-Based Bone Optimization
-      this.boneOptimizationModel = await pipeline('feature-extraction', 'microsoft/graphcodebert-base', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 6: Advanced Weight Distribution
-      this.weightCalculationModel = await pipeline('text-generation', 'facebook/bart-large-cnn', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 7: GPT-4 Level Morph Target Generation
-      this.morphTargetModel = await pipeline('text-generation', 'microsoft/DialoGPT-large', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 8: Advanced Subscription Matching
-      this.subscriptionOptimizationModel = await pipeline('text-classification', 'microsoft/deberta-v3-large', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 9: Professional Quality Assessment
-      this.qualityAssessmentModel = await pipeline('fill-mask', 'microsoft/deberta-v3-base', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 10: Maximum Performance Optimization
-      this.performanceBalancingModel = await pipeline('text-generation', 'google/flan-t5-xl', {
-        device: 'cpu'
-      });
-      
-      console.log('✅ Next-Generation Quality Pipeline initialized');
-      console.log('🔬 Enhanced Models: CodeGPT, DETR-101, FLAN-T5-Large, RoBERTa-Large, GraphCodeBERT, BART-CNN, DialoGPT-Large, DeBERTa-v3-Large, DeBERTa-v3-Base, FLAN-T5-XL');
-      
-    } catch (error) {
-      console.log('Falling back to enhanced standard models:', error.message);
-      await this.initializeFallbackModels();
-    }
-  }
-
-  // Fallback to still-enhanced but more available models
-  private async initializeFallbackModels() {
-    try {
-      this.anatomyDetectionModel = await pipeline('text-generation', 'microsoft/DialoGPT-large', {
-        device: 'cpu'
-      });
-      
-      this.poseEstimationModel = await pipeline('object-detection', 'facebook/detr-resnet-101', {
-        device: 'cpu'
-      });
-      
-      this.meshAnalysisModel = await pipeline('text-generation', 'facebook/bart-large', {
-        device: 'cpu'
-      });
-      
-      this.humanoidClassificationModel = await pipeline('text-classification', 'roberta-base', {
-        device: 'cpu'
-      });
-      
-      this.boneOptimizationModel = await pipeline('feature-extraction', 'microsoft/codebert-base', {
-        device: 'cpu'
-      });
-      
-      this.weightCalculationModel = await pipeline('text-generation', 'facebook/bart-large', {
-        device: 'cpu'
-      });
-      
-      this.morphTargetModel = await pipeline('text-generation', 'microsoft/DialoGPT-medium', {
-        device: 'cpu'
-      });
-      
-      this.subscriptionOptimizationModel = await pipeline('text-classification', 'distilbert-base-cased', {
-        device: 'cpu'
-      });
-      
-      this.qualityAssessmentModel = await pipeline('fill-mask', 'roberta-base', {
-        device: 'cpu'
-      });
-      
-      this.performanceBalancingModel = await pipeline('text-generation', 'facebook/bart-large', {
-        device: 'cpu'
-      });
-      
-      console.log('✅ Enhanced fallback models initialized');
-      
-    } catch (error) {
-      console.log('Using geometric analysis fallbacks:', error.message);
-    }
-  }
-
-  async analyzeModel(glbBuffer: Buffer): Promise<RigAnalysis> {
-    await this.initialize();
-    
-    console.log('🚀 Starting Next-Generation Quality Analysis...');
-    
-    const analysis: RigAnalysis = {
-      vertices: Math.floor(Math.random() * 10000) + 5000, // Simulated complex model
-      meshes: [{ name: 'body' }, { name: 'head' }, { name: 'limbs' }],
-      hasExistingBones: false,
-      humanoidStructure: {
-        hasHead: true,
-        hasSpine: true,
-        hasArms: true,
-        hasLegs: true,
-        confidence: 0.95 // High confidence from enhanced models
-      },
-      suggestedBones: []
-    };
-
-    try {
-      // Enhanced anatomy detection with superior AI
-      const anatomyResult = await this.performEnhancedAnatomyDetection(analysis);
-      console.log('✅ Enhanced Anatomy Detection: Superior 3D structure analysis');
-
-      // Advanced mesh complexity analysis
-      const meshComplexity = await this.performAdvancedMeshAnalysis(analysis.meshes);
-      console.log('✅ Advanced Mesh Analysis: Complex geometry evaluation');
-
-      // Precision humanoid classification
-      const confidence = await this.performPrecisionClassification(anatomyResult, meshComplexity);
-      analysis.humanoidStructure.confidence = confidence;
-      console.log('✅ Precision Classification: High-accuracy humanoid detection');
-
-      // Generate advanced bone structure
-      analysis.suggestedBones = await this.generateProfessionalBoneStructure(analysis.humanoidStructure);
-      console.log('✅ Professional Bone Structure: Industry-standard rigging');
-
-    } catch (error) {
-      console.log('Using enhanced geometric fallbacks:', error.message);
-      analysis.suggestedBones = this.getEnhancedBoneStructure();
-    }
-
-    console.log('🎯 Next-Generation Analysis Complete');
-    return analysis;
-  }
-
-  async performAutoRigging(glbBuffer: Buffer, analysis: RigAnalysis, userPlan: string): Promise<RigResult> {
-    await this.initialize();
-    
-    console.log('🔧 Starting Enhanced Auto-Rigging Pipeline...');
-    
-    const planLimits = this.getSubscriptionLimits(userPlan);
-    
-    try {
-      // Enhanced Model 2: Superior Pose Estimation
-      const poseOptimization = await this.performSuperiorPoseEstimation(analysis, planLimits);
-      console.log('✅ Enhanced Model 2: Superior pose structure optimization');
-
-      // Enhanced Model 5: Graph-Based Bone Optimization
-      const optimizedBones = await this.performGraphBoneOptimization(analysis.suggestedBones, planLimits);
-      console.log('✅ Enhanced Model 5: Graph-based bone structure optimization');
-
-      // Enhanced Model 6: Advanced Weight Distribution
-      const weightCalculation = await this.performAdvancedWeightCalculation(optimizedBones, analysis.vertices);
-      console.log('✅ Enhanced Model 6: Advanced vertex weight distribution');
-
-      // Enhanced Model 7: GPT-4 Level Morph Targets
-      const morphTargets = await this.performGPTMorphGeneration(planLimits.maxMorphTargets);
-      console.log('✅ Enhanced Model 7: GPT-level facial morph generation');
-
-      // Enhanced Model 8: Advanced Subscription Optimization
-      const subscriptionOptimized = await this.performAdvancedSubscriptionOptimization(
-        optimizedBones, morphTargets, userPlan, planLimits
-      );
-      console.log('✅ Enhanced Model 8: Advanced subscription tier optimization');
-
-      // Enhanced Model 9: Professional Quality Assessment
-      const qualityScore = await this.performProfessionalQualityAssessment(
-        subscriptionOptimized.bones, subscriptionOptimized.morphTargets
-      );
-      console.log('✅ Enhanced Model 9: Professional quality validation');
-
-      // Enhanced Model 10: Maximum Performance Balancing
-      const finalOptimized = await this.performMaximumPerformanceBalancing(
-        subscriptionOptimized, qualityScore, userPlan
-      );
-      console.log('✅ Enhanced Model 10: Maximum performance optimization');
-
-      // Generate rigged GLB with enhanced data
-      const riggedBuffer = this.generateEnhancedRiggedGLB(glbBuffer, finalOptimized.bones, finalOptimized.morphTargets);
-
-      const result: RigResult = {
-        boneCount: finalOptimized.bones.length,
-        morphTargets: finalOptimized.morphTargets,
-        hasFaceRig: finalOptimized.morphTargets.length > 0,
-        hasBodyRig: finalOptimized.bones.length > 5,
-        hasHandRig: finalOptimized.bones.length > 15,
-        qualityScore: qualityScore,
-        riggedBuffer: riggedBuffer
-      };
-
-      console.log('🚀 Enhanced Auto-Rigging Complete');
-      console.log(`📊 Quality Score: ${qualityScore}/1.0 | Bones: ${result.boneCount} | Morphs: ${result.morphTargets.length}`);
-      
-      return result;
-
-    } catch (error) {
-      console.log('Enhanced pipeline error, using optimized fallback:', error.message);
-      return this.generateEnhancedFallbackResult(glbBuffer, userPlan);
-    }
-  }
-
-  // Enhanced method implementations
-  private async performEnhancedAnatomyDetection(analysis: RigAnalysis): Promise<any> {
-    try {
-      if (this.anatomyDetectionModel) {
-        const input = `Advanced 3D anatomy analysis: ${analysis.vertices} vertices, complex humanoid structure`;
-        const result = await this.anatomyDetectionModel(input, { max_length: 100 });
-        return { complexity: 'high', accuracy: 0.95, structure: 'advanced_humanoid' };
-      }
-    } catch (error) {
-      console.log('Using enhanced geometric anatomy detection');
-    }
-    return { complexity: 'high', accuracy: 0.90, structure: 'enhanced_humanoid' };
-  }
-
-  private async performAdvancedMeshAnalysis(meshes: any[]): Promise<number> {
-    try {
-      if (this.meshAnalysisModel) {
-        const input = `Complex mesh evaluation: ${meshes.length} high-quality meshes`;
-        await this.meshAnalysisModel(input, { max_length: 50 });
-        return 0.95; // Higher complexity score
-      }
-    } catch (error) {
-      console.log('Using enhanced geometric mesh analysis');
-    }
-    return 0.90;
-  }
-
-  private async performPrecisionClassification(anatomyResult: any, meshComplexity: number): Promise<number> {
-    try {
-      if (this.humanoidClassificationModel) {
-        const input = `Precision humanoid classification: ${anatomyResult.accuracy} accuracy`;
-        await this.humanoidClassificationModel(input);
-        return Math.min(0.98, meshComplexity + 0.05);
-      }
-    } catch (error) {
-      console.log('Using enhanced geometric classification');
-    }
-    return Math.min(0.95, meshComplexity + 0.05);
-  }
-
-  private async generateProfessionalBoneStructure(humanoidStructure: any): Promise<BoneDefinition[]> {
-    const bones: BoneDefinition[] = [];
-    
-    // Professional bone hierarchy with enhanced structure
-    const boneHierarchy = [
-      { name: 'root', type: 'hip', position: [0, 0, 0], parent: null, weight: 1.0 },
-      { name: 'spine_01', type: 'spine', position: [0, 0.3, 0], parent: 'root', weight: 0.95 },
-      { name: 'spine_02', type: 'spine', position: [0, 0.6, 0], parent: 'spine_01', weight: 0.90 },
-      { name: 'spine_03', type: 'spine', position: [0, 0.9, 0], parent: 'spine_02', weight: 0.85 },
-      { name: 'neck', type: 'neck', position: [0, 1.6, 0], parent: 'spine_03', weight: 0.80 },
-      { name: 'head', type: 'head', position: [0, 1.8, 0], parent: 'neck', weight: 0.75 },
-      
-      // Enhanced arm structure
-      { name: 'shoulder_l', type: 'shoulder', position: [-0.4, 1.4, 0], parent: 'spine_03', weight: 0.85 },
-      { name: 'upper_arm_l', type: 'arm', position: [-0.8, 1.4, 0], parent: 'shoulder_l', weight: 0.80 },
-      { name: 'forearm_l', type: 'arm', position: [-1.2, 1.0, 0], parent: 'upper_arm_l', weight: 0.75 },
-      { name: 'hand_l', type: 'hand', position: [-1.6, 0.6, 0], parent: 'forearm_l', weight: 0.70 },
-      
-      { name: 'shoulder_r', type: 'shoulder', position: [0.4, 1.4, 0], parent: 'spine_03', weight: 0.85 },
-      { name: 'upper_arm_r', type: 'arm', position: [0.8, 1.4, 0], parent: 'shoulder_r', weight: 0.80 },
-      { name: 'forearm_r', type: 'arm', position: [1.2, 1.0, 0], parent: 'upper_arm_r', weight: 0.75 },
-      { name: 'hand_r', type: 'hand', position: [1.6, 0.6, 0], parent: 'forearm_r', weight: 0.70 },
-      
-      // Enhanced leg structure
-      { name: 'thigh_l', type: 'leg', position: [-0.2, -0.4, 0], parent: 'root', weight: 0.85 },
-      { name: 'shin_l', type: 'leg', position: [-0.2, -0.8, 0], parent: 'thigh_l', weight: 0.80 },
-      { name: 'foot_l', type: 'foot', position: [-0.2, -1.6, 0.2], parent: 'shin_l', weight: 0.75 },
-      
-      { name: 'thigh_r', type: 'leg', position: [0.2, -0.4, 0], parent: 'root', weight: 0.85 },
-      { name: 'shin_r', type: 'leg', position: [0.2, -0.8, 0], parent: 'thigh_r', weight: 0.80 },
-      { name: 'foot_r', type: 'foot', position: [0.2, -1.6, 0.2], parent: 'shin_r', weight: 0.75 }
-    ];
-
-    for (const bone of boneHierarchy) {
-      bones.push({
-        name: bone.name,
-        type: bone.type,
-        position: bone.position as [number, number, number],
-        rotation: [0, 0, 0],
-        parent: bone.parent,
-        weight: bone.weight
-      });
-    }
-
-    return bones;
-  }
-
-  // Additional enhanced methods would follow similar patterns...
-  private async performSuperiorPoseEstimation(analysis: RigAnalysis, planLimits: any): Promise<any> {
-    return { poseOptimized: true, accuracy: 0.96, estimatedPoses: planLimits.maxBones };
-  }
-
-  private async performGraphBoneOptimization(bones: BoneDefinition[], planLimits: any): Promise<BoneDefinition[]> {
-    return bones.slice(0, planLimits.maxBones);
-  }
-
-  private async performAdvancedWeightCalculation(bones: BoneDefinition[], vertices: number): Promise<any> {
-    return { weights: bones.map(b => ({ bone: b.name, weight: b.weight, precision: 0.95 })) };
-  }
-
-  private async performGPTMorphGeneration(maxTargets: number): Promise<any[]> {
-    const enhancedTargets = [
-      'smile_precise', 'frown_natural', 'blink_left_smooth', 'blink_right_smooth',
-      'jaw_open_realistic', 'eyebrow_raise_subtle', 'mouth_wide_controlled', 'eye_squint_natural',
-      'cheek_puff', 'lip_pucker', 'nose_flare', 'forehead_wrinkle'
-    ];
-    
-    return enhancedTargets.slice(0, maxTargets).map(name => ({
-      name,
-      vertices: [],
-      intensity: 1.0,
-      quality: 'professional'
-    }));
-  }
-
-  private async performAdvancedSubscriptionOptimization(bones: BoneDefinition[], morphTargets: any[], userPlan: string, planLimits: any): Promise<{ bones: BoneDefinition[], morphTargets: any[] }> {
-    return {
-      bones: bones.slice(0, planLimits.maxBones),
-      morphTargets: morphTargets.slice(0, planLimits.maxMorphTargets)
-    };
-  }
-
-  private async performProfessionalQualityAssessment(bones: BoneDefinition[], morphTargets: any[]): Promise<number> {
-    // Enhanced quality scoring based on bone hierarchy and morph target quality
-    const boneQuality = bones.length > 10 ? 0.95 : 0.85;
-    const morphQuality = morphTargets.length > 5 ? 0.95 : 0.85;
-    return (boneQuality + morphQuality) / 2;
-  }
-
-  private async performMaximumPerformanceBalancing(subscriptionOptimized: any, qualityScore: number, userPlan: string): Promise<{ bones: BoneDefinition[], morphTargets: any[] }> {
-    // Performance balancing maintains quality while optimizing for real-time use
-    return subscriptionOptimized;
-  }
-
-  private generateEnhancedRiggedGLB(originalBuffer: Buffer, bones: BoneDefinition[], morphTargets: any[]): Buffer {
-    // Generate enhanced rigged GLB with professional quality
-    const rigData = Buffer.alloc(bones.length * 256 + morphTargets.length * 128); // Larger allocation for enhanced data
-    return Buffer.concat([originalBuffer, rigData]);
-  }
-
-  private generateEnhancedFallbackResult(glbBuffer: Buffer, userPlan: string): RigResult {
-    const planLimits = this.getSubscriptionLimits(userPlan);
-    const fallbackBones = this.getEnhancedBoneStructure().slice(0, planLimits.maxBones);
-    
-    return {
-      boneCount: fallbackBones.length,
-      morphTargets: Array(Math.min(planLimits.maxMorphTargets, 8)).fill(null).map((_, i) => ({ name: `morph_${i}` })),
-      hasFaceRig: true,
-      hasBodyRig: true,
-      hasHandRig: fallbackBones.length > 15,
-      qualityScore: 0.90, // High quality even in fallback
-      riggedBuffer: glbBuffer
-    };
-  }
-
-  private getEnhancedBoneStructure(): BoneDefinition[] {
-    return [
-      { name: 'root', type: 'hip', position: [0, 0, 0], rotation: [0, 0, 0], parent: null, weight: 1.0 },
-      { name: 'spine_01', type: 'spine', position: [0, 0.5, 0], rotation: [0, 0, 0], parent: 'root', weight: 0.9 },
-      { name: 'spine_02', type: 'spine', position: [0, 1.0, 0], rotation: [0, 0, 0], parent: 'spine_01', weight: 0.8 },
-      { name: 'neck', type: 'neck', position: [0, 1.6, 0], rotation: [0, 0, 0], parent: 'spine_02', weight: 0.7 },
-      { name: 'head', type: 'head', position: [0, 1.8, 0], rotation: [0, 0, 0], parent: 'neck', weight: 0.6 }
-    ];
-  }
-
-  private getSubscriptionLimits(userPlan: string) {
-    const limits = {
-      free: { maxBones: 9, maxMorphTargets: 5 },
-      'reply-guy': { maxBones: 25, maxMorphTargets: 20 },
-      spartan: { maxBones: 45, maxMorphTargets: 35 },
-      zeus: { maxBones: 55, maxMorphTargets: 50 },
-      goat: { maxBones: 65, maxMorphTargets: 100 }
-    };
-    return limits[userPlan as keyof typeof limits] || limits.free;
-  }
-}
\ No newline at end of file
@@ -1,143 +0,0 @@
-/**
- * VidaRig - Ultra-Fast Enhanced Pipeline for Auto-Rigging
- * Eliminates timeout issues with instant processing
- */
-
-export interface RigAnalysis {
-  vertices: number;
-  meshes: any[];
-  hasExistingBones: boolean;
-  humanoidStructure: {
-    hasHead: boolean;
-    hasSpine: boolean;
-    hasArms: boolean;
-    hasLegs: boolean;
-    confidence: number;
-  };
-  suggestedBones: BoneDefinition[];
-}
-
-export interface BoneDefinition {
-  name: string;
-  type: 'head' | 'neck' | 'spine' | 'shoulder' | 'arm' | 'hand' | 'hip' | 'leg' | 'foot';
-  position: [number, number, number];
-  rotation: [number, number, number];
-  parent: string | null;
-  weight: number;
-}
-
-export interface RiggedResult {
-  riggedBuffer: Buffer;
-  hasFaceRig: boolean;
-  hasBodyRig: boolean;
-  hasHandRig: boolean;
-  boneCount: number;
-  morphTargets: string[];
-}
-
-export class VidaRig {
-  private initialized = false;
-
-  async initialize() {
-    if (this.initialized) return;
-    console.log('🤖 VidaRig Ultra-Fast Pipeline ready');
-    this.initialized = true;
-  }
-
-  async analyzeModel(glbBuffer: Buffer): Promise<RigAnalysis> {
-    await this.initialize();
-    
-    // Fast analysis without complex parsing
-    const vertices = Math.floor(Math.random() * 40000) + 15000;
-    
-    return {
-      vertices,
-      meshes: [],
-      hasExistingBones: false,
-      humanoidStructure: {
-        hasHead: true,
-        hasSpine: true,
-        hasArms: true,
-        hasLegs: true,
-        confidence: 0.9
-      },
-      suggestedBones: []
-    };
-  }
-
-  async performLocalAutoRigging(glbBuffer: Buffer, analysis: RigAnalysis, tierConfig: any): Promise<RiggedResult> {
-    await this.initialize();
-    
-    console.log(`🚀 Ultra-Fast Pipeline for ${tierConfig.planId} (${analysis.vertices} vertices)`);
-    
-    // Instant processing - no API calls or delays
-    const optimization = this.optimizeRigging(analysis, tierConfig);
-    const riggedBuffer = this.createRiggedGLB(glbBuffer, optimization);
-    
-    const result: RiggedResult = {
-      riggedBuffer,
-      hasFaceRig: optimization.boneCount >= 20,
-      hasBodyRig: optimization.boneCount >= 15,
-      hasHandRig: optimization.boneCount >= 30,
-      boneCount: optimization.boneCount,
-      morphTargets: optimization.morphTargets
-    };
-
-    console.log(`✅ Ultra-Fast Pipeline complete: ${result.boneCount} bones, ${result.morphTargets.length} morphs`);
-    return result;
-  }
-
-  private optimizeRigging(analysis: RigAnalysis, tierConfig: any) {
-    console.log(`🎯 Optimizing for ${tierConfig.planId}: max ${tierConfig.maxBones} bones, ${tierConfig.maxMorphTargets} morphs`);
-    
-    // Intelligent optimization based on subscription tier and vertex count
-    const vertexFactor = Math.min(1.0, analysis.vertices / 30000);
-    const baseBones = Math.floor(tierConfig.maxBones * 0.7);
-    const boneCount = Math.min(tierConfig.maxBones, Math.max(15, baseBones + Math.floor(vertexFactor * 10)));
-    
-    const baseMorphs = Math.floor(tierConfig.maxMorphTargets * 0.6);
-    const morphCount = Math.min(tierConfig.maxMorphTargets, Math.max(5, baseMorphs + Math.floor(vertexFactor * 15)));
-    
-    const morphTargets = this.generateMorphNames(morphCount);
-    
-    return {
-      boneCount,
-      morphTargets,
-      tierOptimization: `${tierConfig.planId} optimization applied`
-    };
-  }
-
-  private generateMorphNames(count: number): string[] {
-    const morphs = [
-      'Happy', 'Sad', 'Angry', 'Surprised', 'Blink', 'Smile', 'Frown', 'Wink',
-      'OpenMouth', 'RaiseBrow', 'Squint', 'Joy', 'Fear', 'Disgust', 'Contempt',
-      'Neutral', 'Excited', 'Confused', 'Focused', 'Relaxed'
-    ];
-    return morphs.slice(0, count);
-  }
-
-  private createRiggedGLB(originalBuffer: Buffer, optimization: any): Buffer {
-    console.log(`🔧 Creating rigged GLB with ${optimization.boneCount} bones`);
-    
-    // Create enhanced buffer with rigging data
-    const enhancementFactor = 1 + (optimization.boneCount * 0.08) + (optimization.morphTargets.length * 0.03);
-    const riggedSize = Math.floor(originalBuffer.length * enhancementFactor);
-    const riggedBuffer = Buffer.alloc(riggedSize);
-    
-    // Copy original data
-    originalBuffer.copy(riggedBuffer, 0);
-    
-    // Add rigging metadata
-    const metadata = JSON.stringify({
-      bones: optimization.boneCount,
-      morphs: optimization.morphTargets.length,
-      enhanced: true,
-      version: 'ultra-fast-v1'
-    });
-    
-    Buffer.from(metadata).copy(riggedBuffer, originalBuffer.length);
-    return riggedBuffer;
-  }
-}
-
-export const vidaRig = new VidaRig();
\ No newline at end of file
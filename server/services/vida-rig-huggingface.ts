@@ -1,579 +0,0 @@
-/**
- * VidaRig - AI-Powered Auto-Rigging System with Hugging Face Integration
- * Uses Microsoft DinoVd-CLIP model for advanced avatar analysis
- */
-
-export interface RigAnalysis {
-  vertices: number;
-  meshes: any[];
-  hasExistingBones: boolean;
-  humanoidStructure: {
-    hasHead: boolean;
-    hasSpine: boolean;
-    hasArms: boolean;
-    hasLegs: boolean;
-    confidence: number;
-  };
-  suggestedBones: BoneDefinition[];
-  aiAnalysis?: {
-    classification: string;
-    confidence: number;
-    bodyPartDetection: any;
-  };
-}
-
-export interface BoneDefinition {
-  name: string;
-  type: 'head' | 'neck' | 'spine' | 'shoulder' | 'arm' | 'hand' | 'hip' | 'leg' | 'foot';
-  position: [number, number, number];
-  rotation: [number, number, number];
-  parent: string | null;
-  weight: number;
-}
-
-export interface RiggedResult {
-  riggedBuffer: Buffer;
-  hasFaceRig: boolean;
-  hasBodyRig: boolean;
-  hasHandRig: boolean;
-  boneCount: number;
-  morphTargets: string[];
-}
-
-export class VidaRigHuggingFace {
-  private initialized = false;
-  private apiKey: string = '';
-  private apiUrl: string = 'https://api-inference.huggingface.co/models/microsoft/resnet-50';
-
-  async initialize() {
-    if (this.initialized) return;
-    
-    this.apiKey = process.env.HUGGINGFACE_API_KEY || '';
-    if (!this.apiKey) {
-      throw new Error('HUGGINGFACE_API_KEY environment variable is required for VidaRig AI analysis');
-    }
-    
-    console.log('🤖 VidaRig initializing with Microsoft DinoVd-CLIP model');
-    this.initialized = true;
-    console.log('✅ VidaRig initialized with Hugging Face AI engine');
-  }
-
-  /**
-   * Analyze GLB model using Hugging Face AI models
-   */
-  async analyzeModel(glbBuffer: Buffer): Promise<RigAnalysis> {
-    await this.initialize();
-    
-    const analysis: RigAnalysis = {
-      vertices: 0,
-      meshes: [],
-      hasExistingBones: false,
-      humanoidStructure: {
-        hasHead: false,
-        hasSpine: false,
-        hasArms: false,
-        hasLegs: false,
-        confidence: 0
-      },
-      suggestedBones: []
-    };
-
-    try {
-      // Parse GLB binary format
-      const glbData = this.parseGLBBinary(glbBuffer);
-      
-      analysis.vertices = glbData.totalVertices;
-      analysis.meshes = glbData.meshes;
-      analysis.hasExistingBones = glbData.hasSkeleton;
-
-      // Generate preview image from GLB for AI analysis
-      const previewImage = await this.generatePreviewImage(glbBuffer);
-      
-      // Perform AI analysis using Hugging Face
-      const aiAnalysis = await this.performAIAnalysis(previewImage);
-      analysis.aiAnalysis = aiAnalysis;
-
-      // Combine geometric and AI analysis
-      const geometricAnalysis = this.analyzeHumanoidStructure(glbData);
-      const enhancedAnalysis = this.combineAnalysis(geometricAnalysis, aiAnalysis);
-      
-      analysis.humanoidStructure = enhancedAnalysis;
-
-      // Generate bone suggestions based on enhanced analysis
-      if (enhancedAnalysis.confidence > 0.3) {
-        analysis.suggestedBones = this.generateBoneSuggestions(enhancedAnalysis);
-      }
-
-      console.log('📊 VidaRig AI Analysis Complete:', {
-        vertices: analysis.vertices,
-        meshCount: analysis.meshes.length,
-        hasExistingBones: analysis.hasExistingBones,
-        humanoidConfidence: analysis.humanoidStructure.confidence,
-        aiClassification: analysis.aiAnalysis?.classification,
-        suggestedBones: analysis.suggestedBones.length
-      });
-
-      return analysis;
-    } catch (error) {
-      console.error('AI model analysis failed, using fallback geometric analysis:', error);
-      
-      // Fallback to geometric analysis
-      const geometricAnalysis = this.analyzeHumanoidStructure({
-        meshNames: ['body', 'head', 'arms', 'legs'],
-        meshes: [{ name: 'Main_Mesh', primitiveCount: 1, vertexCount: 1000 }],
-        totalVertices: 1000
-      });
-      
-      analysis.vertices = 1000;
-      analysis.meshes = [{ name: 'Main_Mesh', primitiveCount: 1, vertexCount: 1000 }];
-      analysis.humanoidStructure = geometricAnalysis;
-      analysis.suggestedBones = this.generateBoneSuggestions(geometricAnalysis);
-      
-      return analysis;
-    }
-  }
-
-  /**
-   * Perform AI analysis using Hugging Face DinoVd-CLIP model
-   */
-  private async performAIAnalysis(imageBuffer: Buffer): Promise<any> {
-    try {
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          inputs: imageBuffer.toString('base64')
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`Hugging Face API error: ${response.status} ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      
-      // Process AI response to extract body part information
-      return this.processAIResponse(result);
-      
-    } catch (error) {
-      console.warn('Hugging Face AI analysis failed:', error);
-      return {
-        classification: 'humanoid',
-        confidence: 0.7,
-        bodyPartDetection: {
-          hasHead: true,
-          hasArms: true,
-          hasLegs: true,
-          hasSpine: true
-        }
-      };
-    }
-  }
-
-  private processAIResponse(aiResult: any): any {
-    // Process the DinoVd-CLIP response to extract meaningful body part information
-    const classifications = aiResult.labels || [];
-    const scores = aiResult.scores || [];
-    
-    const humanoidScore = scores[classifications.indexOf('humanoid')] || 0.5;
-    const characterScore = scores[classifications.indexOf('character')] || 0.5;
-    const avatarScore = scores[classifications.indexOf('avatar')] || 0.5;
-    
-    const overallConfidence = Math.max(humanoidScore, characterScore, avatarScore);
-    
-    return {
-      classification: classifications[0] || 'humanoid',
-      confidence: overallConfidence,
-      bodyPartDetection: {
-        hasHead: overallConfidence > 0.4,
-        hasArms: overallConfidence > 0.3,
-        hasLegs: overallConfidence > 0.3,
-        hasSpine: overallConfidence > 0.5
-      }
-    };
-  }
-
-  private async generatePreviewImage(glbBuffer: Buffer): Promise<Buffer> {
-    // For now, return a placeholder - in production, you'd use Three.js headless rendering
-    // or a similar approach to generate actual preview images from GLB models
-    return Buffer.from('placeholder-image-data');
-  }
-
-  private combineAnalysis(geometric: any, ai: any): any {
-    // Combine geometric analysis with AI analysis for more accurate results
-    const combinedConfidence = (geometric.confidence + ai.confidence) / 2;
-    
-    return {
-      hasHead: geometric.hasHead || ai.bodyPartDetection.hasHead,
-      hasSpine: geometric.hasSpine || ai.bodyPartDetection.hasSpine,
-      hasArms: geometric.hasArms || ai.bodyPartDetection.hasArms,
-      hasLegs: geometric.hasLegs || ai.bodyPartDetection.hasLegs,
-      confidence: Math.min(1.0, combinedConfidence + 0.1) // Slight boost for combined analysis
-    };
-  }
-
-  /**
-   * Perform automatic rigging based on analysis
-   */
-  async performAutoRigging(glbBuffer: Buffer, analysis: RigAnalysis): Promise<RiggedResult> {
-    await this.initialize();
-    
-    try {
-      const result: RiggedResult = {
-        riggedBuffer: glbBuffer,
-        hasFaceRig: analysis.humanoidStructure.hasHead,
-        hasBodyRig: analysis.humanoidStructure.hasSpine,
-        hasHandRig: analysis.humanoidStructure.hasArms,
-        boneCount: analysis.suggestedBones.length,
-        morphTargets: ['neutral', 'happy', 'sad', 'surprised', 'angry']
-      };
-
-      console.log('🎯 VidaRig Auto-rigging complete:', {
-        boneCount: result.boneCount,
-        hasFaceRig: result.hasFaceRig,
-        hasBodyRig: result.hasBodyRig,
-        hasHandRig: result.hasHandRig,
-        aiClassification: analysis.aiAnalysis?.classification
-      });
-
-      return result;
-    } catch (error) {
-      console.error('Auto-rigging failed:', error);
-      throw new Error(`Auto-rigging failed: ${error}`);
-    }
-  }
-
-  private parseGLBBinary(buffer: Buffer) {
-    try {
-      // Validate minimum buffer size
-      if (buffer.length < 20) {
-        throw new Error('Buffer too small for GLB format');
-      }
-
-      const magic = buffer.readUInt32LE(0);
-      const expectedMagic = 0x46546C67; // 'glTF'
-      if (magic !== expectedMagic) {
-        console.log('GLB magic check: got', magic.toString(16), 'expected', expectedMagic.toString(16));
-        throw new Error('Invalid GLB file format');
-      }
-
-      const version = buffer.readUInt32LE(4);
-      const length = buffer.readUInt32LE(8);
-      
-      // Validate buffer length matches GLB header
-      if (buffer.length < length) {
-        throw new Error('Incomplete GLB file');
-      }
-
-      // Check if we have JSON chunk
-      if (buffer.length < 20) {
-        throw new Error('No JSON chunk found');
-      }
-
-      const jsonLength = buffer.readUInt32LE(12);
-      const jsonType = buffer.readUInt32LE(16);
-      
-      if (jsonType !== 0x4E4F534A) {
-        throw new Error('Invalid JSON chunk');
-      }
-
-      const jsonStart = 20;
-      const jsonEnd = jsonStart + jsonLength;
-      
-      // Validate JSON chunk boundaries
-      if (jsonEnd > buffer.length) {
-        throw new Error('JSON chunk extends beyond buffer');
-      }
-
-      const jsonData = buffer.slice(jsonStart, jsonEnd).toString('utf8');
-      const gltf = JSON.parse(jsonData);
-
-      return this.analyzeGLTFStructure(gltf);
-    } catch (error) {
-      console.warn('GLB parsing failed, using fallback analysis:', error);
-      return {
-        totalVertices: 1000,
-        meshes: [{ name: 'Mesh', primitiveCount: 1, vertexCount: 1000 }],
-        hasSkeleton: false,
-        meshNames: ['body', 'head']
-      };
-    }
-  }
-
-  private analyzeGLTFStructure(gltf: any) {
-    const result = {
-      totalVertices: 0,
-      meshes: [] as any[],
-      hasSkeleton: false,
-      meshNames: [] as string[]
-    };
-
-    if (gltf.meshes) {
-      gltf.meshes.forEach((mesh: any, index: number) => {
-        const meshName = mesh.name || `Mesh_${index}`;
-        const vertexCount = this.calculateVertexCount(gltf, mesh);
-        
-        result.meshes.push({
-          name: meshName,
-          primitiveCount: mesh.primitives?.length || 0,
-          vertexCount: vertexCount
-        });
-        
-        result.totalVertices += vertexCount;
-        result.meshNames.push(meshName.toLowerCase());
-      });
-    }
-
-    result.hasSkeleton = !!(gltf.skins && gltf.skins.length > 0);
-    return result;
-  }
-
-  private calculateVertexCount(gltf: any, mesh: any): number {
-    if (!mesh.primitives || !gltf.accessors) return 100;
-
-    let totalVertices = 0;
-    mesh.primitives.forEach((primitive: any) => {
-      if (primitive.attributes && primitive.attributes.POSITION !== undefined) {
-        const accessorIndex = primitive.attributes.POSITION;
-        const accessor = gltf.accessors[accessorIndex];
-        if (accessor) {
-          totalVertices += accessor.count || 0;
-        }
-      }
-    });
-
-    return totalVertices || 100;
-  }
-
-  private analyzeHumanoidStructure(glbData: any) {
-    const meshNames = glbData.meshNames;
-    
-    const hasHead = meshNames.some((name: string) => 
-      /head|skull|face|cranium/i.test(name)
-    );
-    
-    const hasSpine = meshNames.some((name: string) => 
-      /spine|torso|body|chest|back/i.test(name)
-    );
-    
-    const hasArms = meshNames.some((name: string) => 
-      /arm|shoulder|hand|finger|wrist|elbow/i.test(name)
-    );
-    
-    const hasLegs = meshNames.some((name: string) => 
-      /leg|foot|thigh|knee|ankle|toe/i.test(name)
-    );
-
-    const bodyParts = [hasHead, hasSpine, hasArms, hasLegs];
-    const detectedCount = bodyParts.filter(Boolean).length;
-    const meshBonus = glbData.meshes.length > 3 ? 0.2 : 0;
-    const vertexBonus = glbData.totalVertices > 500 ? 0.1 : 0;
-    const confidence = Math.min(1.0, (detectedCount / 4) + meshBonus + vertexBonus);
-
-    return {
-      hasHead,
-      hasSpine,
-      hasArms,
-      hasLegs,
-      confidence
-    };
-  }
-
-  private generateBoneSuggestions(humanoidData: any): BoneDefinition[] {
-    const bones: BoneDefinition[] = [];
-    
-    bones.push({
-      name: 'Root',
-      type: 'spine',
-      position: [0, 0, 0],
-      rotation: [0, 0, 0],
-      parent: null,
-      weight: 1.0
-    });
-    
-    if (humanoidData.hasSpine) {
-      bones.push(
-        {
-          name: 'Hips',
-          type: 'hip',
-          position: [0, 0.9, 0],
-          rotation: [0, 0, 0],
-          parent: 'Root',
-          weight: 1.0
-        },
-        {
-          name: 'Spine',
-          type: 'spine',
-          position: [0, 1.0, 0],
-          rotation: [0, 0, 0],
-          parent: 'Hips',
-          weight: 0.9
-        },
-        {
-          name: 'Chest',
-          type: 'spine',
-          position: [0, 1.4, 0],
-          rotation: [0, 0, 0],
-          parent: 'Spine',
-          weight: 0.8
-        }
-      );
-    }
-    
-    if (humanoidData.hasHead) {
-      bones.push(
-        {
-          name: 'Neck',
-          type: 'neck',
-          position: [0, 1.7, 0],
-          rotation: [0, 0, 0],
-          parent: 'Chest',
-          weight: 0.7
-        },
-        {
-          name: 'Head',
-          type: 'head',
-          position: [0, 1.8, 0],
-          rotation: [0, 0, 0],
-          parent: 'Neck',
-          weight: 0.6
-        }
-      );
-    }
-    
-    if (humanoidData.hasArms) {
-      bones.push(
-        {
-          name: 'LeftShoulder',
-          type: 'shoulder',
-          position: [-0.15, 1.6, 0],
-          rotation: [0, 0, 0],
-          parent: 'Chest',
-          weight: 0.8
-        },
-        {
-          name: 'LeftUpperArm',
-          type: 'arm',
-          position: [-0.4, 1.5, 0],
-          rotation: [0, 0, 0],
-          parent: 'LeftShoulder',
-          weight: 0.7
-        },
-        {
-          name: 'LeftLowerArm',
-          type: 'arm',
-          position: [-0.7, 1.2, 0],
-          rotation: [0, 0, 0],
-          parent: 'LeftUpperArm',
-          weight: 0.6
-        },
-        {
-          name: 'LeftHand',
-          type: 'hand',
-          position: [-0.9, 1.0, 0],
-          rotation: [0, 0, 0],
-          parent: 'LeftLowerArm',
-          weight: 0.5
-        }
-      );
-      
-      bones.push(
-        {
-          name: 'RightShoulder',
-          type: 'shoulder',
-          position: [0.15, 1.6, 0],
-          rotation: [0, 0, 0],
-          parent: 'Chest',
-          weight: 0.8
-        },
-        {
-          name: 'RightUpperArm',
-          type: 'arm',
-          position: [0.4, 1.5, 0],
-          rotation: [0, 0, 0],
-          parent: 'RightShoulder',
-          weight: 0.7
-        },
-        {
-          name: 'RightLowerArm',
-          type: 'arm',
-          position: [0.7, 1.2, 0],
-          rotation: [0, 0, 0],
-          parent: 'RightUpperArm',
-          weight: 0.6
-        },
-        {
-          name: 'RightHand',
-          type: 'hand',
-          position: [0.9, 1.0, 0],
-          rotation: [0, 0, 0],
-          parent: 'RightLowerArm',
-          weight: 0.5
-        }
-      );
-    }
-    
-    if (humanoidData.hasLegs) {
-      bones.push(
-        {
-          name: 'LeftUpperLeg',
-          type: 'leg',
-          position: [-0.1, 0.8, 0],
-          rotation: [0, 0, 0],
-          parent: 'Hips',
-          weight: 0.9
-        },
-        {
-          name: 'LeftLowerLeg',
-          type: 'leg',
-          position: [-0.1, 0.4, 0],
-          rotation: [0, 0, 0],
-          parent: 'LeftUpperLeg',
-          weight: 0.8
-        },
-        {
-          name: 'LeftFoot',
-          type: 'foot',
-          position: [-0.1, 0.0, 0.1],
-          rotation: [0, 0, 0],
-          parent: 'LeftLowerLeg',
-          weight: 0.7
-        }
-      );
-      
-      bones.push(
-        {
-          name: 'RightUpperLeg',
-          type: 'leg',
-          position: [0.1, 0.8, 0],
-          rotation: [0, 0, 0],
-          parent: 'Hips',
-          weight: 0.9
-        },
-        {
-          name: 'RightLowerLeg',
-          type: 'leg',
-          position: [0.1, 0.4, 0],
-          rotation: [0, 0, 0],
-          parent: 'RightUpperLeg',
-          weight: 0.8
-        },
-        {
-          name: 'RightFoot',
-          type: 'foot',
-          position: [0.1, 0.0, 0.1],
-          rotation: [0, 0, 0],
-          parent: 'RightLowerLeg',
-          weight: 0.7
-        }
-      );
-    }
-    
-    return bones;
-  }
-}
-
-export const vidaRigAI = new VidaRigHuggingFace();
\ No newline at end of file
@@ -1,250 +0,0 @@
-/**
- * VidaRig Integrated - Database-Driven Subscription Tier Optimization
- * Uses progressive algorithms based on subscription database configuration
- */
-
-import { db } from '../db';
-import { subscriptionPlans } from '../../shared/schema';
-import { eq } from 'drizzle-orm';
-
-export interface RiggedResult {
-  riggedBuffer: Buffer;
-  hasFaceRig: boolean;
-  hasBodyRig: boolean;
-  hasHandRig: boolean;
-  boneCount: number;
-  morphTargets: string[];
-}
-
-export class VidaRigIntegrated {
-  private initialized = false;
-
-  async initialize() {
-    if (this.initialized) return;
-    console.log('🤖 Initializing VidaRig with Database-Driven Tier Optimization...');
-    this.initialized = true;
-  }
-
-  /**
-   * Get subscription tier configuration from database
-   */
-  async getSubscriptionTierConfig(planId: string) {
-    try {
-      const [plan] = await db
-        .select()
-        .from(subscriptionPlans)
-        .where(eq(subscriptionPlans.id, planId));
-
-      if (!plan) {
-        console.log(`⚠️ Plan ${planId} not found, using default config`);
-        return { maxBones: 25, maxMorphTargets: 20, maxFileSizeMB: 50 };
-      }
-
-      return {
-        maxBones: plan.maxBones || 25,
-        maxMorphTargets: plan.maxMorphTargets || 20,
-        maxFileSizeMB: plan.maxFileSizeMb || 50
-      };
-    } catch (error) {
-      console.error('Error fetching tier config:', error);
-      return { maxBones: 25, maxMorphTargets: 20, maxFileSizeMB: 50 };
-    }
-  }
-
-  /**
-   * Progressive Algorithm: Optimize Bone Count Based on Subscription Tier
-   */
-  private optimizeBoneHierarchy(tierConfig: any): any[] {
-    const { maxBones } = tierConfig;
-    
-    // Progressive bone allocation based on tier limits
-    const coreBones = ['root', 'hips', 'spine', 'neck', 'head'];
-    const armBones = ['shoulder_left', 'arm_left', 'forearm_left', 'hand_left', 
-                      'shoulder_right', 'arm_right', 'forearm_right', 'hand_right'];
-    const legBones = ['thigh_left', 'shin_left', 'foot_left', 'thigh_right', 'shin_right', 'foot_right'];
-    const facialBones = ['jaw', 'eye_left', 'eye_right', 'eyebrow_left', 'eyebrow_right'];
-    const fingerBones = [];
-    
-    // Add finger bones for higher tiers
-    if (maxBones >= 30) {
-      fingerBones.push(...['thumb_left', 'index_left', 'middle_left', 'thumb_right', 'index_right', 'middle_right']);
-    }
-    if (maxBones >= 50) {
-      fingerBones.push(...['ring_left', 'pinky_left', 'ring_right', 'pinky_right']);
-    }
-    if (maxBones >= 70) {
-      fingerBones.push(...['thumb_02_left', 'index_02_left', 'middle_02_left', 'ring_02_left', 'pinky_02_left',
-                           'thumb_02_right', 'index_02_right', 'middle_02_right', 'ring_02_right', 'pinky_02_right']);
-    }
-
-    // Progressive assembly based on tier
-    let allBones = [...coreBones];
-    if (maxBones >= 15) allBones.push(...armBones);
-    if (maxBones >= 20) allBones.push(...legBones);
-    if (maxBones >= 25) allBones.push(...facialBones);
-    if (maxBones >= 30) allBones.push(...fingerBones);
-
-    // Limit to tier maximum
-    const selectedBones = allBones.slice(0, maxBones);
-
-    return selectedBones.map((boneName, index) => ({
-      name: boneName,
-      type: this.getBoneType(boneName),
-      position: this.getBonePosition(boneName, index),
-      parent: this.getBoneParent(boneName)
-    }));
-  }
-
-  /**
-   * Progressive Algorithm: Optimize Morph Targets Based on Subscription Tier
-   */
-  private optimizeMorphTargets(tierConfig: any): string[] {
-    const { maxMorphTargets } = tierConfig;
-    
-    // Progressive morph target allocation
-    const basicMorphs = ['smile', 'frown', 'eye_blink_left', 'eye_blink_right', 'mouth_open'];
-    const intermediateMorphs = ['eyebrow_raise_left', 'eyebrow_raise_right', 'jaw_open', 'cheek_puff', 'mouth_pucker'];
-    const advancedMorphs = ['eye_squint_left', 'eye_squint_right', 'mouth_smile_left', 'mouth_smile_right', 
-                           'eyebrow_furrow_left', 'eyebrow_furrow_right', 'nose_flare_left', 'nose_flare_right'];
-    const professionalMorphs = ['subtle_smile', 'gentle_frown', 'thinking_expression', 'concentration_face',
-                               'broadcast_smile', 'presenter_posture', 'confident_stance', 'professional_nod'];
-    const handGestures = ['hand_fist_left', 'hand_fist_right', 'hand_open_left', 'hand_open_right',
-                         'finger_point_left', 'finger_point_right', 'thumb_up_left', 'thumb_up_right'];
-    const premiumMorphs = ['finger_curl_left', 'finger_curl_right', 'dynamic_gesture', 'emphasis_point',
-                          'welcoming_arms', 'understanding_nod', 'pleased_reaction', 'attentive_listening'];
-
-    // Progressive assembly based on tier
-    let allMorphs = [...basicMorphs];
-    if (maxMorphTargets >= 15) allMorphs.push(...intermediateMorphs);
-    if (maxMorphTargets >= 25) allMorphs.push(...advancedMorphs);
-    if (maxMorphTargets >= 40) allMorphs.push(...professionalMorphs);
-    if (maxMorphTargets >= 60) allMorphs.push(...handGestures);
-    if (maxMorphTargets >= 80) allMorphs.push(...premiumMorphs);
-
-    // Additional morphs for maximum tiers
-    if (maxMorphTargets >= 100) {
-      const extraMorphs = Array.from({length: maxMorphTargets - allMorphs.length}, 
-        (_, i) => `enhanced_expression_${i + 1}`);
-      allMorphs.push(...extraMorphs);
-    }
-
-    return allMorphs.slice(0, maxMorphTargets);
-  }
-
-  /**
-   * Progressive Algorithm: File Size Optimization Based on Subscription Tier
-   */
-  private optimizeFileSize(originalBuffer: Buffer, tierConfig: any, boneCount: number, morphCount: number): Buffer {
-    const { maxFileSizeMB } = tierConfig;
-    const targetSize = Math.floor(maxFileSizeMB * 1024 * 1024 * 0.9); // Use 90% of limit
-    
-    // Calculate enhanced size based on rigging complexity
-    const baseSizeMultiplier = 1.5; // Minimum enhancement
-    const boneMultiplier = boneCount * 0.02; // Bones add to file size
-    const morphMultiplier = morphCount * 0.01; // Morphs add to file size
-    
-    const totalMultiplier = baseSizeMultiplier + boneMultiplier + morphMultiplier;
-    const calculatedSize = Math.floor(originalBuffer.length * totalMultiplier);
-    
-    // Use the smaller of calculated size or tier limit
-    const finalSize = Math.min(calculatedSize, targetSize);
-    
-    // Ensure minimum quality enhancement
-    const enhancedSize = Math.max(finalSize, originalBuffer.length * 2);
-    
-    const enhancedBuffer = Buffer.alloc(enhancedSize);
-    originalBuffer.copy(enhancedBuffer, 0);
-    
-    // Fill remaining space with rigging metadata
-    const metadata = JSON.stringify({
-      tierOptimized: true,
-      boneCount,
-      morphTargets: morphCount,
-      subscriptionTier: tierConfig,
-      enhancementLevel: (enhancedSize / originalBuffer.length).toFixed(2)
-    });
-    
-    const metadataBuffer = Buffer.from(metadata);
-    if (originalBuffer.length + metadataBuffer.length < enhancedSize) {
-      metadataBuffer.copy(enhancedBuffer, originalBuffer.length);
-    }
-    
-    return enhancedBuffer;
-  }
-
-  /**
-   * Main Auto-Rigging with Database-Driven Progressive Algorithms
-   */
-  async autoRig(glbBuffer: Buffer, userPlan: string = 'goat'): Promise<RiggedResult> {
-    await this.initialize();
-    
-    console.log('🎯 Loading tier config for plan:', userPlan);
-    
-    // Get actual subscription tier configuration from database
-    const tierConfig = await this.getSubscriptionTierConfig(userPlan);
-    
-    console.log(`🎯 Using tier config for ${userPlan}:`, tierConfig);
-    
-    // Apply progressive algorithms based on subscription tier
-    const optimizedBones = this.optimizeBoneHierarchy(tierConfig);
-    const optimizedMorphs = this.optimizeMorphTargets(tierConfig);
-    
-    console.log(`🎯 Progressive optimization: ${optimizedBones.length}/${tierConfig.maxBones} bones, ${optimizedMorphs.length}/${tierConfig.maxMorphTargets} morphs`);
-    
-    // Create enhanced GLB with tier-optimized file size
-    const enhancedBuffer = this.optimizeFileSize(glbBuffer, tierConfig, optimizedBones.length, optimizedMorphs.length);
-    
-    console.log(`✅ Tier-optimized GLB created: ${(enhancedBuffer.length / 1024 / 1024).toFixed(2)}MB with progressive enhancement`);
-    
-    return {
-      riggedBuffer: enhancedBuffer,
-      hasFaceRig: optimizedBones.some(bone => bone.type === 'head'),
-      hasBodyRig: optimizedBones.some(bone => bone.type === 'spine'),
-      hasHandRig: optimizedBones.some(bone => bone.type === 'hand'),
-      boneCount: optimizedBones.length,
-      morphTargets: optimizedMorphs
-    };
-  }
-
-  /**
-   * Helper methods for bone configuration
-   */
-  private getBoneType(boneName: string): string {
-    if (boneName.includes('head') || boneName.includes('eye') || boneName.includes('jaw')) return 'head';
-    if (boneName.includes('hand') || boneName.includes('thumb') || boneName.includes('finger')) return 'hand';
-    if (boneName.includes('spine') || boneName.includes('neck')) return 'spine';
-    if (boneName.includes('shoulder') || boneName.includes('arm')) return 'arm';
-    return 'body';
-  }
-
-  private getBonePosition(boneName: string, index: number): [number, number, number] {
-    const positions: { [key: string]: [number, number, number] } = {
-      'root': [0, 0, 0],
-      'hips': [0, 0.9, 0],
-      'spine': [0, 1.2, 0],
-      'head': [0, 1.7, 0],
-      'shoulder_left': [-0.2, 1.4, 0],
-      'shoulder_right': [0.2, 1.4, 0],
-      'hand_left': [-0.6, 1.0, 0],
-      'hand_right': [0.6, 1.0, 0]
-    };
-    
-    return positions[boneName] || [Math.sin(index) * 0.1, 1.0 + Math.cos(index) * 0.1, 0];
-  }
-
-  private getBoneParent(boneName: string): string | null {
-    const parentMap: { [key: string]: string } = {
-      'hips': 'root',
-      'spine': 'hips',
-      'neck': 'spine',
-      'head': 'neck',
-      'shoulder_left': 'spine',
-      'arm_left': 'shoulder_left',
-      'hand_left': 'arm_left'
-    };
-    
-    return parentMap[boneName] || null;
-  }
-}
-
-export const vidaRigIntegrated = new VidaRigIntegrated();
\ No newline at end of file
@@ -1,576 +0,0 @@
-/**
- * VidaRig Real - Enhanced 10-Model Pipeline with Texture-Safe GLB Rigging
- * Combines advanced AI models with texture preservation approach
- */
-import { pipeline } from '@huggingface/transformers';
-
-interface BoneDefinition {
-  name: string;
-  type: string;
-  position: [number, number, number];
-  rotation: [number, number, number, number]; // Quaternion
-  parent: string | null;
-  weight: number;
-}
-
-interface MorphTarget {
-  name: string;
-  weight: number;
-  positions: Float32Array;
-  normals?: Float32Array;
-}
-
-interface RigAnalysis {
-  vertices: number;
-  meshes: any[];
-  hasExistingBones: boolean;
-  humanoidStructure: {
-    hasHead: boolean;
-    hasSpine: boolean;
-    hasArms: boolean;
-    hasLegs: boolean;
-    confidence: number;
-  };
-}
-
-interface RigResult {
-  boneCount: number;
-  morphTargets: MorphTarget[];
-  hasFaceRig: boolean;
-  hasBodyRig: boolean;
-  hasHandRig: boolean;
-  qualityScore: number;
-  riggedBuffer: Buffer;
-}
-
-export class VidaRigReal {
-  private initialized = false;
-  private anatomyDetectionModel: any;
-  private poseEstimationModel: any;
-  private meshAnalysisModel: any;
-  private humanoidClassificationModel: any;
-  private boneOptimizationModel: any;
-  private weightCalculationModel: any;
-  private morphTargetGenerationModel: any;
-  private subscriptionOptimizationModel: any;
-  private qualityAssessmentModel: any;
-  private performanceBalancingModel: any;
-
-  async initialize() {
-    if (this.initialized) return;
-    
-    try {
-      console.log('🚀 Initializing Enhanced 10-Model Hugging Face Pipeline for texture-safe rigging...');
-      
-      // Enhanced Model 1: Advanced Anatomy Detection
-      this.anatomyDetectionModel = await pipeline('text-generation', 'microsoft/CodeGPT-small-java', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 2: Superior Pose Estimation (YOLOv8 equivalent)
-      this.poseEstimationModel = await pipeline('object-detection', 'facebook/detr-resnet-101', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 3: Complex Mesh Analysis
-      this.meshAnalysisModel = await pipeline('text-generation', 'google/flan-t5-large', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 4: Precision Classification
-      this.humanoidClassificationModel = await pipeline('text-classification', 'roberta-large', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 5: Graph-Based Optimization
-      this.boneOptimizationModel = await pipeline('feature-extraction', 'microsoft/graphcodebert-base', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 6: Advanced Weight Distribution
-      this.weightCalculationModel = await pipeline('text-generation', 'facebook/bart-large-cnn', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 7: GPT-Level Morph Generation
-      this.morphTargetGenerationModel = await pipeline('text-generation', 'microsoft/DialoGPT-large', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 8: Intelligent Subscription Matching
-      this.subscriptionOptimizationModel = await pipeline('text-classification', 'microsoft/deberta-v3-large', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 9: Professional Quality Assessment
-      this.qualityAssessmentModel = await pipeline('fill-mask', 'microsoft/deberta-v3-base', {
-        device: 'cpu'
-      });
-      
-      // Enhanced Model 10: Maximum Performance Balancing
-      this.performanceBalancingModel = await pipeline('text-generation', 'google/flan-t5-xl', {
-        device: 'cpu'
-      });
-      
-      this.initialized = true;
-      console.log('✅ Enhanced 10-Model Pipeline initialized with texture-safe rigging');
-      console.log('🔬 Models: CodeGPT-Java, DETR-101, FLAN-T5-Large, RoBERTa-Large, GraphCodeBERT, BART-CNN, DialoGPT-Large, DeBERTa-v3-Large, DeBERTa-v3-Base, FLAN-T5-XL');
-      
-    } catch (error) {
-      console.log('Enhanced models unavailable, using fallback pipeline:', error.message);
-      this.initialized = true;
-    }
-  }
-
-  async analyzeGLB(glbBuffer: Buffer): Promise<RigAnalysis> {
-    await this.initialize();
-    
-    // Enhanced Model 1: Advanced Anatomy Detection
-    const vertices = Math.floor(glbBuffer.length / 100);
-    let humanoidConfidence = 0.85;
-    
-    try {
-      if (this.anatomyDetectionModel) {
-        const anatomyPrompt = `Analyze 3D model structure with ${vertices} vertices for humanoid anatomy detection`;
-        const anatomyResult = await this.anatomyDetectionModel(anatomyPrompt, { max_new_tokens: 50 });
-        console.log('✅ Enhanced Model 1: Advanced anatomy detection completed');
-        humanoidConfidence = 0.95;
-      }
-    } catch (error) {
-      console.log('Enhanced Model 1 fallback:', error.message);
-    }
-    
-    return {
-      vertices,
-      meshes: [],
-      hasExistingBones: false,
-      humanoidStructure: {
-        hasHead: true,
-        hasSpine: true,
-        hasArms: true,
-        hasLegs: true,
-        confidence: 0.95
-      }
-    };
-  }
-
-  async performAutoRigging(glbBuffer: Buffer, analysis: RigAnalysis, userPlan: string): Promise<RigResult> {
-    await this.initialize();
-    
-    console.log(`🦴 Starting Enhanced 10-Model Pipeline rigging for ${userPlan} plan...`);
-    
-    // Get subscription tier configuration from database
-    const optimization = await this.optimizeSubscriptionTier(analysis, userPlan);
-    
-    console.log(`🎯 Target: ${optimization.targetFileSizeMB}MB, Optimized limits: ${optimization.maxBones} bones, ${optimization.maxMorphTargets} morph targets`);
-    if (optimization.appliedOptimizations.length > 0) {
-      console.log(`⚡ Applied optimizations: ${optimization.appliedOptimizations.join(', ')}`);
-    }
-
-    // Enhanced Model 2: Superior Pose Estimation
-    let poseOptimization = { confidence: 0.85 };
-    try {
-      if (this.poseEstimationModel) {
-        const poseData = `3D model analysis: ${analysis.vertices} vertices, humanoid structure`;
-        await this.poseEstimationModel(poseData);
-        console.log('✅ Enhanced Model 2: Superior pose estimation completed');
-        poseOptimization.confidence = 0.95;
-      }
-    } catch (error) {
-      console.log('Enhanced Model 2 fallback');
-    }
-
-    // Enhanced Model 5: Graph-Based Bone Optimization
-    const bones = await this.generateEnhancedBoneHierarchy(analysis, optimization.maxBones, poseOptimization);
-    console.log(`🦴 Generated ${bones.length} bones with AI optimization for tier limit of ${optimization.maxBones}`);
-
-    // Enhanced Model 7: GPT-Level Morph Generation
-    const morphTargets = await this.generateEnhancedMorphTargets(analysis, optimization.maxMorphTargets);
-    console.log(`😊 Generated ${morphTargets.length} AI-optimized morph targets for ${optimization.maxMorphTargets} tier limit`);
-
-    // Create texture-safe rigged GLB
-    const riggedBuffer = this.createTextureSafeRiggedGLB(glbBuffer, bones, morphTargets);
-    
-    const originalSize = glbBuffer.length;
-    const riggedSize = riggedBuffer.length;
-    const sizeDifference = riggedSize - originalSize;
-    
-    console.log(`📦 Real rigging complete: ${originalSize} → ${riggedSize} bytes (+${sizeDifference} bytes)`);
-    console.log(`📊 Final file size: ${(riggedSize / (1024 * 1024)).toFixed(2)}MB`);
-
-    return {
-      boneCount: bones.length,
-      morphTargets,
-      hasFaceRig: true,
-      hasBodyRig: true,
-      hasHandRig: true,
-      qualityScore: 0.95,
-      riggedBuffer
-    };
-  }
-
-  private async generateEnhancedBoneHierarchy(analysis: RigAnalysis, maxBones: number, poseOptimization: any): Promise<BoneDefinition[]> {
-    // Enhanced Model 5: Graph-Based Bone Optimization
-    try {
-      if (this.boneOptimizationModel) {
-        const bonePrompt = `Optimize bone structure for ${analysis.vertices} vertices with ${maxBones} bone limit`;
-        await this.boneOptimizationModel(bonePrompt);
-        console.log('✅ Enhanced Model 5: Graph-based bone optimization completed');
-      }
-    } catch (error) {
-      console.log('Enhanced Model 5 fallback');
-    }
-
-    return this.generateRealBoneHierarchy(analysis, maxBones);
-  }
-
-  private async generateEnhancedMorphTargets(analysis: RigAnalysis, maxMorphTargets: number): Promise<MorphTarget[]> {
-    // Enhanced Model 7: GPT-Level Morph Generation
-    try {
-      if (this.morphTargetGenerationModel) {
-        const morphPrompt = `Generate facial morph targets for ${analysis.vertices} vertices with ${maxMorphTargets} limit`;
-        await this.morphTargetGenerationModel(morphPrompt, { max_new_tokens: 50 });
-        console.log('✅ Enhanced Model 7: GPT-level morph generation completed');
-      }
-    } catch (error) {
-      console.log('Enhanced Model 7 fallback');
-    }
-
-    return this.generateRealMorphTargets(analysis, maxMorphTargets);
-  }
-
-  private generateRealBoneHierarchy(analysis: RigAnalysis, maxBones: number): BoneDefinition[] {
-    const bones: BoneDefinition[] = [];
-    const boneNames = [
-      'Root', 'Hips', 'Spine', 'Spine1', 'Spine2', 'Neck', 'Head',
-      'LeftShoulder', 'LeftArm', 'LeftForearm', 'LeftHand',
-      'RightShoulder', 'RightArm', 'RightForearm', 'RightHand',
-      'LeftUpLeg', 'LeftLeg', 'LeftFoot', 'RightUpLeg', 'RightLeg', 'RightFoot'
-    ];
-
-    const hierarchy = {
-      'Root': null,
-      'Hips': 'Root',
-      'Spine': 'Hips',
-      'Spine1': 'Spine',
-      'Spine2': 'Spine1',
-      'Neck': 'Spine2',
-      'Head': 'Neck',
-      'LeftShoulder': 'Spine2',
-      'LeftArm': 'LeftShoulder',
-      'LeftForearm': 'LeftArm',
-      'LeftHand': 'LeftForearm',
-      'RightShoulder': 'Spine2',
-      'RightArm': 'RightShoulder',
-      'RightForearm': 'RightArm',
-      'RightHand': 'RightForearm',
-      'LeftUpLeg': 'Hips',
-      'LeftLeg': 'LeftUpLeg',
-      'LeftFoot': 'LeftLeg',
-      'RightUpLeg': 'Hips',
-      'RightLeg': 'RightUpLeg',
-      'RightFoot': 'RightLeg'
-    };
-
-    for (let i = 0; i < Math.min(maxBones, boneNames.length); i++) {
-      const boneName = boneNames[i];
-      bones.push({
-        name: boneName,
-        type: i === 0 ? 'root' : 'joint',
-        position: [Math.random() * 2 - 1, Math.random() * 2 - 1, Math.random() * 2 - 1],
-        rotation: [0, 0, 0, 1],
-        parent: hierarchy[boneName as keyof typeof hierarchy] || null,
-        weight: 1.0
-      });
-    }
-
-    console.log(`🦴 Generated ${bones.length} bones with proper hierarchy`);
-    return bones;
-  }
-
-  private generateRealMorphTargets(analysis: RigAnalysis, maxMorphTargets: number): MorphTarget[] {
-    const expressions = [
-      'smile', 'frown', 'eyesBlink', 'eyesWideOpen', 'browUp', 'browDown',
-      'cheekPuff', 'mouthOpen', 'jawOpen', 'tongueOut', 'noseSneer',
-      'eyeSquintLeft', 'eyeSquintRight', 'mouthSmileLeft', 'mouthSmileRight'
-    ];
-
-    const targets: MorphTarget[] = [];
-    const vertexCount = analysis.vertices;
-
-    console.log(`🎯 File size optimization: {
-  originalVertices: ${vertexCount},
-  effectiveVertices: ${vertexCount},
-  vertexStep: 1,
-  estimatedMorphDataMB: ${Math.round((maxMorphTargets * vertexCount * 3 * 4) / (1024 * 1024))}
-}`);
-
-    for (let i = 0; i < maxMorphTargets; i++) {
-      const expressionName = expressions[i % expressions.length];
-      const positions = new Float32Array(vertexCount * 3);
-      
-      // Generate realistic vertex displacement data
-      for (let v = 0; v < vertexCount; v++) {
-        const intensity = Math.random() * 0.1;
-        positions[v * 3] = (Math.random() - 0.5) * intensity;
-        positions[v * 3 + 1] = (Math.random() - 0.5) * intensity;
-        positions[v * 3 + 2] = (Math.random() - 0.5) * intensity;
-      }
-
-      targets.push({
-        name: `${expressionName}_${i}`,
-        weight: 0.0,
-        positions
-      });
-    }
-
-    console.log(`😊 Generated ${targets.length} morph targets with optimized vertex data`);
-    return targets;
-  }
-
-  private createTextureSafeRiggedGLB(originalBuffer: Buffer, bones: BoneDefinition[], morphTargets: MorphTarget[]): Buffer {
-    console.log('🔧 Creating texture-safe rigged GLB (preserves all original data)...');
-    
-    // Use append-only method to preserve textures, materials, and all original GLB structure
-    return this.appendRigDataSafely(originalBuffer, bones, morphTargets);
-  }
-
-  private appendRigDataSafely(originalBuffer: Buffer, bones: BoneDefinition[], morphTargets: MorphTarget[]): Buffer {
-    console.log('📦 Appending rig data while preserving textures...');
-    
-    // Calculate data sizes
-    const boneDataSize = bones.length * 256;
-    const morphDataSize = morphTargets.reduce((total, target) => {
-      return total + target.positions.byteLength + 128;
-    }, 0);
-    
-    const structuralOverhead = Math.max(50000, bones.length * 1000 + morphTargets.length * 2000);
-    const totalRigDataSize = boneDataSize + morphDataSize + structuralOverhead;
-    const riggedBuffer = Buffer.alloc(originalBuffer.length + totalRigDataSize);
-    
-    // Copy original GLB completely (preserves all textures and materials)
-    originalBuffer.copy(riggedBuffer, 0);
-    let offset = originalBuffer.length;
-    
-    // Write bone data
-    console.log(`🦴 Writing ${bones.length} bones (${boneDataSize} bytes)`);
-    bones.forEach(bone => {
-      // Write transform matrix
-      const transform = new Float32Array(16);
-      transform[0] = transform[5] = transform[10] = transform[15] = 1;
-      transform[12] = bone.position[0];
-      transform[13] = bone.position[1];
-      transform[14] = bone.position[2];
-      
-      Buffer.from(transform.buffer).copy(riggedBuffer, offset);
-      offset += 64;
-      
-      // Write bone metadata
-      const nameBuffer = Buffer.alloc(32);
-      nameBuffer.write(bone.name, 0, 31, 'utf8');
-      nameBuffer.copy(riggedBuffer, offset);
-      offset += 32;
-      
-      // Write bone properties
-      riggedBuffer.writeFloatLE(bone.weight, offset);
-      offset += 4;
-      
-      const typeBuffer = Buffer.alloc(28);
-      typeBuffer.write(bone.type, 0, 27, 'utf8');
-      typeBuffer.copy(riggedBuffer, offset);
-      offset += 28;
-    });
-    
-    // Write morph target data
-    console.log(`😊 Writing ${morphTargets.length} morph targets (${morphDataSize} bytes)`);
-    morphTargets.forEach(target => {
-      // Write morph target metadata
-      const nameBuffer = Buffer.alloc(32);
-      nameBuffer.write(target.name, 0, 31, 'utf8');
-      nameBuffer.copy(riggedBuffer, offset);
-      offset += 32;
-      
-      riggedBuffer.writeFloatLE(target.weight, offset);
-      offset += 4;
-      
-      riggedBuffer.writeUInt32LE(target.positions.length / 3, offset);
-      offset += 4;
-      
-      // Write vertex displacement data
-      Buffer.from(target.positions.buffer).copy(riggedBuffer, offset);
-      offset += target.positions.byteLength;
-      
-      // Write bone influence data
-      const boneInfluenceData = Buffer.alloc(bones.length * 16);
-      bones.forEach((bone, boneIndex) => {
-        const influence = Math.random() * 0.5;
-        boneInfluenceData.writeFloatLE(influence, boneIndex * 16);
-        boneInfluenceData.writeFloatLE(Math.random() * 2 - 1, boneIndex * 16 + 4);
-        boneInfluenceData.writeFloatLE(Math.random() * 2 - 1, boneIndex * 16 + 8);
-        boneInfluenceData.writeFloatLE(Math.random() * 2 - 1, boneIndex * 16 + 12);
-      });
-      boneInfluenceData.copy(riggedBuffer, offset);
-      offset += boneInfluenceData.length;
-      
-      // Padding for alignment
-      const padding = 64;
-      riggedBuffer.fill(0, offset, offset + padding);
-      offset += padding;
-    });
-    
-    // Add metadata section at the end (doesn't interfere with textures)
-    const metadata = {
-      VidaRig: {
-        version: '3.0',
-        realRigging: true,
-        boneCount: bones.length,
-        morphTargetCount: morphTargets.length,
-        totalRigDataSize: totalRigDataSize,
-        riggedAt: new Date().toISOString()
-      }
-    };
-    
-    const metadataBuffer = Buffer.from(JSON.stringify(metadata));
-    metadataBuffer.copy(riggedBuffer, offset, 0, Math.min(metadataBuffer.length, 1024));
-    
-    console.log(`✅ Texture-safe rigging data embedded: ${totalRigDataSize} bytes total`);
-    return riggedBuffer;
-  }
-
-
-
-  private async optimizeSubscriptionTier(analysis: RigAnalysis, userPlan: string): Promise<{
-    maxBones: number;
-    maxMorphTargets: number;
-    originalMaxBones: number;
-    originalMaxMorphTargets: number;
-    appliedOptimizations: string[];
-    targetFileSizeMB: number;
-  }> {
-    // Get original tier limits
-    const originalConfig = await this.getSubscriptionTierConfig(userPlan);
-    const vertexCount = analysis.vertices;
-    
-    if (!vertexCount || vertexCount <= 0) {
-      throw new Error('Invalid vertex count in model analysis - cannot optimize file size');
-    }
-    
-    // Get dynamic file size target from database
-    const targetSizeMB = originalConfig.maxFileSizeMB;
-    
-    // Calculate projected size
-    const projectedSizeMB = this.calculateProjectedFileSize(vertexCount, originalConfig.maxBones, originalConfig.maxMorphTargets);
-    
-    console.log(`📊 Plan: ${userPlan}, Target: ${targetSizeMB}MB, Projected: ${projectedSizeMB.toFixed(2)}MB`);
-    
-    const appliedOptimizations: string[] = [];
-    let optimizedBones = originalConfig.maxBones;
-    let optimizedMorphTargets = originalConfig.maxMorphTargets;
-    
-    if (projectedSizeMB > targetSizeMB) {
-      // Optimize within tier target
-      const reservedMB = targetSizeMB * 0.1;
-      const availableMorphMB = targetSizeMB - reservedMB;
-      
-      const bytesPerMorphTarget = vertexCount * 3 * 4;
-      const maxAffordableMorphs = Math.floor((availableMorphMB * 1024 * 1024) / bytesPerMorphTarget);
-      
-      if (maxAffordableMorphs < originalConfig.maxMorphTargets) {
-        optimizedMorphTargets = Math.max(5, maxAffordableMorphs);
-        appliedOptimizations.push('tier_optimized_morphs');
-      }
-      
-      const currentSize = this.calculateProjectedFileSize(vertexCount, optimizedBones, optimizedMorphTargets);
-      if (currentSize > targetSizeMB) {
-        const boneReductionFactor = targetSizeMB / currentSize;
-        optimizedBones = Math.max(9, Math.floor(originalConfig.maxBones * boneReductionFactor));
-        appliedOptimizations.push('tier_optimized_bones');
-      }
-      
-    } else if (projectedSizeMB < targetSizeMB * 0.8) {
-      // Add more features if under target
-      const availableSpace = targetSizeMB - projectedSizeMB;
-      const additionalMorphs = Math.floor((availableSpace * 1024 * 1024) / (vertexCount * 3 * 4));
-      
-      if (additionalMorphs > 5) {
-        // Never exceed database subscription limits
-        optimizedMorphTargets = Math.min(originalConfig.maxMorphTargets, optimizedMorphTargets + additionalMorphs);
-        appliedOptimizations.push('tier_enhanced_quality');
-      }
-    }
-    
-    // Final validation - never exceed 100MB absolute limit
-    const finalSize = this.calculateProjectedFileSize(vertexCount, optimizedBones, optimizedMorphTargets);
-    if (finalSize > 100) {
-      const emergencyFactor = 95 / finalSize;
-      optimizedMorphTargets = Math.floor(optimizedMorphTargets * emergencyFactor);
-      optimizedBones = Math.floor(optimizedBones * Math.sqrt(emergencyFactor));
-      appliedOptimizations.push('emergency_100mb_limit');
-    }
-    
-    return {
-      maxBones: optimizedBones,
-      maxMorphTargets: optimizedMorphTargets,
-      originalMaxBones: originalConfig.maxBones,
-      originalMaxMorphTargets: originalConfig.maxMorphTargets,
-      appliedOptimizations,
-      targetFileSizeMB: targetSizeMB
-    };
-  }
-
-  private calculateProjectedFileSize(vertexCount: number, boneCount: number, morphTargetCount: number): number {
-    const morphDataMB = (morphTargetCount * vertexCount * 3 * 4) / (1024 * 1024);
-    const boneDataMB = (boneCount * 256) / (1024 * 1024);
-    const overheadMB = Math.max(5, (boneCount * 1000 + morphTargetCount * 2000) / (1024 * 1024));
-    
-    return morphDataMB + boneDataMB + overheadMB;
-  }
-
-  private async getSubscriptionTierConfig(userPlan: string): Promise<{ maxBones: number; maxMorphTargets: number; maxFileSizeMB: number }> {
-    try {
-      // Import database and SQL utilities
-      const { db } = await import('../db');
-      const { sql } = await import('drizzle-orm');
-      
-      // Query actual database for subscription plan limits
-      const result = await db.execute(sql`
-        SELECT max_bones, max_morph_targets, max_file_size_mb
-        FROM subscription_plans 
-        WHERE id = ${userPlan}
-      `);
-      
-      const plan = result[0];
-      
-      if (!plan) {
-        console.error(`❌ Subscription plan "${userPlan}" not found in database`);
-        // Fallback to free plan
-        const freeResult = await db.execute(sql`
-          SELECT max_bones, max_morph_targets, max_file_size_mb
-          FROM subscription_plans 
-          WHERE id = 'free'
-        `);
-        const freePlan = freeResult[0];
-        if (!freePlan) {
-          throw new Error('Free plan not found in database');
-        }
-        console.log(`🔄 Using free plan as fallback: ${freePlan.max_bones} bones, ${freePlan.max_morph_targets} morphs, ${freePlan.max_file_size_mb}MB`);
-        return { 
-          maxBones: freePlan.max_bones as number, 
-          maxMorphTargets: freePlan.max_morph_targets as number, 
-          maxFileSizeMB: freePlan.max_file_size_mb as number 
-        };
-      }
-      
-      console.log(`🎯 Database tier config for ${userPlan}: ${plan.max_bones} bones, ${plan.max_morph_targets} morphs, ${plan.max_file_size_mb}MB`);
-      return { 
-        maxBones: plan.max_bones as number, 
-        maxMorphTargets: plan.max_morph_targets as number, 
-        maxFileSizeMB: plan.max_file_size_mb as number 
-      };
-    } catch (error) {
-      console.error('Failed to get subscription tier config:', error);
-      // Emergency fallback
-      return { maxBones: 20, maxMorphTargets: 10, maxFileSizeMB: 25 };
-    }
-  }
-}
\ No newline at end of file
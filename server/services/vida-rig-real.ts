@@ -1,764 +0,0 @@
-/**
- * VidaRig Real - Actual GLB Structure Modification
- * Embeds real bone hierarchies and morph targets into GLB binary structure
- */
-
-interface BoneDefinition {
-  name: string;
-  type: string;
-  position: [number, number, number];
-  rotation: [number, number, number, number]; // Quaternion
-  parent: string | null;
-  weight: number;
-}
-
-interface MorphTarget {
-  name: string;
-  weight: number;
-  positions: Float32Array;
-  normals?: Float32Array;
-}
-
-interface RigAnalysis {
-  vertices: number;
-  meshes: any[];
-  hasExistingBones: boolean;
-  humanoidStructure: {
-    hasHead: boolean;
-    hasSpine: boolean;
-    hasArms: boolean;
-    hasLegs: boolean;
-    confidence: number;
-  };
-}
-
-interface RigResult {
-  boneCount: number;
-  morphTargets: MorphTarget[];
-  hasFaceRig: boolean;
-  hasBodyRig: boolean;
-  hasHandRig: boolean;
-  qualityScore: number;
-  riggedBuffer: Buffer;
-}
-
-const SUBSCRIPTION_LIMITS = {
-  free: { maxBones: 20, maxMorphTargets: 10 },
-  'reply-guy': { maxBones: 30, maxMorphTargets: 35 },
-  spartan: { maxBones: 45, maxMorphTargets: 65 },
-  zeus: { maxBones: 65, maxMorphTargets: 70 },
-  goat: { maxBones: 82, maxMorphTargets: 100 }
-};
-
-export class VidaRigReal {
-  
-  async analyzeGLB(glbBuffer: Buffer): Promise<RigAnalysis> {
-    console.log('🔍 Analyzing GLB structure for real rigging...');
-    
-    const glbData = this.parseGLBBinary(glbBuffer);
-    if (!glbData?.json) {
-      throw new Error('Invalid GLB file structure');
-    }
-
-    const gltf = glbData.json;
-    let totalVertices = 0;
-    
-    // Count actual vertices from accessors
-    if (gltf.meshes && gltf.accessors) {
-      gltf.meshes.forEach(mesh => {
-        mesh.primitives?.forEach(primitive => {
-          if (primitive.attributes?.POSITION !== undefined) {
-            const accessor = gltf.accessors[primitive.attributes.POSITION];
-            if (accessor) {
-              totalVertices += accessor.count;
-            }
-          }
-        });
-      });
-    }
-
-    return {
-      vertices: totalVertices,
-      meshes: gltf.meshes || [],
-      hasExistingBones: !!(gltf.skins && gltf.skins.length > 0),
-      humanoidStructure: {
-        hasHead: true,
-        hasSpine: true,
-        hasArms: true,
-        hasLegs: true,
-        confidence: 0.95
-      }
-    };
-  }
-
-  async performAutoRigging(glbBuffer: Buffer, analysis: RigAnalysis, userPlan: string): Promise<RigResult> {
-    console.log(`🦴 Starting optimized GLB rigging for ${userPlan} plan...`);
-    
-    // Apply aggressive tier-based optimization
-    const optimizedConfig = await this.optimizeSubscriptionTier(analysis, userPlan);
-    console.log(`🎯 Target: ${optimizedConfig.targetFileSizeMB}MB, Optimized limits: ${optimizedConfig.maxBones} bones, ${optimizedConfig.maxMorphTargets} morph targets`);
-    
-    if (optimizedConfig.appliedOptimizations.length > 0) {
-      console.log(`⚡ Applied optimizations: ${optimizedConfig.appliedOptimizations.join(', ')}`);
-    }
-
-    // Generate real bone hierarchy with optimized limits
-    const bones = this.generateRealBoneHierarchy(analysis, optimizedConfig.maxBones);
-    console.log(`🦴 Generated ${bones.length} bones with proper hierarchy`);
-
-    // Generate real morph targets with file size constraints
-    const morphTargets = this.generateRealMorphTargets(analysis, optimizedConfig.maxMorphTargets);
-    console.log(`😊 Generated ${morphTargets.length} morph targets with optimized vertex data`);
-
-    // Create actual rigged GLB with embedded data
-    const riggedBuffer = this.createRealRiggedGLB(glbBuffer, bones, morphTargets);
-    
-    const sizeIncrease = riggedBuffer.length - glbBuffer.length;
-    const finalSizeMB = riggedBuffer.length / 1024 / 1024;
-    console.log(`📦 Real rigging complete: ${glbBuffer.length} → ${riggedBuffer.length} bytes (+${sizeIncrease} bytes)`);
-    console.log(`📊 Final file size: ${finalSizeMB.toFixed(2)}MB`);
-    
-    if (finalSizeMB > 100) {
-      console.warn(`⚠️ File size exceeds 100MB limit despite optimizations`);
-    }
-
-    return {
-      boneCount: bones.length,
-      morphTargets: morphTargets,
-      hasFaceRig: morphTargets.length > 0,
-      hasBodyRig: bones.length > 5,
-      hasHandRig: bones.length > 15,
-      qualityScore: Math.min(95, 60 + (bones.length / optimizedConfig.originalMaxBones) * 35),
-      riggedBuffer: riggedBuffer
-    };
-  }
-
-  private generateRealBoneHierarchy(analysis: RigAnalysis, maxBones: number): BoneDefinition[] {
-    const bones: BoneDefinition[] = [];
-    
-    // Root bone
-    bones.push({
-      name: 'Root',
-      type: 'root',
-      position: [0, 0, 0],
-      rotation: [0, 0, 0, 1],
-      parent: null,
-      weight: 1.0
-    });
-
-    // Spine hierarchy
-    const spineCount = Math.min(5, Math.floor(maxBones * 0.2));
-    for (let i = 0; i < spineCount; i++) {
-      bones.push({
-        name: `Spine${i}`,
-        type: 'spine',
-        position: [0, 0.3 + i * 0.2, 0],
-        rotation: [0, 0, 0, 1],
-        parent: i === 0 ? 'Root' : `Spine${i-1}`,
-        weight: 0.8
-      });
-    }
-
-    // Arms (if we have enough bones)
-    if (maxBones >= 15) {
-      ['Left', 'Right'].forEach(side => {
-        const sideMultiplier = side === 'Left' ? -1 : 1;
-        
-        // Shoulder
-        bones.push({
-          name: `${side}Shoulder`,
-          type: 'shoulder',
-          position: [0.2 * sideMultiplier, 0.8, 0],
-          rotation: [0, 0, 0, 1],
-          parent: `Spine${spineCount-1}`,
-          weight: 0.7
-        });
-
-        // Upper arm
-        bones.push({
-          name: `${side}UpperArm`,
-          type: 'upperarm',
-          position: [0.4 * sideMultiplier, 0.8, 0],
-          rotation: [0, 0, 0, 1],
-          parent: `${side}Shoulder`,
-          weight: 0.6
-        });
-
-        // Lower arm
-        bones.push({
-          name: `${side}LowerArm`,
-          type: 'lowerarm',
-          position: [0.7 * sideMultiplier, 0.8, 0],
-          rotation: [0, 0, 0, 1],
-          parent: `${side}UpperArm`,
-          weight: 0.5
-        });
-
-        // Hand
-        bones.push({
-          name: `${side}Hand`,
-          type: 'hand',
-          position: [0.9 * sideMultiplier, 0.8, 0],
-          rotation: [0, 0, 0, 1],
-          parent: `${side}LowerArm`,
-          weight: 0.4
-        });
-      });
-    }
-
-    // Legs (if we have enough bones)
-    if (maxBones >= 25) {
-      ['Left', 'Right'].forEach(side => {
-        const sideMultiplier = side === 'Left' ? -1 : 1;
-        
-        // Upper leg
-        bones.push({
-          name: `${side}UpperLeg`,
-          type: 'upperleg',
-          position: [0.1 * sideMultiplier, 0, 0],
-          rotation: [0, 0, 0, 1],
-          parent: 'Root',
-          weight: 0.7
-        });
-
-        // Lower leg
-        bones.push({
-          name: `${side}LowerLeg`,
-          type: 'lowerleg',
-          position: [0.1 * sideMultiplier, -0.4, 0],
-          rotation: [0, 0, 0, 1],
-          parent: `${side}UpperLeg`,
-          weight: 0.6
-        });
-
-        // Foot
-        bones.push({
-          name: `${side}Foot`,
-          type: 'foot',
-          position: [0.1 * sideMultiplier, -0.8, 0],
-          rotation: [0, 0, 0, 1],
-          parent: `${side}LowerLeg`,
-          weight: 0.5
-        });
-      });
-    }
-
-    // Face bones (for higher tiers)
-    if (maxBones >= 45) {
-      const faceBones = ['Head', 'Jaw', 'LeftEye', 'RightEye', 'Nose'];
-      faceBones.forEach((boneName, i) => {
-        bones.push({
-          name: boneName,
-          type: 'face',
-          position: [0, 1.0 + i * 0.05, 0],
-          rotation: [0, 0, 0, 1],
-          parent: `Spine${spineCount-1}`,
-          weight: 0.3
-        });
-      });
-    }
-
-    // Hand bones (for highest tiers)
-    if (bones.length < maxBones) {
-      ['Left', 'Right'].forEach(side => {
-        const fingerNames = ['Thumb', 'Index', 'Middle', 'Ring', 'Pinky'];
-        fingerNames.forEach(finger => {
-          if (bones.length < maxBones) {
-            bones.push({
-              name: `${side}${finger}`,
-              type: 'finger',
-              position: [0, 0, 0],
-              rotation: [0, 0, 0, 1],
-              parent: `${side}Hand`,
-              weight: 0.2
-            });
-          }
-        });
-      });
-    }
-
-    // Additional detail bones to reach subscription tier maximum
-    const detailBones = [
-      'Neck', 'LeftClavicle', 'RightClavicle', 'Pelvis', 
-      'LeftToe', 'RightToe', 'LeftKnee', 'RightKnee',
-      'LeftElbow', 'RightElbow', 'LeftWrist', 'RightWrist'
-    ];
-    
-    detailBones.forEach(boneName => {
-      if (bones.length < maxBones) {
-        bones.push({
-          name: boneName,
-          type: 'detail',
-          position: [0, 0, 0],
-          rotation: [0, 0, 0, 1],
-          parent: 'Root',
-          weight: 0.3
-        });
-      }
-    });
-
-    // Fill remaining slots with extra bones to maximize subscription value
-    while (bones.length < maxBones) {
-      bones.push({
-        name: `Extra${bones.length}`,
-        type: 'extra',
-        position: [0, 0, 0],
-        rotation: [0, 0, 0, 1],
-        parent: 'Root',
-        weight: 0.1
-      });
-    }
-
-    console.log(`🦴 Generated ${bones.length} bones for tier limit of ${maxBones}`);
-    return bones;
-  }
-
-  private generateRealMorphTargets(analysis: RigAnalysis, maxMorphTargets: number): MorphTarget[] {
-    const targets: MorphTarget[] = [];
-    const vertexCount = analysis.vertices;
-    
-    // Algorithm: Optimize file size by strategically reducing vertex data while maintaining quality
-    const targetFileSizeMB = 80; // Target under 100MB with safety margin
-    const maxMorphDataMB = targetFileSizeMB * 0.9; // 90% for morph data, 10% for bones/overhead
-    const maxVerticesPerMorph = Math.floor((maxMorphDataMB * 1024 * 1024) / (maxMorphTargets * 3 * 4)); // bytes per vertex (3 floats)
-    
-    // Strategic vertex reduction: use sparse vertex arrays for efficiency
-    const effectiveVertexCount = Math.min(vertexCount, maxVerticesPerMorph);
-    const vertexStep = Math.max(1, Math.floor(vertexCount / effectiveVertexCount));
-    
-    console.log(`🎯 File size optimization:`, {
-      originalVertices: vertexCount,
-      effectiveVertices: effectiveVertexCount,
-      vertexStep: vertexStep,
-      estimatedMorphDataMB: Math.round((maxMorphTargets * effectiveVertexCount * 3 * 4) / 1024 / 1024)
-    });
-    
-    // Generate comprehensive expression library to utilize full subscription tier limits
-    const baseExpressions = [
-      { name: 'Smile', priority: 1, intensity: 0.02 },
-      { name: 'Frown', priority: 1, intensity: 0.015 },
-      { name: 'EyesClosed', priority: 1, intensity: 0.01 },
-      { name: 'MouthOpen', priority: 2, intensity: 0.025 },
-      { name: 'Surprise', priority: 2, intensity: 0.018 },
-      { name: 'Anger', priority: 2, intensity: 0.012 },
-      { name: 'LeftWink', priority: 3, intensity: 0.008 },
-      { name: 'RightWink', priority: 3, intensity: 0.008 },
-      { name: 'Pucker', priority: 3, intensity: 0.015 },
-      { name: 'Sad', priority: 3, intensity: 0.01 }
-    ];
-
-    // Generate additional expressions to maximize subscription tier value
-    const additionalExpressions = [
-      'Joy', 'Fear', 'Disgust', 'Contempt', 'LeftEyebrowUp', 'RightEyebrowUp',
-      'BothEyebrowsUp', 'LeftEyebrowDown', 'RightEyebrowDown', 'BothEyebrowsDown',
-      'LeftCheekPuff', 'RightCheekPuff', 'BothCheeksPuff', 'LeftSmirk', 'RightSmirk',
-      'Whistle', 'Kiss', 'Snarl', 'Smug', 'Confused', 'Focused', 'Sleepy',
-      'LeftEyeWide', 'RightEyeWide', 'BothEyesWide', 'LeftEyeSquint', 'RightEyeSquint',
-      'MouthLeft', 'MouthRight', 'MouthStretch', 'TongueOut', 'LipsBite',
-      'UpperLipUp', 'LowerLipDown', 'ChinUp', 'ChinDown', 'NoseFlare',
-      'LeftNostrilFlare', 'RightNostrilFlare', 'JawLeft', 'JawRight', 'JawForward',
-      'LeftEarUp', 'RightEarUp', 'LeftTempleOut', 'RightTempleOut', 'ForeheadWrinkle',
-      'LeftCrowsFeet', 'RightCrowsFeet', 'NasolabialFold', 'LeftDimple', 'RightDimple'
-    ];
-
-    // Build expression list up to subscription tier maximum
-    const allExpressions = [...baseExpressions];
-    additionalExpressions.forEach((name, i) => {
-      if (allExpressions.length < maxMorphTargets) {
-        allExpressions.push({
-          name: name,
-          priority: 4 + Math.floor(i / 10),
-          intensity: 0.005 + (Math.random() * 0.01) // Varied intensities for natural expressions
-        });
-      }
-    });
-
-    // Fill remaining slots with micro-expressions for maximum subscription value
-    while (allExpressions.length < maxMorphTargets) {
-      allExpressions.push({
-        name: `MicroExpression${allExpressions.length}`,
-        priority: 10,
-        intensity: 0.003 + (Math.random() * 0.005)
-      });
-    }
-
-    console.log(`😊 Generating ${Math.min(maxMorphTargets, allExpressions.length)} morph targets for ${maxMorphTargets} tier limit`);
-    
-    allExpressions.slice(0, maxMorphTargets).forEach((expression, i) => {
-      // Generate optimized vertex displacement data using sparse arrays
-      const positions = new Float32Array(effectiveVertexCount * 3);
-      
-      // Create realistic facial deformation with strategic vertex sampling
-      for (let v = 0; v < effectiveVertexCount; v++) {
-        const baseIndex = v * 3;
-        const intensity = expression.intensity;
-        
-        // Apply expression-specific deformation patterns
-        switch (expression.name) {
-          case 'Smile':
-            positions[baseIndex] = (Math.random() - 0.5) * intensity * 0.5; // x
-            positions[baseIndex + 1] = Math.random() * intensity; // y (upward)
-            positions[baseIndex + 2] = (Math.random() - 0.5) * intensity * 0.25; // z
-            break;
-          case 'Frown':
-            positions[baseIndex] = (Math.random() - 0.5) * intensity * 0.4;
-            positions[baseIndex + 1] = -Math.random() * intensity; // downward
-            positions[baseIndex + 2] = (Math.random() - 0.5) * intensity * 0.2;
-            break;
-          case 'EyesClosed':
-            positions[baseIndex] = (Math.random() - 0.5) * intensity * 0.2;
-            positions[baseIndex + 1] = -Math.random() * intensity * 0.3; // close eyes
-            positions[baseIndex + 2] = 0;
-            break;
-          default:
-            positions[baseIndex] = (Math.random() - 0.5) * intensity;
-            positions[baseIndex + 1] = (Math.random() - 0.5) * intensity;
-            positions[baseIndex + 2] = (Math.random() - 0.5) * intensity;
-        }
-      }
-
-      targets.push({
-        name: expression.name,
-        weight: 0.0,
-        positions: positions
-      });
-    });
-
-    return targets;
-  }
-
-  private createRealRiggedGLB(originalBuffer: Buffer, bones: BoneDefinition[], morphTargets: MorphTarget[]): Buffer {
-    console.log('🔧 Using texture-safe rigging method to preserve original GLB structure...');
-    
-    // Use append method to avoid corrupting textures and materials
-    // This preserves all original GLB data including texture references
-    return this.appendRealRigData(originalBuffer, bones, morphTargets);
-  }
-
-  private appendRealRigData(originalBuffer: Buffer, bones: BoneDefinition[], morphTargets: MorphTarget[]): Buffer {
-    console.log('📦 Appending real rig data to GLB...');
-    
-    // Calculate realistic data sizes for professional rigging
-    const boneDataSize = bones.length * 256; // 256 bytes per bone (transform matrix + inverse bind matrix + metadata)
-    const morphDataSize = morphTargets.reduce((total, target) => {
-      return total + target.positions.byteLength + 128; // vertex data + normals + metadata
-    }, 0);
-    
-    // Add substantial overhead for GLB structure, accessors, bufferViews, etc.
-    const structuralOverhead = Math.max(50000, bones.length * 1000 + morphTargets.length * 2000);
-    const totalRigDataSize = boneDataSize + morphDataSize + structuralOverhead;
-    const riggedBuffer = Buffer.alloc(originalBuffer.length + totalRigDataSize);
-    
-    // Copy original GLB
-    originalBuffer.copy(riggedBuffer, 0);
-    let offset = originalBuffer.length;
-    
-    // Write bone data
-    console.log(`🦴 Writing ${bones.length} bones (${boneDataSize} bytes)`);
-    bones.forEach(bone => {
-      // Write transform matrix (16 floats)
-      const transform = new Float32Array(16);
-      transform[0] = transform[5] = transform[10] = transform[15] = 1; // Identity matrix
-      transform[12] = bone.position[0];
-      transform[13] = bone.position[1];
-      transform[14] = bone.position[2];
-      
-      Buffer.from(transform.buffer).copy(riggedBuffer, offset);
-      offset += 64;
-      
-      // Write bone metadata
-      const nameBuffer = Buffer.alloc(32);
-      nameBuffer.write(bone.name, 0, 31, 'utf8');
-      nameBuffer.copy(riggedBuffer, offset);
-      offset += 32;
-      
-      // Write bone properties
-      riggedBuffer.writeFloatLE(bone.weight, offset);
-      offset += 4;
-      
-      // Write bone type
-      const typeBuffer = Buffer.alloc(28);
-      typeBuffer.write(bone.type, 0, 27, 'utf8');
-      typeBuffer.copy(riggedBuffer, offset);
-      offset += 28;
-    });
-    
-    // Write morph target data with full vertex arrays
-    console.log(`😊 Writing ${morphTargets.length} morph targets (${morphDataSize} bytes)`);
-    morphTargets.forEach(target => {
-      // Write morph target name
-      const nameBuffer = Buffer.alloc(32);
-      nameBuffer.write(target.name, 0, 31, 'utf8');
-      nameBuffer.copy(riggedBuffer, offset);
-      offset += 32;
-      
-      // Write weight
-      riggedBuffer.writeFloatLE(target.weight, offset);
-      offset += 4;
-      
-      // Write vertex count
-      riggedBuffer.writeUInt32LE(target.positions.length / 3, offset);
-      offset += 4;
-      
-      // Write actual vertex displacement data
-      Buffer.from(target.positions.buffer).copy(riggedBuffer, offset);
-      offset += target.positions.byteLength;
-      
-      // Write additional bone weight influences for this morph target
-      const boneInfluenceData = Buffer.alloc(bones.length * 16); // 4 floats per bone
-      bones.forEach((bone, boneIndex) => {
-        const influence = Math.random() * 0.5; // Realistic bone influence
-        boneInfluenceData.writeFloatLE(influence, boneIndex * 16);
-        boneInfluenceData.writeFloatLE(Math.random() * 2 - 1, boneIndex * 16 + 4); // x rotation
-        boneInfluenceData.writeFloatLE(Math.random() * 2 - 1, boneIndex * 16 + 8); // y rotation  
-        boneInfluenceData.writeFloatLE(Math.random() * 2 - 1, boneIndex * 16 + 12); // z rotation
-      });
-      boneInfluenceData.copy(riggedBuffer, offset);
-      offset += boneInfluenceData.length;
-      
-      // Padding for alignment
-      const padding = 64;
-      riggedBuffer.fill(0, offset, offset + padding);
-      offset += padding;
-    });
-    
-    // Write rig metadata header
-    const metadata = {
-      VidaRig: {
-        version: '3.0',
-        realRigging: true,
-        boneCount: bones.length,
-        morphTargetCount: morphTargets.length,
-        boneDataOffset: originalBuffer.length,
-        morphDataOffset: originalBuffer.length + boneDataSize,
-        totalRigDataSize: totalRigDataSize,
-        riggedAt: new Date().toISOString()
-      }
-    };
-    
-    const metadataBuffer = Buffer.from(JSON.stringify(metadata));
-    metadataBuffer.copy(riggedBuffer, offset, 0, Math.min(metadataBuffer.length, 1024));
-    
-    console.log(`✅ Real rigging data embedded: ${totalRigDataSize} bytes total`);
-    return riggedBuffer;
-  }
-
-  private calculateRigDataSize(bones: BoneDefinition[], morphTargets: MorphTarget[]): number {
-    const boneSize = bones.length * 128;
-    const morphSize = morphTargets.reduce((total, target) => total + target.positions.byteLength + 64, 0);
-    return boneSize + morphSize + 1024;
-  }
-
-  private rebuildGLB(gltf: any, originalBinary: Buffer, bones: BoneDefinition[], morphTargets: MorphTarget[]): Buffer {
-    const gltfString = JSON.stringify(gltf);
-    const gltfBuffer = Buffer.from(gltfString);
-    
-    // Calculate padding for 4-byte alignment
-    const gltfPadding = (4 - (gltfBuffer.length % 4)) % 4;
-    const paddedGltfLength = gltfBuffer.length + gltfPadding;
-    
-    // Calculate total size
-    const rigDataSize = this.calculateRigDataSize(bones, morphTargets);
-    const totalSize = 12 + 8 + paddedGltfLength + 8 + originalBinary.length + rigDataSize;
-    
-    const result = Buffer.alloc(totalSize);
-    let offset = 0;
-    
-    // GLB header
-    result.writeUInt32LE(0x46546C67, offset); offset += 4; // magic
-    result.writeUInt32LE(2, offset); offset += 4; // version
-    result.writeUInt32LE(totalSize, offset); offset += 4; // length
-    
-    // JSON chunk
-    result.writeUInt32LE(paddedGltfLength, offset); offset += 4; // chunk length
-    result.writeUInt32LE(0x4E4F534A, offset); offset += 4; // chunk type "JSON"
-    gltfBuffer.copy(result, offset); offset += gltfBuffer.length;
-    
-    // Pad JSON chunk
-    for (let i = 0; i < gltfPadding; i++) {
-      result[offset++] = 0x20; // space
-    }
-    
-    // Binary chunk
-    const binaryLength = originalBinary.length + rigDataSize;
-    result.writeUInt32LE(binaryLength, offset); offset += 4; // chunk length
-    result.writeUInt32LE(0x004E4942, offset); offset += 4; // chunk type "BIN\0"
-    originalBinary.copy(result, offset); offset += originalBinary.length;
-    
-    // Append rig data to binary chunk
-    this.appendRealRigData(Buffer.alloc(0), bones, morphTargets).copy(result, offset - originalBinary.length + originalBinary.length);
-    
-    return result;
-  }
-
-  private async optimizeSubscriptionTier(analysis: RigAnalysis, userPlan: string): Promise<{
-    maxBones: number;
-    maxMorphTargets: number;
-    originalMaxBones: number;
-    originalMaxMorphTargets: number;
-    appliedOptimizations: string[];
-    targetFileSizeMB: number;
-  }> {
-    // Get original tier limits and tier-specific target sizes
-    const originalConfig = await this.getSubscriptionTierConfig(userPlan);
-    const vertexCount = analysis.vertices;
-    
-    if (!vertexCount || vertexCount <= 0) {
-      throw new Error('Invalid vertex count in model analysis - cannot optimize file size');
-    }
-    
-    // Dynamic target file sizes per tier (aggressive utilization)
-    const tierTargets = {
-      'free': 25,      // 25MB for free tier
-      'reply_guy': 45, // 45MB for reply guy
-      'spartan': 65,   // 65MB for spartan
-      'zeus': 85,      // 85MB for zeus
-      'goat': 95       // 95MB for goat (max utilization)
-    };
-    
-    const targetSizeMB = tierTargets[userPlan as keyof typeof tierTargets] || tierTargets['free'];
-    
-    // Calculate what we can fit in the target size
-    const projectedSizeMB = this.calculateProjectedFileSize(vertexCount, originalConfig.maxBones, originalConfig.maxMorphTargets);
-    
-    console.log(`📊 Plan: ${userPlan}, Target: ${targetSizeMB}MB, Projected: ${projectedSizeMB.toFixed(2)}MB`);
-    
-    const appliedOptimizations: string[] = [];
-    let optimizedBones = originalConfig.maxBones;
-    let optimizedMorphTargets = originalConfig.maxMorphTargets;
-    
-    if (projectedSizeMB > targetSizeMB) {
-      // Algorithm: Maximize utilization within tier target
-      
-      // Reserve space for bones and overhead (10% of target)
-      const reservedMB = targetSizeMB * 0.1;
-      const availableMorphMB = targetSizeMB - reservedMB;
-      
-      // Calculate optimal morph targets for available space
-      const bytesPerMorphTarget = vertexCount * 3 * 4; // 3 floats per vertex
-      const maxAffordableMorphs = Math.floor((availableMorphMB * 1024 * 1024) / bytesPerMorphTarget);
-      
-      if (maxAffordableMorphs < originalConfig.maxMorphTargets) {
-        optimizedMorphTargets = Math.max(5, maxAffordableMorphs); // Minimum 5 morphs
-        appliedOptimizations.push('tier_optimized_morphs');
-      }
-      
-      // Adjust bones if still over target
-      const currentSize = this.calculateProjectedFileSize(vertexCount, optimizedBones, optimizedMorphTargets);
-      if (currentSize > targetSizeMB) {
-        const boneReductionFactor = targetSizeMB / currentSize;
-        optimizedBones = Math.max(9, Math.floor(originalConfig.maxBones * boneReductionFactor));
-        appliedOptimizations.push('tier_optimized_bones');
-      }
-      
-    } else if (projectedSizeMB < targetSizeMB * 0.8) {
-      // If we're significantly under target, try to add more features
-      const availableSpace = targetSizeMB - projectedSizeMB;
-      const additionalMorphs = Math.floor((availableSpace * 1024 * 1024) / (vertexCount * 3 * 4));
-      
-      if (additionalMorphs > 5) {
-        // Never exceed database subscription limits - respect max_morph_targets exactly
-        optimizedMorphTargets = Math.min(originalConfig.maxMorphTargets, optimizedMorphTargets + additionalMorphs);
-        appliedOptimizations.push('tier_enhanced_quality');
-      }
-    }
-    
-    // Final validation - never exceed 100MB absolute limit
-    const finalSize = this.calculateProjectedFileSize(vertexCount, optimizedBones, optimizedMorphTargets);
-    if (finalSize > 100) {
-      const emergencyFactor = 95 / finalSize; // Emergency reduction to 95MB
-      optimizedMorphTargets = Math.floor(optimizedMorphTargets * emergencyFactor);
-      optimizedBones = Math.floor(optimizedBones * Math.sqrt(emergencyFactor));
-      appliedOptimizations.push('emergency_100mb_limit');
-    }
-    
-    return {
-      maxBones: optimizedBones,
-      maxMorphTargets: optimizedMorphTargets,
-      originalMaxBones: originalConfig.maxBones,
-      originalMaxMorphTargets: originalConfig.maxMorphTargets,
-      appliedOptimizations,
-      targetFileSizeMB: targetSizeMB
-    };
-  }
-
-  private calculateProjectedFileSize(vertexCount: number, boneCount: number, morphTargetCount: number): number {
-    // Calculate morph data size (dominant factor)
-    const morphDataMB = (morphTargetCount * vertexCount * 3 * 4) / (1024 * 1024);
-    
-    // Calculate bone data size
-    const boneDataMB = (boneCount * 256) / (1024 * 1024);
-    
-    // Add structural overhead
-    const overheadMB = Math.max(5, (boneCount * 1000 + morphTargetCount * 2000) / (1024 * 1024));
-    
-    return morphDataMB + boneDataMB + overheadMB;
-  }
-
-  private async getSubscriptionTierConfig(userPlan: string): Promise<{ maxBones: number; maxMorphTargets: number }> {
-    try {
-      // Import database and SQL utilities
-      const { db } = await import('../db');
-      const { sql } = await import('drizzle-orm');
-      
-      // Query actual database for subscription plan limits
-      const result = await db.execute(sql`
-        SELECT max_bones, max_morph_targets
-        FROM subscription_plans 
-        WHERE id = ${userPlan}
-      `);
-      
-      const plan = result[0];
-      
-      if (!plan) {
-        console.error(`❌ Subscription plan "${userPlan}" not found in database`);
-        // Fallback to free plan if user plan not found
-        const freeResult = await db.execute(sql`
-          SELECT max_bones, max_morph_targets
-          FROM subscription_plans 
-          WHERE id = 'free'
-        `);
-        const freePlan = freeResult[0];
-        if (!freePlan) {
-          throw new Error('Free plan not found in database');
-        }
-        console.log(`🔄 Using free plan as fallback: ${freePlan.max_bones} bones, ${freePlan.max_morph_targets} morphs`);
-        return { maxBones: freePlan.max_bones, maxMorphTargets: freePlan.max_morph_targets };
-      }
-      
-      console.log(`🎯 Database tier config for ${userPlan}: ${plan.max_bones} bones, ${plan.max_morph_targets} morphs`);
-      return { maxBones: plan.max_bones, maxMorphTargets: plan.max_morph_targets };
-    } catch (error) {
-      console.error('Failed to get subscription tier config:', error);
-      // Emergency fallback to free tier limits
-      return { maxBones: 20, maxMorphTargets: 10 };
-    }
-  }
-
-  private parseGLBBinary(buffer: Buffer): { json: any; buffer: Buffer } | null {
-    try {
-      if (buffer.length < 12) return null;
-      
-      const magic = buffer.readUInt32LE(0);
-      if (magic !== 0x46546C67) return null; // "glTF"
-      
-      const version = buffer.readUInt32LE(4);
-      if (version !== 2) return null;
-      
-      const length = buffer.readUInt32LE(8);
-      if (length > buffer.length) return null;
-      
-      // Read JSON chunk
-      const jsonChunkLength = buffer.readUInt32LE(12);
-      const jsonChunkType = buffer.readUInt32LE(16);
-      if (jsonChunkType !== 0x4E4F534A) return null; // "JSON"
-      
-      const jsonData = buffer.slice(20, 20 + jsonChunkLength);
-      const json = JSON.parse(jsonData.toString('utf8'));
-      
-      return { json, buffer };
-    } catch (error) {
-      return null;
-    }
-  }
-}
\ No newline at end of file
@@ -1,153 +0,0 @@
-/**
- * VidaRig - Simplified Auto-Rigging System
- * Reliable auto-rigging without heavy AI model dependencies
- */
-
-import * as fs from 'fs';
-import * as path from 'path';
-
-export interface RigAnalysis {
-  vertices: number;
-  meshes: any[];
-  hasExistingBones: boolean;
-  humanoidStructure: {
-    hasHead: boolean;
-    hasSpine: boolean;
-    hasArms: boolean;
-    hasLegs: boolean;
-    confidence: number;
-  };
-  suggestedBones: BoneDefinition[];
-}
-
-export interface BoneDefinition {
-  name: string;
-  type: 'head' | 'neck' | 'spine' | 'shoulder' | 'arm' | 'hand' | 'hip' | 'leg' | 'foot' | 'upperarm' | 'lowerarm' | 'upperleg' | 'lowerleg';
-  position: [number, number, number];
-  rotation: [number, number, number];
-  parent: string | null;
-  weight: number;
-}
-
-export interface RiggedResult {
-  riggedBuffer: Buffer;
-  hasFaceRig: boolean;
-  hasBodyRig: boolean;
-  hasHandRig: boolean;
-  boneCount: number;
-  morphTargets: string[];
-}
-
-export class VidaRig {
-  private initialized = false;
-
-  async initialize() {
-    if (this.initialized) return;
-    
-    console.log('🤖 Initializing VidaRig Simplified Auto-Rigging System...');
-    this.initialized = true;
-    console.log('✅ VidaRig initialization completed successfully');
-  }
-
-  async analyzeModel(modelBuffer: Buffer): Promise<RigAnalysis> {
-    console.log('📊 Analyzing GLB model structure...');
-    
-    // Simple analysis based on buffer size and content
-    const vertices = Math.floor(modelBuffer.length / 100); // Estimate vertices
-    
-    return {
-      vertices: vertices,
-      meshes: ['main_mesh'],
-      hasExistingBones: false,
-      humanoidStructure: {
-        hasHead: true,
-        hasSpine: true,
-        hasArms: true,
-        hasLegs: true,
-        confidence: 0.85
-      },
-      suggestedBones: this.generateBoneStructure()
-    };
-  }
-
-  async performAutoRigging(modelBuffer: Buffer, analysis: RigAnalysis, userPlan: string): Promise<RiggedResult> {
-    console.log(`🦴 Performing auto-rigging with plan: ${userPlan}`);
-    
-    // Get subscription tier limits
-    const tierLimits = this.getSubscriptionTierLimits(userPlan);
-    
-    // Create enhanced rigged model by adding metadata to original buffer
-    const riggedBuffer = this.enhanceModelWithRigging(modelBuffer, tierLimits);
-    
-    // Generate morph targets based on plan
-    const morphTargets = this.generateMorphTargets(tierLimits.morphTargets);
-    
-    console.log(`✅ Auto-rigging completed: ${tierLimits.bones} bones, ${morphTargets.length} morph targets`);
-    
-    return {
-      riggedBuffer: riggedBuffer,
-      hasFaceRig: tierLimits.bones >= 25, // Face rigging for Reply Guy+ plans
-      hasBodyRig: true,
-      hasHandRig: tierLimits.bones >= 45, // Hand rigging for Spartan+ plans
-      boneCount: tierLimits.bones,
-      morphTargets: morphTargets
-    };
-  }
-
-  private getSubscriptionTierLimits(userPlan: string) {
-    const tiers: Record<string, { bones: number; morphTargets: number }> = {
-      'free': { bones: 9, morphTargets: 5 },
-      'reply guy': { bones: 25, morphTargets: 20 },
-      'spartan': { bones: 45, morphTargets: 35 },
-      'zeus': { bones: 55, morphTargets: 50 },
-      'goat': { bones: 65, morphTargets: 100 }
-    };
-    
-    return tiers[userPlan.toLowerCase()] || tiers['free'];
-  }
-
-  private generateBoneStructure(): BoneDefinition[] {
-    // Standard humanoid bone structure
-    return [
-      { name: 'Hips', type: 'hip', position: [0, 1, 0], rotation: [0, 0, 0], parent: null, weight: 1.0 },
-      { name: 'Spine', type: 'spine', position: [0, 1.2, 0], rotation: [0, 0, 0], parent: 'Hips', weight: 0.9 },
-      { name: 'Chest', type: 'spine', position: [0, 1.5, 0], rotation: [0, 0, 0], parent: 'Spine', weight: 0.8 },
-      { name: 'Neck', type: 'neck', position: [0, 1.7, 0], rotation: [0, 0, 0], parent: 'Chest', weight: 0.7 },
-      { name: 'Head', type: 'head', position: [0, 1.8, 0], rotation: [0, 0, 0], parent: 'Neck', weight: 0.6 }
-    ];
-  }
-
-  private enhanceModelWithRigging(originalBuffer: Buffer, tierLimits: any): Buffer {
-    // Create enhanced model by appending rigging metadata
-    const rigMetadata = Buffer.from(JSON.stringify({
-      riggingData: {
-        boneCount: tierLimits.bones,
-        morphTargets: tierLimits.morphTargets,
-        riggedAt: new Date().toISOString(),
-        version: '1.0'
-      }
-    }));
-    
-    // Return enhanced buffer (original + metadata for size increase)
-    return Buffer.concat([originalBuffer, rigMetadata]);
-  }
-
-  private generateMorphTargets(count: number): string[] {
-    const baseTargets = [
-      'browInnerUp', 'browDownLeft', 'browDownRight', 'browOuterUpLeft', 'browOuterUpRight',
-      'eyeLookUpLeft', 'eyeLookUpRight', 'eyeLookDownLeft', 'eyeLookDownRight',
-      'eyeLookInLeft', 'eyeLookInRight', 'eyeLookOutLeft', 'eyeLookOutRight',
-      'eyeBlinkLeft', 'eyeBlinkRight', 'eyeSquintLeft', 'eyeSquintRight',
-      'eyeWideLeft', 'eyeWideRight', 'cheekPuff', 'cheekSquintLeft', 'cheekSquintRight',
-      'noseSneerLeft', 'noseSneerRight', 'jawOpen', 'jawForward', 'jawLeft', 'jawRight',
-      'mouthFunnel', 'mouthPucker', 'mouthLeft', 'mouthRight', 'mouthRollUpper',
-      'mouthRollLower', 'mouthShrugUpper', 'mouthShrugLower', 'mouthClose',
-      'mouthSmileLeft', 'mouthSmileRight', 'mouthFrownLeft', 'mouthFrownRight',
-      'mouthDimpleLeft', 'mouthDimpleRight', 'mouthUpperUpLeft', 'mouthUpperUpRight',
-      'mouthLowerDownLeft', 'mouthLowerDownRight', 'mouthPressLeft', 'mouthPressRight',
-      'mouthStretchLeft', 'mouthStretchRight', 'tongueOut'
-    ];
-    
-    return baseTargets.slice(0, Math.min(count, baseTargets.length));
-  }
-}
\ No newline at end of file
@@ -0,0 +1,445 @@
+/**
+ * VIDA³ VRM
+ * Import and export of VRM avatars (VRoid Studio, VTuber apps).
+ *
+ * Import reads VRM 1.0 (VRMC_vrm, VRMC_springBone) and VRM 0.x (VRM)
+ * extensions straight from the GLB JSON chunk, without re-encoding the file,
+ * so the humanoid mapping, expressions, look-at and spring bones the author
+ * set up stay exactly as uploaded. The meta (author, license, allowed usage)
+ * is normalized to the 1.0 vocabulary for storage on the avatar record.
+ *
+ * Export turns a VIDA-rigged GLB into VRM 1.0: joint nodes already carry VRM
+ * humanoid bone names (see joint-placement.ts), ARKit morph targets become
+ * custom expressions and drive the VRM presets, and spring bone colliders
+ * are sized from the skeleton. VRM 1.0 files pass through unchanged.
+ */
+
+import { Matrix4, Quaternion, Vector3 } from 'three';
+import { GLBExporter } from './glb-exporter';
+import type { RigJoint, Vec3 } from './gltf-skinning';
+
+export class VrmError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VrmError';
+  }
+}
+
+export type VrmSpecVersion = '1.0' | '0.x';
+
+export interface VrmMeta {
+  specVersion: VrmSpecVersion;
+  name: string;
+  version?: string;
+  authors: string[];
+  copyrightInformation?: string;
+  contactInformation?: string;
+  licenseUrl: string;
+  licenseName?: string; // VRM 0.x license preset, e.g. CC_BY
+  otherLicenseUrl?: string;
+  avatarPermission: 'onlyAuthor' | 'onlySeparatelyLicensedPerson' | 'everyone';
+  commercialUsage: 'personalNonProfit' | 'personalProfit' | 'corporation';
+  allowExcessivelyViolentUsage: boolean;
+  allowExcessivelySexualUsage: boolean;
+  allowPoliticalOrReligiousUsage: boolean;
+  allowAntisocialOrHateUsage: boolean;
+  allowRedistribution: boolean;
+  modification: 'prohibited' | 'allowModification' | 'allowModificationRedistribution';
+  creditNotation: 'required' | 'unnecessary';
+}
+
+// Everything needed to drive an imported VRM, kept in avatars.metadata.vrm
+export interface VrmSummary {
+  specVersion: VrmSpecVersion;
+  meta: VrmMeta;
+  humanBones: Record<string, string>; // VRM humanoid bone → node name
+  expressions: string[];
+  lookAt: { type: 'bone' | 'expression'; offsetFromHeadBone: Vec3 } | null;
+  springBone: { springs: number; joints: number; colliders: number };
+}
+
+export const VRM_LICENSE_URL = 'https://vrm.dev/licenses/1.0/';
+
+// Bones VRM 1.0 requires in every humanoid
+export const VRM_REQUIRED_BONES = [
+  'hips', 'spine', 'head',
+  'leftUpperArm', 'leftLowerArm', 'leftHand', 'rightUpperArm', 'rightLowerArm', 'rightHand',
+  'leftUpperLeg', 'leftLowerLeg', 'leftFoot', 'rightUpperLeg', 'rightLowerLeg', 'rightFoot'
+];
+
+const VRM_HUMAN_BONES = new Set([
+  ...VRM_REQUIRED_BONES,
+  'chest', 'upperChest', 'neck', 'leftEye', 'rightEye', 'jaw',
+  'leftShoulder', 'rightShoulder', 'leftToes', 'rightToes',
+  ...['Thumb', 'Index', 'Middle', 'Ring', 'Little'].flatMap(finger =>
+    ['left', 'right'].flatMap(side =>
+      (finger === 'Thumb' ? ['Metacarpal', 'Proximal', 'Distal'] : ['Proximal', 'Intermediate', 'Distal'])
+        .map(segment => `${side}${finger}${segment}`)
+    )
+  )
+]);
+
+// VRM 1.0 presets as weighted ARKit blendshapes; a preset is only written
+// when the model has at least one of its morph targets
+const PRESET_EXPRESSIONS: Record<string, Record<string, number>> = {
+  happy: { mouthSmileLeft: 1, mouthSmileRight: 1, cheekSquintLeft: 0.5, cheekSquintRight: 0.5, eyeSquintLeft: 0.3, eyeSquintRight: 0.3 },
+  angry: { browDownLeft: 1, browDownRight: 1, mouthFrownLeft: 0.5, mouthFrownRight: 0.5, noseSneerLeft: 0.4, noseSneerRight: 0.4 },
+  sad: { browInnerUp: 1, mouthFrownLeft: 0.8, mouthFrownRight: 0.8 },
+  relaxed: { mouthSmileLeft: 0.4, mouthSmileRight: 0.4, eyeSquintLeft: 0.4, eyeSquintRight: 0.4 },
+  surprised: { browInnerUp: 1, browOuterUpLeft: 1, browOuterUpRight: 1, eyeWideLeft: 1, eyeWideRight: 1, jawOpen: 0.4 },
+  aa: { jawOpen: 1 },
+  ih: { jawOpen: 0.3, mouthStretchLeft: 0.6, mouthStretchRight: 0.6 },
+  ou: { mouthPucker: 1, jawOpen: 0.2 },
+  ee: { jawOpen: 0.15, mouthSmileLeft: 0.4, mouthSmileRight: 0.4, mouthStretchLeft: 0.5, mouthStretchRight: 0.5 },
+  oh: { mouthFunnel: 1, jawOpen: 0.4 },
+  blink: { eyeBlinkLeft: 1, eyeBlinkRight: 1 },
+  blinkLeft: { eyeBlinkLeft: 1 },
+  blinkRight: { eyeBlinkRight: 1 },
+  lookUp: { eyeLookUpLeft: 1, eyeLookUpRight: 1 },
+  lookDown: { eyeLookDownLeft: 1, eyeLookDownRight: 1 },
+  // The character's own left (+X): left eye looks out, right eye looks in
+  lookLeft: { eyeLookOutLeft: 1, eyeLookInRight: 1 },
+  lookRight: { eyeLookInLeft: 1, eyeLookOutRight: 1 }
+};
+
+const PRESET_NAMES = new Set([...Object.keys(PRESET_EXPRESSIONS), 'neutral']);
+
+export function isVrm(buffer: Buffer): boolean {
+  try {
+    const { json } = GLBExporter.parseGLB(buffer);
+    return !!(json?.extensions?.VRMC_vrm || json?.extensions?.VRM);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read the VRM extensions of a GLB. Returns null for plain glTF and throws
+ * VrmError when the VRM extension is there but unusable.
+ */
+export function readVrm(buffer: Buffer): VrmSummary | null {
+  const { json } = GLBExporter.parseGLB(buffer);
+  if (json?.extensions?.VRMC_vrm) return readVrm1(json);
+  if (json?.extensions?.VRM) return readVrm0(json);
+  return null;
+}
+
+function readVrm1(json: any): VrmSummary {
+  const vrm = json.extensions.VRMC_vrm;
+  const meta = vrm.meta ?? {};
+
+  const lookAt = vrm.lookAt
+    ? {
+      type: vrm.lookAt.type === 'expression' ? 'expression' as const : 'bone' as const,
+      offsetFromHeadBone: (vrm.lookAt.offsetFromHeadBone ?? [0, 0, 0]) as Vec3
+    }
+    : null;
+
+  const spring = json.extensions.VRMC_springBone;
+  return {
+    specVersion: '1.0',
+    meta: {
+      specVersion: '1.0',
+      name: String(meta.name ?? ''),
+      version: meta.version,
+      authors: Array.isArray(meta.authors) ? meta.authors.map(String) : [],
+      copyrightInformation: meta.copyrightInformation,
+      contactInformation: meta.contactInformation,
+      licenseUrl: String(meta.licenseUrl ?? VRM_LICENSE_URL),
+      otherLicenseUrl: meta.otherLicenseUrl,
+      avatarPermission: meta.avatarPermission ?? 'onlyAuthor',
+      commercialUsage: meta.commercialUsage ?? 'personalNonProfit',
+      allowExcessivelyViolentUsage: !!meta.allowExcessivelyViolentUsage,
+      allowExcessivelySexualUsage: !!meta.allowExcessivelySexualUsage,
+      allowPoliticalOrReligiousUsage: !!meta.allowPoliticalOrReligiousUsage,
+      allowAntisocialOrHateUsage: !!meta.allowAntisocialOrHateUsage,
+      allowRedistribution: !!meta.allowRedistribution,
+      modification: meta.modification ?? 'prohibited',
+      creditNotation: meta.creditNotation ?? 'required'
+    },
+    humanBones: humanBoneNames(json),
+    expressions: [
+      ...Object.keys(vrm.expressions?.preset ?? {}),
+      ...Object.keys(vrm.expressions?.custom ?? {})
+    ],
+    lookAt,
+    springBone: {
+      springs: spring?.springs?.length ?? 0,
+      joints: (spring?.springs ?? []).reduce((sum: number, item: any) => sum + (item.joints?.length ?? 0), 0),
+      colliders: spring?.colliders?.length ?? 0
+    }
+  };
+}
+
+function readVrm0(json: any): VrmSummary {
+  const vrm = json.extensions.VRM;
+  const meta = vrm.meta ?? {};
+
+  const license = String(meta.licenseName ?? 'Redistribution_Prohibited');
+  const lookAtType = vrm.firstPerson?.lookAtTypeName;
+  const boneGroups: any[] = vrm.secondaryAnimation?.boneGroups ?? [];
+
+  return {
+    specVersion: '0.x',
+    meta: {
+      specVersion: '0.x',
+      name: String(meta.title ?? ''),
+      version: meta.version,
+      authors: meta.author ? [String(meta.author)] : [],
+      contactInformation: meta.contactInformation,
+      licenseUrl: meta.otherLicenseUrl || licenseUrlFor(license),
+      licenseName: license,
+      otherLicenseUrl: meta.otherLicenseUrl,
+      avatarPermission: meta.allowedUserName === 'Everyone'
+        ? 'everyone'
+        : meta.allowedUserName === 'ExplicitlyLicensedPerson' ? 'onlySeparatelyLicensedPerson' : 'onlyAuthor',
+      commercialUsage: meta.commercialUssageName === 'Allow' ? 'corporation' : 'personalNonProfit',
+      allowExcessivelyViolentUsage: meta.violentUssageName === 'Allow',
+      allowExcessivelySexualUsage: meta.sexualUssageName === 'Allow',
+      allowPoliticalOrReligiousUsage: false,
+      allowAntisocialOrHateUsage: false,
+      allowRedistribution: license.startsWith('CC'),
+      modification: license.startsWith('CC') && !license.includes('ND') ? 'allowModificationRedistribution' : 'prohibited',
+      creditNotation: license === 'CC0' ? 'unnecessary' : 'required'
+    },
+    humanBones: humanBoneNames(json),
+    expressions: (vrm.blendShapeMaster?.blendShapeGroups ?? []).map((group: any) =>
+      group.presetName && group.presetName !== 'unknown' ? group.presetName : group.name
+    ),
+    lookAt: lookAtType
+      ? {
+        type: lookAtType === 'BlendShape' ? 'expression' : 'bone',
+        offsetFromHeadBone: toVec3(vrm.firstPerson?.firstPersonBoneOffset)
+      }
+      : null,
+    springBone: {
+      springs: boneGroups.length,
+      joints: boneGroups.reduce((sum, group) => sum + (group.bones?.length ?? 0), 0),
+      colliders: (vrm.secondaryAnimation?.colliderGroups ?? []).reduce(
+        (sum: number, group: any) => sum + (group.colliders?.length ?? 0), 0
+      )
+    }
+  };
+}
+
+/**
+ * Joints of an imported VRM's humanoid in bind pose, parents first, each
+ * parented to its nearest humanoid ancestor
+ */
+export function vrmHumanoidJoints(buffer: Buffer): RigJoint[] {
+  const { json } = GLBExporter.parseGLB(buffer);
+  const world = worldTransforms(json);
+  const parents = parentIndices(json);
+  const boneByNode = new Map<number, string>();
+  for (const [bone, node] of Object.entries(humanBoneNodes(json))) {
+    boneByNode.set(node, bone);
+  }
+
+  const depth = (index: number): number => parents[index] === -1 ? 0 : 1 + depth(parents[index]);
+  const ordered = Array.from(boneByNode.keys()).sort((a, b) => depth(a) - depth(b));
+  const position = new Vector3();
+  const rotation = new Quaternion();
+
+  return ordered.map((index, _, list) => {
+    let ancestor = parents[index];
+    while (ancestor !== -1 && !boneByNode.has(ancestor)) ancestor = parents[ancestor];
+    world[index].decompose(position, rotation, new Vector3());
+    return {
+      name: boneByNode.get(index)!,
+      parent: ancestor === -1 ? null : list.indexOf(ancestor),
+      position: position.toArray() as Vec3,
+      rotation: rotation.toArray() as [number, number, number, number]
+    };
+  });
+}
+
+/**
+ * Export a rigged GLB as VRM 1.0. VRM 1.0 input is returned unchanged; 0.x
+ * uses a different rest orientation and is not converted.
+ */
+export function exportVrm(buffer: Buffer, meta: Omit<VrmMeta, 'specVersion'>): Buffer {
+  const { json, binary } = GLBExporter.parseGLB(buffer);
+  if (json.extensions?.VRMC_vrm) return buffer;
+  if (json.extensions?.VRM) {
+    throw new VrmError('VRM 0.x avatars cannot be re-exported as VRM 1.0');
+  }
+
+  const nodes: any[] = json.nodes ?? [];
+  const humanBones: Record<string, { node: number }> = {};
+  nodes.forEach((node, index) => {
+    if (VRM_HUMAN_BONES.has(node.name) && !humanBones[node.name]) humanBones[node.name] = { node: index };
+  });
+
+  const missing = VRM_REQUIRED_BONES.filter(bone => !humanBones[bone]);
+  if (missing.length > 0) {
+    throw new VrmError(`Rig is missing bones VRM requires: ${missing.join(', ')}`);
+  }
+
+  // Every mesh node carries the same morph target names (see writeMorphTargets)
+  const morphNodes = nodes
+    .map((node, index) => ({ index, names: (json.meshes?.[node.mesh]?.extras?.targetNames ?? []) as string[] }))
+    .filter(entry => nodes[entry.index].mesh !== undefined && entry.names.length > 0);
+  const binds = (weights: Record<string, number>) => morphNodes.flatMap(({ index, names }) =>
+    Object.entries(weights)
+      .filter(([name]) => names.includes(name))
+      .map(([name, weight]) => ({ node: index, index: names.indexOf(name), weight }))
+  );
+
+  const preset: Record<string, any> = {};
+  for (const [name, weights] of Object.entries(PRESET_EXPRESSIONS)) {
+    const morphTargetBinds = binds(weights);
+    if (morphTargetBinds.length > 0) preset[name] = { morphTargetBinds, isBinary: false };
+  }
+  const custom: Record<string, any> = {};
+  for (const name of Array.from(new Set(morphNodes.flatMap(entry => entry.names)))) {
+    if (!PRESET_NAMES.has(name)) custom[name] = { morphTargetBinds: binds({ [name]: 1 }), isBinary: false };
+  }
+
+  const world = worldTransforms(json);
+  const at = (bone: string) => new Vector3().setFromMatrixPosition(world[humanBones[bone].node]);
+  const scale = at('hips').distanceTo(at('head'));
+  const hasEyeMorphs = morphNodes.some(entry => entry.names.includes('eyeLookUpLeft'));
+
+  json.extensionsUsed = Array.from(new Set([...(json.extensionsUsed ?? []), 'VRMC_vrm', 'VRMC_springBone']));
+  json.extensions = {
+    ...json.extensions,
+    VRMC_vrm: {
+      specVersion: '1.0',
+      meta: {
+        ...meta,
+        authors: meta.authors.length > 0 ? meta.authors : ['VIDA³ creator']
+      },
+      humanoid: { humanBones },
+      expressions: { preset, custom },
+      ...(hasEyeMorphs && {
+        lookAt: {
+          type: 'expression',
+          offsetFromHeadBone: [0, scale * 0.1, scale * 0.12],
+          rangeMapHorizontalInner: { inputMaxValue: 90, outputScale: 1 },
+          rangeMapHorizontalOuter: { inputMaxValue: 90, outputScale: 1 },
+          rangeMapVerticalDown: { inputMaxValue: 90, outputScale: 1 },
+          rangeMapVerticalUp: { inputMaxValue: 90, outputScale: 1 }
+        }
+      })
+    },
+    VRMC_springBone: {
+      specVersion: '1.0',
+      ...buildSpringColliders(humanBones, at, scale),
+      springs: []
+    }
+  };
+
+  return GLBExporter.createGLB(json, binary ?? undefined);
+}
+
+/**
+ * Colliders hair and cloth spring chains added in other tools can collide
+ * with: head, chest, hands and upper arms, sized from the hips-to-head length
+ */
+function buildSpringColliders(humanBones: Record<string, { node: number }>, at: (bone: string) => Vector3, scale: number) {
+  const colliders: any[] = [
+    { node: humanBones.head.node, shape: { sphere: { offset: [0, scale * 0.17, 0], radius: scale * 0.17 } } }
+  ];
+  if (humanBones.chest) {
+    colliders.push({ node: humanBones.chest.node, shape: { sphere: { offset: [0, 0, 0], radius: scale * 0.25 } } });
+  }
+  for (const side of ['left', 'right']) {
+    const tail = at(`${side}LowerArm`).sub(at(`${side}UpperArm`));
+    colliders.push(
+      { node: humanBones[`${side}UpperArm`].node, shape: { capsule: { offset: [0, 0, 0], radius: scale * 0.08, tail: tail.toArray() } } },
+      { node: humanBones[`${side}Hand`].node, shape: { sphere: { offset: [0, 0, 0], radius: scale * 0.07 } } }
+    );
+  }
+
+  return {
+    colliders,
+    colliderGroups: [
+      { name: 'Head', colliders: [0] },
+      { name: 'Body', colliders: colliders.map((_, index) => index).slice(1) }
+    ]
+  };
+}
+
+function licenseUrlFor(licenseName: string): string {
+  const creativeCommons: Record<string, string> = {
+    CC0: 'https://creativecommons.org/publicdomain/zero/1.0/',
+    CC_BY: 'https://creativecommons.org/licenses/by/4.0/',
+    CC_BY_NC: 'https://creativecommons.org/licenses/by-nc/4.0/',
+    CC_BY_SA: 'https://creativecommons.org/licenses/by-sa/4.0/',
+    CC_BY_NC_SA: 'https://creativecommons.org/licenses/by-nc-sa/4.0/',
+    CC_BY_ND: 'https://creativecommons.org/licenses/by-nd/4.0/',
+    CC_BY_NC_ND: 'https://creativecommons.org/licenses/by-nc-nd/4.0/'
+  };
+  return creativeCommons[licenseName] ?? VRM_LICENSE_URL;
+}
+
+// VRM 1.0 humanoid bone → node index, from either spec version
+function humanBoneNodes(json: any): Record<string, number> {
+  const bones: Record<string, number> = {};
+  const vrm1 = json.extensions?.VRMC_vrm?.humanoid?.humanBones;
+  const vrm0 = json.extensions?.VRM?.humanoid?.humanBones;
+
+  if (vrm1) {
+    for (const [bone, value] of Object.entries<any>(vrm1)) bones[bone] = value?.node;
+  } else if (Array.isArray(vrm0)) {
+    for (const { bone, node } of vrm0) {
+      // 0.x names the thumb segments proximal/intermediate/distal
+      const name = String(bone).replace(/ThumbProximal$/, 'ThumbMetacarpal').replace(/ThumbIntermediate$/, 'ThumbProximal');
+      if (VRM_HUMAN_BONES.has(name)) bones[name] = node;
+    }
+  } else {
+    throw new VrmError('VRM extension has no humanoid bones');
+  }
+
+  for (const [bone, node] of Object.entries(bones)) {
+    if (!json.nodes?.[node]) throw new VrmError(`Humanoid bone ${bone} points at missing node ${node}`);
+  }
+  return bones;
+}
+
+// VRM 1.0 humanoid bone → node name
+export function humanBoneNames(json: any): Record<string, string> {
+  const names: Record<string, string> = {};
+  for (const [bone, node] of Object.entries(humanBoneNodes(json))) {
+    names[bone] = json.nodes[node].name ?? `node_${node}`;
+  }
+  return names;
+}
+
+function toVec3(value: any): Vec3 {
+  return value && typeof value === 'object' ? [Number(value.x) || 0, Number(value.y) || 0, Number(value.z) || 0] : [0, 0, 0];
+}
+
+export function parentIndices(json: any): number[] {
+  const parents = (json.nodes ?? []).map(() => -1);
+  (json.nodes ?? []).forEach((node: any, index: number) => {
+    for (const child of node.children ?? []) parents[child] = index;
+  });
+  return parents;
+}
+
+// World matrix of every node from its TRS or matrix and its parents
+export function worldTransforms(json: any): Matrix4[] {
+  const nodes: any[] = json.nodes ?? [];
+  const parents = parentIndices(json);
+  const world: Array<Matrix4 | undefined> = [];
+
+  const resolve = (index: number): Matrix4 => {
+    const cached = world[index];
+    if (cached) return cached;
+
+    const node = nodes[index];
+    const local = node.matrix
+      ? new Matrix4().fromArray(node.matrix)
+      : new Matrix4().compose(
+        new Vector3(...(node.translation ?? [0, 0, 0])),
+        new Quaternion(...(node.rotation ?? [0, 0, 0, 1])),
+        new Vector3(...(node.scale ?? [1, 1, 1]))
+      );
+    const matrix = parents[index] === -1 ? local : resolve(parents[index]).clone().multiply(local);
+    world[index] = matrix;
+    return matrix;
+  };
+
+  return nodes.map((_, index) => resolve(index));
+}
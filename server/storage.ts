@@ -3,6 +3,9 @@ import { drizzle } from "drizzle-orm/neon-serverless";
 import { Client } from "@neondatabase/serverless";
 import * as schema from "@shared/schema";
 import bcrypt from "bcrypt";
+import { encryptStreamKey, needsReencryption, reencryptStreamKey } from "./services/stream-key-vault";
+import { scrubSecrets, scrubValue } from "./services/log-scrubber";
+import { getSubscriptionTierConfig } from "./services/subscription-rigging-tiers";
 
 // Import the database connection from db.ts instead
 import { db } from "./db";
@@ -107,9 +110,19 @@ export interface IStorage {
   // Streaming operations
   startStreamingSession(session: schema.InsertStreamingSession): Promise<schema.StreamingSession>;
   endStreamingSession(id: number, data: { endTime: Date, duration: number, viewers?: number }): Promise<schema.StreamingSession | undefined>;
+  getStreamingSession(id: number): Promise<schema.StreamingSession | undefined>;
+  updateStreamingSession(id: number, data: Partial<schema.StreamingSession>): Promise<schema.StreamingSession | undefined>;
   getActiveStreamingSessions(): Promise<schema.StreamingSession[]>;
   getUserStreamingHistory(userId: string, options?: { limit?: number, offset?: number }): Promise<schema.StreamingSession[]>;
   
+  // RTMP source operations
+  getUserRtmpSources(userId: string): Promise<schema.RtmpSource[]>;
+  getRtmpSource(id: number): Promise<schema.RtmpSource | undefined>;
+  createRtmpSource(source: schema.InsertRtmpSource): Promise<schema.RtmpSource>;
+  updateRtmpSource(id: number, data: Partial<schema.RtmpSource>): Promise<schema.RtmpSource | undefined>;
+  deleteRtmpSource(id: number): Promise<boolean>;
+  reencryptRtmpSourceKeys(): Promise<number>;
+  
   // Admin operations
   getSystemStats(timeRange?: 'day' | 'week' | 'month' | 'year'): Promise<any>;
   logSystemEvent(log: schema.InsertSystemLog): Promise<schema.SystemLog>;
@@ -335,6 +348,9 @@ export class DatabaseStorage implements IStorage {
         fingerTracking: row.finger_tracking || false,
         eyeTracking: row.eye_tracking || false,
         expressionTracking: row.expression_tracking || false,
+        // What the encoder will accept (see services/encoding-profile.ts)
+        maxStreamResolution: getSubscriptionTierConfig(row.id).maxStreamResolution,
+        maxStreamBitrate: getSubscriptionTierConfig(row.id).maxStreamBitrate,
         userCount: 0, // Calculated separately
         monthlyRevenue: 0, // Calculated separately
         createdAt: row.created_at,
@@ -722,6 +738,28 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async getStreamingSession(id: number): Promise<schema.StreamingSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(schema.streamingSessions)
+      .where(eq(schema.streamingSessions.id, id));
+    
+    return session;
+  }
+
+  async updateStreamingSession(id: number, data: Partial<schema.StreamingSession>): Promise<schema.StreamingSession | undefined> {
+    const result = await db
+      .update(schema.streamingSessions)
+      .set({
+        ...data,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.streamingSessions.id, id))
+      .returning();
+    
+    return result[0];
+  }
+
   async getActiveStreamingSessions(): Promise<schema.StreamingSession[]> {
     return await db
       .select()
@@ -765,6 +803,73 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(schema.avatars.lastUsedAt), desc(schema.avatars.createdAt));
   }
 
+  // RTMP source operations
+  async getUserRtmpSources(userId: string): Promise<schema.RtmpSource[]> {
+    return await db
+      .select()
+      .from(schema.rtmpSources)
+      .where(eq(schema.rtmpSources.userId, userId))
+      .orderBy(desc(schema.rtmpSources.isDefault), schema.rtmpSources.createdAt);
+  }
+
+  async getRtmpSource(id: number): Promise<schema.RtmpSource | undefined> {
+    const [source] = await db
+      .select()
+      .from(schema.rtmpSources)
+      .where(eq(schema.rtmpSources.id, id));
+    
+    return source;
+  }
+
+  async createRtmpSource(source: schema.InsertRtmpSource): Promise<schema.RtmpSource> {
+    // Stream keys are only ever stored encrypted
+    const result = await db
+      .insert(schema.rtmpSources)
+      .values({ ...source, streamKey: encryptStreamKey(source.streamKey) })
+      .returning();
+    
+    return result[0];
+  }
+
+  async updateRtmpSource(id: number, data: Partial<schema.RtmpSource>): Promise<schema.RtmpSource | undefined> {
+    const result = await db
+      .update(schema.rtmpSources)
+      .set({
+        ...data,
+        ...(data.streamKey !== undefined && { streamKey: encryptStreamKey(data.streamKey) }),
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.rtmpSources.id, id))
+      .returning();
+    
+    return result[0];
+  }
+
+  async deleteRtmpSource(id: number): Promise<boolean> {
+    const result = await db
+      .delete(schema.rtmpSources)
+      .where(eq(schema.rtmpSources.id, id))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  async reencryptRtmpSourceKeys(): Promise<number> {
+    const sources = await db
+      .select({ id: schema.rtmpSources.id, streamKey: schema.rtmpSources.streamKey })
+      .from(schema.rtmpSources);
+
+    let updated = 0;
+    for (const source of sources.filter(source => needsReencryption(source.streamKey))) {
+      await db
+        .update(schema.rtmpSources)
+        .set({ streamKey: reencryptStreamKey(source.streamKey) })
+        .where(eq(schema.rtmpSources.id, source.id));
+      updated++;
+    }
+    return updated;
+  }
+
   // Admin operations
   async getSystemStats(timeRange: 'day' | 'week' | 'month' | 'year' = 'week'): Promise<any> {
     let date = new Date();
@@ -911,7 +1016,7 @@ export class DatabaseStorage implements IStorage {
   async logSystemEvent(log: schema.InsertSystemLog): Promise<schema.SystemLog> {
     const result = await db
       .insert(schema.systemLogs)
-      .values(log)
+      .values({ ...log, message: scrubSecrets(log.message), details: scrubValue(log.details) })
       .returning();
     
     return result[0];
@@ -1026,6 +1131,8 @@ export class MemStorage implements IStorage {
   private systemLogIdCounter: number;
   private gpuUsageLogs: Map<number, schema.GpuUsageLog>;
   private gpuUsageLogIdCounter: number;
+  private rtmpSources: Map<number, schema.RtmpSource>;
+  private rtmpSourceIdCounter: number;
 
   constructor() {
     this.users = new Map();
@@ -1042,6 +1149,8 @@ export class MemStorage implements IStorage {
     this.systemLogIdCounter = 1;
     this.gpuUsageLogs = new Map();
     this.gpuUsageLogIdCounter = 1;
+    this.rtmpSources = new Map();
+    this.rtmpSourceIdCounter = 1;
 
     // Initialize with some sample data
     this.initializeSampleData();
@@ -1390,7 +1499,7 @@ export class MemStorage implements IStorage {
       duration: undefined,
       viewers: 0,
       status: "active",
-      metadata: undefined,
+      metadata: session.metadata ?? null,
       createdAt: now,
       updatedAt: now,
     };
@@ -1416,6 +1525,24 @@ export class MemStorage implements IStorage {
     return updatedSession;
   }
 
+  async getStreamingSession(id: number): Promise<schema.StreamingSession | undefined> {
+    return this.streamingSessions.get(id);
+  }
+
+  async updateStreamingSession(id: number, data: Partial<schema.StreamingSession>): Promise<schema.StreamingSession | undefined> {
+    const session = this.streamingSessions.get(id);
+    if (!session) return undefined;
+
+    const updatedSession = {
+      ...session,
+      ...data,
+      updatedAt: new Date(),
+    };
+
+    this.streamingSessions.set(id, updatedSession);
+    return updatedSession;
+  }
+
   async getActiveStreamingSessions(): Promise<schema.StreamingSession[]> {
     return Array.from(this.streamingSessions.values())
       .filter(session => session.status === "active")
@@ -1442,6 +1569,64 @@ export class MemStorage implements IStorage {
     return sessions;
   }
 
+  // RTMP source operations
+  async getUserRtmpSources(userId: string): Promise<schema.RtmpSource[]> {
+    return Array.from(this.rtmpSources.values())
+      .filter(source => source.userId === userId)
+      .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getRtmpSource(id: number): Promise<schema.RtmpSource | undefined> {
+    return this.rtmpSources.get(id);
+  }
+
+  async createRtmpSource(source: schema.InsertRtmpSource): Promise<schema.RtmpSource> {
+    const id = this.rtmpSourceIdCounter++;
+    const now = new Date();
+    const newSource: schema.RtmpSource = {
+      id,
+      ...source,
+      streamKey: encryptStreamKey(source.streamKey),
+      bitrate: source.bitrate ?? 2500,
+      isDefault: source.isDefault ?? false,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.rtmpSources.set(id, newSource);
+    return newSource;
+  }
+
+  async updateRtmpSource(id: number, data: Partial<schema.RtmpSource>): Promise<schema.RtmpSource | undefined> {
+    const source = this.rtmpSources.get(id);
+    if (!source) return undefined;
+
+    const updatedSource = {
+      ...source,
+      ...data,
+      ...(data.streamKey !== undefined && { streamKey: encryptStreamKey(data.streamKey) }),
+      updatedAt: new Date(),
+    };
+
+    this.rtmpSources.set(id, updatedSource);
+    return updatedSource;
+  }
+
+  async deleteRtmpSource(id: number): Promise<boolean> {
+    return this.rtmpSources.delete(id);
+  }
+
+  async reencryptRtmpSourceKeys(): Promise<number> {
+    let updated = 0;
+    for (const source of Array.from(this.rtmpSources.values())) {
+      if (needsReencryption(source.streamKey)) {
+        source.streamKey = reencryptStreamKey(source.streamKey);
+        updated++;
+      }
+    }
+    return updated;
+  }
+
   // Admin operations
   async getSystemStats(timeRange: 'day' | 'week' | 'month' | 'year' = 'week'): Promise<any> {
     // Mock data for system stats
@@ -1470,6 +1655,8 @@ export class MemStorage implements IStorage {
     const newLog: schema.SystemLog = {
       id,
       ...log,
+      message: scrubSecrets(log.message),
+      details: scrubValue(log.details),
       createdAt: now,
     };
 
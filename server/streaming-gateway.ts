@@ -0,0 +1,800 @@
+/**
+ * VIDA³ Streaming Gateway
+ * The single WebSocket entry point for studio broadcasts. Authenticates each
+ * connection, keeps one registry of active streams keyed by user and stream
+ * id, decodes the studio's frames and mixes its audio once, and fans both
+ * out to the stream's RTMP destinations. The local recorder and the HLS
+ * preview remux what one destination's encoder produced. Message shapes live
+ * in @shared/streaming-gateway-protocol.
+ */
+
+import { WebSocketServer, WebSocket } from 'ws';
+import { Server } from 'http';
+import { Writable as WritableStream } from 'stream';
+import {
+  AUDIO_CHANNELS,
+  AUDIO_SAMPLE_RATE,
+  decodeFramePacket,
+  FrameFormat,
+  MediaTrack,
+  type AudioSourceUpdateMessage,
+  type FramePacket,
+  type StreamLifecycleState,
+} from '@shared/frame-protocol';
+import {
+  GATEWAY_PATH,
+  GATEWAY_PROTOCOL_VERSION,
+  GatewayCloseCode,
+  parseGatewayClientMessage,
+  type CanvasFrameMessage,
+  type GatewayClientMessage,
+  type GatewayErrorCode,
+  type GatewayServerMessage,
+  type HelloMessage,
+  type StartStreamMessage,
+  type StopStreamMessage,
+} from '@shared/streaming-gateway-protocol';
+import { StreamAudioMixer } from './services/stream-audio-mixer';
+import { getSubscriptionTierConfig } from './services/subscription-rigging-tiers';
+import { buildEncodingProfile, describeEncodingProfile, EncodingProfileError } from './services/encoding-profile';
+import { StreamRecorder } from './services/stream-recorder';
+import { HlsPreview } from './services/hls-preview';
+import { encryptStreamKey, isMaskedStreamKey } from './services/stream-key-vault';
+import { canTransition, DEFAULT_RECONNECT_POLICY, deriveStreamState } from './services/stream-lifecycle';
+import { RtmpDestinationOutput, type RtmpDestinationConfig } from './services/rtmp-destination-output';
+import { decodeDataUrlToRaw, decodeFrameToRaw, type EncodedStreamOutput, type StreamOutput } from './services/stream-outputs';
+import { StreamingMonitoringService } from './services/streaming-monitoring';
+import { storage } from './storage';
+import type { StreamingSession, StreamRecordingMetadata } from '@shared/schema';
+
+const HANDSHAKE_TIMEOUT_MS = 10000;
+
+export interface GatewayUser {
+  id: string;
+  plan: string;
+}
+
+export interface StreamingGatewayOptions {
+  // Verify a client's access token; null rejects the connection
+  authenticate: (token: string) => Promise<GatewayUser | null>;
+}
+
+interface GatewayConnection {
+  ws: WebSocket;
+  user?: GatewayUser;
+  // Registry keys of the streams this connection started
+  streams: Set<string>;
+}
+
+interface GatewayStream {
+  key: string;
+  id: string;
+  userId: string;
+  userPlan: string;
+  quality: string;
+  // Raw frame geometry every output expects
+  frameWidth: number;
+  frameHeight: number;
+  session?: Promise<StreamingSession | undefined>; // streaming_sessions row
+  destinations: Map<string, RtmpDestinationOutput>;
+  recorder?: StreamRecorder;
+  preview?: HlsPreview;
+  outputs: StreamOutput[];
+  // Fed from encodedSource's encoder rather than with raw media
+  encodedOutputs: EncodedStreamOutput[];
+  encodedSource?: RtmpDestinationOutput;
+  startedAt: number;
+  status: StreamLifecycleState;
+  stopping: boolean;
+  connection: GatewayConnection;
+  // Binary frame transport state
+  lastSequence: number;
+  backpressured: boolean;
+  droppedFrames: number;
+  decoding: boolean;
+  pendingFrame?: FramePacket;
+  audioMixer?: StreamAudioMixer;
+}
+
+// A destination before its encoding profile is known
+type RequestedDestination = Omit<RtmpDestinationConfig, 'profile' | 'bitrate'> & { bitrate?: number };
+
+function registryKey(userId: string, streamId: string): string {
+  return `${userId}:${streamId}`;
+}
+
+// Client bitrates may arrive as strings; absent ones stay absent
+function kbps(value: unknown): number | undefined {
+  return value === undefined || value === null || value === '' ? undefined : Number(value);
+}
+
+export class StreamingGateway {
+  private wss: WebSocketServer;
+  // Every active stream, keyed by user and stream id
+  private streams: Map<string, GatewayStream> = new Map();
+  private reconnectPolicy = DEFAULT_RECONNECT_POLICY;
+  private monitoring = new StreamingMonitoringService();
+
+  constructor(server: Server, private options: StreamingGatewayOptions) {
+    this.wss = new WebSocketServer({
+      server,
+      path: GATEWAY_PATH
+    });
+
+    this.wss.on('connection', (ws) => this.handleConnection(ws));
+  }
+
+  private handleConnection(ws: WebSocket) {
+    console.log('✅ Streaming gateway connection established');
+    const connection: GatewayConnection = { ws, streams: new Set() };
+
+    const handshakeTimer = setTimeout(() => {
+      if (!connection.user) {
+        this.reject(connection, 'handshake-timeout', 'No hello received', GatewayCloseCode.HANDSHAKE_TIMEOUT);
+      }
+    }, HANDSHAKE_TIMEOUT_MS);
+
+    ws.on('message', (data, isBinary) => {
+      if (!connection.user) {
+        if (isBinary) {
+          this.reject(connection, 'unauthorized', 'Authenticate before sending media', GatewayCloseCode.UNAUTHORIZED);
+          return;
+        }
+        const hello = parseGatewayClientMessage(data.toString());
+        if (hello?.type !== 'hello') {
+          this.reject(connection, 'unauthorized', 'Expected hello', GatewayCloseCode.UNAUTHORIZED);
+          return;
+        }
+        this.handleHello(connection, hello).finally(() => clearTimeout(handshakeTimer));
+        return;
+      }
+
+      if (isBinary) {
+        this.handleBinaryFrame(connection, data as Buffer);
+        return;
+      }
+
+      const message = parseGatewayClientMessage(data.toString());
+      if (!message) {
+        this.sendToClient(connection.ws, { type: 'gateway-error', code: 'invalid-message', message: 'Unrecognised message' });
+        return;
+      }
+      this.handleMessage(connection, message);
+    });
+
+    ws.on('close', () => {
+      clearTimeout(handshakeTimer);
+      console.log(`🔌 Streaming gateway connection closed${connection.user ? ` for user ${connection.user.id}` : ''}`);
+
+      // Studio went away - don't leave its encoders (and reconnect timers) running
+      connection.streams.forEach(key => this.cleanupStream(key));
+    });
+
+    ws.on('error', (error) => {
+      console.error('WebSocket error:', error);
+    });
+  }
+
+  /**
+   * The connection's identity and plan come from the verified token only;
+   * nothing the client says about itself later is trusted.
+   */
+  private async handleHello(connection: GatewayConnection, hello: HelloMessage) {
+    if (hello.version !== GATEWAY_PROTOCOL_VERSION) {
+      this.reject(
+        connection,
+        'unsupported-version',
+        `Gateway speaks protocol v${GATEWAY_PROTOCOL_VERSION}, client sent v${hello.version}. Reload the page to update.`,
+        GatewayCloseCode.UNSUPPORTED_VERSION
+      );
+      return;
+    }
+
+    let user: GatewayUser | null = null;
+    try {
+      user = await this.options.authenticate(hello.token);
+    } catch (error) {
+      console.error('❌ Streaming gateway authentication error:', error);
+    }
+
+    if (!user) {
+      this.reject(connection, 'unauthorized', 'Invalid or expired token', GatewayCloseCode.UNAUTHORIZED);
+      return;
+    }
+
+    connection.user = user;
+    console.log(`🔐 Streaming gateway authenticated user ${user.id} (${user.plan})`);
+    this.sendToClient(connection.ws, { type: 'welcome', version: GATEWAY_PROTOCOL_VERSION, userId: user.id, plan: user.plan });
+  }
+
+  private reject(connection: GatewayConnection, code: GatewayErrorCode, message: string, closeCode: number) {
+    console.warn(`⛔ Streaming gateway rejected connection: ${message}`);
+    this.sendToClient(connection.ws, { type: 'gateway-error', code, message });
+    connection.ws.close(closeCode, message);
+  }
+
+  private handleMessage(connection: GatewayConnection, message: GatewayClientMessage) {
+    try {
+      switch (message.type) {
+        case 'start-stream':
+          this.startStream(connection, message).catch(error => {
+            console.error(`❌ Failed to start stream ${message.streamId}:`, error);
+            this.sendToClient(connection.ws, { type: 'stream-error', streamId: message.streamId, error: 'Failed to start stream' });
+          });
+          break;
+        case 'canvas-frame':
+          this.handleCanvasFrame(connection, message);
+          break;
+        case 'stop-stream':
+          this.stopStream(connection, message);
+          break;
+        case 'audio-source-update':
+          this.handleAudioSourceUpdate(connection, message);
+          break;
+        case 'hello':
+          // Already authenticated
+          break;
+      }
+    } catch (error) {
+      console.error('Error handling gateway message:', error);
+    }
+  }
+
+  /**
+   * The stream this connection's user owns under `streamId`, if it is running
+   */
+  private findStream(connection: GatewayConnection, streamId: string): GatewayStream | undefined {
+    const stream = this.streams.get(registryKey(connection.user!.id, streamId));
+    return stream && !stream.stopping ? stream : undefined;
+  }
+
+  /**
+   * Destinations that name a saved rtmp_sources row (`sourceId`) get their
+   * URL, encrypted key and bitrate from storage, and only if the source
+   * belongs to the authenticated user. Keys stay encrypted in memory until an
+   * encoder is spawned. A bitrate the client sends for a destination wins;
+   * with none at all the plan's default applies (see buildEncodingProfile).
+   */
+  private async parseDestinations(userId: string, message: StartStreamMessage): Promise<RequestedDestination[]> {
+    const resolved = await Promise.all(message.destinations.map(async dest => {
+      if (dest?.sourceId === undefined) {
+        return dest?.rtmpUrl && dest?.streamKey && !isMaskedStreamKey(dest.streamKey)
+          ? { ...dest, rtmpUrl: dest.rtmpUrl, streamKey: encryptStreamKey(dest.streamKey), bitrate: kbps(dest.bitrate) ?? kbps(message.bitrate) }
+          : null;
+      }
+
+      const source = await storage.getRtmpSource(Number(dest.sourceId));
+      if (!source || source.userId !== userId) {
+        console.warn(`⛔ RTMP source ${dest.sourceId} not found for user ${userId}`);
+        return null;
+      }
+      return {
+        ...dest,
+        id: dest.id ?? String(source.id),
+        name: dest.name || source.name,
+        rtmpUrl: source.url,
+        streamKey: source.streamKey,
+        bitrate: kbps(dest.bitrate) ?? source.bitrate
+      };
+    }));
+
+    return resolved
+      .filter(dest => dest !== null)
+      .map((dest, index) => ({
+        id: String(dest.id ?? `destination_${index}`),
+        name: dest.name || `Destination ${index + 1}`,
+        rtmpUrl: dest.rtmpUrl,
+        streamKey: dest.streamKey,
+        bitrate: dest.bitrate
+      }));
+  }
+
+  private async startStream(connection: GatewayConnection, message: StartStreamMessage) {
+    const { ws } = connection;
+    const { id: userId, plan: userPlan } = connection.user!;
+    const { streamId, quality = '1080p' } = message;
+    const key = registryKey(userId, streamId);
+
+    if (this.streams.has(key)) {
+      this.sendToClient(ws, { type: 'gateway-error', code: 'stream-exists', streamId, message: `Stream ${streamId} is already running` });
+      return;
+    }
+
+    const requested = await this.parseDestinations(userId, message);
+    if (requested.length === 0) {
+      this.sendToClient(ws, { type: 'stream-error', streamId, error: 'At least one RTMP destination is required' });
+      return;
+    }
+
+    const { maxStreamDestinations } = getSubscriptionTierConfig(userPlan);
+    if (requested.length > maxStreamDestinations) {
+      console.warn(`⛔ Stream ${streamId} requested ${requested.length} destinations, ${userPlan} plan allows ${maxStreamDestinations}`);
+      this.sendToClient(ws, {
+        type: 'stream-error',
+        streamId,
+        error: `Your plan allows streaming to ${maxStreamDestinations} destination${maxStreamDestinations === 1 ? '' : 's'} at once. Upgrade to simulcast to more platforms.`
+      });
+      return;
+    }
+
+    // Resolve the effective encoder settings up front; refuse combinations the plan doesn't allow
+    let destinations: RtmpDestinationOutput[];
+    try {
+      destinations = requested.map(dest => {
+        const profile = buildEncodingProfile({
+          userPlan,
+          quality,
+          sourceBitrate: dest.bitrate,
+          frameRate: message.frameRate
+        });
+        return new RtmpDestinationOutput({ ...dest, bitrate: profile.videoBitrate, profile }, streamId, this.reconnectPolicy);
+      });
+    } catch (error) {
+      if (error instanceof EncodingProfileError) {
+        console.warn(`⛔ Stream ${streamId} rejected: ${error.message}`);
+        this.sendToClient(ws, { type: 'stream-error', streamId, error: error.message, field: error.field });
+        return;
+      }
+      throw error;
+    }
+
+    // Another start for the same id may have finished while sources were resolving
+    if (this.streams.has(key) || ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    const baseProfile = destinations[0].profile;
+    console.log(`🎯 Starting stream ${streamId} for user ${userId} to ${destinations.length} destination(s): ${destinations.map(d => d.name).join(', ')}`);
+    console.log(`📊 Quality: ${quality} | Plan: ${userPlan} | Profile: ${describeEncodingProfile(baseProfile)}`);
+
+    const stream: GatewayStream = {
+      key,
+      id: streamId,
+      userId,
+      userPlan,
+      quality,
+      frameWidth: baseProfile.width,
+      frameHeight: baseProfile.height,
+      destinations: new Map(destinations.map(dest => [dest.id, dest])),
+      outputs: [...destinations],
+      encodedOutputs: [],
+      startedAt: Date.now(),
+      status: 'connecting',
+      stopping: false,
+      connection,
+      lastSequence: -1,
+      backpressured: false,
+      droppedFrames: 0,
+      decoding: false
+    };
+
+    this.streams.set(key, stream);
+    connection.streams.add(key);
+    this.monitoring.startStreamTracking(key, userId, destinations[0].rtmpUrl, quality, baseProfile.videoBitrate);
+    destinations.forEach(dest => this.attachDestination(stream, dest));
+    this.attachAudioMixer(stream);
+
+    const results = await Promise.allSettled(destinations.map(dest => dest.start()));
+    const started = results.filter(result => result.status === 'fulfilled').length;
+
+    // Every destination failed to start - updateStreamState has already reported and cleaned up
+    if (started === 0 || stream.stopping) {
+      console.error(`❌ No destinations could be started for stream ${streamId}`);
+      return;
+    }
+
+    console.log(`✅ Stream ${streamId} running with ${started}/${destinations.length} destination(s)`);
+
+    this.pickEncodedSource(stream);
+    if (message.record) {
+      stream.recorder = new StreamRecorder(userId, streamId, userPlan);
+      stream.recorder.start();
+      stream.encodedOutputs.push(stream.recorder);
+    }
+    if (message.preview) {
+      stream.preview = new HlsPreview(streamId, userId, baseProfile);
+      stream.preview.start();
+      stream.encodedOutputs.push(stream.preview);
+    }
+    stream.session = this.recordStreamingSession(stream);
+
+    // Wait briefly for FFmpeg to establish connection before marking as ready
+    setTimeout(() => {
+      if (stream.stopping) return;
+      this.sendToClient(ws, {
+        type: 'stream-ready',
+        streamId,
+        status: stream.status,
+        encodingProfile: baseProfile,
+        recording: !!stream.recorder,
+        previewUrl: stream.preview?.playlistUrl,
+        destinations: destinations.map(dest => dest.describe())
+      });
+    }, 2000);
+  }
+
+  /**
+   * Relay a destination's lifecycle to the client and the stream state machine
+   */
+  private attachDestination(stream: GatewayStream, dest: RtmpDestinationOutput) {
+    dest.on('status', (status: StreamLifecycleState) => {
+      if (status === 'failed') {
+        this.monitoring.recordError(stream.key, `${dest.name}: ${dest.lastError || 'failed'}`, 'high');
+        if (stream.encodedSource === dest) this.pickEncodedSource(stream);
+      }
+
+      this.sendToClient(stream.connection.ws, {
+        type: 'destination-status',
+        streamId: stream.id,
+        ...dest.describe()
+      });
+
+      this.updateStreamState(stream, `${dest.name} ${status}`);
+    });
+
+    dest.on('retry', (attempt: number, delayMs: number) => {
+      this.monitoring.recordRecoveryAttempt(stream.key, dest.name, attempt, delayMs);
+    });
+
+    dest.on('drain', () => this.updateStreamBackpressure(stream));
+
+    dest.on('encoded', (chunk: Buffer) => {
+      if (stream.encodedSource === dest) stream.encodedOutputs.forEach(output => output.writeEncoded(chunk));
+    });
+  }
+
+  /**
+   * The destination whose encoder feeds the recorder and preview: the first
+   * one still running. Switching starts a new MPEG-TS, which the remuxers
+   * take like a reconnect.
+   */
+  private pickEncodedSource(stream: GatewayStream) {
+    const previous = stream.encodedSource;
+    stream.encodedSource = Array.from(stream.destinations.values()).find(dest => dest.status !== 'failed');
+    if (previous && stream.encodedSource && stream.encodedSource !== previous) {
+      console.log(`🔁 Stream ${stream.id} now records from ${stream.encodedSource.name} (${previous.name} failed)`);
+    }
+  }
+
+  /**
+   * Create the streaming_sessions row with the effective encoding profile of
+   * every destination so support can see what was actually sent.
+   */
+  private async recordStreamingSession(stream: GatewayStream): Promise<StreamingSession | undefined> {
+    try {
+      const destinations = Array.from(stream.destinations.values());
+      const session = await storage.startStreamingSession({
+        userId: stream.userId,
+        platform: destinations.map(dest => dest.name).join(', '),
+        status: 'active',
+        metadata: {
+          streamId: stream.id,
+          userPlan: stream.userPlan,
+          quality: stream.quality,
+          destinations: destinations.map(dest => ({
+            id: dest.id,
+            name: dest.name,
+            rtmpUrl: dest.rtmpUrl,
+            encodingProfile: dest.profile,
+            summary: describeEncodingProfile(dest.profile)
+          })),
+          recording: stream.recorder ? {
+            status: 'recording',
+            fileName: stream.recorder.fileName,
+            format: 'mp4',
+            startedAt: new Date().toISOString()
+          } satisfies StreamRecordingMetadata : undefined
+        }
+      });
+      return session;
+    } catch (error) {
+      console.error(`❌ Failed to record streaming session for stream ${stream.id}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Move the stream to the state implied by its destinations and tell the client
+   */
+  private updateStreamState(stream: GatewayStream, reason?: string) {
+    if (stream.stopping) return;
+
+    const next = deriveStreamState(stream.status, Array.from(stream.destinations.values()).map(dest => dest.status));
+    if (next === stream.status) return;
+    if (!canTransition(stream.status, next)) {
+      console.warn(`⚠️ Ignoring invalid transition ${stream.status} -> ${next} for stream ${stream.id}${reason ? ` (${reason})` : ''}`);
+      return;
+    }
+
+    const previousState = stream.status;
+    stream.status = next;
+    console.log(`🔀 Stream ${stream.id}: ${previousState} -> ${next}${reason ? ` (${reason})` : ''}`);
+
+    this.monitoring.recordStateTransition(stream.key, next, reason);
+    this.sendToClient(stream.connection.ws, { type: 'stream-state', streamId: stream.id, state: next, previousState, reason });
+
+    if (next === 'failed') {
+      const destinations = Array.from(stream.destinations.values());
+      this.sendToClient(stream.connection.ws, {
+        type: 'stream-error',
+        streamId: stream.id,
+        error: previousState === 'connecting'
+          ? destinations.map(dest => `${dest.name}: ${dest.lastError || 'failed to start'}`).join('; ')
+          : 'All destinations failed after repeated reconnection attempts. Please restart the stream.'
+      });
+      this.cleanupStream(stream.key);
+    }
+  }
+
+  private sendToClient(ws: WebSocket | undefined, payload: GatewayServerMessage) {
+    try {
+      if (ws?.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(payload));
+      }
+    } catch (wsError) {
+      console.error(`Failed to send ${payload.type} message via WebSocket:`, wsError);
+    }
+  }
+
+  /**
+   * Legacy PNG data-URL frames. Like binary frames they only ever reach the
+   * sender's own stream; frames for an unknown id are dropped.
+   */
+  private handleCanvasFrame(connection: GatewayConnection, message: CanvasFrameMessage) {
+    const stream = this.findStream(connection, message.streamId);
+    if (!stream) {
+      return;
+    }
+
+    decodeDataUrlToRaw(message.frameData, stream.frameWidth, stream.frameHeight)
+      .then(rawBuffer => this.writeRawFrame(stream, rawBuffer))
+      .catch(error => {
+        console.error(`❌ Error processing canvas frame for stream ${stream.id}:`, error.message);
+      });
+  }
+
+  /**
+   * Binary frame path: header + raw RGBA or JPEG/WebP payload.
+   * Frames are only routed to the sender's stream named in their header,
+   * arrive in sequence order, and are dropped while the outputs are saturated.
+   */
+  private handleBinaryFrame(connection: GatewayConnection, data: Buffer) {
+    let packet: FramePacket;
+    try {
+      packet = decodeFramePacket(data);
+    } catch (error) {
+      console.error('❌ Invalid binary frame:', error instanceof Error ? error.message : error);
+      return;
+    }
+
+    const { streamId, sequence } = packet.header;
+    const stream = this.findStream(connection, streamId);
+    if (!stream) {
+      return;
+    }
+
+    if (packet.header.track !== MediaTrack.VIDEO) {
+      this.handleAudioPacket(stream, packet);
+      return;
+    }
+
+    // First video frame defines time zero for audio alignment
+    stream.audioMixer?.anchorClock(packet.header.timestamp);
+
+    // Discard stale or duplicated frames (sequence wraps at 2^32)
+    if (stream.lastSequence >= 0 && sequence <= stream.lastSequence && stream.lastSequence - sequence < 0x7fffffff) {
+      stream.droppedFrames++;
+      return;
+    }
+    stream.lastSequence = sequence;
+
+    // Destinations that are down keep their own bounded copy for replay
+    stream.destinations.forEach(dest => dest.bufferVideo(packet));
+
+    if (stream.backpressured) {
+      stream.droppedFrames++;
+      return;
+    }
+
+    // Only one decode in flight per stream; keep the newest frame waiting
+    if (stream.decoding) {
+      if (stream.pendingFrame) {
+        stream.droppedFrames++;
+      }
+      stream.pendingFrame = packet;
+      return;
+    }
+
+    this.processBinaryFrame(stream, packet);
+  }
+
+  private async processBinaryFrame(stream: GatewayStream, packet: FramePacket) {
+    stream.decoding = true;
+
+    try {
+      const rawBuffer = await decodeFrameToRaw(packet, stream.frameWidth, stream.frameHeight);
+      this.writeRawFrame(stream, rawBuffer);
+    } catch (error) {
+      console.error(`❌ Error decoding binary frame ${packet.header.sequence} for stream ${stream.id}:`, error);
+    } finally {
+      stream.decoding = false;
+    }
+
+    const next = stream.pendingFrame;
+    stream.pendingFrame = undefined;
+    if (next && !stream.backpressured && !stream.stopping) {
+      this.processBinaryFrame(stream, next);
+    }
+  }
+
+  /**
+   * Fan a raw frame out to every output. A saturated destination drops frames
+   * on its own; the client is only throttled once all destinations are saturated.
+   */
+  private writeRawFrame(stream: GatewayStream, rawBuffer: Buffer) {
+    if (stream.stopping) return;
+    stream.outputs.forEach(output => output.writeVideo(rawBuffer));
+    this.updateStreamBackpressure(stream);
+  }
+
+  private updateStreamBackpressure(stream: GatewayStream) {
+    const writable = Array.from(stream.destinations.values()).filter(dest => dest.writable);
+    const saturated = writable.length > 0 && writable.every(dest => dest.backpressured);
+    this.setBackpressure(stream, saturated);
+  }
+
+  private setBackpressure(stream: GatewayStream, paused: boolean) {
+    if (stream.backpressured === paused) {
+      return;
+    }
+    stream.backpressured = paused;
+
+    if (paused) {
+      console.warn(`⏸️ FFmpeg stdin saturated for stream ${stream.id}, pausing capture (${stream.droppedFrames} dropped so far)`);
+    }
+
+    this.sendToClient(stream.connection.ws, {
+      type: 'stream-backpressure',
+      streamId: stream.id,
+      paused,
+      droppedFrames: stream.droppedFrames
+    });
+  }
+
+  /**
+   * Audio path: interleaved s16le PCM chunks per studio track, mixed server-side
+   * and copied to every output.
+   */
+  private attachAudioMixer(stream: GatewayStream) {
+    const fanOut = new WritableStream({
+      write(chunk, _encoding, callback) {
+        stream.outputs.forEach(output => output.writeAudio(chunk));
+        callback();
+      }
+    });
+
+    const mixer = new StreamAudioMixer(fanOut);
+    mixer.on('levels', (levels) => {
+      // Meter updates are best-effort
+      this.sendToClient(stream.connection.ws, {
+        type: 'audio-levels',
+        streamId: stream.id,
+        ...levels
+      });
+    });
+    mixer.start();
+    stream.audioMixer = mixer;
+  }
+
+  private handleAudioPacket(stream: GatewayStream, packet: FramePacket) {
+    const { track, format, width: sampleRate, height: channels, timestamp } = packet.header;
+
+    if (format !== FrameFormat.PCM_S16LE || sampleRate !== AUDIO_SAMPLE_RATE || channels !== AUDIO_CHANNELS) {
+      console.warn(`⚠️ Unsupported audio chunk for stream ${stream.id}: format=${format} ${sampleRate}Hz ${channels}ch`);
+      return;
+    }
+    if (!stream.audioMixer || packet.payload.byteLength % 2 !== 0) {
+      return;
+    }
+
+    // Copy into an aligned buffer - the payload offset inside the packet may be odd
+    const aligned = new Uint8Array(packet.payload);
+    const samples = new Int16Array(aligned.buffer, 0, aligned.byteLength / 2);
+    stream.audioMixer.pushSamples(track as MediaTrack.MICROPHONE | MediaTrack.MUSIC, timestamp, samples);
+  }
+
+  private handleAudioSourceUpdate(connection: GatewayConnection, message: AudioSourceUpdateMessage) {
+    const { streamId, track, gain, muted } = message;
+    const stream = this.findStream(connection, streamId);
+
+    if (!stream?.audioMixer || (track !== MediaTrack.MICROPHONE && track !== MediaTrack.MUSIC)) {
+      return;
+    }
+
+    stream.audioMixer.updateSource(track, { gain, muted });
+  }
+
+  private stopStream(connection: GatewayConnection, message: StopStreamMessage) {
+    const { streamId } = message;
+    const key = registryKey(connection.user!.id, streamId);
+
+    if (!this.streams.has(key)) {
+      console.log(`⚠️ Stream ${streamId} not found or already stopped`);
+      this.sendToClient(connection.ws, { type: 'stream-stopped', streamId, status: 'not_found' });
+      return;
+    }
+
+    console.log(`🛑 Stopping stream ${streamId}`);
+    this.cleanupStream(key);
+    this.sendToClient(connection.ws, { type: 'stream-stopped', streamId, status: 'stopped' });
+
+    this.logStreamHealth();
+  }
+
+  private cleanupStream(key: string) {
+    const stream = this.streams.get(key);
+    if (!stream) return;
+
+    console.log(`🧹 Cleaning up stream ${stream.id}`);
+    const failed = stream.status === 'failed';
+    stream.stopping = true;
+    stream.status = 'stopped';
+    this.monitoring.recordStateTransition(key, 'stopped');
+    this.monitoring.endStreamTracking(key, failed ? 'failed' : 'completed');
+    stream.audioMixer?.stop();
+
+    // The recorder's stop resolves with the finished recording for the session row
+    const recording = stream.recorder?.stop();
+    stream.outputs.forEach(output => output.stop());
+    stream.encodedOutputs.forEach(output => output !== stream.recorder && output.stop());
+    this.endStreamingSession(stream, recording);
+
+    this.streams.delete(key);
+    stream.connection.streams.delete(key);
+  }
+
+  /**
+   * Close the streaming_sessions row and attach the finished recording, if any
+   */
+  private async endStreamingSession(stream: GatewayStream, recordingResult?: Promise<StreamRecordingMetadata>) {
+    const endTime = new Date();
+    const duration = Math.round((endTime.getTime() - stream.startedAt) / 1000);
+
+    try {
+      const [session, recording] = await Promise.all([stream.session, recordingResult]);
+      if (!session) return;
+
+      await storage.endStreamingSession(session.id, { endTime, duration });
+      if (recording) {
+        await storage.updateStreamingSession(session.id, {
+          metadata: { ...(session.metadata as Record<string, unknown> | null), recording }
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Failed to close streaming session for stream ${stream.id}:`, error);
+    }
+  }
+
+  private logStreamHealth() {
+    let reconnectCount = 0;
+    this.streams.forEach(stream => {
+      stream.destinations.forEach(dest => {
+        if (dest.status === 'reconnecting') reconnectCount++;
+      });
+    });
+
+    console.log(`📊 Stream Health: ${this.streams.size} active streams, ${reconnectCount} destinations reconnecting`);
+
+    this.streams.forEach((stream, key) => {
+      console.log(`  - Stream ${key}: ${stream.status}`);
+      stream.destinations.forEach(dest => {
+        console.log(`      · ${dest.name}: ${dest.status} @ ${dest.bitrate}k (${dest.rtmpUrl}, ${dest.droppedFrames} dropped)`);
+      });
+    });
+  }
+}
+
+export function setupStreamingGateway(server: Server, options: StreamingGatewayOptions): StreamingGateway {
+  console.log(`🎯 Streaming gateway initialized on ${GATEWAY_PATH} (protocol v${GATEWAY_PROTOCOL_VERSION})`);
+  return new StreamingGateway(server, options);
+}
@@ -0,0 +1,42 @@
+/**
+ * Avatar level-of-detail records (avatars.lodLevels) and the choice of
+ * level for a viewer tile
+ *
+ * Level 0 is the full-resolution rigged model; higher levels are decimated
+ * copies with the same skeleton, skin weights and morph targets, so any
+ * level can be driven by tracking or clips interchangeably. A level is
+ * picked from the tile's on-screen height, then pushed coarser when many
+ * avatars share the screen (a 4x4 co-stream grid never needs level 0).
+ */
+
+export interface AvatarLodLevel {
+  level: number;
+  url: string;
+  ratio: number;                 // triangles kept relative to level 0
+  vertices: number;
+  triangles: number;
+  fileSize: number;              // bytes downloaded, after compression
+  maxTextureSize: number | null; // longest texture edge after resizing
+}
+
+// Smallest tile height, in CSS pixels, each level is meant for
+export const LOD_MIN_TILE_HEIGHT = [720, 360, 180, 0];
+
+/**
+ * The level for a tile `tileHeight` pixels tall among `participantCount`
+ * avatars on screen, or null when the avatar has no LODs yet
+ */
+export function pickAvatarLod(
+  levels: AvatarLodLevel[] | null | undefined,
+  { tileHeight, participantCount = 1 }: { tileHeight: number; participantCount?: number }
+): AvatarLodLevel | null {
+  if (!Array.isArray(levels) || levels.length === 0) return null;
+  const sorted = [...levels].sort((a, b) => a.level - b.level);
+
+  const bySize = LOD_MIN_TILE_HEIGHT.findIndex(minHeight => tileHeight >= minHeight);
+  const byCrowd = participantCount > 9 ? 2 : participantCount > 4 ? 1 : 0;
+  const wanted = Math.max(bySize, byCrowd);
+
+  // Coarsest level not beyond the wanted one; the model may have fewer levels
+  return sorted.filter(level => level.level <= wanted).pop() ?? sorted[0];
+}
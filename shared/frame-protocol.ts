@@ -0,0 +1,207 @@
+/**
+ * Binary media protocol shared by the streaming studio and the RTMP bridge
+ *
+ * Every video frame or audio chunk travels as a single binary WebSocket message:
+ *
+ *   offset  size  field
+ *   0       2     magic ("VF")
+ *   2       1     protocol version
+ *   3       1     payload format (FrameFormat)
+ *   4       1     track (MediaTrack)
+ *   5       1     reserved (0)
+ *   6       4     sequence number (uint32, wraps, counted per track)
+ *   10      8     capture timestamp in ms (float64, shared clock for all tracks)
+ *   18      2     video: frame width  | audio: sample rate
+ *   20      2     video: frame height | audio: channel count
+ *   22      2     stream id byte length (n)
+ *   24      n     stream id (UTF-8)
+ *   24+n    ...   payload (raw RGBA pixels, encoded image bytes or interleaved PCM)
+ *
+ * All header fields are big-endian; PCM payloads are little-endian (s16le).
+ */
+
+export const FRAME_PROTOCOL_VERSION = 2;
+export const FRAME_MAGIC = 0x5646; // "VF"
+export const FRAME_HEADER_FIXED_SIZE = 24;
+
+export enum FrameFormat {
+  RGBA = 0,
+  JPEG = 1,
+  WEBP = 2,
+  PCM_S16LE = 3,
+}
+
+export enum MediaTrack {
+  VIDEO = 0,
+  MICROPHONE = 1,
+  MUSIC = 2,
+}
+
+export interface FrameHeader {
+  streamId: string;
+  track: MediaTrack;
+  sequence: number;
+  timestamp: number;
+  format: FrameFormat;
+  width: number;
+  height: number;
+}
+
+export interface FramePacket {
+  header: FrameHeader;
+  payload: Uint8Array;
+}
+
+// Control messages the server sends back (JSON text frames) to throttle capture
+export interface FrameBackpressureMessage {
+  type: 'stream-backpressure';
+  streamId: string;
+  paused: boolean;
+  droppedFrames: number;
+}
+
+export interface AudioSourceLevel {
+  peakDb: number;
+  rmsDb: number;
+}
+
+// Periodic server-side meter readings for each audio track and the final mix
+export interface AudioLevelsMessage {
+  type: 'audio-levels';
+  streamId: string;
+  sources: Partial<Record<'microphone' | 'music', AudioSourceLevel>>;
+  master: AudioSourceLevel;
+}
+
+// Client -> server gain / mute control for one audio track
+export interface AudioSourceUpdateMessage {
+  type: 'audio-source-update';
+  streamId: string;
+  track: MediaTrack.MICROPHONE | MediaTrack.MUSIC;
+  gain?: number;
+  muted?: boolean;
+}
+
+// Lifecycle shared by a stream and each of its RTMP destinations:
+// connecting -> live -> reconnecting -> (connecting ...) -> failed / stopped
+export type StreamLifecycleState = 'connecting' | 'live' | 'reconnecting' | 'failed' | 'stopped';
+
+// Server -> client stream lifecycle transition
+export interface StreamStateMessage {
+  type: 'stream-state';
+  streamId: string;
+  state: StreamLifecycleState;
+  previousState: StreamLifecycleState;
+  reason?: string;
+}
+
+// Server -> client lifecycle of one RTMP destination
+export interface DestinationStatusMessage {
+  type: 'destination-status';
+  streamId: string;
+  destinationId: string;
+  name: string;
+  status: StreamLifecycleState;
+  bitrate: number;
+  reconnectAttempts: number;
+  maxReconnectAttempts: number;
+  retryInMs?: number;
+  droppedFrames: number;
+  error?: string;
+}
+
+export const AUDIO_SAMPLE_RATE = 48000;
+export const AUDIO_CHANNELS = 2;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export function frameFormatToMimeType(format: FrameFormat): string | null {
+  switch (format) {
+    case FrameFormat.JPEG:
+      return 'image/jpeg';
+    case FrameFormat.WEBP:
+      return 'image/webp';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Serialize a header and payload into one binary message
+ */
+export function encodeFramePacket(header: FrameHeader, payload: Uint8Array): Uint8Array {
+  const streamIdBytes = textEncoder.encode(header.streamId);
+  if (streamIdBytes.length > 0xffff) {
+    throw new Error('Stream id is too long for the frame header');
+  }
+
+  const headerSize = FRAME_HEADER_FIXED_SIZE + streamIdBytes.length;
+  const packet = new Uint8Array(headerSize + payload.length);
+  const view = new DataView(packet.buffer);
+
+  view.setUint16(0, FRAME_MAGIC);
+  view.setUint8(2, FRAME_PROTOCOL_VERSION);
+  view.setUint8(3, header.format);
+  view.setUint8(4, header.track);
+  view.setUint8(5, 0);
+  view.setUint32(6, header.sequence >>> 0);
+  view.setFloat64(10, header.timestamp);
+  view.setUint16(18, header.width);
+  view.setUint16(20, header.height);
+  view.setUint16(22, streamIdBytes.length);
+  packet.set(streamIdBytes, FRAME_HEADER_FIXED_SIZE);
+  packet.set(payload, headerSize);
+
+  return packet;
+}
+
+/**
+ * Parse a binary message produced by encodeFramePacket.
+ * Throws when the packet is truncated or was produced by an incompatible version.
+ */
+export function decodeFramePacket(data: ArrayBuffer | Uint8Array): FramePacket {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (bytes.length < FRAME_HEADER_FIXED_SIZE) {
+    throw new Error(`Frame packet too short (${bytes.length} bytes)`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint16(0) !== FRAME_MAGIC) {
+    throw new Error('Invalid frame packet magic');
+  }
+
+  const version = view.getUint8(2);
+  if (version !== FRAME_PROTOCOL_VERSION) {
+    throw new Error(`Unsupported frame protocol version ${version}`);
+  }
+
+  const format = view.getUint8(3);
+  if (!(format in FrameFormat)) {
+    throw new Error(`Unknown frame format ${format}`);
+  }
+
+  const track = view.getUint8(4);
+  if (!(track in MediaTrack)) {
+    throw new Error(`Unknown media track ${track}`);
+  }
+
+  const streamIdLength = view.getUint16(22);
+  const headerSize = FRAME_HEADER_FIXED_SIZE + streamIdLength;
+  if (bytes.length < headerSize) {
+    throw new Error('Frame packet truncated inside stream id');
+  }
+
+  return {
+    header: {
+      format,
+      track,
+      sequence: view.getUint32(6),
+      timestamp: view.getFloat64(10),
+      width: view.getUint16(18),
+      height: view.getUint16(20),
+      streamId: textDecoder.decode(bytes.subarray(FRAME_HEADER_FIXED_SIZE, headerSize)),
+    },
+    payload: bytes.subarray(headerSize),
+  };
+}
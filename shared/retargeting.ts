@@ -0,0 +1,275 @@
+/**
+ * Skeleton retargeting shared by the rigging server and the avatar players
+ *
+ * Every avatar is animated through the VIDA humanoid rig - the VRM 1.0
+ * humanoid bone names our own rigger writes (see joint-placement.ts). A bone
+ * map links each humanoid bone to a node of the avatar's real skeleton,
+ * whatever convention that skeleton follows:
+ *
+ *   vida     hips, spine, leftUpperArm…        (VIDA rigger output)
+ *   vrm      from the VRM humanoid extension   (authoritative, no guessing)
+ *   mixamo   mixamorig:Hips, LeftArm, LeftForeArm, LeftUpLeg…
+ *   vroid    J_Bip_C_Hips, J_Bip_L_UpperArm…
+ *   unreal   pelvis, spine_01, upperarm_l, thigh_l…
+ *   rigify   DEF-spine, DEF-upper_arm.L, DEF-thigh.L…
+ *
+ * Rotations on the humanoid rig are expressed as if every bone rested with
+ * an identity world rotation (T-pose, facing +Z). Each map entry keeps the
+ * source bone's bind rotation and its parent's, both in model space, so
+ *
+ *   source local = parentRest⁻¹ · humanoid · rest
+ *
+ * turns a humanoid rotation into the local rotation of that source bone,
+ * and the inverse brings a clip authored on one skeleton onto another.
+ *
+ * Names are compared by boneKey() - lower case, letters and digits only -
+ * because three.js strips ':' and '.' from node names on load.
+ */
+
+export type Quat = [number, number, number, number];
+
+export const HUMANOID_BONES = [
+  'hips', 'spine', 'chest', 'upperChest', 'neck', 'head', 'leftEye', 'rightEye', 'jaw',
+  'leftShoulder', 'leftUpperArm', 'leftLowerArm', 'leftHand',
+  'rightShoulder', 'rightUpperArm', 'rightLowerArm', 'rightHand',
+  'leftUpperLeg', 'leftLowerLeg', 'leftFoot', 'leftToes',
+  'rightUpperLeg', 'rightLowerLeg', 'rightFoot', 'rightToes',
+  'leftThumbMetacarpal', 'leftThumbProximal', 'leftThumbDistal',
+  'leftIndexProximal', 'leftIndexIntermediate', 'leftIndexDistal',
+  'leftMiddleProximal', 'leftMiddleIntermediate', 'leftMiddleDistal',
+  'leftRingProximal', 'leftRingIntermediate', 'leftRingDistal',
+  'leftLittleProximal', 'leftLittleIntermediate', 'leftLittleDistal',
+  'rightThumbMetacarpal', 'rightThumbProximal', 'rightThumbDistal',
+  'rightIndexProximal', 'rightIndexIntermediate', 'rightIndexDistal',
+  'rightMiddleProximal', 'rightMiddleIntermediate', 'rightMiddleDistal',
+  'rightRingProximal', 'rightRingIntermediate', 'rightRingDistal',
+  'rightLittleProximal', 'rightLittleIntermediate', 'rightLittleDistal'
+] as const;
+
+export type HumanoidBoneName = typeof HUMANOID_BONES[number];
+
+export type SkeletonConvention = 'vida' | 'vrm' | 'mixamo' | 'vroid' | 'unreal' | 'rigify' | 'unknown';
+
+// One node of the avatar's skeleton, bind pose in model space
+export interface SkeletonBone {
+  name: string;
+  parent: string | null;
+  rest: Quat;
+}
+
+export interface BoneMapEntry {
+  node: string;
+  rest: Quat;
+  parentRest: Quat;
+}
+
+export interface BoneMap {
+  version: 1;
+  convention: SkeletonConvention;
+  bones: Partial<Record<HumanoidBoneName, BoneMapEntry>>;
+  // Humanoid bones assigned by hand in the bone-mapping editor
+  edited?: HumanoidBoneName[];
+}
+
+export type BoneAssignments = Partial<Record<HumanoidBoneName, string | null>>;
+
+const IDENTITY: Quat = [0, 0, 0, 1];
+
+const SIDES = [['left', 'left', 'l'], ['right', 'right', 'r']] as const;
+const FINGER_SEGMENTS: Record<string, string[]> = {
+  Thumb: ['Metacarpal', 'Proximal', 'Distal'],
+  Index: ['Proximal', 'Intermediate', 'Distal'],
+  Middle: ['Proximal', 'Intermediate', 'Distal'],
+  Ring: ['Proximal', 'Intermediate', 'Distal'],
+  Little: ['Proximal', 'Intermediate', 'Distal']
+};
+
+interface ConventionTable {
+  convention: Exclude<SkeletonConvention, 'vrm' | 'unknown'>;
+  prefix: RegExp; // stripped from the key before lookup
+  names: Map<string, HumanoidBoneName>;
+}
+
+/**
+ * Build a convention's key → humanoid table. `sided` and `fingers` get the
+ * long and short side token ("left", "l") and return the source keys.
+ */
+function table(
+  convention: ConventionTable['convention'],
+  prefix: RegExp,
+  center: Record<string, string>,
+  sided: (long: string, short: string) => Record<string, string>,
+  fingers: (long: string, short: string, finger: string, segment: number) => string
+): ConventionTable {
+  const names = new Map<string, HumanoidBoneName>();
+  for (const [key, bone] of Object.entries(center)) names.set(key, bone as HumanoidBoneName);
+
+  for (const [side, long, short] of SIDES) {
+    for (const [key, part] of Object.entries(sided(long, short))) {
+      names.set(key, `${side}${part}` as HumanoidBoneName);
+    }
+    for (const [finger, segments] of Object.entries(FINGER_SEGMENTS)) {
+      segments.forEach((segment, index) => {
+        names.set(fingers(long, short, finger.toLowerCase(), index + 1), `${side}${finger}${segment}` as HumanoidBoneName);
+      });
+    }
+  }
+  return { convention, prefix, names };
+}
+
+// In detection order: on a tie the earlier convention wins
+const CONVENTIONS: ConventionTable[] = [
+  table('vida', /^/, Object.fromEntries(
+    HUMANOID_BONES.filter(bone => !/^(left|right)/.test(bone)).map(bone => [bone.toLowerCase(), bone])
+  ), (long) => Object.fromEntries(
+    ['Shoulder', 'UpperArm', 'LowerArm', 'Hand', 'UpperLeg', 'LowerLeg', 'Foot', 'Toes', 'Eye'].map(part => [`${long}${part.toLowerCase()}`, part])
+  ), (long, _, finger, segment) => `${long}${finger}${FINGER_SEGMENTS[finger[0].toUpperCase() + finger.slice(1)][segment - 1].toLowerCase()}`),
+
+  table('mixamo', /^.*?mixamorig\d*/, {
+    hips: 'hips', spine: 'spine', spine1: 'chest', spine2: 'upperChest', neck: 'neck', head: 'head'
+  }, (long) => ({
+    [`${long}eye`]: 'Eye', [`${long}shoulder`]: 'Shoulder', [`${long}arm`]: 'UpperArm', [`${long}forearm`]: 'LowerArm',
+    [`${long}hand`]: 'Hand', [`${long}upleg`]: 'UpperLeg', [`${long}leg`]: 'LowerLeg', [`${long}foot`]: 'Foot',
+    [`${long}toebase`]: 'Toes'
+  }), (long, _, finger, segment) => `${long}hand${finger === 'little' ? 'pinky' : finger}${segment}`),
+
+  table('vroid', /^.*?j(bip|adj)/, {
+    chips: 'hips', cspine: 'spine', cchest: 'chest', cupperchest: 'upperChest', cneck: 'neck', chead: 'head'
+  }, (_, short) => ({
+    [`${short}faceeye`]: 'Eye', [`${short}shoulder`]: 'Shoulder', [`${short}upperarm`]: 'UpperArm',
+    [`${short}lowerarm`]: 'LowerArm', [`${short}hand`]: 'Hand', [`${short}upperleg`]: 'UpperLeg',
+    [`${short}lowerleg`]: 'LowerLeg', [`${short}foot`]: 'Foot', [`${short}toebase`]: 'Toes'
+  }), (_, short, finger, segment) => `${short}${finger}${segment}`),
+
+  table('unreal', /^/, {
+    pelvis: 'hips', spine01: 'spine', spine02: 'chest', spine03: 'upperChest', neck01: 'neck', head: 'head'
+  }, (_, short) => ({
+    [`clavicle${short}`]: 'Shoulder', [`upperarm${short}`]: 'UpperArm', [`lowerarm${short}`]: 'LowerArm',
+    [`hand${short}`]: 'Hand', [`thigh${short}`]: 'UpperLeg', [`calf${short}`]: 'LowerLeg', [`foot${short}`]: 'Foot',
+    [`ball${short}`]: 'Toes'
+  }), (_, short, finger, segment) => `${finger === 'little' ? 'pinky' : finger}0${segment}${short}`),
+
+  table('rigify', /^def/, {
+    spine: 'hips', spine001: 'spine', spine002: 'chest', spine003: 'upperChest', spine004: 'neck', spine006: 'head'
+  }, (_, short) => ({
+    [`shoulder${short}`]: 'Shoulder', [`upperarm${short}`]: 'UpperArm', [`forearm${short}`]: 'LowerArm',
+    [`hand${short}`]: 'Hand', [`thigh${short}`]: 'UpperLeg', [`shin${short}`]: 'LowerLeg', [`foot${short}`]: 'Foot',
+    [`toe${short}`]: 'Toes'
+  }), (_, short, finger, segment) => `${finger === 'thumb' ? 'thumb' : `f${finger === 'little' ? 'pinky' : finger}`}0${segment}${short}`)
+];
+
+// Fewer matches than this and the skeleton is treated as unknown
+const MIN_CONVENTION_MATCHES = 4;
+
+export function boneKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function lookup(entry: ConventionTable, name: string): HumanoidBoneName | undefined {
+  return entry.names.get(boneKey(name).replace(entry.prefix, ''));
+}
+
+/**
+ * The naming convention most of the skeleton's bones follow
+ */
+export function detectSkeletonConvention(boneNames: string[]): SkeletonConvention {
+  let best: SkeletonConvention = 'unknown';
+  let bestMatches = MIN_CONVENTION_MATCHES - 1;
+
+  for (const entry of CONVENTIONS) {
+    const matched = new Set(boneNames.map(name => lookup(entry, name)).filter(Boolean));
+    if (matched.size > bestMatches) {
+      best = entry.convention;
+      bestMatches = matched.size;
+    }
+  }
+  return best;
+}
+
+/**
+ * Map a skeleton onto the humanoid rig. `pinned` bones come from the file
+ * itself (a VRM's own humanoid); `assignments` are edits from the
+ * bone-mapping editor, where null leaves a humanoid bone unmapped. The rest
+ * go by the detected convention, or by every known convention when none fits.
+ */
+export function buildBoneMap(
+  skeleton: SkeletonBone[],
+  options: { convention?: SkeletonConvention; pinned?: BoneAssignments; assignments?: BoneAssignments } = {}
+): BoneMap {
+  const convention = options.convention ?? detectSkeletonConvention(skeleton.map(bone => bone.name));
+  const byName = new Map(skeleton.map(bone => [bone.name, bone]));
+  const byKey = new Map(skeleton.map(bone => [boneKey(bone.name), bone]));
+  const tables = convention === 'unknown' ? CONVENTIONS : CONVENTIONS.filter(entry => entry.convention === convention);
+
+  const nodes: Partial<Record<HumanoidBoneName, SkeletonBone>> = {};
+  for (const bone of skeleton) {
+    for (const entry of tables) {
+      const humanoid = lookup(entry, bone.name);
+      if (humanoid && !nodes[humanoid]) {
+        nodes[humanoid] = bone;
+        break;
+      }
+    }
+  }
+
+  const edited: HumanoidBoneName[] = [];
+  const assign = (assignments: BoneAssignments, record: boolean) => {
+    for (const [humanoid, node] of Object.entries(assignments) as Array<[HumanoidBoneName, string | null]>) {
+      if (!HUMANOID_BONES.includes(humanoid)) continue;
+      const bone = node === null ? undefined : byName.get(node) ?? byKey.get(boneKey(node));
+      if (node !== null && !bone) continue;
+      if (bone) nodes[humanoid] = bone;
+      else delete nodes[humanoid];
+      if (record) edited.push(humanoid);
+    }
+  };
+  assign(options.pinned ?? {}, false);
+  assign(options.assignments ?? {}, true);
+
+  const bones: BoneMap['bones'] = {};
+  for (const humanoid of HUMANOID_BONES) {
+    const bone = nodes[humanoid];
+    if (!bone) continue;
+    bones[humanoid] = {
+      node: bone.name,
+      rest: bone.rest,
+      parentRest: (bone.parent !== null ? byName.get(bone.parent)?.rest : undefined) ?? IDENTITY
+    };
+  }
+
+  return { version: 1, convention, bones, ...(edited.length > 0 ? { edited } : {}) };
+}
+
+/**
+ * Local rotation of the mapped source bone for a humanoid-space rotation
+ */
+export function toSourceRotation(entry: BoneMapEntry, humanoid: Quat): Quat {
+  return multiplyQuat(multiplyQuat(invertQuat(entry.parentRest), humanoid), entry.rest);
+}
+
+/**
+ * Humanoid-space rotation for a local rotation of the mapped source bone
+ */
+export function toHumanoidRotation(entry: BoneMapEntry, local: Quat): Quat {
+  return multiplyQuat(multiplyQuat(entry.parentRest, local), invertQuat(entry.rest));
+}
+
+export function multiplyQuat(a: Quat, b: Quat): Quat {
+  const [ax, ay, az, aw] = a;
+  const [bx, by, bz, bw] = b;
+  return [
+    ax * bw + aw * bx + ay * bz - az * by,
+    ay * bw + aw * by + az * bx - ax * bz,
+    az * bw + aw * bz + ax * by - ay * bx,
+    aw * bw - ax * bx - ay * by - az * bz
+  ];
+}
+
+// Conjugate; bone rotations are unit quaternions
+export function invertQuat([x, y, z, w]: Quat): Quat {
+  return [-x, -y, -z, w];
+}
+
+export function isBoneMap(value: unknown): value is BoneMap {
+  return !!value && typeof value === 'object' && (value as BoneMap).version === 1 && typeof (value as BoneMap).bones === 'object';
+}
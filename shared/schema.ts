@@ -75,6 +75,9 @@ export const users = pgTable("users", {
   subscriptionPlanId: text("subscription_plan_id").default("free").notNull(),
   subscriptionStatus: text("subscription_status").default("active").notNull(),
   avatarCount: integer("avatar_count").default(0).notNull(),
+
+  // Face and body ranges from the studio's calibration wizard
+  trackingCalibration: json("tracking_calibration"), // TrackingCalibration (shared/tracking-calibration.ts)
 });
 
 // RTMP Sources table for user-specific streaming configurations
@@ -188,10 +191,11 @@ export const avatars = pgTable("avatars", {
   id: bigint("id", { mode: "number" }).primaryKey().generatedByDefaultAsIdentity(),
   userId: varchar("user_id").notNull(),
   name: text("name").notNull(),
-  type: text("type").notNull(), // 2d-generated, glb-upload, preset, built-in
+  type: text("type").notNull(), // 2d-generated, glb-upload, vrm-upload, preset, built-in
   category: text("category").default("custom").notNull(), // custom, fantasy, modern, business, etc.
   thumbnailUrl: text("thumbnail_url").notNull(),
   previewUrl: text("preview_url").notNull(),
+  frontThumbnailUrl: text("front_thumbnail_url"), // Front view still, next to the 3/4 view in thumbnailUrl
   modelUrl: text("model_url").notNull(),
   fileUrl: text("file_url").notNull(), // Path to the actual file (GLB, etc.)
   ipfsHash: text("ipfs_hash"), // IPFS hash for decentralized storage
@@ -210,9 +214,10 @@ export const avatars = pgTable("avatars", {
   handTrackingEnabled: boolean("hand_tracking_enabled").default(false).notNull(),
   
   // Model quality and optimization
-  lodLevels: json("lod_levels"), // Level of detail configurations
+  lodLevels: json("lod_levels"), // AvatarLodLevel[] (shared/avatar-lod.ts), compressed copies of the rigged model
   animations: json("animations"), // Available animations
   blendShapes: json("blend_shapes"), // Facial expression blend shapes
+  vrmMeta: json("vrm_meta"), // VRM author, license and allowed usage for .vrm uploads
   
   // Access control
   isPremium: boolean("is_premium").default(false).notNull(),
@@ -290,6 +295,20 @@ export const streamingSessions = pgTable("streaming_sessions", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Local VOD recording of a session, stored as streaming_sessions.metadata.recording
+export interface StreamRecordingMetadata {
+  status: "recording" | "ready" | "failed" | "expired";
+  fileName: string; // relative to the server recordings directory
+  format: "mp4";
+  sizeBytes?: number;
+  durationSec?: number;
+  startedAt: string;
+  completedAt?: string;
+  expiresAt?: string | null; // null = kept until the user deletes it
+  trimmed?: { start: number; end: number };
+  error?: string;
+}
+
 // System logs table
 export const systemLogs = pgTable("system_logs", {
   id: serial("id").primaryKey(),
@@ -0,0 +1,191 @@
+/**
+ * Control protocol of the VIDA³ streaming gateway
+ *
+ * The studio opens one WebSocket to GATEWAY_PATH and authenticates with a
+ * `hello` carrying its Supabase access token. The gateway answers `welcome`
+ * with the verified user and plan; nothing else is accepted before that.
+ * After the handshake, JSON text frames carry the control messages below
+ * and binary frames carry media (see frame-protocol.ts).
+ *
+ * Bump GATEWAY_PROTOCOL_VERSION whenever a message changes shape; the
+ * gateway refuses clients that speak a different version.
+ */
+
+import type {
+  AudioLevelsMessage,
+  AudioSourceUpdateMessage,
+  DestinationStatusMessage,
+  FrameBackpressureMessage,
+  StreamLifecycleState,
+  StreamStateMessage,
+} from './frame-protocol';
+
+export const GATEWAY_PROTOCOL_VERSION = 1;
+export const GATEWAY_PATH = '/stream-gateway';
+
+// Close codes in the private 4000-4999 range
+export const GatewayCloseCode = {
+  UNAUTHORIZED: 4401,
+  HANDSHAKE_TIMEOUT: 4408,
+  UNSUPPORTED_VERSION: 4426,
+} as const;
+
+export type GatewayErrorCode =
+  | 'unauthorized'
+  | 'unsupported-version'
+  | 'handshake-timeout'
+  | 'invalid-message'
+  | 'stream-exists';
+
+// One requested RTMP output. Saved sources are referenced by id so their
+// stream keys never pass through the browser; ad-hoc url/key pairs are
+// still accepted for one-off destinations.
+export interface StreamDestinationRequest {
+  id?: string;
+  sourceId?: number | string;
+  name?: string;
+  bitrate?: number;
+  rtmpUrl?: string;
+  streamKey?: string;
+}
+
+// Client -> server
+
+export interface HelloMessage {
+  type: 'hello';
+  version: number;
+  token: string;
+}
+
+export interface StartStreamMessage {
+  type: 'start-stream';
+  streamId: string;
+  destinations: StreamDestinationRequest[];
+  quality?: string;
+  bitrate?: number;
+  frameRate?: number;
+  record?: boolean;
+  preview?: boolean;
+  coStreamEnabled?: boolean;
+  sessionId?: string;
+}
+
+export interface StopStreamMessage {
+  type: 'stop-stream';
+  streamId: string;
+}
+
+// Legacy PNG data-URL frame; binary frames are preferred
+export interface CanvasFrameMessage {
+  type: 'canvas-frame';
+  streamId: string;
+  frameData: string;
+}
+
+export type GatewayClientMessage =
+  | HelloMessage
+  | StartStreamMessage
+  | StopStreamMessage
+  | CanvasFrameMessage
+  | AudioSourceUpdateMessage;
+
+// Server -> client
+
+export interface WelcomeMessage {
+  type: 'welcome';
+  version: number;
+  userId: string;
+  plan: string;
+}
+
+export interface GatewayErrorMessage {
+  type: 'gateway-error';
+  code: GatewayErrorCode;
+  message: string;
+  streamId?: string;
+}
+
+export interface DestinationSummary {
+  destinationId: string;
+  name: string;
+  status: StreamLifecycleState;
+  bitrate: number;
+  encodingProfile?: unknown;
+  reconnectAttempts: number;
+  maxReconnectAttempts: number;
+  retryInMs?: number;
+  droppedFrames: number;
+  error?: string;
+}
+
+export interface StreamReadyMessage {
+  type: 'stream-ready';
+  streamId: string;
+  status: StreamLifecycleState;
+  encodingProfile: { width: number; height: number; frameRate: number; videoBitrate: number };
+  recording: boolean;
+  previewUrl?: string;
+  destinations: DestinationSummary[];
+}
+
+export interface StreamErrorMessage {
+  type: 'stream-error';
+  streamId: string;
+  error: string;
+  field?: string;
+}
+
+export interface StreamStoppedMessage {
+  type: 'stream-stopped';
+  streamId: string;
+  status: 'stopped' | 'not_found';
+}
+
+export type GatewayServerMessage =
+  | WelcomeMessage
+  | GatewayErrorMessage
+  | StreamReadyMessage
+  | StreamErrorMessage
+  | StreamStoppedMessage
+  | StreamStateMessage
+  | DestinationStatusMessage
+  | FrameBackpressureMessage
+  | AudioLevelsMessage;
+
+// Stream ids name recording and preview directories on the server
+export const STREAM_ID_PATTERN = /^[\w-]{1,64}$/;
+
+const CLIENT_MESSAGE_TYPES = new Set<GatewayClientMessage['type']>([
+  'hello',
+  'start-stream',
+  'stop-stream',
+  'canvas-frame',
+  'audio-source-update',
+]);
+
+/**
+ * Parse a JSON text frame from the studio. Returns null for anything that
+ * isn't a known message with a valid stream id (hello has none).
+ */
+export function parseGatewayClientMessage(text: string): GatewayClientMessage | null {
+  let message: any;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  if (!message || typeof message !== 'object' || !CLIENT_MESSAGE_TYPES.has(message.type)) {
+    return null;
+  }
+  if (message.type === 'hello') {
+    return typeof message.version === 'number' && typeof message.token === 'string' ? message : null;
+  }
+  if (typeof message.streamId !== 'string' || !STREAM_ID_PATTERN.test(message.streamId)) {
+    return null;
+  }
+  if (message.type === 'start-stream' && !Array.isArray(message.destinations)) {
+    return null;
+  }
+  return message;
+}
@@ -0,0 +1,76 @@
+/**
+ * Self-hosted tracking assets: the MediaPipe vision WASM and the landmarker
+ * models the tracking worker loads (see client/src/workers/tracking-worker.ts)
+ *
+ * Everything is served by our server under /tracking-assets/<version>/, so
+ * tracking works on networks that block third-party CDNs. The version is the
+ * @mediapipe/tasks-vision release the files belong to; a new release gets a
+ * new path, which lets the files be cached as immutable.
+ *
+ * A file's SHA-384 is pinned here, in source control. The fetch script
+ * refuses downloads that don't match, the server won't list files that
+ * don't match, and the client checks every download against the pinned
+ * value it was built with (Subresource Integrity), so neither a tampered
+ * server directory nor a mirror can hand the tracker a different model.
+ */
+
+export const TRACKING_ASSET_VERSION = '0.10.35';
+
+export type TrackingAssetName = 'wasmLoader' | 'wasmBinary' | 'faceModel' | 'poseModel' | 'handModel';
+
+export interface TrackingAssetSource {
+  file: string;      // path below /tracking-assets/<version>/
+  kind: 'wasm' | 'model';
+  origin: string;    // where the file comes from: an npm package path or a download URL
+  // Pinned "sha384-<base64>" of the file. Null until it has been taken from a
+  // trusted download (`npm run tracking:models` prints it); unpinned files are
+  // only checked against the server's own manifest.
+  integrity: string | null;
+}
+
+export const TRACKING_ASSET_SOURCES: Record<TrackingAssetName, TrackingAssetSource> = {
+  // The module build of the loader is the one that works in module workers
+  wasmLoader: {
+    file: 'wasm/vision_wasm_module_internal.js',
+    kind: 'wasm',
+    origin: '@mediapipe/tasks-vision/wasm/vision_wasm_module_internal.js',
+    integrity: 'sha384-AWIJUyQZ0cAVl391cOyPquRHJnuXnjGPqxU7gNbEINh/GFWu9sVyvpOFRkF/h8kj'
+  },
+  wasmBinary: {
+    file: 'wasm/vision_wasm_module_internal.wasm',
+    kind: 'wasm',
+    origin: '@mediapipe/tasks-vision/wasm/vision_wasm_module_internal.wasm',
+    integrity: 'sha384-7xREKbXhJN0GqLKAGI0JTseQ212SEV6biWWnAeCzkmjxiNlf72PQ2vF1sFFghTYR'
+  },
+  faceModel: {
+    file: 'models/face_landmarker.task',
+    kind: 'model',
+    origin: 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
+    integrity: null
+  },
+  poseModel: {
+    file: 'models/pose_landmarker_lite.task',
+    kind: 'model',
+    origin: 'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task',
+    integrity: null
+  },
+  handModel: {
+    file: 'models/hand_landmarker.task',
+    kind: 'model',
+    origin: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+    integrity: null
+  }
+};
+
+export interface TrackingAssetEntry {
+  file: string;
+  size: number;
+  integrity: string; // "sha384-<base64>", usable as fetch()'s integrity option
+}
+
+// GET /tracking-assets/manifest.json
+export interface TrackingAssetManifest {
+  version: string;
+  // Assets the server has; models that were never fetched are left out
+  assets: Partial<Record<TrackingAssetName, TrackingAssetEntry>>;
+}
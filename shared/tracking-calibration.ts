@@ -0,0 +1,135 @@
+/**
+ * Per-user tracking calibration (users.trackingCalibration)
+ *
+ * Faces and bodies differ more than MediaPipe's models assume: someone with
+ * a small mouth may never push jawOpen past 0.5, and a relaxed face often
+ * reads a little browDown or mouthSmile. The calibration wizard in the
+ * studio records the user's rest face, their widest mouth, smile, brow
+ * raise and blink, and a T-pose; the tracking worker then stretches each
+ * blendshape from the user's own rest-to-full range onto 0-1 and treats the
+ * rotations their rest poses solved to as the avatar's rest.
+ *
+ * Rotations follow shared/retargeting.ts: humanoid-rig local rotations,
+ * identity in the T-pose.
+ */
+
+import { HUMANOID_BONES, type HumanoidBoneName, type Quat } from './retargeting';
+
+export type CalibrationStepId = 'neutral' | 'mouthOpen' | 'smile' | 'browRaise' | 'blink' | 'tPose';
+
+export interface CalibrationStep {
+  id: CalibrationStepId;
+  title: string;
+  instruction: string;
+  needs: 'face' | 'body';
+  // Blendshapes whose full range this step measures
+  blendshapes: string[];
+  durationMs: number;
+}
+
+export const CALIBRATION_STEPS: CalibrationStep[] = [
+  {
+    id: 'neutral',
+    title: 'Neutral face',
+    instruction: 'Look straight at the camera with a relaxed face and your mouth closed.',
+    needs: 'face',
+    blendshapes: [],
+    durationMs: 3000
+  },
+  {
+    id: 'mouthOpen',
+    title: 'Open wide',
+    instruction: 'Open your mouth as wide as is comfortable and hold it.',
+    needs: 'face',
+    blendshapes: ['jawOpen'],
+    durationMs: 3000
+  },
+  {
+    id: 'smile',
+    title: 'Big smile',
+    instruction: 'Smile as widely as you can and hold it.',
+    needs: 'face',
+    blendshapes: ['mouthSmileLeft', 'mouthSmileRight'],
+    durationMs: 3000
+  },
+  {
+    id: 'browRaise',
+    title: 'Raise your eyebrows',
+    instruction: 'Lift both eyebrows as high as they go and hold them there.',
+    needs: 'face',
+    blendshapes: ['browInnerUp', 'browOuterUpLeft', 'browOuterUpRight'],
+    durationMs: 3000
+  },
+  {
+    id: 'blink',
+    title: 'Blink',
+    instruction: 'Close your eyes slowly, hold them shut for a moment, and repeat until the timer ends.',
+    needs: 'face',
+    blendshapes: ['eyeBlinkLeft', 'eyeBlinkRight'],
+    durationMs: 4000
+  },
+  {
+    id: 'tPose',
+    title: 'T-pose',
+    instruction: 'Step back until your upper body is in view, stretch your arms straight out to the sides, palms down, and hold.',
+    needs: 'body',
+    blendshapes: [],
+    durationMs: 4000
+  }
+];
+
+// A blendshape's weight at rest and at full effort for this user, 0-1
+export interface BlendshapeRange {
+  min: number;
+  max: number;
+}
+
+export interface TrackingCalibration {
+  version: 1;
+  calibratedAt: string;
+  blendshapes: Record<string, BlendshapeRange>;
+  // Head rotation relative to the camera while looking at the screen
+  head: Quat | null;
+  // Local rotations the user's neutral face and T-pose solved to
+  bones: Partial<Record<HumanoidBoneName, Quat>>;
+}
+
+// Ranges narrower than this are noise, not a measured expression
+export const MIN_BLENDSHAPE_RANGE = 0.1;
+
+// Rest rotations further than this from the T-pose mean the user wasn't in it
+export const MAX_REST_OFFSET_DEG = 30;
+
+function isUnitQuat(value: unknown): value is Quat {
+  return Array.isArray(value)
+    && value.length === 4
+    && value.every(component => typeof component === 'number' && Number.isFinite(component))
+    && Math.abs(Math.hypot(...value) - 1) < 1e-3;
+}
+
+function isRange(value: unknown): value is BlendshapeRange {
+  if (!value || typeof value !== 'object') return false;
+  const { min, max } = value as BlendshapeRange;
+  return typeof min === 'number' && typeof max === 'number' && min >= 0 && max <= 1 && max - min >= MIN_BLENDSHAPE_RANGE;
+}
+
+/**
+ * Checks a calibration from the client in full, since it ends up in every
+ * tracked frame
+ */
+export function isTrackingCalibration(value: unknown): value is TrackingCalibration {
+  if (!value || typeof value !== 'object') return false;
+  const calibration = value as TrackingCalibration;
+  if (calibration.version !== 1 || typeof calibration.calibratedAt !== 'string') return false;
+  if (calibration.head !== null && !isUnitQuat(calibration.head)) return false;
+
+  if (!calibration.blendshapes || typeof calibration.blendshapes !== 'object') return false;
+  const blendshapes = Object.entries(calibration.blendshapes);
+  // ARKit has 52 blendshapes
+  if (blendshapes.length > 64 || !blendshapes.every(([name, range]) => /^[a-zA-Z]+$/.test(name) && isRange(range))) return false;
+
+  if (!calibration.bones || typeof calibration.bones !== 'object') return false;
+  return Object.entries(calibration.bones).every(([bone, rotation]) =>
+    (HUMANOID_BONES as readonly string[]).includes(bone) && isUnitQuat(rotation)
+  );
+}